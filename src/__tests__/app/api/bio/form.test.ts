@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockSupabase: any = {
+  from: vi.fn(),
+  rpc: vi.fn(),
+};
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(() => mockSupabase),
+}));
+
+const mockLimit = vi.fn();
+vi.mock('@/lib/security/rate-limiter', () => ({
+  checkBioFormSubmitLimitAsync: (...args: unknown[]) => mockLimit(...args),
+  getRateLimitHeaders: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/webhooks/dispatch', () => ({ emitWebhookEvent: vi.fn() }));
+vi.mock('@/lib/email/send-lead', () => ({ deliverLeadEmails: vi.fn() }));
+
+import { POST } from '@/app/api/bio/[id]/form/route';
+
+const PAGE_ID = '11111111-1111-4111-8111-111111111111';
+
+function formRequest(headers: Record<string, string>) {
+  return new Request(`http://localhost:3000/api/bio/${PAGE_ID}/form`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify({}),
+  }) as any;
+}
+
+const params = { params: Promise.resolve({ id: PAGE_ID }) };
+
+describe('POST /api/bio/[id]/form rate limit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLimit.mockResolvedValue({ success: false });
+  });
+
+  it('keys on the IP and page, not the user agent', async () => {
+    await POST(formRequest({ 'x-forwarded-for': '203.0.113.7', 'user-agent': 'curl/8.0' }), params);
+    await POST(formRequest({ 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Mozilla/5.0' }), params);
+    await POST(formRequest({ 'x-forwarded-for': '198.51.100.1', 'user-agent': 'curl/8.0' }), params);
+
+    const keys = mockLimit.mock.calls.map(([key]) => key);
+    expect(keys[0]).toBe(keys[1]);
+    expect(keys[2]).not.toBe(keys[0]);
+    expect(keys[0]).toMatch(new RegExp(`^[0-9a-f]{16}:${PAGE_ID}$`));
+    expect(keys[0]).not.toContain('203.0.113.7');
+  });
+
+  it('rejects before touching the database', async () => {
+    const res = await POST(formRequest({ 'x-forwarded-for': '203.0.113.7' }), params);
+
+    expect(res.status).toBe(429);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
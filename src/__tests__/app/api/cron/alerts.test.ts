@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockSendEmail, mockCreateAdminClient } = vi.hoisted(() => ({
+  mockSendEmail: vi.fn(),
+  mockCreateAdminClient: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: mockCreateAdminClient,
+}));
+
+vi.mock('@/lib/email/resend', () => ({
+  sendEmail: mockSendEmail,
+}));
+
+import { GET } from '@/app/api/cron/alerts/route';
+
+const rule = {
+  id: 'rule-1',
+  org_id: 'org-1',
+  created_by: 'user-1',
+  qr_id: 'qr-1',
+  page_id: null,
+  kind: 'inactive',
+  threshold: null,
+  window_hours: 24,
+  delivery: 'immediate',
+  recipients: [],
+  is_active: true,
+  last_evaluated_at: null,
+  last_triggered_at: null,
+  last_notified_at: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  qr_codes: { name: 'Table 4', deleted_at: null as string | null },
+  bio_link_pages: null,
+};
+
+/**
+ * A fake service-role client: every query is a chainable builder that
+ * resolves from the table and the kind of call made on it.
+ */
+function fakeClient(rules: Array<typeof rule> = [rule]) {
+  const inserted: Array<{ table: string; row: Record<string, unknown> }> = [];
+  const updated: Array<{ table: string; values: Record<string, unknown> }> = [];
+  const filters: string[] = [];
+
+  function from(table: string) {
+    let op: 'select' | 'insert' | 'update' = 'select';
+    let head = false;
+    const builder: Record<string, unknown> = {};
+    for (const method of ['eq', 'in', 'gte', 'order', 'limit', 'maybeSingle']) {
+      builder[method] = () => builder;
+    }
+    builder.is = (column: string, value: unknown) => {
+      filters.push(`${column} is ${value}`);
+      return builder;
+    };
+    builder.or = (expr: string) => {
+      filters.push(`or ${expr}`);
+      return builder;
+    };
+    builder.select = (_cols: string, opts?: { head?: boolean }) => {
+      head = Boolean(opts?.head);
+      return builder;
+    };
+    builder.insert = (row: Record<string, unknown>) => {
+      op = 'insert';
+      inserted.push({ table, row });
+      return builder;
+    };
+    builder.update = (values: Record<string, unknown>) => {
+      op = 'update';
+      updated.push({ table, values });
+      return builder;
+    };
+    builder.then = (resolve: (v: unknown) => unknown) => {
+      if (op !== 'select') return Promise.resolve({ error: null }).then(resolve);
+      if (table === 'alert_rules') return Promise.resolve({ data: rules, error: null }).then(resolve);
+      if (table === 'qr_scan_events' && head) return Promise.resolve({ count: 0, error: null }).then(resolve);
+      if (table === 'alert_events') {
+        const pending = inserted
+          .filter((i) => i.table === 'alert_events')
+          .map((i, n) => ({
+            id: `evt-${n + 1}`,
+            ...i.row,
+            alert_rules: { ...rule, organizations: { default_timezone: 'UTC' } },
+          }));
+        return Promise.resolve({ data: pending, error: null }).then(resolve);
+      }
+      return Promise.resolve({ data: null, error: null }).then(resolve);
+    };
+    return builder;
+  }
+
+  const client = {
+    from: vi.fn(from),
+    rpc: vi.fn(),
+    auth: {
+      admin: {
+        getUserById: vi.fn().mockResolvedValue({ data: { user: { email: 'owner@example.com' } } }),
+      },
+    },
+  };
+  return { client, inserted, updated, filters };
+}
+
+function cronRequest(auth?: string) {
+  return new Request('http://localhost:3000/api/cron/alerts', {
+    headers: auth ? { authorization: auth } : {},
+  });
+}
+
+describe('GET /api/cron/alerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://app.example.com');
+    mockSendEmail.mockResolvedValue({ status: 'sent', providerId: 'msg-1' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects requests without the cron secret', async () => {
+    const res = await GET(cronRequest('Bearer wrong'));
+    expect(res.status).toBe(401);
+    expect(mockCreateAdminClient).not.toHaveBeenCalled();
+  });
+
+  it('fires an inactive rule and emails its creator straight away', async () => {
+    const { client, inserted, updated } = fakeClient();
+    mockCreateAdminClient.mockReturnValue(client);
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ evaluated: 1, triggered: 1, emails_sent: 1 });
+
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].row).toMatchObject({
+      rule_id: 'rule-1',
+      org_id: 'org-1',
+      message: 'QR code “Table 4” has had no scans for 24 hours.',
+    });
+
+    expect(client.auth.admin.getUserById).toHaveBeenCalledWith('user-1');
+    expect(mockSendEmail).toHaveBeenCalledTimes(1);
+    const email = mockSendEmail.mock.calls[0][0];
+    expect(email.to).toBe('owner@example.com');
+    expect(email.subject).toBe('Alert: QR code “Table 4” has had no scans for 24 hours.');
+    expect(email.html).toContain('https://app.example.com/app/alerts');
+
+    const eventUpdate = updated.find((u) => u.table === 'alert_events');
+    expect(eventUpdate?.values).toMatchObject({ email_status: 'sent' });
+    expect(updated.some((u) => u.table === 'alert_rules' && 'last_triggered_at' in u.values)).toBe(true);
+  });
+
+  it('leaves rules on deleted codes and pages out of the batch', async () => {
+    const { client, filters } = fakeClient([]);
+    mockCreateAdminClient.mockReturnValue(client);
+
+    await GET(cronRequest('Bearer cron-secret'));
+    expect(filters).toEqual(expect.arrayContaining([
+      'qr_codes.deleted_at is null',
+      'bio_link_pages.deleted_at is null',
+      'or qr_codes.not.is.null,bio_link_pages.not.is.null',
+    ]));
+  });
+
+  it('skips rules on soft-deleted QR codes but still stamps them evaluated', async () => {
+    const { client, inserted, updated } = fakeClient([
+      { ...rule, qr_codes: { name: 'Table 4', deleted_at: '2026-02-01T00:00:00.000Z' } },
+    ]);
+    mockCreateAdminClient.mockReturnValue(client);
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(await res.json()).toEqual({ evaluated: 0, triggered: 0, emails_sent: 0 });
+    expect(inserted).toHaveLength(0);
+    expect(mockSendEmail).not.toHaveBeenCalled();
+    expect(updated).toContainEqual({
+      table: 'alert_rules',
+      values: { last_evaluated_at: expect.any(String) },
+    });
+  });
+
+  it('stamps a rule that fails so it moves to the back of the queue', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client, inserted, updated } = fakeClient([{ ...rule, kind: 'new_country' }]);
+    client.rpc.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+    mockCreateAdminClient.mockReturnValue(client);
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(await res.json()).toEqual({ evaluated: 0, triggered: 0, emails_sent: 0 });
+    expect(inserted).toHaveLength(0);
+    expect(updated).toContainEqual({
+      table: 'alert_rules',
+      values: { last_evaluated_at: expect.any(String) },
+    });
+    errorSpy.mockRestore();
+  });
+
+  it('returns 500 when the rules cannot be loaded', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockCreateAdminClient.mockReturnValue({
+      from: () => {
+        const builder: Record<string, unknown> = {};
+        for (const method of ['select', 'eq', 'is', 'or', 'order', 'limit']) builder[method] = () => builder;
+        builder.then = (resolve: (v: unknown) => unknown) =>
+          Promise.resolve({ data: null, error: { message: 'boom' } }).then(resolve);
+        return builder;
+      },
+    });
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(res.status).toBe(500);
+    errorSpy.mockRestore();
+  });
+});
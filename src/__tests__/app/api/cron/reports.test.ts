@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockSendEmail, mockCreateAdminClient, mockOrgSummary } = vi.hoisted(() => ({
+  mockSendEmail: vi.fn(),
+  mockCreateAdminClient: vi.fn(),
+  mockOrgSummary: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: mockCreateAdminClient,
+}));
+
+vi.mock('@/lib/email/resend', () => ({
+  sendEmail: mockSendEmail,
+}));
+
+vi.mock('@/lib/analytics/org-summary', () => ({
+  getOrgAnalyticsSummary: mockOrgSummary,
+}));
+
+import { GET } from '@/app/api/cron/reports/route';
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sched-1',
+    org_id: 'org-1',
+    created_by: 'user-1',
+    qr_id: null,
+    page_id: null,
+    recipient_ids: ['user-1', 'user-2'],
+    is_active: true,
+    last_period: null,
+    last_sent_at: null,
+    last_status: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    organizations: { name: 'Acme', default_timezone: 'UTC' },
+    qr_codes: null,
+    bio_link_pages: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A fake service-role client: schedules and memberships resolve from
+ * fixtures, updates are recorded.
+ */
+function fakeClient(schedules: Array<Record<string, unknown>>, memberIds: string[]) {
+  const updated: Array<{ table: string; values: Record<string, unknown> }> = [];
+
+  function from(table: string) {
+    let op: 'select' | 'update' = 'select';
+    const builder: Record<string, unknown> = {};
+    for (const method of ['select', 'eq', 'in', 'order', 'limit']) {
+      builder[method] = () => builder;
+    }
+    builder.update = (values: Record<string, unknown>) => {
+      op = 'update';
+      updated.push({ table, values });
+      return builder;
+    };
+    builder.then = (resolve: (v: unknown) => unknown) => {
+      if (op === 'update') return Promise.resolve({ error: null }).then(resolve);
+      if (table === 'report_schedules') return Promise.resolve({ data: schedules, error: null }).then(resolve);
+      if (table === 'organization_members') {
+        return Promise.resolve({ data: memberIds.map((user_id) => ({ user_id })), error: null }).then(resolve);
+      }
+      return Promise.resolve({ data: null, error: null }).then(resolve);
+    };
+    return builder;
+  }
+
+  const client = {
+    from: vi.fn(from),
+    auth: {
+      admin: {
+        getUserById: vi.fn(async (id: string) => ({ data: { user: { email: `${id}@example.com` } } })),
+      },
+    },
+  };
+  return { client, updated };
+}
+
+function cronRequest(auth?: string) {
+  return new Request('http://localhost:3000/api/cron/reports', {
+    headers: auth ? { authorization: auth } : {},
+  });
+}
+
+describe('GET /api/cron/reports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-01T06:15:00Z'));
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://app.example.com');
+    mockSendEmail.mockResolvedValue({ status: 'sent', providerId: 'msg-1' });
+    mockOrgSummary.mockImplementation(async (_supabase: unknown, _orgId: string, range: unknown) => ({
+      range,
+      totals: { scans: 12, views: 4, clicks: 2, submissions: 0 },
+      previous: { from: '2026-08-01', to: '2026-08-31', scans: 10, views: 4, clicks: 1, submissions: 0 },
+      timeline: [{ date: '2026-09-01', scans: 12, views: 4, clicks: 2, submissions: 0 }],
+      top_qr_codes: [],
+      top_pages: [],
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects requests without the cron secret', async () => {
+    const res = await GET(cronRequest());
+    expect(res.status).toBe(401);
+    expect(mockCreateAdminClient).not.toHaveBeenCalled();
+  });
+
+  it('emails last month’s PDF to recipients who are still members', async () => {
+    const { client, updated } = fakeClient([schedule()], ['user-1']);
+    mockCreateAdminClient.mockReturnValue(client);
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ due: 1, reports_sent: 1, emails_sent: 1 });
+
+    expect(mockOrgSummary.mock.calls[0][2]).toMatchObject({ from: '2026-09-01', to: '2026-09-30' });
+    expect(mockSendEmail).toHaveBeenCalledTimes(1);
+    const email = mockSendEmail.mock.calls[0][0];
+    expect(email.to).toBe('user-1@example.com');
+    expect(email.subject).toBe('Acme: Monthly report · September 2026');
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0].filename).toBe('acme-report-2026-09.pdf');
+    expect(Buffer.from(email.attachments[0].content, 'base64').subarray(0, 5).toString()).toBe('%PDF-');
+
+    expect(updated).toEqual([
+      {
+        table: 'report_schedules',
+        values: { last_period: '2026-09-01', last_sent_at: '2026-10-01T06:15:00.000Z', last_status: 'sent' },
+      },
+    ]);
+  });
+
+  it('skips schedules that already have this month’s report', async () => {
+    const { client, updated } = fakeClient([schedule({ last_period: '2026-09-01' })], ['user-1']);
+    mockCreateAdminClient.mockReturnValue(client);
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(await res.json()).toEqual({ due: 0, reports_sent: 0, emails_sent: 0 });
+    expect(mockSendEmail).not.toHaveBeenCalled();
+    expect(updated).toHaveLength(0);
+  });
+
+  it('marks a schedule whose QR code was deleted as skipped', async () => {
+    const { client, updated } = fakeClient(
+      [schedule({ qr_id: 'qr-1', qr_codes: { id: 'qr-1', name: 'Gone', deleted_at: '2026-09-10T00:00:00Z' } })],
+      ['user-1']
+    );
+    mockCreateAdminClient.mockReturnValue(client);
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(await res.json()).toEqual({ due: 1, reports_sent: 0, emails_sent: 0 });
+    expect(mockSendEmail).not.toHaveBeenCalled();
+    expect(updated[0].values).toMatchObject({ last_status: 'skipped' });
+  });
+
+  it('returns 500 when the schedules cannot be loaded', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockCreateAdminClient.mockReturnValue({
+      from: () => {
+        const builder: Record<string, unknown> = {};
+        for (const method of ['select', 'eq', 'order', 'limit']) builder[method] = () => builder;
+        builder.then = (resolve: (v: unknown) => unknown) =>
+          Promise.resolve({ data: null, error: { message: 'boom' } }).then(resolve);
+        return builder;
+      },
+    });
+
+    const res = await GET(cronRequest('Bearer cron-secret'));
+    expect(res.status).toBe(500);
+    errorSpy.mockRestore();
+  });
+});
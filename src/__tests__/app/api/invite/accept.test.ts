@@ -8,6 +8,11 @@ vi.mock('@/lib/supabase/server', () => ({
   createClient: vi.fn(async () => mockSupabase),
 }));
 
+vi.mock('@/lib/webhooks/dispatch', () => ({
+  emitWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
 import { POST } from '@/app/api/invite/accept/route';
 
 function jsonRequest(body: unknown) {
@@ -165,5 +170,10 @@ describe('POST /api/invite/accept', () => {
     expect(res.status).toBe(200);
     const json = await res.json();
     expect(json.orgId).toBe('org-1');
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      'org-1',
+      'invite.accepted',
+      expect.objectContaining({ user_id: 'u1', role: 'admin' })
+    );
   });
 });
@@ -31,6 +31,17 @@ vi.mock('@/lib/email/send-invite', () => ({
   buildAcceptUrl: (base: string, token: string) => `${base}/invite/${token}`,
 }));
 
+const mockGetOrgPlan = vi.fn();
+vi.mock('@/lib/org/entitlements', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/org/entitlements')>()),
+  getOrgPlan: (...args: unknown[]) => mockGetOrgPlan(...args),
+}));
+
+const mockCountSeats = vi.fn();
+vi.mock('@/lib/org/seats', () => ({
+  countSeatsInUse: (...args: unknown[]) => mockCountSeats(...args),
+}));
+
 import { POST } from '@/app/api/org/invites/route';
 
 function jsonRequest(body: unknown) {
@@ -50,6 +61,8 @@ describe('POST /api/org/invites', () => {
       data: { users: [] },
       error: null,
     });
+    mockGetOrgPlan.mockResolvedValue('pro');
+    mockCountSeats.mockResolvedValue(1);
   });
 
   it('returns 401 when unauthenticated', async () => {
@@ -104,6 +117,34 @@ describe('POST /api/org/invites', () => {
     expect(res.status).toBe(403);
   });
 
+  it('returns 403 when a free org has no seats left', async () => {
+    mockSupabase.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'u1', email: 'owner@x.com' } },
+      error: null,
+    });
+    mockCookieStore.get.mockReturnValue({
+      value: '11111111-1111-1111-1111-111111111111',
+    });
+    mockGetOrgPlan.mockResolvedValue('free');
+    mockCountSeats.mockResolvedValue(3);
+
+    const roleSingle = vi
+      .fn()
+      .mockResolvedValue({ data: { role: 'owner' }, error: null });
+    mockSupabase.from.mockReturnValue({
+      select: () => ({ eq: () => ({ eq: () => ({ single: roleSingle }) }) }),
+    });
+
+    const res = await POST(jsonRequest({ email: 'x@x.com', role: 'member' }));
+    expect(res.status).toBe(403);
+    const json = await res.json();
+    expect(json.error).toMatch(/3 seats/);
+    expect(mockCountSeats).toHaveBeenCalledWith(
+      mockSupabase,
+      '11111111-1111-1111-1111-111111111111'
+    );
+  });
+
   it('returns 201 and inserts when owner invites a new email', async () => {
     mockSupabase.auth.getUser.mockResolvedValue({
       data: { user: { id: 'u1', email: 'owner@x.com' } },
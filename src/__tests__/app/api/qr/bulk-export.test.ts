@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+let codes: any[] = [];
+const mockSupabase: any = {
+  auth: { getUser: vi.fn() },
+  from: vi.fn(() => {
+    const chain: any = {
+      select: vi.fn(() => chain),
+      in: vi.fn(() => chain),
+      eq: vi.fn(() => chain),
+      is: vi.fn(async () => ({ data: codes, error: null })),
+    };
+    return chain;
+  }),
+};
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabase),
+}));
+
+vi.mock('@/lib/security/rate-limiter', () => ({
+  checkExportLimit: vi.fn(() => ({ success: true })),
+  getRateLimitHeaders: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/qr/scannability', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/qr/scannability')>();
+  return { checkScannability: vi.fn(actual.checkScannability) };
+});
+
+import { POST } from '@/app/api/qr/bulk/export/route';
+import { checkScannability } from '@/lib/qr/scannability';
+
+const ID_A = '11111111-1111-4111-8111-111111111111';
+const ID_B = '22222222-2222-4222-8222-222222222222';
+
+function code(id: string, slug: string, style: Record<string, unknown>) {
+  return {
+    id,
+    name: `Table ${slug}`,
+    mode: 'managed',
+    symbology: 'qr',
+    slug,
+    destination_url: 'https://example.com',
+    qr_styles: style,
+  };
+}
+
+function exportRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost:3000/api/qr/bulk/export', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ ids: [ID_A, ID_B], formats: ['svg'], ...body }),
+  }) as any;
+}
+
+describe('POST /api/qr/bulk/export scan test', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabase.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-1' } },
+      error: null,
+    });
+  });
+
+  it('checks a shared style once, on the longest content', async () => {
+    codes = [code(ID_A, 'a1', {}), code(ID_B, 'b2c3d4e5', {})];
+
+    const res = await POST(exportRequest({}));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/zip');
+    expect(checkScannability).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(checkScannability).mock.calls[0][0]).toMatch(/\/r\/b2c3d4e5$/);
+  });
+
+  it('refuses styles that fail unless allowed', async () => {
+    codes = [code(ID_A, 'a1', { foreground_color: '#EEEEEE' }), code(ID_B, 'b2', {})];
+
+    const res = await POST(exportRequest({}));
+
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(checkScannability).toHaveBeenCalledTimes(2);
+    expect(body.scan_failures).toHaveLength(1);
+    expect(body.scan_failures[0].codes).toEqual(['Table a1']);
+    expect(body.scan_failures[0].issues.length).toBeGreaterThan(0);
+
+    const allowed = await POST(exportRequest({ allow_unscannable: true }));
+    expect(allowed.status).toBe(200);
+  });
+});
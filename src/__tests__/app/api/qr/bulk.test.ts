@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockSupabase: any = {
+  auth: { getUser: vi.fn() },
+  from: vi.fn(),
+  rpc: vi.fn(),
+  storage: { from: vi.fn() },
+};
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabase),
+}));
+
+// Slugs taken in any org; the caller's own client can't see other orgs' codes
+const mockAdmin: any = { from: vi.fn() };
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(() => mockAdmin),
+}));
+
+const mockValidateUrlStrict = vi.fn();
+vi.mock('@/lib/security/url-validator-strict', () => ({
+  validateUrlStrict: (...args: unknown[]) => mockValidateUrlStrict(...args),
+}));
+
+vi.mock('@/lib/security/rate-limiter', () => ({
+  checkQrBulkCreateLimit: vi.fn(() => ({ success: true })),
+  checkApiLimit: vi.fn(() => ({ success: true })),
+  getRateLimitHeaders: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/org/get-personal-org', () => ({
+  getPersonalOrgId: vi.fn(async () => 'org-1'),
+}));
+
+vi.mock('@/lib/audit', () => ({
+  writeAuditLogs: vi.fn(),
+}));
+
+import { POST } from '@/app/api/qr/bulk/route';
+
+function jsonRequest(body: unknown) {
+  return new Request('http://localhost:3000/api/qr/bulk', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }) as any;
+}
+
+function setupSupabase(takenSlugs: string[] = []) {
+  mockSupabase.auth.getUser.mockResolvedValue({
+    data: { user: { id: 'user-1' } },
+    error: null,
+  });
+  let counter = 0;
+  mockSupabase.rpc.mockImplementation(async () => ({ data: `gen-${++counter}`, error: null }));
+
+  const insert = vi.fn(() => ({
+    select: () => ({
+      single: async () => ({ data: { id: `qr-${insert.mock.calls.length}` }, error: null }),
+    }),
+  }));
+  const styleIn = vi.fn(async () => ({ error: null as { message: string } | null }));
+  const update = vi.fn(() => ({ in: styleIn }));
+  const slugIn = vi.fn(async () => ({ data: takenSlugs.map((slug) => ({ slug })), error: null }));
+  mockAdmin.from.mockImplementation(() => ({ select: () => ({ in: slugIn }) }));
+  mockSupabase.from.mockImplementation((table: string) => {
+    if (table === 'qr_codes') return { insert };
+    if (table === 'qr_styles') return { update };
+    return {};
+  });
+  return { insert, update, styleIn, slugIn };
+}
+
+describe('POST /api/qr/bulk', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidateUrlStrict.mockImplementation(async (url: string) =>
+      url.includes('internal')
+        ? { isValid: false, error: 'URL resolves to a private or reserved IP address' }
+        : { isValid: true, normalizedUrl: url }
+    );
+  });
+
+  it('creates every row in one org with the shared style', async () => {
+    const { insert, update, styleIn } = setupSupabase();
+
+    const res = await POST(jsonRequest({
+      csv: 'name,destination_url,slug\nTable 1,https://example.com/1,table-one\nTable 2,https://example.com/2,',
+      style: { foreground_color: '#112233' },
+    }));
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.created).toHaveLength(2);
+    expect(body.failed).toEqual([]);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      org_id: 'org-1',
+      mode: 'managed',
+      slug: 'table-one',
+    }));
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ slug: 'gen-1' }));
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ foreground_color: '#112233' }));
+    expect(styleIn).toHaveBeenCalledWith('qr_id', ['qr-1', 'qr-2']);
+    expect(body.style_error).toBeNull();
+  });
+
+  it('still creates the codes but reports a style that failed to save', async () => {
+    const { styleIn } = setupSupabase();
+    styleIn.mockResolvedValueOnce({ error: { message: 'boom' } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await POST(jsonRequest({
+      csv: 'name,destination_url\nTable 1,https://example.com/1',
+      style: { foreground_color: '#112233' },
+    }));
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.created).toHaveLength(1);
+    expect(body.style_error).toBe('Style could not be applied; codes were created with the default style');
+  });
+
+  it('keeps a plain background when the background image cannot be stored', async () => {
+    const { update } = setupSupabase();
+    mockSupabase.storage.from.mockReturnValue({
+      upload: async () => ({ error: { message: 'bucket unavailable' } }),
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await POST(jsonRequest({
+      csv: 'name,destination_url\nTable 1,https://example.com/1',
+      style: {
+        foreground_color: '#112233',
+        background_mode: 'image',
+        // 1x1 white PNG
+        background_image:
+          'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC',
+      },
+    }));
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.style_error).toBe('Background image could not be saved; codes were created with a plain background');
+    const styleUpdate = (update.mock.calls[0] as unknown[])[0] as Record<string, unknown>;
+    expect(styleUpdate).toMatchObject({ foreground_color: '#112233' });
+    expect(styleUpdate).not.toHaveProperty('background_mode');
+    expect(styleUpdate).not.toHaveProperty('background_image_storage_path');
+  });
+
+  it('reports per-line errors and creates nothing when any row is invalid', async () => {
+    const { insert } = setupSupabase(['taken']);
+
+    const res = await POST(jsonRequest({
+      csv: [
+        'name,destination_url,slug',
+        ',https://example.com/a,',
+        'Ok,https://internal.example.com,',
+        'Dup A,https://example.com/b,same',
+        'Dup B,https://example.com/c,same',
+        'Taken,https://example.com/d,taken',
+        'Fine,https://example.com/e,',
+      ].join('\n'),
+    }));
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.total).toBe(6);
+    expect(body.rows.map((r: { line: number }) => r.line)).toEqual([2, 3, 5, 6]);
+    expect(body.rows[0].errors[0]).toMatch(/^name:/);
+    expect(body.rows[1].errors[0]).toMatch(/private or reserved/);
+    expect(body.rows[2].errors[0]).toBe('slug: Duplicate of line 4');
+    expect(body.rows[3].errors[0]).toBe('slug: Slug is already taken');
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a slug taken in another org before creating anything', async () => {
+    const { insert, slugIn } = setupSupabase(['their-menu']);
+
+    const res = await POST(jsonRequest({
+      csv: 'name,destination_url,slug\nMine,https://example.com/a,my-menu\nTheirs,https://example.com/b,their-menu',
+    }));
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.rows).toEqual([{ line: 3, errors: ['slug: Slug is already taken'] }]);
+    expect(mockAdmin.from).toHaveBeenCalledWith('qr_codes');
+    expect(slugIn).toHaveBeenCalledWith('slug', ['my-menu', 'their-menu']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('checks each distinct URL only once', async () => {
+    setupSupabase();
+
+    await POST(jsonRequest({
+      csv: 'name,url\nA,https://example.com/menu\nB,https://example.com/menu\nC,https://example.com/menu',
+      dry_run: true,
+    }));
+
+    expect(mockValidateUrlStrict).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates without creating on dry_run', async () => {
+    const { insert } = setupSupabase();
+
+    const res = await POST(jsonRequest({
+      csv: 'name,url\nA,https://example.com/a',
+      dry_run: true,
+    }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ valid: true, total: 1 });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a CSV without the required headers', async () => {
+    setupSupabase();
+
+    const res = await POST(jsonRequest({ csv: 'foo,bar\n1,2' }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/header/);
+  });
+});
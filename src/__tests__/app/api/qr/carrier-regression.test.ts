@@ -11,6 +11,10 @@ vi.mock('@/lib/security/url-validator', () => ({
   validateRedirectUrl: vi.fn(() => true),
 }));
 
+vi.mock('@/lib/webhooks/dispatch', () => ({
+  emitWebhookEvent: vi.fn(),
+}));
+
 import { GET } from '@/app/r/[slug]/route';
 
 function mockLookupResult(row: unknown) {
@@ -139,3 +139,214 @@ describe('POST /api/qr — carrier handling', () => {
     );
   });
 });
+
+describe('POST /api/qr — symbology', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("defaults symbology to 'qr'", async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+
+    const res = await POST(jsonRequest({
+      name: 'My Link',
+      mode: 'managed',
+      destination_url: 'https://example.com',
+    }));
+
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ symbology: 'qr' })
+    );
+  });
+
+  it('stores a direct EAN-13 with its check digit and skips URL validation', async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+    const { validateUrlStrict } = await import('@/lib/security/url-validator-strict');
+
+    const res = await POST(jsonRequest({
+      name: 'Shelf label',
+      mode: 'direct',
+      symbology: 'ean13',
+      destination_url: '590123412345',
+    }));
+
+    expect(res.status).toBe(201);
+    expect(validateUrlStrict).not.toHaveBeenCalled();
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ symbology: 'ean13', destination_url: '5901234123457', slug: null })
+    );
+  });
+
+  it('rejects a GTIN with a wrong check digit', async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+
+    const res = await POST(jsonRequest({
+      name: 'Shelf label',
+      mode: 'direct',
+      symbology: 'upca',
+      destination_url: '036000291459',
+    }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Invalid UPC-A check digit');
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('encodes the managed link in a managed Code 128', async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+
+    const res = await POST(jsonRequest({
+      name: 'Pallet label',
+      mode: 'managed',
+      symbology: 'code128',
+      destination_url: 'https://example.com',
+    }));
+
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ symbology: 'code128', destination_url: 'https://example.com/' })
+    );
+    expect((await res.json()).redirect_url).toMatch(/\/r\/generated-slug$/);
+  });
+});
+
+describe('POST /api/qr — payloads', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores a Wi-Fi payload and encodes its WIFI: text without URL validation', async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+    const { validateUrlStrict } = await import('@/lib/security/url-validator-strict');
+    const payload = { type: 'wifi', ssid: 'Cafe; Guest', security: 'WPA', password: 'espresso1' };
+
+    const res = await POST(jsonRequest({ name: 'Table talker', mode: 'direct', payload }));
+
+    expect(res.status).toBe(201);
+    expect(validateUrlStrict).not.toHaveBeenCalled();
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload_type: 'wifi',
+        payload: expect.objectContaining({ ssid: 'Cafe; Guest' }),
+        destination_url: 'WIFI:T:WPA;S:Cafe\\; Guest;P:espresso1;;',
+        slug: null,
+      })
+    );
+  });
+
+  it("stores URL codes with payload_type 'url'", async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+
+    const res = await POST(jsonRequest({ name: 'My Link', destination_url: 'https://example.com' }));
+
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ payload_type: 'url', payload: null })
+    );
+  });
+
+  it('rejects payloads too long to encode', async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+
+    const res = await POST(jsonRequest({
+      name: 'Long event',
+      mode: 'direct',
+      // Every comma is escaped, doubling the description
+      payload: {
+        type: 'event',
+        summary: 'Open mic',
+        start: '2030-03-14T19:30',
+        description: ','.repeat(1000),
+      },
+    }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Content is too long to fit in a QR code');
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/qr — contact codes', () => {
+  const personId = 'f47ac10b-58cc-4372-a567-0e02b2c3d479';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function setupContactSource(profile: { org_id: string; website: string | null; deleted_at: string | null }) {
+    const { insert } = setupInsertSuccess();
+    const qrTables = mockSupabase.from.getMockImplementation();
+    const row = (data: unknown) => ({
+      select: vi.fn(() => ({ eq: vi.fn(() => ({ single: vi.fn().mockResolvedValue({ data, error: null }) })) })),
+    });
+    mockSupabase.from.mockImplementation((table: string) => {
+      if (table === 'brand_people') return row({ id: personId, brand_profile_id: 'profile-1' });
+      if (table === 'brand_profiles') return row(profile);
+      return qrTables(table);
+    });
+    return { insert };
+  }
+
+  it('links a brand kit person and falls back to the brand website', async () => {
+    setupAuthedUser();
+    const { insert } = setupContactSource({ org_id: 'org-1', website: 'https://corner.example', deleted_at: null });
+    const { validateUrlStrict } = await import('@/lib/security/url-validator-strict');
+
+    const res = await POST(jsonRequest({ name: 'Jo card', contact: { person_id: personId } }));
+
+    expect(res.status).toBe(201);
+    expect(validateUrlStrict).not.toHaveBeenCalled();
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mode: 'managed',
+        payload_type: 'contact',
+        contact_person_id: personId,
+        contact_bio_page_id: null,
+        destination_url: 'https://corner.example',
+      })
+    );
+  });
+
+  it("returns 404 for another org's person", async () => {
+    setupAuthedUser();
+    const { insert } = setupContactSource({ org_id: 'org-2', website: null, deleted_at: null });
+
+    const res = await POST(jsonRequest({ name: 'Jo card', contact: { person_id: personId } }));
+
+    expect(res.status).toBe(404);
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/qr — slugs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rejects a chosen slug that is taken instead of replacing it', async () => {
+    setupAuthedUser();
+    const { insert } = setupInsertSuccess();
+    const single = vi.fn().mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate' } });
+    insert.mockReturnValue({ select: vi.fn(() => ({ single })) });
+
+    const res = await POST(jsonRequest({
+      name: 'Menu',
+      mode: 'managed',
+      destination_url: 'https://example.com',
+      slug: 'menu',
+    }));
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toBe('Slug is already taken');
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+});
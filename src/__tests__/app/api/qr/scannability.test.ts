@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockSupabase: any = {
+  auth: { getUser: vi.fn() },
+};
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabase),
+}));
+
+vi.mock('@/lib/security/rate-limiter', () => ({
+  checkExportLimit: vi.fn(() => ({ success: true })),
+  getRateLimitHeaders: vi.fn(() => ({})),
+}));
+
+import { POST } from '@/app/api/qr/scannability/route';
+
+function jsonRequest(body: unknown) {
+  return new Request('http://localhost:3000/api/qr/scannability', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }) as any;
+}
+
+describe('POST /api/qr/scannability', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabase.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-1' } },
+      error: null,
+    });
+  });
+
+  it('requires a signed-in user', async () => {
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const res = await POST(jsonRequest({ content: 'https://example.com' }));
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects a request without content', async () => {
+    const res = await POST(jsonRequest({ content: '', style: {} }));
+    expect(res.status).toBe(400);
+  });
+
+  it('reports on the style as sent', async () => {
+    const res = await POST(jsonRequest({
+      content: 'https://example.com/r/abc123',
+      style: { foreground_color: '#EEEEEE' },
+    }));
+
+    expect(res.status).toBe(200);
+    const report = await res.json();
+    expect(report.passed).toBe(false);
+    expect(report.contrast.score).toBe(0);
+    expect(report.attempts).toHaveLength(9);
+  });
+
+  it('checks logos as their blank backing', async () => {
+    const res = await POST(jsonRequest({
+      content: 'https://example.com/r/abc123',
+      style: { error_correction: 'M', logo_size_ratio: 0.3 },
+      logo_mode: 'upload',
+    }));
+
+    const report = await res.json();
+    expect(report.logoCoverage.ratio).toBeGreaterThan(0.15);
+    expect(report.passed).toBe(false);
+  });
+
+  it('rejects a background image sharp cannot read', async () => {
+    const res = await POST(jsonRequest({
+      content: 'https://example.com/r/abc123',
+      style: { background_mode: 'image', background_image: 'data:image/png;base64,AAAA' },
+    }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Background image could not be read');
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 const mockSupabase: any = {
   auth: { getUser: vi.fn() },
   from: vi.fn(),
+  storage: { from: vi.fn() },
 };
 vi.mock('@/lib/supabase/server', () => ({
   createClient: vi.fn(async () => mockSupabase),
@@ -71,6 +72,11 @@ function setupExistingQR(mode: 'managed' | 'direct' = 'managed') {
     .mockResolvedValue({ data: { id: VALID_UUID, carrier: 'qr' } });
   const fetchEqSingle = vi.fn(() => ({ single: fetchSingle }));
 
+  // style update chain: from('qr_styles').update().eq()
+  const styleUpdate = vi.fn((_update: Record<string, unknown>) => ({
+    eq: vi.fn().mockResolvedValue({ error: null }),
+  }));
+
   // Use a call counter so mockImplementation (not Once) routes correctly
   let qrFromCallCount = 0;
   mockSupabase.from.mockImplementation((table: string) => {
@@ -80,20 +86,17 @@ function setupExistingQR(mode: 'managed' | 'direct' = 'managed') {
         // ownership fetch: select().eq().eq().is().single()
         return { select: vi.fn(() => ({ eq: eq1 })), update };
       }
-      if (qrFromCallCount === 2) {
-        // update: .update().eq().eq()
-        return { update };
-      }
-      // re-fetch: select().eq().single()
-      return { select: vi.fn(() => ({ eq: fetchEqSingle })) };
+      // update: .update().eq().eq(), then re-fetch: select().eq().single()
+      // (style-only updates go straight to the re-fetch)
+      return { update, select: vi.fn(() => ({ eq: fetchEqSingle })) };
     }
     if (table === 'qr_styles') {
-      return { update: vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ error: null }) })) };
+      return { update: styleUpdate };
     }
     return {};
   });
 
-  return { update };
+  return { update, styleUpdate };
 }
 
 async function callPatch(body: unknown) {
@@ -143,3 +146,87 @@ describe('PATCH /api/qr/[id] — carrier handling', () => {
     );
   });
 });
+
+// 1x1 white PNG
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC';
+
+describe('PATCH /api/qr/[id] — style', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('writes gradient, eye colour and background columns', async () => {
+    setupAuthedUser();
+    const { styleUpdate } = setupExistingQR();
+
+    const res = await callPatch({
+      style: {
+        gradient_type: 'linear',
+        gradient_color: '#3366FF',
+        gradient_angle: 45,
+        eye_outer_color: '#FF0000',
+        eye_inner_color: null,
+        background_mode: 'transparent',
+        module_shape: 'vertical-bars',
+        eye_shape: 'leaf',
+      },
+    });
+
+    expect(res.status).toBe(200);
+    expect(styleUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      gradient_type: 'linear',
+      gradient_color: '#3366FF',
+      gradient_angle: 45,
+      eye_outer_color: '#FF0000',
+      eye_inner_color: null,
+      background_mode: 'transparent',
+      module_shape: 'vertical-bars',
+      eye_shape: 'leaf',
+    }));
+    expect(styleUpdate.mock.calls[0][0]).not.toHaveProperty('background_image_storage_path');
+  });
+
+  it('stores a background image under the owner folder', async () => {
+    setupAuthedUser();
+    const { styleUpdate } = setupExistingQR();
+    const upload = vi.fn().mockResolvedValue({ error: null });
+    mockSupabase.storage.from.mockReturnValue({ upload });
+
+    const res = await callPatch({ style: { background_mode: 'image', background_image: PNG_DATA_URL } });
+
+    expect(res.status).toBe(200);
+    expect(mockSupabase.storage.from).toHaveBeenCalledWith('qr-logos');
+    const [path, body, options] = upload.mock.calls[0];
+    expect(path).toMatch(/^user-1\/backgrounds\/[0-9a-f]{32}\.jpg$/);
+    expect(Buffer.isBuffer(body)).toBe(true);
+    expect(options).toMatchObject({ contentType: 'image/jpeg' });
+    expect(styleUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      background_mode: 'image',
+      background_image_storage_path: path,
+    }));
+  });
+
+  it('rejects a background image that is not an image', async () => {
+    setupAuthedUser();
+    setupExistingQR();
+
+    const res = await callPatch({ style: { background_image: 'data:image/png;base64,bm90IGFuIGltYWdl' } });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Background image could not be read');
+  });
+
+  it('clears the background image with null', async () => {
+    setupAuthedUser();
+    const { styleUpdate } = setupExistingQR();
+
+    const res = await callPatch({ style: { background_mode: 'solid', background_image: null } });
+
+    expect(res.status).toBe(200);
+    expect(styleUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      background_mode: 'solid',
+      background_image_storage_path: null,
+    }));
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockAuthenticate = vi.fn();
+vi.mock('@/lib/api-keys/authenticate', () => ({
+  authenticateApiKey: (...args: unknown[]) => mockAuthenticate(...args),
+}));
+
+const mockValidateUrlStrict = vi.fn();
+vi.mock('@/lib/security/url-validator-strict', () => ({
+  validateUrlStrict: (...args: unknown[]) => mockValidateUrlStrict(...args),
+}));
+
+vi.mock('@/lib/audit', () => ({
+  writeAuditLog: vi.fn(),
+  determineUpdateAction: vi.fn(() => 'updated'),
+}));
+
+import { NextResponse } from 'next/server';
+import { GET, POST } from '@/app/api/v1/qr/route';
+import { writeAuditLog } from '@/lib/audit';
+
+const rateLimit = { success: true, limit: 120, remaining: 119, resetAt: 0 };
+const key = { keyId: 'key-1', orgId: 'org-1', createdBy: 'user-1', scopes: ['read', 'write'] };
+
+function authenticatedWith(supabase: unknown) {
+  mockAuthenticate.mockResolvedValue({ ok: true, key, rateLimit, supabase });
+}
+
+function request(method: string, body?: unknown) {
+  return new Request('http://localhost:3000/api/v1/qr?limit=10', {
+    method,
+    headers: { authorization: 'Bearer lynx_test', 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }) as any;
+}
+
+describe('/api/v1/qr', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidateUrlStrict.mockImplementation(async (url: string) => ({ isValid: true, normalizedUrl: url }));
+  });
+
+  it('returns the auth failure response untouched', async () => {
+    mockAuthenticate.mockResolvedValue({
+      ok: false,
+      response: NextResponse.json({ error: 'Invalid API key' }, { status: 401 }),
+    });
+
+    const res = await GET(request('GET'));
+
+    expect(res.status).toBe(401);
+    expect(mockAuthenticate).toHaveBeenCalledWith(expect.anything(), 'read');
+  });
+
+  it('GET lists codes scoped to the key organisation', async () => {
+    const range = vi.fn().mockResolvedValue({ data: [{ id: 'qr-1' }], error: null, count: 1 });
+    const order = vi.fn().mockReturnValue({ range });
+    const is = vi.fn().mockReturnValue({ order });
+    const eq = vi.fn().mockReturnValue({ is });
+    const select = vi.fn().mockReturnValue({ eq });
+    authenticatedWith({ from: vi.fn().mockReturnValue({ select }) });
+
+    const res = await GET(request('GET'));
+
+    expect(res.status).toBe(200);
+    expect(eq).toHaveBeenCalledWith('org_id', 'org-1');
+    expect(range).toHaveBeenCalledWith(0, 9);
+    expect(await res.json()).toEqual({
+      data: [{ id: 'qr-1' }],
+      pagination: { total: 1, limit: 10, offset: 0 },
+    });
+  });
+
+  it('POST requires the write scope and creates in the key organisation', async () => {
+    const insertSingle = vi.fn().mockResolvedValue({ data: { id: 'qr-new' }, error: null });
+    const insert = vi.fn().mockReturnValue({ select: () => ({ single: insertSingle }) });
+    const fetchSingle = vi.fn().mockResolvedValue({ data: { id: 'qr-new', slug: 'gen-slug' }, error: null });
+    const select = vi.fn().mockReturnValue({ eq: () => ({ single: fetchSingle }) });
+    const supabase = {
+      from: vi.fn(() => ({ insert, select })),
+      rpc: vi.fn().mockResolvedValue({ data: 'gen-slug', error: null }),
+    };
+    authenticatedWith(supabase);
+
+    const res = await POST(request('POST', {
+      name: 'Menu',
+      mode: 'managed',
+      destination_url: 'https://example.com/menu',
+    }));
+
+    expect(mockAuthenticate).toHaveBeenCalledWith(expect.anything(), 'write');
+    expect(res.status).toBe(201);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      owner_id: 'user-1',
+      org_id: 'org-1',
+      slug: 'gen-slug',
+    }));
+    const body = await res.json();
+    expect(body.id).toBe('qr-new');
+    expect(body.redirect_url).toMatch(/\/r\/gen-slug$/);
+    expect(writeAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      actorId: 'user-1',
+      newValue: expect.objectContaining({ api_key_id: 'key-1' }),
+    }));
+  });
+
+  it('POST rejects an invalid body with 400', async () => {
+    authenticatedWith({ from: vi.fn() });
+
+    const res = await POST(request('POST', { name: '', mode: 'managed' }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Validation error');
+  });
+});
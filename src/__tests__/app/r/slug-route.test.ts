@@ -1,6 +1,7 @@
 // src/__tests__/app/r/slug-route.test.ts
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { NextRequest } from 'next/server';
+import sharp from 'sharp';
 
 // Mock the admin client module before importing the route handler.
 vi.mock('@/lib/supabase/admin', () => ({
@@ -12,37 +13,82 @@ vi.mock('@/lib/security/url-validator', () => ({
   validateRedirectUrl: vi.fn().mockReturnValue(true),
 }));
 
+// Webhooks are covered by their own tests.
+vi.mock('@/lib/webhooks/dispatch', () => ({
+  emitWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
 import { createAdminClient } from '@/lib/supabase/admin';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
 import { GET } from '@/app/r/[slug]/route';
 
 type QrRow = {
   id: string;
+  org_id?: string | null;
+  payload_type?: string;
+  contact_person_id?: string | null;
+  contact_bio_page_id?: string | null;
   destination_url: string;
+  destination_rules?: unknown[];
+  destination_variants?: unknown[];
+  utm?: Record<string, string> | null;
   is_active: boolean;
   analytics_enabled: boolean;
+  organizations?: { default_timezone: string | null; conversion_key?: string | null } | null;
 };
 
-function mockAdminClientWith(row: QrRow | null, error: unknown = null) {
+/** A table mock answering .select().eq()…single() with one row, if every .eq() matches it */
+function singleRowTable(row: Record<string, unknown> | null) {
+  let matches = row !== null;
+  const query: any = {
+    eq: vi.fn((column: string, value: unknown) => {
+      if (row && column in row && row[column] !== value) matches = false;
+      return query;
+    }),
+    single: vi.fn(async () =>
+      matches ? { data: row, error: null } : { data: null, error: { code: 'PGRST116' } }
+    ),
+  };
+  return { select: vi.fn().mockReturnValue(query) };
+}
+
+function mockAdminClientWith(
+  row: QrRow | null,
+  error: unknown = null,
+  tables: Record<string, unknown> = {},
+  photo: Blob | null = null
+) {
   const single = vi.fn().mockResolvedValue({ data: row, error });
   const eqMode = vi.fn().mockReturnValue({ single });
   const eqSlug = vi.fn().mockReturnValue({ eq: eqMode });
   const select = vi.fn().mockReturnValue({ eq: eqSlug });
   const from = vi.fn().mockReturnValue({ select });
   const insert = vi.fn().mockResolvedValue({ error: null });
+  const clickInsert = vi.fn().mockResolvedValue({ error: null });
 
   // Second from() call (for scan_events insert) also routes through from.
   from.mockImplementation((table: string) => {
     if (table === 'qr_codes') return { select };
     if (table === 'qr_scan_events') return { insert };
+    if (table === 'conversion_clicks') return { insert: clickInsert };
+    if (table in tables) return tables[table];
     throw new Error(`Unexpected table: ${table}`);
   });
 
-  (createAdminClient as ReturnType<typeof vi.fn>).mockReturnValue({ from });
-  return { from, select, insert };
+  // Today's visitor hash salt
+  const rpc = vi.fn().mockResolvedValue({ data: 'day-salt', error: null });
+
+  const download = vi.fn().mockResolvedValue(
+    photo ? { data: photo, error: null } : { data: null, error: { message: 'not found' } }
+  );
+  const storage = { from: vi.fn().mockReturnValue({ download }) };
+
+  (createAdminClient as ReturnType<typeof vi.fn>).mockReturnValue({ from, rpc, storage });
+  return { from, select, insert, clickInsert, storage };
 }
 
-function mkRequest() {
-  return new NextRequest('http://localhost:3000/r/test-slug', {
+function mkRequest(url = 'http://localhost:3000/r/test-slug') {
+  return new NextRequest(url, {
     headers: { 'user-agent': 'test' },
   });
 }
@@ -108,10 +154,187 @@ describe('GET /r/[slug]', () => {
     // means the redirect handler's contract has changed — deliberate change
     // required.
     expect(select).toHaveBeenCalledWith(
-      'id, destination_url, is_active, analytics_enabled'
+      'id, org_id, payload_type, contact_person_id, contact_bio_page_id, destination_url, destination_rules, destination_variants, utm, is_active, analytics_enabled, organizations(default_timezone, conversion_key)'
+    );
+  });
+
+  it('appends the code\'s UTM tags ahead of the destination fragment', async () => {
+    mockAdminClientWith({
+      id: 'qr-1',
+      destination_url: 'https://example.com/menu?table=4#drinks',
+      utm: { source: 'table-tent', medium: 'qr', campaign: 'summer menu' },
+      is_active: true,
+      analytics_enabled: false,
+    });
+
+    const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+    expect(res.headers.get('location')).toBe(
+      'https://example.com/menu?table=4&utm_source=table-tent&utm_medium=qr&utm_campaign=summer+menu#drinks'
     );
   });
 
+  it('tags the destination with a click ID when the org tracks conversions', async () => {
+    const { clickInsert } = mockAdminClientWith({
+      id: 'qr-1',
+      org_id: 'org-1',
+      destination_url: 'https://example.com/menu#drinks',
+      is_active: true,
+      analytics_enabled: true,
+      organizations: { default_timezone: null, conversion_key: 'osck_test' },
+    });
+
+    const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+    const location = new URL(res.headers.get('location')!);
+    const clickId = location.searchParams.get('os_click');
+    expect(clickId).toMatch(/^[0-9a-f]{32}$/);
+    expect(location.hash).toBe('#drinks');
+
+    await vi.waitFor(() => expect(clickInsert).toHaveBeenCalled());
+    expect(clickInsert.mock.calls[0][0]).toMatchObject({
+      id: clickId,
+      org_id: 'org-1',
+      qr_id: 'qr-1',
+      page_id: null,
+    });
+  });
+
+  it('does not add a click ID when conversion tracking is off or analytics are disabled', async () => {
+    const { clickInsert } = mockAdminClientWith({
+      id: 'qr-1',
+      org_id: 'org-1',
+      destination_url: 'https://example.com/menu',
+      is_active: true,
+      analytics_enabled: false,
+      organizations: { default_timezone: null, conversion_key: 'osck_test' },
+    });
+
+    const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+    expect(res.headers.get('location')).toBe('https://example.com/menu');
+    expect(clickInsert).not.toHaveBeenCalled();
+  });
+
+  describe('scheduled destination rules', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const rules = [
+      {
+        id: 'lunch',
+        destination_url: 'https://example.com/lunch',
+        start_time: '11:30',
+        end_time: '15:00',
+      },
+    ];
+
+    it('redirects to the matching rule evaluated in the org timezone', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      // 11:00 UTC in June = 12:00 BST
+      vi.setSystemTime(new Date('2026-06-10T11:00:00Z'));
+
+      mockAdminClientWith({
+        id: 'qr-1',
+        destination_url: 'https://example.com/menu',
+        destination_rules: rules,
+        is_active: true,
+        analytics_enabled: false,
+        organizations: { default_timezone: 'Europe/London' },
+      });
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+      expect(res.headers.get('location')).toBe('https://example.com/lunch');
+    });
+
+    it('falls back to destination_url when no rule matches', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-06-10T11:00:00Z'));
+
+      mockAdminClientWith({
+        id: 'qr-1',
+        destination_url: 'https://example.com/menu',
+        destination_rules: rules,
+        is_active: true,
+        analytics_enabled: false,
+        // 07:00 in New York — outside the lunch window
+        organizations: { default_timezone: 'America/New_York' },
+      });
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+      expect(res.headers.get('location')).toBe('https://example.com/menu');
+    });
+  });
+
+  describe('A/B split variants', () => {
+    const variants = [
+      { id: 'a', destination_url: 'https://example.com/a', weight: 50 },
+      { id: 'b', destination_url: 'https://example.com/b', weight: 50 },
+    ];
+
+    it('redirects to a variant and records it on the scan event', async () => {
+      const { insert } = mockAdminClientWith({
+        id: 'qr-1',
+        destination_url: 'https://example.com/menu',
+        destination_variants: variants,
+        is_active: true,
+        analytics_enabled: true,
+      });
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+      await new Promise((r) => setTimeout(r, 0));
+
+      const location = res.headers.get('location');
+      expect(['https://example.com/a', 'https://example.com/b']).toContain(location);
+
+      const row = insert.mock.calls[0][0];
+      expect(row.variant_id).toBe(location === 'https://example.com/a' ? 'a' : 'b');
+    });
+
+    it('keeps the same visitor on the same variant', async () => {
+      const locations = new Set<string | null>();
+      for (let i = 0; i < 5; i++) {
+        mockAdminClientWith({
+          id: 'qr-1',
+          destination_url: 'https://example.com/menu',
+          destination_variants: variants,
+          is_active: true,
+          analytics_enabled: false,
+        });
+        const res = await GET(mkRequest(), paramsFor('test-slug'));
+        locations.add(res.headers.get('location'));
+      }
+      expect(locations.size).toBe(1);
+    });
+
+    it('lets a matching scheduled rule override the split', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-06-10T11:00:00Z'));
+
+      const { insert } = mockAdminClientWith({
+        id: 'qr-1',
+        destination_url: 'https://example.com/menu',
+        destination_rules: [
+          { id: 'lunch', destination_url: 'https://example.com/lunch', start_time: '11:30', end_time: '15:00' },
+        ],
+        destination_variants: variants,
+        is_active: true,
+        analytics_enabled: true,
+        organizations: { default_timezone: 'Europe/London' },
+      });
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+      vi.useRealTimers();
+      await new Promise((r) => setTimeout(r, 0));
+
+      expect(res.headers.get('location')).toBe('https://example.com/lunch');
+      expect(insert.mock.calls[0][0].variant_id).toBeNull();
+    });
+  });
+
   it('records a scan event when analytics_enabled is true', async () => {
     const { insert } = mockAdminClientWith({
       id: 'qr-1',
@@ -128,6 +351,89 @@ describe('GET /r/[slug]', () => {
     expect(insert).toHaveBeenCalledTimes(1);
   });
 
+  it('attributes scans to NFC only when the URL carries ?m=nfc', async () => {
+    const { insert } = mockAdminClientWith({
+      id: 'qr-1',
+      org_id: 'org-1',
+      destination_url: 'https://example.com/menu',
+      is_active: true,
+      analytics_enabled: true,
+    });
+
+    await GET(mkRequest('http://localhost:3000/r/test-slug?m=nfc'), paramsFor('test-slug'));
+    await GET(mkRequest(), paramsFor('test-slug'));
+    await GET(mkRequest('http://localhost:3000/r/test-slug?m=bogus'), paramsFor('test-slug'));
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(insert.mock.calls.map((c) => c[0].medium)).toEqual(['nfc', 'qr', 'qr']);
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      'org-1',
+      'qr.scanned',
+      expect.objectContaining({ medium: 'nfc' })
+    );
+  });
+
+  it('passes the medium on to our own bio pages only', async () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://lynx.example');
+    mockAdminClientWith({
+      id: 'qr-1',
+      destination_url: 'https://lynx.example/p/sam',
+      is_active: true,
+      analytics_enabled: false,
+    });
+
+    const tap = await GET(mkRequest('http://localhost:3000/r/test-slug?m=nfc'), paramsFor('test-slug'));
+    const scan = await GET(mkRequest(), paramsFor('test-slug'));
+    vi.unstubAllEnvs();
+
+    expect(tap.headers.get('location')).toBe('https://lynx.example/p/sam?m=nfc');
+    expect(scan.headers.get('location')).toBe('https://lynx.example/p/sam?m=qr');
+  });
+
+  it('flags link previews and prefetches as bot scans but still redirects them', async () => {
+    const { insert } = mockAdminClientWith({
+      id: 'qr-1',
+      org_id: 'org-1',
+      destination_url: 'https://example.com/menu',
+      is_active: true,
+      analytics_enabled: true,
+    });
+    const withHeaders = (headers: Record<string, string>) =>
+      new NextRequest('http://localhost:3000/r/test-slug', { headers });
+
+    const res = await GET(withHeaders({ 'user-agent': 'WhatsApp/2.23.20.0 A' }), paramsFor('test-slug'));
+    await GET(withHeaders({ 'user-agent': 'Mozilla/5.0 (iPhone) Safari/604.1', 'sec-purpose': 'prefetch' }), paramsFor('test-slug'));
+    await GET(withHeaders({ 'user-agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148 Safari/604.1' }), paramsFor('test-slug'));
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(res.status).toBe(307);
+    expect(insert.mock.calls.map((c) => c[0].is_bot)).toEqual([true, true, false]);
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      'org-1',
+      'qr.scanned',
+      expect.objectContaining({ is_bot: true })
+    );
+  });
+
+  it('emits a qr.scanned webhook after recording the scan', async () => {
+    mockAdminClientWith({
+      id: 'qr-1',
+      org_id: 'org-1',
+      destination_url: 'https://example.com/menu',
+      is_active: true,
+      analytics_enabled: true,
+    });
+
+    await GET(mkRequest(), paramsFor('test-slug'));
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      'org-1',
+      'qr.scanned',
+      expect.objectContaining({ qr_id: 'qr-1', slug: 'test-slug', variant_id: null })
+    );
+  });
+
   it('does not record a scan event when analytics_enabled is false', async () => {
     const { insert } = mockAdminClientWith({
       id: 'qr-1',
@@ -141,4 +447,152 @@ describe('GET /r/[slug]', () => {
 
     expect(insert).not.toHaveBeenCalled();
   });
+
+  describe('contact codes', () => {
+    const person = {
+      id: 'person-1',
+      brand_profile_id: 'profile-1',
+      full_name: 'Jo Bloggs',
+      role: 'Head Barista',
+      email: 'jo@example.com',
+      phone: '+44 20 7946 0000',
+      mobile: null,
+      address: null,
+      photo_storage_path: 'org-1/people/person-1/photo.png',
+      updated_at: '2026-03-01T10:00:00Z',
+    };
+    const profile = { name: 'Corner Café', website: 'https://corner.example', deleted_at: null };
+    const contactQr = {
+      id: 'qr-1',
+      org_id: 'org-1',
+      payload_type: 'contact',
+      contact_person_id: 'person-1',
+      contact_bio_page_id: null,
+      destination_url: 'https://corner.example',
+      is_active: true,
+      analytics_enabled: true,
+    };
+
+    it('serves a vCard built from the brand kit person, with the photo embedded', async () => {
+      const png = await sharp({
+        create: { width: 600, height: 400, channels: 3, background: '#58a386' },
+      }).png().toBuffer();
+      const { insert, storage } = mockAdminClientWith(
+        contactQr,
+        null,
+        { brand_people: singleRowTable(person), brand_profiles: singleRowTable(profile) },
+        new Blob([new Uint8Array(png)])
+      );
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+      await new Promise((r) => setTimeout(r, 0));
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('text/vcard; charset=utf-8');
+      expect(res.headers.get('content-disposition')).toContain('filename="Jo Bloggs.vcf"');
+      expect(res.headers.get('cache-control')).toBe('no-store');
+
+      const vcf = await res.text();
+      expect(vcf).toContain('FN:Jo Bloggs');
+      expect(vcf).toContain('ORG:Corner Café');
+      expect(vcf).toContain('TITLE:Head Barista');
+      expect(vcf).toContain('PHOTO;ENCODING=b;TYPE=JPEG:');
+      expect(storage.from).toHaveBeenCalledWith('brand-assets');
+      expect(insert).toHaveBeenCalledTimes(1);
+    });
+
+    it('encodes a photo once and re-encodes it after the person changes', async () => {
+      const png = await sharp({
+        create: { width: 300, height: 300, channels: 3, background: '#2b4c7e' },
+      }).png().toBuffer();
+      const scan = async (updatedAt: string) => {
+        const { storage } = mockAdminClientWith(
+          { ...contactQr, analytics_enabled: false },
+          null,
+          {
+            brand_people: singleRowTable({ ...person, updated_at: updatedAt }),
+            brand_profiles: singleRowTable(profile),
+          },
+          new Blob([new Uint8Array(png)])
+        );
+        const vcf = await (await GET(mkRequest(), paramsFor('test-slug'))).text();
+        return { vcf, downloads: storage.from.mock.calls.length };
+      };
+
+      const first = await scan('2026-04-01T10:00:00Z');
+      const second = await scan('2026-04-01T10:00:00Z');
+      const edited = await scan('2026-04-02T10:00:00Z');
+
+      expect(first.downloads).toBe(1);
+      expect(second.downloads).toBe(0);
+      expect(second.vcf).toBe(first.vcf);
+      expect(edited.downloads).toBe(1);
+    });
+
+    it('serves a vCard from a bio page\'s contact fields', async () => {
+      mockAdminClientWith(
+        { ...contactQr, contact_person_id: null, contact_bio_page_id: 'page-1', analytics_enabled: false },
+        null,
+        {
+          bio_link_pages: singleRowTable({
+            title: 'Sam Lee',
+            slug: 'sam',
+            company: 'Lee & Co',
+            job_title: 'Florist',
+            contact_email: 'sam@example.com',
+            contact_phone: '07700 900000',
+            contact_website: null,
+            location: 'Leeds',
+            avatar_storage_path: null,
+            updated_at: '2026-03-01T10:00:00Z',
+            is_active: true,
+            deleted_at: null,
+          }),
+        }
+      );
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+      const vcf = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(vcf).toContain('N:Lee;Sam;;;');
+      expect(vcf).toContain('ORG:Lee & Co');
+      expect(vcf).toContain('TEL;TYPE=WORK:07700 900000');
+      expect(vcf).toMatch(/URL:.*\/p\/sam/);
+      expect(vcf).not.toContain('PHOTO');
+    });
+
+    it('redirects to destination_url while the bio page is unpublished', async () => {
+      mockAdminClientWith(
+        { ...contactQr, contact_person_id: null, contact_bio_page_id: 'page-1', analytics_enabled: false },
+        null,
+        {
+          bio_link_pages: singleRowTable({
+            title: 'Sam Lee',
+            slug: 'sam',
+            avatar_storage_path: null,
+            updated_at: '2026-03-01T10:00:00Z',
+            is_active: false,
+            deleted_at: null,
+          }),
+        }
+      );
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+      expect(res.status).toBe(307);
+      expect(res.headers.get('location')).toBe('https://corner.example/');
+    });
+
+    it('redirects to destination_url once the person has been deleted', async () => {
+      mockAdminClientWith(
+        { ...contactQr, contact_person_id: null, analytics_enabled: false }
+      );
+
+      const res = await GET(mkRequest(), paramsFor('test-slug'));
+
+      expect(res.status).toBe(307);
+      expect(res.headers.get('location')).toBe('https://corner.example/');
+    });
+  });
 });
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateAlertRule,
+  isNotificationDue,
+  lastDigestSlot,
+  statsNeeded,
+} from '@/lib/alerts/rules';
+import type { AlertRuleRecord } from '@/types/alert';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z'); // a Tuesday
+
+function rule(overrides: Partial<AlertRuleRecord> = {}): AlertRuleRecord {
+  return {
+    id: 'rule-1',
+    org_id: 'org-1',
+    created_by: 'user-1',
+    qr_id: 'qr-1',
+    page_id: null,
+    kind: 'inactive',
+    threshold: null,
+    window_hours: 24,
+    delivery: 'immediate',
+    recipients: [],
+    is_active: true,
+    last_evaluated_at: null,
+    last_triggered_at: null,
+    last_notified_at: null,
+    created_at: '2026-03-01T00:00:00.000Z',
+    updated_at: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const qr = { type: 'qr' as const, name: 'Table 4' };
+const bio = { type: 'bio' as const, name: 'Menu' };
+
+describe('statsNeeded', () => {
+  it('maps each kind to the one stat it needs', () => {
+    expect(statsNeeded('first_scan')).toBe('firstAt');
+    expect(statsNeeded('new_country')).toBe('newCountries');
+    expect(statsNeeded('volume_above')).toBe('windowCount');
+    expect(statsNeeded('volume_below')).toBe('windowCount');
+    expect(statsNeeded('inactive')).toBe('windowCount');
+  });
+});
+
+describe('evaluateAlertRule', () => {
+  it('fires first_scan once for a scan after the rule was created', () => {
+    const r = rule({ kind: 'first_scan', window_hours: null });
+    const trigger = evaluateAlertRule(r, qr, { firstAt: '2026-03-09T10:00:00.000Z' }, NOW);
+    expect(trigger?.message).toBe('QR code “Table 4” got its first scan.');
+
+    expect(
+      evaluateAlertRule({ ...r, last_triggered_at: '2026-03-09T11:00:00.000Z' }, qr, { firstAt: '2026-03-09T10:00:00.000Z' }, NOW)
+    ).toBeNull();
+  });
+
+  it('does not fire first_scan for a target that was scanned before the rule existed', () => {
+    const r = rule({ kind: 'first_scan', window_hours: null });
+    expect(evaluateAlertRule(r, qr, { firstAt: '2026-02-01T00:00:00.000Z' }, NOW)).toBeNull();
+    expect(evaluateAlertRule(r, qr, { firstAt: null }, NOW)).toBeNull();
+  });
+
+  it('fires volume_above only above the threshold and once per window', () => {
+    const r = rule({ kind: 'volume_above', threshold: 100, window_hours: 24 });
+    expect(evaluateAlertRule(r, qr, { windowCount: 100 }, NOW)).toBeNull();
+
+    const trigger = evaluateAlertRule(r, qr, { windowCount: 150 }, NOW);
+    expect(trigger?.message).toBe('QR code “Table 4” had 150 scans in the last 24 hours (alert above 100).');
+    expect(trigger?.details).toEqual({ count: 150, threshold: 100, window_hours: 24 });
+
+    const recent = { ...r, last_triggered_at: '2026-03-10T01:00:00.000Z' };
+    expect(evaluateAlertRule(recent, qr, { windowCount: 150 }, NOW)).toBeNull();
+  });
+
+  it('allows for hourly cron jitter before a rule can fire again', () => {
+    const r = rule({
+      kind: 'volume_above',
+      threshold: 1,
+      window_hours: 24,
+      last_triggered_at: '2026-03-09T12:20:00.000Z',
+    });
+    expect(evaluateAlertRule(r, qr, { windowCount: 5 }, NOW)).not.toBeNull();
+  });
+
+  it('waits a full window before volume_below can fire', () => {
+    const young = rule({ kind: 'volume_below', threshold: 10, window_hours: 168, created_at: '2026-03-08T00:00:00.000Z' });
+    expect(evaluateAlertRule(young, bio, { windowCount: 1 }, NOW)).toBeNull();
+
+    const old = { ...young, created_at: '2026-02-01T00:00:00.000Z' };
+    expect(evaluateAlertRule(old, bio, { windowCount: 1 }, NOW)?.message).toBe(
+      'Bio page “Menu” had only 1 view in the last 7 days (alert below 10).'
+    );
+    expect(evaluateAlertRule(old, bio, { windowCount: 10 }, NOW)).toBeNull();
+  });
+
+  it('fires inactive when nothing happened in the window', () => {
+    const r = rule({ kind: 'inactive', window_hours: 72 });
+    expect(evaluateAlertRule(r, qr, { windowCount: 0 }, NOW)?.message).toBe(
+      'QR code “Table 4” has had no scans for 3 days.'
+    );
+    expect(evaluateAlertRule(r, qr, { windowCount: 2 }, NOW)).toBeNull();
+  });
+
+  it('fires new_country with the countries it saw', () => {
+    const r = rule({ kind: 'new_country', window_hours: null });
+    expect(evaluateAlertRule(r, qr, { newCountries: [] }, NOW)).toBeNull();
+
+    const trigger = evaluateAlertRule(r, qr, { newCountries: ['DE', 'FR'] }, NOW);
+    expect(trigger?.message).toBe('QR code “Table 4” got its first scans from DE, FR.');
+    expect(trigger?.details).toEqual({ countries: ['DE', 'FR'] });
+  });
+});
+
+describe('lastDigestSlot', () => {
+  it('is 08:00 local today once that has passed, otherwise yesterday', () => {
+    expect(lastDigestSlot('daily', 'UTC', NOW).toISOString()).toBe('2026-03-10T08:00:00.000Z');
+    expect(lastDigestSlot('daily', 'UTC', new Date('2026-03-10T07:59:00.000Z')).toISOString()).toBe(
+      '2026-03-09T08:00:00.000Z'
+    );
+  });
+
+  it('uses the org timezone', () => {
+    // London is on BST (UTC+1) in July
+    expect(lastDigestSlot('daily', 'Europe/London', new Date('2026-07-15T12:00:00.000Z')).toISOString()).toBe(
+      '2026-07-15T07:00:00.000Z'
+    );
+  });
+
+  it('goes back to the most recent Monday for weekly digests', () => {
+    expect(lastDigestSlot('weekly', 'UTC', NOW).toISOString()).toBe('2026-03-09T08:00:00.000Z');
+    // Monday before 08:00 → the previous Monday
+    expect(lastDigestSlot('weekly', 'UTC', new Date('2026-03-09T06:00:00.000Z')).toISOString()).toBe(
+      '2026-03-02T08:00:00.000Z'
+    );
+  });
+});
+
+describe('isNotificationDue', () => {
+  it('sends immediate alerts straight away', () => {
+    expect(isNotificationDue('immediate', NOW.toISOString(), 'UTC', NOW)).toBe(true);
+  });
+
+  it('holds digest events until the first slot after they fired', () => {
+    expect(isNotificationDue('daily', '2026-03-10T09:00:00.000Z', 'UTC', NOW)).toBe(false);
+    expect(isNotificationDue('daily', '2026-03-10T07:00:00.000Z', 'UTC', NOW)).toBe(true);
+    expect(isNotificationDue('weekly', '2026-03-09T09:00:00.000Z', 'UTC', NOW)).toBe(false);
+    expect(isNotificationDue('weekly', '2026-03-08T09:00:00.000Z', 'UTC', NOW)).toBe(true);
+  });
+});
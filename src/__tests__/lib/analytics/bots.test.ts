@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { classifyBot, isPrefetchRequest, matchBotUserAgent } from '@/lib/analytics/bots';
+
+const IPHONE_SAFARI =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+const ANDROID_CHROME =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36';
+
+describe('matchBotUserAgent', () => {
+  it('recognises link unfurlers', () => {
+    expect(matchBotUserAgent('Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)')).toEqual({
+      name: 'Slack',
+      category: 'preview',
+    });
+    expect(matchBotUserAgent('WhatsApp/2.23.20.0 A')?.name).toBe('WhatsApp');
+    // iMessage link previews
+    expect(
+      matchBotUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_11_1) AppleWebKit/601.2.4 (KHTML, like Gecko) Version/9.0.1 Safari/601.2.4 facebookexternalhit/1.1 Facebot Twitterbot/1.0'
+      )?.category
+    ).toBe('preview');
+    expect(matchBotUserAgent('TelegramBot (like TwitterBot)')?.category).toBe('preview');
+  });
+
+  it('recognises crawlers, scanners, monitors and HTTP tools', () => {
+    expect(matchBotUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')?.category).toBe('crawler');
+    expect(matchBotUserAgent('Mozilla/5.0 (compatible; Barracuda Sentinel)')?.category).toBe('scanner');
+    expect(matchBotUserAgent('Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)')?.category).toBe('monitor');
+    expect(matchBotUserAgent('curl/8.4.0')?.category).toBe('tool');
+    expect(matchBotUserAgent('python-requests/2.31.0')?.category).toBe('tool');
+    expect(matchBotUserAgent('Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/124.0.0.0 Safari/537.36')?.category).toBe('tool');
+    expect(matchBotUserAgent('Mozilla/5.0 (compatible; SomeNewBot/0.1)')?.name).toBe('Generic bot');
+  });
+
+  it('treats an empty user agent as a bot', () => {
+    expect(matchBotUserAgent('')).toEqual({ name: 'No user agent', category: 'tool' });
+    expect(matchBotUserAgent('   ')).not.toBeNull();
+  });
+
+  it('leaves real browsers and in-app browsers alone', () => {
+    expect(matchBotUserAgent(IPHONE_SAFARI)).toBeNull();
+    expect(matchBotUserAgent(ANDROID_CHROME)).toBeNull();
+    expect(matchBotUserAgent(`${IPHONE_SAFARI} Instagram 325.0.0.0`)).toBeNull();
+    expect(matchBotUserAgent(`${ANDROID_CHROME} Snapchat/12.80.0.40`)).toBeNull();
+    // Cubot is a phone brand, not a bot
+    expect(
+      matchBotUserAgent('Mozilla/5.0 (Linux; Android 11; CUBOT X30) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Mobile Safari/537.36')
+    ).toBeNull();
+  });
+});
+
+describe('isPrefetchRequest', () => {
+  it('detects prefetch and preview purpose headers', () => {
+    expect(isPrefetchRequest(new Headers({ 'sec-purpose': 'prefetch;prerender' }))).toBe(true);
+    expect(isPrefetchRequest(new Headers({ purpose: 'prefetch' }))).toBe(true);
+    expect(isPrefetchRequest(new Headers({ 'x-purpose': 'preview' }))).toBe(true);
+    expect(isPrefetchRequest(new Headers({ 'x-moz': 'prefetch' }))).toBe(true);
+    expect(isPrefetchRequest(new Headers({ 'user-agent': IPHONE_SAFARI }))).toBe(false);
+  });
+});
+
+describe('classifyBot', () => {
+  it('flags prefetches and HEAD requests from real browsers', () => {
+    expect(classifyBot(new Headers({ 'user-agent': ANDROID_CHROME, 'sec-purpose': 'prefetch' }))?.category).toBe('prefetch');
+    expect(classifyBot(new Headers({ 'user-agent': ANDROID_CHROME }), 'HEAD')?.category).toBe('tool');
+  });
+
+  it('passes ordinary navigations', () => {
+    expect(classifyBot(new Headers({ 'user-agent': IPHONE_SAFARI }), 'GET')).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  eventsToCsv,
+  exportFilename,
+  fetchExportEvents,
+  summaryToCsv,
+  type AnalyticsExportEvent,
+} from '@/lib/analytics/export';
+import type { AnalyticsRange } from '@/lib/analytics/rollups';
+import type { OrgAnalyticsSummary } from '@/types/organization';
+
+const range: AnalyticsRange = {
+  period: 'custom',
+  from: '2026-03-01',
+  to: '2026-03-31',
+  days: 31,
+  timezone: 'UTC',
+  include_bots: false,
+};
+
+function event(overrides: Partial<AnalyticsExportEvent> = {}): AnalyticsExportEvent {
+  return {
+    event: 'scan',
+    occurred_at: '2026-03-02T10:00:00+00:00',
+    source_type: 'qr',
+    source_id: 'qr-1',
+    source_name: 'Table 4',
+    target_id: null,
+    variant_id: null,
+    medium: 'qr',
+    country_code: 'GB',
+    region: 'ENG',
+    device_type: 'mobile',
+    os_family: 'iOS',
+    browser_family: 'Safari',
+    referrer_domain: null,
+    is_bot: false,
+    ...overrides,
+  };
+}
+
+/**
+ * A fake client whose event tables resolve to fixed rows, recording the
+ * filters each query applied.
+ */
+function fakeClient(rowsByTable: Record<string, Array<Record<string, unknown>>>) {
+  const calls: Array<{ table: string; filters: Array<[string, string, unknown]> }> = [];
+
+  function from(table: string) {
+    const call = { table, filters: [] as Array<[string, string, unknown]> };
+    calls.push(call);
+    let range: [number, number] = [0, 0];
+    const builder: Record<string, unknown> = {};
+    builder.select = () => builder;
+    builder.order = () => builder;
+    for (const method of ['eq', 'is', 'gte', 'lt']) {
+      builder[method] = (column: string, value: unknown) => {
+        call.filters.push([method, column, value]);
+        return builder;
+      };
+    }
+    builder.range = (fromRow: number, toRow: number) => {
+      range = [fromRow, toRow];
+      return builder;
+    };
+    builder.then = (resolve: (v: unknown) => unknown) =>
+      Promise.resolve({
+        data: (rowsByTable[table] ?? []).slice(range[0], range[1] + 1),
+        error: null,
+      }).then(resolve);
+    return builder;
+  }
+
+  return { client: { from: vi.fn(from) } as any, calls };
+}
+
+describe('fetchExportEvents', () => {
+  it('exports a bio page’s views and clicks merged oldest first', async () => {
+    const { client, calls } = fakeClient({
+      bio_link_view_events: [
+        {
+          id: 'v1',
+          viewed_at: '2026-03-03T09:00:00+00:00',
+          page_id: 'page-1',
+          country_code: 'FR',
+          region: null,
+          device_type: 'desktop',
+          os_family: 'macOS',
+          browser_family: 'Chrome',
+          referrer_domain: 'instagram.com',
+          medium: 'nfc',
+          is_bot: false,
+          bio_link_pages: { title: 'Menu', org_id: 'org-1', deleted_at: null },
+        },
+      ],
+      bio_link_click_events: [
+        {
+          id: 'c1',
+          clicked_at: '2026-03-02T12:00:00+00:00',
+          page_id: 'page-1',
+          item_id: 'item-1',
+          country_code: 'GB',
+          device_type: 'mobile',
+          is_bot: false,
+          bio_link_pages: { title: 'Menu', org_id: 'org-1', deleted_at: null },
+        },
+      ],
+    });
+
+    const result = await fetchExportEvents(client, { type: 'bio', id: 'page-1', name: 'Menu' }, range);
+
+    expect(calls.map((c) => c.table).sort()).toEqual([
+      'bio_block_click_events',
+      'bio_link_click_events',
+      'bio_link_view_events',
+    ]);
+    expect(result.truncated).toBe(false);
+    expect(result.events.map((e) => e.event)).toEqual(['link_click', 'view']);
+    expect(result.events[0]).toMatchObject({
+      source_type: 'bio',
+      source_id: 'page-1',
+      source_name: 'Menu',
+      target_id: 'item-1',
+      region: null,
+      os_family: null,
+    });
+    expect(result.events[1]).toMatchObject({ referrer_domain: 'instagram.com', target_id: null, medium: 'nfc' });
+
+    const views = calls.find((c) => c.table === 'bio_link_view_events')!;
+    expect(views.filters).toContainEqual(['eq', 'page_id', 'page-1']);
+    expect(views.filters).toContainEqual(['eq', 'is_bot', false]);
+    expect(views.filters).toContainEqual(['gte', 'viewed_at', '2026-03-01T00:00:00.000Z']);
+    expect(views.filters).toContainEqual(['lt', 'viewed_at', '2026-04-01T00:00:00.000Z']);
+  });
+
+  it('scopes an org export through the parent table and keeps bots when asked', async () => {
+    const { client, calls } = fakeClient({});
+
+    await fetchExportEvents(
+      client,
+      { type: 'org', id: 'org-1', name: 'Acme' },
+      { ...range, include_bots: true },
+    );
+
+    expect(calls).toHaveLength(4);
+    const scans = calls.find((c) => c.table === 'qr_scan_events')!;
+    expect(scans.filters).toContainEqual(['eq', 'qr_codes.org_id', 'org-1']);
+    expect(scans.filters).toContainEqual(['is', 'qr_codes.deleted_at', null]);
+    expect(scans.filters.some(([, column]) => column === 'is_bot')).toBe(false);
+  });
+});
+
+describe('eventsToCsv', () => {
+  it('writes a header row and CRLF lines', () => {
+    const csv = eventsToCsv([event(), event({ event: 'view', source_type: 'bio', is_bot: true })]);
+    const lines = csv.split('\r\n');
+
+    expect(lines[0]).toBe(
+      'event,occurred_at,source_type,source_id,source_name,target_id,variant_id,medium,country_code,region,device_type,os_family,browser_family,referrer_domain,is_bot'
+    );
+    expect(lines[1]).toBe('scan,2026-03-02T10:00:00+00:00,qr,qr-1,Table 4,,,qr,GB,ENG,mobile,iOS,Safari,,false');
+    expect(lines[2].endsWith(',true')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+
+  it('quotes commas and defuses formulas in names', () => {
+    const csv = eventsToCsv([event({ source_name: '=HYPERLINK("x"), menu' })]);
+    expect(csv).toContain(`"'=HYPERLINK(""x""), menu"`);
+  });
+});
+
+describe('summaryToCsv', () => {
+  it('flattens an org summary into section,key,value rows', () => {
+    const summary = {
+      totals: { scans: 5, views: 3, clicks: 1, submissions: 0 },
+      previous: { from: '2026-02-01', to: '2026-02-28', scans: 2, views: 3, clicks: 0, submissions: 1 },
+      timeline: [{ date: '2026-03-01', scans: 5, views: 3, clicks: 1, submissions: 0 }],
+      top_qr_codes: [{ id: 'qr-1', name: 'Table 4', scans: 5 }],
+      top_pages: [{ id: 'page-1', title: 'Menu', views: 3, clicks: 1, submissions: 0 }],
+    } as unknown as OrgAnalyticsSummary;
+
+    const lines = summaryToCsv({ type: 'org', summary }).trimEnd().split('\r\n');
+
+    expect(lines[0]).toBe('section,key,value');
+    expect(lines).toContain('total,scans,5');
+    expect(lines).toContain('previous,submissions,1');
+    expect(lines).toContain('scans_by_day,2026-03-01,5');
+    expect(lines).toContain('views_by_day,2026-03-01,3');
+    expect(lines).toContain('qr_code_scans,Table 4,5');
+    expect(lines).toContain('page_clicks,Menu,1');
+  });
+});
+
+describe('exportFilename', () => {
+  it('slugs the scope name', () => {
+    expect(exportFilename({ type: 'qr', id: 'qr-1', name: 'Café Table #4' }, range, 'events', 'csv')).toBe(
+      'cafe-table-4-events-2026-03-01-to-2026-03-31.csv'
+    );
+    expect(exportFilename({ type: 'org', id: 'org-1', name: '★' }, range, 'summary', 'json')).toBe(
+      'org-summary-2026-03-01-to-2026-03-31.json'
+    );
+  });
+});
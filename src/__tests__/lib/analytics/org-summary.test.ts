@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getOrgAnalyticsSummary } from '@/lib/analytics/org-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+
+const range = (query: string) =>
+  parseAnalyticsRange(new URLSearchParams(query), 'Europe/London')!;
+
+function mockClient(daily: unknown[], leaderboard: unknown[]) {
+  return {
+    rpc: vi.fn((fn: string) =>
+      Promise.resolve({
+        data: fn === 'analytics_org_daily' ? daily : leaderboard,
+        error: null,
+      })
+    ),
+  } as any;
+}
+
+describe('getOrgAnalyticsSummary', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-10T15:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fills the timeline and totals it', async () => {
+    const client = mockClient(
+      [
+        { day: '2026-03-05', scans: '4', views: 2, clicks: 1, submissions: 0 },
+        { day: '2026-03-10', scans: 1, views: '3', clicks: 0, submissions: 2 },
+      ],
+      [],
+    );
+
+    const summary = await getOrgAnalyticsSummary(client, 'org-1', range('period=7d'));
+
+    expect(client.rpc).toHaveBeenCalledWith('analytics_org_daily', {
+      p_org_id: 'org-1',
+      p_from: '2026-03-04T00:00:00.000Z',
+      p_to: '2026-03-11T00:00:00.000Z',
+      p_tz: 'Europe/London',
+      p_include_bots: false,
+    });
+    expect(client.rpc).toHaveBeenCalledWith('analytics_org_daily', {
+      p_org_id: 'org-1',
+      p_from: '2026-02-25T00:00:00.000Z',
+      p_to: '2026-03-04T00:00:00.000Z',
+      p_tz: 'Europe/London',
+      p_include_bots: false,
+    });
+    expect(summary.period).toBe('7d');
+    expect(summary.timeline).toHaveLength(7);
+    expect(summary.timeline[0]).toEqual({ date: '2026-03-04', scans: 0, views: 0, clicks: 0, submissions: 0 });
+    expect(summary.timeline[1].scans).toBe(4);
+    expect(summary.timeline[6].views).toBe(3);
+    expect(summary.totals).toEqual({ scans: 5, views: 5, clicks: 1, submissions: 2 });
+    // The mock returns the same days for the previous window
+    expect(summary.previous).toEqual({
+      from: '2026-02-25',
+      to: '2026-03-03',
+      scans: 5,
+      views: 5,
+      clicks: 1,
+      submissions: 2,
+    });
+  });
+
+  it('splits the leaderboard into QR codes and pages', async () => {
+    const client = mockClient([], [
+      { resource_type: 'qr', resource_id: 'qr-1', name: 'Flyer', scans: '9', views: 0, clicks: 0, submissions: 0 },
+      { resource_type: 'bio', resource_id: 'page-1', name: 'Home', scans: 0, views: 12, clicks: 4, submissions: 1 },
+    ]);
+
+    const summary = await getOrgAnalyticsSummary(client, 'org-1', range(''));
+
+    expect(summary.period).toBe('30d');
+    expect(summary.top_qr_codes).toEqual([{ id: 'qr-1', name: 'Flyer', scans: 9 }]);
+    expect(summary.top_pages).toEqual([
+      { id: 'page-1', title: 'Home', views: 12, clicks: 4, submissions: 1 },
+    ]);
+  });
+
+  it('throws when an rpc fails', async () => {
+    const client = {
+      rpc: vi.fn().mockResolvedValue({ data: null, error: { message: 'boom' } }),
+    } as any;
+
+    await expect(getOrgAnalyticsSummary(client, 'org-1', range('period=7d'))).rejects.toThrow('boom');
+  });
+});
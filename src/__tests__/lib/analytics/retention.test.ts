@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyRetention, retentionPolicy } from '@/lib/analytics/retention';
+
+describe('retentionPolicy', () => {
+  it('defaults to coarsening after 30 days and keeping events', () => {
+    expect(retentionPolicy({})).toEqual({ coarsenAfterDays: 30, deleteAfterDays: 0 });
+  });
+
+  it('reads the environment and never deletes before coarsening', () => {
+    expect(
+      retentionPolicy({ ANALYTICS_COARSEN_AFTER_DAYS: '7', ANALYTICS_DELETE_AFTER_DAYS: '395' })
+    ).toEqual({ coarsenAfterDays: 7, deleteAfterDays: 395 });
+    expect(
+      retentionPolicy({ ANALYTICS_COARSEN_AFTER_DAYS: '60', ANALYTICS_DELETE_AFTER_DAYS: '14' })
+    ).toEqual({ coarsenAfterDays: 60, deleteAfterDays: 60 });
+  });
+
+  it('falls back to the defaults for invalid values', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(
+      retentionPolicy({ ANALYTICS_COARSEN_AFTER_DAYS: '0', ANALYTICS_DELETE_AFTER_DAYS: 'forever' })
+    ).toEqual({ coarsenAfterDays: 30, deleteAfterDays: 0 });
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('applyRetention', () => {
+  const now = new Date('2026-10-19T02:45:00Z');
+
+  function client(results: Record<string, { data: unknown; error: { message: string } | null }>) {
+    return { rpc: vi.fn(async (fn: string) => results[fn]) } as any;
+  }
+
+  it('coarsens whole UTC days before the cut-off and skips deletion when off', async () => {
+    const supabase = client({ analytics_coarsen_events: { data: 3, error: null } });
+
+    const result = await applyRetention(supabase, { coarsenAfterDays: 30, deleteAfterDays: 0 }, now);
+
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+    expect(supabase.rpc).toHaveBeenCalledWith('analytics_coarsen_events', { p_before: '2026-09-19', p_max_days: 7 });
+    expect(result).toEqual({
+      coarsen_before: '2026-09-19',
+      coarsened_days: 3,
+      delete_before: null,
+      deleted_events: 0,
+    });
+  });
+
+  it('deletes events past the delete cut-off', async () => {
+    const supabase = client({
+      analytics_coarsen_events: { data: 0, error: null },
+      analytics_delete_events: { data: '1234', error: null },
+    });
+
+    const result = await applyRetention(supabase, { coarsenAfterDays: 30, deleteAfterDays: 365 }, now);
+
+    expect(supabase.rpc).toHaveBeenCalledWith('analytics_delete_events', { p_before: '2025-10-19', p_limit: 10_000 });
+    expect(result.deleted_events).toBe(1234);
+  });
+
+  it('throws when coarsening fails', async () => {
+    const supabase = client({ analytics_coarsen_events: { data: null, error: { message: 'boom' } } });
+    await expect(applyRetention(supabase, { coarsenAfterDays: 30, deleteAfterDays: 0 }, now)).rejects.toThrow(
+      'Failed to coarsen events: boom'
+    );
+  });
+});
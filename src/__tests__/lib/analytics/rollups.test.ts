@@ -0,0 +1,276 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  breakdown,
+  fetchQrConversions,
+  fetchQrScanRollups,
+  fetchQrUniqueVisitors,
+  heatmapGrid,
+  parseAnalyticsRange,
+  previousWindow,
+  rowsSince,
+  sumTotal,
+  summarizeConversions,
+  totalsByDay,
+  trailingWindow,
+  windowBounds,
+  type RollupRow,
+} from '@/lib/analytics/rollups';
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+const WINDOW = { from: '2026-03-04', to: '2026-03-10', timezone: 'Europe/London' };
+
+const ROWS: RollupRow[] = [
+  { day: '2026-03-08', dimension: 'total', value: '', count: 6 },
+  { day: '2026-03-08', dimension: 'country', value: 'GB', count: 5 },
+  { day: '2026-03-08', dimension: 'country', value: 'FR', count: 1 },
+  { day: '2026-03-10', dimension: 'total', value: '', count: 2 },
+  { day: '2026-03-10', dimension: 'country', value: 'FR', count: 2 },
+  { day: '2026-03-10', dimension: 'device', value: 'mobile', count: 2 },
+];
+
+describe('parseAnalyticsRange', () => {
+  const params = (query: string) => new URLSearchParams(query);
+
+  it('ends presets today in the org timezone, falling back to 30d', () => {
+    expect(parseAnalyticsRange(params('period=7d'), 'Europe/London', NOW)).toEqual({
+      period: '7d',
+      from: '2026-03-04',
+      to: '2026-03-10',
+      days: 7,
+      timezone: 'Europe/London',
+      include_bots: false,
+    });
+    expect(parseAnalyticsRange(params('period=1y'), null, NOW)?.period).toBe('30d');
+    // 15:00 UTC is already the 11th in Auckland
+    expect(parseAnalyticsRange(params('period=7d'), 'Pacific/Auckland', NOW)?.to).toBe('2026-03-11');
+  });
+
+  it('includes bots only when asked to', () => {
+    expect(parseAnalyticsRange(params('period=7d&bots=include'), null, NOW)?.include_bots).toBe(true);
+    expect(parseAnalyticsRange(params('from=2026-01-01&to=2026-01-31&bots=include'), null, NOW)?.include_bots).toBe(true);
+    expect(parseAnalyticsRange(params('period=7d&bots=1'), null, NOW)?.include_bots).toBe(false);
+  });
+
+  it('accepts a custom from/to range', () => {
+    expect(parseAnalyticsRange(params('from=2026-01-01&to=2026-01-31'), 'Europe/London', NOW)).toEqual({
+      period: 'custom',
+      from: '2026-01-01',
+      to: '2026-01-31',
+      days: 31,
+      timezone: 'Europe/London',
+      include_bots: false,
+    });
+  });
+
+  it('rejects incomplete, malformed, reversed or oversized ranges', () => {
+    expect(parseAnalyticsRange(params('from=2026-01-01'), null, NOW)).toBeNull();
+    expect(parseAnalyticsRange(params('from=2026-02-30&to=2026-03-01'), null, NOW)).toBeNull();
+    expect(parseAnalyticsRange(params('from=2026-03-02&to=2026-03-01'), null, NOW)).toBeNull();
+    expect(parseAnalyticsRange(params('from=2024-01-01&to=2026-01-01'), null, NOW)).toBeNull();
+  });
+});
+
+describe('windows', () => {
+  it('compares against the equally long window just before', () => {
+    const range = parseAnalyticsRange(new URLSearchParams('period=7d'), 'Europe/London', NOW)!;
+    expect(previousWindow(range)).toEqual({
+      from: '2026-02-25',
+      to: '2026-03-03',
+      timezone: 'Europe/London',
+      include_bots: false,
+    });
+  });
+
+  it('trailing windows include today', () => {
+    expect(trailingWindow(1, 'Europe/London', NOW)).toMatchObject({ from: '2026-03-10', to: '2026-03-10' });
+    expect(trailingWindow(7, 'Europe/London', NOW)).toMatchObject({ from: '2026-03-04' });
+  });
+
+  it('bounds local days at local midnight', () => {
+    // BST: a UK day runs 23:00 UTC to 23:00 UTC
+    expect(windowBounds({ from: '2026-06-01', to: '2026-06-02', timezone: 'Europe/London' })).toEqual({
+      from: '2026-05-31T23:00:00.000Z',
+      to: '2026-06-02T23:00:00.000Z',
+    });
+    // Spans the spring-forward change on 29 March
+    expect(windowBounds({ from: '2026-03-29', to: '2026-03-29', timezone: 'Europe/London' })).toEqual({
+      from: '2026-03-29T00:00:00.000Z',
+      to: '2026-03-29T23:00:00.000Z',
+    });
+    expect(windowBounds({ from: '2026-01-15', to: '2026-01-15', timezone: 'America/New_York' })).toEqual({
+      from: '2026-01-15T05:00:00.000Z',
+      to: '2026-01-16T05:00:00.000Z',
+    });
+  });
+});
+
+describe('rollup folding', () => {
+  it('sums only total rows, optionally from a day onwards', () => {
+    expect(sumTotal(ROWS)).toBe(8);
+    expect(sumTotal(ROWS, '2026-03-09')).toBe(2);
+    expect(rowsSince(ROWS, '2026-03-10')).toHaveLength(3);
+  });
+
+  it('fills every day in the period, oldest first', () => {
+    expect(totalsByDay(ROWS, '2026-03-08', '2026-03-10')).toEqual([
+      { date: '2026-03-08', count: 6 },
+      { date: '2026-03-09', count: 0 },
+      { date: '2026-03-10', count: 2 },
+    ]);
+  });
+
+  it('sums a dimension across days, sorted by count', () => {
+    expect(breakdown(ROWS, 'country')).toEqual([
+      { key: 'GB', count: 5 },
+      { key: 'FR', count: 3 },
+    ]);
+    expect(breakdown(ROWS, 'device')).toEqual([{ key: 'mobile', count: 2 }]);
+    expect(breakdown(ROWS, 'referrer')).toEqual([]);
+  });
+
+  it('fills a weekday × hour grid', () => {
+    const grid = heatmapGrid([
+      { weekday: 0, hour: 23, count: 4 },
+      { weekday: 5, hour: 9, count: 2 },
+    ]);
+    expect(grid).toHaveLength(7);
+    expect(grid.every((row) => row.length === 24)).toBe(true);
+    expect(grid[0][23]).toBe(4);
+    expect(grid[5][9]).toBe(2);
+    expect(grid[1][0]).toBe(0);
+  });
+});
+
+describe('fetchQrScanRollups', () => {
+  it('pages through results and normalises counts', async () => {
+    const firstPage = Array.from({ length: 1000 }, () => ({
+      day: '2026-03-10',
+      variant_id: '',
+      dimension: 'total',
+      value: '',
+      count: '1',
+    }));
+    const pages = [firstPage, [{ day: '2026-03-10', variant_id: '', dimension: 'os', value: 'iOS', count: '5' }]];
+    const range = vi.fn((from: number) =>
+      Promise.resolve({ data: pages[from / 1000], error: null })
+    );
+    const client = { rpc: vi.fn(() => ({ range })) } as any;
+
+    const rows = await fetchQrScanRollups(client, 'qr-1', WINDOW);
+
+    expect(client.rpc).toHaveBeenCalledWith('analytics_qr_rollups', {
+      p_qr_id: 'qr-1',
+      p_from: '2026-03-04T00:00:00.000Z',
+      p_to: '2026-03-11T00:00:00.000Z',
+      p_tz: 'Europe/London',
+      p_totals_only: false,
+      p_include_bots: false,
+    });
+    expect(range).toHaveBeenCalledTimes(2);
+    expect(range).toHaveBeenNthCalledWith(2, 1000, 1999);
+    expect(rows).toHaveLength(1001);
+    expect(rows[1000].count).toBe(5);
+  });
+
+  it('throws when the query fails', async () => {
+    const range = vi.fn(() => Promise.resolve({ data: null, error: { message: 'boom' } }));
+    const client = { rpc: vi.fn(() => ({ range })) } as any;
+
+    await expect(fetchQrScanRollups(client, 'qr-1', WINDOW)).rejects.toThrow('boom');
+  });
+});
+
+describe('fetchQrUniqueVisitors', () => {
+  it('splits the overall row from per-variant rows', async () => {
+    const client = {
+      rpc: vi.fn().mockResolvedValue({
+        data: [
+          { variant_id: null, visitors: 12 },
+          { variant_id: 'a', visitors: '7' },
+          { variant_id: 'b', visitors: 5 },
+        ],
+        error: null,
+      }),
+    } as any;
+
+    const result = await fetchQrUniqueVisitors(client, 'qr-1', WINDOW);
+
+    expect(client.rpc).toHaveBeenCalledWith('analytics_qr_unique_visitors', {
+      p_qr_id: 'qr-1',
+      p_from: '2026-03-04T00:00:00.000Z',
+      p_to: '2026-03-11T00:00:00.000Z',
+      p_include_bots: false,
+    });
+    expect(result.total).toBe(12);
+    expect(result.byVariant.get('a')).toBe(7);
+    expect(result.byVariant.get('b')).toBe(5);
+  });
+
+  it('reads as zero when the lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = {
+      rpc: vi.fn().mockResolvedValue({ data: null, error: { message: 'boom' } }),
+    } as any;
+
+    const result = await fetchQrUniqueVisitors(client, 'qr-1', WINDOW);
+
+    expect(result.total).toBe(0);
+    expect(result.byVariant.size).toBe(0);
+  });
+});
+
+describe('summarizeConversions', () => {
+  it('counts every conversion and sums value per currency, largest first', () => {
+    const summary = summarizeConversions(
+      [
+        { variant_id: 'a', currency: 'GBP', conversions: 2, value: 40.1 },
+        { variant_id: 'b', currency: 'GBP', conversions: 1, value: 9.9 },
+        { variant_id: 'a', currency: 'EUR', conversions: 1, value: 60 },
+        { variant_id: null, currency: null, conversions: 4, value: 0 },
+      ],
+      80,
+    );
+
+    expect(summary).toEqual({
+      conversions: 8,
+      rate: 0.1,
+      value: [
+        { currency: 'EUR', total: 60 },
+        { currency: 'GBP', total: 50 },
+      ],
+    });
+  });
+
+  it('has no rate without scans or clicks', () => {
+    expect(summarizeConversions([], 0)).toEqual({ conversions: 0, rate: null, value: [] });
+  });
+});
+
+describe('fetchQrConversions', () => {
+  it('queries the window bounds and coerces numeric columns', async () => {
+    const client = {
+      rpc: vi.fn().mockResolvedValue({
+        data: [{ variant_id: 'a', currency: 'GBP', conversions: '3', value: '12.50' }],
+        error: null,
+      }),
+    } as any;
+
+    const rows = await fetchQrConversions(client, 'qr-1', WINDOW);
+
+    expect(client.rpc).toHaveBeenCalledWith('analytics_qr_conversions', {
+      p_qr_id: 'qr-1',
+      p_from: '2026-03-04T00:00:00.000Z',
+      p_to: '2026-03-11T00:00:00.000Z',
+    });
+    expect(rows).toEqual([{ variant_id: 'a', currency: 'GBP', conversions: 3, value: 12.5 }]);
+  });
+
+  it('reads as no conversions when the lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = {
+      rpc: vi.fn().mockResolvedValue({ data: null, error: { message: 'boom' } }),
+    } as any;
+
+    expect(await fetchQrConversions(client, 'qr-1', WINDOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { clientIp, hashVisitor, visitorHash } from '@/lib/analytics/visitor-hash';
+
+function headers(values: Record<string, string>) {
+  return new Headers(values);
+}
+
+function clientWithSalts(salts: Record<string, string | null>) {
+  return {
+    rpc: vi.fn(async (_fn: string, args: { p_day: string }) =>
+      salts[args.p_day]
+        ? { data: salts[args.p_day], error: null }
+        : { data: null, error: { message: 'boom' } }
+    ),
+  } as any;
+}
+
+const visitor = headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0 (iPhone)' });
+
+describe('visitorHash', () => {
+  beforeEach(() => {
+    vi.stubEnv('IP_HASH_SALT', 'pepper');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is stable for a visitor on one resource within a day', async () => {
+    const supabase = clientWithSalts({ '2030-01-01': 'salt-a' });
+    const morning = new Date('2030-01-01T08:00:00Z');
+    const evening = new Date('2030-01-01T22:00:00Z');
+
+    const first = await visitorHash(supabase, visitor, 'qr:1', morning);
+    const second = await visitorHash(supabase, visitor, 'qr:1', evening);
+
+    expect(first).toMatch(/^[0-9a-f]{16}$/);
+    expect(second).toBe(first);
+    // The day's salt is fetched once per instance
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+    expect(supabase.rpc).toHaveBeenCalledWith('analytics_daily_salt', { p_day: '2030-01-01' });
+  });
+
+  it('differs across resources, user agents and days', async () => {
+    const supabase = clientWithSalts({ '2030-02-01': 'salt-b', '2030-02-02': 'salt-c' });
+    const day = new Date('2030-02-01T12:00:00Z');
+
+    const base = await visitorHash(supabase, visitor, 'qr:1', day);
+    expect(await visitorHash(supabase, visitor, 'page:1', day)).not.toBe(base);
+    expect(
+      await visitorHash(supabase, headers({ 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Other' }), 'qr:1', day)
+    ).not.toBe(base);
+    expect(await visitorHash(supabase, visitor, 'qr:1', new Date('2030-02-02T00:00:01Z'))).not.toBe(base);
+  });
+
+  it('returns null without IP_HASH_SALT or a salt for the day', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await visitorHash(clientWithSalts({}), visitor, 'qr:1', new Date('2030-03-01T00:00:00Z'))).toBeNull();
+
+    vi.stubEnv('IP_HASH_SALT', '');
+    const supabase = clientWithSalts({ '2030-03-02': 'salt-d' });
+    expect(await visitorHash(supabase, visitor, 'qr:1', new Date('2030-03-02T00:00:00Z'))).toBeNull();
+    expect(supabase.rpc).not.toHaveBeenCalled();
+
+    errorSpy.mockRestore();
+  });
+});
+
+describe('hashVisitor', () => {
+  it('depends on the secret as well as the day salt', () => {
+    const parts = { daySalt: 's', secret: 'a', resource: 'qr:1', ip: '203.0.113.7', userAgent: 'ua' };
+    expect(hashVisitor(parts)).not.toBe(hashVisitor({ ...parts, secret: 'b' }));
+  });
+});
+
+describe('clientIp', () => {
+  it('takes the first forwarded address, then x-real-ip', () => {
+    expect(clientIp(visitor)).toBe('203.0.113.7');
+    expect(clientIp(headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(clientIp(headers({}))).toBe('unknown');
+  });
+});
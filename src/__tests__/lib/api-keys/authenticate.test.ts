@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(),
+}));
+
+const mockCheckApiKeyLimit = vi.fn();
+vi.mock('@/lib/security/rate-limiter', () => ({
+  checkApiKeyLimit: (...args: unknown[]) => mockCheckApiKeyLimit(...args),
+  getRateLimitHeaders: vi.fn(() => ({})),
+}));
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { generateApiKey, hashApiKey } from '@/lib/api-keys/tokens';
+
+const { key } = generateApiKey();
+
+function mockKeyRow(row: Record<string, unknown> | null) {
+  const single = vi.fn().mockResolvedValue({ data: row, error: row ? null : { code: 'PGRST116' } });
+  const eqHash = vi.fn().mockReturnValue({ single });
+  const select = vi.fn().mockReturnValue({ eq: eqHash });
+  const updateEq = vi.fn().mockResolvedValue({ error: null });
+  const update = vi.fn().mockReturnValue({ eq: updateEq });
+  const from = vi.fn().mockReturnValue({ select, update });
+  (createAdminClient as ReturnType<typeof vi.fn>).mockReturnValue({ from });
+  return { eqHash, update };
+}
+
+function request(authorization?: string) {
+  return new Request('http://localhost:3000/api/v1/qr', {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+const activeRow = {
+  id: 'key-1',
+  org_id: 'org-1',
+  created_by: 'user-1',
+  scopes: ['read'],
+  last_used_at: null,
+  revoked_at: null,
+};
+
+describe('authenticateApiKey', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCheckApiKeyLimit.mockReturnValue({ success: true, limit: 120, remaining: 119, resetAt: 0 });
+  });
+
+  it('returns 401 without a bearer token', async () => {
+    const result = await authenticateApiKey(request(), 'read');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(401);
+      expect(result.response.headers.get('www-authenticate')).toBe('Bearer');
+    }
+    expect(createAdminClient).not.toHaveBeenCalled();
+  });
+
+  it('looks the key up by hash and returns the org context', async () => {
+    const { eqHash, update } = mockKeyRow(activeRow);
+
+    const result = await authenticateApiKey(request(`Bearer ${key}`), 'read');
+
+    expect(eqHash).toHaveBeenCalledWith('key_hash', hashApiKey(key));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.key).toEqual({
+        keyId: 'key-1',
+        orgId: 'org-1',
+        createdBy: 'user-1',
+        scopes: ['read'],
+      });
+    }
+    expect(update).toHaveBeenCalledWith({ last_used_at: expect.any(String) });
+  });
+
+  it('skips the last_used_at write when it was touched recently', async () => {
+    const { update } = mockKeyRow({ ...activeRow, last_used_at: new Date().toISOString() });
+
+    await authenticateApiKey(request(`Bearer ${key}`), 'read');
+
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for an unknown or revoked key', async () => {
+    mockKeyRow(null);
+    const unknown = await authenticateApiKey(request(`Bearer ${key}`), 'read');
+    expect(!unknown.ok && unknown.response.status).toBe(401);
+
+    mockKeyRow({ ...activeRow, revoked_at: '2026-01-01T00:00:00Z' });
+    const revoked = await authenticateApiKey(request(`Bearer ${key}`), 'read');
+    expect(!revoked.ok && revoked.response.status).toBe(401);
+  });
+
+  it('returns 403 when the key lacks the required scope', async () => {
+    mockKeyRow(activeRow);
+
+    const result = await authenticateApiKey(request(`Bearer ${key}`), 'write');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(403);
+      expect(await result.response.json()).toEqual({
+        error: 'insufficient_scope',
+        required_scope: 'write',
+      });
+    }
+  });
+
+  it('rate limits per key', async () => {
+    mockKeyRow(activeRow);
+    mockCheckApiKeyLimit.mockReturnValue({ success: false, limit: 120, remaining: 0, resetAt: Date.now() + 1000 });
+
+    const result = await authenticateApiKey(request(`Bearer ${key}`), 'read');
+
+    expect(mockCheckApiKeyLimit).toHaveBeenCalledWith('key-1');
+    expect(!result.ok && result.response.status).toBe(429);
+  });
+});
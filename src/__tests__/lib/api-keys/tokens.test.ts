@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  hashApiKey,
+  parseBearerToken,
+} from '@/lib/api-keys/tokens';
+
+describe('generateApiKey', () => {
+  it('returns a prefixed URL-safe key with its display prefix and hash', () => {
+    const { key, prefix, hash } = generateApiKey();
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(key).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(key.length).toBeGreaterThanOrEqual(40);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(prefix.length).toBeLessThan(key.length / 2);
+    expect(hash).toBe(hashApiKey(key));
+  });
+
+  it('returns distinct keys on successive calls', () => {
+    const keys = new Set<string>();
+    for (let i = 0; i < 20; i++) keys.add(generateApiKey().key);
+    expect(keys.size).toBe(20);
+  });
+});
+
+describe('hashApiKey', () => {
+  it('is a deterministic 64-char hex digest', () => {
+    expect(hashApiKey('lynx_abc')).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey('lynx_abc')).toBe(hashApiKey('lynx_abc'));
+    expect(hashApiKey('lynx_abc')).not.toBe(hashApiKey('lynx_abd'));
+  });
+});
+
+describe('parseBearerToken', () => {
+  const key = generateApiKey().key;
+
+  it('extracts the key from a Bearer header (case-insensitive scheme)', () => {
+    expect(parseBearerToken(`Bearer ${key}`)).toBe(key);
+    expect(parseBearerToken(`bearer ${key}`)).toBe(key);
+  });
+
+  it('rejects missing, non-Bearer and malformed headers', () => {
+    expect(parseBearerToken(null)).toBeNull();
+    expect(parseBearerToken(`Basic ${key}`)).toBeNull();
+    expect(parseBearerToken('Bearer not-one-of-ours-0123456789')).toBeNull();
+    expect(parseBearerToken('Bearer lynx_short')).toBeNull();
+    expect(parseBearerToken(`Bearer ${key} extra`)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toPrefixTsQuery,
+  dateRangeBounds,
+  spreadsheetSafe,
+  submissionStatus,
+  submissionsToCsv,
+} from '@/lib/bio/submissions';
+import type { InboxSubmission } from '@/types/bio';
+
+describe('toPrefixTsQuery', () => {
+  it('ANDs prefix terms', () => {
+    expect(toPrefixTsQuery('Jo acme')).toBe('jo:* & acme:*');
+  });
+
+  it('strips tsquery operators and punctuation', () => {
+    expect(toPrefixTsQuery("jo@acme.co.uk | !x & 'y'")).toBe('jo:* & acme:* & co:* & uk:* & x:* & y:*');
+    expect(toPrefixTsQuery('  &|!():*  ')).toBeNull();
+  });
+
+  it('keeps non-ASCII letters', () => {
+    expect(toPrefixTsQuery('Zoë')).toBe('zoë:*');
+  });
+});
+
+describe('dateRangeBounds', () => {
+  it('treats the range as whole, inclusive UTC days', () => {
+    expect(dateRangeBounds('2026-03-01', '2026-03-31')).toEqual({
+      gte: '2026-03-01T00:00:00.000Z',
+      lt: '2026-04-01T00:00:00.000Z',
+    });
+  });
+
+  it('allows open-ended ranges', () => {
+    expect(dateRangeBounds(undefined, undefined)).toEqual({});
+    expect(dateRangeBounds('2026-12-31')).toEqual({ gte: '2026-12-31T00:00:00.000Z' });
+  });
+});
+
+describe('spreadsheetSafe', () => {
+  it('neutralises formula-looking cells', () => {
+    expect(spreadsheetSafe('=HYPERLINK("x")')).toBe(`'=HYPERLINK("x")`);
+    expect(spreadsheetSafe('+44 1234')).toBe("'+44 1234");
+    expect(spreadsheetSafe('@cmd')).toBe("'@cmd");
+  });
+
+  it('leaves ordinary values alone', () => {
+    expect(spreadsheetSafe('Hello')).toBe('Hello');
+    expect(spreadsheetSafe(4)).toBe('4');
+    expect(spreadsheetSafe(null)).toBe('');
+  });
+});
+
+function row(overrides: Partial<InboxSubmission> = {}): InboxSubmission {
+  return {
+    id: 's-1',
+    page_id: 'p-1',
+    block_id: 'b-1',
+    name: 'Jo Bloggs',
+    email: 'jo@example.com',
+    message: 'Hi, are you open Sunday?',
+    phone: null,
+    subject: null,
+    rating: null,
+    is_read: false,
+    archived_at: null,
+    submitted_at: '2026-03-02T10:00:00.000Z',
+    page: { id: 'p-1', title: 'Cafe', slug: 'cafe' },
+    ...overrides,
+  };
+}
+
+describe('submissionStatus', () => {
+  it('prefers archived over read state', () => {
+    expect(submissionStatus(row())).toBe('unread');
+    expect(submissionStatus(row({ is_read: true }))).toBe('read');
+    expect(submissionStatus(row({ is_read: true, archived_at: '2026-03-03T00:00:00Z' }))).toBe('archived');
+  });
+});
+
+describe('submissionsToCsv', () => {
+  it('writes a header and one escaped line per submission', () => {
+    const csv = submissionsToCsv([
+      row(),
+      row({ id: 's-2', name: 'Sam, Jr', message: 'Line 1\nLine 2', rating: 2, is_read: true }),
+    ]);
+    const lines = csv.split('\r\n');
+    expect(lines[0]).toBe('submitted_at,page_title,page_slug,type,status,name,email,phone,subject,message,rating');
+    expect(lines[1]).toBe('2026-03-02T10:00:00.000Z,Cafe,cafe,contact_form,unread,Jo Bloggs,jo@example.com,,,"Hi, are you open Sunday?",');
+    expect(csv).toContain('review_feedback,read,"Sam, Jr",jo@example.com,,,"Line 1\nLine 2",2');
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
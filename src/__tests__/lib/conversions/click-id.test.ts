@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLICK_ID_PARAM,
+  appendClickId,
+  generateClickId,
+  isValidClickId,
+} from '@/lib/conversions/click-id';
+import { conversionSchema } from '@/validations/conversion';
+
+describe('generateClickId', () => {
+  it('returns 32 lowercase hex characters, different each time', () => {
+    const a = generateClickId();
+    const b = generateClickId();
+    expect(a).toMatch(/^[0-9a-f]{32}$/);
+    expect(isValidClickId(a)).toBe(true);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('isValidClickId', () => {
+  it('rejects anything but a 32-char hex string', () => {
+    expect(isValidClickId('abc')).toBe(false);
+    expect(isValidClickId('A'.repeat(32))).toBe(false);
+    expect(isValidClickId(null)).toBe(false);
+  });
+});
+
+describe('appendClickId', () => {
+  it('adds the click ID ahead of the fragment, keeping the existing query', () => {
+    const id = 'a'.repeat(32);
+    expect(appendClickId('https://shop.example.com/p?ref=x#top', id)).toBe(
+      `https://shop.example.com/p?ref=x&${CLICK_ID_PARAM}=${id}#top`
+    );
+  });
+});
+
+describe('conversionSchema', () => {
+  const click = 'f'.repeat(32);
+
+  it('reads pixel query params, treating blanks as not given', () => {
+    const parsed = conversionSchema.parse({ k: 'osck_x', c: click, e: 'Purchase', v: '19.99', cur: 'gbp' });
+    expect(parsed).toEqual({ k: 'osck_x', c: click, e: 'purchase', v: 19.99, cur: 'GBP' });
+
+    const blank = conversionSchema.parse({ k: 'osck_x', c: click, e: '', v: '', cur: null });
+    expect(blank).toEqual({ k: 'osck_x', c: click });
+  });
+
+  it('rejects malformed click IDs, negative values and bad currencies', () => {
+    expect(conversionSchema.safeParse({ k: 'osck_x', c: 'nope' }).success).toBe(false);
+    expect(conversionSchema.safeParse({ k: 'osck_x', c: click, v: '-1' }).success).toBe(false);
+    expect(conversionSchema.safeParse({ k: 'osck_x', c: click, cur: 'POUNDS' }).success).toBe(false);
+  });
+});
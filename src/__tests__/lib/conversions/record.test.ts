@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CONVERSION_KEY_PREFIX,
+  generateConversionKey,
+  issueClick,
+  recordConversion,
+} from '@/lib/conversions/record';
+import { CONVERSION_DEFAULTS } from '@/lib/constants';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const CLICK_ID = 'c'.repeat(32);
+
+/**
+ * Minimal Supabase stand-in: organizations and conversion_clicks lookups
+ * resolve to the given rows; conversion_events upserts resolve to
+ * `inserted` (an empty array = the unique constraint swallowed it).
+ */
+function mockClient({
+  org = { id: 'org-1' } as { id: string } | null,
+  click = { id: CLICK_ID, qr_id: 'qr-1', page_id: null, variant_id: 'a' } as Record<string, unknown> | null,
+  inserted = [{ id: 'evt-1' }],
+} = {}) {
+  const upsert = vi.fn().mockReturnValue({
+    select: vi.fn().mockResolvedValue({ data: inserted, error: null }),
+  });
+  const insert = vi.fn().mockResolvedValue({ error: null });
+
+  const lookup = (row: unknown) => {
+    const chain: Record<string, unknown> = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.eq = vi.fn().mockReturnValue(chain);
+    chain.gt = vi.fn().mockReturnValue(chain);
+    chain.maybeSingle = vi.fn().mockResolvedValue({ data: row, error: null });
+    return chain;
+  };
+
+  const from = vi.fn((table: string) => {
+    if (table === 'organizations') return lookup(org);
+    if (table === 'conversion_clicks') return { ...lookup(click), insert };
+    if (table === 'conversion_events') return { upsert };
+    throw new Error(`Unexpected table: ${table}`);
+  });
+
+  return { client: { from } as any, upsert, insert };
+}
+
+describe('generateConversionKey', () => {
+  it('is prefixed and unique', () => {
+    const key = generateConversionKey();
+    expect(key.startsWith(CONVERSION_KEY_PREFIX)).toBe(true);
+    expect(key).not.toBe(generateConversionKey());
+  });
+});
+
+describe('issueClick', () => {
+  it('stores the click with an expiry CLICK_TTL_DAYS out', async () => {
+    const { client, insert } = mockClient();
+
+    await issueClick(client, CLICK_ID, { orgId: 'org-1', qrId: 'qr-1' }, NOW);
+
+    const row = insert.mock.calls[0][0];
+    expect(row).toMatchObject({ id: CLICK_ID, org_id: 'org-1', qr_id: 'qr-1', page_id: null });
+    expect(new Date(row.expires_at).getTime() - NOW.getTime()).toBe(
+      CONVERSION_DEFAULTS.CLICK_TTL_DAYS * 86_400_000
+    );
+  });
+});
+
+describe('recordConversion', () => {
+  const input = { key: 'osck_x', clickId: CLICK_ID, event: 'purchase', value: 25, currency: 'GBP' };
+
+  it('records against the click\'s QR and variant', async () => {
+    const { client, upsert } = mockClient();
+
+    expect(await recordConversion(client, input, NOW)).toBe('recorded');
+    expect(upsert.mock.calls[0][0]).toMatchObject({
+      org_id: 'org-1',
+      click_id: CLICK_ID,
+      qr_id: 'qr-1',
+      variant_id: 'a',
+      event_name: 'purchase',
+      value: 25,
+      currency: 'GBP',
+    });
+    expect(upsert.mock.calls[0][1]).toEqual({ onConflict: 'click_id,event_name', ignoreDuplicates: true });
+  });
+
+  it('drops a value reported without a currency', async () => {
+    const { client, upsert } = mockClient();
+
+    await recordConversion(client, { ...input, currency: null }, NOW);
+
+    expect(upsert.mock.calls[0][0]).toMatchObject({ value: null, currency: null });
+  });
+
+  it('reports duplicates, unknown keys and unknown or expired clicks', async () => {
+    expect(await recordConversion(mockClient({ inserted: [] }).client, input, NOW)).toBe('duplicate');
+    expect(await recordConversion(mockClient({ org: null }).client, input, NOW)).toBe('unknown_key');
+    expect(await recordConversion(mockClient({ click: null }).client, input, NOW)).toBe('unknown_click');
+  });
+});
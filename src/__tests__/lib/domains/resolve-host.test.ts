@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { normaliseHostHeader, isPlatformHost } from '@/lib/domains/resolve-host';
+
+describe('normaliseHostHeader', () => {
+  it('lower-cases and strips the port and trailing dot', () => {
+    expect(normaliseHostHeader('Links.Example.com:443')).toBe('links.example.com');
+    expect(normaliseHostHeader('links.example.com.')).toBe('links.example.com');
+    expect(normaliseHostHeader(null)).toBeNull();
+  });
+});
+
+describe('isPlatformHost', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com';
+    process.env.QR_REDIRECT_BASE_URL = 'https://go.example.com';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('recognises the app, redirect, local and preview hosts', () => {
+    expect(isPlatformHost('app.example.com')).toBe(true);
+    expect(isPlatformHost('go.example.com')).toBe(true);
+    expect(isPlatformHost('localhost')).toBe(true);
+    expect(isPlatformHost('10.0.0.4')).toBe(true);
+    expect(isPlatformHost('lynx-git-main.vercel.app')).toBe(true);
+  });
+
+  it('treats anything else as a possible custom domain', () => {
+    expect(isPlatformHost('links.cafe.co.uk')).toBe(false);
+  });
+});
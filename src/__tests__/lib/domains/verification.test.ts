@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  checkDomainDns,
+  nextDomainStatus,
+  verifyPageDomain,
+  toCustomDomain,
+  type DnsResolver,
+  type CustomDomainRow,
+} from '@/lib/domains/verification';
+
+vi.mock('@/lib/domains/hosting', () => ({
+  attachDomainToHosting: vi.fn().mockResolvedValue({ ok: true }),
+  detachDomainFromHosting: vi.fn().mockResolvedValue({ ok: true }),
+}));
+
+import { attachDomainToHosting, detachDomainFromHosting } from '@/lib/domains/hosting';
+
+const TOKEN = 'lynx-verify=abc123';
+
+function dnsError(code: string) {
+  return Object.assign(new Error(code), { code });
+}
+
+/** Local resolver stub: a zone of CNAME and TXT records, or an error code */
+function stubResolver(zone: {
+  cname?: Record<string, string[] | string>;
+  txt?: Record<string, string[][] | string>;
+}): DnsResolver {
+  return {
+    async resolveCname(host) {
+      const r = zone.cname?.[host];
+      if (r === undefined) throw dnsError('ENOTFOUND');
+      if (typeof r === 'string') throw dnsError(r);
+      return r;
+    },
+    async resolveTxt(host) {
+      const r = zone.txt?.[host];
+      if (r === undefined) throw dnsError('ENODATA');
+      if (typeof r === 'string') throw dnsError(r);
+      return r;
+    },
+  };
+}
+
+const goodZone = {
+  cname: { 'links.example.com': ['CNAME.Vercel-DNS.com.'] },
+  txt: { '_lynx-verify.links.example.com': [['lynx-verify=', 'abc123'], ['v=spf1 -all']] },
+};
+
+describe('checkDomainDns', () => {
+  it('passes when the CNAME and the (chunked) TXT record match', async () => {
+    expect(await checkDomainDns('links.example.com', TOKEN, stubResolver(goodZone))).toEqual({
+      cname: true,
+      txt: true,
+      error: null,
+    });
+  });
+
+  it('reports missing and wrong records as false', async () => {
+    const r = await checkDomainDns(
+      'links.example.com',
+      TOKEN,
+      stubResolver({ cname: { 'links.example.com': ['elsewhere.example.net'] } })
+    );
+    expect(r.cname).toBe(false);
+    expect(r.txt).toBe(false);
+    expect(r.error).toContain('does not point to cname.vercel-dns.com');
+    expect(r.error).toContain('No TXT record found at _lynx-verify.links.example.com');
+  });
+
+  it('treats resolver failures as unknown', async () => {
+    const r = await checkDomainDns(
+      'links.example.com',
+      TOKEN,
+      stubResolver({ cname: { 'links.example.com': 'ETIMEOUT' }, txt: { '_lynx-verify.links.example.com': 'ESERVFAIL' } })
+    );
+    expect(r.cname).toBeNull();
+    expect(r.txt).toBeNull();
+  });
+});
+
+describe('nextDomainStatus', () => {
+  const ok = { cname: true, txt: true, error: null };
+  const gone = { cname: false, txt: false, error: 'x' };
+  const unknown = { cname: null, txt: null, error: 'x' };
+  const now = new Date('2026-05-10T00:00:00Z');
+
+  it('verifies a pending domain once both records match', () => {
+    expect(nextDomainStatus('pending', ok, '2026-05-09T00:00:00Z', now)).toBe('verified');
+    expect(nextDomainStatus('pending', { ...ok, txt: false }, '2026-05-09T00:00:00Z', now)).toBe('pending');
+  });
+
+  it('releases domains left pending past the TTL', () => {
+    expect(nextDomainStatus('pending', gone, '2026-05-01T00:00:00Z', now)).toBe('released');
+  });
+
+  it('demotes an active domain only when the CNAME is definitely gone', () => {
+    expect(nextDomainStatus('active', gone, null, now)).toBe('pending');
+    expect(nextDomainStatus('active', unknown, null, now)).toBe('active');
+    expect(nextDomainStatus('active', { cname: true, txt: false, error: 'x' }, null, now)).toBe('active');
+  });
+});
+
+describe('verifyPageDomain', () => {
+  function fakeSupabase() {
+    const calls: Array<{ update: Record<string, unknown>; filters: unknown[][] }> = [];
+    const client = {
+      from: vi.fn(() => ({
+        update: (update: Record<string, unknown>) => {
+          const entry = { update, filters: [] as unknown[][] };
+          calls.push(entry);
+          const chain = {
+            eq: (...args: unknown[]) => {
+              entry.filters.push(args);
+              return chain;
+            },
+            then: (resolve: (v: { error: null }) => void) => resolve({ error: null }),
+          };
+          return chain;
+        },
+      })),
+    };
+    return { client, calls };
+  }
+
+  const row: CustomDomainRow = {
+    id: 'p-1',
+    custom_domain: 'links.example.com',
+    custom_domain_status: 'pending',
+    custom_domain_token: TOKEN,
+    custom_domain_requested_at: '2026-05-09T00:00:00Z',
+    custom_domain_verified_at: null,
+    custom_domain_checked_at: null,
+    custom_domain_error: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(attachDomainToHosting).mockResolvedValue({ ok: true });
+  });
+
+  it('activates a verified domain once hosting accepts it', async () => {
+    const { client, calls } = fakeSupabase();
+    const next = await verifyPageDomain(client as never, row, stubResolver(goodZone), new Date('2026-05-10T00:00:00Z'));
+
+    expect(next).toBe('active');
+    expect(attachDomainToHosting).toHaveBeenCalledWith('links.example.com');
+    expect(calls[0].update).toMatchObject({
+      custom_domain_status: 'active',
+      custom_domain_verified_at: '2026-05-10T00:00:00.000Z',
+      custom_domain_error: null,
+    });
+    expect(calls[0].filters).toContainEqual(['custom_domain', 'links.example.com']);
+  });
+
+  it('stays verified with the reason when hosting refuses', async () => {
+    vi.mocked(attachDomainToHosting).mockResolvedValue({ ok: false, error: 'Domain owned by another team' });
+    const { client, calls } = fakeSupabase();
+    const next = await verifyPageDomain(client as never, row, stubResolver(goodZone));
+
+    expect(next).toBe('verified');
+    expect(calls[0].update).toMatchObject({
+      custom_domain_status: 'verified',
+      custom_domain_error: 'Domain owned by another team',
+    });
+  });
+
+  it('clears the domain when it is released', async () => {
+    const { client, calls } = fakeSupabase();
+    const next = await verifyPageDomain(client as never, row, stubResolver({}), new Date('2026-06-01T00:00:00Z'));
+
+    expect(next).toBe('released');
+    expect(calls[0].update).toMatchObject({ custom_domain: null, custom_domain_status: null });
+    // Never verified, so never attached
+    expect(detachDomainFromHosting).not.toHaveBeenCalled();
+  });
+
+  it('restarts the pending window when a long-active domain loses its CNAME', async () => {
+    const active: CustomDomainRow = {
+      ...row,
+      custom_domain_status: 'active',
+      custom_domain_requested_at: '2026-01-01T00:00:00Z',
+      custom_domain_verified_at: '2026-01-02T00:00:00Z',
+    };
+    const { client, calls } = fakeSupabase();
+
+    const demoted = await verifyPageDomain(client as never, active, stubResolver({}), new Date('2026-06-01T00:00:00Z'));
+    expect(demoted).toBe('pending');
+    expect(calls[0].update).toMatchObject({
+      custom_domain_status: 'pending',
+      custom_domain_requested_at: '2026-06-01T00:00:00.000Z',
+    });
+
+    // Next cron run, DNS still broken: stays pending rather than being released
+    const pending = { ...active, ...calls[0].update } as CustomDomainRow;
+    const next = await verifyPageDomain(client as never, pending, stubResolver({}), new Date('2026-06-02T00:00:00Z'));
+    expect(next).toBe('pending');
+    expect(calls[1].update).toMatchObject({ custom_domain_status: 'pending' });
+    expect(calls[1].update).not.toHaveProperty('custom_domain_requested_at');
+  });
+
+  it('detaches a once-verified domain from hosting when it is released', async () => {
+    const { client } = fakeSupabase();
+    const demoted: CustomDomainRow = {
+      ...row,
+      custom_domain_requested_at: '2026-05-01T00:00:00Z',
+      custom_domain_verified_at: '2026-01-02T00:00:00Z',
+    };
+    const next = await verifyPageDomain(client as never, demoted, stubResolver({}), new Date('2026-06-01T00:00:00Z'));
+
+    expect(next).toBe('released');
+    expect(detachDomainFromHosting).toHaveBeenCalledWith('links.example.com');
+  });
+});
+
+describe('toCustomDomain', () => {
+  it('lists the records to create', () => {
+    const d = toCustomDomain({
+      id: 'p-1',
+      custom_domain: 'links.example.com',
+      custom_domain_status: 'pending',
+      custom_domain_token: TOKEN,
+      custom_domain_requested_at: null,
+      custom_domain_verified_at: null,
+      custom_domain_checked_at: null,
+      custom_domain_error: null,
+    });
+    expect(d?.records).toEqual([
+      { type: 'CNAME', name: 'links.example.com', value: 'cname.vercel-dns.com' },
+      { type: 'TXT', name: '_lynx-verify.links.example.com', value: TOKEN },
+    ]);
+  });
+});
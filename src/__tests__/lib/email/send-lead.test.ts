@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  resolveLeadRecipients,
+  fillLeadPlaceholders,
+  renderLeadNotificationEmail,
+  renderAutoresponderEmail,
+  deliverLeadEmails,
+  type LeadDetails,
+} from '@/lib/email/send-lead';
+import type { BioLeadRouting } from '@/types/bio';
+
+const blockId = '123e4567-e89b-12d3-a456-426614174000';
+
+function routing(overrides: Partial<BioLeadRouting> = {}): BioLeadRouting {
+  return { recipients: [], block_overrides: {}, autoresponder: null, ...overrides };
+}
+
+const lead: LeadDetails = {
+  pageTitle: 'Cafe',
+  formType: 'contact_form',
+  name: '<b>Jo</b>',
+  email: 'jo@example.com',
+  message: 'Line 1\n<script>alert(1)</script>',
+};
+
+describe('resolveLeadRecipients', () => {
+  it('falls back when nothing is configured', () => {
+    expect(resolveLeadRecipients(null, blockId, 'owner@example.com')).toEqual(['owner@example.com']);
+    expect(resolveLeadRecipients(routing(), blockId, null)).toEqual([]);
+  });
+
+  it('uses the page list, replaced by a block override', () => {
+    const r = routing({
+      recipients: ['a@example.com', 'b@example.com'],
+      block_overrides: { [blockId]: ['c@example.com'] },
+    });
+    expect(resolveLeadRecipients(r, blockId, 'owner@example.com')).toEqual(['c@example.com']);
+    expect(resolveLeadRecipients(r, 'other-block', 'owner@example.com')).toEqual([
+      'a@example.com',
+      'b@example.com',
+    ]);
+  });
+});
+
+describe('fillLeadPlaceholders', () => {
+  it('replaces name and page, leaving unknown tokens', () => {
+    expect(fillLeadPlaceholders('Hi {{ name }}, from {{page}} {{other}}', { name: 'Jo', page: 'Cafe' }))
+      .toBe('Hi Jo, from Cafe {{other}}');
+  });
+});
+
+describe('renderLeadNotificationEmail', () => {
+  it('escapes submitted values and keeps line breaks', () => {
+    const { subject, html } = renderLeadNotificationEmail(lead);
+    expect(subject).toBe('New contact form submission from <b>Jo</b>');
+    expect(html).toContain('&lt;b&gt;Jo&lt;/b&gt;');
+    expect(html).toContain('Line 1<br>&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('flattens line breaks in the subject', () => {
+    const { subject } = renderLeadNotificationEmail({ ...lead, subject: 'Hi\r\nBcc: x@y.z' });
+    expect(subject).toBe('New form submission: Hi Bcc: x@y.z');
+  });
+
+  it('shows the rating for review feedback', () => {
+    const { subject, html } = renderLeadNotificationEmail({ ...lead, formType: 'review_feedback', rating: 2 });
+    expect(subject).toContain('(2★)');
+    expect(html).toContain('2 / 5');
+  });
+});
+
+describe('renderAutoresponderEmail', () => {
+  it('fills placeholders before escaping', () => {
+    const { subject, html } = renderAutoresponderEmail(
+      { subject: 'Thanks {{name}}', message: 'Hi {{name}},\nsee you at {{page}}' },
+      { name: '<Jo>', page: 'Cafe & Bar' }
+    );
+    expect(subject).toBe('Thanks <Jo>');
+    expect(html).toContain('Hi &lt;Jo&gt;,<br>see you at Cafe &amp; Bar');
+  });
+});
+
+describe('deliverLeadEmails', () => {
+  const originalFetch = global.fetch;
+
+  function fakeSupabase() {
+    const insert = vi.fn().mockResolvedValue({ error: null });
+    const getUserById = vi.fn().mockResolvedValue({ data: { user: { email: 'owner@example.com' } } });
+    const client = {
+      from: vi.fn(() => ({ insert })),
+      auth: { admin: { getUserById } },
+    };
+    return { client, insert, getUserById };
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env.RESEND_API_KEY = 'test-key';
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends one notification per recipient plus the autoresponder and logs each', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'eml-1' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response('bad address', { status: 422 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'eml-3' }), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const { client, insert, getUserById } = fakeSupabase();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await deliverLeadEmails(client as never, {
+      page: {
+        id: 'p-1',
+        owner_id: 'u-1',
+        contact_email: null,
+        lead_routing: routing({
+          recipients: ['a@example.com', 'b@example.com'],
+          autoresponder: { enabled: true, subject: 'Thanks {{name}}', message: 'Hi' },
+        }),
+      },
+      blockId,
+      submissionId: 's-1',
+      lead,
+    });
+
+    expect(getUserById).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const first = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(first.to).toBe('a@example.com');
+    expect(first.reply_to).toBe('jo@example.com');
+
+    const rows = insert.mock.calls[0][0] as Array<Record<string, unknown>>;
+    expect(rows).toEqual([
+      expect.objectContaining({ kind: 'notification', recipient: 'a@example.com', status: 'sent', provider_id: 'eml-1' }),
+      expect.objectContaining({ kind: 'notification', recipient: 'b@example.com', status: 'failed', error: 'Resend responded 422: bad address' }),
+      expect.objectContaining({ kind: 'autoresponder', recipient: 'jo@example.com', status: 'sent', submission_id: 's-1' }),
+    ]);
+  });
+
+  it('logs skipped sends when Resend is not configured', async () => {
+    delete process.env.RESEND_API_KEY;
+    const fetchMock = vi.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const { client, insert, getUserById } = fakeSupabase();
+
+    await deliverLeadEmails(client as never, {
+      page: { id: 'p-1', owner_id: 'u-1', contact_email: null, lead_routing: null },
+      blockId,
+      submissionId: 's-1',
+      lead,
+    });
+
+    expect(getUserById).toHaveBeenCalledWith('u-1');
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(insert.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ recipient: 'owner@example.com', status: 'skipped' }),
+    ]);
+  });
+});
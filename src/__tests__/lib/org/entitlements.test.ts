@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PLAN_ENTITLEMENTS,
+  getPlanEntitlements,
+  orgHasFeature,
+  getPlanLimit,
+  isWithinLimit,
+  hasRoomFor,
+  planLimitCeiling,
+  getOrgPlan,
+} from '@/lib/org/entitlements';
+import type { OrganizationPlan } from '@/types/organization';
+
+const mockClient: any = {
+  from: vi.fn(),
+};
+
+function mockSelectSingle(result: { data: unknown; error: unknown }) {
+  const single = vi.fn().mockResolvedValue(result);
+  const eq = vi.fn(() => ({ single }));
+  const select = vi.fn(() => ({ eq }));
+  mockClient.from.mockReturnValue({ select });
+  return { single, eq, select };
+}
+
+describe('plan entitlements', () => {
+  it('gates custom domains to pro', () => {
+    expect(orgHasFeature('free', 'custom_domains')).toBe(false);
+    expect(orgHasFeature('pro', 'custom_domains')).toBe(true);
+    expect(orgHasFeature({ plan: 'pro' }, 'custom_domains')).toBe(true);
+  });
+
+  it('treats unknown or missing plans as free', () => {
+    expect(getPlanEntitlements(null)).toBe(PLAN_ENTITLEMENTS.free);
+    expect(getPlanEntitlements(undefined)).toBe(PLAN_ENTITLEMENTS.free);
+    expect(getPlanEntitlements('enterprise' as OrganizationPlan)).toBe(PLAN_ENTITLEMENTS.free);
+  });
+
+  it('reads numeric limits, with null meaning unlimited', () => {
+    expect(getPlanLimit('free', 'bio_pages')).toBe(5);
+    expect(getPlanLimit('pro', 'bio_pages')).toBeNull();
+    expect(getPlanLimit('free', 'nfc_carriers')).toBe(0);
+  });
+
+  it('isWithinLimit leaves room for one more below the cap', () => {
+    expect(isWithinLimit('free', 'bio_pages', 4)).toBe(true);
+    expect(isWithinLimit('free', 'bio_pages', 5)).toBe(false);
+    expect(isWithinLimit('pro', 'bio_pages', 10_000)).toBe(true);
+  });
+
+  it('defines every feature and limit for every plan', () => {
+    const [first, ...rest] = Object.values(PLAN_ENTITLEMENTS);
+    for (const entitlements of rest) {
+      expect(Object.keys(entitlements.features).sort()).toEqual(Object.keys(first.features).sort());
+      expect(Object.keys(entitlements.limits).sort()).toEqual(Object.keys(first.limits).sort());
+    }
+  });
+});
+
+describe('hasRoomFor', () => {
+  it('does not count usage when the limit is unlimited or zero', async () => {
+    const count = vi.fn().mockResolvedValue(100);
+
+    expect(await hasRoomFor('pro', 'nfc_carriers', count)).toBe(true);
+    expect(await hasRoomFor('free', 'nfc_carriers', count)).toBe(false);
+    expect(count).not.toHaveBeenCalled();
+  });
+
+  it('counts usage against a finite limit', async () => {
+    expect(await hasRoomFor('free', 'seats', async () => 2)).toBe(true);
+    expect(await hasRoomFor('free', 'seats', async () => 3)).toBe(false);
+  });
+});
+
+describe('planLimitCeiling', () => {
+  it('is the largest finite limit, or null when any plan is unlimited', () => {
+    expect(planLimitCeiling('gallery_images')).toBe(12);
+    expect(planLimitCeiling('bio_pages')).toBeNull();
+  });
+});
+
+describe('getOrgPlan', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the org's plan", async () => {
+    const { eq } = mockSelectSingle({ data: { plan: 'pro' }, error: null });
+
+    expect(await getOrgPlan(mockClient, 'org-1')).toBe('pro');
+    expect(mockClient.from).toHaveBeenCalledWith('organizations');
+    expect(eq).toHaveBeenCalledWith('id', 'org-1');
+  });
+
+  it("falls back to 'free' without an org id or on error", async () => {
+    expect(await getOrgPlan(mockClient, null)).toBe('free');
+    expect(mockClient.from).not.toHaveBeenCalled();
+
+    mockSelectSingle({ data: null, error: { message: 'boom' } });
+    expect(await getOrgPlan(mockClient, 'org-1')).toBe('free');
+  });
+});
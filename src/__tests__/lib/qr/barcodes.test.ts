@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { buildBarcodeSVG } from '@/lib/qr/barcodes';
+import { gtinCheckDigit, validateBarcodeContent, barcodeQuietZone } from '@/lib/qr/barcode-content';
+import { svgAspectRatio } from '@/lib/qr/exporters/svg';
+import { svgToPng } from '@/lib/qr/exporters/png';
+
+const style = { foregroundColor: '#112233', backgroundColor: '#FFEEDD', quietZone: 4 };
+
+function viewBox(svg: string): [number, number] {
+  const match = /viewBox="0 0 (\d+) (\d+)"/.exec(svg);
+  if (!match) throw new Error('no viewBox');
+  return [Number(match[1]), Number(match[2])];
+}
+
+describe('gtinCheckDigit', () => {
+  it('computes the GS1 mod-10 check digit', () => {
+    expect(gtinCheckDigit('590123412345')).toBe(7);
+    expect(gtinCheckDigit('03600029145')).toBe(2);
+    expect(gtinCheckDigit('400638133393')).toBe(1);
+  });
+});
+
+describe('validateBarcodeContent', () => {
+  it('appends a missing EAN-13 / UPC-A check digit', () => {
+    expect(validateBarcodeContent('ean13', '590123412345')).toEqual({
+      isValid: true,
+      normalized: '5901234123457',
+    });
+    expect(validateBarcodeContent('upca', '0360 0029 145').normalized).toBe('036000291452');
+  });
+
+  it('rejects wrong check digits, lengths and non-digits', () => {
+    expect(validateBarcodeContent('ean13', '5901234123458').error).toBe('Invalid EAN-13 check digit');
+    expect(validateBarcodeContent('ean13', '12345').error).toBe('EAN-13 needs 12 or 13 digits');
+    expect(validateBarcodeContent('upca', 'https://example.com').isValid).toBe(false);
+  });
+
+  it('limits Code 128 to printable ASCII of a printable length', () => {
+    expect(validateBarcodeContent('code128', 'https://lynx.example/r/abc').isValid).toBe(true);
+    expect(validateBarcodeContent('code128', 'café').isValid).toBe(false);
+    expect(validateBarcodeContent('code128', 'x'.repeat(81)).isValid).toBe(false);
+    expect(validateBarcodeContent('pdf417', '').isValid).toBe(false);
+  });
+});
+
+describe('buildBarcodeSVG', () => {
+  it('draws every symbology in the style colours', () => {
+    const cases = [
+      ['code128', 'https://lynx.example/r/abc'],
+      ['ean13', '5901234123457'],
+      ['upca', '036000291452'],
+      ['datamatrix', 'https://lynx.example/r/abc'],
+      ['pdf417', 'https://lynx.example/r/abc'],
+    ] as const;
+
+    for (const [symbology, data] of cases) {
+      const svg = buildBarcodeSVG(symbology, data, style);
+      expect(svg.startsWith('<?xml')).toBe(true);
+      expect(svg).toContain('fill="#FFEEDD"');
+      expect(svg).toContain('#112233');
+    }
+  });
+
+  it('keeps linear codes wide and Data Matrix square', () => {
+    expect(svgAspectRatio(buildBarcodeSVG('ean13', '5901234123457', style))).toBeLessThan(1);
+    expect(svgAspectRatio(buildBarcodeSVG('pdf417', 'https://lynx.example/r/abc', style))).toBeLessThan(1);
+    expect(svgAspectRatio(buildBarcodeSVG('datamatrix', 'https://lynx.example/r/abc', style))).toBe(1);
+  });
+
+  it('widens with the quiet zone but never below the symbology minimum', () => {
+    const [narrow] = viewBox(buildBarcodeSVG('datamatrix', 'abc', { ...style, quietZone: 2 }));
+    const [wide] = viewBox(buildBarcodeSVG('datamatrix', 'abc', { ...style, quietZone: 6 }));
+    expect(wide).toBeGreaterThan(narrow);
+
+    expect(barcodeQuietZone('ean13', 2)).toBe(11);
+    const [ean2] = viewBox(buildBarcodeSVG('ean13', '5901234123457', { ...style, quietZone: 2 }));
+    const [ean10] = viewBox(buildBarcodeSVG('ean13', '5901234123457', { ...style, quietZone: 10 }));
+    expect(ean2).toBe(ean10);
+  });
+
+  it('sets width and height when a size is given', () => {
+    const svg = buildBarcodeSVG('ean13', '5901234123457', style, { size: 400, includeXmlDeclaration: false });
+    expect(svg.startsWith('<svg width="400" height="')).toBe(true);
+  });
+
+  it('throws on content the symbology cannot encode', () => {
+    expect(() => buildBarcodeSVG('ean13', 'not digits', style)).toThrow('EAN-13 codes contain digits only');
+  });
+});
+
+describe('svgToPng with barcodes', () => {
+  it('keeps the barcode aspect ratio', async () => {
+    const svg = buildBarcodeSVG('ean13', '5901234123457', style);
+    const meta = await sharp(await svgToPng(svg, 600)).metadata();
+    expect(meta.width).toBe(600);
+    expect(meta.height).toBe(Math.round(600 * svgAspectRatio(svg)));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  parseBulkCsv,
+  mapWithConcurrency,
+  bulkFileBaseName,
+  csvEscape,
+} from '@/lib/qr/bulk';
+
+describe('parseCsv', () => {
+  it('handles quoted fields with commas, quotes and newlines', () => {
+    const rows = parseCsv('a,"b, c","say ""hi""","multi\nline"\r\nx,y,z,w');
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"', 'multi\nline'],
+      ['x', 'y', 'z', 'w'],
+    ]);
+  });
+
+  it('strips a UTF-8 BOM and ignores a trailing newline', () => {
+    expect(parseCsv('﻿name,url\n')).toEqual([['name', 'url']]);
+  });
+});
+
+describe('parseBulkCsv', () => {
+  it('maps columns by header name in any order', () => {
+    const result = parseBulkCsv('slug,URL,Name\ntable-1,https://a.com,Table 1\n,https://b.com,Table 2');
+    expect(result).toEqual({
+      ok: true,
+      rows: [
+        { line: 2, name: 'Table 1', destination_url: 'https://a.com', slug: 'table-1' },
+        { line: 3, name: 'Table 2', destination_url: 'https://b.com' },
+      ],
+    });
+  });
+
+  it('skips blank lines but keeps original line numbers', () => {
+    const result = parseBulkCsv('name,destination_url\n\nA,https://a.com\n,\nB,https://b.com');
+    expect(result.ok && result.rows.map((r) => r.line)).toEqual([3, 5]);
+  });
+
+  it('requires name and destination_url headers', () => {
+    const result = parseBulkCsv('title,slug\nA,a');
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects a file with only a header', () => {
+    expect(parseBulkCsv('name,url\n')).toEqual({ ok: false, error: 'CSV has no data rows' });
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('preserves order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const result = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((r) => setTimeout(r, 5 - (n % 3)));
+      inFlight--;
+      return n * 10;
+    });
+    expect(result).toEqual([10, 20, 30, 40, 50, 60, 70]);
+    expect(peak).toBeLessThanOrEqual(3);
+  });
+});
+
+describe('bulkFileBaseName / csvEscape', () => {
+  it('builds a safe file name from name and slug', () => {
+    expect(bulkFileBaseName('Table #1 (Patio)', 'abc123', 'id')).toBe('table-1-patio-abc123');
+    expect(bulkFileBaseName('***', null, 'fallback-id')).toBe('fallback-id');
+  });
+
+  it('quotes only when needed', () => {
+    expect(csvEscape('plain')).toBe('plain');
+    expect(csvEscape('a,b')).toBe('"a,b"');
+    expect(csvEscape('say "hi"')).toBe('"say ""hi"""');
+    expect(csvEscape(null)).toBe('');
+  });
+});
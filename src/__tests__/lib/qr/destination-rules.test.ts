@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ruleMatches,
+  resolveDestination,
+  localPartsFromInput,
+} from '@/lib/qr/destination-rules';
+import type { QRDestinationRule } from '@/types/qr';
+
+const FALLBACK = 'https://example.com/menu';
+
+const lunch: QRDestinationRule = {
+  id: 'lunch',
+  destination_url: 'https://example.com/lunch',
+  start_time: '11:30',
+  end_time: '15:00',
+};
+
+const dinner: QRDestinationRule = {
+  id: 'dinner',
+  destination_url: 'https://example.com/dinner',
+  start_time: '17:00',
+  end_time: '23:00',
+};
+
+const weekend: QRDestinationRule = {
+  id: 'weekend',
+  destination_url: 'https://example.com/brunch',
+  days: [0, 6],
+};
+
+describe('ruleMatches', () => {
+  it('matches inside a time window and not at its exclusive end', () => {
+    expect(ruleMatches(lunch, localPartsFromInput('2026-06-10', '11:30'))).toBe(true);
+    expect(ruleMatches(lunch, localPartsFromInput('2026-06-10', '14:59'))).toBe(true);
+    expect(ruleMatches(lunch, localPartsFromInput('2026-06-10', '15:00'))).toBe(false);
+  });
+
+  it('handles windows that wrap past midnight', () => {
+    const lateNight: QRDestinationRule = {
+      id: 'late',
+      destination_url: 'https://example.com/late',
+      start_time: '22:00',
+      end_time: '02:00',
+    };
+    expect(ruleMatches(lateNight, localPartsFromInput('2026-06-10', '23:15'))).toBe(true);
+    expect(ruleMatches(lateNight, localPartsFromInput('2026-06-11', '01:59'))).toBe(true);
+    expect(ruleMatches(lateNight, localPartsFromInput('2026-06-11', '02:00'))).toBe(false);
+    expect(ruleMatches(lateNight, localPartsFromInput('2026-06-11', '12:00'))).toBe(false);
+  });
+
+  it('matches weekdays by local day of week', () => {
+    // 2026-06-13 is a Saturday, 2026-06-15 a Monday
+    expect(ruleMatches(weekend, localPartsFromInput('2026-06-13', '10:00'))).toBe(true);
+    expect(ruleMatches(weekend, localPartsFromInput('2026-06-15', '10:00'))).toBe(false);
+  });
+
+  it('treats date ranges as inclusive', () => {
+    const christmas: QRDestinationRule = {
+      id: 'xmas',
+      destination_url: 'https://example.com/festive',
+      start_date: '2026-12-01',
+      end_date: '2026-12-31',
+    };
+    expect(ruleMatches(christmas, localPartsFromInput('2026-12-01', '00:00'))).toBe(true);
+    expect(ruleMatches(christmas, localPartsFromInput('2026-12-31', '23:59'))).toBe(true);
+    expect(ruleMatches(christmas, localPartsFromInput('2027-01-01', '00:00'))).toBe(false);
+  });
+
+  it('requires every set condition to hold', () => {
+    const weekendLunch: QRDestinationRule = { ...lunch, id: 'wl', days: [0, 6] };
+    expect(ruleMatches(weekendLunch, localPartsFromInput('2026-06-13', '12:00'))).toBe(true);
+    expect(ruleMatches(weekendLunch, localPartsFromInput('2026-06-15', '12:00'))).toBe(false);
+    expect(ruleMatches(weekendLunch, localPartsFromInput('2026-06-13', '18:00'))).toBe(false);
+  });
+});
+
+describe('resolveDestination', () => {
+  it('returns the fallback when there are no rules', () => {
+    expect(resolveDestination(FALLBACK, [], 'Europe/London')).toEqual({
+      url: FALLBACK,
+      ruleId: null,
+    });
+    expect(resolveDestination(FALLBACK, null, null).url).toBe(FALLBACK);
+  });
+
+  it('evaluates in the org timezone, not UTC', () => {
+    // 11:00 UTC on a June Wednesday is 12:00 BST in London — lunch time.
+    const at = new Date('2026-06-10T11:00:00Z');
+    expect(resolveDestination(FALLBACK, [lunch, dinner], 'Europe/London', at).ruleId).toBe('lunch');
+    // Same instant in New York is 07:00 — no rule matches.
+    expect(resolveDestination(FALLBACK, [lunch, dinner], 'America/New_York', at)).toEqual({
+      url: FALLBACK,
+      ruleId: null,
+    });
+  });
+
+  it('uses the first matching rule in order', () => {
+    // Saturday 12:00 London matches both weekend and lunch
+    const at = new Date('2026-06-13T11:00:00Z');
+    expect(resolveDestination(FALLBACK, [weekend, lunch], 'Europe/London', at).ruleId).toBe('weekend');
+    expect(resolveDestination(FALLBACK, [lunch, weekend], 'Europe/London', at).ruleId).toBe('lunch');
+  });
+
+  it('falls back to Europe/London for a missing or invalid timezone', () => {
+    const at = new Date('2026-06-10T11:00:00Z');
+    expect(resolveDestination(FALLBACK, [lunch], null, at).ruleId).toBe('lunch');
+    expect(resolveDestination(FALLBACK, [lunch], 'Not/AZone', at).ruleId).toBe('lunch');
+  });
+});
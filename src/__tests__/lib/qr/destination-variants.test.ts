@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  pickVariant,
+  hasActiveSplit,
+  variantLabel,
+} from '@/lib/qr/destination-variants';
+import type { QRDestinationVariant } from '@/types/qr';
+
+const QR_ID = 'qr-1';
+
+const a: QRDestinationVariant = { id: 'a', destination_url: 'https://example.com/a', weight: 50 };
+const b: QRDestinationVariant = { id: 'b', destination_url: 'https://example.com/b', weight: 50 };
+
+describe('hasActiveSplit', () => {
+  it('requires at least two variants with positive weight', () => {
+    expect(hasActiveSplit([])).toBe(false);
+    expect(hasActiveSplit(null)).toBe(false);
+    expect(hasActiveSplit([a])).toBe(false);
+    expect(hasActiveSplit([a, { ...b, weight: 0 }])).toBe(false);
+    expect(hasActiveSplit([a, b])).toBe(true);
+  });
+});
+
+describe('pickVariant', () => {
+  it('returns null when no split is active', () => {
+    expect(pickVariant(QR_ID, [], 'hash')).toBeNull();
+    expect(pickVariant(QR_ID, [a], 'hash')).toBeNull();
+  });
+
+  it('is sticky for the same ip_hash', () => {
+    const first = pickVariant(QR_ID, [a, b], 'abcdef0123456789');
+    for (let i = 0; i < 10; i++) {
+      expect(pickVariant(QR_ID, [a, b], 'abcdef0123456789')).toBe(first);
+    }
+  });
+
+  it('spreads visitors roughly by weight', () => {
+    const heavy = { ...a, weight: 80 };
+    const light = { ...b, weight: 20 };
+    const counts = { a: 0, b: 0 };
+    for (let i = 0; i < 2000; i++) {
+      const v = pickVariant(QR_ID, [heavy, light], `visitor-${i}`);
+      counts[v!.id as 'a' | 'b']++;
+    }
+    expect(counts.a / 2000).toBeGreaterThan(0.7);
+    expect(counts.a / 2000).toBeLessThan(0.9);
+  });
+
+  it('never picks a zero-weight variant', () => {
+    const c = { id: 'c', destination_url: 'https://example.com/c', weight: 0 };
+    for (let i = 0; i < 200; i++) {
+      expect(pickVariant(QR_ID, [a, b, c], `visitor-${i}`)?.id).not.toBe('c');
+    }
+  });
+
+  it('still picks a variant without a sticky key', () => {
+    expect(['a', 'b']).toContain(pickVariant(QR_ID, [a, b], null)?.id);
+  });
+});
+
+describe('variantLabel', () => {
+  it('uses the user label or falls back to a letter', () => {
+    expect(variantLabel({ label: 'Blue poster' }, 0)).toBe('Blue poster');
+    expect(variantLabel({ label: '  ' }, 1)).toBe('B');
+    expect(variantLabel({}, 2)).toBe('C');
+  });
+});
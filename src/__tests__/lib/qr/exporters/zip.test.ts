@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { createZip } from '@/lib/qr/exporters/zip';
+
+/** Reads entries back via the central directory — enough to verify structure. */
+function readZip(zip: Buffer): Map<string, Buffer> {
+  const eocd = zip.length - 22;
+  expect(zip.readUInt32LE(eocd)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(eocd + 10);
+  let ptr = zip.readUInt32LE(eocd + 16);
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(ptr)).toBe(0x02014b50);
+    const method = zip.readUInt16LE(ptr + 10);
+    const compressedSize = zip.readUInt32LE(ptr + 20);
+    const nameLength = zip.readUInt16LE(ptr + 28);
+    const localOffset = zip.readUInt32LE(ptr + 42);
+    const name = zip.toString('utf8', ptr + 46, ptr + 46 + nameLength);
+
+    const localNameLength = zip.readUInt16LE(localOffset + 26);
+    const start = localOffset + 30 + localNameLength;
+    const body = zip.subarray(start, start + compressedSize);
+    files.set(name, method === 8 ? inflateRawSync(body) : Buffer.from(body));
+
+    ptr += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('createZip', () => {
+  it('round-trips text and binary entries', () => {
+    const svg = '<svg>' + 'x'.repeat(500) + '</svg>';
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+    const zip = createZip([
+      { name: 'svg/a.svg', data: svg },
+      { name: 'png/a.png', data: png },
+    ]);
+
+    const files = readZip(zip);
+    expect(files.get('svg/a.svg')?.toString('utf8')).toBe(svg);
+    expect(Array.from(files.get('png/a.png')!)).toEqual(Array.from(png));
+  });
+
+  it('deflates compressible text entries', () => {
+    const text = 'a'.repeat(10_000);
+    const zip = createZip([{ name: 'manifest.csv', data: text }]);
+    expect(zip.length).toBeLessThan(1_000);
+  });
+
+  it('produces a valid empty archive', () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip).size).toBe(0);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  carrierHasNfc,
+  nfcRedirectUrl,
+  parseScanMedium,
+  parseViewMedium,
+  withBioPageMedium,
+} from '@/lib/qr/medium';
+
+describe('scan medium', () => {
+  it('reads ?m=nfc as a tap and anything else as a scan', () => {
+    expect(parseScanMedium(new URLSearchParams('m=nfc'))).toBe('nfc');
+    expect(parseScanMedium(new URLSearchParams(''))).toBe('qr');
+    expect(parseScanMedium(new URLSearchParams('m=NFC'))).toBe('qr');
+  });
+
+  it('reads a bio page view\'s medium, defaulting to web', () => {
+    expect(parseViewMedium(new URLSearchParams('m=nfc'))).toBe('nfc');
+    expect(parseViewMedium(new URLSearchParams('m=qr'))).toBe('qr');
+    expect(parseViewMedium(new URLSearchParams('m=email'))).toBe('web');
+    expect(parseViewMedium(new URLSearchParams(''))).toBe('web');
+  });
+
+  it('passes the medium on only to our own bio pages', () => {
+    const app = 'https://lynx.example';
+    expect(withBioPageMedium('https://lynx.example/p/sam?utm_source=card', 'nfc', app))
+      .toBe('https://lynx.example/p/sam?utm_source=card&m=nfc');
+    expect(withBioPageMedium('https://lynx.example/p/sam#links', 'qr', app))
+      .toBe('https://lynx.example/p/sam?m=qr#links');
+    expect(withBioPageMedium('https://example.com/p/sam', 'nfc', app)).toBe('https://example.com/p/sam');
+    expect(withBioPageMedium('https://lynx.example/pricing', 'nfc', app)).toBe('https://lynx.example/pricing');
+    expect(withBioPageMedium('https://lynx.example/p/sam', 'nfc', '')).toBe('https://lynx.example/p/sam');
+  });
+
+  it('builds the NFC tag URL only for NFC carriers', () => {
+    expect(nfcRedirectUrl('https://lynx.example/r/abc')).toBe('https://lynx.example/r/abc?m=nfc');
+    expect(carrierHasNfc('nfc')).toBe(true);
+    expect(carrierHasNfc('both')).toBe(true);
+    expect(carrierHasNfc('qr')).toBe(false);
+    expect(carrierHasNfc(null)).toBe(false);
+  });
+});
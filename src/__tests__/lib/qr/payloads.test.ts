@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeText,
+  escapeWifi,
+  foldLine,
+  buildVCard,
+  buildWifi,
+  buildSms,
+  buildMailto,
+  buildGeo,
+  buildVEvent,
+  buildPayload,
+} from '@/lib/qr/payloads';
+import { getQRContent } from '@/lib/qr/generator';
+
+describe('escaping', () => {
+  it('escapes vCard / iCalendar text values', () => {
+    expect(escapeText('Smith, Jones; Co\\Ltd\nLondon')).toBe('Smith\\, Jones\\; Co\\\\Ltd\\nLondon');
+  });
+
+  it('escapes Wi-Fi field values', () => {
+    expect(escapeWifi('a;b,c:d"e\\f')).toBe('a\\;b\\,c\\:d\\"e\\\\f');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldLine(`NOTE:${'é'.repeat(50)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBe(2);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join('')).toBe(`NOTE:${'é'.repeat(50)}`);
+  });
+});
+
+describe('buildVCard', () => {
+  const contact = {
+    type: 'vcard' as const,
+    version: '3.0' as const,
+    first_name: 'Jo',
+    last_name: 'Bloggs',
+    organization: 'Bloggs, Sons & Co',
+    phone: '+44 20 7946 0000',
+    email: 'jo@example.com',
+    city: 'London',
+  };
+
+  it('builds a vCard 3.0 with escaped values and CRLF line breaks', () => {
+    const card = buildVCard(contact);
+    expect(card.split('\r\n')).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Bloggs;Jo;;;',
+      'FN:Jo Bloggs',
+      'ORG:Bloggs\\, Sons & Co',
+      'TEL;TYPE=WORK:+44 20 7946 0000',
+      'EMAIL;TYPE=INTERNET:jo@example.com',
+      'ADR;TYPE=WORK:;;;London;;;',
+      'END:VCARD',
+    ]);
+  });
+
+  it('uses tel: URIs in vCard 4.0', () => {
+    const card = buildVCard({ ...contact, version: '4.0' });
+    expect(card).toContain('VERSION:4.0');
+    expect(card).toContain('TEL;TYPE=work;VALUE=uri:tel:+442079460000');
+    expect(card).toContain('EMAIL;TYPE=work:jo@example.com');
+  });
+
+  it('embeds a photo, folded across continuation lines', () => {
+    const photo = { mediaType: 'image/jpeg' as const, base64: 'A'.repeat(200) };
+    const v3 = buildVCard(contact, photo);
+    expect(v3).toContain('PHOTO;ENCODING=b;TYPE=JPEG:AAAA');
+    expect(v3.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+    expect(buildVCard({ ...contact, version: '4.0' }, photo)).toContain('PHOTO:data:image/jpeg;base64,AAAA');
+  });
+
+  it('falls back to the organization for FN', () => {
+    const card = buildVCard({ type: 'vcard', version: '3.0', organization: 'Corner Café' });
+    expect(card).toContain('FN:Corner Café');
+  });
+});
+
+describe('buildWifi', () => {
+  it('escapes the SSID and password', () => {
+    expect(buildWifi({ type: 'wifi', ssid: 'Café; Guest', security: 'WPA', password: 'p:a"ss' }))
+      .toBe('WIFI:T:WPA;S:Café\\; Guest;P:p\\:a\\"ss;;');
+  });
+
+  it('omits the password for open networks and flags hidden ones', () => {
+    expect(buildWifi({ type: 'wifi', ssid: 'Open', security: 'nopass', hidden: true }))
+      .toBe('WIFI:T:nopass;S:Open;H:true;;');
+  });
+});
+
+describe('buildSms / buildMailto / buildGeo', () => {
+  it('strips phone formatting for SMSTO', () => {
+    expect(buildSms({ type: 'sms', phone: '+44 (7700) 900-000', message: 'Table 4: ready' }))
+      .toBe('SMSTO:+447700900000:Table 4: ready');
+    expect(buildSms({ type: 'sms', phone: '07700 900000' })).toBe('SMSTO:07700900000');
+  });
+
+  it('percent-encodes mailto fields with CRLF line breaks', () => {
+    expect(buildMailto({ type: 'email', to: 'hello@example.com', subject: 'Hi & bye', body: 'a\nb' }))
+      .toBe('mailto:hello@example.com?subject=Hi%20%26%20bye&body=a%0D%0Ab');
+    expect(buildMailto({ type: 'email', to: 'hello@example.com' })).toBe('mailto:hello@example.com');
+  });
+
+  it('rounds coordinates to six decimals', () => {
+    expect(buildGeo({ type: 'geo', latitude: 51.50735123, longitude: -0.1277583 })).toBe('geo:51.507351,-0.127758');
+    expect(buildGeo({ type: 'geo', latitude: 0, longitude: 0, altitude: 12.6 })).toBe('geo:0,0,13');
+  });
+});
+
+describe('buildVEvent', () => {
+  it('writes floating local times and escapes text', () => {
+    expect(buildVEvent({
+      type: 'event',
+      summary: 'Open mic; all welcome',
+      start: '2030-03-14T19:30',
+      end: '2030-03-14T22:00',
+      location: 'Back room, Corner Café',
+    }).split('\r\n')).toEqual([
+      'BEGIN:VEVENT',
+      'SUMMARY:Open mic\\; all welcome',
+      'DTSTART:20300314T193000',
+      'DTEND:20300314T220000',
+      'LOCATION:Back room\\, Corner Café',
+      'END:VEVENT',
+    ]);
+  });
+
+  it('gives all-day events an exclusive end date', () => {
+    const event = buildVEvent({ type: 'event', summary: 'Market', start: '2030-12-31', all_day: true });
+    expect(event).toContain('DTSTART;VALUE=DATE:20301231');
+    expect(event).toContain('DTEND;VALUE=DATE:20310101');
+  });
+});
+
+describe('getQRContent with a payload', () => {
+  it('encodes the built payload for direct codes', () => {
+    const payload = { type: 'wifi' as const, ssid: 'Guest', security: 'WPA' as const, password: 'espresso1' };
+    expect(getQRContent('direct', '', undefined, payload)).toBe(buildPayload(payload));
+    expect(getQRContent('direct', 'https://example.com')).toBe('https://example.com');
+  });
+});
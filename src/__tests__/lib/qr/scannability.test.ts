@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { checkScannability } from '@/lib/qr/scannability';
+import { buildStyledSVG } from '@/lib/qr/svg-builder';
+import { generateQRMatrix } from '@/lib/qr/generator';
+import type { QRStyleConfig } from '@/types/qr';
+
+const base: QRStyleConfig = {
+  foregroundColor: '#000000',
+  backgroundColor: '#FFFFFF',
+  errorCorrection: 'M',
+  quietZone: 4,
+  moduleShape: 'square',
+  eyeShape: 'square',
+  logoMode: 'none',
+  logoSizeRatio: 0.2,
+};
+
+const url = 'https://example.com/r/abc123';
+
+describe('checkScannability', () => {
+  it('passes black on white at every size', async () => {
+    const report = await checkScannability(url, base);
+
+    expect(report.passed).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.contrast).toEqual({ ratio: 21, score: 100 });
+    expect(report.logoCoverage.ratio).toBe(0);
+    expect(report.attempts).toHaveLength(9);
+    expect(report.attempts.filter((a) => a.blur === 0).every((a) => a.decoded)).toBe(true);
+    expect(report.score).toBeGreaterThan(80);
+  });
+
+  it('fails colours too close to the background', async () => {
+    const report = await checkScannability(url, { ...base, foregroundColor: '#EEEEEE' });
+
+    expect(report.passed).toBe(false);
+    expect(report.contrast.score).toBe(0);
+    expect(report.issues).toContain('Colours are too close to the background');
+    expect(report.issues[0]).toMatch(/^Did not decode at /);
+  });
+
+  it('flags a logo hiding more than error correction recovers', async () => {
+    const report = await checkScannability(url, {
+      ...base,
+      logoMode: 'placeholder',
+      logoSizeRatio: 0.3,
+    });
+
+    expect(report.passed).toBe(false);
+    expect(report.logoCoverage.capacity).toBe(0.15);
+    expect(report.logoCoverage.score).toBe(0);
+    expect(report.issues).toContain(
+      'Logo hides 25% of the code; error correction M recovers about 15%'
+    );
+  });
+
+  it('passes the same logo at high error correction', async () => {
+    const report = await checkScannability(url, {
+      ...base,
+      errorCorrection: 'H',
+      logoMode: 'placeholder',
+      logoSizeRatio: 0.2,
+    });
+
+    expect(report.passed).toBe(true);
+    expect(report.logoCoverage.score).toBeGreaterThan(0);
+  });
+});
+
+describe('buildStyledSVG logo placeholder', () => {
+  it('draws the blank backing without an image', async () => {
+    const matrix = await generateQRMatrix(url, 'H');
+    const svg = buildStyledSVG(matrix, { ...base, logoMode: 'placeholder' });
+
+    expect(svg).toMatch(/<rect\s+x="[\d.]+"\s+y="[\d.]+"/);
+    expect(svg).not.toContain('<image');
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import DOMPurify from 'isomorphic-dompurify';
+import { getModulePath, getFinderPatternPaths } from '@/lib/qr/shapes';
+import {
+  getForegroundPaint,
+  getEyeColors,
+  getBackgroundLayer,
+  getContrastWarnings,
+  contrastRatio,
+} from '@/lib/qr/paint';
+import { buildStyledSVG } from '@/lib/qr/svg-builder';
+import { generateQRMatrix } from '@/lib/qr/generator';
+import { styleConfigToInput, styleRowToConfig } from '@/lib/qr/style';
+import { SVG_PURIFY_CONFIG } from '@/lib/security/svg-sanitizer';
+import type { QRStyleConfig } from '@/types/qr';
+
+const base: QRStyleConfig = {
+  foregroundColor: '#000000',
+  backgroundColor: '#FFFFFF',
+  errorCorrection: 'M',
+  quietZone: 4,
+  moduleShape: 'square',
+  eyeShape: 'square',
+  logoMode: 'none',
+  logoSizeRatio: 0.2,
+};
+
+describe('getModulePath', () => {
+  const none = { top: false, right: false, bottom: false, left: false };
+
+  it('joins vertical bars to the modules above and below', () => {
+    const alone = getModulePath('vertical-bars', 0, 0, 10, none);
+    const joined = getModulePath('vertical-bars', 0, 0, 10, { ...none, top: true, bottom: true });
+    expect(alone).toContain('A4,4');
+    expect(joined).not.toContain('A');
+    expect(joined).toBe('M1,0H9V10H1V0Z');
+  });
+
+  it('joins horizontal bars to the modules either side', () => {
+    const joined = getModulePath('horizontal-bars', 0, 0, 10, { ...none, left: true, right: true });
+    expect(joined).toBe('M0,1H10V9H0V1Z');
+  });
+
+  it('rounds only the exposed corners of classy modules', () => {
+    expect(getModulePath('classy', 0, 0, 10, none)).toBe('M5,0H10V5A5,5 0 0 1 5,10H0V5A5,5 0 0 1 5,0Z');
+    expect(getModulePath('classy', 0, 0, 10, { ...none, top: true, right: true })).toBe(
+      'M0,0H10V10H0V0Z'
+    );
+  });
+
+  it('draws a five-pointed star', () => {
+    const star = getModulePath('star', 0, 0, 10);
+    expect(star.startsWith('M5,0L')).toBe(true);
+    expect(star.split('L').length).toBe(10);
+  });
+});
+
+describe('getFinderPatternPaths', () => {
+  it('cuts the ring with even-odd so the background shows through', () => {
+    for (const shape of ['square', 'rounded', 'circle', 'leaf', 'dot-in-square'] as const) {
+      const [ring, dot] = getFinderPatternPaths(shape, 0, 0, 1, { outer: '#111111', inner: '#222222' });
+      expect(ring).toContain('fill-rule="evenodd"');
+      expect(ring).toContain('fill="#111111"');
+      expect(dot).toContain('fill="#222222"');
+      expect(ring).not.toContain('#FFFFFF');
+    }
+  });
+
+  it('puts a round centre in a square ring for dot-in-square', () => {
+    const [ring, dot] = getFinderPatternPaths('dot-in-square', 0, 0, 1, { outer: '#000', inner: '#000' });
+    expect(ring).not.toContain('A');
+    expect(dot).toContain('a1.5,1.5');
+  });
+});
+
+describe('paint', () => {
+  it('uses the flat foreground without a gradient', () => {
+    expect(getForegroundPaint(base, 29)).toEqual({ defs: '', fill: '#000000' });
+    // A gradient type without an end colour stays flat
+    expect(getForegroundPaint({ ...base, gradientType: 'linear' }, 29).fill).toBe('#000000');
+  });
+
+  it('builds a linear gradient along the angle across the whole code', () => {
+    const paint = getForegroundPaint(
+      { ...base, gradientType: 'linear', gradientColor: '#3366FF', gradientAngle: 90 },
+      20
+    );
+    expect(paint.fill).toBe('url(#qr-linear-000000-3366ff-90)');
+    expect(paint.defs).toContain('gradientUnits="userSpaceOnUse" x1="10" y1="0" x2="10" y2="20"');
+    expect(paint.defs).toContain('<stop offset="0" stop-color="#000000"/>');
+    expect(paint.defs).toContain('<stop offset="1" stop-color="#3366FF"/>');
+  });
+
+  it('builds a radial gradient from the centre', () => {
+    const paint = getForegroundPaint({ ...base, gradientType: 'radial', gradientColor: '#3366FF' }, 20);
+    expect(paint.defs).toMatch(/^<radialGradient id="qr-radial-000000-3366ff-0" gradientUnits="userSpaceOnUse" cx="10" cy="10" r="14.142">/);
+  });
+
+  it('colours eyes separately, falling back to the module fill', () => {
+    expect(getEyeColors({ ...base, eyeOuterColor: '#FF0000' }, 'url(#g)')).toEqual({
+      outer: '#FF0000',
+      inner: 'url(#g)',
+    });
+  });
+
+  it('draws solid, transparent and image backgrounds', () => {
+    expect(getBackgroundLayer(base, 29)).toBe('<rect width="29" height="29" fill="#FFFFFF"/>');
+    expect(getBackgroundLayer({ ...base, backgroundMode: 'transparent' }, 29)).toBe('');
+
+    const image = getBackgroundLayer(
+      { ...base, backgroundMode: 'image', backgroundImageDataUrl: 'data:image/jpeg;base64,AAAA' },
+      29
+    );
+    expect(image).toContain('<image href="data:image/jpeg;base64,AAAA"');
+    expect(image).toContain('fill-opacity="0.6"');
+
+    // Image mode without an image falls back to solid
+    expect(getBackgroundLayer({ ...base, backgroundMode: 'image' }, 29)).toBe(getBackgroundLayer(base, 29));
+  });
+});
+
+describe('getContrastWarnings', () => {
+  it('is quiet for black on white', () => {
+    expect(contrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21);
+    expect(getContrastWarnings(base)).toEqual([]);
+  });
+
+  it('checks both gradient stops and the eye colours against the background', () => {
+    const warnings = getContrastWarnings({
+      ...base,
+      gradientType: 'linear',
+      gradientColor: '#DDDDDD',
+      eyeInnerColor: '#EEEEEE',
+    });
+    expect(warnings).toEqual([
+      'Low contrast between gradient end colour and background may affect scanning',
+      'Low contrast between inner eye colour and background may affect scanning',
+    ]);
+  });
+
+  it('flags light-on-dark codes', () => {
+    expect(getContrastWarnings({ ...base, foregroundColor: '#FFFFFF', backgroundColor: '#000000' })).toEqual([
+      'Light-on-dark codes do not scan on some older readers',
+    ]);
+  });
+
+  it('checks transparent codes against white paper', () => {
+    const warnings = getContrastWarnings({
+      ...base,
+      foregroundColor: '#FFFF00',
+      backgroundColor: '#000000',
+      backgroundMode: 'transparent',
+    });
+    expect(warnings).toEqual([
+      'Foreground is too light to scan on white paper',
+      'Transparent background: print on a light, plain surface',
+    ]);
+  });
+});
+
+describe('buildStyledSVG', () => {
+  it('renders a gradient, eye colours and a transparent background', async () => {
+    const matrix = await generateQRMatrix('https://example.com', 'M');
+    const svg = buildStyledSVG(matrix, {
+      ...base,
+      moduleShape: 'horizontal-bars',
+      eyeShape: 'leaf',
+      gradientType: 'radial',
+      gradientColor: '#3366FF',
+      eyeOuterColor: '#FF0000',
+      backgroundMode: 'transparent',
+    });
+
+    expect(svg).toContain('<defs><radialGradient id="qr-radial-000000-3366ff-0"');
+    expect(svg).toContain('<path fill="url(#qr-radial-000000-3366ff-0)" d="M');
+    expect(svg.match(/fill-rule="evenodd" fill="#FF0000"/g)).toHaveLength(3);
+    expect(svg.match(/<path fill="url\(#qr-radial-000000-3366ff-0\)" d="M[^"]*"\/>/g)).toHaveLength(4);
+    expect(svg).not.toContain('fill="#FFFFFF"');
+  });
+
+  it('survives SVG sanitising with its gradient intact', async () => {
+    const matrix = await generateQRMatrix('https://example.com', 'M');
+    const svg = buildStyledSVG(
+      matrix,
+      { ...base, gradientType: 'linear', gradientColor: '#3366FF', gradientAngle: 45 },
+      undefined,
+      { includeXmlDeclaration: false }
+    );
+    const clean = String(DOMPurify.sanitize(svg, SVG_PURIFY_CONFIG));
+    expect(clean).toContain('<linearGradient id="qr-linear-000000-3366ff-45"');
+    expect(clean).toContain('stop-color="#3366FF"');
+    expect(clean).toContain('fill="url(#qr-linear-000000-3366ff-45)"');
+    expect(clean).toContain('fill-rule="evenodd"');
+  });
+});
+
+describe('style mapping', () => {
+  it('maps a qr_styles row, defaulting the new columns', () => {
+    const config = styleRowToConfig({ foreground_color: '#112233', eye_outer_color: '#FF0000' });
+    expect(config).toMatchObject({
+      foregroundColor: '#112233',
+      gradientType: 'none',
+      gradientAngle: 0,
+      eyeOuterColor: '#FF0000',
+      eyeInnerColor: undefined,
+      backgroundMode: 'solid',
+    });
+  });
+
+  it('only sends the background image when it changed', () => {
+    const image = 'data:image/jpeg;base64,AAAA';
+    const style: QRStyleConfig = { ...base, backgroundMode: 'image', backgroundImageDataUrl: image };
+
+    expect(styleConfigToInput(style, image)).not.toHaveProperty('background_image');
+    expect(styleConfigToInput(style)).toMatchObject({ background_mode: 'image', background_image: image });
+    // Leaving image mode removes the stored image
+    expect(styleConfigToInput({ ...style, backgroundMode: 'solid' }, image)).toMatchObject({
+      background_mode: 'solid',
+      background_image: null,
+    });
+  });
+});
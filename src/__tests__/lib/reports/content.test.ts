@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { lastCompleteMonth, monthLabel, orgReportContent } from '@/lib/reports/content';
+import type { OrgAnalyticsSummary } from '@/types/organization';
+
+describe('lastCompleteMonth', () => {
+  it('is the calendar month before the current one', () => {
+    expect(lastCompleteMonth('UTC', new Date('2026-10-19T12:00:00Z'))).toEqual({
+      period: 'custom',
+      from: '2026-09-01',
+      to: '2026-09-30',
+      days: 30,
+      timezone: 'UTC',
+      include_bots: false,
+    });
+  });
+
+  it('crosses the year and handles leap Februaries', () => {
+    expect(lastCompleteMonth('UTC', new Date('2027-01-01T00:30:00Z'))).toMatchObject({
+      from: '2026-12-01',
+      to: '2026-12-31',
+    });
+    expect(lastCompleteMonth('UTC', new Date('2028-03-05T00:00:00Z'))).toMatchObject({
+      from: '2028-02-01',
+      to: '2028-02-29',
+      days: 29,
+    });
+  });
+
+  it('waits for the month to end in the org’s timezone', () => {
+    // 1 October 02:00 UTC is still 30 September in New York
+    const now = new Date('2026-10-01T02:00:00Z');
+    expect(lastCompleteMonth('America/New_York', now).from).toBe('2026-08-01');
+    expect(lastCompleteMonth('Europe/London', now).from).toBe('2026-09-01');
+  });
+});
+
+describe('orgReportContent', () => {
+  it('compares against the previous month and charts scans and views', () => {
+    const summary = {
+      range: { period: 'custom', from: '2026-09-01', to: '2026-09-30', days: 30, timezone: 'Europe/London', include_bots: false },
+      totals: { scans: 120, views: 40, clicks: 12, submissions: 3 },
+      previous: { from: '2026-08-02', to: '2026-08-31', scans: 100, views: 0, clicks: 12, submissions: 1 },
+      timeline: [
+        { date: '2026-09-01', scans: 70, views: 10, clicks: 2, submissions: 0 },
+        { date: '2026-09-02', scans: 50, views: 30, clicks: 10, submissions: 3 },
+      ],
+      top_qr_codes: [{ id: 'qr-1', name: 'Table 4', scans: 120 }],
+      top_pages: [],
+    } as unknown as OrgAnalyticsSummary;
+
+    const content = orgReportContent('Acme Cafés', summary);
+
+    expect(content.title).toBe('Acme Cafés');
+    expect(content.subtitle).toBe('Monthly report · September 2026');
+    expect(content.metrics[0]).toEqual({ label: 'QR scans', value: 120, previous: 100 });
+    expect(content.chart.days).toEqual(['2026-09-01', '2026-09-02']);
+    expect(content.chart.series.map((s) => s.values)).toEqual([
+      [70, 50],
+      [10, 30],
+    ]);
+    expect(content.tables[0].rows).toEqual([['Table 4', 120]]);
+    expect(content.tables[1].rows).toEqual([]);
+  });
+});
+
+describe('monthLabel', () => {
+  it('names the month of a day', () => {
+    expect(monthLabel('2026-02-01')).toBe('February 2026');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { createReportPdf, pdfSafeText } from '@/lib/reports/pdf';
+import type { ReportContent } from '@/lib/reports/content';
+
+function content(overrides: Partial<ReportContent> = {}): ReportContent {
+  const days = Array.from({ length: 30 }, (_, i) => `2026-09-${String(i + 1).padStart(2, '0')}`);
+  return {
+    title: 'Acme Cafés',
+    subtitle: 'Monthly report · September 2026',
+    timezone: 'Europe/London',
+    metrics: [
+      { label: 'QR scans', value: 1234, previous: 1000 },
+      { label: 'Page views', value: 0, previous: 0 },
+    ],
+    chart: {
+      title: 'Scans by day',
+      days,
+      series: [{ label: 'Scans', color: [0.5, 0.8, 0.1], values: days.map((_, i) => i * 3) }],
+    },
+    tables: [
+      { title: 'Top QR codes', columns: ['QR code', 'Scans'], rows: [['Table 4 🍕', 1234]] },
+      { title: 'Top bio pages', columns: ['Page', 'Views', 'Clicks'], rows: [] },
+    ],
+    ...overrides,
+  };
+}
+
+describe('createReportPdf', () => {
+  it('renders a one-page A4 report', async () => {
+    const bytes = await createReportPdf(content(), new Date('2026-10-01T06:00:00Z'));
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getPageCount()).toBe(1);
+    const { width, height } = pdf.getPage(0).getSize();
+    expect(Math.round(width)).toBe(595);
+    expect(Math.round(height)).toBe(842);
+    expect(pdf.getTitle()).toBe('Acme Cafés – Monthly report · September 2026');
+  });
+
+  it('flows long tables onto more pages', async () => {
+    const rows = Array.from({ length: 60 }, (_, i): [string, number] => [`Code ${i}`, i]);
+    const bytes = await createReportPdf(
+      content({ tables: [{ title: 'Top QR codes', columns: ['QR code', 'Scans'], rows }] })
+    );
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getPageCount()).toBeGreaterThan(1);
+  });
+});
+
+describe('pdfSafeText', () => {
+  it('keeps Latin-1 and typographic punctuation, replaces the rest', () => {
+    expect(pdfSafeText('Café – “Menu” €5')).toBe('Café – “Menu” €5');
+    expect(pdfSafeText('Pizza 🍕 东京\nline')).toBe('Pizza ? ?? line');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { appendUtm, normalizeUtm } from '@/lib/utm';
+
+describe('normalizeUtm', () => {
+  it('trims values and drops empty tags', () => {
+    expect(normalizeUtm({ source: ' flyer ', medium: '', campaign: '  ' })).toEqual({ source: 'flyer' });
+  });
+
+  it('returns null when nothing is set', () => {
+    expect(normalizeUtm({ source: '' })).toBeNull();
+    expect(normalizeUtm(null)).toBeNull();
+    expect(normalizeUtm(undefined)).toBeNull();
+  });
+});
+
+describe('appendUtm', () => {
+  const utm = { source: 'flyer', medium: 'qr', campaign: 'spring' };
+
+  it('adds a query string when the URL has none', () => {
+    expect(appendUtm('https://example.com/menu', utm)).toBe(
+      'https://example.com/menu?utm_source=flyer&utm_medium=qr&utm_campaign=spring'
+    );
+  });
+
+  it('keeps the existing query string as-is and the fragment last', () => {
+    expect(appendUtm('https://example.com/p?a=1&b=%20x#top', { source: 'flyer' })).toBe(
+      'https://example.com/p?a=1&b=%20x&utm_source=flyer#top'
+    );
+    expect(appendUtm('https://example.com/p?#top', { source: 'flyer' })).toBe(
+      'https://example.com/p?utm_source=flyer#top'
+    );
+    expect(appendUtm('https://example.com/#/app?x=1', { source: 'flyer' })).toBe(
+      'https://example.com/?utm_source=flyer#/app?x=1'
+    );
+  });
+
+  it('does not override tags already in the destination', () => {
+    expect(appendUtm('https://example.com/?utm_source=email', utm)).toBe(
+      'https://example.com/?utm_source=email&utm_medium=qr&utm_campaign=spring'
+    );
+    expect(appendUtm('https://example.com/?utm_source=email', { source: 'flyer' })).toBe(
+      'https://example.com/?utm_source=email'
+    );
+  });
+
+  it('encodes values and leaves untagged or empty URLs alone', () => {
+    expect(appendUtm('https://example.com', { campaign: 'a&b c' })).toBe(
+      'https://example.com?utm_campaign=a%26b+c'
+    );
+    expect(appendUtm('https://example.com', null)).toBe('https://example.com');
+    expect(appendUtm('', utm)).toBe('');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(),
+}));
+
+const mockValidateUrlStrict = vi.fn();
+vi.mock('@/lib/security/url-validator-strict', () => ({
+  validateUrlStrict: (...args: unknown[]) => mockValidateUrlStrict(...args),
+}));
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { attemptDelivery, emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import { verifyWebhookSignature } from '@/lib/webhooks/signing';
+import { WEBHOOK_DEFAULTS } from '@/lib/constants';
+import type { WebhookDelivery } from '@/types/webhook';
+
+const endpoint = { id: 'ep-1', url: 'https://hooks.example.com/lynx', secret: 'whsec_test' };
+
+function delivery(overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    id: 'del-1',
+    endpoint_id: 'ep-1',
+    org_id: 'org-1',
+    event_id: 'evt-1',
+    event_type: 'qr.scanned',
+    payload: { qr_id: 'qr-1' },
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: null,
+    last_attempt_at: null,
+    response_status: null,
+    response_body: null,
+    last_error: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function mockUpdateClient() {
+  const eq = vi.fn().mockResolvedValue({ error: null });
+  const update = vi.fn().mockReturnValue({ eq });
+  const from = vi.fn().mockReturnValue({ update });
+  return { client: { from } as never, update };
+}
+
+describe('attemptDelivery', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    mockValidateUrlStrict.mockResolvedValue({ isValid: true, normalizedUrl: endpoint.url });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('POSTs a signed envelope and marks a 2xx as succeeded', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+    const { client, update } = mockUpdateClient();
+
+    const result = await attemptDelivery(client, delivery(), endpoint);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(endpoint.url);
+    expect(init.redirect).toBe('manual');
+    expect(JSON.parse(init.body)).toEqual({
+      id: 'evt-1',
+      type: 'qr.scanned',
+      created_at: '2026-01-01T00:00:00.000Z',
+      org_id: 'org-1',
+      data: { qr_id: 'qr-1' },
+    });
+    expect(init.headers['X-Lynx-Event']).toBe('qr.scanned');
+    expect(init.headers['X-Lynx-Delivery']).toBe('del-1');
+    expect(verifyWebhookSignature('whsec_test', init.body, init.headers['X-Lynx-Signature'])).toBe(true);
+
+    expect(result.status).toBe('succeeded');
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'succeeded', attempts: 1, response_status: 200, next_attempt_at: null })
+    );
+  });
+
+  it('reschedules a non-2xx response with backoff', async () => {
+    fetchMock.mockResolvedValue(new Response('nope', { status: 503 }));
+    const { client } = mockUpdateClient();
+
+    const before = Date.now();
+    const result = await attemptDelivery(client, delivery({ attempts: 2 }), endpoint);
+
+    expect(result.status).toBe('pending');
+    expect(result.attempts).toBe(3);
+    expect(result.last_error).toContain('503');
+    const next = new Date(result.next_attempt_at!).getTime();
+    expect(next).toBeGreaterThanOrEqual(before + WEBHOOK_DEFAULTS.BASE_RETRY_DELAY_MS * 4);
+  });
+
+  it('marks the delivery failed once attempts are exhausted', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const { client } = mockUpdateClient();
+
+    const result = await attemptDelivery(
+      client,
+      delivery({ attempts: WEBHOOK_DEFAULTS.MAX_ATTEMPTS - 1 }),
+      endpoint
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.next_attempt_at).toBeNull();
+    expect(result.last_error).toBe('ECONNREFUSED');
+  });
+
+  it('does not send to a URL that fails SSRF validation', async () => {
+    mockValidateUrlStrict.mockResolvedValue({ isValid: false, error: 'Private IP addresses are not allowed' });
+    const { client } = mockUpdateClient();
+
+    const result = await attemptDelivery(client, delivery(), endpoint);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.status).toBe('pending');
+    expect(result.last_error).toBe('Private IP addresses are not allowed');
+  });
+});
+
+describe('emitWebhookEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does nothing without an org', async () => {
+    await emitWebhookEvent(null, 'qr.scanned', {});
+    expect(createAdminClient).not.toHaveBeenCalled();
+  });
+
+  it('queues nothing when no endpoint subscribes to the event', async () => {
+    const contains = vi.fn().mockResolvedValue({ data: [], error: null });
+    const eqActive = vi.fn().mockReturnValue({ contains });
+    const eqOrg = vi.fn().mockReturnValue({ eq: eqActive });
+    const select = vi.fn().mockReturnValue({ eq: eqOrg });
+    const insert = vi.fn();
+    const from = vi.fn((table: string) =>
+      table === 'webhook_endpoints' ? { select } : { insert }
+    );
+    (createAdminClient as ReturnType<typeof vi.fn>).mockReturnValue({ from });
+
+    await emitWebhookEvent('org-1', 'form.submitted', { page_id: 'p-1' });
+
+    expect(eqOrg).toHaveBeenCalledWith('org_id', 'org-1');
+    expect(contains).toHaveBeenCalledWith('events', ['form.submitted']);
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  retryDelayMs,
+  WEBHOOK_SECRET_PREFIX,
+} from '@/lib/webhooks/signing';
+import { WEBHOOK_DEFAULTS } from '@/lib/constants';
+
+describe('generateWebhookSecret', () => {
+  it('returns a prefixed, unique secret', () => {
+    const a = generateWebhookSecret();
+    const b = generateWebhookSecret();
+    expect(a.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true);
+    expect(a).toMatch(/^whsec_[A-Za-z0-9_-]{32}$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('signs "timestamp.body" with HMAC-SHA256', () => {
+    const body = '{"id":"evt-1"}';
+    const header = signWebhookPayload('whsec_test', body, 1700000000);
+    const expected = createHmac('sha256', 'whsec_test')
+      .update(`1700000000.${body}`)
+      .digest('hex');
+    expect(header).toBe(`t=1700000000,v1=${expected}`);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"id":"evt-1","type":"qr.scanned"}';
+  const now = 1700000000;
+
+  it('accepts a fresh signature from the same secret', () => {
+    const header = signWebhookPayload('whsec_test', body, now);
+    expect(verifyWebhookSignature('whsec_test', body, header, 300, now + 10)).toBe(true);
+  });
+
+  it('rejects another secret, a modified body or a stale timestamp', () => {
+    const header = signWebhookPayload('whsec_test', body, now);
+    expect(verifyWebhookSignature('whsec_other', body, header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body + ' ', header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, header, 300, now + 301)).toBe(false);
+  });
+
+  it('rejects malformed headers', () => {
+    expect(verifyWebhookSignature('whsec_test', body, 'garbage', 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, `t=${now}`, 300, now)).toBe(false);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles from the base delay after each failed attempt', () => {
+    const base = WEBHOOK_DEFAULTS.BASE_RETRY_DELAY_MS;
+    expect(retryDelayMs(1)).toBe(base);
+    expect(retryDelayMs(2)).toBe(base * 2);
+    expect(retryDelayMs(3)).toBe(base * 4);
+  });
+
+  it('is capped at the maximum delay', () => {
+    expect(retryDelayMs(30)).toBe(WEBHOOK_DEFAULTS.MAX_RETRY_DELAY_MS);
+  });
+});
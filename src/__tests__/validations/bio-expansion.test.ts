@@ -471,14 +471,113 @@ describe('contactFormContentSchema', () => {
   });
 });
 
+// ─── Review Funnel Content Schema ────────────────────────────────────
+
+describe('reviewFunnelContentSchema', () => {
+  it('accepts valid minimal review funnel', () => {
+    const result = parse('review_funnel', {
+      platform: 'google',
+      review_url: 'https://g.page/r/abc123/review',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts review funnel with all optional fields', () => {
+    const result = parse('review_funnel', {
+      platform: 'trustpilot',
+      review_url: 'https://uk.trustpilot.com/evaluate/example.com',
+      prompt: 'How did we do?',
+      min_public_rating: 5,
+      feedback_title: 'Tell us what went wrong',
+      success_message: 'Thanks, the manager will reply shortly.',
+      style_overrides: { padding: 'md' },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts an empty review_url so new blocks can be created before setup', () => {
+    const result = parse('review_funnel', {
+      platform: 'facebook',
+      review_url: '',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts all valid platform values individually', () => {
+    const validPlatforms = ['google', 'tripadvisor', 'trustpilot', 'facebook'] as const;
+    for (const platform of validPlatforms) {
+      const result = parse('review_funnel', { platform, review_url: '' });
+      expect(result.success, `platform "${platform}" should be valid`).toBe(true);
+    }
+  });
+
+  it('rejects review funnel with unknown platform', () => {
+    const result = parse('review_funnel', {
+      platform: 'yelp',
+      review_url: 'https://yelp.com/biz/example',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a review_url that is not http(s)', () => {
+    for (const review_url of ['javascript:alert(document.cookie)', 'data:text/html,<script></script>', 'not a url']) {
+      const result = parse('review_funnel', { platform: 'google', review_url });
+      expect(result.success, review_url).toBe(false);
+    }
+  });
+
+  it('rejects review funnel without review_url', () => {
+    const result = parse('review_funnel', {
+      platform: 'google',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects min_public_rating of 1 (would never open private feedback)', () => {
+    const result = parse('review_funnel', {
+      platform: 'google',
+      review_url: '',
+      min_public_rating: 1,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects min_public_rating above 5', () => {
+    const result = parse('review_funnel', {
+      platform: 'google',
+      review_url: '',
+      min_public_rating: 6,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects non-integer min_public_rating', () => {
+    const result = parse('review_funnel', {
+      platform: 'google',
+      review_url: '',
+      min_public_rating: 3.5,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects too long prompt', () => {
+    const result = parse('review_funnel', {
+      platform: 'google',
+      review_url: '',
+      prompt: 'a'.repeat(151),
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
 // ─── Schema Registry ─────────────────────────────────────────────────
 
 describe('blockContentSchemas registry', () => {
-  it('has entries for all 14 block types', () => {
+  it('has entries for all 15 block types', () => {
     const expectedTypes = [
       'link', 'heading', 'text', 'image', 'social_icons',
       'divider', 'spacer', 'spotify_embed', 'youtube_embed', 'map',
-      'contact_form', 'gallery', 'countdown', 'payment_link',
+      'contact_form', 'gallery', 'countdown', 'payment_link', 'review_funnel',
     ];
     for (const type of expectedTypes) {
       expect(blockContentSchemas[type], `schema for "${type}" should exist`).toBeDefined();
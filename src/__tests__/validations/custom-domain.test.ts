@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { customDomainSchema } from '@/validations/bio';
+
+describe('customDomainSchema', () => {
+  it('normalises case, whitespace and a trailing dot', () => {
+    expect(customDomainSchema.parse({ domain: ' Links.Example.COM. ' })).toEqual({ domain: 'links.example.com' });
+  });
+
+  it('accepts punycode TLDs', () => {
+    expect(customDomainSchema.safeParse({ domain: 'links.xn--p1ai' }).success).toBe(true);
+  });
+
+  it.each([
+    'https://links.example.com',
+    'links.example.com/path',
+    'links.example.com:8080',
+    '*.example.com',
+    'localhost',
+    '192.168.0.1',
+    '-bad.example.com',
+  ])('rejects %s', (domain) => {
+    expect(customDomainSchema.safeParse({ domain }).success).toBe(false);
+  });
+});
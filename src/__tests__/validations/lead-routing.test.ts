@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { leadRoutingSchema, updateBioPageSchema } from '@/validations/bio';
+import { LEAD_ROUTING_DEFAULTS } from '@/lib/constants';
+
+const blockId = '123e4567-e89b-12d3-a456-426614174000';
+
+describe('leadRoutingSchema', () => {
+  it('fills defaults and normalises addresses', () => {
+    const r = leadRoutingSchema.parse({ recipients: [' Sales@Example.com', 'sales@example.com'] });
+    expect(r).toEqual({ recipients: ['sales@example.com'], block_overrides: {}, autoresponder: null });
+  });
+
+  it('rejects invalid addresses and too many recipients', () => {
+    expect(leadRoutingSchema.safeParse({ recipients: ['not-an-email'] }).success).toBe(false);
+    const many = Array.from({ length: LEAD_ROUTING_DEFAULTS.MAX_RECIPIENTS + 1 }, (_, i) => `r${i}@example.com`);
+    expect(leadRoutingSchema.safeParse({ recipients: many }).success).toBe(false);
+  });
+
+  it('requires block overrides to be keyed by block id and non-empty', () => {
+    expect(leadRoutingSchema.safeParse({ block_overrides: { [blockId]: ['a@example.com'] } }).success).toBe(true);
+    expect(leadRoutingSchema.safeParse({ block_overrides: { 'not-a-uuid': ['a@example.com'] } }).success).toBe(false);
+    expect(leadRoutingSchema.safeParse({ block_overrides: { [blockId]: [] } }).success).toBe(false);
+  });
+
+  it('requires a subject and message for the autoresponder', () => {
+    expect(
+      leadRoutingSchema.safeParse({ autoresponder: { enabled: true, subject: ' ', message: 'Hi' } }).success
+    ).toBe(false);
+  });
+});
+
+describe('updateBioPageSchema.lead_routing', () => {
+  it('accepts null to reset to the default routing', () => {
+    const r = updateBioPageSchema.parse({ lead_routing: null });
+    expect(r.lead_routing).toBeNull();
+  });
+});
@@ -2,7 +2,12 @@ import { describe, it, expect } from 'vitest';
 import {
   isValidUUID,
   createQRSchema,
+  qrPayloadSchema,
   updateStyleSchema,
+  updateQRSchema,
+  destinationRuleSchema,
+  destinationVariantsSchema,
+  scannabilityCheckSchema,
 } from '@/validations/qr';
 
 describe('isValidUUID', () => {
@@ -157,8 +162,108 @@ describe('createQRSchema', () => {
     if (result.success) {
       expect(result.data.mode).toBe('managed');
       expect(result.data.analytics_enabled).toBe(true);
+      expect(result.data.symbology).toBe('qr');
     }
   });
+
+  it('accepts managed barcodes that can carry a URL', () => {
+    for (const symbology of ['code128', 'datamatrix', 'pdf417']) {
+      const result = createQRSchema.safeParse({ ...validInput, symbology });
+      expect(result.success).toBe(true);
+    }
+  });
+
+  it('requires EAN-13 and UPC-A codes to be direct', () => {
+    const managed = createQRSchema.safeParse({
+      ...validInput,
+      symbology: 'ean13',
+      destination_url: '5901234123457',
+    });
+    expect(managed.success).toBe(false);
+
+    const direct = createQRSchema.safeParse({
+      ...validInput,
+      mode: 'direct',
+      symbology: 'upca',
+      destination_url: '036000291452',
+    });
+    expect(direct.success).toBe(true);
+  });
+
+  it('rejects unknown symbologies', () => {
+    const result = createQRSchema.safeParse({ ...validInput, symbology: 'aztec' });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts a payload instead of a URL on direct QR codes', () => {
+    const result = createQRSchema.safeParse({
+      name: 'Guest Wi-Fi',
+      mode: 'direct',
+      payload: { type: 'wifi', ssid: 'Cafe Guest', security: 'WPA', password: 'espresso1' },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('requires a URL when there is no payload', () => {
+    const result = createQRSchema.safeParse({ name: 'My QR Code' });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts a contact source instead of a URL on managed codes', () => {
+    const contact = { bio_page_id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479' };
+    expect(createQRSchema.safeParse({ name: 'Card', contact }).success).toBe(true);
+    expect(createQRSchema.safeParse({ name: 'Card', mode: 'direct', contact }).success).toBe(false);
+    expect(createQRSchema.safeParse({ name: 'Card', contact: { person_id: 'nope' } }).success).toBe(false);
+  });
+
+  it('rejects payloads on managed codes and barcodes', () => {
+    const payload = { type: 'sms', phone: '+447700900000' };
+    expect(createQRSchema.safeParse({ name: 'SMS', payload }).success).toBe(false);
+    expect(
+      createQRSchema.safeParse({ name: 'SMS', mode: 'direct', symbology: 'datamatrix', payload }).success
+    ).toBe(false);
+  });
+});
+
+describe('qrPayloadSchema', () => {
+  it('requires a name or organization on contacts', () => {
+    expect(qrPayloadSchema.safeParse({ type: 'vcard', phone: '+447700900000' }).success).toBe(false);
+    const result = qrPayloadSchema.safeParse({ type: 'vcard', organization: 'Corner Café', email: '' });
+    expect(result.success).toBe(true);
+    if (result.success && result.data.type === 'vcard') {
+      expect(result.data.version).toBe('3.0');
+    }
+  });
+
+  it('checks Wi-Fi passwords against the security type', () => {
+    const wifi = { type: 'wifi', ssid: 'Guest' };
+    expect(qrPayloadSchema.safeParse({ ...wifi, security: 'WPA', password: 'short' }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ ...wifi, security: 'WPA', password: 'long enough' }).success).toBe(true);
+    expect(qrPayloadSchema.safeParse({ ...wifi, security: 'WEP' }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ ...wifi, security: 'nopass', password: 'secret123' }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ ...wifi, ssid: 'x'.repeat(33), security: 'nopass' }).success).toBe(false);
+  });
+
+  it('validates phone numbers, email addresses and coordinates', () => {
+    expect(qrPayloadSchema.safeParse({ type: 'sms', phone: 'call me' }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ type: 'email', to: 'not-an-email' }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ type: 'geo', latitude: 91, longitude: 0 }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ type: 'geo', latitude: -33.86, longitude: 151.21 }).success).toBe(true);
+  });
+
+  it('checks event date formats and order', () => {
+    const event = { type: 'event', summary: 'Open mic' };
+    expect(qrPayloadSchema.safeParse({ ...event, start: '2030-03-14T19:30' }).success).toBe(true);
+    expect(qrPayloadSchema.safeParse({ ...event, start: '2030-03-14' }).success).toBe(false);
+    expect(qrPayloadSchema.safeParse({ ...event, start: '2030-03-14', all_day: true }).success).toBe(true);
+    expect(
+      qrPayloadSchema.safeParse({ ...event, start: '2030-03-14T19:30', end: '2030-03-14T18:00' }).success
+    ).toBe(false);
+  });
+
+  it('rejects unknown payload types', () => {
+    expect(qrPayloadSchema.safeParse({ type: 'bitcoin', address: 'x' }).success).toBe(false);
+  });
 });
 
 describe('updateStyleSchema', () => {
@@ -201,8 +306,49 @@ describe('updateStyleSchema', () => {
   });
 
   it('rejects invalid module shape', () => {
+    const result = updateStyleSchema.safeParse({
+      module_shape: 'hexagon',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts gradients, eye colours, backgrounds and the newer shapes', () => {
     const result = updateStyleSchema.safeParse({
       module_shape: 'star',
+      eye_shape: 'dot-in-square',
+      gradient_type: 'radial',
+      gradient_color: '#3366FF',
+      gradient_angle: 270,
+      eye_outer_color: '#FF0000',
+      eye_inner_color: null,
+      background_mode: 'image',
+      background_image: 'data:image/png;base64,iVBORw0KGgo=',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('leaves the new style fields unset when omitted', () => {
+    const result = updateStyleSchema.safeParse({ foreground_color: '#000000' });
+    expect(result.success).toBe(true);
+    expect(result.data).not.toHaveProperty('gradient_type');
+    expect(result.data).not.toHaveProperty('background_mode');
+    expect(result.data).not.toHaveProperty('eye_outer_color');
+  });
+
+  it('rejects out-of-range gradient angles', () => {
+    expect(updateStyleSchema.safeParse({ gradient_angle: 360 }).success).toBe(false);
+    expect(updateStyleSchema.safeParse({ gradient_angle: 12.5 }).success).toBe(false);
+  });
+
+  it('only accepts PNG, JPEG or WebP data URLs as background images', () => {
+    expect(updateStyleSchema.safeParse({ background_image: 'https://example.com/bg.png' }).success).toBe(false);
+    expect(updateStyleSchema.safeParse({ background_image: 'data:image/svg+xml;base64,PHN2Zz4=' }).success).toBe(false);
+    expect(updateStyleSchema.safeParse({ background_image: 'data:image/webp;base64,UklGRg==' }).success).toBe(true);
+  });
+
+  it('rejects background images over the size limit', () => {
+    const result = updateStyleSchema.safeParse({
+      background_image: `data:image/jpeg;base64,${'A'.repeat(700 * 1024)}`,
     });
     expect(result.success).toBe(false);
   });
@@ -221,3 +367,123 @@ describe('updateStyleSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('destinationRuleSchema', () => {
+  const base = { id: 'r1', destination_url: 'https://example.com/lunch' };
+
+  it('accepts a time-window rule', () => {
+    const result = destinationRuleSchema.safeParse({
+      ...base,
+      label: 'Lunch',
+      start_time: '11:30',
+      end_time: '15:00',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts a weekday rule', () => {
+    expect(destinationRuleSchema.safeParse({ ...base, days: [0, 6] }).success).toBe(true);
+  });
+
+  it('rejects a rule with no conditions', () => {
+    expect(destinationRuleSchema.safeParse(base).success).toBe(false);
+    expect(destinationRuleSchema.safeParse({ ...base, days: [] }).success).toBe(false);
+  });
+
+  it('rejects malformed times and dates', () => {
+    expect(destinationRuleSchema.safeParse({ ...base, start_time: '25:00' }).success).toBe(false);
+    expect(destinationRuleSchema.safeParse({ ...base, start_time: '9:00' }).success).toBe(false);
+    expect(destinationRuleSchema.safeParse({ ...base, start_date: '2026-13-01' }).success).toBe(false);
+  });
+
+  it('rejects out-of-range weekdays', () => {
+    expect(destinationRuleSchema.safeParse({ ...base, days: [7] }).success).toBe(false);
+  });
+
+  it('rejects an end date before the start date', () => {
+    const result = destinationRuleSchema.safeParse({
+      ...base,
+      start_date: '2026-12-31',
+      end_date: '2026-12-01',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects identical start and end times', () => {
+    const result = destinationRuleSchema.safeParse({
+      ...base,
+      start_time: '12:00',
+      end_time: '12:00',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('updateQRSchema destination_rules', () => {
+  it('rejects duplicate rule ids', () => {
+    const rule = { id: 'dup', destination_url: 'https://example.com', days: [1] };
+    const result = updateQRSchema.safeParse({ destination_rules: [rule, rule] });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects more than the maximum number of rules', () => {
+    const rules = Array.from({ length: 21 }, (_, i) => ({
+      id: `r${i}`,
+      destination_url: 'https://example.com',
+      days: [1],
+    }));
+    expect(updateQRSchema.safeParse({ destination_rules: rules }).success).toBe(false);
+  });
+
+  it('accepts an empty list to clear the schedule', () => {
+    expect(updateQRSchema.safeParse({ destination_rules: [] }).success).toBe(true);
+  });
+});
+
+describe('destinationVariantsSchema', () => {
+  const variant = (id: string, weight = 50) => ({
+    id,
+    destination_url: `https://example.com/${id}`,
+    weight,
+  });
+
+  it('accepts an empty list to end a split', () => {
+    expect(destinationVariantsSchema.safeParse([]).success).toBe(true);
+  });
+
+  it('accepts two or more weighted variants', () => {
+    expect(destinationVariantsSchema.safeParse([variant('a'), variant('b', 25)]).success).toBe(true);
+  });
+
+  it('rejects a single variant', () => {
+    expect(destinationVariantsSchema.safeParse([variant('a')]).success).toBe(false);
+  });
+
+  it('rejects weights outside 1-100 and non-integers', () => {
+    expect(destinationVariantsSchema.safeParse([variant('a', 0), variant('b')]).success).toBe(false);
+    expect(destinationVariantsSchema.safeParse([variant('a', 101), variant('b')]).success).toBe(false);
+    expect(destinationVariantsSchema.safeParse([variant('a', 1.5), variant('b')]).success).toBe(false);
+  });
+
+  it('rejects duplicate ids and too many variants', () => {
+    expect(destinationVariantsSchema.safeParse([variant('a'), variant('a')]).success).toBe(false);
+    const many = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => variant(id));
+    expect(destinationVariantsSchema.safeParse(many).success).toBe(false);
+  });
+});
+
+describe('scannabilityCheckSchema', () => {
+  it('defaults the style and logo mode', () => {
+    const result = scannabilityCheckSchema.safeParse({ content: 'https://example.com' });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.logo_mode).toBe('none');
+      expect(result.data.style).toEqual({});
+    }
+  });
+
+  it('rejects empty content and content past QR capacity', () => {
+    expect(scannabilityCheckSchema.safeParse({ content: '' }).success).toBe(false);
+    expect(scannabilityCheckSchema.safeParse({ content: 'a'.repeat(2954) }).success).toBe(false);
+  });
+});
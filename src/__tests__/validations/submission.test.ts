@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  submissionListQuerySchema,
+  submissionExportQuerySchema,
+  submissionBulkActionSchema,
+} from '@/validations/submission';
+import { SUBMISSION_DEFAULTS } from '@/lib/constants';
+
+const id = '123e4567-e89b-12d3-a456-426614174000';
+
+describe('submissionListQuerySchema', () => {
+  it('defaults to the inbox, first page', () => {
+    const r = submissionListQuerySchema.parse({});
+    expect(r).toEqual({ status: 'inbox', limit: SUBMISSION_DEFAULTS.PAGE_SIZE, offset: 0 });
+  });
+
+  it('coerces paging from the query string', () => {
+    const r = submissionListQuerySchema.parse({ limit: '20', offset: '40', status: 'unread' });
+    expect(r.limit).toBe(20);
+    expect(r.offset).toBe(40);
+  });
+
+  it('rejects an inverted date range and bad dates', () => {
+    expect(submissionListQuerySchema.safeParse({ from: '2026-03-10', to: '2026-03-01' }).success).toBe(false);
+    expect(submissionListQuerySchema.safeParse({ from: '10/03/2026' }).success).toBe(false);
+  });
+
+  it('rejects an oversized page', () => {
+    expect(
+      submissionListQuerySchema.safeParse({ limit: String(SUBMISSION_DEFAULTS.MAX_PAGE_SIZE + 1) }).success
+    ).toBe(false);
+  });
+});
+
+describe('submissionExportQuerySchema', () => {
+  it('requires a date range and defaults to every status', () => {
+    expect(submissionExportQuerySchema.safeParse({}).success).toBe(false);
+    const r = submissionExportQuerySchema.parse({ from: '2026-01-01', to: '2026-01-31' });
+    expect(r.status).toBe('all');
+  });
+
+  it('caps the range length', () => {
+    expect(submissionExportQuerySchema.safeParse({ from: '2025-01-01', to: '2025-12-31' }).success).toBe(true);
+    expect(submissionExportQuerySchema.safeParse({ from: '2024-01-01', to: '2025-12-31' }).success).toBe(false);
+  });
+});
+
+describe('submissionBulkActionSchema', () => {
+  it('de-duplicates ids', () => {
+    const r = submissionBulkActionSchema.parse({ ids: [id, id], action: 'archive' });
+    expect(r.ids).toEqual([id]);
+  });
+
+  it('rejects unknown actions and empty selections', () => {
+    expect(submissionBulkActionSchema.safeParse({ ids: [id], action: 'spam' }).success).toBe(false);
+    expect(submissionBulkActionSchema.safeParse({ ids: [], action: 'delete' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkExportLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import { analyticsExportQuerySchema } from '@/validations/analytics';
+import { getBioAnalyticsSummary } from '@/lib/analytics/bio-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+import {
+  eventsExportFile,
+  fetchExportEvents,
+  summaryExportFile,
+  type AnalyticsExportScope,
+} from '@/lib/analytics/export';
+
+/**
+ * GET /api/bio/[id]/analytics/export - Download a bio page's analytics
+ *
+ * Query: data = events | summary (default events), format = csv | json
+ *   (default csv), plus the range params of /api/bio/[id]/analytics
+ *   (period or from/to, bots = include).
+ *
+ * events: every anonymised view, link click and block click in the range,
+ * oldest first, capped at ANALYTICS_EXPORT_DEFAULTS.MAX_EVENTS
+ * (X-Export-Truncated: true when cut). summary: the analytics summary for
+ * the range. Owner-only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkExportLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const parsed = analyticsExportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: page, error: pageError } = await supabase
+      .from('bio_link_pages')
+      .select('id, title, total_views, bot_views, organizations(default_timezone)')
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (pageError || !page) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    const org = Array.isArray(page.organizations) ? page.organizations[0] : page.organizations;
+    const range = parseAnalyticsRange(
+      request.nextUrl.searchParams,
+      (org as { default_timezone: string | null } | null)?.default_timezone,
+    );
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const scope: AnalyticsExportScope = { type: 'bio', id: page.id, name: page.title };
+    const { data, format } = parsed.data;
+    let truncated = false;
+    let file;
+    if (data === 'events') {
+      const result = await fetchExportEvents(supabase, scope, range);
+      truncated = result.truncated;
+      file = eventsExportFile(scope, range, format, result);
+    } else {
+      const summary = await getBioAnalyticsSummary(supabase, page, range);
+      file = summaryExportFile(scope, range, format, { type: 'bio', summary });
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        ...(truncated ? { 'X-Export-Truncated': 'true' } : {}),
+        ...getRateLimitHeaders(rateLimit),
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,9 @@ import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter'
 import { updateBioBlockSchema_block, blockContentSchemas } from '@/validations/bio';
 import { isValidUUID } from '@/validations/qr';
 import { writeBioAuditLog } from '@/lib/audit';
+import { getOrgPlan, getPlanLimit } from '@/lib/org/entitlements';
+import { normalizeUtm } from '@/lib/utm';
+import type { UtmParams } from '@/types/qr';
 
 /**
  * PATCH /api/bio/[id]/blocks/[blockId] - Update a specific block
@@ -37,7 +40,7 @@ export async function PATCH(
     // Verify page ownership
     const { data: page } = await supabase
       .from('bio_link_pages')
-      .select('id')
+      .select('id, org_id')
       .eq('id', id)
       .eq('owner_id', user.id)
       .is('deleted_at', null)
@@ -90,6 +93,20 @@ export async function PATCH(
           );
         }
       }
+      if (existingBlock.block_type === 'gallery') {
+        const images = (data.content as { images?: unknown[] }).images ?? [];
+        const maxImages = getPlanLimit(await getOrgPlan(supabase, page.org_id), 'gallery_images');
+        if (maxImages !== null && images.length > maxImages) {
+          return NextResponse.json(
+            { error: `Maximum ${maxImages} gallery images` },
+            { status: 400 }
+          );
+        }
+      }
+      if (existingBlock.block_type === 'link' && 'utm' in data.content) {
+        // Store trimmed tags (or null) so campaign lookups match exactly
+        data.content.utm = normalizeUtm(data.content.utm as UtmParams | null);
+      }
       update.content = data.content;
     }
 
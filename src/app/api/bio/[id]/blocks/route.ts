@@ -4,7 +4,7 @@ import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter'
 import { createBioBlockSchema, blockContentSchemas } from '@/validations/bio';
 import { isValidUUID } from '@/validations/qr';
 import { writeBioAuditLog } from '@/lib/audit';
-import { BIO_DEFAULTS } from '@/lib/constants';
+import { getOrgPlan, getPlanLimit, isWithinLimit } from '@/lib/org/entitlements';
 
 /**
  * POST /api/bio/[id]/blocks - Create a block on a bio page
@@ -38,7 +38,7 @@ export async function POST(
     // Verify page ownership
     const { data: page, error: pageError } = await supabase
       .from('bio_link_pages')
-      .select('id')
+      .select('id, org_id')
       .eq('id', id)
       .eq('owner_id', user.id)
       .is('deleted_at', null)
@@ -54,9 +54,10 @@ export async function POST(
       .select('id', { count: 'exact', head: true })
       .eq('page_id', id);
 
-    if ((count ?? 0) >= BIO_DEFAULTS.MAX_BLOCKS_PER_PAGE) {
+    const plan = await getOrgPlan(supabase, page.org_id);
+    if (!isWithinLimit(plan, 'blocks_per_page', count ?? 0)) {
       return NextResponse.json(
-        { error: `Maximum ${BIO_DEFAULTS.MAX_BLOCKS_PER_PAGE} blocks per page` },
+        { error: `Maximum ${getPlanLimit(plan, 'blocks_per_page')} blocks per page` },
         { status: 400 }
       );
     }
@@ -84,6 +85,16 @@ export async function POST(
         );
       }
     }
+    if (block_type === 'gallery') {
+      const images = (content as { images?: unknown[] }).images ?? [];
+      const maxImages = getPlanLimit(plan, 'gallery_images');
+      if (maxImages !== null && images.length > maxImages) {
+        return NextResponse.json(
+          { error: `Maximum ${maxImages} gallery images` },
+          { status: 400 }
+        );
+      }
+    }
 
     // Determine next sort_order
     const nextOrder = (count ?? 0);
@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import { customDomainSchema } from '@/validations/bio';
+import { getOrgPlan, orgHasFeature } from '@/lib/org/entitlements';
+import { isPlatformHost } from '@/lib/domains/resolve-host';
+import { detachDomainFromHosting } from '@/lib/domains/hosting';
+import {
+  CUSTOM_DOMAIN_COLUMNS,
+  generateDomainToken,
+  toCustomDomain,
+  type CustomDomainRow,
+} from '@/lib/domains/verification';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/bio/[id]/domain - The page's custom domain and its DNS records
+ *
+ * Returns { domain: null, last_error } when none is set — last_error
+ * explains a domain the verification job released.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const { data: page } = await supabase
+      .from('bio_link_pages')
+      .select(CUSTOM_DOMAIN_COLUMNS)
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (!page) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    const row = page as CustomDomainRow;
+    return NextResponse.json(
+      { domain: toCustomDomain(row), last_error: row.custom_domain_error },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/bio/[id]/domain - Set (or replace) the page's custom domain
+ *
+ * Pro only. The domain starts in `pending`; the verification job (or
+ * POST ./verify) moves it on once DNS is in place.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = customDomainSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { domain } = parsed.data;
+    if (isPlatformHost(domain)) {
+      return NextResponse.json(
+        { error: 'This domain cannot be used' },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from('bio_link_pages')
+      .select(`${CUSTOM_DOMAIN_COLUMNS}, org_id`)
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    const current = existing as unknown as CustomDomainRow & { org_id: string | null };
+    if (!orgHasFeature(await getOrgPlan(supabase, current.org_id), 'custom_domains')) {
+      return NextResponse.json(
+        { error: 'pro_plan_required' },
+        { status: 403 }
+      );
+    }
+
+    if (current.custom_domain === domain) {
+      return NextResponse.json(
+        { domain: toCustomDomain(current), last_error: current.custom_domain_error },
+        { headers: getRateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('bio_link_pages')
+      .update({
+        custom_domain: domain,
+        custom_domain_status: 'pending',
+        custom_domain_token: generateDomainToken(),
+        custom_domain_requested_at: new Date().toISOString(),
+        custom_domain_verified_at: null,
+        custom_domain_checked_at: null,
+        custom_domain_error: null,
+      })
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .select(CUSTOM_DOMAIN_COLUMNS)
+      .single();
+
+    if (updateError) {
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: 'This domain is already connected to another page' },
+          { status: 409 }
+        );
+      }
+      console.error('Failed to set custom domain:', updateError.message);
+      return NextResponse.json(
+        { error: 'Failed to set custom domain' },
+        { status: 500 }
+      );
+    }
+
+    // The old host stops routing here
+    if (current.custom_domain && current.custom_domain_status !== 'pending') {
+      await detachDomainFromHosting(current.custom_domain);
+    }
+
+    return NextResponse.json(
+      { domain: toCustomDomain(updated as CustomDomainRow), last_error: null },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bio/[id]/domain - Disconnect the page's custom domain
+ *
+ * Not Pro-gated: a downgraded org must still be able to remove its domain.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const { data: existing } = await supabase
+      .from('bio_link_pages')
+      .select(`${CUSTOM_DOMAIN_COLUMNS}, org_id`)
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    const current = existing as unknown as CustomDomainRow & { org_id: string | null };
+    if (!orgHasFeature(await getOrgPlan(supabase, current.org_id), 'custom_domains')) {
+      return NextResponse.json(
+        { error: 'pro_plan_required' },
+        { status: 403 }
+      );
+    }
+
+
+    const { error: updateError } = await supabase
+      .from('bio_link_pages')
+      .update({
+        custom_domain: null,
+        custom_domain_status: null,
+        custom_domain_token: null,
+        custom_domain_requested_at: null,
+        custom_domain_verified_at: null,
+        custom_domain_checked_at: null,
+        custom_domain_error: null,
+      })
+      .eq('id', id)
+      .eq('owner_id', user.id);
+
+    if (updateError) {
+      console.error('Failed to remove custom domain:', updateError.message);
+      return NextResponse.json(
+        { error: 'Failed to remove custom domain' },
+        { status: 500 }
+      );
+    }
+
+    if (current.custom_domain && current.custom_domain_status !== 'pending') {
+      await detachDomainFromHosting(current.custom_domain);
+    }
+
+    return NextResponse.json(
+      { success: true },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import {
+  CUSTOM_DOMAIN_COLUMNS,
+  toCustomDomain,
+  verifyPageDomain,
+  type CustomDomainRow,
+} from '@/lib/domains/verification';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/bio/[id]/domain/verify - Check the page's DNS records now
+ *
+ * Runs the same step as the verification cron for this one page, so the
+ * owner doesn't have to wait for the next run after fixing their DNS.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const { data: page } = await supabase
+      .from('bio_link_pages')
+      .select(CUSTOM_DOMAIN_COLUMNS)
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (!page) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    const row = page as CustomDomainRow;
+    if (!row.custom_domain) {
+      return NextResponse.json({ error: 'No custom domain set' }, { status: 400 });
+    }
+
+    // Ownership checked above; the status columns are written like the cron does
+    await verifyPageDomain(createAdminClient(), row);
+
+    const { data: refreshed } = await supabase
+      .from('bio_link_pages')
+      .select(CUSTOM_DOMAIN_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    const updated = (refreshed ?? row) as CustomDomainRow;
+    return NextResponse.json(
+      { domain: toCustomDomain(updated), last_error: updated.custom_domain_error },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import { LEAD_ROUTING_DEFAULTS } from '@/lib/constants';
+
+/**
+ * GET /api/bio/[id]/email-log - Recent form emails sent for a bio page
+ *
+ * Auth required, page ownership verified. Newest first, including failed
+ * and skipped sends with the provider's error.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    // Verify page ownership
+    const { data: page } = await supabase
+      .from('bio_link_pages')
+      .select('id')
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (!page) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    let query = supabase
+      .from('bio_form_email_log')
+      .select('id, page_id, submission_id, kind, recipient, status, provider_id, error, created_at')
+      .eq('page_id', id)
+      .order('created_at', { ascending: false })
+      .limit(LEAD_ROUTING_DEFAULTS.EMAIL_LOG_LIMIT);
+
+    // Optional ?status=failed to show only problems
+    const status = request.nextUrl.searchParams.get('status');
+    if (status) {
+      if (status !== 'sent' && status !== 'failed' && status !== 'skipped') {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+      }
+      query = query.eq('status', status);
+    }
+
+    const { data: entries, error } = await query;
+
+    if (error) {
+      console.error('Failed to fetch email log:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to fetch email log' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { data: entries },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { checkBioFormSubmitLimitAsync, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { BIO_DEFAULTS } from '@/lib/constants';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import { deliverLeadEmails } from '@/lib/email/send-lead';
+import { clientIp, visitorHash } from '@/lib/analytics/visitor-hash';
+import type { BioBlockContentReviewFunnel, BioLeadRouting } from '@/types/bio';
 import { z } from 'zod';
 import crypto from 'crypto';
 
@@ -11,11 +16,16 @@ const formSubmissionSchema = z.object({
   message: z.string().min(1).max(2000),
   phone: z.string().max(50).optional(),
   subject: z.string().max(200).optional(),
+  rating: z.number().int().min(1).max(5).optional(),
 });
 
 /**
  * POST /api/bio/[id]/form - Submit a contact form (public, unauthenticated)
  *
+ * Also receives private feedback from review_funnel blocks. Those submissions
+ * must carry a star rating below the block's public threshold — ratings at or
+ * above it are sent to the public review site client-side and never land here.
+ *
  * Uses admin client to bypass RLS (same pattern as /api/bio/track).
  */
 export async function POST(
@@ -30,19 +40,16 @@ export async function POST(
     return NextResponse.json({ error: 'Invalid page ID' }, { status: 400 });
   }
 
-  // Rate limit by hashed IP + page ID
-  const ip =
-    request.headers.get('x-forwarded-for')?.split(',')[0] ||
-    request.headers.get('x-real-ip') ||
-    'unknown';
-
-  const ipHash = crypto
+  // Rate limit by hashed IP + page ID. Not the visitor hash: that takes the
+  // user agent, which a sender can change to get a fresh bucket, and needs
+  // a database lookup before the limiter has run.
+  const ipKey = crypto
     .createHash('sha256')
-    .update(ip + (process.env.IP_HASH_SALT || ''))
+    .update(clientIp(request.headers) + (process.env.IP_HASH_SALT || ''))
     .digest('hex')
     .substring(0, 16);
 
-  const rateLimit = await checkBioFormSubmitLimitAsync(`${ipHash}:${pageId}`);
+  const rateLimit = await checkBioFormSubmitLimitAsync(`${ipKey}:${pageId}`);
   if (!rateLimit.success) {
     return NextResponse.json(
       { error: 'Too many submissions. Please try again later.' },
@@ -61,14 +68,14 @@ export async function POST(
       );
     }
 
-    const { block_id, name, email, message, phone, subject } = parsed.data;
+    const { block_id, name, email, message, phone, subject, rating } = parsed.data;
 
     const supabase = createAdminClient();
 
     // Verify page exists, is active, and not deleted
     const { data: page, error: pageError } = await supabase
       .from('bio_link_pages')
-      .select('id, owner_id, contact_email')
+      .select('id, org_id, owner_id, title, contact_email, lead_routing')
       .eq('id', pageId)
       .eq('is_active', true)
       .is('deleted_at', null)
@@ -78,20 +85,41 @@ export async function POST(
       return NextResponse.json({ error: 'Page not found' }, { status: 404 });
     }
 
-    // Verify block belongs to page and is a contact_form type
+    // Verify block belongs to page and is a contact_form or review_funnel type
     const { data: block, error: blockError } = await supabase
       .from('bio_blocks')
-      .select('id, block_type')
+      .select('id, block_type, content')
       .eq('id', block_id)
       .eq('page_id', pageId)
       .single();
 
-    if (blockError || !block || block.block_type !== 'contact_form') {
+    if (
+      blockError ||
+      !block ||
+      (block.block_type !== 'contact_form' && block.block_type !== 'review_funnel')
+    ) {
       return NextResponse.json({ error: 'Form not found' }, { status: 404 });
     }
 
+    const isReviewFeedback = block.block_type === 'review_funnel';
+
+    if (isReviewFeedback) {
+      const funnel = block.content as BioBlockContentReviewFunnel;
+      const minPublicRating =
+        funnel.min_public_rating ?? BIO_DEFAULTS.REVIEW_FUNNEL_MIN_PUBLIC_RATING;
+      if (rating === undefined || rating >= minPublicRating) {
+        return NextResponse.json(
+          { error: 'Rating is not eligible for private feedback' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Stored with the submission; rotates daily like other visitor hashes
+    const ipHash = await visitorHash(supabase, request.headers, `page:${pageId}`);
+
     // Insert submission
-    const { error: insertError } = await supabase
+    const { data: submission, error: insertError } = await supabase
       .from('bio_form_submissions')
       .insert({
         page_id: pageId,
@@ -101,8 +129,11 @@ export async function POST(
         message,
         phone: phone || null,
         subject: subject || null,
+        rating: isReviewFeedback ? rating : null,
         ip_hash: ipHash,
-      });
+      })
+      .select('id, submitted_at')
+      .single();
 
     if (insertError) {
       console.error('Failed to insert form submission:', insertError.message);
@@ -112,47 +143,42 @@ export async function POST(
       );
     }
 
-    // Email notification (fire-and-forget)
-    if (process.env.RESEND_API_KEY) {
-      try {
-        // Determine recipient: page contact_email or owner's auth email
-        let recipientEmail = page.contact_email;
-        if (!recipientEmail) {
-          const { data: authUser } = await supabase.auth.admin.getUserById(page.owner_id);
-          recipientEmail = authUser?.user?.email || null;
-        }
-
-        if (recipientEmail) {
-          fetch('https://api.resend.com/emails', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${process.env.RESEND_API_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              from: 'OneSign <noreply@onesign.app>',
-              to: [recipientEmail],
-              subject: subject
-                ? `New form submission: ${subject}`
-                : `New contact form submission from ${name}`,
-              html: `
-                <h2>New Contact Form Submission</h2>
-                <p><strong>Name:</strong> ${name}</p>
-                <p><strong>Email:</strong> ${email}</p>
-                ${phone ? `<p><strong>Phone:</strong> ${phone}</p>` : ''}
-                ${subject ? `<p><strong>Subject:</strong> ${subject}</p>` : ''}
-                <p><strong>Message:</strong></p>
-                <p>${message.replace(/\n/g, '<br>')}</p>
-              `.trim(),
-            }),
-          }).catch(() => {
-            // Silently ignore email errors
-          });
-        }
-      } catch {
-        // Silently skip on any error
-      }
-    }
+    // Webhook (fire-and-forget)
+    emitWebhookEvent(page.org_id, 'form.submitted', {
+      submission_id: submission?.id ?? null,
+      page_id: pageId,
+      block_id,
+      form_type: isReviewFeedback ? 'review_feedback' : 'contact_form',
+      name,
+      email,
+      phone: phone || null,
+      subject: subject || null,
+      message,
+      rating: isReviewFeedback ? rating : null,
+      submitted_at: submission?.submitted_at ?? new Date().toISOString(),
+    });
+
+    // Email notifications + autoresponder (fire-and-forget, logged)
+    deliverLeadEmails(supabase, {
+      page: {
+        id: page.id,
+        owner_id: page.owner_id,
+        contact_email: page.contact_email,
+        lead_routing: page.lead_routing as BioLeadRouting | null,
+      },
+      blockId: block_id,
+      submissionId: submission?.id ?? null,
+      lead: {
+        pageTitle: page.title,
+        formType: isReviewFeedback ? 'review_feedback' : 'contact_form',
+        name,
+        email,
+        message,
+        phone: phone || null,
+        subject: subject || null,
+        rating: isReviewFeedback ? rating : null,
+      },
+    });
 
     return NextResponse.json(
       { success: true },
@@ -2,10 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
 import { isValidUUID } from '@/validations/qr';
+import { getOrgPlan, getPlanLimit } from '@/lib/org/entitlements';
 
 const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2MB
-const MAX_IMAGES = 12;
 
 /**
  * POST /api/bio/[id]/gallery - Upload one or more gallery images
@@ -42,7 +42,7 @@ export async function POST(
     // Verify page ownership
     const { data: page } = await supabase
       .from('bio_link_pages')
-      .select('id')
+      .select('id, org_id')
       .eq('id', id)
       .eq('owner_id', user.id)
       .is('deleted_at', null)
@@ -60,9 +60,10 @@ export async function POST(
       return NextResponse.json({ error: 'No files provided' }, { status: 400 });
     }
 
-    if (files.length > MAX_IMAGES) {
+    const maxImages = getPlanLimit(await getOrgPlan(supabase, page.org_id), 'gallery_images');
+    if (maxImages !== null && files.length > maxImages) {
       return NextResponse.json(
-        { error: `Too many files. Maximum is ${MAX_IMAGES}` },
+        { error: `Too many files. Maximum is ${maxImages}` },
         { status: 400 }
       );
     }
@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { validateUrlStrict } from '@/lib/security/url-validator-strict';
 import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
 import { updateBioLinkSchema } from '@/validations/bio';
+import { normalizeUtm } from '@/lib/utm';
 import { isValidUUID } from '@/validations/qr';
 import { writeBioAuditLog } from '@/lib/audit';
 
@@ -79,6 +80,7 @@ export async function PATCH(
     if (data.icon_url !== undefined) update.icon_url = data.icon_url;
     if (data.icon_bg_color !== undefined) update.icon_bg_color = data.icon_bg_color;
     if (data.show_icon !== undefined) update.show_icon = data.show_icon;
+    if (data.utm !== undefined) update.utm = normalizeUtm(data.utm);
     if (data.is_enabled !== undefined) update.is_enabled = data.is_enabled;
 
     if (data.url !== undefined) {
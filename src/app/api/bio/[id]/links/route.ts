@@ -5,7 +5,8 @@ import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter'
 import { createBioLinkSchema } from '@/validations/bio';
 import { isValidUUID } from '@/validations/qr';
 import { writeBioAuditLog } from '@/lib/audit';
-import { BIO_DEFAULTS } from '@/lib/constants';
+import { getOrgPlan, getPlanLimit, isWithinLimit } from '@/lib/org/entitlements';
+import { normalizeUtm } from '@/lib/utm';
 
 /**
  * POST /api/bio/[id]/links - Add a link to a bio page
@@ -39,7 +40,7 @@ export async function POST(
     // Verify page ownership
     const { data: page, error: pageError } = await supabase
       .from('bio_link_pages')
-      .select('id')
+      .select('id, org_id')
       .eq('id', id)
       .eq('owner_id', user.id)
       .is('deleted_at', null)
@@ -55,9 +56,10 @@ export async function POST(
       .select('id', { count: 'exact', head: true })
       .eq('page_id', id);
 
-    if ((count ?? 0) >= BIO_DEFAULTS.MAX_LINKS_PER_PAGE) {
+    const plan = await getOrgPlan(supabase, page.org_id);
+    if (!isWithinLimit(plan, 'links_per_page', count ?? 0)) {
       return NextResponse.json(
-        { error: `Maximum ${BIO_DEFAULTS.MAX_LINKS_PER_PAGE} links per page` },
+        { error: `Maximum ${getPlanLimit(plan, 'links_per_page')} links per page` },
         { status: 400 }
       );
     }
@@ -72,7 +74,7 @@ export async function POST(
       );
     }
 
-    const { title, url, icon, icon_type, icon_url, icon_bg_color, show_icon, is_enabled } = parsed.data;
+    const { title, url, icon, icon_type, icon_url, icon_bg_color, show_icon, utm, is_enabled } = parsed.data;
 
     // Validate URL
     const urlValidation = await validateUrlStrict(url);
@@ -97,6 +99,7 @@ export async function POST(
         icon_url: icon_url || null,
         icon_bg_color: icon_bg_color || null,
         show_icon: show_icon ?? true,
+        utm: normalizeUtm(utm),
         sort_order: nextOrder,
         is_enabled,
       })
@@ -139,6 +139,7 @@ export async function PATCH(
     if (data.contact_website !== undefined) update.contact_website = data.contact_website;
     if (data.cover_aspect_ratio !== undefined) update.cover_aspect_ratio = data.cover_aspect_ratio;
     if (data.cover_position_y !== undefined) update.cover_position_y = data.cover_position_y;
+    if (data.lead_routing !== undefined) update.lead_routing = data.lead_routing;
 
     if (Object.keys(update).length === 0) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
@@ -3,15 +3,16 @@ import { createClient } from '@/lib/supabase/server';
 import { checkBioCreateLimit, checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
 import { createBioPageSchema } from '@/validations/bio';
 import { writeBioAuditLog } from '@/lib/audit';
-import { BIO_DEFAULTS } from '@/lib/constants';
 import { getPersonalOrgId } from '@/lib/org/get-personal-org';
+import { getOrgPlan, getPlanLimit, isWithinLimit } from '@/lib/org/entitlements';
 
 const MAX_SLUG_RETRIES = 3;
 
 /**
  * POST /api/bio - Create a new bio-link page
  *
- * Users may have up to MAX_PAGES_PER_USER pages. Only one can be active at a time
+ * Pages are created in the user's personal org, which may hold up to its plan's
+ * `bio_pages` limit. Only one can be active at a time
  * (enforced by a partial unique index). New pages default to draft (is_active = false)
  * unless this is the user's first page.
  */
@@ -58,11 +59,14 @@ export async function POST(request: NextRequest) {
       create_qr,
     } = parsed.data;
 
-    // Check how many non-deleted pages the user already has
+    // Look up the user's org_id once (before retry loop to avoid redundant lookups)
+    const orgId = await getPersonalOrgId(supabase, user.id);
+
+    // Check how many non-deleted pages the org already has
     const { count: existingCount, error: countError } = await supabase
       .from('bio_link_pages')
       .select('id', { count: 'exact', head: true })
-      .eq('owner_id', user.id)
+      .eq('org_id', orgId)
       .is('deleted_at', null);
 
     if (countError) {
@@ -71,10 +75,11 @@ export async function POST(request: NextRequest) {
     }
 
     const pageCount = existingCount ?? 0;
+    const plan = await getOrgPlan(supabase, orgId);
 
-    if (pageCount >= BIO_DEFAULTS.MAX_PAGES_PER_USER) {
+    if (!isWithinLimit(plan, 'bio_pages', pageCount)) {
       return NextResponse.json(
-        { error: `You can have up to ${BIO_DEFAULTS.MAX_PAGES_PER_USER} bio pages.` },
+        { error: `Your plan allows up to ${getPlanLimit(plan, 'bio_pages')} bio pages.` },
         { status: 409 }
       );
     }
@@ -82,9 +87,6 @@ export async function POST(request: NextRequest) {
     // First page is active by default; subsequent pages start as drafts
     const isFirstPage = pageCount === 0;
 
-    // Look up the user's org_id once (before retry loop to avoid redundant lookups)
-    const orgId = await getPersonalOrgId(supabase, user.id);
-
     // Generate slug with retry logic
     let finalSlug = slug;
     let page: { id: string; slug: string; is_active: boolean } | null = null;
@@ -233,7 +235,8 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/bio - Get the user's bio page
+ * GET /api/bio - Get the user's bio pages, plus `page_limit` (the personal
+ * org plan's bio_pages limit, null when unlimited) for the list header
  */
 export async function GET(request: NextRequest) {
   const supabase = await createClient();
@@ -269,7 +272,11 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    return NextResponse.json({ data: pages || [] }, {
+    // A failed org lookup shouldn't hide the list — fall back to free limits
+    const orgId = await getPersonalOrgId(supabase, user.id).catch(() => null);
+    const plan = await getOrgPlan(supabase, orgId);
+
+    return NextResponse.json({ data: pages || [], page_limit: getPlanLimit(plan, 'bio_pages') }, {
       headers: getRateLimitHeaders(rateLimit),
     });
 
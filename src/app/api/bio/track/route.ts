@@ -3,6 +3,8 @@ import { createAdminClient } from '@/lib/supabase/admin';
 import { checkBioTrackLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
 import { trackClickSchema, trackBlockClickSchema } from '@/validations/bio';
 import { extractEventContext } from '@/lib/analytics/event-helpers';
+import { emitBioPageWebhookEvent } from '@/lib/webhooks/dispatch';
+import { issuePageClick } from '@/lib/conversions/record';
 
 /**
  * POST /api/bio/track - Record a click event (link or block)
@@ -13,6 +15,9 @@ import { extractEventContext } from '@/lib/analytics/event-helpers';
  * Accepts either:
  * - { item_id, page_id } for legacy link clicks
  * - { block_id, page_id } for grid block clicks
+ *
+ * Either may carry a click_id when the page tags links for conversion
+ * tracking; it is stored so later conversions can be attributed to the page.
  */
 export async function POST(request: NextRequest) {
   // Rate limit by IP
@@ -31,34 +36,48 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const ctx = extractEventContext(request);
     const supabase = createAdminClient();
 
     // Try block click first (new grid system)
     const blockParsed = trackBlockClickSchema.safeParse(body);
     if (blockParsed.success) {
-      const { block_id, page_id } = blockParsed.data;
+      const { block_id, page_id, click_id } = blockParsed.data;
+      const ctx = await extractEventContext(supabase, request, `page:${page_id}`);
       await supabase.from('bio_block_click_events').insert({
         block_id,
         page_id,
         country_code: ctx.countryCode,
         device_type: ctx.deviceType,
         ip_hash: ctx.ipHash,
+        is_bot: ctx.isBot,
+      });
+      // Fire-and-forget — never delays the beacon response
+      emitBioPageWebhookEvent(page_id, 'bio.block_clicked', {
+        page_id,
+        block_id,
+        country_code: ctx.countryCode,
+        device_type: ctx.deviceType,
+        is_bot: ctx.isBot,
+        clicked_at: new Date().toISOString(),
       });
+      if (click_id) await recordClickId(supabase, click_id, page_id);
       return new NextResponse(null, { status: 204 });
     }
 
     // Fall back to legacy link click
     const linkParsed = trackClickSchema.safeParse(body);
     if (linkParsed.success) {
-      const { item_id, page_id } = linkParsed.data;
+      const { item_id, page_id, click_id } = linkParsed.data;
+      const ctx = await extractEventContext(supabase, request, `page:${page_id}`);
       await supabase.from('bio_link_click_events').insert({
         item_id,
         page_id,
         country_code: ctx.countryCode,
         device_type: ctx.deviceType,
         ip_hash: ctx.ipHash,
+        is_bot: ctx.isBot,
       });
+      if (click_id) await recordClickId(supabase, click_id, page_id);
       return new NextResponse(null, { status: 204 });
     }
 
@@ -69,3 +88,15 @@ export async function POST(request: NextRequest) {
     return new NextResponse(null, { status: 204 });
   }
 }
+
+async function recordClickId(
+  supabase: ReturnType<typeof createAdminClient>,
+  clickId: string,
+  pageId: string
+) {
+  try {
+    await issuePageClick(supabase, clickId, pageId);
+  } catch (error) {
+    console.error('Failed to issue click ID:', error instanceof Error ? error.message : 'unknown error');
+  }
+}
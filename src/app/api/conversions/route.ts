@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { checkConversionLimit } from '@/lib/security/rate-limiter';
+import { recordConversion } from '@/lib/conversions/record';
+import { conversionSchema } from '@/validations/conversion';
+import { CONVERSION_DEFAULTS } from '@/lib/constants';
+
+// 1×1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * GET /api/conversions - Conversion pixel
+ *
+ * Query: k (org conversion key), c (click ID), e (event name, default
+ * "conversion"), v (value), cur (ISO currency)
+ *
+ * Always answers with the pixel, whatever happened — the destination site
+ * must never show a broken image or learn whether a key is valid.
+ */
+export async function GET(request: NextRequest) {
+  const params = Object.fromEntries(request.nextUrl.searchParams);
+  await handleReport(request, params);
+
+  return new NextResponse(PIXEL, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  });
+}
+
+/**
+ * POST /api/conversions - Conversion beacon
+ *
+ * Called cross-origin by the conversion snippet via navigator.sendBeacon()
+ * with a text/plain JSON body (no CORS preflight): { k, c, e?, v?, cur? }.
+ * Always 204.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown = null;
+  try {
+    body = JSON.parse(await request.text());
+  } catch {
+    // Ignored below — the schema rejects it
+  }
+  await handleReport(request, body);
+
+  return new NextResponse(null, { status: 204 });
+}
+
+async function handleReport(request: NextRequest, input: unknown): Promise<void> {
+  const ip =
+    request.headers.get('x-forwarded-for')?.split(',')[0] ||
+    request.headers.get('x-real-ip') ||
+    'unknown';
+  if (!checkConversionLimit(ip).success) return;
+
+  const parsed = conversionSchema.safeParse(input);
+  if (!parsed.success) return;
+
+  try {
+    await recordConversion(createAdminClient(), {
+      key: parsed.data.k,
+      clickId: parsed.data.c,
+      event: parsed.data.e ?? CONVERSION_DEFAULTS.DEFAULT_EVENT,
+      value: parsed.data.v ?? null,
+      currency: parsed.data.cur ?? null,
+    });
+  } catch (error) {
+    // Conversion tracking should never fail loudly
+    console.error('Failed to record conversion:', error instanceof Error ? error.message : 'unknown error');
+  }
+}
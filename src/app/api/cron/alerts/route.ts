@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { runAlerts } from '@/lib/alerts/run';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/alerts — evaluate alert rules and email what's due
+ *
+ * Called hourly by Vercel Cron (see vercel.json) with `Authorization:
+ * Bearer $CRON_SECRET`. Fires immediate alerts and sends daily / weekly
+ * digests at their slot in each org's timezone.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runAlerts(createAdminClient());
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[cron alerts] failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
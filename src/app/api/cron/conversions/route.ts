@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { purgeExpiredClicks } from '@/lib/conversions/record';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/conversions — delete expired conversion click IDs
+ *
+ * Called by Vercel Cron (see vercel.json) with `Authorization: Bearer
+ * $CRON_SECRET`. Recorded conversions keep their click ID; only the
+ * lookup rows are removed.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredClicks(createAdminClient());
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.error('[cron conversions] failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
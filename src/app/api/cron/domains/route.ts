@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { runDomainVerification } from '@/lib/domains/verification';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/domains — advance custom domain verification
+ *
+ * Called by Vercel Cron (see vercel.json) with `Authorization: Bearer
+ * $CRON_SECRET`. Checks DNS for the least recently checked domains,
+ * activates verified ones and releases domains stuck in pending.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const counts = await runDomainVerification(createAdminClient());
+    return NextResponse.json(counts);
+  } catch (error) {
+    console.error('[cron domains] failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { runReports } from '@/lib/reports/run';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/reports — email last month's PDF reports
+ *
+ * Called hourly by Vercel Cron (see vercel.json) with `Authorization:
+ * Bearer $CRON_SECRET`. Each schedule gets its report once the month has
+ * ended in its org's timezone; a run sends at most
+ * REPORT_DEFAULTS.BATCH_SIZE, the rest go out on the next runs.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runReports(createAdminClient());
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[cron reports] failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
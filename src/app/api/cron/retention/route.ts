@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { applyRetention } from '@/lib/analytics/retention';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/retention — coarsen and purge old raw analytics events
+ *
+ * Called daily by Vercel Cron (see vercel.json) with `Authorization:
+ * Bearer $CRON_SECRET`. Cut-offs come from ANALYTICS_COARSEN_AFTER_DAYS
+ * and ANALYTICS_DELETE_AFTER_DAYS; counters and rollups are kept.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await applyRetention(createAdminClient());
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[cron retention] failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
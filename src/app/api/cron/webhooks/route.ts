@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { processDueDeliveries } from '@/lib/webhooks/dispatch';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/webhooks — retry due webhook deliveries
+ *
+ * Called by Vercel Cron (see vercel.json), which sends
+ * `Authorization: Bearer $CRON_SECRET`. Also sends the order.status_changed
+ * deliveries queued by the shop_orders trigger.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processDueDeliveries(createAdminClient());
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[cron webhooks] failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
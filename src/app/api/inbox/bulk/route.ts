@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { submissionBulkActionSchema } from '@/validations/submission';
+import type { SubmissionBulkAction } from '@/types/bio';
+
+const UPDATES: Record<Exclude<SubmissionBulkAction, 'delete'>, () => Record<string, unknown>> = {
+  mark_read: () => ({ is_read: true }),
+  mark_unread: () => ({ is_read: false }),
+  archive: () => ({ archived_at: new Date().toISOString() }),
+  unarchive: () => ({ archived_at: null }),
+};
+
+/**
+ * POST /api/inbox/bulk - Apply one action to many submissions
+ *
+ * Body: { ids, action: 'mark_read' | 'mark_unread' | 'archive' | 'unarchive' | 'delete' }
+ *
+ * Ids outside the active org are ignored; the response reports how many
+ * rows were affected.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    const parsed = submissionBulkActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { ids, action } = parsed.data;
+
+    // Updates can't filter through the page join, so resolve which of the
+    // ids belong to the active org first.
+    const { data: owned, error: lookupError } = await supabase
+      .from('bio_form_submissions')
+      .select('id, page:bio_link_pages!inner(org_id)')
+      .in('id', ids)
+      .eq('page.org_id', activeOrgId);
+
+    if (lookupError) {
+      console.error('Failed to resolve submissions:', lookupError.message);
+      return NextResponse.json(
+        { error: 'Failed to update submissions' },
+        { status: 500 }
+      );
+    }
+
+    const ownedIds = (owned ?? []).map((row) => row.id as string);
+    if (ownedIds.length === 0) {
+      return NextResponse.json({ error: 'No submissions found' }, { status: 404 });
+    }
+
+    const { error } =
+      action === 'delete'
+        ? await supabase.from('bio_form_submissions').delete().in('id', ownedIds)
+        : await supabase.from('bio_form_submissions').update(UPDATES[action]()).in('id', ownedIds);
+
+    if (error) {
+      console.error('Failed to update submissions:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to update submissions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { updated: ownedIds.length },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
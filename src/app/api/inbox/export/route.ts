@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { checkExportLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { submissionExportQuerySchema } from '@/validations/submission';
+import { buildSubmissionsQuery, submissionsToCsv } from '@/lib/bio/submissions';
+import { SUBMISSION_DEFAULTS } from '@/lib/constants';
+import type { InboxSubmission } from '@/types/bio';
+
+/**
+ * GET /api/inbox/export - Download the active org's submissions as CSV
+ *
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (required, inclusive) plus the
+ * optional inbox filters (status defaults to all, q, page_id).
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkExportLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parsed = submissionExportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await buildSubmissionsQuery(
+      supabase,
+      activeOrgId,
+      parsed.data
+    ).limit(SUBMISSION_DEFAULTS.MAX_EXPORT_ROWS);
+
+    if (error) {
+      console.error('Failed to fetch submissions for export:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to fetch submissions' },
+        { status: 500 }
+      );
+    }
+
+    const csv = submissionsToCsv((data ?? []) as unknown as InboxSubmission[]);
+    const { from, to } = parsed.data;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="submissions-${from}-to-${to}.csv"`,
+        ...getRateLimitHeaders(rateLimit),
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { submissionListQuerySchema } from '@/validations/submission';
+import { buildSubmissionsQuery } from '@/lib/bio/submissions';
+
+/**
+ * GET /api/inbox - List form submissions across every bio page in the active org
+ *
+ * Query: ?status=inbox|unread|read|archived|all&q=&from=YYYY-MM-DD&to=YYYY-MM-DD
+ *        &page_id=&limit=50&offset=0
+ *
+ * Any org member can triage; RLS scopes rows to the caller's orgs.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parsed = submissionListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { limit, offset, ...filters } = parsed.data;
+
+    const { data, count, error } = await buildSubmissionsQuery(
+      supabase,
+      activeOrgId,
+      filters,
+      undefined,
+      { count: 'exact' }
+    ).range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Failed to fetch inbox:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to fetch submissions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { data: data ?? [], total: count ?? 0, limit, offset },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { acceptInviteTokenSchema } from '@/validations/invite';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function POST(request: Request) {
   const supabase = await createClient();
@@ -81,6 +82,17 @@ export async function POST(request: Request) {
     );
   }
 
+  // Only a fresh membership is news — a repeat accept already fired this.
+  if (!memberError) {
+    emitWebhookEvent(invite.org_id, 'invite.accepted', {
+      invite_id: invite.id,
+      user_id: user.id,
+      email: invite.email,
+      role: invite.role,
+      accepted_at: new Date().toISOString(),
+    });
+  }
+
   const { error: markError } = await supabase
     .from('organization_invites')
     .update({ accepted_at: new Date().toISOString() })
@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  updateAlertRuleSchema,
+  VOLUME_ALERT_KINDS,
+  WINDOW_ALERT_KINDS,
+} from '@/validations/alert';
+import { ALERT_RULE_SUMMARY_COLUMNS, toAlertRuleSummary } from '@/lib/alerts/queries';
+
+/**
+ * PATCH /api/org/alerts/[id] — change or pause an alert rule
+ *
+ * Body: { threshold?, window_hours?, delivery?, recipients?, is_active? }
+ *
+ * RLS lets members change their own rules and owners/admins anyone's.
+ * threshold / window_hours are only accepted for kinds that use them.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = updateAlertRuleSchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const update = parse.data;
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  const { data: existing } = await supabase
+    .from('alert_rules')
+    .select('kind')
+    .eq('id', id)
+    .maybeSingle();
+  if (!existing) {
+    return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+  }
+  if (update.threshold !== undefined && !VOLUME_ALERT_KINDS.has(existing.kind)) {
+    return NextResponse.json({ error: 'This rule has no threshold' }, { status: 400 });
+  }
+  if (update.window_hours !== undefined && !WINDOW_ALERT_KINDS.has(existing.kind)) {
+    return NextResponse.json({ error: 'This rule has no time window' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .update(update)
+    .eq('id', id)
+    .select(`${ALERT_RULE_SUMMARY_COLUMNS}, qr_codes(name), bio_link_pages(title)`);
+
+  if (error) {
+    console.error('[alerts PATCH] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    rule: toAlertRuleSummary(data[0] as Parameters<typeof toAlertRuleSummary>[0]),
+  });
+}
+
+/**
+ * DELETE /api/org/alerts/[id] — remove an alert rule and its alert history
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    console.error('[alerts DELETE] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { createAlertRuleSchema } from '@/validations/alert';
+import { ALERT_DEFAULTS } from '@/lib/constants';
+import {
+  ALERT_RULE_SUMMARY_COLUMNS,
+  listAlertEvents,
+  listAlertRules,
+  toAlertRuleSummary,
+} from '@/lib/alerts/queries';
+
+/**
+ * POST /api/org/alerts — add an alert rule to a QR code or bio page
+ *
+ * Any member of the active org can create rules. Body:
+ * { qr_id | page_id, kind, threshold?, window_hours?, delivery?, recipients? }
+ * An empty recipient list emails the rule's creator.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = createAlertRuleSchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const input = parse.data;
+
+  // The target must belong to the active org
+  const { data: target } = input.qr_id
+    ? await supabase
+        .from('qr_codes')
+        .select('id')
+        .eq('id', input.qr_id)
+        .eq('org_id', activeOrgId)
+        .is('deleted_at', null)
+        .maybeSingle()
+    : await supabase
+        .from('bio_link_pages')
+        .select('id')
+        .eq('id', input.page_id!)
+        .eq('org_id', activeOrgId)
+        .is('deleted_at', null)
+        .maybeSingle();
+  if (!target) {
+    return NextResponse.json(
+      { error: input.qr_id ? 'QR code not found' : 'Bio page not found' },
+      { status: 404 }
+    );
+  }
+
+  const { count } = await supabase
+    .from('alert_rules')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', activeOrgId);
+  if ((count ?? 0) >= ALERT_DEFAULTS.MAX_RULES_PER_ORG) {
+    return NextResponse.json(
+      { error: `An organisation can have up to ${ALERT_DEFAULTS.MAX_RULES_PER_ORG} alert rules` },
+      { status: 409 }
+    );
+  }
+
+  const { data: rule, error: insertError } = await supabase
+    .from('alert_rules')
+    .insert({
+      org_id: activeOrgId,
+      created_by: user.id,
+      qr_id: input.qr_id ?? null,
+      page_id: input.page_id ?? null,
+      kind: input.kind,
+      threshold: input.threshold,
+      window_hours: input.window_hours,
+      delivery: input.delivery,
+      recipients: input.recipients,
+    })
+    .select(`${ALERT_RULE_SUMMARY_COLUMNS}, qr_codes(name), bio_link_pages(title)`)
+    .single();
+
+  if (insertError) {
+    console.error('[alerts POST] insert failed', insertError);
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    { rule: toAlertRuleSummary(rule as Parameters<typeof toAlertRuleSummary>[0]) },
+    { status: 201 }
+  );
+}
+
+/**
+ * GET /api/org/alerts — the active org's alert rules and recent alerts
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [rules, events] = await Promise.all([
+      listAlertRules(supabase, activeOrgId),
+      listAlertEvents(supabase, activeOrgId),
+    ]);
+    return NextResponse.json({ rules, events });
+  } catch (error) {
+    console.error('[alerts GET] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to load alerts' },
+      { status: 500 }
+    );
+  }
+}
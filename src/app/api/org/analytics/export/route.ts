@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { checkExportLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { analyticsExportQuerySchema } from '@/validations/analytics';
+import { getOrgAnalyticsSummary } from '@/lib/analytics/org-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+import {
+  eventsExportFile,
+  fetchExportEvents,
+  summaryExportFile,
+  type AnalyticsExportScope,
+} from '@/lib/analytics/export';
+
+/**
+ * GET /api/org/analytics/export - Download the active org's analytics
+ *
+ * Query: data = events | summary (default events), format = csv | json
+ *   (default csv), plus the range params of /api/org/analytics (period or
+ *   from/to, bots = include).
+ *
+ * events: every anonymised scan, view and click across the org's live QR
+ * codes and bio pages in the range, oldest first, capped at
+ * ANALYTICS_EXPORT_DEFAULTS.MAX_EVENTS (X-Export-Truncated: true when cut).
+ * summary: the org analytics summary for the range. Any org member can
+ * export; RLS scopes the rows.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkExportLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parsed = analyticsExportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: org } = await supabase
+      .from('organizations')
+      .select('id, name, default_timezone')
+      .eq('id', activeOrgId)
+      .maybeSingle();
+    if (!org) {
+      return NextResponse.json({ error: 'Organisation not found' }, { status: 404 });
+    }
+
+    const range = parseAnalyticsRange(request.nextUrl.searchParams, org.default_timezone);
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const scope: AnalyticsExportScope = { type: 'org', id: org.id, name: org.name };
+    const { data, format } = parsed.data;
+    let truncated = false;
+    let file;
+    if (data === 'events') {
+      const result = await fetchExportEvents(supabase, scope, range);
+      truncated = result.truncated;
+      file = eventsExportFile(scope, range, format, result);
+    } else {
+      const summary = await getOrgAnalyticsSummary(supabase, org.id, range);
+      file = summaryExportFile(scope, range, format, { type: 'org', summary });
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        ...(truncated ? { 'X-Export-Truncated': 'true' } : {}),
+        ...getRateLimitHeaders(rateLimit),
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { getOrgAnalyticsSummary } from '@/lib/analytics/org-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+
+/**
+ * GET /api/org/analytics - Analytics across every QR code and bio page in the active org
+ *
+ * Query: period = 7d | 30d | 90d (default 30d), or from/to = YYYY-MM-DD
+ *   for a custom range (at most 366 days); bots = include counts bot,
+ *   link-preview and prefetch events too
+ *
+ * Returns scan/view/click/submission totals (with the previous period's for
+ * comparison), a timeline by day in the org's default_timezone and the top
+ * QR codes and pages. Any org member can read; RLS on the rollups scopes
+ * rows to the caller's orgs.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data: org } = await supabase
+      .from('organizations')
+      .select('default_timezone')
+      .eq('id', activeOrgId)
+      .maybeSingle();
+
+    const range = parseAnalyticsRange(request.nextUrl.searchParams, org?.default_timezone);
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const summary = await getOrgAnalyticsSummary(supabase, activeOrgId, range);
+
+    return NextResponse.json(summary, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
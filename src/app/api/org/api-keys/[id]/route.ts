@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * DELETE /api/org/api-keys/[id] — revoke an API key
+ *
+ * Sets revoked_at rather than deleting the row. RLS restricts the update to
+ * owners/admins of the key's org.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[api-keys DELETE] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { createApiKeySchema } from '@/validations/api-key';
+import { generateApiKey } from '@/lib/api-keys/tokens';
+import { API_KEY_DEFAULTS } from '@/lib/constants';
+
+const SUMMARY_COLUMNS = 'id, created_by, name, key_prefix, scopes, last_used_at, revoked_at, created_at';
+
+/**
+ * POST /api/org/api-keys — create an API key for the active org
+ *
+ * Owner/admin only. The plaintext key is in the response exactly once;
+ * only its hash is stored.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = createApiKeySchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  // Caller must be owner or admin of the active org.
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+  if (!roleRow || !['owner', 'admin'].includes(roleRow.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden — owner or admin role required' },
+      { status: 403 }
+    );
+  }
+
+  const { count } = await supabase
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', activeOrgId)
+    .is('revoked_at', null);
+  if ((count ?? 0) >= API_KEY_DEFAULTS.MAX_KEYS_PER_ORG) {
+    return NextResponse.json(
+      { error: `An organisation can have up to ${API_KEY_DEFAULTS.MAX_KEYS_PER_ORG} active API keys` },
+      { status: 409 }
+    );
+  }
+
+  const generated = generateApiKey();
+
+  const { data: apiKey, error: insertError } = await supabase
+    .from('api_keys')
+    .insert({
+      org_id: activeOrgId,
+      created_by: user.id,
+      name: parse.data.name,
+      key_prefix: generated.prefix,
+      key_hash: generated.hash,
+      scopes: parse.data.scopes,
+    })
+    .select(SUMMARY_COLUMNS)
+    .single();
+
+  if (insertError) {
+    console.error('[api-keys POST] insert failed', insertError);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    { api_key: apiKey, key: generated.key },
+    { status: 201 }
+  );
+}
+
+/**
+ * GET /api/org/api-keys — list the active org's API keys (including revoked)
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  // RLS limits this to owners/admins; members get an empty list.
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(SUMMARY_COLUMNS)
+    .eq('org_id', activeOrgId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to load API keys' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ api_keys: data ?? [] });
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { updateCampaignSchema } from '@/validations/campaign';
+import type { UtmCampaignSummary } from '@/types/organization';
+
+/**
+ * GET /api/org/campaigns - UTM campaigns in the active org
+ *
+ * One entry per utm_campaign value across managed QR codes, bio links and
+ * link blocks, with how many of each carry it. Any org member can read.
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('utm_campaigns', { p_org_id: activeOrgId });
+    if (error) throw error;
+
+    const campaigns: UtmCampaignSummary[] = ((data ?? []) as UtmCampaignSummary[]).map((c) => ({
+      ...c,
+      qr_codes: Number(c.qr_codes),
+      bio_links: Number(c.bio_links),
+      link_blocks: Number(c.link_blocks),
+    }));
+
+    return NextResponse.json({ campaigns }, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/org/campaigns - Bulk edit the UTM tags of a campaign
+ *
+ * Body: { campaign, utm: { source?, medium?, campaign?, content? } }
+ *
+ * Applies to every managed QR code, bio link and link block in the active
+ * org tagged utm_campaign = campaign. A tag set to null or '' is removed,
+ * omitted tags are kept, and utm.campaign renames the campaign. RLS limits
+ * the update to the caller's orgs.
+ */
+export async function PATCH(request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parsed = updateCampaignSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Validation error', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Trim values; blanks become null, which the RPC treats as "remove"
+    const patch: Record<string, string | null> = {};
+    for (const [field, value] of Object.entries(parsed.data.utm)) {
+      patch[field] = value?.trim() || null;
+    }
+
+    const { data: updated, error } = await supabase.rpc('update_utm_campaign', {
+      p_org_id: activeOrgId,
+      p_campaign: parsed.data.campaign,
+      p_utm: patch,
+    });
+    if (error) throw error;
+
+    return NextResponse.json({ updated: Number(updated ?? 0) }, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
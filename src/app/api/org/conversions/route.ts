@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { generateConversionKey } from '@/lib/conversions/record';
+
+type KeyResult =
+  | { orgId: string; supabase: Awaited<ReturnType<typeof createClient>> }
+  | { response: NextResponse };
+
+/** Signed-in owner/admin of the active org, or the error response */
+async function authorizeOwnerOrAdmin(): Promise<KeyResult> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return {
+      response: NextResponse.json(
+        { error: 'No active organisation' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+  if (!roleRow || !['owner', 'admin'].includes(roleRow.role)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Forbidden — owner or admin role required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { orgId: activeOrgId, supabase };
+}
+
+/**
+ * POST /api/org/conversions — turn conversion tracking on, or rotate the key
+ *
+ * Owner/admin only. A new key immediately invalidates the old one, so
+ * snippets and pixels already installed must be updated.
+ */
+export async function POST() {
+  const auth = await authorizeOwnerOrAdmin();
+  if ('response' in auth) return auth.response;
+
+  const key = generateConversionKey();
+  const { error } = await auth.supabase
+    .from('organizations')
+    .update({ conversion_key: key })
+    .eq('id', auth.orgId);
+
+  if (error) {
+    console.error('[conversions POST] update failed', error);
+    return NextResponse.json(
+      { error: 'Failed to enable conversion tracking' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ conversion_key: key });
+}
+
+/**
+ * DELETE /api/org/conversions — turn conversion tracking off
+ *
+ * New scans and clicks stop carrying a click ID and reports with the old
+ * key are ignored. Conversions already recorded are kept.
+ */
+export async function DELETE() {
+  const auth = await authorizeOwnerOrAdmin();
+  if ('response' in auth) return auth.response;
+
+  const { error } = await auth.supabase
+    .from('organizations')
+    .update({ conversion_key: null })
+    .eq('id', auth.orgId);
+
+  if (error) {
+    console.error('[conversions DELETE] update failed', error);
+    return NextResponse.json(
+      { error: 'Failed to disable conversion tracking' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ conversion_key: null });
+}
@@ -2,11 +2,13 @@ import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
 import { getActiveOrgPlan } from '@/lib/org/get-active-org-plan';
+import { getPlanEntitlements } from '@/lib/org/entitlements';
 
 /**
  * GET /api/org/current-plan
- * Returns the plan ('free' | 'pro') of the authenticated user's active org.
- * Used by client components that need to render Pro gates.
+ * Returns the plan ('free' | 'pro') of the authenticated user's active org
+ * and its entitlements (features and limits). Used by client components
+ * that need to render Pro gates or show usage against a limit.
  */
 export async function GET() {
   const supabase = await createClient();
@@ -24,5 +26,8 @@ export async function GET() {
   }
 
   const plan = await getActiveOrgPlan(supabase, user.id);
-  return NextResponse.json({ plan }, { headers: getRateLimitHeaders(rateLimit) });
+  return NextResponse.json(
+    { plan, entitlements: getPlanEntitlements(plan) },
+    { headers: getRateLimitHeaders(rateLimit) }
+  );
 }
@@ -8,6 +8,8 @@ import {
   INVITE_EXPIRY_SECONDS,
 } from '@/lib/org/invite-tokens';
 import { sendInviteEmail } from '@/lib/email/send-invite';
+import { getOrgPlan, getPlanLimit, hasRoomFor } from '@/lib/org/entitlements';
+import { countSeatsInUse } from '@/lib/org/seats';
 
 export async function POST(request: Request) {
   const supabase = await createClient();
@@ -58,6 +60,14 @@ export async function POST(request: Request) {
     );
   }
 
+  const plan = await getOrgPlan(supabase, activeOrgId);
+  if (!(await hasRoomFor(plan, 'seats', () => countSeatsInUse(supabase, activeOrgId)))) {
+    return NextResponse.json(
+      { error: `Your plan includes up to ${getPlanLimit(plan, 'seats')} seats, including pending invites` },
+      { status: 403 }
+    );
+  }
+
   const email = parse.data.email.toLowerCase();
   const role = parse.data.role;
 
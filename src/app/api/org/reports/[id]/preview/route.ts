@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { lastCompleteMonth } from '@/lib/reports/content';
+import {
+  SCHEDULE_TARGET_EMBEDS,
+  buildReport,
+  scheduleTarget,
+  type ScheduleTargetRow,
+} from '@/lib/reports/run';
+
+/**
+ * GET /api/org/reports/[id]/preview — download last month's report PDF
+ *
+ * Exactly what the schedule's recipients get (or would have got) for the
+ * last whole month in the org's timezone. Any member of the schedule's
+ * org can preview; RLS scopes the schedule and the analytics.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { data: schedule } = await supabase
+      .from('report_schedules')
+      .select(`org_id, qr_id, page_id, ${SCHEDULE_TARGET_EMBEDS}`)
+      .eq('id', id)
+      .maybeSingle();
+    if (!schedule) {
+      return NextResponse.json({ error: 'Report schedule not found' }, { status: 404 });
+    }
+
+    const { target, timeZone } = scheduleTarget(schedule as ScheduleTargetRow);
+    if (!target) {
+      return NextResponse.json(
+        { error: schedule.qr_id ? 'QR code not found' : 'Bio page not found' },
+        { status: 404 }
+      );
+    }
+
+    const report = await buildReport(supabase, target, lastCompleteMonth(timeZone));
+
+    return new NextResponse(Buffer.from(report.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${report.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[reports preview] failed', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: 'Failed to build report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { updateReportScheduleSchema } from '@/validations/report';
+import { REPORT_SCHEDULE_SUMMARY_COLUMNS, toReportScheduleSummary } from '@/lib/reports/queries';
+
+/**
+ * PATCH /api/org/reports/[id] — change a report's recipients or pause it
+ *
+ * Body: { recipient_ids?, is_active? }
+ *
+ * RLS limits changes to owners/admins of the schedule's org; recipients
+ * must be members of it.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = updateReportScheduleSchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const update = parse.data;
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  if (update.recipient_ids) {
+    const { data: existing } = await supabase
+      .from('report_schedules')
+      .select('org_id')
+      .eq('id', id)
+      .maybeSingle();
+    if (!existing) {
+      return NextResponse.json({ error: 'Report schedule not found' }, { status: 404 });
+    }
+
+    const { data: members } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('org_id', existing.org_id)
+      .in('user_id', update.recipient_ids);
+    if ((members ?? []).length !== update.recipient_ids.length) {
+      return NextResponse.json(
+        { error: 'Recipients must be members of this organisation' },
+        { status: 400 }
+      );
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .update(update)
+    .eq('id', id)
+    .select(`${REPORT_SCHEDULE_SUMMARY_COLUMNS}, qr_codes(name), bio_link_pages(title)`);
+
+  if (error) {
+    console.error('[reports PATCH] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to update report schedule' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Report schedule not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    schedule: toReportScheduleSummary(data[0] as Parameters<typeof toReportScheduleSummary>[0]),
+  });
+}
+
+/**
+ * DELETE /api/org/reports/[id] — stop and remove a scheduled report
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    console.error('[reports DELETE] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to delete report schedule' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Report schedule not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
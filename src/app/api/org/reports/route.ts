@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { createReportScheduleSchema } from '@/validations/report';
+import { REPORT_DEFAULTS } from '@/lib/constants';
+import {
+  REPORT_SCHEDULE_SUMMARY_COLUMNS,
+  listReportSchedules,
+  toReportScheduleSummary,
+} from '@/lib/reports/queries';
+
+/**
+ * POST /api/org/reports — schedule a monthly PDF report
+ *
+ * Body: { qr_id? | page_id?, recipient_ids } — neither id reports on the
+ * whole org. Recipients must be members of the active org. Owners/admins
+ * only, since reports land in other members' inboxes.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = createReportScheduleSchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const input = parse.data;
+
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+  if (!roleRow || !['owner', 'admin'].includes(roleRow.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden — owner or admin role required' },
+      { status: 403 }
+    );
+  }
+
+  // The target must belong to the active org
+  if (input.qr_id || input.page_id) {
+    const { data: target } = input.qr_id
+      ? await supabase
+          .from('qr_codes')
+          .select('id')
+          .eq('id', input.qr_id)
+          .eq('org_id', activeOrgId)
+          .is('deleted_at', null)
+          .maybeSingle()
+      : await supabase
+          .from('bio_link_pages')
+          .select('id')
+          .eq('id', input.page_id!)
+          .eq('org_id', activeOrgId)
+          .is('deleted_at', null)
+          .maybeSingle();
+    if (!target) {
+      return NextResponse.json(
+        { error: input.qr_id ? 'QR code not found' : 'Bio page not found' },
+        { status: 404 }
+      );
+    }
+  }
+
+  const { data: members } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('org_id', activeOrgId)
+    .in('user_id', input.recipient_ids);
+  if ((members ?? []).length !== input.recipient_ids.length) {
+    return NextResponse.json(
+      { error: 'Recipients must be members of this organisation' },
+      { status: 400 }
+    );
+  }
+
+  const { count } = await supabase
+    .from('report_schedules')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', activeOrgId);
+  if ((count ?? 0) >= REPORT_DEFAULTS.MAX_SCHEDULES_PER_ORG) {
+    return NextResponse.json(
+      { error: `An organisation can have up to ${REPORT_DEFAULTS.MAX_SCHEDULES_PER_ORG} scheduled reports` },
+      { status: 409 }
+    );
+  }
+
+  const { data: schedule, error: insertError } = await supabase
+    .from('report_schedules')
+    .insert({
+      org_id: activeOrgId,
+      created_by: user.id,
+      qr_id: input.qr_id ?? null,
+      page_id: input.page_id ?? null,
+      recipient_ids: input.recipient_ids,
+    })
+    .select(`${REPORT_SCHEDULE_SUMMARY_COLUMNS}, qr_codes(name), bio_link_pages(title)`)
+    .single();
+
+  if (insertError) {
+    console.error('[reports POST] insert failed', insertError);
+    return NextResponse.json(
+      { error: 'Failed to schedule report' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    { schedule: toReportScheduleSummary(schedule as Parameters<typeof toReportScheduleSummary>[0]) },
+    { status: 201 }
+  );
+}
+
+/**
+ * GET /api/org/reports — the active org's report schedules
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const schedules = await listReportSchedules(supabase, activeOrgId);
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error('[reports GET] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to load report schedules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { checkWebhookRedeliverLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { attemptDelivery, DELIVERY_COLUMNS } from '@/lib/webhooks/dispatch';
+import type { WebhookDelivery } from '@/types/webhook';
+
+/**
+ * POST /api/org/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ *
+ * Send a delivery again right now, whatever its status. The attempt counts
+ * towards the delivery's total; a failure reschedules it with the usual
+ * backoff unless it has already used all its attempts.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  const { id, deliveryId } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkWebhookRedeliverLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    // Read through RLS so only owners/admins of the org get this far
+    const { data: delivery } = await supabase
+      .from('webhook_deliveries')
+      .select(`${DELIVERY_COLUMNS}, webhook_endpoints(id, url, secret)`)
+      .eq('id', deliveryId)
+      .eq('endpoint_id', id)
+      .single();
+
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const { webhook_endpoints: joined, ...row } = delivery as WebhookDelivery & {
+      webhook_endpoints: { id: string; url: string; secret: string } | { id: string; url: string; secret: string }[] | null;
+    };
+    const endpoint = Array.isArray(joined) ? joined[0] : joined;
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    // Delivery state is written by the service role only
+    const result = await attemptDelivery(createAdminClient(), row, endpoint);
+
+    return NextResponse.json(
+      { delivery: result },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
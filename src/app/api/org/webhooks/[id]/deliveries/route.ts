@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { DELIVERY_COLUMNS } from '@/lib/webhooks/dispatch';
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/org/webhooks/[id]/deliveries — recent deliveries for an endpoint
+ *
+ * Query: ?status=pending|succeeded|failed&limit=25
+ * RLS restricts the rows to owners/admins of the endpoint's org.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const requested = parseInt(searchParams.get('limit') ?? '', 10);
+  const limit = Number.isNaN(requested)
+    ? DEFAULT_LIMIT
+    : Math.min(Math.max(requested, 1), MAX_LIMIT);
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('endpoint_id', id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  const status = searchParams.get('status');
+  if (status === 'pending' || status === 'succeeded' || status === 'failed') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to load deliveries' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ deliveries: data ?? [] });
+}
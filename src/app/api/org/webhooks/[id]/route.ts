@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { updateWebhookEndpointSchema } from '@/validations/webhook';
+import { validateUrlStrict } from '@/lib/security/url-validator-strict';
+import { generateWebhookSecret } from '@/lib/webhooks/signing';
+
+const SUMMARY_COLUMNS = 'id, created_by, url, description, events, is_active, created_at, updated_at';
+
+/**
+ * PATCH /api/org/webhooks/[id] — update or pause an endpoint, or rotate its secret
+ *
+ * Body: { url?, description?, events?, is_active?, rotate_secret? }
+ *
+ * RLS restricts the update to owners/admins of the endpoint's org. When
+ * rotate_secret is set the new secret is in the response exactly once.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = updateWebhookEndpointSchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { rotate_secret, ...fields } = parse.data;
+  const update: Record<string, unknown> = { ...fields };
+
+  if (fields.url) {
+    const urlCheck = await validateUrlStrict(fields.url);
+    if (!urlCheck.isValid) {
+      return NextResponse.json(
+        { error: urlCheck.error || 'Invalid URL' },
+        { status: 400 }
+      );
+    }
+    update.url = urlCheck.normalizedUrl ?? fields.url;
+  }
+
+  const secret = rotate_secret ? generateWebhookSecret() : undefined;
+  if (secret) update.secret = secret;
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update(update)
+    .eq('id', id)
+    .select(SUMMARY_COLUMNS);
+
+  if (error) {
+    console.error('[webhooks PATCH] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook endpoint' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(secret ? { endpoint: data[0], secret } : { endpoint: data[0] });
+}
+
+/**
+ * DELETE /api/org/webhooks/[id] — remove an endpoint and its delivery log
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    console.error('[webhooks DELETE] failed', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook endpoint' },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
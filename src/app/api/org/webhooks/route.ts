@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { createWebhookEndpointSchema } from '@/validations/webhook';
+import { validateUrlStrict } from '@/lib/security/url-validator-strict';
+import { generateWebhookSecret } from '@/lib/webhooks/signing';
+import { WEBHOOK_DEFAULTS } from '@/lib/constants';
+
+const SUMMARY_COLUMNS = 'id, created_by, url, description, events, is_active, created_at, updated_at';
+
+/**
+ * POST /api/org/webhooks — add a webhook endpoint to the active org
+ *
+ * Owner/admin only. The signing secret is in the response exactly once;
+ * it can be replaced later via PATCH { rotate_secret: true }.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parse = createWebhookEndpointSchema.safeParse(body);
+  if (!parse.success) {
+    return NextResponse.json(
+      { error: 'Invalid body', details: parse.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  // Caller must be owner or admin of the active org.
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+  if (!roleRow || !['owner', 'admin'].includes(roleRow.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden — owner or admin role required' },
+      { status: 403 }
+    );
+  }
+
+  // Deliveries are server-side requests — block internal targets up front.
+  // Every attempt re-checks, since DNS can change after creation.
+  const urlCheck = await validateUrlStrict(parse.data.url);
+  if (!urlCheck.isValid) {
+    return NextResponse.json(
+      { error: urlCheck.error || 'Invalid URL' },
+      { status: 400 }
+    );
+  }
+
+  const { count } = await supabase
+    .from('webhook_endpoints')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', activeOrgId);
+  if ((count ?? 0) >= WEBHOOK_DEFAULTS.MAX_ENDPOINTS_PER_ORG) {
+    return NextResponse.json(
+      { error: `An organisation can have up to ${WEBHOOK_DEFAULTS.MAX_ENDPOINTS_PER_ORG} webhook endpoints` },
+      { status: 409 }
+    );
+  }
+
+  const secret = generateWebhookSecret();
+
+  const { data: endpoint, error: insertError } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      org_id: activeOrgId,
+      created_by: user.id,
+      url: urlCheck.normalizedUrl ?? parse.data.url,
+      description: parse.data.description ?? null,
+      secret,
+      events: parse.data.events,
+    })
+    .select(SUMMARY_COLUMNS)
+    .single();
+
+  if (insertError) {
+    console.error('[webhooks POST] insert failed', insertError);
+    return NextResponse.json(
+      { error: 'Failed to create webhook endpoint' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ endpoint, secret }, { status: 201 });
+}
+
+/**
+ * GET /api/org/webhooks — list the active org's webhook endpoints
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return NextResponse.json(
+      { error: 'No active organisation' },
+      { status: 400 }
+    );
+  }
+
+  // RLS limits this to owners/admins; members get an empty list.
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select(SUMMARY_COLUMNS)
+    .eq('org_id', activeOrgId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to load webhook endpoints' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ endpoints: data ?? [] });
+}
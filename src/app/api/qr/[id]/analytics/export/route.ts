@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkExportLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import { analyticsExportQuerySchema } from '@/validations/analytics';
+import { getQRAnalyticsSummary } from '@/lib/analytics/qr-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+import {
+  eventsExportFile,
+  fetchExportEvents,
+  summaryExportFile,
+  type AnalyticsExportScope,
+} from '@/lib/analytics/export';
+
+/**
+ * GET /api/qr/[id]/analytics/export - Download a QR code's analytics
+ *
+ * Query: data = events | summary (default events), format = csv | json
+ *   (default csv), plus the range params of /api/qr/[id]/analytics
+ *   (period or from/to, bots = include).
+ *
+ * events: every anonymised scan in the range, oldest first, capped at
+ * ANALYTICS_EXPORT_DEFAULTS.MAX_EVENTS (X-Export-Truncated: true when cut).
+ * summary: the analytics summary for the range. Owner-only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid QR code ID' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkExportLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const parsed = analyticsExportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: qr, error: qrError } = await supabase
+      .from('qr_codes')
+      .select('id, name, total_scans, bot_scans, analytics_enabled, destination_variants, organizations(default_timezone)')
+      .eq('id', id)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (qrError || !qr) {
+      return NextResponse.json({ error: 'QR code not found' }, { status: 404 });
+    }
+
+    if (!qr.analytics_enabled) {
+      return NextResponse.json(
+        { error: 'Analytics not enabled for this QR code' },
+        { status: 400 }
+      );
+    }
+
+    const org = Array.isArray(qr.organizations) ? qr.organizations[0] : qr.organizations;
+    const range = parseAnalyticsRange(
+      request.nextUrl.searchParams,
+      (org as { default_timezone: string | null } | null)?.default_timezone,
+    );
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const scope: AnalyticsExportScope = { type: 'qr', id: qr.id, name: qr.name };
+    const { data, format } = parsed.data;
+    let truncated = false;
+    let file;
+    if (data === 'events') {
+      const result = await fetchExportEvents(supabase, scope, range);
+      truncated = result.truncated;
+      file = eventsExportFile(scope, range, format, result);
+    } else {
+      const summary = await getQRAnalyticsSummary(supabase, qr, range);
+      file = summaryExportFile(scope, range, format, { type: 'qr', summary });
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        ...(truncated ? { 'X-Export-Truncated': 'true' } : {}),
+        ...getRateLimitHeaders(rateLimit),
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,12 @@ import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter'
 import { updateQRSchema, updateStyleSchema, isValidUUID } from '@/validations/qr';
 import { writeAuditLog, determineUpdateAction } from '@/lib/audit';
 import { getActiveOrgPlan } from '@/lib/org/get-active-org-plan';
+import { hasRoomFor } from '@/lib/org/entitlements';
+import { countNfcCarriers } from '@/lib/qr/carriers';
+import { symbologyCarriesUrl } from '@/lib/qr/barcode-content';
+import { normalizeUtm } from '@/lib/utm';
+import { styleInputToUpdate } from '@/lib/qr/style';
+import { prepareBackgroundImage, uploadBackgroundImage } from '@/lib/qr/background-image';
 
 /**
  * GET /api/qr/[id] - Get a specific QR code
@@ -98,7 +104,7 @@ export async function PATCH(
     // Verify ownership
     const { data: existingQr, error: fetchError } = await supabase
       .from('qr_codes')
-      .select('id, owner_id, mode, destination_url, name, is_active, analytics_enabled')
+      .select('id, owner_id, org_id, mode, symbology, payload_type, destination_url, destination_rules, destination_variants, name, is_active, analytics_enabled')
       .eq('id', id)
       .eq('owner_id', user.id)
       .is('deleted_at', null)
@@ -129,6 +135,20 @@ export async function PATCH(
 
       // Validate destination URL if provided
       if (parsed.data.destination_url) {
+        // EAN-13 / UPC-A encode their GTIN, and payload codes their built
+        // content (vCard, Wi-Fi, …), not a URL
+        if (!symbologyCarriesUrl(existingQr.symbology)) {
+          return NextResponse.json(
+            { error: 'EAN-13 and UPC-A codes have no destination URL' },
+            { status: 400 }
+          );
+        }
+        if (existingQr.payload_type !== 'url') {
+          return NextResponse.json(
+            { error: 'Codes with structured content have no destination URL' },
+            { status: 400 }
+          );
+        }
         const urlValidation = validateUrl(parsed.data.destination_url);
         if (!urlValidation.isValid) {
           return NextResponse.json(
@@ -139,6 +159,64 @@ export async function PATCH(
         qrUpdate.destination_url = urlValidation.normalizedUrl;
       }
 
+      // Scheduled destination rules (managed mode only — direct codes encode
+      // their URL and never pass through the redirect handler)
+      if (parsed.data.destination_rules !== undefined) {
+        if (existingQr.mode !== 'managed') {
+          return NextResponse.json(
+            { error: 'Destination rules require a managed QR code' },
+            { status: 400 }
+          );
+        }
+
+        const rules = [];
+        for (const rule of parsed.data.destination_rules) {
+          const ruleUrl = validateUrl(rule.destination_url);
+          if (!ruleUrl.isValid) {
+            return NextResponse.json(
+              { error: `Rule "${rule.label || rule.id}": ${ruleUrl.error}` },
+              { status: 400 }
+            );
+          }
+          rules.push({ ...rule, destination_url: ruleUrl.normalizedUrl });
+        }
+        qrUpdate.destination_rules = rules;
+      }
+
+      // A/B split variants (managed mode only, same reasoning as above)
+      if (parsed.data.destination_variants !== undefined) {
+        if (existingQr.mode !== 'managed') {
+          return NextResponse.json(
+            { error: 'Destination variants require a managed QR code' },
+            { status: 400 }
+          );
+        }
+
+        const variants = [];
+        for (const variant of parsed.data.destination_variants) {
+          const variantUrl = validateUrl(variant.destination_url);
+          if (!variantUrl.isValid) {
+            return NextResponse.json(
+              { error: `Variant "${variant.label || variant.id}": ${variantUrl.error}` },
+              { status: 400 }
+            );
+          }
+          variants.push({ ...variant, destination_url: variantUrl.normalizedUrl });
+        }
+        qrUpdate.destination_variants = variants;
+      }
+
+      // UTM tags are appended by the redirect handler, so managed mode only
+      if (parsed.data.utm !== undefined) {
+        if (existingQr.mode !== 'managed') {
+          return NextResponse.json(
+            { error: 'UTM tags require a managed QR code' },
+            { status: 400 }
+          );
+        }
+        qrUpdate.utm = normalizeUtm(parsed.data.utm);
+      }
+
       if (parsed.data.name) qrUpdate.name = parsed.data.name;
       if (parsed.data.is_active !== undefined) qrUpdate.is_active = parsed.data.is_active;
       if (parsed.data.analytics_enabled !== undefined) {
@@ -146,10 +224,13 @@ export async function PATCH(
       }
 
       if (parsed.data.carrier !== undefined) {
-        // Pro-gate: only Pro orgs may set carrier != 'qr'
+        // Plan gate: NFC carriers (carrier != 'qr') count against nfc_carriers
         if (parsed.data.carrier !== 'qr') {
           const plan = await getActiveOrgPlan(supabase, user.id);
-          if (plan !== 'pro') {
+          const allowed = await hasRoomFor(plan, 'nfc_carriers', () =>
+            countNfcCarriers(supabase, existingQr.org_id, existingQr.id)
+          );
+          if (!allowed) {
             return NextResponse.json(
               { error: 'pro_plan_required' },
               { status: 403 }
@@ -170,12 +251,29 @@ export async function PATCH(
         );
       }
 
-      if (styleParsed.data.foreground_color) styleUpdate.foreground_color = styleParsed.data.foreground_color;
-      if (styleParsed.data.background_color) styleUpdate.background_color = styleParsed.data.background_color;
-      if (styleParsed.data.error_correction) styleUpdate.error_correction = styleParsed.data.error_correction;
-      if (styleParsed.data.quiet_zone !== undefined) styleUpdate.quiet_zone = styleParsed.data.quiet_zone;
-      if (styleParsed.data.module_shape) styleUpdate.module_shape = styleParsed.data.module_shape;
-      if (styleParsed.data.eye_shape) styleUpdate.eye_shape = styleParsed.data.eye_shape;
+      Object.assign(styleUpdate, styleInputToUpdate(styleParsed.data));
+
+      // null removes the image; a new one is stored under the owner's folder
+      const { background_image } = styleParsed.data;
+      if (background_image === null) {
+        styleUpdate.background_image_storage_path = null;
+      } else if (background_image) {
+        const image = await prepareBackgroundImage(background_image);
+        if (!image) {
+          return NextResponse.json(
+            { error: 'Background image could not be read' },
+            { status: 400 }
+          );
+        }
+        const path = await uploadBackgroundImage(supabase, user.id, image);
+        if (!path) {
+          return NextResponse.json(
+            { error: 'Failed to save background image' },
+            { status: 500 }
+          );
+        }
+        styleUpdate.background_image_storage_path = path;
+      }
     }
 
     // Apply QR update
@@ -219,6 +317,12 @@ export async function PATCH(
       action,
       previousValue: {
         destination_url: existingQr.destination_url,
+        ...(qrUpdate.destination_rules !== undefined
+          ? { destination_rules: existingQr.destination_rules }
+          : {}),
+        ...(qrUpdate.destination_variants !== undefined
+          ? { destination_variants: existingQr.destination_variants }
+          : {}),
         name: existingQr.name,
         is_active: existingQr.is_active,
       },
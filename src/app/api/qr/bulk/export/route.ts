@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkExportLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { bulkExportQRSchema } from '@/validations/qr';
+import {
+  generateQRMatrix,
+  buildStyledSVG,
+  buildBarcodeSVG,
+  isBarcodeSymbology,
+  svgToPng,
+  svgToPngTransparent,
+  createPresetPdf,
+  createZip,
+  type ZipEntry,
+} from '@/lib/qr';
+import { bulkFileBaseName, csvEscape } from '@/lib/qr/bulk';
+import { styleRowToConfig } from '@/lib/qr/style';
+import { loadBackgroundImage } from '@/lib/qr/background-image';
+import { checkScannability } from '@/lib/qr/scannability';
+import type { QRStyle, QRStyleConfig, CodeSymbology } from '@/types/qr';
+
+// sharp and zlib need the Node.js runtime
+export const runtime = 'nodejs';
+// Rasterising hundreds of PNG/PDF files is CPU-bound; use the full window
+export const maxDuration = 60;
+
+/**
+ * POST /api/qr/bulk/export - Download many QR codes as a ZIP
+ *
+ * Body: { ids, formats?, png_size?, pdf_preset?, allow_unscannable? }
+ *
+ * Builds each code with its saved style through buildStyledSVG (or
+ * buildBarcodeSVG for the other symbologies), then
+ * svgToPng / createPresetPdf, and returns a ZIP laid out as
+ * svg/, png/, pdf/ plus a manifest.csv mapping files to short links.
+ *
+ * QR codes are scan-tested first, once per distinct style against the
+ * longest content using it (the densest code). If a style fails, the
+ * response is 422 with `scan_failures` unless allow_unscannable is set;
+ * the manifest records each code's result either way.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  // Check authentication
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Check rate limit
+  const rateLimit = checkExportLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    const parsed = bulkExportQRSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { ids, formats, png_size, pdf_preset, allow_unscannable } = parsed.data;
+
+    const { data: qrCodes, error } = await supabase
+      .from('qr_codes')
+      .select('id, name, mode, symbology, slug, destination_url, qr_styles(*)')
+      .in('id', ids)
+      .eq('owner_id', user.id)
+      .is('deleted_at', null);
+
+    if (error) {
+      console.error('Failed to fetch QR codes for export:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to fetch QR codes' },
+        { status: 500 }
+      );
+    }
+
+    if (!qrCodes || qrCodes.length === 0) {
+      return NextResponse.json({ error: 'No QR codes found' }, { status: 404 });
+    }
+
+    // Keep the caller's order so the manifest matches their CSV
+    const order = new Map(ids.map((id, index) => [id, index]));
+    qrCodes.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+    const entries: ZipEntry[] = [];
+    const manifest: string[] = ['name,slug,short_url,destination_url,files,scan_test'];
+    const usedNames = new Set<string>();
+    // Codes styled together share one stored background image
+    const backgroundImages = new Map<string, string | null>();
+
+    const codes: Array<{ qr: (typeof qrCodes)[number]; style: QRStyleConfig; data: string; styleKey: string }> = [];
+    for (const qr of qrCodes) {
+      const styleRow = (Array.isArray(qr.qr_styles) ? qr.qr_styles[0] : qr.qr_styles) as QRStyle | null;
+      const imagePath = styleRow?.background_mode === 'image' ? styleRow.background_image_storage_path : null;
+      if (imagePath && !backgroundImages.has(imagePath)) {
+        backgroundImages.set(imagePath, await loadBackgroundImage(supabase, imagePath));
+      }
+      // No logo in bulk
+      const style = styleRowToConfig(styleRow, imagePath ? backgroundImages.get(imagePath) : null);
+      const data = qr.mode === 'managed' && qr.slug
+        ? `${appUrl}/r/${qr.slug}`
+        : qr.destination_url;
+      // Key on the image's path rather than its data URL
+      const styleKey = JSON.stringify({ ...style, backgroundImageDataUrl: imagePath });
+      codes.push({ qr, style, data, styleKey });
+    }
+
+    // Scan test each distinct QR style on its densest content
+    const densest = new Map<string, (typeof codes)[number]>();
+    for (const code of codes) {
+      if (isBarcodeSymbology(code.qr.symbology as CodeSymbology)) continue;
+      const current = densest.get(code.styleKey);
+      if (!current || Buffer.byteLength(code.data) > Buffer.byteLength(current.data)) {
+        densest.set(code.styleKey, code);
+      }
+    }
+    const scanResults = new Map<string, boolean>();
+    const scanFailures: Array<{ codes: string[]; score: number; issues: string[] }> = [];
+    for (const [styleKey, code] of densest) {
+      const report = await checkScannability(code.data, code.style);
+      scanResults.set(styleKey, report.passed);
+      if (!report.passed) {
+        scanFailures.push({
+          codes: codes.filter((c) => c.styleKey === styleKey).map((c) => c.qr.name),
+          score: report.score,
+          issues: report.issues,
+        });
+      }
+    }
+    if (scanFailures.length > 0 && !allow_unscannable) {
+      return NextResponse.json(
+        { error: 'Some QR codes failed the scan test', scan_failures: scanFailures },
+        { status: 422, headers: getRateLimitHeaders(rateLimit) }
+      );
+    }
+
+    // Sequential on purpose — sharp rasterisation is memory-heavy
+    for (const { qr, style, data, styleKey } of codes) {
+      let baseName = bulkFileBaseName(qr.name, qr.slug, qr.id);
+      if (usedNames.has(baseName)) baseName = `${baseName}-${qr.id.slice(0, 8)}`;
+      usedNames.add(baseName);
+
+      const symbology = qr.symbology as CodeSymbology;
+      const svg = isBarcodeSymbology(symbology)
+        ? buildBarcodeSVG(symbology, data, style)
+        : buildStyledSVG(await generateQRMatrix(data, style.errorCorrection), style);
+      const files: string[] = [];
+
+      if (formats.includes('svg')) {
+        entries.push({ name: `svg/${baseName}.svg`, data: svg });
+        files.push(`svg/${baseName}.svg`);
+      }
+      if (formats.includes('png')) {
+        const png = style.backgroundMode === 'transparent' && !isBarcodeSymbology(symbology)
+          ? await svgToPngTransparent(svg, png_size)
+          : await svgToPng(svg, png_size);
+        entries.push({ name: `png/${baseName}.png`, data: png });
+        files.push(`png/${baseName}.png`);
+      }
+      if (formats.includes('pdf')) {
+        entries.push({ name: `pdf/${baseName}.pdf`, data: await createPresetPdf(svg, pdf_preset) });
+        files.push(`pdf/${baseName}.pdf`);
+      }
+
+      manifest.push([
+        csvEscape(qr.name),
+        csvEscape(qr.slug),
+        csvEscape(qr.mode === 'managed' && qr.slug ? data : ''),
+        csvEscape(qr.destination_url),
+        csvEscape(files.join(' ')),
+        // Barcodes aren't scan-tested
+        scanResults.has(styleKey) ? (scanResults.get(styleKey) ? 'passed' : 'failed') : '',
+      ].join(','));
+    }
+
+    entries.push({ name: 'manifest.csv', data: manifest.join('\r\n') + '\r\n' });
+
+    const zip = createZip(entries);
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="qr-codes-${stamp}.zip"`,
+        ...getRateLimitHeaders(rateLimit),
+      },
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
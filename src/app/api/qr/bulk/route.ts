@@ -0,0 +1,335 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { validateUrlStrict } from '@/lib/security/url-validator-strict';
+import { checkApiLimit, checkQrBulkCreateLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { bulkCreateQRSchema, createQRSchema } from '@/validations/qr';
+import { writeAuditLogs } from '@/lib/audit';
+import { getPersonalOrgId } from '@/lib/org/get-personal-org';
+import { parseBulkCsv, mapWithConcurrency, type BulkCsvRow } from '@/lib/qr/bulk';
+import { QR_DEFAULTS } from '@/lib/constants';
+import { styleInputToUpdate } from '@/lib/qr/style';
+import { prepareBackgroundImage, uploadBackgroundImage } from '@/lib/qr/background-image';
+
+export const runtime = 'nodejs';
+// 500 rows × (DNS check + slug + insert) needs more than the default window
+export const maxDuration = 60;
+
+const MAX_SLUG_RETRIES = 3;
+const DNS_CONCURRENCY = 10;
+const INSERT_CONCURRENCY = 10;
+
+interface ValidRow {
+  line: number;
+  name: string;
+  destination_url: string;
+  slug?: string;
+}
+
+interface RowError {
+  line: number;
+  errors: string[];
+}
+
+/**
+ * POST /api/qr/bulk - Create many managed QR codes from a CSV
+ *
+ * Body: { csv, analytics_enabled?, style?, dry_run? }
+ *
+ * Every row is validated with createQRSchema and validateUrlStrict before
+ * anything is written. If any row fails, nothing is created and the response
+ * is 400 with a per-line error report. With dry_run the validation report
+ * is returned without creating anything. A custom slug claimed by someone
+ * else between validation and insert is the one case reported per row in
+ * `failed` while the rest are created.
+ *
+ * All codes are created in the caller's org and share one style. If the
+ * style can't be saved the codes are still created and `style_error` says
+ * why. Generate the print files afterwards with POST /api/qr/bulk/export.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  // Check authentication
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+
+    const parsed = bulkCreateQRSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { csv, analytics_enabled, style, dry_run } = parsed.data;
+
+    // Dry runs only validate, so they use the general API limit — the user
+    // can re-check as they fix their file without burning a batch
+    const rateLimit = dry_run ? checkApiLimit(user.id) : checkQrBulkCreateLimit(user.id);
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded' },
+        { status: 429, headers: getRateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const csvResult = parseBulkCsv(csv);
+    if (!csvResult.ok) {
+      return NextResponse.json({ error: csvResult.error }, { status: 400 });
+    }
+
+    if (csvResult.rows.length > QR_DEFAULTS.MAX_BULK_ROWS) {
+      return NextResponse.json(
+        { error: `CSV has ${csvResult.rows.length} rows; the limit is ${QR_DEFAULTS.MAX_BULK_ROWS}` },
+        { status: 400 }
+      );
+    }
+
+    const { valid, errors } = await validateRows(supabase, csvResult.rows);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation error', total: csvResult.rows.length, rows: errors },
+        { status: 400 }
+      );
+    }
+
+    // Read the background image before creating anything
+    let backgroundImage: Buffer | null = null;
+    if (style?.background_image) {
+      backgroundImage = await prepareBackgroundImage(style.background_image);
+      if (!backgroundImage) {
+        return NextResponse.json(
+          { error: 'Background image could not be read' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (dry_run) {
+      return NextResponse.json(
+        { valid: true, total: valid.length },
+        { headers: getRateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const orgId = await getPersonalOrgId(supabase, user.id);
+
+    // Create codes (bounded concurrency; each row retries on slug collision)
+    const results = await mapWithConcurrency(valid, INSERT_CONCURRENCY, async (row) => {
+      let finalSlug = row.slug;
+
+      for (let attempt = 0; attempt < MAX_SLUG_RETRIES; attempt++) {
+        if (!finalSlug) {
+          const { data: slugData, error: slugError } = await supabase
+            .rpc('generate_qr_unique_slug');
+          if (slugError) return { line: row.line, error: 'Failed to generate slug' };
+          finalSlug = slugData as string;
+        }
+
+        const { data: created, error: createError } = await supabase
+          .from('qr_codes')
+          .insert({
+            owner_id: user.id,
+            org_id: orgId,
+            name: row.name,
+            mode: 'managed',
+            slug: finalSlug,
+            carrier: 'qr',
+            destination_url: row.destination_url,
+            analytics_enabled,
+          })
+          .select('id')
+          .single();
+
+        if (createError) {
+          // Generated slug collided — retry. A user-supplied slug that was
+          // taken between validation and insert is reported, not replaced.
+          if (createError.code === '23505' && !row.slug) {
+            finalSlug = undefined;
+            continue;
+          }
+          return {
+            line: row.line,
+            error: createError.code === '23505' ? 'Slug is already taken' : 'Failed to create QR code',
+          };
+        }
+
+        return { line: row.line, id: created.id as string, name: row.name, slug: finalSlug, destination_url: row.destination_url };
+      }
+
+      return { line: row.line, error: 'Failed to create QR code after multiple attempts' };
+    });
+
+    const created = results.filter((r): r is Extract<typeof r, { id: string }> => 'id' in r);
+    const failed = results.filter((r): r is Extract<typeof r, { error: string }> => 'error' in r);
+
+    // Apply the shared style to every created code in one update. The
+    // codes exist either way, so a failure here is reported, not fatal.
+    let styleError: string | null = null;
+    if (created.length > 0 && style && Object.keys(style).length > 0) {
+      const styleUpdate = styleInputToUpdate(style);
+      if (backgroundImage) {
+        const path = await uploadBackgroundImage(supabase, user.id, backgroundImage);
+        if (path) {
+          styleUpdate.background_image_storage_path = path;
+        } else {
+          // Keep the default background rather than an image mode with no image
+          delete styleUpdate.background_mode;
+          styleError = 'Background image could not be saved; codes were created with a plain background';
+        }
+      }
+
+      if (Object.keys(styleUpdate).length > 0) {
+        const { error: updateError } = await supabase
+          .from('qr_styles')
+          .update(styleUpdate)
+          .in('qr_id', created.map((c) => c.id));
+        if (updateError) {
+          console.error('Failed to apply bulk style:', updateError.message);
+          styleError = 'Style could not be applied; codes were created with the default style';
+        }
+      }
+    }
+
+    // Write audit log (fire-and-forget, one insert for the whole batch)
+    const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0] || null;
+    const userAgent = request.headers.get('user-agent') || null;
+    writeAuditLogs(
+      created.map((c) => ({
+        qrId: c.id,
+        actorId: user.id,
+        action: 'created' as const,
+        newValue: { name: c.name, mode: 'managed', destination_url: c.destination_url, slug: c.slug, bulk: true },
+        ipAddress,
+        userAgent,
+      }))
+    );
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+    return NextResponse.json({
+      created: created.map((c) => ({
+        line: c.line,
+        id: c.id,
+        name: c.name,
+        slug: c.slug,
+        redirect_url: `${appUrl}/r/${c.slug}`,
+      })),
+      failed,
+      style_error: styleError,
+    }, {
+      status: created.length > 0 ? 201 : 500,
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Validate every CSV row and collect per-line errors.
+ *
+ * Checks, in order: createQRSchema (name, URL length, slug format), slug
+ * uniqueness within the file and against existing codes, then
+ * validateUrlStrict. Strict validation does DNS lookups, so each distinct
+ * URL is checked once and lookups run with bounded concurrency.
+ */
+async function validateRows(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  rows: BulkCsvRow[],
+): Promise<{ valid: ValidRow[]; errors: RowError[] }> {
+  const errorsByLine = new Map<number, string[]>();
+  const addError = (line: number, message: string) => {
+    const list = errorsByLine.get(line) ?? [];
+    list.push(message);
+    errorsByLine.set(line, list);
+  };
+
+  const candidates: ValidRow[] = [];
+  const slugLines = new Map<string, number>();
+
+  for (const row of rows) {
+    const parsed = createQRSchema.safeParse({
+      name: row.name,
+      mode: 'managed',
+      destination_url: row.destination_url,
+      slug: row.slug,
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path.join('.');
+        addError(row.line, field ? `${field}: ${issue.message}` : issue.message);
+      }
+      continue;
+    }
+
+    if (parsed.data.slug) {
+      const firstLine = slugLines.get(parsed.data.slug);
+      if (firstLine !== undefined) {
+        addError(row.line, `slug: Duplicate of line ${firstLine}`);
+        continue;
+      }
+      slugLines.set(parsed.data.slug, row.line);
+    }
+
+    candidates.push({
+      line: row.line,
+      name: parsed.data.name,
+      destination_url: row.destination_url,
+      ...(parsed.data.slug ? { slug: parsed.data.slug } : {}),
+    });
+  }
+
+  // Slugs already in use by anyone: slugs are globally unique, but RLS only
+  // shows the caller their own org's codes, so look with the admin client.
+  // Only the slug column is read.
+  if (slugLines.size > 0) {
+    const { data: taken } = await createAdminClient()
+      .from('qr_codes')
+      .select('slug')
+      .in('slug', Array.from(slugLines.keys()));
+
+    for (const row of taken ?? []) {
+      const line = slugLines.get(row.slug as string);
+      if (line !== undefined) addError(line, 'slug: Slug is already taken');
+    }
+  }
+
+  // Strict URL validation, once per distinct URL
+  const distinctUrls = Array.from(new Set(candidates.map((c) => c.destination_url)));
+  const urlResults = new Map(
+    (await mapWithConcurrency(distinctUrls, DNS_CONCURRENCY, async (url) =>
+      [url, await validateUrlStrict(url)] as const
+    ))
+  );
+
+  const valid: ValidRow[] = [];
+  for (const candidate of candidates) {
+    const result = urlResults.get(candidate.destination_url);
+    if (!result?.isValid) {
+      addError(candidate.line, `destination_url: ${result?.error ?? 'Invalid URL'}`);
+      continue;
+    }
+    if (errorsByLine.has(candidate.line)) continue;
+    valid.push({ ...candidate, destination_url: result.normalizedUrl! });
+  }
+
+  const errors = Array.from(errorsByLine.entries())
+    .map(([line, messages]) => ({ line, errors: messages }))
+    .sort((a, b) => a.line - b.line);
+
+  return { valid, errors };
+}
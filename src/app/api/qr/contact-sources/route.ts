@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import type { BrandPerson } from '@/types/brand';
+
+/** Shape of the brand_profiles → brand_people join selected below */
+type ProfileWithPeople = {
+  name: string;
+  brand_people: Pick<BrandPerson, 'id' | 'full_name' | 'role' | 'sort_order'>[] | null;
+};
+
+/**
+ * GET /api/qr/contact-sources - What a contact code can serve
+ *
+ * Lists the brand kit people and bio pages visible to the user (RLS scopes
+ * both to their org), for the contact card picker on /app/new.
+ */
+export async function GET(_request: NextRequest) {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const rateLimit = checkApiLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const [profilesResult, pagesResult] = await Promise.all([
+    supabase
+      .from('brand_profiles')
+      .select('id, name, brand_people(id, full_name, role, sort_order)')
+      .is('deleted_at', null)
+      .order('name', { ascending: true }),
+    supabase
+      .from('bio_link_pages')
+      .select('id, title, slug')
+      .is('deleted_at', null)
+      .order('title', { ascending: true }),
+  ]);
+
+  if (profilesResult.error || pagesResult.error) {
+    console.error(
+      'Failed to list contact sources:',
+      profilesResult.error?.message ?? pagesResult.error?.message
+    );
+    return NextResponse.json(
+      { error: 'Failed to list contact sources' },
+      { status: 500 }
+    );
+  }
+
+  const profiles = (profilesResult.data ?? []) as ProfileWithPeople[];
+  const people = profiles.flatMap((profile) =>
+    [...(profile.brand_people ?? [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((person) => ({
+        id: person.id,
+        full_name: person.full_name,
+        role: person.role ?? null,
+        profile_name: profile.name,
+      }))
+  );
+
+  return NextResponse.json({
+    people,
+    bio_pages: pagesResult.data ?? [],
+  }, {
+    headers: getRateLimitHeaders(rateLimit),
+  });
+}
@@ -1,13 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { validateUrlStrict } from '@/lib/security/url-validator-strict';
 import { checkQrCreateLimit, checkApiLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
-import { createQRSchema } from '@/validations/qr';
-import { writeAuditLog } from '@/lib/audit';
 import { getPersonalOrgId } from '@/lib/org/get-personal-org';
 import { getActiveOrgPlan } from '@/lib/org/get-active-org-plan';
-
-const MAX_SLUG_RETRIES = 3;
+import { createQRCode } from '@/lib/qr/create';
 
 /**
  * POST /api/qr - Create a new QR code
@@ -33,135 +29,29 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    // Validate input
-    const parsed = createQRSchema.safeParse(body);
-    if (!parsed.success) {
-      return NextResponse.json(
-        { error: 'Validation error', details: parsed.error.flatten() },
-        { status: 400 }
-      );
-    }
-
-    const { name, mode, destination_url, slug, carrier, analytics_enabled, style } = parsed.data;
-
-    // Pro-gate: only Pro orgs may set carrier != 'qr'
-    if (carrier !== 'qr') {
-      const plan = await getActiveOrgPlan(supabase, user.id);
-      if (plan !== 'pro') {
-        return NextResponse.json(
-          { error: 'pro_plan_required' },
-          { status: 403 }
-        );
-      }
-    }
-
-    // Validate URL with DNS resolution (SSRF prevention)
-    const urlValidation = await validateUrlStrict(destination_url);
-    if (!urlValidation.isValid) {
-      return NextResponse.json(
-        { error: urlValidation.error },
-        { status: 400 }
-      );
-    }
-
-    // Generate slug and create QR code with retry logic for slug collisions
-    let finalSlug = slug;
-    let qr: { id: string } | null = null;
-
-    for (let attempt = 0; attempt < MAX_SLUG_RETRIES; attempt++) {
-      // Generate slug if managed mode and not provided (or after collision)
-      if (mode === 'managed' && !finalSlug) {
-        const { data: slugData, error: slugError } = await supabase
-          .rpc('generate_qr_unique_slug');
-
-        if (slugError) {
-          return NextResponse.json(
-            { error: 'Failed to generate slug' },
-            { status: 500 }
-          );
-        }
-        finalSlug = slugData;
-      }
-
-      // Create QR code
-      const orgId = await getPersonalOrgId(supabase, user.id);
-
-      const { data: created, error: createError } = await supabase
-        .from('qr_codes')
-        .insert({
-          owner_id: user.id,
-          org_id: orgId,
-          name,
-          mode,
-          slug: mode === 'managed' ? finalSlug : null,
-          carrier,
-          destination_url: urlValidation.normalizedUrl,
-          analytics_enabled: mode === 'managed' ? analytics_enabled : false,
-        })
-        .select()
-        .single();
-
-      if (createError) {
-        // Unique violation — retry with a new slug
-        if (createError.code === '23505' && mode === 'managed') {
-          finalSlug = undefined;
-          continue;
-        }
-        console.error('Failed to create QR:', createError.message);
-        return NextResponse.json(
-          { error: 'Failed to create QR code' },
-          { status: 500 }
-        );
-      }
-
-      qr = created;
-      break;
-    }
-
-    if (!qr) {
+    const result = await createQRCode({
+      supabase,
+      ownerId: user.id,
+      orgId: await getPersonalOrgId(supabase, user.id),
+      input: body,
+      getPlan: () => getActiveOrgPlan(supabase, user.id),
+      audit: {
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || null,
+        userAgent: request.headers.get('user-agent') || null,
+      },
+    });
+    if (!result.ok) {
       return NextResponse.json(
-        { error: 'Failed to create QR code after multiple attempts' },
-        { status: 500 }
+        { error: result.error, details: result.details },
+        { status: result.status }
       );
     }
 
-    // Update style if provided
-    if (style && Object.keys(style).length > 0) {
-      const styleUpdate: Record<string, unknown> = {};
-      if (style.foreground_color) styleUpdate.foreground_color = style.foreground_color;
-      if (style.background_color) styleUpdate.background_color = style.background_color;
-      if (style.error_correction) styleUpdate.error_correction = style.error_correction;
-      if (style.quiet_zone !== undefined) styleUpdate.quiet_zone = style.quiet_zone;
-      if (style.module_shape) styleUpdate.module_shape = style.module_shape;
-      if (style.eye_shape) styleUpdate.eye_shape = style.eye_shape;
-
-      if (Object.keys(styleUpdate).length > 0) {
-        await supabase
-          .from('qr_styles')
-          .update(styleUpdate)
-          .eq('qr_id', qr.id);
-      }
-    }
-
-    // Write audit log (fire-and-forget)
-    writeAuditLog({
-      qrId: qr.id,
-      actorId: user.id,
-      action: 'created',
-      newValue: { name, mode, destination_url: urlValidation.normalizedUrl, slug: finalSlug },
-      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || null,
-      userAgent: request.headers.get('user-agent') || null,
-    });
-
-    // Build response
-    const redirectUrl = mode === 'managed'
-      ? `${process.env.NEXT_PUBLIC_APP_URL || ''}/r/${finalSlug}`
-      : null;
-
     return NextResponse.json({
-      id: qr.id,
-      slug: finalSlug,
-      redirect_url: redirectUrl,
+      id: result.id,
+      slug: result.slug,
+      redirect_url: result.redirect_url,
+      nfc_url: result.nfc_url,
     }, {
       status: 201,
       headers: getRateLimitHeaders(rateLimit),
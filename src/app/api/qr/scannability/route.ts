@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkExportLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { scannabilityCheckSchema } from '@/validations/qr';
+import { styleRowToConfig } from '@/lib/qr/style';
+import { prepareBackgroundImage } from '@/lib/qr/background-image';
+import { checkScannability } from '@/lib/qr/scannability';
+
+// sharp needs the Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/qr/scannability - Check that a styled QR code decodes
+ *
+ * Body: { content, style?, logo_mode? }
+ *
+ * Renders the code as exports would at several sizes and blur levels and
+ * decodes each render (see lib/qr/scannability.ts). Returns the report;
+ * editors show it before export and warn when it fails.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+
+  // Check authentication
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Rasterising and decoding is CPU-bound, so it shares the export limit
+  const rateLimit = checkExportLimit(user.id);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    const parsed = scannabilityCheckSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { content, style, logo_mode } = parsed.data;
+
+    // Check the background as exports will draw it: re-encoded by sharp
+    let backgroundImage: string | undefined;
+    if (style.background_mode === 'image' && style.background_image) {
+      const prepared = await prepareBackgroundImage(style.background_image);
+      if (!prepared) {
+        return NextResponse.json(
+          { error: 'Background image could not be read' },
+          { status: 400 }
+        );
+      }
+      backgroundImage = `data:image/jpeg;base64,${prepared.toString('base64')}`;
+    }
+
+    const config = { ...styleRowToConfig(style, backgroundImage), logoMode: logo_mode };
+    const report = await checkScannability(content, config);
+
+    return NextResponse.json(report, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+  } catch (error) {
+    console.error('Scannability check failed:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
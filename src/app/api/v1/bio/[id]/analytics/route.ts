@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import { getBioAnalyticsSummary } from '@/lib/analytics/bio-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+
+/**
+ * GET /api/v1/bio/[id]/analytics
+ *
+ * Auth: API key with the `read` scope.
+ * Query: period = 7d | 30d | 90d (default 30d), or from/to = YYYY-MM-DD
+ *   for a custom range (at most 366 days). Days are local to the org's
+ *   default_timezone. bots = include counts bot, link-preview and
+ *   prefetch views too.
+ *
+ * Same payload as the dashboard's /api/bio/[id]/analytics.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, 'read');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  try {
+    const { data: page, error: pageError } = await supabase
+      .from('bio_link_pages')
+      .select('id, total_views, bot_views, organizations(default_timezone)')
+      .eq('id', id)
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pageError || !page) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    // Bucket days in the org's timezone
+    const org = Array.isArray(page.organizations) ? page.organizations[0] : page.organizations;
+    const range = parseAnalyticsRange(
+      new URL(request.url).searchParams,
+      (org as { default_timezone: string | null } | null)?.default_timezone,
+    );
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const summary = await getBioAnalyticsSummary(supabase, page, range);
+
+    return NextResponse.json(summary, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+
+/**
+ * GET /api/v1/bio/[id] - Get a bio page with its links and blocks
+ *
+ * Auth: API key with the `read` scope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, 'read');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid bio page ID' }, { status: 400 });
+  }
+
+  try {
+    const { data: page, error } = await supabase
+      .from('bio_link_pages')
+      .select('*, bio_link_items(*), bio_blocks(*)')
+      .eq('id', id)
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .order('sort_order', { referencedTable: 'bio_link_items', ascending: true })
+      .order('sort_order', { referencedTable: 'bio_blocks', ascending: true })
+      .single();
+
+    if (error || !page) {
+      return NextResponse.json({ error: 'Bio page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(page, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
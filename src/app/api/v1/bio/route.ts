@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { getRateLimitHeaders } from '@/lib/security/rate-limiter';
+
+/**
+ * GET /api/v1/bio - List the organisation's bio pages with their links
+ *
+ * Auth: API key with the `read` scope.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, 'read');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  try {
+    const { data: pages, error } = await supabase
+      .from('bio_link_pages')
+      .select('*, bio_link_items(*)')
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('sort_order', { referencedTable: 'bio_link_items', ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch bio pages:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to fetch bio pages' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: pages ?? [] }, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
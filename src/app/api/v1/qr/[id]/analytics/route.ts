@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { isValidUUID } from '@/validations/qr';
+import { getQRAnalyticsSummary } from '@/lib/analytics/qr-summary';
+import { parseAnalyticsRange } from '@/lib/analytics/rollups';
+
+/**
+ * GET /api/v1/qr/[id]/analytics
+ *
+ * Auth: API key with the `read` scope.
+ * Query: period = 7d | 30d | 90d (default 30d), or from/to = YYYY-MM-DD
+ *   for a custom range (at most 366 days). Days are local to the org's
+ *   default_timezone. bots = include counts bot, link-preview and
+ *   prefetch scans too.
+ *
+ * Same payload as the dashboard's /api/qr/[id]/analytics.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, 'read');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid QR code ID' }, { status: 400 });
+  }
+
+  try {
+    const { data: qr, error: qrError } = await supabase
+      .from('qr_codes')
+      .select('id, total_scans, bot_scans, analytics_enabled, destination_variants, organizations(default_timezone)')
+      .eq('id', id)
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .single();
+
+    if (qrError || !qr) {
+      return NextResponse.json({ error: 'QR code not found' }, { status: 404 });
+    }
+
+    if (!qr.analytics_enabled) {
+      return NextResponse.json(
+        { error: 'Analytics not enabled for this QR code' },
+        { status: 400 }
+      );
+    }
+
+    // Bucket days in the org's timezone
+    const org = Array.isArray(qr.organizations) ? qr.organizations[0] : qr.organizations;
+    const range = parseAnalyticsRange(
+      new URL(request.url).searchParams,
+      (org as { default_timezone: string | null } | null)?.default_timezone,
+    );
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const summary = await getQRAnalyticsSummary(supabase, qr, range);
+
+    return NextResponse.json(summary, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { validateUrlStrict } from '@/lib/security/url-validator-strict';
+import { getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { apiUpdateQRSchema, isValidUUID } from '@/validations/qr';
+import { writeAuditLog, determineUpdateAction } from '@/lib/audit';
+import { symbologyCarriesUrl } from '@/lib/qr/barcode-content';
+
+/**
+ * GET /api/v1/qr/[id] - Get a single QR code with its style
+ *
+ * Auth: API key with the `read` scope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, 'read');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid QR code ID' }, { status: 400 });
+  }
+
+  try {
+    const { data: qr, error } = await supabase
+      .from('qr_codes')
+      .select('*, qr_styles(*)')
+      .eq('id', id)
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .single();
+
+    if (error || !qr) {
+      return NextResponse.json({ error: 'QR code not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(qr, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/qr/[id] - Update a QR code
+ *
+ * Auth: API key with the `write` scope.
+ * Body: { name?, destination_url?, is_active?, analytics_enabled? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, 'write');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid QR code ID' }, { status: 400 });
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const parsed = apiUpdateQRSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation error', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: existingQr, error: fetchError } = await supabase
+      .from('qr_codes')
+      .select('id, symbology, payload_type, destination_url, name, is_active')
+      .eq('id', id)
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .single();
+
+    if (fetchError || !existingQr) {
+      return NextResponse.json({ error: 'QR code not found' }, { status: 404 });
+    }
+
+    const qrUpdate: Record<string, unknown> = {};
+
+    if (parsed.data.destination_url) {
+      // EAN-13 / UPC-A encode their GTIN, and payload codes their built
+      // content (vCard, Wi-Fi, …), not a URL
+      if (!symbologyCarriesUrl(existingQr.symbology)) {
+        return NextResponse.json(
+          { error: 'EAN-13 and UPC-A codes have no destination URL' },
+          { status: 400 }
+        );
+      }
+      if (existingQr.payload_type !== 'url') {
+        return NextResponse.json(
+          { error: 'Codes with structured content have no destination URL' },
+          { status: 400 }
+        );
+      }
+      // Strict (DNS-resolving) validation — API callers are less trusted
+      // than the dashboard, which previews the URL before saving
+      const urlValidation = await validateUrlStrict(parsed.data.destination_url);
+      if (!urlValidation.isValid) {
+        return NextResponse.json(
+          { error: urlValidation.error },
+          { status: 400 }
+        );
+      }
+      qrUpdate.destination_url = urlValidation.normalizedUrl;
+    }
+    if (parsed.data.name) qrUpdate.name = parsed.data.name;
+    if (parsed.data.is_active !== undefined) qrUpdate.is_active = parsed.data.is_active;
+    if (parsed.data.analytics_enabled !== undefined) {
+      qrUpdate.analytics_enabled = parsed.data.analytics_enabled;
+    }
+
+    if (Object.keys(qrUpdate).length > 0) {
+      const { error: updateError } = await supabase
+        .from('qr_codes')
+        .update(qrUpdate)
+        .eq('id', id)
+        .eq('org_id', key.orgId);
+
+      if (updateError) {
+        console.error('Failed to update QR:', updateError.message);
+        return NextResponse.json(
+          { error: 'Failed to update QR code' },
+          { status: 500 }
+        );
+      }
+
+      // Write audit log (fire-and-forget)
+      writeAuditLog({
+        qrId: id,
+        actorId: key.createdBy,
+        action: determineUpdateAction(qrUpdate, {}),
+        previousValue: {
+          destination_url: existingQr.destination_url,
+          name: existingQr.name,
+          is_active: existingQr.is_active,
+        },
+        newValue: { ...qrUpdate, api_key_id: key.keyId },
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || null,
+        userAgent: request.headers.get('user-agent') || null,
+      });
+    }
+
+    const { data: updatedQr } = await supabase
+      .from('qr_codes')
+      .select('*, qr_styles(*)')
+      .eq('id', id)
+      .single();
+
+    return NextResponse.json(updatedQr, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/qr/[id] - Soft-delete a QR code
+ *
+ * Auth: API key with the `write` scope.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, 'write');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: 'Invalid QR code ID' }, { status: 400 });
+  }
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('qr_codes')
+      .update({
+        deleted_at: new Date().toISOString(),
+        is_active: false,
+      })
+      .eq('id', id)
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to delete QR:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to delete QR code' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'QR code not found' }, { status: 404 });
+    }
+
+    // Write audit log (fire-and-forget)
+    writeAuditLog({
+      qrId: id,
+      actorId: key.createdBy,
+      action: 'deleted',
+      newValue: { api_key_id: key.keyId },
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || null,
+      userAgent: request.headers.get('user-agent') || null,
+    });
+
+    return new NextResponse(null, {
+      status: 204,
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys/authenticate';
+import { getRateLimitHeaders } from '@/lib/security/rate-limiter';
+import { getOrgPlan } from '@/lib/org/entitlements';
+import { createQRCode } from '@/lib/qr/create';
+
+/**
+ * GET /api/v1/qr - List the organisation's QR codes
+ *
+ * Auth: API key with the `read` scope.
+ * Query: limit (1-100, default 50), offset (default 0)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, 'read');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const { data: qrCodes, error, count } = await supabase
+      .from('qr_codes')
+      .select('*, qr_styles(*)', { count: 'exact' })
+      .eq('org_id', key.orgId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Failed to fetch QR codes:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to fetch QR codes' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: qrCodes,
+      pagination: {
+        total: count,
+        limit,
+        offset,
+      },
+    }, {
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/qr - Create a QR code in the organisation
+ *
+ * Auth: API key with the `write` scope.
+ * Body: same as POST /api/qr. The code is owned by the user who created
+ * the key.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiKey(request, 'write');
+  if (!auth.ok) return auth.response;
+  const { key, supabase, rateLimit } = auth;
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const result = await createQRCode({
+      supabase,
+      ownerId: key.createdBy,
+      orgId: key.orgId,
+      input: body,
+      getPlan: () => getOrgPlan(supabase, key.orgId),
+      audit: {
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || null,
+        userAgent: request.headers.get('user-agent') || null,
+        details: { api_key_id: key.keyId },
+      },
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, details: result.details },
+        { status: result.status }
+      );
+    }
+
+    const { data: createdQr } = await supabase
+      .from('qr_codes')
+      .select('*, qr_styles(*)')
+      .eq('id', result.id)
+      .single();
+
+    return NextResponse.json({
+      ...createdQr,
+      redirect_url: result.redirect_url,
+      nfc_url: result.nfc_url,
+    }, {
+      status: 201,
+      headers: getRateLimitHeaders(rateLimit),
+    });
+
+  } catch (error) {
+    console.error('API error:', error instanceof Error ? error.message : 'unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { listAlertEvents, listAlertRules } from '@/lib/alerts/queries';
+import { AlertRulesPanel } from '@/components/alerts/alert-rules-panel';
+
+export default async function AlertsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  const [{ data: roleRow }, { data: qrCodes }, { data: bioPages }, rules, events] = await Promise.all([
+    supabase
+      .from('organization_members')
+      .select('role')
+      .eq('org_id', activeOrgId)
+      .eq('user_id', user.id)
+      .single(),
+    supabase
+      .from('qr_codes')
+      .select('id, name')
+      .eq('org_id', activeOrgId)
+      .eq('mode', 'managed')
+      .order('name', { ascending: true }),
+    supabase
+      .from('bio_link_pages')
+      .select('id, title')
+      .eq('org_id', activeOrgId)
+      .is('deleted_at', null)
+      .order('title', { ascending: true }),
+    listAlertRules(supabase, activeOrgId),
+    listAlertEvents(supabase, activeOrgId),
+  ]);
+
+  const myRole = (roleRow?.role ?? 'member') as 'owner' | 'admin' | 'member';
+
+  return (
+    <div className="p-6">
+      <AlertRulesPanel
+        userId={user.id}
+        myRole={myRole}
+        rules={rules}
+        events={events}
+        qrCodes={qrCodes ?? []}
+        bioPages={bioPages ?? []}
+      />
+    </div>
+  );
+}
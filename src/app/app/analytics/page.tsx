@@ -0,0 +1,34 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { OrgAnalyticsPanel } from '@/components/analytics/org-analytics-panel';
+
+export default async function AnalyticsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8">
+      <OrgAnalyticsPanel />
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { createClient } from '@/lib/supabase/server';
+import { getOrgPlan, orgHasFeature } from '@/lib/org/entitlements';
+import {
+  CUSTOM_DOMAIN_COLUMNS,
+  toCustomDomain,
+  type CustomDomainRow,
+} from '@/lib/domains/verification';
+import { CustomDomainSettings } from '@/components/bio/custom-domain-settings';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function BioCustomDomainPage({ params }: PageProps) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data: page, error } = await supabase
+    .from('bio_link_pages')
+    .select(`title, org_id, ${CUSTOM_DOMAIN_COLUMNS}`)
+    .eq('id', id)
+    .eq('owner_id', user!.id)
+    .is('deleted_at', null)
+    .single();
+
+  if (error || !page) {
+    notFound();
+  }
+
+  const row = page as unknown as CustomDomainRow & { title: string; org_id: string | null };
+  const plan = await getOrgPlan(supabase, row.org_id);
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto">
+      <div className="mb-8">
+        <Link
+          href={`/app/bio/${row.id}`}
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          back to editor
+        </Link>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Custom domain</h1>
+        <p className="mt-1 text-sm text-zinc-400">
+          Serve {row.title} on your own domain, like links.yourbusiness.com.
+        </p>
+      </div>
+
+      <CustomDomainSettings
+        pageId={row.id}
+        isPro={orgHasFeature(plan, 'custom_domains')}
+        initialDomain={toCustomDomain(row)}
+        initialError={row.custom_domain_error}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { createClient } from '@/lib/supabase/server';
+import { LeadRoutingSettings, type LeadFormBlock } from '@/components/bio/lead-routing-settings';
+import type {
+  BioBlockContentContactForm,
+  BioBlockContentReviewFunnel,
+  BioLeadRouting,
+} from '@/types/bio';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function BioLeadRoutingPage({ params }: PageProps) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data: page, error } = await supabase
+    .from('bio_link_pages')
+    .select('id, title, contact_email, lead_routing')
+    .eq('id', id)
+    .eq('owner_id', user!.id)
+    .is('deleted_at', null)
+    .single();
+
+  if (error || !page) {
+    notFound();
+  }
+
+  // Forms on the page, for per-block overrides
+  const { data: blockData } = await supabase
+    .from('bio_blocks')
+    .select('id, block_type, content')
+    .eq('page_id', id)
+    .in('block_type', ['contact_form', 'review_funnel'])
+    .order('grid_row', { ascending: true })
+    .order('grid_col', { ascending: true });
+
+  const formBlocks: LeadFormBlock[] = (blockData ?? []).map((block, i) => {
+    const title =
+      block.block_type === 'review_funnel'
+        ? (block.content as BioBlockContentReviewFunnel).feedback_title
+        : (block.content as BioBlockContentContactForm).form_title;
+    const kind = block.block_type === 'review_funnel' ? 'Review funnel' : 'Contact form';
+    return { id: block.id, label: title ? `${kind}: ${title}` : `${kind} ${i + 1}` };
+  });
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto">
+      <div className="mb-8">
+        <Link
+          href={`/app/bio/${page.id}`}
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          back to editor
+        </Link>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Lead routing</h1>
+        <p className="mt-1 text-sm text-zinc-400">
+          Who hears about form submissions on {page.title}, and what the sender gets back.
+        </p>
+      </div>
+
+      <LeadRoutingSettings
+        pageId={page.id}
+        fallbackEmail={page.contact_email}
+        initialRouting={page.lead_routing as BioLeadRouting | null}
+        formBlocks={formBlocks}
+      />
+    </div>
+  );
+}
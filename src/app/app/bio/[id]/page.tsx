@@ -4,6 +4,7 @@ import { ArrowLeft } from 'lucide-react';
 import { createClient } from '@/lib/supabase/server';
 import { Badge } from '@/components/ui';
 import { BioDetailClient } from '@/components/bio/bio-detail-client';
+import { getOrgPlan, getPlanEntitlements } from '@/lib/org/entitlements';
 import type { BioLinkPage, BioLinkItem, BioBlock } from '@/types/bio';
 
 interface PageProps {
@@ -49,6 +50,8 @@ export default async function BioDetailPage({ params }: PageProps) {
     }
   }
 
+  const { limits } = getPlanEntitlements(await getOrgPlan(supabase, bioPage.org_id));
+
   return (
     <div className="p-8 max-w-6xl mx-auto">
       {/* Header */}
@@ -78,6 +81,7 @@ export default async function BioDetailPage({ params }: PageProps) {
         page={bioPage}
         items={bioPage.bio_link_items || []}
         blocks={blocks}
+        limits={limits}
       />
     </div>
   );
@@ -7,11 +7,11 @@ import { Button, Card, CardContent, Badge, useToast } from '@/components/ui';
 import { formatDate, formatNumber } from '@/lib/utils';
 import { BIO_THEME_DEFINITIONS } from '@/lib/bio/themes';
 import { THEME_CONFIGS } from '@/lib/bio/theme-definitions';
-import { BIO_DEFAULTS } from '@/lib/constants';
 import type { BioLinkPage, BioLinkTheme } from '@/types/bio';
 
 export default function BioPage() {
   const [pages, setPages] = useState<BioLinkPage[]>([]);
+  const [pageLimit, setPageLimit] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const { addToast } = useToast();
@@ -25,6 +25,7 @@ export default function BioPage() {
       const res = await fetch('/api/bio');
       const json = await res.json();
       setPages(json.data || []);
+      setPageLimit(json.page_limit ?? null);
     } catch {
       addToast({ title: 'Failed to load bio pages', variant: 'error' });
     } finally {
@@ -72,7 +73,7 @@ export default function BioPage() {
     );
   }
 
-  const canCreate = pages.length < BIO_DEFAULTS.MAX_PAGES_PER_USER;
+  const canCreate = pageLimit === null || pages.length < pageLimit;
 
   return (
     <div className="p-4 md:p-8">
@@ -109,7 +110,7 @@ export default function BioPage() {
           ))}
 
           <p className="text-xs text-muted-foreground text-right">
-            {pages.length} / {BIO_DEFAULTS.MAX_PAGES_PER_USER} pages
+            {pageLimit === null ? pages.length : `${pages.length} / ${pageLimit}`} pages
           </p>
         </div>
       )}
@@ -0,0 +1,42 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { SubmissionsInbox } from '@/components/inbox/submissions-inbox';
+
+export default async function InboxPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  // Pages for the filter dropdown
+  const { data: pages } = await supabase
+    .from('bio_link_pages')
+    .select('id, title')
+    .eq('org_id', activeOrgId)
+    .is('deleted_at', null)
+    .order('title', { ascending: true });
+
+  return (
+    <div className="p-4 md:p-8">
+      <SubmissionsInbox pages={pages ?? []} />
+    </div>
+  );
+}
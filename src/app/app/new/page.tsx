@@ -12,32 +12,51 @@ import {
   CardHeader,
   CardTitle,
   CardContent,
+  Select,
   useToast,
 } from '@/components/ui';
 import { CarrierCard } from '@/components/qr/carrier-card';
 import { QRPreview } from '@/components/qr/qr-preview';
 import { StylePanel } from '@/components/qr/style-panel';
+import { ContactSourcePicker } from '@/components/qr/contact-source-picker';
 import { validateUrl } from '@/lib/security/url-validator';
-import { QR_DEFAULTS } from '@/lib/constants';
-import type { QRStyleConfig, QRCarrier } from '@/types/qr';
+import { styleConfigToInput } from '@/lib/qr/style';
+import { QR_DEFAULTS, CODE_SYMBOLOGIES, SYMBOLOGY_INFO } from '@/lib/constants';
+import type { QRStyleConfig, QRCarrier, CodeSymbology, ContactSource } from '@/types/qr';
+
+// EAN-13 and UPC-A hold a product number, not a URL, so they're direct-only
+const MANAGED_SYMBOLOGIES = CODE_SYMBOLOGIES.filter((id) => SYMBOLOGY_INFO[id].carriesUrl);
+import type { PlanEntitlements } from '@/lib/org/entitlements';
 
 function CreateLinkForm() {
   const router = useRouter();
   const search = useSearchParams();
   const { addToast } = useToast();
 
-  // Prefill destination URL if passed from the direct-qr page
+  // Prefill destination URL if passed from the direct-qr page, or the
+  // contact from the brand kit's "contact QR" link
   const prefilledUrl = search.get('url') ?? '';
+  const prefilledPerson = search.get('contact_person');
+  const prefilledBioPage = search.get('contact_bio_page');
+  const prefilledContact: ContactSource | null = prefilledPerson
+    ? { person_id: prefilledPerson }
+    : prefilledBioPage
+      ? { bio_page_id: prefilledBioPage }
+      : null;
 
   // Form state
   const [name, setName] = useState('');
   const [destinationUrl, setDestinationUrl] = useState(prefilledUrl);
+  // What a scan opens: the destination URL, or a contact card (.vcf)
+  const [opens, setOpens] = useState<'url' | 'contact'>(prefilledContact ? 'contact' : 'url');
+  const [contact, setContact] = useState<ContactSource | null>(prefilledContact);
   const [slug, setSlug] = useState('');
   const [analyticsEnabled, setAnalyticsEnabled] = useState(true);
   const [nfcEnabled, setNfcEnabled] = useState(false);
+  const [symbology, setSymbology] = useState<CodeSymbology>('qr');
 
-  // Plan state (fetched on mount)
-  const [plan, setPlan] = useState<'free' | 'pro'>('free');
+  // Plan entitlement (fetched on mount)
+  const [nfcAllowed, setNfcAllowed] = useState(false);
 
   // Style state
   const [style, setStyle] = useState<QRStyleConfig>({
@@ -55,15 +74,17 @@ function CreateLinkForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [urlError, setUrlError] = useState<string | null>(null);
 
-  // Fetch current org plan on mount
+  // Fetch current org entitlements on mount
   useEffect(() => {
     fetch('/api/org/current-plan')
       .then((r) => r.json())
-      .then((data) => {
-        if (data?.plan === 'pro') setPlan('pro');
+      .then((data: { entitlements?: PlanEntitlements }) => {
+        // null = unlimited; 0 = not included in the plan
+        const limit = data?.entitlements?.limits.nfc_carriers;
+        if (limit === null || (limit ?? 0) > 0) setNfcAllowed(true);
       })
       .catch(() => {
-        // Leave plan as 'free' on error — Pro features stay gated
+        // Leave NFC locked on error — Pro features stay gated
       });
   }, []);
 
@@ -81,16 +102,16 @@ function CreateLinkForm() {
     `${process.env.NEXT_PUBLIC_APP_URL || 'https://example.com'}/r/${slug || 'preview'}`;
 
   // Derive carrier intent from toggled sections
-  const carrier: QRCarrier = nfcEnabled && plan === 'pro' ? 'both' : 'qr';
+  const carrier: QRCarrier = nfcEnabled && nfcAllowed ? 'both' : 'qr';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!name || !destinationUrl) {
+    if (!name || (opens === 'url' ? !destinationUrl : !contact)) {
       addToast({ title: 'Please fill in all required fields', variant: 'error' });
       return;
     }
-    if (urlError) {
+    if (opens === 'url' && urlError) {
       addToast({ title: 'Please fix the URL error', variant: 'error' });
       return;
     }
@@ -103,18 +124,12 @@ function CreateLinkForm() {
         body: JSON.stringify({
           name,
           mode: 'managed',
-          destination_url: destinationUrl,
+          symbology,
+          ...(opens === 'contact' ? { contact } : { destination_url: destinationUrl }),
           slug: slug || undefined,
           carrier,
           analytics_enabled: analyticsEnabled,
-          style: {
-            foreground_color: style.foregroundColor,
-            background_color: style.backgroundColor,
-            error_correction: style.errorCorrection,
-            quiet_zone: style.quietZone,
-            module_shape: style.moduleShape,
-            eye_shape: style.eyeShape,
-          },
+          style: styleConfigToInput(style),
         }),
       });
 
@@ -187,28 +202,44 @@ function CreateLinkForm() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="url">Destination URL *</Label>
-                  <div className="relative">
-                    <Link2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="url"
-                      type="url"
-                      placeholder="https://example.com/menu"
-                      value={destinationUrl}
-                      onChange={(e) => setDestinationUrl(e.target.value)}
-                      className="pl-10"
-                      error={!!urlError}
-                      required
-                    />
-                  </div>
-                  {urlError && (
-                    <p className="text-xs text-destructive flex items-center gap-1">
-                      <AlertCircle className="h-3 w-3" />
-                      {urlError}
-                    </p>
-                  )}
+                  <Label htmlFor="opens">Opens</Label>
+                  <Select
+                    id="opens"
+                    value={opens}
+                    onChange={(e) => setOpens(e.target.value as 'url' | 'contact')}
+                  >
+                    <option value="url">A website</option>
+                    <option value="contact">A contact card — saves a person to the phone</option>
+                  </Select>
                 </div>
 
+                {opens === 'contact' ? (
+                  <ContactSourcePicker value={contact} onChange={setContact} />
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="url">Destination URL *</Label>
+                    <div className="relative">
+                      <Link2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="url"
+                        type="url"
+                        placeholder="https://example.com/menu"
+                        value={destinationUrl}
+                        onChange={(e) => setDestinationUrl(e.target.value)}
+                        className="pl-10"
+                        error={!!urlError}
+                        required
+                      />
+                    </div>
+                    {urlError && (
+                      <p className="text-xs text-destructive flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {urlError}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="slug">Custom slug (optional)</Label>
                   <div className="flex items-center gap-2">
@@ -243,13 +274,32 @@ function CreateLinkForm() {
 
             {/* QR carrier */}
             <CarrierCard variant="qr">
-              <StylePanel style={style} onChange={setStyle} />
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="symbology">code type</Label>
+                  <Select
+                    id="symbology"
+                    value={symbology}
+                    onChange={(e) => setSymbology(e.target.value as CodeSymbology)}
+                  >
+                    {MANAGED_SYMBOLOGIES.map((id) => (
+                      <option key={id} value={id}>
+                        {SYMBOLOGY_INFO[id].label} — {SYMBOLOGY_INFO[id].description}
+                      </option>
+                    ))}
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Every type encodes the same managed Link. Product barcodes (EAN-13, UPC-A) are one-off only.
+                  </p>
+                </div>
+                <StylePanel style={style} onChange={setStyle} symbology={symbology} content={previewUrl} />
+              </div>
             </CarrierCard>
 
             {/* NFC carrier */}
             <CarrierCard
               variant="nfc"
-              plan={plan}
+              locked={!nfcAllowed}
               enabled={nfcEnabled}
               onEnabledChange={setNfcEnabled}
             >
@@ -276,6 +326,14 @@ function CreateLinkForm() {
               >
                 Generate a direct QR
               </Link>
+              {' · '}
+              Need lots at once?{' '}
+              <Link
+                href="/app/qr/bulk"
+                className="text-lynx-400 hover:text-lynx-300 underline"
+              >
+                Bulk create from CSV
+              </Link>
             </div>
           </div>
 
@@ -285,7 +343,7 @@ function CreateLinkForm() {
                 <CardTitle className="text-base">Preview</CardTitle>
               </CardHeader>
               <CardContent>
-                <QRPreview data={previewUrl || 'https://example.com'} style={style} />
+                <QRPreview data={previewUrl || 'https://example.com'} style={style} symbology={symbology} />
                 <p className="mt-4 text-xs text-center text-muted-foreground">
                   Encodes your managed Link URL
                 </p>
@@ -298,7 +356,7 @@ function CreateLinkForm() {
                   Cancel
                 </Button>
               </Link>
-              <Button type="submit" className="flex-1" disabled={isLoading || !!urlError}>
+              <Button type="submit" className="flex-1" disabled={isLoading || (opens === 'url' && !!urlError)}>
                 {isLoading ? 'Creating…' : 'Create Link'}
               </Button>
             </div>
@@ -98,6 +98,7 @@ export default async function DashboardPage() {
           carrier: qr.carrier ?? 'qr',
           slug: qr.slug,
           destination_url: qr.destination_url,
+          payload_type: qr.payload_type ?? 'url',
           is_active: qr.is_active,
           total_scans: qr.total_scans ?? 0,
           created_at: qr.created_at,
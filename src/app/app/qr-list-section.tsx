@@ -6,7 +6,8 @@ import { Card, CardContent } from '@/components/ui';
 import { formatDate, formatNumber } from '@/lib/utils';
 import { LinkListFilter } from '@/components/qr/link-list-filter';
 import { QRDeleteButton } from '@/components/qr/qr-delete-button';
-import type { QRCarrier, QRMode } from '@/types/qr';
+import { QR_PAYLOADS } from '@/lib/constants';
+import type { QRCarrier, QRMode, QRPayloadType } from '@/types/qr';
 
 export interface QRRow {
   id: string;
@@ -15,11 +16,18 @@ export interface QRRow {
   carrier: QRCarrier;
   slug: string | null;
   destination_url: string;
+  payload_type: QRPayloadType;
   is_active: boolean;
   total_scans: number;
   created_at: string;
 }
 
+/** What a direct code encodes: its URL, or the payload kind (contact, Wi-Fi, …) */
+function describeDirect(qr: QRRow): string {
+  if (qr.payload_type === 'url') return qr.destination_url;
+  return QR_PAYLOADS.find((p) => p.id === qr.payload_type)?.label ?? qr.destination_url;
+}
+
 export function QRListSection({ qrCodes }: { qrCodes: QRRow[] }) {
   if (qrCodes.length === 0) {
     return (
@@ -41,7 +49,7 @@ export function QRListSection({ qrCodes }: { qrCodes: QRRow[] }) {
               <Link href={`/app/qr/${qr.id}`} className="flex-1 min-w-0">
                 <h3 className="font-semibold text-zinc-50 truncate">{qr.name}</h3>
                 <p className="text-xs text-zinc-500 mt-0.5 truncate">
-                  {qr.mode === 'managed' ? `/r/${qr.slug}` : qr.destination_url}
+                  {qr.mode === 'managed' ? `/r/${qr.slug}` : describeDirect(qr)}
                 </p>
               </Link>
               {badge}
@@ -10,6 +10,8 @@ import {
 import { QRDetailClient } from '@/components/qr/qr-detail-client';
 import { CarrierBadge } from '@/components/qr/carrier-badge';
 import { formatDate, formatNumber } from '@/lib/utils';
+import { carrierHasNfc, nfcRedirectUrl } from '@/lib/qr/medium';
+import { loadBackgroundImage } from '@/lib/qr/background-image';
 import type { QRCarrier } from '@/types/qr';
 
 interface PageProps {
@@ -24,7 +26,7 @@ export default async function QRDetailPage({ params }: PageProps) {
   // Fetch QR code with style
   const { data: qr, error } = await supabase
     .from('qr_codes')
-    .select('*, qr_styles(*)')
+    .select('*, qr_styles(*), organizations(default_timezone)')
     .eq('id', id)
     .eq('owner_id', user!.id)
     .single();
@@ -34,9 +36,37 @@ export default async function QRDetailPage({ params }: PageProps) {
   }
 
   const style = Array.isArray(qr.qr_styles) ? qr.qr_styles[0] : qr.qr_styles;
+  const org = Array.isArray(qr.organizations) ? qr.organizations[0] : qr.organizations;
   const redirectUrl = qr.mode === 'managed'
     ? `${process.env.NEXT_PUBLIC_APP_URL || ''}/r/${qr.slug}`
     : null;
+  const nfcUrl = redirectUrl && carrierHasNfc(qr.carrier) ? nfcRedirectUrl(redirectUrl) : null;
+
+  // Contact codes: who the served vCard describes, and where to edit them
+  let contactSource: { name: string; editHref: string } | null = null;
+  if (qr.contact_person_id) {
+    const { data: person } = await supabase
+      .from('brand_people')
+      .select('full_name, brand_profile_id')
+      .eq('id', qr.contact_person_id)
+      .single();
+    if (person) {
+      contactSource = { name: person.full_name, editHref: `/app/brand-kit/${person.brand_profile_id}` };
+    }
+  } else if (qr.contact_bio_page_id) {
+    const { data: page } = await supabase
+      .from('bio_link_pages')
+      .select('title')
+      .eq('id', qr.contact_bio_page_id)
+      .single();
+    if (page) {
+      contactSource = { name: page.title, editHref: `/app/bio/${qr.contact_bio_page_id}` };
+    }
+  }
+
+  const backgroundImage = style?.background_mode === 'image'
+    ? await loadBackgroundImage(supabase, style.background_image_storage_path)
+    : null;
 
   return (
     <div className="p-8 max-w-6xl mx-auto">
@@ -74,6 +104,10 @@ export default async function QRDetailPage({ params }: PageProps) {
         qr={qr}
         style={style}
         redirectUrl={redirectUrl}
+        nfcUrl={nfcUrl}
+        contactSource={contactSource}
+        backgroundImage={backgroundImage}
+        timeZone={org?.default_timezone ?? null}
       />
     </div>
   );
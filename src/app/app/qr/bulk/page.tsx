@@ -0,0 +1,413 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, AlertCircle, CheckCircle2, Download, FileUp } from 'lucide-react';
+import {
+  Button,
+  Label,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  useToast,
+} from '@/components/ui';
+import { QRPreview } from '@/components/qr/qr-preview';
+import { StylePanel } from '@/components/qr/style-panel';
+import { parseBulkCsv } from '@/lib/qr/bulk';
+import { QR_DEFAULTS } from '@/lib/constants';
+import { styleConfigToInput } from '@/lib/qr/style';
+import type { QRStyleConfig } from '@/types/qr';
+
+interface RowError {
+  line: number;
+  errors: string[];
+}
+
+interface CreatedRow {
+  line: number;
+  id: string;
+  name: string;
+  slug: string;
+  redirect_url: string;
+}
+
+type ExportFormat = 'svg' | 'png' | 'pdf';
+
+const SAMPLE_CSV = 'name,destination_url,slug\nTable 1,https://example.com/menu?table=1,\nTable 2,https://example.com/menu?table=2,\n';
+
+export default function BulkCreatePage() {
+  const { addToast } = useToast();
+
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [analyticsEnabled, setAnalyticsEnabled] = useState(true);
+  const [style, setStyle] = useState<QRStyleConfig>({
+    foregroundColor: '#000000',
+    backgroundColor: '#FFFFFF',
+    errorCorrection: 'M',
+    quietZone: QR_DEFAULTS.QUIET_ZONE,
+    moduleShape: 'square',
+    eyeShape: 'square',
+    logoMode: 'none',
+    logoDataUrl: undefined,
+    logoSizeRatio: QR_DEFAULTS.DEFAULT_LOGO_RATIO,
+  });
+
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+  const [checkedOk, setCheckedOk] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedRow[] | null>(null);
+  const [failed, setFailed] = useState<Array<{ line: number; error: string }>>([]);
+  const [styleError, setStyleError] = useState<string | null>(null);
+  const [formats, setFormats] = useState<ExportFormat[]>(['svg', 'png', 'pdf']);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Client-side parse for the row count and header check; the server
+  // re-parses and does the real validation
+  const localParse = useMemo(() => (csv.trim() ? parseBulkCsv(csv) : null), [csv]);
+  const rowCount = localParse?.ok ? localParse.rows.length : 0;
+  const tooMany = rowCount > QR_DEFAULTS.MAX_BULK_ROWS;
+
+  const previewUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://example.com'}/r/preview`;
+
+  const resetReport = () => {
+    setRowErrors([]);
+    setCheckedOk(false);
+  };
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > QR_DEFAULTS.MAX_BULK_CSV_BYTES) {
+      addToast({ title: 'File is too large', description: 'CSV must be under 1 MB', variant: 'error' });
+      return;
+    }
+    setCsv(await file.text());
+    setFileName(file.name);
+    resetReport();
+  };
+
+  const stylePayload = () => styleConfigToInput(style);
+
+  const submit = async (dryRun: boolean) => {
+    const setBusy = dryRun ? setIsChecking : setIsCreating;
+    setBusy(true);
+    resetReport();
+    try {
+      const res = await fetch('/api/qr/bulk', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          csv,
+          analytics_enabled: analyticsEnabled,
+          style: stylePayload(),
+          dry_run: dryRun,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok && !Array.isArray(body.created)) {
+        if (Array.isArray(body.rows)) {
+          setRowErrors(body.rows);
+          addToast({
+            title: `${body.rows.length} of ${body.total} rows need fixing`,
+            variant: 'error',
+          });
+        } else {
+          addToast({ title: 'Bulk create failed', description: body.error || 'Unknown error', variant: 'error' });
+        }
+        return;
+      }
+
+      if (dryRun) {
+        setCheckedOk(true);
+        addToast({ title: `All ${body.total} rows are valid`, variant: 'success' });
+        return;
+      }
+
+      setCreated(body.created ?? []);
+      setFailed(body.failed ?? []);
+      setStyleError(body.style_error ?? null);
+      addToast({ title: `${body.created?.length ?? 0} QR codes created`, variant: 'success' });
+    } catch (error: any) {
+      addToast({ title: 'Bulk create failed', description: error.message, variant: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleFormat = (format: ExportFormat) => {
+    setFormats((prev) =>
+      prev.includes(format) ? prev.filter((f) => f !== format) : [...prev, format]
+    );
+  };
+
+  const downloadZip = async () => {
+    if (!created || created.length === 0) return;
+    setIsExporting(true);
+    try {
+      const requestZip = (allowUnscannable: boolean) =>
+        fetch('/api/qr/bulk/export', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({
+            ids: created.map((c) => c.id),
+            formats,
+            allow_unscannable: allowUnscannable,
+          }),
+        });
+
+      let res = await requestZip(false);
+      // The export scan-tests each style once; failures need confirming
+      if (res.status === 422) {
+        const body = await res.json().catch(() => ({}));
+        if (!Array.isArray(body.scan_failures)) throw new Error(body.error || 'Export failed');
+        const details = body.scan_failures
+          .map((f: { codes: string[]; score: number; issues: string[] }) =>
+            `${f.codes.length} code(s), score ${f.score}/100: ${f.issues.join('; ')}`
+          )
+          .join('\n');
+        if (!window.confirm(`Some codes failed the scan test.\n\n${details}\n\nDownload them anyway?`)) {
+          return;
+        }
+        res = await requestZip(true);
+      }
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || 'Export failed');
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `qr-codes-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      addToast({ title: 'Failed to export', description: error.message, variant: 'error' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      <div className="mb-8">
+        <Link
+          href="/app/new"
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          back to create
+        </Link>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Bulk create Links</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          Upload a CSV to create up to {QR_DEFAULTS.MAX_BULK_ROWS} managed QR codes at once, then
+          download them as a ZIP of print-ready files.
+        </p>
+      </div>
+
+      {created ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-lynx-400" />
+              {created.length} Links created
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {styleError && (
+              <div className="rounded-sm border border-destructive/40 p-3 text-sm">
+                <p className="font-medium text-destructive">{styleError}</p>
+              </div>
+            )}
+
+            {failed.length > 0 && (
+              <div className="rounded-sm border border-destructive/40 p-3 text-sm">
+                <p className="font-medium text-destructive mb-1">{failed.length} rows could not be created</p>
+                <ul className="space-y-0.5 text-xs text-muted-foreground">
+                  {failed.map((f) => (
+                    <li key={f.line}>Line {f.line}: {f.error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Formats</Label>
+              <div className="flex gap-4">
+                {(['svg', 'png', 'pdf'] as const).map((format) => (
+                  <label key={format} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formats.includes(format)}
+                      onChange={() => toggleFormat(format)}
+                      className="rounded border-input"
+                    />
+                    {format.toUpperCase()}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button onClick={downloadZip} disabled={isExporting || formats.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Building ZIP…' : 'Download ZIP'}
+            </Button>
+
+            <div className="max-h-96 overflow-y-auto border-t border-border pt-4 space-y-1">
+              {created.map((c) => (
+                <div key={c.id} className="flex items-center gap-3 text-sm py-1">
+                  <span className="w-12 shrink-0 text-xs text-muted-foreground tabular-nums">#{c.line}</span>
+                  <Link href={`/app/qr/${c.id}`} className="min-w-0 flex-1 truncate hover:text-lynx-300">
+                    {c.name}
+                  </Link>
+                  <span className="shrink-0 font-mono text-xs text-muted-foreground">/r/{c.slug}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">CSV file</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <label className="flex flex-col items-center justify-center gap-2 rounded-sm border border-dashed border-border p-6 text-sm text-muted-foreground cursor-pointer hover:bg-muted">
+                  <FileUp className="h-6 w-6" />
+                  {fileName ?? 'Choose a .csv file'}
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="sr-only"
+                    onChange={(e) => onFile(e.target.files?.[0])}
+                  />
+                </label>
+
+                <div className="space-y-2">
+                  <Label htmlFor="csv">Or paste CSV</Label>
+                  <textarea
+                    id="csv"
+                    value={csv}
+                    onChange={(e) => {
+                      setCsv(e.target.value);
+                      setFileName(null);
+                      resetReport();
+                    }}
+                    placeholder={SAMPLE_CSV}
+                    rows={8}
+                    className="w-full rounded-sm border border-input bg-background px-3 py-2 font-mono text-xs"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Columns: <span className="font-mono">name</span>,{' '}
+                    <span className="font-mono">destination_url</span>, and optionally{' '}
+                    <span className="font-mono">slug</span>. The first line must be the header.
+                  </p>
+                </div>
+
+                {localParse && !localParse.ok && (
+                  <p className="text-xs text-destructive flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {localParse.error}
+                  </p>
+                )}
+                {rowCount > 0 && (
+                  <p className={`text-xs ${tooMany ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {rowCount} rows
+                    {tooMany && ` — the limit is ${QR_DEFAULTS.MAX_BULK_ROWS} per batch`}
+                  </p>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="analytics"
+                    checked={analyticsEnabled}
+                    onChange={(e) => setAnalyticsEnabled(e.target.checked)}
+                    className="rounded border-input"
+                  />
+                  <Label htmlFor="analytics" className="text-sm font-normal cursor-pointer">
+                    Enable scan analytics
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+
+            {rowErrors.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base text-destructive">Rows to fix</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="max-h-80 overflow-y-auto space-y-2">
+                    {rowErrors.map((row) => (
+                      <div key={row.line} className="flex gap-3 text-sm border-b border-border pb-2 last:border-b-0">
+                        <span className="w-16 shrink-0 text-xs text-muted-foreground tabular-nums">Line {row.line}</span>
+                        <ul className="min-w-0 flex-1 space-y-0.5 text-xs">
+                          {row.errors.map((message, i) => (
+                            <li key={i}>{message}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Shared style</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StylePanel style={style} onChange={setStyle} content={previewUrl} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:sticky lg:top-8 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Preview</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <QRPreview data={previewUrl} style={style} />
+                <p className="mt-4 text-xs text-center text-muted-foreground">
+                  Every code in the batch uses this style
+                </p>
+              </CardContent>
+            </Card>
+
+            <div className="flex gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => submit(true)}
+                disabled={isChecking || isCreating || rowCount === 0 || tooMany}
+              >
+                {isChecking ? 'Checking…' : 'Check file'}
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={() => submit(false)}
+                disabled={isChecking || isCreating || rowCount === 0 || tooMany}
+              >
+                {isCreating
+                  ? 'Creating…'
+                  : checkedOk
+                    ? `Create ${rowCount} Links`
+                    : 'Create Links'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
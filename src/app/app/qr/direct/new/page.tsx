@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Link2, AlertCircle } from 'lucide-react';
@@ -12,14 +12,37 @@ import {
   CardHeader,
   CardTitle,
   CardContent,
+  Select,
   useToast,
 } from '@/components/ui';
 import { QRPreview } from '@/components/qr/qr-preview';
 import { StylePanel } from '@/components/qr/style-panel';
 import { DirectQRConfirmationModal } from '@/components/qr/direct-qr-confirmation-modal';
+import {
+  PayloadForm,
+  emptyDraft,
+  draftToPayload,
+  type PayloadDraft,
+  type StructuredPayloadType,
+} from '@/components/qr/payload-form';
 import { validateUrl } from '@/lib/security/url-validator';
-import { QR_DEFAULTS } from '@/lib/constants';
-import type { QRStyleConfig } from '@/types/qr';
+import { isBarcodeSymbology, validateBarcodeContent } from '@/lib/qr/barcode-content';
+import { buildPayload } from '@/lib/qr/payloads';
+import { styleConfigToInput } from '@/lib/qr/style';
+import { qrPayloadSchema } from '@/validations/qr';
+import { QR_DEFAULTS, CODE_SYMBOLOGIES, SYMBOLOGY_INFO, QR_PAYLOADS } from '@/lib/constants';
+import type { QRStyleConfig, CodeSymbology, QRPayload } from '@/types/qr';
+
+// Shown in the preview until something is entered
+const EXAMPLE_GTIN = { ean13: '5901234123457', upca: '036000291452' } as const;
+const EXAMPLE_PAYLOAD: Record<StructuredPayloadType, QRPayload> = {
+  vcard: { type: 'vcard', version: '3.0', first_name: 'Jo', last_name: 'Example', phone: '+442079460000' },
+  wifi: { type: 'wifi', ssid: 'Cafe Guest', security: 'WPA', password: 'example-password' },
+  sms: { type: 'sms', phone: '+447700900000', message: 'Hello' },
+  email: { type: 'email', to: 'hello@example.com' },
+  geo: { type: 'geo', latitude: 51.5074, longitude: -0.1278 },
+  event: { type: 'event', summary: 'Example event', start: '2030-01-01T19:00' },
+};
 
 function DirectQRForm() {
   const router = useRouter();
@@ -29,7 +52,12 @@ function DirectQRForm() {
   const prefilledUrl = search.get('url') ?? '';
 
   const [name, setName] = useState('');
+  const [symbology, setSymbology] = useState<CodeSymbology>('qr');
   const [destinationUrl, setDestinationUrl] = useState(prefilledUrl);
+  const [payloadType, setPayloadType] = useState<'url' | StructuredPayloadType>('url');
+  const [payloadDraft, setPayloadDraft] = useState<PayloadDraft>({});
+  // Field errors appear once the user tries to generate
+  const [showPayloadErrors, setShowPayloadErrors] = useState(false);
   const [urlError, setUrlError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
@@ -46,23 +74,94 @@ function DirectQRForm() {
     logoSizeRatio: QR_DEFAULTS.DEFAULT_LOGO_RATIO,
   });
 
+  // EAN-13 and UPC-A encode a product number (GTIN) instead of a URL
+  const encodesGtin = !SYMBOLOGY_INFO[symbology].carriesUrl;
+
   useEffect(() => {
     if (!destinationUrl) {
       setUrlError(null);
       return;
     }
-    const result = validateUrl(destinationUrl);
-    setUrlError(result.isValid ? null : result.error || 'Invalid URL');
-  }, [destinationUrl]);
+    if (!encodesGtin) {
+      const result = validateUrl(destinationUrl);
+      if (!result.isValid) {
+        setUrlError(result.error || 'Invalid URL');
+        return;
+      }
+    }
+    // Barcodes also limit what they can hold (digits, length, ASCII)
+    if (isBarcodeSymbology(symbology)) {
+      const content = validateBarcodeContent(symbology, destinationUrl);
+      if (!content.isValid) {
+        setUrlError(content.error || 'Invalid content');
+        return;
+      }
+    }
+    setUrlError(null);
+  }, [destinationUrl, symbology, encodesGtin]);
+
+  // Contact, Wi-Fi, … content is checked with the same schema the API uses
+  const payloadCheck = useMemo(
+    () => payloadType === 'url'
+      ? null
+      : qrPayloadSchema.safeParse(draftToPayload(payloadType, payloadDraft)),
+    [payloadType, payloadDraft]
+  );
+
+  const payloadErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    if (!payloadCheck || payloadCheck.success) return errors;
+    for (const issue of payloadCheck.error.issues) {
+      const key = String(issue.path[0] ?? '');
+      if (key && !errors[key]) errors[key] = issue.message;
+    }
+    return errors;
+  }, [payloadCheck]);
+
+  const choosePayloadType = (next: 'url' | StructuredPayloadType) => {
+    setPayloadType(next);
+    setPayloadDraft(next === 'url' ? {} : emptyDraft(next));
+    setShowPayloadErrors(false);
+  };
+
+  const chooseSymbology = (next: CodeSymbology) => {
+    setSymbology(next);
+    // Structured content is QR-only
+    if (next !== 'qr') choosePayloadType('url');
+  };
+
+  let previewData: string;
+  if (payloadType !== 'url') {
+    previewData = buildPayload(payloadCheck?.success ? payloadCheck.data : EXAMPLE_PAYLOAD[payloadType]);
+  } else if (destinationUrl && !urlError) {
+    previewData = destinationUrl;
+  } else if (symbology === 'ean13' || symbology === 'upca') {
+    previewData = EXAMPLE_GTIN[symbology];
+  } else {
+    previewData = 'https://example.com';
+  }
+
+  const payloadLabel = QR_PAYLOADS.find((p) => p.id === payloadType)?.label ?? 'Website';
 
   const openConfirmation = (e: React.FormEvent) => {
     e.preventDefault();
+    // Structured content has no destination to manage, so there's no
+    // managed Link to suggest instead
+    if (payloadType !== 'url') {
+      if (!payloadCheck?.success) {
+        setShowPayloadErrors(true);
+        addToast({ title: 'Please fix the highlighted fields', variant: 'error' });
+        return;
+      }
+      submitDirect();
+      return;
+    }
     if (!destinationUrl) {
-      addToast({ title: 'Destination URL is required', variant: 'error' });
+      addToast({ title: encodesGtin ? 'GTIN is required' : 'Destination URL is required', variant: 'error' });
       return;
     }
     if (urlError) {
-      addToast({ title: 'Please fix the URL error', variant: 'error' });
+      addToast({ title: encodesGtin ? 'Please fix the GTIN error' : 'Please fix the URL error', variant: 'error' });
       return;
     }
     setModalOpen(true);
@@ -78,16 +177,12 @@ function DirectQRForm() {
         body: JSON.stringify({
           name: name || 'One-off QR',
           mode: 'direct',
-          destination_url: destinationUrl,
+          symbology,
+          ...(payloadCheck?.success
+            ? { payload: payloadCheck.data }
+            : { destination_url: destinationUrl }),
           analytics_enabled: false,
-          style: {
-            foreground_color: style.foregroundColor,
-            background_color: style.backgroundColor,
-            error_correction: style.errorCorrection,
-            quiet_zone: style.quietZone,
-            module_shape: style.moduleShape,
-            eye_shape: style.eyeShape,
-          },
+          style: styleConfigToInput(style),
         }),
       });
 
@@ -158,36 +253,90 @@ function DirectQRForm() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="url">Destination URL *</Label>
-                  <div className="relative">
-                    <Link2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="url"
-                      type="url"
-                      placeholder="https://example.com/flyer"
-                      value={destinationUrl}
-                      onChange={(e) => setDestinationUrl(e.target.value)}
-                      className="pl-10"
-                      error={!!urlError}
-                      required
-                    />
-                  </div>
-                  {urlError && (
-                    <p className="text-xs text-destructive flex items-center gap-1">
-                      <AlertCircle className="h-3 w-3" />
-                      {urlError}
-                    </p>
-                  )}
+                  <Label htmlFor="symbology">Code type</Label>
+                  <Select
+                    id="symbology"
+                    value={symbology}
+                    onChange={(e) => chooseSymbology(e.target.value as CodeSymbology)}
+                  >
+                    {CODE_SYMBOLOGIES.map((id) => (
+                      <option key={id} value={id}>
+                        {SYMBOLOGY_INFO[id].label} — {SYMBOLOGY_INFO[id].description}
+                      </option>
+                    ))}
+                  </Select>
                 </div>
+                {symbology === 'qr' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="payload-type">Content</Label>
+                    <Select
+                      id="payload-type"
+                      value={payloadType}
+                      onChange={(e) => choosePayloadType(e.target.value as 'url' | StructuredPayloadType)}
+                    >
+                      {QR_PAYLOADS.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.label} — {p.description}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                )}
+                {payloadType === 'url' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="url">{encodesGtin ? 'GTIN *' : 'Destination URL *'}</Label>
+                    <div className="relative">
+                      <Link2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="url"
+                        type={encodesGtin ? 'text' : 'url'}
+                        inputMode={encodesGtin ? 'numeric' : undefined}
+                        placeholder={encodesGtin ? EXAMPLE_GTIN[symbology as 'ean13' | 'upca'] : 'https://example.com/flyer'}
+                        value={destinationUrl}
+                        onChange={(e) => setDestinationUrl(e.target.value)}
+                        className="pl-10"
+                        error={!!urlError}
+                        required
+                      />
+                    </div>
+                    {urlError && (
+                      <p className="text-xs text-destructive flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {urlError}
+                      </p>
+                    )}
+                    {encodesGtin && !urlError && (
+                      <p className="text-xs text-muted-foreground">
+                        Enter it without the final check digit to have it calculated for you
+                      </p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
+            {payloadType !== 'url' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">{payloadLabel}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PayloadForm
+                    type={payloadType}
+                    value={payloadDraft}
+                    onChange={setPayloadDraft}
+                    errors={showPayloadErrors ? payloadErrors : undefined}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-base">Style</CardTitle>
               </CardHeader>
               <CardContent>
-                <StylePanel style={style} onChange={setStyle} />
+                <StylePanel style={style} onChange={setStyle} symbology={symbology} content={previewData} />
               </CardContent>
             </Card>
           </div>
@@ -198,9 +347,11 @@ function DirectQRForm() {
                 <CardTitle className="text-base">Preview</CardTitle>
               </CardHeader>
               <CardContent>
-                <QRPreview data={destinationUrl || 'https://example.com'} style={style} />
+                <QRPreview data={previewData} style={style} symbology={symbology} />
                 <p className="mt-4 text-xs text-center text-muted-foreground">
-                  Encodes the URL directly
+                  {payloadType !== 'url'
+                    ? `Encodes the ${payloadLabel.toLowerCase()} details directly`
+                    : encodesGtin ? 'Encodes the GTIN' : 'Encodes the URL directly'}
                 </p>
               </CardContent>
             </Card>
@@ -210,7 +361,7 @@ function DirectQRForm() {
                   Cancel
                 </Button>
               </Link>
-              <Button type="submit" className="flex-1" disabled={isLoading || !!urlError}>
+              <Button type="submit" className="flex-1" disabled={isLoading || (payloadType === 'url' && !!urlError)}>
                 {isLoading ? 'Generating\u2026' : 'Generate'}
               </Button>
             </div>
@@ -0,0 +1,54 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { ApiKeysSettings } from '@/components/org/api-keys-settings';
+import type { ApiKeySummary } from '@/types/api-key';
+
+export default async function ApiKeysSettingsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  // My role in the active org — only owners/admins manage keys.
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+
+  const myRole = (roleRow?.role ?? 'member') as 'owner' | 'admin' | 'member';
+
+  const { data: apiKeys } = await supabase
+    .from('api_keys')
+    .select('id, created_by, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+    .eq('org_id', activeOrgId)
+    .order('created_at', { ascending: false });
+
+  return (
+    <div className="p-6">
+      <ApiKeysSettings
+        myRole={myRole}
+        apiKeys={(apiKeys ?? []) as ApiKeySummary[]}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { ConversionSettings } from '@/components/org/conversion-settings';
+
+export default async function ConversionSettingsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  // My role in the active org — only owners/admins turn tracking on or off.
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+
+  const myRole = (roleRow?.role ?? 'member') as 'owner' | 'admin' | 'member';
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('conversion_key')
+    .eq('id', activeOrgId)
+    .single();
+
+  return (
+    <div className="p-6">
+      <ConversionSettings
+        myRole={myRole}
+        conversionKey={org?.conversion_key ?? null}
+        endpoint={`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/conversions`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { listReportSchedules } from '@/lib/reports/queries';
+import { ReportSettings } from '@/components/org/report-settings';
+
+export default async function ReportSettingsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  const [{ data: roleRow }, { data: memberRows }, { data: qrCodes }, { data: bioPages }, schedules] =
+    await Promise.all([
+      supabase
+        .from('organization_members')
+        .select('role')
+        .eq('org_id', activeOrgId)
+        .eq('user_id', user.id)
+        .single(),
+      supabase
+        .from('organization_members')
+        .select('user_id')
+        .eq('org_id', activeOrgId)
+        .order('joined_at', { ascending: true }),
+      supabase
+        .from('qr_codes')
+        .select('id, name')
+        .eq('org_id', activeOrgId)
+        .eq('mode', 'managed')
+        .is('deleted_at', null)
+        .order('name', { ascending: true }),
+      supabase
+        .from('bio_link_pages')
+        .select('id, title')
+        .eq('org_id', activeOrgId)
+        .is('deleted_at', null)
+        .order('title', { ascending: true }),
+      listReportSchedules(supabase, activeOrgId),
+    ]);
+
+  const myRole = (roleRow?.role ?? 'member') as 'owner' | 'admin' | 'member';
+
+  // Owners/admins pick recipients by email; auth.users is only readable
+  // with the service role, and only this org's members are looked up.
+  const admin = myRole === 'member' ? null : createAdminClient();
+  const members = await Promise.all(
+    (memberRows ?? []).map(async ({ user_id }) => {
+      if (!admin) return { user_id, email: null };
+      const { data } = await admin.auth.admin.getUserById(user_id);
+      return { user_id, email: data?.user?.email ?? null };
+    })
+  );
+
+  return (
+    <div className="p-6">
+      <ReportSettings
+        userId={user.id}
+        myRole={myRole}
+        schedules={schedules}
+        members={members}
+        qrCodes={qrCodes ?? []}
+        bioPages={bioPages ?? []}
+      />
+    </div>
+  );
+}
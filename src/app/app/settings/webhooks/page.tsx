@@ -0,0 +1,54 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORG_COOKIE } from '@/lib/org/active-org';
+import { WebhooksSettings } from '@/components/org/webhooks-settings';
+import type { WebhookEndpointSummary } from '@/types/webhook';
+
+export default async function WebhooksSettingsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) redirect('/auth/login');
+
+  const cookieStore = await cookies();
+  const activeOrgId = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  if (!activeOrgId) {
+    return (
+      <div className="p-6">
+        <p>
+          No active organisation. Please refresh or re-select from the org
+          switcher.
+        </p>
+      </div>
+    );
+  }
+
+  // My role in the active org — only owners/admins manage webhooks.
+  const { data: roleRow } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('org_id', activeOrgId)
+    .eq('user_id', user.id)
+    .single();
+
+  const myRole = (roleRow?.role ?? 'member') as 'owner' | 'admin' | 'member';
+
+  const { data: endpoints } = await supabase
+    .from('webhook_endpoints')
+    .select('id, created_by, url, description, events, is_active, created_at, updated_at')
+    .eq('org_id', activeOrgId)
+    .order('created_at', { ascending: false });
+
+  return (
+    <div className="p-6">
+      <WebhooksSettings
+        myRole={myRole}
+        endpoints={(endpoints ?? []) as WebhookEndpointSummary[]}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { notFound } from 'next/navigation';
 import { preconnect } from 'react-dom';
 import { createAdminClient } from '@/lib/supabase/admin';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import { appendUtm } from '@/lib/utm';
+import { MEDIUM_PARAM, parseViewMedium } from '@/lib/qr/medium';
 import {
   resolveFullThemeConfig,
   buildGoogleFontsUrl,
@@ -11,7 +14,8 @@ import { BioPublicGrid } from '@/components/bio/public/bio-public-grid';
 import { BioContactCard } from '@/components/bio/public/bio-contact-card';
 import { headers } from 'next/headers';
 import type { Metadata } from 'next';
-import type { BioLinkTheme, BioBlock, BioLayoutMode, BioBorderRadius, BioSpacing, BioCardLayout } from '@/types/bio';
+import type { BioLinkTheme, BioBlock, BioBlockContentLink, BioLayoutMode, BioBorderRadius, BioSpacing, BioCardLayout, BioViewMedium } from '@/types/bio';
+import type { UtmParams } from '@/types/qr';
 import './bio-animations.css';
 
 /** Ensure this page is never statically cached — content changes must appear immediately */
@@ -19,6 +23,7 @@ export const dynamic = 'force-dynamic';
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 /**
@@ -55,16 +60,18 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
  * /p/[slug] - Public bio-link page
  *
  * Server-rendered page using admin client (bypasses RLS for public access).
- * Records view analytics asynchronously.
+ * Records view analytics asynchronously, attributed to a QR scan or NFC tap
+ * when the URL carries ?m=qr / ?m=nfc.
  */
-export default async function BioPage({ params }: PageProps) {
+export default async function BioPage({ params, searchParams }: PageProps) {
   const { slug } = await params;
+  const marker = (await searchParams)[MEDIUM_PARAM];
   const supabase = createAdminClient();
 
   // Fetch page with enabled links
   const { data: page, error } = await supabase
     .from('bio_link_pages')
-    .select('*, bio_link_items(*)')
+    .select('*, bio_link_items(*), organizations(conversion_key)')
     .eq('slug', slug)
     .eq('is_active', true)
     .is('deleted_at', null)
@@ -79,6 +86,10 @@ export default async function BioPage({ params }: PageProps) {
     .filter((item: { is_enabled: boolean }) => item.is_enabled)
     .sort((a: { sort_order: number }, b: { sort_order: number }) => a.sort_order - b.sort_order);
 
+  // Links carry a conversion click ID when the org tracks conversions
+  const org = Array.isArray(page.organizations) ? page.organizations[0] : page.organizations;
+  const trackConversions = Boolean(page.analytics_enabled && org?.conversion_key);
+
   const layoutMode: BioLayoutMode = (page.layout_mode as BioLayoutMode) || 'grid';
 
   // Fetch blocks for grid mode (gracefully handle missing table)
@@ -94,7 +105,7 @@ export default async function BioPage({ params }: PageProps) {
         .order('grid_col', { ascending: true });
 
       if (!blockError) {
-        blocks = (blockData as BioBlock[]) || [];
+        blocks = ((blockData as BioBlock[]) || []).map(tagLinkBlock);
       }
     } catch {
       // bio_blocks table may not exist yet (migration pending)
@@ -103,7 +114,8 @@ export default async function BioPage({ params }: PageProps) {
 
   // Record view event async (non-blocking)
   if (page.analytics_enabled) {
-    recordViewEvent(supabase, page.id).catch(() => {});
+    const medium = parseViewMedium(new URLSearchParams(typeof marker === 'string' ? { [MEDIUM_PARAM]: marker } : {}));
+    recordViewEvent(supabase, page, medium).catch(() => {});
   }
 
   // Resolve full theme config with all overrides
@@ -207,16 +219,17 @@ export default async function BioPage({ params }: PageProps) {
               blocks={blocks}
               themeConfig={themeConfig}
               pageId={page.id}
+              trackConversions={trackConversions}
             />
           ) : links.length > 0 ? (
             <div className="w-full flex flex-col" style={{ gap: spacingConfig.gap }}>
-              {links.map((link: { id: string; title: string; url: string; icon: string | null; icon_type: string | null; icon_url: string | null; icon_bg_color: string | null; show_icon: boolean }, index: number) => (
+              {links.map((link: { id: string; title: string; url: string; icon: string | null; icon_type: string | null; icon_url: string | null; icon_bg_color: string | null; show_icon: boolean; utm: UtmParams | null }, index: number) => (
                 <BioLinkButton
                   key={link.id}
                   itemId={link.id}
                   pageId={page.id}
                   title={link.title}
-                  url={link.url}
+                  url={appendUtm(link.url, link.utm)}
                   icon={link.icon}
                   iconType={link.icon_type as 'emoji' | 'image' | 'favicon' | null}
                   iconUrl={link.icon_url}
@@ -225,6 +238,7 @@ export default async function BioPage({ params }: PageProps) {
                   themeConfig={themeConfig}
                   staggerIndex={themeConfig.animations.linkStagger ? index : undefined}
                   staggerDelay={themeConfig.animations.staggerDelay}
+                  trackConversions={trackConversions}
                 />
               ))}
             </div>
@@ -253,33 +267,34 @@ export default async function BioPage({ params }: PageProps) {
   );
 }
 
+/**
+ * Append a link block's UTM tags to its outbound URL.
+ */
+function tagLinkBlock(block: BioBlock): BioBlock {
+  if (block.block_type !== 'link') return block;
+  const content = block.content as BioBlockContentLink;
+  return { ...block, content: { ...content, url: appendUtm(content.url, content.utm) } };
+}
+
 /**
  * Record a page view event asynchronously.
  */
 async function recordViewEvent(
   supabase: ReturnType<typeof createAdminClient>,
-  pageId: string,
+  page: { id: string; org_id: string | null; slug: string },
+  medium: BioViewMedium,
 ) {
   try {
     const headersList = await headers();
-    const ip =
-      headersList.get('x-forwarded-for')?.split(',')[0] ||
-      headersList.get('x-real-ip') ||
-      'unknown';
-
-    const ipSalt = process.env.IP_HASH_SALT;
-    let ipHash: string | null = null;
-    if (ipSalt) {
-      const { createHash } = await import('crypto');
-      ipHash = createHash('sha256')
-        .update(ip + ipSalt)
-        .digest('hex')
-        .substring(0, 16);
-    }
+
+    const { visitorHash } = await import('@/lib/analytics/visitor-hash');
+    const ipHash = await visitorHash(supabase, headersList, `page:${page.id}`);
 
     const userAgent = headersList.get('user-agent') || '';
     const { parseUserAgent } = await import('@/lib/analytics/event-helpers');
+    const { classifyBot } = await import('@/lib/analytics/bots');
     const deviceInfo = parseUserAgent(userAgent);
+    const isBot = classifyBot(headersList) !== null;
 
     const countryCode = headersList.get('x-vercel-ip-country') || null;
     const region = headersList.get('x-vercel-ip-country-region') || null;
@@ -295,7 +310,7 @@ async function recordViewEvent(
     }
 
     await supabase.from('bio_link_view_events').insert({
-      page_id: pageId,
+      page_id: page.id,
       ip_hash: ipHash,
       country_code: countryCode,
       region,
@@ -303,6 +318,20 @@ async function recordViewEvent(
       os_family: deviceInfo.osFamily,
       browser_family: deviceInfo.browserFamily,
       referrer_domain: referrerDomain,
+      is_bot: isBot,
+      medium,
+    });
+
+    await emitWebhookEvent(page.org_id, 'bio.viewed', {
+      page_id: page.id,
+      slug: page.slug,
+      country_code: countryCode,
+      region,
+      device_type: deviceInfo.deviceType,
+      referrer_domain: referrerDomain,
+      is_bot: isBot,
+      medium,
+      viewed_at: new Date().toISOString(),
     });
   } catch (error) {
     console.error('Failed to record bio view event:', error);
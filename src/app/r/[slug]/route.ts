@@ -1,14 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { validateRedirectUrl } from '@/lib/security/url-validator';
-import { createHash } from 'crypto';
+import { resolveDestination } from '@/lib/qr/destination-rules';
+import { pickVariant } from '@/lib/qr/destination-variants';
+import { parseScanMedium, withBioPageMedium } from '@/lib/qr/medium';
+import { appendUtm } from '@/lib/utm';
+import { appendClickId, generateClickId } from '@/lib/conversions/click-id';
+import { issueClick } from '@/lib/conversions/record';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import { parseUserAgent } from '@/lib/analytics/event-helpers';
+import { classifyBot } from '@/lib/analytics/bots';
+import { visitorHash } from '@/lib/analytics/visitor-hash';
+import { loadContactCard, vcfContentDisposition } from '@/lib/qr/contact-card';
+import type { QRDestinationRule, QRDestinationVariant, ScanMedium, UtmParams } from '@/types/qr';
 
 /**
  * QR Code Redirect Handler
  *
  * This endpoint handles redirects for managed QR codes.
- * It looks up the slug, validates the destination, records analytics (if enabled),
- * and redirects the user to the destination URL.
+ * It looks up the slug and picks the destination: the active scheduled rule
+ * (in the org's timezone), else an A/B variant sticky per daily visitor hash,
+ * else destination_url. It appends the code's UTM tags and, when the org
+ * tracks conversions, a click ID, then validates the destination.
+ * It records analytics (if enabled), emits the qr.scanned webhook, and
+ * redirects the user to the destination URL. Scans carrying ?m=nfc count as
+ * NFC taps; link previews, crawlers and prefetches are flagged as bots.
+ * Redirects to our own bio pages carry the medium on, so the view is
+ * attributed too.
+ *
+ * Contact codes (payload_type 'contact') answer with a .vcf built from the
+ * current brand kit person or bio page instead of redirecting. If that
+ * source is deleted or unpublished they redirect to destination_url.
  */
 export async function GET(
   request: NextRequest,
@@ -22,7 +44,7 @@ export async function GET(
   // Look up the QR code by slug
   const { data: qr, error } = await supabase
     .from('qr_codes')
-    .select('id, destination_url, is_active, analytics_enabled')
+    .select('id, org_id, payload_type, contact_person_id, contact_bio_page_id, destination_url, destination_rules, destination_variants, utm, is_active, analytics_enabled, organizations(default_timezone, conversion_key)')
     .eq('slug', slug)
     .eq('mode', 'managed')
     .single();
@@ -37,57 +59,105 @@ export async function GET(
     return NextResponse.redirect(new URL('/?error=qr-inactive', request.url));
   }
 
+  // Contact codes: serve the vCard, built now so edits show up on every card
+  if (qr.payload_type === 'contact') {
+    const card = await loadContactCard(supabase, qr);
+    if (card) {
+      if (qr.analytics_enabled) {
+        const ipHash = await visitorHash(supabase, request.headers, `qr:${qr.id}`);
+        const medium = parseScanMedium(new URL(request.url).searchParams);
+        recordScanEvent(supabase, { id: qr.id, orgId: qr.org_id, slug }, request, ipHash, null, medium).catch((err) => {
+          console.error('Failed to record scan event:', err);
+        });
+      }
+
+      return new NextResponse(card.vcf, {
+        headers: {
+          'Content-Type': 'text/vcard; charset=utf-8',
+          'Content-Disposition': vcfContentDisposition(card.name),
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+  }
+
+  // Resolve the active scheduled rule (if any) in the org's timezone
+  const org = (Array.isArray(qr.organizations) ? qr.organizations[0] : qr.organizations) as
+    | { default_timezone: string | null; conversion_key: string | null }
+    | null;
+  const scheduled = resolveDestination(
+    qr.destination_url,
+    qr.destination_rules as QRDestinationRule[] | null,
+    org?.default_timezone,
+  );
+
+  // No scheduled rule matched: split across A/B variants, sticky per visitor
+  const ipHash = await visitorHash(supabase, request.headers, `qr:${qr.id}`);
+  const medium = parseScanMedium(new URL(request.url).searchParams);
+  const variant = scheduled.ruleId
+    ? null
+    : pickVariant(qr.id, qr.destination_variants as QRDestinationVariant[] | null, ipHash);
+  let destinationUrl = appendUtm(
+    variant ? variant.destination_url : scheduled.url,
+    qr.utm as UtmParams | null,
+  );
+
+  // Conversion tracking: tag the destination with a click ID for this scan
+  const clickId = qr.analytics_enabled && org?.conversion_key ? generateClickId() : null;
+  if (clickId) destinationUrl = appendClickId(destinationUrl, clickId);
+
+  // Our own bio pages attribute the view to this scan's medium
+  destinationUrl = withBioPageMedium(destinationUrl, medium, process.env.NEXT_PUBLIC_APP_URL || '');
+
   // Validate destination URL (defense in depth)
-  if (!validateRedirectUrl(qr.destination_url)) {
-    console.error(`Invalid redirect URL for slug ${slug}: ${qr.destination_url}`);
+  if (!validateRedirectUrl(destinationUrl)) {
+    console.error(`Invalid redirect URL for slug ${slug}: ${destinationUrl}`);
     return NextResponse.redirect(new URL('/?error=invalid-destination', request.url));
   }
 
   // Record analytics (async, don't block redirect)
   if (qr.analytics_enabled) {
-    recordScanEvent(supabase, qr.id, request).catch((err) => {
+    recordScanEvent(supabase, { id: qr.id, orgId: qr.org_id, slug }, request, ipHash, variant?.id ?? null, medium).catch((err) => {
       console.error('Failed to record scan event:', err);
     });
   }
 
+  if (clickId && qr.org_id) {
+    issueClick(supabase, clickId, { orgId: qr.org_id, qrId: qr.id, variantId: variant?.id ?? null }).catch((err) => {
+      console.error('Failed to issue click ID:', err);
+    });
+  }
+
   // Perform redirect
   // Using 307 (Temporary Redirect) to preserve request method
   // This also prevents browsers from caching the redirect
-  return NextResponse.redirect(qr.destination_url, {
+  return NextResponse.redirect(destinationUrl, {
     status: 307,
   });
 }
 
 /**
- * Record a scan event for analytics
+ * Record a scan event for analytics, then notify the org's webhooks
  */
 async function recordScanEvent(
   supabase: ReturnType<typeof createAdminClient>,
-  qrId: string,
-  request: NextRequest
+  qr: { id: string; orgId: string | null; slug: string },
+  request: NextRequest,
+  ipHash: string | null,
+  variantId: string | null,
+  medium: ScanMedium
 ) {
   const headers = request.headers;
 
-  // Get IP for hashing (not stored raw)
-  const ip =
-    headers.get('x-forwarded-for')?.split(',')[0] ||
-    headers.get('x-real-ip') ||
-    'unknown';
-
-  // Hash the IP (one-way, for deduplication only)
-  const ipSalt = process.env.IP_HASH_SALT;
-  if (!ipSalt) {
+  if (!process.env.IP_HASH_SALT) {
     console.error('CRITICAL: IP_HASH_SALT environment variable is not set — skipping analytics');
     return;
   }
-  const ipHash = createHash('sha256')
-    .update(ip + ipSalt)
-    .digest('hex')
-    .substring(0, 16);
 
   // Parse user agent for device info
   const userAgent = headers.get('user-agent') || '';
   const deviceInfo = parseUserAgent(userAgent);
+  const isBot = classifyBot(headers, request.method) !== null;
 
   // Get geo info from Vercel headers (if available)
   const countryCode = headers.get('x-vercel-ip-country') || null;
@@ -106,7 +176,7 @@ async function recordScanEvent(
 
   // Insert scan event
   await supabase.from('qr_scan_events').insert({
-    qr_id: qrId,
+    qr_id: qr.id,
     ip_hash: ipHash,
     country_code: countryCode,
     region: region,
@@ -114,57 +184,23 @@ async function recordScanEvent(
     os_family: deviceInfo.osFamily,
     browser_family: deviceInfo.browserFamily,
     referrer_domain: referrerDomain,
+    variant_id: variantId,
+    medium,
+    is_bot: isBot,
   });
-}
 
-/**
- * Simple user agent parser
- * For production, consider using a proper UA parser library
- */
-function parseUserAgent(ua: string): {
-  deviceType: 'mobile' | 'tablet' | 'desktop' | 'unknown';
-  osFamily: string | null;
-  browserFamily: string | null;
-} {
-  const lowerUa = ua.toLowerCase();
-
-  // Detect device type
-  let deviceType: 'mobile' | 'tablet' | 'desktop' | 'unknown' = 'unknown';
-  if (/mobile|android.*mobile|iphone|ipod|blackberry|windows phone/i.test(ua)) {
-    deviceType = 'mobile';
-  } else if (/tablet|ipad|android(?!.*mobile)/i.test(ua)) {
-    deviceType = 'tablet';
-  } else if (/windows|macintosh|linux/i.test(ua)) {
-    deviceType = 'desktop';
-  }
-
-  // Detect OS
-  let osFamily: string | null = null;
-  if (/iphone|ipad|ipod/i.test(ua)) {
-    osFamily = 'iOS';
-  } else if (/android/i.test(ua)) {
-    osFamily = 'Android';
-  } else if (/windows/i.test(ua)) {
-    osFamily = 'Windows';
-  } else if (/macintosh|mac os/i.test(ua)) {
-    osFamily = 'macOS';
-  } else if (/linux/i.test(ua)) {
-    osFamily = 'Linux';
-  }
-
-  // Detect browser
-  let browserFamily: string | null = null;
-  if (/edg/i.test(ua)) {
-    browserFamily = 'Edge';
-  } else if (/chrome/i.test(ua) && !/chromium/i.test(ua)) {
-    browserFamily = 'Chrome';
-  } else if (/safari/i.test(ua) && !/chrome/i.test(ua)) {
-    browserFamily = 'Safari';
-  } else if (/firefox/i.test(ua)) {
-    browserFamily = 'Firefox';
-  } else if (/opera|opr/i.test(ua)) {
-    browserFamily = 'Opera';
-  }
-
-  return { deviceType, osFamily, browserFamily };
+  await emitWebhookEvent(qr.orgId, 'qr.scanned', {
+    qr_id: qr.id,
+    slug: qr.slug,
+    variant_id: variantId,
+    medium,
+    country_code: countryCode,
+    region,
+    device_type: deviceInfo.deviceType,
+    os_family: deviceInfo.osFamily,
+    browser_family: deviceInfo.browserFamily,
+    referrer_domain: referrerDomain,
+    is_bot: isBot,
+    scanned_at: new Date().toISOString(),
+  });
 }
@@ -0,0 +1,399 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button, Input, Label, Select } from '@/components/ui';
+import { ALERT_DEFAULTS } from '@/lib/constants';
+import type {
+  AlertDelivery,
+  AlertEmailStatus,
+  AlertEvent,
+  AlertKind,
+  AlertRuleSummary,
+} from '@/types/alert';
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  first_scan: 'First scan / view',
+  volume_above: 'Volume above a threshold',
+  volume_below: 'Volume below a threshold',
+  new_country: 'Scan / view from a new country',
+  inactive: 'No scans / views for a number of days',
+};
+
+const DELIVERY_LABELS: Record<AlertDelivery, string> = {
+  immediate: 'Immediately',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+const NEEDS_THRESHOLD = new Set<AlertKind>(['volume_above', 'volume_below']);
+const NEEDS_WINDOW = new Set<AlertKind>(['volume_above', 'volume_below', 'inactive']);
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
+
+function describeRule(rule: AlertRuleSummary): string {
+  const window = rule.window_hours ?? 0;
+  const span = window % 24 === 0 ? `${window / 24} day${window === 24 ? '' : 's'}` : `${window} hours`;
+  switch (rule.kind) {
+    case 'volume_above':
+      return `More than ${rule.threshold} in ${span}`;
+    case 'volume_below':
+      return `Fewer than ${rule.threshold} in ${span}`;
+    case 'inactive':
+      return `None for ${span}`;
+    default:
+      return KIND_LABELS[rule.kind];
+  }
+}
+
+function emailBadgeClass(status: AlertEmailStatus | null) {
+  switch (status) {
+    case 'sent':
+      return 'bg-lynx-500/15 text-lynx-400 border border-lynx-400/30';
+    case 'failed':
+      return 'bg-destructive/15 text-destructive border border-destructive/30';
+    default:
+      return 'bg-zinc-800 text-zinc-200 border border-zinc-700';
+  }
+}
+
+export function AlertRulesPanel({
+  userId,
+  myRole,
+  rules,
+  events,
+  qrCodes,
+  bioPages,
+}: {
+  userId: string;
+  myRole: 'owner' | 'admin' | 'member';
+  rules: AlertRuleSummary[];
+  events: AlertEvent[];
+  qrCodes: Array<{ id: string; name: string }>;
+  bioPages: Array<{ id: string; title: string }>;
+}) {
+  const router = useRouter();
+  const isAdmin = myRole === 'owner' || myRole === 'admin';
+
+  // "qr:<id>" or "bio:<id>"
+  const [target, setTarget] = useState('');
+  const [kind, setKind] = useState<AlertKind>('inactive');
+  const [threshold, setThreshold] = useState('100');
+  const [windowValue, setWindowValue] = useState('7');
+  const [windowUnit, setWindowUnit] = useState<'hours' | 'days'>('days');
+  const [delivery, setDelivery] = useState<AlertDelivery>('immediate');
+  const [recipients, setRecipients] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ruleById = new Map(rules.map((r) => [r.id, r]));
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    const [targetType, targetId] = target.split(':');
+    const windowHours = Number(windowValue) * (windowUnit === 'days' ? 24 : 1);
+
+    try {
+      const res = await fetch('/api/org/alerts', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({
+          ...(targetType === 'qr' ? { qr_id: targetId } : { page_id: targetId }),
+          kind,
+          ...(NEEDS_THRESHOLD.has(kind) ? { threshold: Number(threshold) } : {}),
+          ...(NEEDS_WINDOW.has(kind) ? { window_hours: windowHours } : {}),
+          delivery,
+          recipients: recipients
+            .split(/[\s,;]+/)
+            .map((r) => r.trim())
+            .filter(Boolean),
+        }),
+      });
+      const json = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? 'Failed to create alert rule');
+        return;
+      }
+      setRecipients('');
+      router.refresh();
+    } catch {
+      setError('Failed to create alert rule');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleActive(rule: AlertRuleSummary) {
+    const res = await fetch(`/api/org/alerts/${rule.id}`, {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify({ is_active: !rule.is_active }),
+    });
+    if (res.ok) router.refresh();
+  }
+
+  async function handleDelete(rule: AlertRuleSummary) {
+    if (!confirm('Delete this alert rule and its alert history?')) return;
+    const res = await fetch(`/api/org/alerts/${rule.id}`, {
+      method: 'DELETE',
+      credentials: 'same-origin',
+    });
+    if (res.ok) router.refresh();
+  }
+
+  const hasTargets = qrCodes.length > 0 || bioPages.length > 0;
+
+  return (
+    <div className="max-w-3xl space-y-10">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Alerts</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          Get an email when a QR code or bio page needs attention — a first
+          scan, a spike or drop, a new country, or a table talker that has
+          gone quiet. Rules are checked every hour.
+        </p>
+      </div>
+
+      <section>
+        <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+          New alert rule
+        </h2>
+        <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5">
+          {!hasTargets ? (
+            <p className="text-sm text-zinc-500">
+              Create a managed QR code or a bio page first.
+            </p>
+          ) : (
+            <form onSubmit={onCreate} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="alert-target">Watch</Label>
+                  <Select
+                    id="alert-target"
+                    required
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                  >
+                    <option value="" disabled>
+                      Choose a QR code or bio page
+                    </option>
+                    {qrCodes.length > 0 && (
+                      <optgroup label="QR codes (scans)">
+                        {qrCodes.map((q) => (
+                          <option key={q.id} value={`qr:${q.id}`}>
+                            {q.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                    {bioPages.length > 0 && (
+                      <optgroup label="Bio pages (views)">
+                        {bioPages.map((p) => (
+                          <option key={p.id} value={`bio:${p.id}`}>
+                            {p.title}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="alert-kind">When</Label>
+                  <Select
+                    id="alert-kind"
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as AlertKind)}
+                  >
+                    {(Object.keys(KIND_LABELS) as AlertKind[]).map((k) => (
+                      <option key={k} value={k}>
+                        {KIND_LABELS[k]}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+
+              {(NEEDS_THRESHOLD.has(kind) || NEEDS_WINDOW.has(kind)) && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {NEEDS_THRESHOLD.has(kind) && (
+                    <div className="space-y-2">
+                      <Label htmlFor="alert-threshold">Threshold</Label>
+                      <Input
+                        id="alert-threshold"
+                        type="number"
+                        min={1}
+                        required
+                        value={threshold}
+                        onChange={(e) => setThreshold(e.target.value)}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-window">Over the last</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="alert-window"
+                        type="number"
+                        min={1}
+                        max={windowUnit === 'days' ? ALERT_DEFAULTS.MAX_WINDOW_HOURS / 24 : ALERT_DEFAULTS.MAX_WINDOW_HOURS}
+                        required
+                        value={windowValue}
+                        onChange={(e) => setWindowValue(e.target.value)}
+                      />
+                      <Select
+                        aria-label="Window unit"
+                        value={windowUnit}
+                        onChange={(e) => setWindowUnit(e.target.value as 'hours' | 'days')}
+                        className="w-28"
+                      >
+                        <option value="hours">hours</option>
+                        <option value="days">days</option>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="alert-delivery">Email</Label>
+                  <Select
+                    id="alert-delivery"
+                    value={delivery}
+                    onChange={(e) => setDelivery(e.target.value as AlertDelivery)}
+                  >
+                    {(Object.keys(DELIVERY_LABELS) as AlertDelivery[]).map((d) => (
+                      <option key={d} value={d}>
+                        {DELIVERY_LABELS[d]}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="alert-recipients">Recipients</Label>
+                  <Input
+                    id="alert-recipients"
+                    value={recipients}
+                    onChange={(e) => setRecipients(e.target.value)}
+                    placeholder="Just me"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Digests go out at 08:00 in your organisation&apos;s timezone
+                (weekly on Mondays). Separate several recipients with commas.
+              </p>
+
+              <Button type="submit" disabled={busy || !target}>
+                {busy ? 'Creating…' : 'Create rule'}
+              </Button>
+              {error && (
+                <p className="text-sm text-destructive" role="status">
+                  {error}
+                </p>
+              )}
+            </form>
+          )}
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+          Rules ({rules.length})
+        </h2>
+        {rules.length === 0 ? (
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+            <p className="text-sm text-zinc-500">No alert rules yet.</p>
+          </div>
+        ) : (
+          <ul className="rounded-xl border border-zinc-800 bg-zinc-900 divide-y divide-zinc-800">
+            {rules.map((rule) => {
+              const canManage = isAdmin || rule.created_by === userId;
+              return (
+                <li
+                  key={rule.id}
+                  className={`p-4 text-sm flex items-center justify-between gap-4 ${rule.is_active ? '' : 'opacity-60'}`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-zinc-100 truncate">
+                      {rule.target_name}
+                      <span className="text-zinc-500"> · {describeRule(rule)}</span>
+                    </div>
+                    <div className="text-xs text-zinc-500 mt-0.5 flex flex-wrap items-center gap-2">
+                      <span>{rule.qr_id ? 'QR code' : 'Bio page'}</span>
+                      <span>{DELIVERY_LABELS[rule.delivery]}</span>
+                      <span>
+                        to {rule.recipients.length > 0 ? rule.recipients.join(', ') : 'creator'}
+                      </span>
+                      <span>last fired {formatDateTime(rule.last_triggered_at)}</span>
+                      {!rule.is_active && <span>paused</span>}
+                    </div>
+                  </div>
+                  {canManage && (
+                    <div className="flex shrink-0 items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => toggleActive(rule)}
+                        className="text-xs font-semibold text-zinc-400 hover:text-zinc-200 transition-colors"
+                      >
+                        {rule.is_active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(rule)}
+                        className="text-xs font-semibold text-destructive hover:text-destructive/80 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+          Recent alerts
+        </h2>
+        {events.length === 0 ? (
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+            <p className="text-sm text-zinc-500">Nothing has fired yet.</p>
+          </div>
+        ) : (
+          <ul className="rounded-xl border border-zinc-800 bg-zinc-900 divide-y divide-zinc-800">
+            {events.map((event) => (
+              <li key={event.id} className="p-4 text-sm flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-zinc-100">{event.message}</div>
+                  <div className="text-xs text-zinc-500 mt-0.5">
+                    {formatDateTime(event.triggered_at)}
+                    {!event.notified_at && ruleById.get(event.rule_id)?.delivery !== 'immediate' && (
+                      <span> · waiting for the next digest</span>
+                    )}
+                  </div>
+                </div>
+                {event.email_status && (
+                  <span
+                    className={`shrink-0 inline-flex items-center rounded-md px-2 py-0.5 text-[10px] font-medium capitalize ${emailBadgeClass(event.email_status)}`}
+                  >
+                    {event.email_status}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
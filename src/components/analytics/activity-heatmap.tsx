@@ -0,0 +1,96 @@
+import { formatNumber } from '@/lib/utils';
+import type { AnalyticsHeatmap } from '@/types/qr';
+
+/** Monday-first display order; heatmap rows are indexed 0 = Sunday */
+const WEEKDAYS: Array<{ index: number; label: string }> = [
+  { index: 1, label: 'Mon' },
+  { index: 2, label: 'Tue' },
+  { index: 3, label: 'Wed' },
+  { index: 4, label: 'Thu' },
+  { index: 5, label: 'Fri' },
+  { index: 6, label: 'Sat' },
+  { index: 0, label: 'Sun' },
+];
+
+const HOUR_LABELS = [0, 6, 12, 18];
+
+interface ActivityHeatmapProps {
+  heatmap: AnalyticsHeatmap;
+  /** Noun for the tooltip, e.g. "scans" */
+  unit: string;
+  timezone: string;
+}
+
+/**
+ * Day-of-week × hour-of-day grid, with per-day and per-hour totals along
+ * the edges.
+ */
+export function ActivityHeatmap({ heatmap, unit, timezone }: ActivityHeatmapProps) {
+  const max = Math.max(...heatmap.flat(), 1);
+  const hourTotals = Array.from({ length: 24 }, (_, h) =>
+    heatmap.reduce((sum, row) => sum + (row[h] ?? 0), 0),
+  );
+  const maxHour = Math.max(...hourTotals, 1);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <div className="min-w-[520px] space-y-1">
+          {WEEKDAYS.map(({ index, label }) => {
+            const row = heatmap[index] ?? [];
+            const dayTotal = row.reduce((sum, n) => sum + n, 0);
+            return (
+              <div key={label} className="flex items-center gap-2">
+                <span className="w-8 shrink-0 text-xs text-muted-foreground">{label}</span>
+                <div className="grid flex-1 gap-0.5" style={{ gridTemplateColumns: 'repeat(24, minmax(0, 1fr))' }}>
+                  {Array.from({ length: 24 }, (_, hour) => {
+                    const count = row[hour] ?? 0;
+                    return (
+                      <div
+                        key={hour}
+                        className="h-4 rounded-[2px] bg-foreground"
+                        style={{ opacity: count > 0 ? 0.15 + (count / max) * 0.85 : 0.05 }}
+                        title={`${label} ${String(hour).padStart(2, '0')}:00 — ${formatNumber(count)} ${unit}`}
+                      />
+                    );
+                  })}
+                </div>
+                <span className="w-10 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+                  {formatNumber(dayTotal)}
+                </span>
+              </div>
+            );
+          })}
+
+          {/* Hour-of-day totals */}
+          <div className="flex items-end gap-2 pt-1">
+            <span className="w-8 shrink-0" />
+            <div className="grid h-8 flex-1 items-end gap-0.5" style={{ gridTemplateColumns: 'repeat(24, minmax(0, 1fr))' }}>
+              {hourTotals.map((count, hour) => (
+                <div
+                  key={hour}
+                  className="rounded-[2px] bg-foreground/40"
+                  style={{ height: `${Math.max((count / maxHour) * 100, count > 0 ? 8 : 0)}%` }}
+                  title={`${String(hour).padStart(2, '0')}:00 — ${formatNumber(count)} ${unit}`}
+                />
+              ))}
+            </div>
+            <span className="w-10 shrink-0" />
+          </div>
+          <div className="flex gap-2">
+            <span className="w-8 shrink-0" />
+            <div className="relative h-4 flex-1 text-[10px] text-muted-foreground">
+              {HOUR_LABELS.map((hour) => (
+                <span key={hour} className="absolute" style={{ left: `${(hour / 24) * 100}%` }}>
+                  {String(hour).padStart(2, '0')}:00
+                </span>
+              ))}
+            </div>
+            <span className="w-10 shrink-0" />
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">Times shown in {timezone}</p>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { formatNumber } from '@/lib/utils';
+
+interface BotFilterToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  /** All-time bot events, shown next to the label when there are any */
+  botCount?: number;
+}
+
+/** Opt in to counting link previews, crawlers, scanners and prefetches */
+export function BotFilterToggle({ checked, onChange, botCount }: BotFilterToggleProps) {
+  return (
+    <label
+      className="flex items-center gap-2 text-xs text-muted-foreground"
+      title="Link previews (Slack, WhatsApp, iMessage…), crawlers, security scanners and browser prefetches"
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-4 w-4 rounded border-zinc-700 bg-zinc-900"
+      />
+      Include bots
+      {botCount ? ` (${formatNumber(botCount)})` : ''}
+    </label>
+  );
+}
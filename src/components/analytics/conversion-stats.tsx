@@ -0,0 +1,61 @@
+import { Target } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui';
+import { formatNumber } from '@/lib/utils';
+import type { ConversionSummary } from '@/types/qr';
+
+interface ConversionStatsProps {
+  conversions: ConversionSummary;
+  /** What the rate is measured against, e.g. "scans" or "link clicks" */
+  baseLabel: string;
+}
+
+/** Conversions, conversion rate and reported value for the selected range */
+export function ConversionStats({ conversions, baseLabel }: ConversionStatsProps) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h3 className="mb-4 flex items-center gap-2 text-sm font-medium">
+          <Target className="h-4 w-4" />
+          Conversions
+        </h3>
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+          <Stat label="Conversions" value={formatNumber(conversions.conversions)} />
+          <Stat
+            label={`Rate (per ${baseLabel})`}
+            value={conversions.rate !== null ? formatRate(conversions.rate) : '—'}
+          />
+          <Stat
+            label="Value"
+            value={
+              conversions.value.length > 0
+                ? conversions.value.map((v) => formatMoney(v.total, v.currency)).join(' · ')
+                : '—'
+            }
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <p className="text-lg font-semibold tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(rate < 0.1 ? 1 : 0)}%`;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown ISO code — still show the figure
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button, Select } from '@/components/ui';
+
+const EXPORTS = [
+  { value: 'data=events&format=csv', label: 'Raw events (CSV)' },
+  { value: 'data=events&format=json', label: 'Raw events (JSON)' },
+  { value: 'data=summary&format=csv', label: 'Summary (CSV)' },
+  { value: 'data=summary&format=json', label: 'Summary (JSON)' },
+] as const;
+
+interface AnalyticsExportMenuProps {
+  /** e.g. /api/qr/<id>/analytics/export */
+  endpoint: string;
+  /** The panel's current range, from rangeQueryString */
+  rangeQuery: string;
+}
+
+/** Download the panel's range as raw events or a summary */
+export function AnalyticsExportMenu({ endpoint, rangeQuery }: AnalyticsExportMenuProps) {
+  const [choice, setChoice] = useState<string>(EXPORTS[0].value);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={choice}
+        onChange={(e) => setChoice(e.target.value)}
+        className="h-9 w-[170px] text-xs"
+        aria-label="Export format"
+      >
+        {EXPORTS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </Select>
+      <a href={`${endpoint}?${rangeQuery}&${choice}`}>
+        <Button variant="outline" size="sm" type="button">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface MetricDeltaProps {
+  current: number;
+  previous: number;
+  /** Previous range, for the tooltip */
+  from: string;
+  to: string;
+}
+
+/** "vs previous period" change, e.g. ↑ 12% */
+export function MetricDelta({ current, previous, from, to }: MetricDeltaProps) {
+  const title = `vs ${formatDay(from)} – ${formatDay(to)} (${previous.toLocaleString()})`;
+
+  if (previous === 0) {
+    return (
+      <span className="text-xs text-muted-foreground" title={title}>
+        {current > 0 ? 'new' : '—'}
+      </span>
+    );
+  }
+
+  const change = ((current - previous) / previous) * 100;
+  const rounded = Math.round(change);
+  const Icon = change >= 0 ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 text-xs tabular-nums',
+        rounded > 0 && 'text-lime-400',
+        rounded < 0 && 'text-red-400',
+        rounded === 0 && 'text-muted-foreground',
+      )}
+      title={title}
+    >
+      {rounded !== 0 && <Icon className="h-3 w-3" />}
+      {Math.abs(rounded)}%
+    </span>
+  );
+}
+
+/** Local day labels are already in the org's timezone — don't shift them again */
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
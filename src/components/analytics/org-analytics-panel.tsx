@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Eye, Inbox, Loader2, MousePointerClick, ScanLine } from 'lucide-react';
+import { Card, CardContent, Skeleton } from '@/components/ui';
+import { formatNumber } from '@/lib/utils';
+import {
+  AnalyticsRangePicker,
+  rangeQueryString,
+  type AnalyticsRangeQuery,
+} from '@/components/analytics/range-picker';
+import { BotFilterToggle } from '@/components/analytics/bot-filter-toggle';
+import { AnalyticsExportMenu } from '@/components/analytics/export-menu';
+import { MetricDelta } from '@/components/analytics/metric-delta';
+import type { OrgAnalyticsSummary } from '@/types/organization';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const CHART_COLORS = {
+  scans: '#000000',
+  views: '#737373',
+  grid: '#e5e5e5',
+};
+
+const METRICS = [
+  { key: 'scans', label: 'Scans', icon: ScanLine },
+  { key: 'views', label: 'Page Views', icon: Eye },
+  { key: 'clicks', label: 'Link Clicks', icon: MousePointerClick },
+  { key: 'submissions', label: 'Form Submissions', icon: Inbox },
+] as const;
+
+// ─── Main component ─────────────────────────────────────────────────
+
+export function OrgAnalyticsPanel() {
+  const [data, setData] = useState<OrgAnalyticsSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<AnalyticsRangeQuery>({ period: '30d' });
+  const [includeBots, setIncludeBots] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchAnalytics() {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/org/analytics?${rangeQueryString(range, includeBots)}`);
+        if (res.ok && !cancelled) {
+          setData(await res.json());
+        }
+      } catch {
+        // Non-critical
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchAnalytics();
+    return () => { cancelled = true; };
+  }, [range, includeBots]);
+
+  if (loading && !data) {
+    return <AnalyticsSkeleton />;
+  }
+
+  if (!data) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Unable to load analytics data.
+      </p>
+    );
+  }
+
+  const maxScans = Math.max(...data.top_qr_codes.map((q) => q.scans), 1);
+  const maxViews = Math.max(...data.top_pages.map((p) => p.views), 1);
+
+  return (
+    <div className="space-y-6">
+      {/* Header + Period Selector */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Analytics</h1>
+          <p className="text-sm text-zinc-400 mt-1">
+            Every QR code and bio page in this organisation, by day in {data.range.timezone}.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <BotFilterToggle checked={includeBots} onChange={setIncludeBots} />
+          <AnalyticsRangePicker value={range} current={data.range} onChange={setRange} />
+          <AnalyticsExportMenu
+            endpoint="/api/org/analytics/export"
+            rangeQuery={rangeQueryString(range, includeBots)}
+          />
+        </div>
+      </div>
+
+      {/* Loading overlay for period changes */}
+      {loading && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Updating…
+        </div>
+      )}
+
+      {/* Stat Cards */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {METRICS.map(({ key, label, icon: Icon }) => (
+          <StatCard
+            key={key}
+            label={label}
+            value={formatNumber(data.totals[key])}
+            icon={<Icon className="h-4 w-4" />}
+            delta={
+              <MetricDelta
+                current={data.totals[key]}
+                previous={data.previous[key]}
+                from={data.previous.from}
+                to={data.previous.to}
+              />
+            }
+          />
+        ))}
+      </div>
+
+      {/* Scans vs Views */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="mb-4 flex items-center justify-between">
+            <h3 className="text-sm font-medium">Scans vs Views</h3>
+            <div className="flex items-center gap-4 text-xs">
+              <LegendDot color={CHART_COLORS.scans} label="Scans" />
+              <LegendDot color={CHART_COLORS.views} label="Views" />
+            </div>
+          </div>
+          <ResponsiveContainer width="100%" height={250}>
+            <AreaChart data={data.timeline}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatDateTick}
+                tickLine={false}
+                axisLine={false}
+                fontSize={11}
+                tick={{ fill: '#737373' }}
+              />
+              <YAxis
+                allowDecimals={false}
+                tickLine={false}
+                axisLine={false}
+                fontSize={11}
+                tick={{ fill: '#737373' }}
+                width={32}
+                domain={[0, (max: number) => Math.max(max, 1)]}
+              />
+              <Tooltip content={<TimelineTooltip />} />
+              <Area
+                type="monotoneX"
+                dataKey="scans"
+                stroke={CHART_COLORS.scans}
+                fill={CHART_COLORS.scans}
+                fillOpacity={0.08}
+                strokeWidth={2}
+                name="Scans"
+                isAnimationActive={false}
+              />
+              <Area
+                type="monotoneX"
+                dataKey="views"
+                stroke={CHART_COLORS.views}
+                fill={CHART_COLORS.views}
+                fillOpacity={0.04}
+                strokeWidth={1.5}
+                strokeDasharray="4 2"
+                name="Views"
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Leaderboards */}
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="mb-4 text-sm font-medium">Top QR Codes</h3>
+            {data.top_qr_codes.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No scans in this period</p>
+            ) : (
+              <div className="space-y-2">
+                {data.top_qr_codes.map((qr) => (
+                  <div key={qr.id} className="flex items-center gap-3">
+                    <Link
+                      href={`/app/qr/${qr.id}`}
+                      className="min-w-0 flex-1 truncate text-sm hover:underline"
+                    >
+                      {qr.name}
+                    </Link>
+                    <div className="h-2 w-16 sm:w-24 shrink-0 overflow-hidden rounded-full bg-foreground/10">
+                      <div
+                        className="h-full rounded-full bg-foreground transition-all"
+                        style={{ width: `${(qr.scans / maxScans) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-12 shrink-0 text-right text-sm font-medium tabular-nums">
+                      {formatNumber(qr.scans)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="mb-4 text-sm font-medium">Top Bio Pages</h3>
+            {data.top_pages.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No views in this period</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <span className="flex-1">Page</span>
+                  <span className="w-12 shrink-0 text-right">Views</span>
+                  <span className="w-12 shrink-0 text-right">Clicks</span>
+                  <span className="w-12 shrink-0 text-right">Forms</span>
+                </div>
+                {data.top_pages.map((page) => (
+                  <div key={page.id} className="space-y-1">
+                    <div className="flex items-center gap-3">
+                      <Link
+                        href={`/app/bio/${page.id}`}
+                        className="min-w-0 flex-1 truncate text-sm hover:underline"
+                      >
+                        {page.title}
+                      </Link>
+                      <span className="w-12 shrink-0 text-right text-sm font-medium tabular-nums">
+                        {formatNumber(page.views)}
+                      </span>
+                      <span className="w-12 shrink-0 text-right text-sm tabular-nums text-muted-foreground">
+                        {formatNumber(page.clicks)}
+                      </span>
+                      <span className="w-12 shrink-0 text-right text-sm tabular-nums text-muted-foreground">
+                        {formatNumber(page.submissions)}
+                      </span>
+                    </div>
+                    <div className="h-1 overflow-hidden rounded-full bg-foreground/10">
+                      <div
+                        className="h-full rounded-full bg-foreground transition-all"
+                        style={{ width: `${(page.views / maxViews) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// ─── Sub-components ──────────────────────────────────────────────────
+
+function StatCard({
+  label,
+  value,
+  icon,
+  delta,
+}: {
+  label: string;
+  value: string;
+  icon: React.ReactNode;
+  /** Change vs the previous period */
+  delta?: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1 rounded-sm border border-border p-3">
+      <div className="flex items-center gap-1.5 text-muted-foreground">
+        {icon}
+        <span className="text-xs">{label}</span>
+      </div>
+      <div className="flex items-baseline gap-2">
+        <p className="text-lg font-semibold tabular-nums">{value}</p>
+        {delta}
+      </div>
+    </div>
+  );
+}
+
+function LegendDot({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1.5">
+      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+      {label}
+    </span>
+  );
+}
+
+// ─── Chart tooltip ───────────────────────────────────────────────────
+
+function TimelineTooltip({
+  active,
+  payload,
+  label,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: OrgAnalyticsSummary['timeline'][number] }>;
+  label?: string;
+}) {
+  if (!active || !payload?.length || !label) return null;
+
+  const day = payload[0].payload;
+  const formattedDate = new Date(label).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <div className="rounded border border-border bg-background px-3 py-2 text-xs shadow-sm">
+      <p className="mb-1 font-medium">{formattedDate}</p>
+      <p>Scans: <span className="font-semibold">{formatNumber(day.scans)}</span></p>
+      <p>Views: <span className="font-semibold">{formatNumber(day.views)}</span></p>
+      <p className="text-muted-foreground">
+        Clicks: <span className="font-semibold">{formatNumber(day.clicks)}</span>
+      </p>
+      <p className="text-muted-foreground">
+        Submissions: <span className="font-semibold">{formatNumber(day.submissions)}</span>
+      </p>
+    </div>
+  );
+}
+
+// ─── Loading skeleton ────────────────────────────────────────────────
+
+function AnalyticsSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Skeleton className="h-8 w-32" />
+        <Skeleton className="h-10 w-[160px]" />
+      </div>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-[72px]" />
+        ))}
+      </div>
+      <Skeleton className="h-[300px]" />
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Skeleton className="h-[260px]" />
+        <Skeleton className="h-[260px]" />
+      </div>
+    </div>
+  );
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Format a date string for chart X-axis ticks (e.g. "Jan 5"). Day keys are
+ * already local to the org, so format them without shifting.
+ */
+function formatDateTick(dateStr: string): string {
+  const d = new Date(dateStr);
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Input, Select } from '@/components/ui';
+import type { AnalyticsRange } from '@/types/qr';
+
+/** What the analytics panels ask the API for */
+export type AnalyticsRangeQuery =
+  | { period: '7d' | '30d' | '90d' }
+  | { period: 'custom'; from: string; to: string };
+
+/**
+ * Query string for an analytics endpoint, e.g. `period=7d` or `from=…&to=…`,
+ * plus `bots=include` when bot events should be counted
+ */
+export function rangeQueryString(query: AnalyticsRangeQuery, includeBots = false): string {
+  const params =
+    query.period === 'custom'
+      ? new URLSearchParams({ from: query.from, to: query.to })
+      : new URLSearchParams({ period: query.period });
+  if (includeBots) params.set('bots', 'include');
+  return params.toString();
+}
+
+interface AnalyticsRangePickerProps {
+  value: AnalyticsRangeQuery;
+  /** The range last returned by the API; prefills the custom inputs */
+  current?: AnalyticsRange;
+  onChange: (query: AnalyticsRangeQuery) => void;
+}
+
+export function AnalyticsRangePicker({ value, current, onChange }: AnalyticsRangePickerProps) {
+  const [custom, setCustom] = useState(value.period === 'custom');
+  const [from, setFrom] = useState(value.period === 'custom' ? value.from : '');
+  const [to, setTo] = useState(value.period === 'custom' ? value.to : '');
+
+  const canApply = Boolean(from && to && from <= to);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {custom && (
+        <>
+          <Input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-[150px]"
+            aria-label="From"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-[150px]"
+            aria-label="To"
+          />
+          <Button
+            size="sm"
+            disabled={!canApply}
+            onClick={() => onChange({ period: 'custom', from, to })}
+          >
+            Apply
+          </Button>
+        </>
+      )}
+      <Select
+        value={custom ? 'custom' : value.period}
+        onChange={(e) => {
+          const next = e.target.value;
+          if (next === 'custom') {
+            setCustom(true);
+            if (!from && !to && current) {
+              setFrom(current.from);
+              setTo(current.to);
+            }
+            return;
+          }
+          setCustom(false);
+          onChange({ period: next as '7d' | '30d' | '90d' });
+        }}
+        className="w-[160px]"
+      >
+        <option value="7d">Last 7 days</option>
+        <option value="30d">Last 30 days</option>
+        <option value="90d">Last 90 days</option>
+        <option value="custom">Custom range…</option>
+      </Select>
+    </div>
+  );
+}
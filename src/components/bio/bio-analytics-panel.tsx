@@ -19,10 +19,21 @@ import {
   TrendingUp,
   Users,
   Loader2,
+  Nfc,
 } from 'lucide-react';
-import { Card, CardContent, Select, Skeleton, Badge } from '@/components/ui';
+import { Card, CardContent, Skeleton, Badge } from '@/components/ui';
 import { formatNumber } from '@/lib/utils';
-import type { BioLinkAnalyticsSummary } from '@/types/bio';
+import {
+  AnalyticsRangePicker,
+  rangeQueryString,
+  type AnalyticsRangeQuery,
+} from '@/components/analytics/range-picker';
+import { BotFilterToggle } from '@/components/analytics/bot-filter-toggle';
+import { AnalyticsExportMenu } from '@/components/analytics/export-menu';
+import { MetricDelta } from '@/components/analytics/metric-delta';
+import { ActivityHeatmap } from '@/components/analytics/activity-heatmap';
+import { ConversionStats } from '@/components/analytics/conversion-stats';
+import type { BioLinkAnalyticsSummary, BioViewMedium } from '@/types/bio';
 
 // ─── Constants ──────────────────────────────────────────────────────
 
@@ -33,7 +44,11 @@ const CHART_COLORS = {
   pie: ['#000000', '#404040', '#737373', '#a3a3a3', '#d4d4d4'],
 };
 
-type Period = '7d' | '30d' | '90d';
+const MEDIUM_LABELS: Record<BioViewMedium, string> = {
+  qr: 'QR scans',
+  nfc: 'NFC taps',
+  web: 'Other links',
+};
 
 // ─── Main component ─────────────────────────────────────────────────
 
@@ -44,7 +59,8 @@ interface BioAnalyticsPanelProps {
 export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
   const [data, setData] = useState<BioLinkAnalyticsSummary | null>(null);
   const [loading, setLoading] = useState(true);
-  const [period, setPeriod] = useState<Period>('30d');
+  const [range, setRange] = useState<AnalyticsRangeQuery>({ period: '30d' });
+  const [includeBots, setIncludeBots] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -52,7 +68,7 @@ export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
     async function fetchAnalytics() {
       setLoading(true);
       try {
-        const res = await fetch(`/api/bio/${pageId}/analytics?period=${period}`);
+        const res = await fetch(`/api/bio/${pageId}/analytics?${rangeQueryString(range, includeBots)}`);
         if (res.ok && !cancelled) {
           setData(await res.json());
         }
@@ -65,12 +81,12 @@ export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
 
     fetchAnalytics();
     return () => { cancelled = true; };
-  }, [pageId, period]);
+  }, [pageId, range, includeBots]);
 
-  // CTR calculation
+  // CTR over the selected period
   const ctr = useMemo(() => {
-    if (!data || data.total_views === 0) return '0.0';
-    return ((data.total_clicks / data.total_views) * 100).toFixed(1);
+    if (!data || data.period_views === 0) return '0.0';
+    return ((data.total_clicks / data.period_views) * 100).toFixed(1);
   }, [data]);
 
   // Merge blocks + links for click performance
@@ -120,17 +136,16 @@ export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
   return (
     <div className="space-y-6">
       {/* Header + Period Selector */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-4">
         <h2 className="text-lg font-semibold">Analytics</h2>
-        <Select
-          value={period}
-          onChange={(e) => setPeriod(e.target.value as Period)}
-          className="w-[160px]"
-        >
-          <option value="7d">Last 7 days</option>
-          <option value="30d">Last 30 days</option>
-          <option value="90d">Last 90 days</option>
-        </Select>
+        <div className="flex flex-wrap items-center gap-4">
+          <BotFilterToggle checked={includeBots} onChange={setIncludeBots} botCount={data.bot_views} />
+          <AnalyticsRangePicker value={range} current={data.range} onChange={setRange} />
+          <AnalyticsExportMenu
+            endpoint={`/api/bio/${pageId}/analytics/export`}
+            rangeQuery={rangeQueryString(range, includeBots)}
+          />
+        </div>
       </div>
 
       {/* Loading overlay for period changes */}
@@ -142,13 +157,34 @@ export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
       )}
 
       {/* Stat Cards */}
-      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
         <StatCard label="Total Views" value={formatNumber(data.total_views)} icon={<Eye className="h-4 w-4" />} />
-        <StatCard label="Total Clicks" value={formatNumber(data.total_clicks)} icon={<MousePointerClick className="h-4 w-4" />} />
+        <StatCard
+          label="Views in Period"
+          value={formatNumber(data.period_views)}
+          icon={<Eye className="h-4 w-4" />}
+          delta={<MetricDelta current={data.period_views} previous={data.previous.views} from={data.previous.from} to={data.previous.to} />}
+        />
+        <StatCard
+          label="Clicks"
+          value={formatNumber(data.total_clicks)}
+          icon={<MousePointerClick className="h-4 w-4" />}
+          delta={<MetricDelta current={data.total_clicks} previous={data.previous.clicks} from={data.previous.from} to={data.previous.to} />}
+        />
         <StatCard label="CTR" value={`${ctr}%`} icon={<TrendingUp className="h-4 w-4" />} />
-        <StatCard label="Unique Visitors" value={formatNumber(data.unique_visitors)} icon={<Users className="h-4 w-4" />} />
+        <StatCard
+          label="Unique Visitors"
+          value={formatNumber(data.unique_visitors)}
+          icon={<Users className="h-4 w-4" />}
+          delta={<MetricDelta current={data.unique_visitors} previous={data.previous.unique_visitors} from={data.previous.from} to={data.previous.to} />}
+        />
       </div>
 
+      {/* Conversions reported by the org's snippet or pixel */}
+      {data.conversions.conversions > 0 && (
+        <ConversionStats conversions={data.conversions} baseLabel="link click" />
+      )}
+
       {/* Views Over Time Chart */}
       <Card>
         <CardContent className="pt-6">
@@ -203,6 +239,14 @@ export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
         </CardContent>
       </Card>
 
+      {/* Day-of-week × hour-of-day */}
+      <Card>
+        <CardContent className="pt-6">
+          <h3 className="mb-4 text-sm font-medium">When People Visit</h3>
+          <ActivityHeatmap heatmap={data.heatmap} unit="views" timezone={data.range.timezone} />
+        </CardContent>
+      </Card>
+
       {/* Click Performance */}
       {clickPerformance.length > 0 && (
         <Card>
@@ -231,6 +275,38 @@ export function BioAnalyticsPanel({ pageId }: BioAnalyticsPanelProps) {
         </Card>
       )}
 
+      {/* QR vs NFC vs other links */}
+      {data.by_medium.some((m) => m.medium !== 'web') && (
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="mb-4 flex items-center gap-2 text-sm font-medium">
+              <Nfc className="h-4 w-4" />
+              How Visitors Arrived
+            </h3>
+            <div className="space-y-2">
+              {(['qr', 'nfc', 'web'] as const).map((medium) => {
+                const count = data.by_medium.find((m) => m.medium === medium)?.count ?? 0;
+                const maxCount = Math.max(1, ...data.by_medium.map((m) => m.count));
+                return (
+                  <div key={medium} className="flex items-center gap-3">
+                    <span className="w-24 shrink-0 text-sm">{MEDIUM_LABELS[medium]}</span>
+                    <div className="h-2 flex-1 overflow-hidden rounded-full bg-foreground/10">
+                      <div
+                        className="h-full rounded-full bg-foreground transition-all"
+                        style={{ width: `${(count / maxCount) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 shrink-0 text-right text-sm font-medium tabular-nums">
+                      {formatNumber(count)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Countries + Devices */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Top Countries */}
@@ -399,10 +475,13 @@ function StatCard({
   label,
   value,
   icon,
+  delta,
 }: {
   label: string;
   value: string;
   icon: React.ReactNode;
+  /** Change vs the previous period */
+  delta?: React.ReactNode;
 }) {
   return (
     <div className="space-y-1 rounded-sm border border-border p-3">
@@ -410,7 +489,10 @@ function StatCard({
         {icon}
         <span className="text-xs">{label}</span>
       </div>
-      <p className="text-lg font-semibold tabular-nums">{value}</p>
+      <div className="flex items-baseline gap-2">
+        <p className="text-lg font-semibold tabular-nums">{value}</p>
+        {delta}
+      </div>
     </div>
   );
 }
@@ -436,6 +518,7 @@ function ChartTooltip({
     month: 'short',
     day: 'numeric',
     year: 'numeric',
+    timeZone: 'UTC',
   });
 
   const views = payload[0]?.value ?? 0;
@@ -463,8 +546,8 @@ function AnalyticsSkeleton() {
         <Skeleton className="h-7 w-24" />
         <Skeleton className="h-10 w-[160px]" />
       </div>
-      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
-        {[...Array(4)].map((_, i) => (
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        {[...Array(5)].map((_, i) => (
           <Skeleton key={i} className="h-[72px]" />
         ))}
       </div>
@@ -484,10 +567,13 @@ function AnalyticsSkeleton() {
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
-/** Format a date string for chart X-axis ticks (e.g. "Jan 5") */
+/**
+ * Format a date string for chart X-axis ticks (e.g. "Jan 5"). Day keys are
+ * already local to the org, so format them without shifting.
+ */
 function formatDateTick(dateStr: string): string {
   const d = new Date(dateStr);
-  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
 }
 
 /** Convert a 2-letter ISO country code to a flag emoji using regional indicator symbols. */
@@ -18,6 +18,8 @@ import {
   LayoutTemplate,
   ChevronLeft,
   Move,
+  Mail,
+  Globe,
 } from 'lucide-react';
 import Link from 'next/link';
 import {
@@ -45,7 +47,7 @@ import {
   SPACING_MAP,
   THEME_CONFIGS,
 } from '@/lib/bio/theme-definitions';
-import { BIO_DEFAULTS } from '@/lib/constants';
+import type { PlanLimits } from '@/lib/org/entitlements';
 import { formatNumber } from '@/lib/utils';
 import type {
   BioLinkPage,
@@ -70,13 +72,15 @@ interface BioDetailClientProps {
   page: BioLinkPage;
   items: BioLinkItem[];
   blocks?: BioBlock[];
+  /** The page's org plan limits */
+  limits: PlanLimits;
 }
 
 /* ═══════════════════════════════════════════════════════════════════════
    Main Component
    ═══════════════════════════════════════════════════════════════════════ */
 
-export function BioDetailClient({ page, items, blocks: initialBlocks = [] }: BioDetailClientProps) {
+export function BioDetailClient({ page, items, blocks: initialBlocks = [], limits }: BioDetailClientProps) {
   const router = useRouter();
   const { addToast } = useToast();
 
@@ -439,7 +443,7 @@ export function BioDetailClient({ page, items, blocks: initialBlocks = [] }: Bio
                       <BioBlockToolbar
                         onAddBlock={handleAddBlock}
                         blockCount={blocks.length}
-                        maxBlocks={BIO_DEFAULTS.MAX_BLOCKS_PER_PAGE}
+                        maxBlocks={limits.blocks_per_page}
                       />
                     </div>
                     <button
@@ -502,7 +506,7 @@ export function BioDetailClient({ page, items, blocks: initialBlocks = [] }: Bio
 
               {/* Legacy link editor */}
               {layoutMode === 'list' && (
-                <BioLinkEditor pageId={page.id} links={links} onLinksChange={setLinks} />
+                <BioLinkEditor pageId={page.id} links={links} onLinksChange={setLinks} maxLinks={limits.links_per_page} />
               )}
 
               {/* Style section */}
@@ -553,6 +557,20 @@ export function BioDetailClient({ page, items, blocks: initialBlocks = [] }: Bio
                   <BarChart3 className="h-4 w-4" />
                   view analytics
                 </button>
+                <Link
+                  href={`/app/bio/${page.id}/leads`}
+                  className="mt-3 flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <Mail className="h-4 w-4" />
+                  lead routing
+                </Link>
+                <Link
+                  href={`/app/bio/${page.id}/domain`}
+                  className="mt-3 flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <Globe className="h-4 w-4" />
+                  custom domain
+                </Link>
               </div>
             </div>
           </div>
@@ -640,7 +658,7 @@ export function BioDetailClient({ page, items, blocks: initialBlocks = [] }: Bio
               <BioBlockToolbar
                 onAddBlock={(type) => { handleAddBlock(type); }}
                 blockCount={blocks.length}
-                maxBlocks={BIO_DEFAULTS.MAX_BLOCKS_PER_PAGE}
+                maxBlocks={limits.blocks_per_page}
               />
               <button
                 type="button"
@@ -718,6 +736,16 @@ export function BioDetailClient({ page, items, blocks: initialBlocks = [] }: Bio
             label="Analytics"
             onClick={() => setActiveSheet('analytics')}
           />
+          <MoreMenuItem
+            icon={Mail}
+            label="Lead routing"
+            onClick={() => router.push(`/app/bio/${page.id}/leads`)}
+          />
+          <MoreMenuItem
+            icon={Globe}
+            label="Custom domain"
+            onClick={() => router.push(`/app/bio/${page.id}/domain`)}
+          />
           {page.is_active && (
             <MoreMenuItem
               icon={ExternalLink}
@@ -896,7 +924,7 @@ const BLOCK_TYPE_LABELS: Record<string, string> = {
   social_icons: 'Social Icons', divider: 'Divider', spacer: 'Spacer',
   spotify_embed: 'Spotify', youtube_embed: 'YouTube', map: 'Map',
   countdown: 'Countdown', payment_link: 'Payment', gallery: 'Gallery',
-  contact_form: 'Contact Form',
+  contact_form: 'Contact Form', review_funnel: 'Review Funnel',
 };
 
 function getBlockLabel(type: string): string {
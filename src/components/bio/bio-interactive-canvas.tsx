@@ -987,6 +987,7 @@ const BLOCK_LABELS: Record<string, string> = {
   payment_link: 'Payment',
   gallery: 'Gallery',
   contact_form: 'Contact',
+  review_funnel: 'Reviews',
 };
 
 function getBlockPreviewLabel(block: BioBlock): string {
@@ -1,6 +1,7 @@
 'use client';
 
 import { ExternalLink } from 'lucide-react';
+import { appendClickId, generateClickId } from '@/lib/conversions/click-id';
 import type { BioThemeConfig, BioLinkIconType } from '@/types/bio';
 
 interface BioLinkButtonProps {
@@ -16,6 +17,8 @@ interface BioLinkButtonProps {
   themeConfig: BioThemeConfig;
   staggerIndex?: number;
   staggerDelay?: number;
+  /** Tag clicks with a conversion click ID (org has conversion tracking on) */
+  trackConversions?: boolean;
 }
 
 /**
@@ -90,13 +93,19 @@ export function BioLinkButton({
   themeConfig,
   staggerIndex,
   staggerDelay = 80,
+  trackConversions = false,
 }: BioLinkButtonProps) {
-  const handleClick = () => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    // A fresh click ID per click, carried to the destination for the
+    // org's conversion snippet
+    const clickId = trackConversions ? generateClickId() : undefined;
+    if (clickId) e.currentTarget.href = appendClickId(url, clickId);
+
     // Fire-and-forget click tracking via beacon (survives page navigation)
     try {
       navigator.sendBeacon(
         '/api/bio/track',
-        JSON.stringify({ item_id: itemId, page_id: pageId })
+        JSON.stringify({ item_id: itemId, page_id: pageId, click_id: clickId })
       );
     } catch {
       // Tracking is non-critical
@@ -33,7 +33,6 @@ import { Label } from '@/components/ui/label';
 import { BioLinkItemForm, type LinkIconFormData } from '@/components/bio/bio-link-item-form';
 import { cn } from '@/lib/utils';
 import { truncate } from '@/lib/utils';
-import { BIO_DEFAULTS } from '@/lib/constants';
 import type { BioLinkItem } from '@/types/bio';
 
 // ---------------------------------------------------------------------------
@@ -104,6 +103,8 @@ interface BioLinkEditorProps {
   pageId: string;
   links: BioLinkItem[];
   onLinksChange: (links: BioLinkItem[]) => void;
+  /** null when the plan has no cap */
+  maxLinks: number | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -284,13 +285,13 @@ function SortableRow({
 // Main editor
 // ---------------------------------------------------------------------------
 
-export function BioLinkEditor({ pageId, links, onLinksChange }: BioLinkEditorProps) {
+export function BioLinkEditor({ pageId, links, onLinksChange, maxLinks }: BioLinkEditorProps) {
   const [newTitle, setNewTitle] = useState('');
   const [newUrl, setNewUrl] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isAdding, setIsAdding] = useState(false);
 
-  const atLimit = links.length >= BIO_DEFAULTS.MAX_LINKS_PER_PAGE;
+  const atLimit = maxLinks !== null && links.length >= maxLinks;
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
@@ -490,7 +491,7 @@ export function BioLinkEditor({ pageId, links, onLinksChange }: BioLinkEditorPro
 
       {atLimit && (
         <p className="text-sm text-muted-foreground">
-          Maximum of {BIO_DEFAULTS.MAX_LINKS_PER_PAGE} links reached.
+          Maximum of {maxLinks} links reached.
         </p>
       )}
 
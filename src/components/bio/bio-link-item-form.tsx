@@ -1,12 +1,15 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { Globe, Smile, ImageIcon, Loader2 } from 'lucide-react';
+import { Globe, Smile, ImageIcon, Loader2, ChevronDown } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { UtmFields } from '@/components/campaigns/utm-fields';
 import { cn } from '@/lib/utils';
+import { normalizeUtm } from '@/lib/utm';
 import type { BioLinkItem, BioLinkIconType } from '@/types/bio';
+import type { UtmParams } from '@/types/qr';
 
 /** Data shape returned by the form on save */
 export interface LinkIconFormData {
@@ -17,6 +20,7 @@ export interface LinkIconFormData {
   icon_url: string | null;
   icon_bg_color: string | null;
   show_icon: boolean;
+  utm: UtmParams | null;
 }
 
 interface BioLinkItemFormProps {
@@ -53,6 +57,10 @@ export function BioLinkItemForm({ link, onSave, onCancel }: BioLinkItemFormProps
   // Icon background state
   const [iconBgColor, setIconBgColor] = useState(link.icon_bg_color ?? '');
 
+  // UTM tags, appended to the URL on the public page
+  const [utm, setUtm] = useState<UtmParams>(link.utm ?? {});
+  const [showUtm, setShowUtm] = useState(Boolean(link.utm));
+
   const titleTrimmed = title.trim();
   const urlTrimmed = url.trim();
   const isValid = titleTrimmed.length > 0 && urlTrimmed.length > 0;
@@ -89,7 +97,7 @@ export function BioLinkItemForm({ link, onSave, onCancel }: BioLinkItemFormProps
     e.preventDefault();
     if (!isValid) return;
 
-    let iconData: LinkIconFormData;
+    let iconData: Omit<LinkIconFormData, 'utm'>;
 
     const bgColor = iconBgColor.trim() || null;
 
@@ -139,7 +147,7 @@ export function BioLinkItemForm({ link, onSave, onCancel }: BioLinkItemFormProps
         };
     }
 
-    onSave(iconData);
+    onSave({ ...iconData, utm: normalizeUtm(utm) });
   };
 
   const iconModes: { id: IconMode; label: string; icon: React.ReactNode }[] = [
@@ -339,6 +347,22 @@ export function BioLinkItemForm({ link, onSave, onCancel }: BioLinkItemFormProps
         )}
       </div>
 
+      {/* UTM tags */}
+      <div className="flex flex-col gap-2">
+        <button
+          type="button"
+          onClick={() => setShowUtm((open) => !open)}
+          className="flex items-center gap-1 self-start text-sm font-medium"
+          aria-expanded={showUtm}
+        >
+          UTM tags
+          <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', showUtm && 'rotate-180')} />
+        </button>
+        {showUtm && (
+          <UtmFields idPrefix={`edit-${link.id}`} value={utm} onChange={setUtm} />
+        )}
+      </div>
+
       {/* Actions */}
       <div className="flex items-center gap-2">
         <Button type="submit" size="sm" disabled={!isValid}>
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Check, Copy, Loader2 } from 'lucide-react';
+import { Button, Input, Label, useToast } from '@/components/ui';
+import type { BioCustomDomain, BioCustomDomainStatus } from '@/types/bio';
+
+interface CustomDomainSettingsProps {
+  pageId: string;
+  isPro: boolean;
+  initialDomain: BioCustomDomain | null;
+  /** Why a previous domain was released, if it was */
+  initialError: string | null;
+}
+
+interface DomainResponse {
+  domain?: BioCustomDomain | null;
+  last_error?: string | null;
+  error?: string;
+  details?: { fieldErrors?: Record<string, string[]> };
+}
+
+const STATUS_COPY: Record<BioCustomDomainStatus, { label: string; hint: string }> = {
+  pending: {
+    label: 'Waiting for DNS',
+    hint: 'Add both records below at your DNS provider. Changes can take a while to propagate; we check every few minutes.',
+  },
+  verified: {
+    label: 'Verified',
+    hint: 'DNS checks out. We are setting up hosting and a certificate for your domain.',
+  },
+  active: {
+    label: 'Live',
+    hint: 'Your page is being served on this domain.',
+  },
+};
+
+function statusBadgeClass(status: BioCustomDomainStatus) {
+  switch (status) {
+    case 'active':
+      return 'bg-lynx-500/15 text-lynx-400 border border-lynx-400/30';
+    case 'verified':
+      return 'bg-sky-500/15 text-sky-300 border border-sky-400/30';
+    default:
+      return 'bg-zinc-800 text-zinc-200 border border-zinc-700';
+  }
+}
+
+function CopyValue({ value }: { value: string }) {
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopy() {
+    await navigator.clipboard.writeText(value);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  }
+
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <code className="flex-1 min-w-0 truncate font-mono text-xs text-zinc-200">{value}</code>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="shrink-0 text-zinc-400 hover:text-zinc-200 transition-colors"
+        aria-label="Copy"
+      >
+        {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </button>
+    </div>
+  );
+}
+
+export function CustomDomainSettings({
+  pageId,
+  isPro,
+  initialDomain,
+  initialError,
+}: CustomDomainSettingsProps) {
+  const { addToast } = useToast();
+  const [domain, setDomain] = useState<BioCustomDomain | null>(initialDomain);
+  const [lastError, setLastError] = useState<string | null>(initialError);
+  const [input, setInput] = useState('');
+  const [busy, setBusy] = useState<'save' | 'verify' | 'remove' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function call(method: 'PUT' | 'DELETE' | 'POST', path: string, body?: unknown) {
+    const res = await fetch(`/api/bio/${pageId}/${path}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      credentials: 'same-origin',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const json = (await res.json().catch(() => ({}))) as DomainResponse;
+    return { res, json };
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy('save');
+    setError(null);
+    try {
+      const { res, json } = await call('PUT', 'domain', { domain: input });
+      if (!res.ok) {
+        setError(
+          json.error === 'pro_plan_required'
+            ? 'Custom domains require a Pro plan.'
+            : json.details?.fieldErrors?.domain?.[0] ?? json.error ?? `Failed (${res.status})`
+        );
+        return;
+      }
+      setDomain(json.domain ?? null);
+      setLastError(null);
+      setInput('');
+    } catch {
+      setError('Network error');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleVerify() {
+    setBusy('verify');
+    setError(null);
+    try {
+      const { res, json } = await call('POST', 'domain/verify');
+      if (!res.ok) {
+        setError(json.error ?? `Failed (${res.status})`);
+        return;
+      }
+      setDomain(json.domain ?? null);
+      setLastError(json.last_error ?? null);
+      if (json.domain?.status === 'active') {
+        addToast({ title: 'Domain is live', variant: 'success' });
+      }
+    } catch {
+      setError('Network error');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleRemove() {
+    if (!domain || !confirm(`Disconnect ${domain.domain}? Visitors to it will no longer see this page.`)) {
+      return;
+    }
+    setBusy('remove');
+    setError(null);
+    try {
+      const { res, json } = await call('DELETE', 'domain');
+      if (!res.ok) {
+        setError(json.error ?? `Failed (${res.status})`);
+        return;
+      }
+      setDomain(null);
+      setLastError(null);
+    } catch {
+      setError('Network error');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!isPro && !domain) {
+    return (
+      <div className="rounded-lg border border-zinc-800 p-5 space-y-3">
+        <div className="flex items-center gap-2">
+          <h2 className="text-base font-medium text-zinc-100">Custom domains</h2>
+          <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wider rounded bg-lynx-500/15 text-lynx-400 border border-lynx-400/20">
+            Pro
+          </span>
+        </div>
+        <p className="text-sm text-zinc-400">
+          Put this page on your own domain so customers see your brand, not ours.
+        </p>
+        <Link
+          href="/pricing"
+          className="inline-flex items-center gap-2 text-sm font-medium text-lynx-400 hover:text-lynx-300"
+        >
+          Upgrade to Pro
+          <span aria-hidden>→</span>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!domain) {
+    return (
+      <form onSubmit={handleSave} className="space-y-3">
+        {lastError && (
+          <p className="rounded-md border border-zinc-800 bg-zinc-900/60 px-3 py-2 text-sm text-zinc-400">
+            {lastError}
+          </p>
+        )}
+        <div className="space-y-1.5">
+          <Label htmlFor="custom-domain">Domain</Label>
+          <Input
+            id="custom-domain"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="links.example.com"
+            autoComplete="off"
+          />
+          <p className="text-xs text-zinc-500">
+            Use a subdomain you control. One domain per page; wildcards aren&apos;t supported.
+          </p>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="submit" disabled={busy !== null || !input.trim()}>
+          {busy === 'save' ? <><Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />saving...</> : 'connect domain'}
+        </Button>
+      </form>
+    );
+  }
+
+  const copy = STATUS_COPY[domain.status];
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-zinc-800 p-5 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <p className="font-mono text-sm text-zinc-100 break-all">{domain.domain}</p>
+          <span className={`shrink-0 rounded px-1.5 py-0.5 text-xs ${statusBadgeClass(domain.status)}`}>
+            {copy.label}
+          </span>
+        </div>
+        <p className="text-sm text-zinc-400">{copy.hint}</p>
+        {domain.error && <p className="text-xs text-zinc-500">Last check: {domain.error}</p>}
+        {!isPro && (
+          <p className="text-xs text-destructive">
+            Your plan no longer includes custom domains, so this domain is not being served.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-base font-medium text-zinc-100">DNS records</h2>
+        <div className="overflow-x-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/60 text-left text-xs text-zinc-400">
+              <tr>
+                <th className="px-3 py-2 font-medium w-20">Type</th>
+                <th className="px-3 py-2 font-medium">Name</th>
+                <th className="px-3 py-2 font-medium">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {domain.records.map((record) => (
+                <tr key={record.type}>
+                  <td className="px-3 py-2 text-zinc-300">{record.type}</td>
+                  <td className="px-3 py-2 max-w-0 w-1/2"><CopyValue value={record.name} /></td>
+                  <td className="px-3 py-2 max-w-0 w-1/2"><CopyValue value={record.value} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-zinc-500">
+          Last checked {domain.checked_at ? new Date(domain.checked_at).toLocaleString() : 'never'}.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        {domain.status !== 'active' && (
+          <Button type="button" onClick={handleVerify} disabled={busy !== null}>
+            {busy === 'verify' ? <><Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />checking...</> : 'check now'}
+          </Button>
+        )}
+        <Button type="button" variant="outline" onClick={handleRemove} disabled={busy !== null}>
+          {busy === 'remove' ? 'removing...' : 'disconnect'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import type {
   BioBlockContentPaymentLink,
   BioBlockContentGallery,
   BioBlockContentContactForm,
+  BioBlockContentReviewFunnel,
 } from '@/types/bio';
 import { LinkForm } from './forms/link-form';
 import { HeadingForm } from './forms/heading-form';
@@ -34,6 +35,7 @@ import { CountdownForm } from './forms/countdown-form';
 import { PaymentLinkForm } from './forms/payment-link-form';
 import { GalleryForm } from './forms/gallery-form';
 import { ContactFormForm } from './forms/contact-form-form';
+import { ReviewFunnelForm } from './forms/review-funnel-form';
 
 interface BioBlockEditPanelProps {
   block: BioBlock;
@@ -58,6 +60,7 @@ const BLOCK_TYPE_LABELS: Record<BioBlockType, string> = {
   payment_link: 'Payment Link',
   gallery: 'Image Gallery',
   contact_form: 'Contact Form',
+  review_funnel: 'Review Funnel',
 };
 
 export function BioBlockEditPanel({
@@ -223,6 +226,8 @@ function BlockFormSwitch({
       );
     case 'contact_form':
       return <ContactFormForm content={block.content as BioBlockContentContactForm} onChange={onUpdate} />;
+    case 'review_funnel':
+      return <ReviewFunnelForm content={block.content as BioBlockContentReviewFunnel} onChange={onUpdate} />;
     default:
       return <p className="text-xs text-muted-foreground">No editor available for this block type.</p>;
   }
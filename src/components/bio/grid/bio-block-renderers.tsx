@@ -24,6 +24,7 @@ import {
   Timer,
   DollarSign,
   FileText,
+  Star,
 } from 'lucide-react';
 import type {
   BioBlock,
@@ -41,9 +42,10 @@ import type {
   BioBlockContentPaymentLink,
   BioBlockContentGallery,
   BioBlockContentContactForm,
+  BioBlockContentReviewFunnel,
   BioThemeConfig,
 } from '@/types/bio';
-import { SOCIAL_PLATFORMS } from '@/lib/constants';
+import { SOCIAL_PLATFORMS, REVIEW_PLATFORMS, BIO_DEFAULTS } from '@/lib/constants';
 
 // ─── Main Renderer ──────────────────────────────────────────────────
 
@@ -156,6 +158,13 @@ export function BlockRenderer({ block, compact, themeConfig }: BlockRendererProp
           compact={compact}
         />
       );
+    case 'review_funnel':
+      return (
+        <ReviewFunnelBlockRenderer
+          content={block.content as BioBlockContentReviewFunnel}
+          compact={compact}
+        />
+      );
     default:
       return (
         <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
@@ -811,3 +820,44 @@ function ContactFormBlockRenderer({
     </div>
   );
 }
+
+// ─── Review Funnel ────────────────────────────────────────────────────
+
+function ReviewFunnelBlockRenderer({
+  content,
+  compact,
+}: {
+  content: BioBlockContentReviewFunnel;
+  compact?: boolean;
+}) {
+  if (!content.review_url) {
+    return (
+      <div className="flex h-full w-full flex-col items-center justify-center gap-1.5 rounded-sm border border-dashed border-border">
+        <Star className={`text-muted-foreground ${compact ? 'h-4 w-4' : 'h-6 w-6'}`} />
+        <span className="text-[10px] text-muted-foreground">Add review link</span>
+      </div>
+    );
+  }
+
+  const platformLabel =
+    REVIEW_PLATFORMS.find((p) => p.id === content.platform)?.label ?? 'Reviews';
+  const minPublicRating = content.min_public_rating ?? BIO_DEFAULTS.REVIEW_FUNNEL_MIN_PUBLIC_RATING;
+
+  return (
+    <div className="flex h-full w-full items-center justify-center gap-2.5 rounded-sm bg-secondary px-3">
+      <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-foreground/5">
+        <Star
+          className={compact ? 'h-3 w-3' : 'h-3.5 w-3.5'}
+        />
+      </div>
+      <div className="min-w-0 flex-1">
+        <span className={`block truncate font-medium text-foreground ${compact ? 'text-xs' : 'text-sm'}`}>
+          {content.prompt || 'How was your visit?'}
+        </span>
+        <span className="block truncate text-[10px] text-muted-foreground">
+          {minPublicRating}★+ to {platformLabel}, lower to private feedback
+        </span>
+      </div>
+    </div>
+  );
+}
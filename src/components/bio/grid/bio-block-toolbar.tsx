@@ -15,13 +15,15 @@ import {
   DollarSign,
   Images,
   FileText,
+  Star,
 } from 'lucide-react';
 import type { BioBlockType } from '@/types/bio';
 
 interface BioBlockToolbarProps {
   onAddBlock: (blockType: BioBlockType) => void;
   blockCount: number;
-  maxBlocks: number;
+  /** null when the plan has no cap */
+  maxBlocks: number | null;
 }
 
 const BLOCK_TYPES: {
@@ -43,6 +45,7 @@ const BLOCK_TYPES: {
   { type: 'payment_link', icon: DollarSign, label: 'Payment' },
   { type: 'gallery', icon: Images, label: 'Gallery' },
   { type: 'contact_form', icon: FileText, label: 'Contact' },
+  { type: 'review_funnel', icon: Star, label: 'Reviews' },
 ];
 
 export function BioBlockToolbar({
@@ -50,14 +53,14 @@ export function BioBlockToolbar({
   blockCount,
   maxBlocks,
 }: BioBlockToolbarProps) {
-  const atMax = blockCount >= maxBlocks;
+  const atMax = maxBlocks !== null && blockCount >= maxBlocks;
 
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium text-foreground">add block</span>
         <span className="rounded-sm bg-secondary px-2 py-0.5 text-xs tabular-nums text-muted-foreground">
-          {blockCount} / {maxBlocks}
+          {maxBlocks === null ? blockCount : `${blockCount} / ${maxBlocks}`}
         </span>
       </div>
 
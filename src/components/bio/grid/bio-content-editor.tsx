@@ -3,6 +3,7 @@
 import type { BioBlock, BioLinkItem, BioLayoutMode } from '@/types/bio';
 import { BioGridEditor } from './bio-grid-editor';
 import { BioLinkEditor } from '@/components/bio/bio-link-editor';
+import type { PlanLimits } from '@/lib/org/entitlements';
 
 interface BioContentEditorProps {
   layoutMode: BioLayoutMode;
@@ -10,6 +11,7 @@ interface BioContentEditorProps {
   links: BioLinkItem[];
   pageId: string;
   onBlocksChange: (blocks: BioBlock[]) => void;
+  limits: PlanLimits;
   // Legacy link editor props
   onLinksChange?: (links: BioLinkItem[]) => void;
 }
@@ -21,6 +23,7 @@ export function BioContentEditor({
   pageId,
   onBlocksChange,
   onLinksChange,
+  limits,
 }: BioContentEditorProps) {
   if (layoutMode === 'grid') {
     return (
@@ -28,6 +31,7 @@ export function BioContentEditor({
         blocks={blocks}
         pageId={pageId}
         onBlocksChange={onBlocksChange}
+        maxBlocks={limits.blocks_per_page}
       />
     );
   }
@@ -38,6 +42,7 @@ export function BioContentEditor({
       pageId={pageId}
       links={links}
       onLinksChange={onLinksChange ?? (() => {})}
+      maxLinks={limits.links_per_page}
     />
   );
 }
@@ -3,7 +3,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { LayoutTemplate } from 'lucide-react';
 import type { BioBlock, BioBlockType, BioBlockContent } from '@/types/bio';
-import { BIO_DEFAULTS } from '@/lib/constants';
 import { BIO_TEMPLATES_MAP } from '@/lib/bio/templates';
 import type { BioTemplate, BioTemplateBlock } from '@/lib/bio/templates';
 import { useGridLayout } from './use-grid-layout';
@@ -16,12 +15,14 @@ interface BioGridEditorProps {
   blocks: BioBlock[];
   pageId: string;
   onBlocksChange: (blocks: BioBlock[]) => void;
+  maxBlocks: number | null;
 }
 
 export function BioGridEditor({
   blocks: initialBlocks,
   pageId,
   onBlocksChange,
+  maxBlocks,
 }: BioGridEditorProps) {
   const {
     blocks,
@@ -197,7 +198,7 @@ export function BioGridEditor({
             <BioBlockToolbar
               onAddBlock={handleAddBlock}
               blockCount={blocks.length}
-              maxBlocks={BIO_DEFAULTS.MAX_BLOCKS_PER_PAGE}
+              maxBlocks={maxBlocks}
             />
           </div>
           <button
@@ -1,5 +1,6 @@
 'use client';
 
+import { UtmFields } from '@/components/campaigns/utm-fields';
 import type { BioBlockContentLink } from '@/types/bio';
 
 interface LinkFormProps {
@@ -76,6 +77,18 @@ export function LinkForm({ content, onChange }: LinkFormProps) {
           Show icon
         </label>
       </div>
+
+      {/* UTM tags */}
+      <div>
+        <label className="mb-1 block text-xs font-medium text-muted-foreground">
+          UTM tags (added to the URL on your page)
+        </label>
+        <UtmFields
+          idPrefix="link-block"
+          value={content.utm ?? {}}
+          onChange={(utm) => onChange({ ...content, utm })}
+        />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,120 @@
+'use client';
+
+import type { BioBlockContentReviewFunnel, BioReviewPlatform } from '@/types/bio';
+import { BIO_DEFAULTS, REVIEW_PLATFORMS } from '@/lib/constants';
+
+interface ReviewFunnelFormProps {
+  content: BioBlockContentReviewFunnel;
+  onChange: (content: BioBlockContentReviewFunnel) => void;
+}
+
+const THRESHOLD_OPTIONS = [
+  { value: 5, label: '5 stars only' },
+  { value: 4, label: '4 stars and above' },
+  { value: 3, label: '3 stars and above' },
+  { value: 2, label: '2 stars and above' },
+];
+
+export function ReviewFunnelForm({ content, onChange }: ReviewFunnelFormProps) {
+  const inputClass =
+    'w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:border-ring focus:outline-none focus:ring-1 focus:ring-ring';
+  const labelClass = 'mb-1 block text-xs font-medium text-muted-foreground';
+
+  const platform = REVIEW_PLATFORMS.find((p) => p.id === content.platform) ?? REVIEW_PLATFORMS[0];
+  const minPublicRating = content.min_public_rating ?? BIO_DEFAULTS.REVIEW_FUNNEL_MIN_PUBLIC_RATING;
+
+  return (
+    <div className="space-y-3">
+      {/* Prompt */}
+      <div>
+        <label className={labelClass}>Prompt</label>
+        <input
+          type="text"
+          value={content.prompt ?? ''}
+          onChange={(e) => onChange({ ...content, prompt: e.target.value })}
+          placeholder="How was your visit?"
+          maxLength={150}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Review platform */}
+      <div>
+        <label className={labelClass}>Review site</label>
+        <select
+          value={content.platform}
+          onChange={(e) =>
+            onChange({ ...content, platform: e.target.value as BioReviewPlatform })
+          }
+          className={inputClass}
+        >
+          {REVIEW_PLATFORMS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Review URL */}
+      <div>
+        <label className={labelClass}>Review page URL</label>
+        <input
+          type="url"
+          value={content.review_url}
+          onChange={(e) => onChange({ ...content, review_url: e.target.value })}
+          placeholder={platform.placeholder}
+          className={inputClass}
+        />
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          Where happy customers are sent to leave a public {platform.label} review.
+        </p>
+      </div>
+
+      {/* Threshold */}
+      <div>
+        <label className={labelClass}>Send to {platform.label} for</label>
+        <select
+          value={minPublicRating}
+          onChange={(e) => onChange({ ...content, min_public_rating: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {THRESHOLD_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          Lower ratings open a private feedback form. Responses appear in your form submissions.
+        </p>
+      </div>
+
+      {/* Feedback form title */}
+      <div>
+        <label className={labelClass}>Feedback form title</label>
+        <input
+          type="text"
+          value={content.feedback_title ?? ''}
+          onChange={(e) => onChange({ ...content, feedback_title: e.target.value })}
+          placeholder="Sorry to hear that. What could we do better?"
+          maxLength={100}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Success message */}
+      <div>
+        <label className={labelClass}>Feedback thank-you message</label>
+        <input
+          type="text"
+          value={content.success_message ?? ''}
+          onChange={(e) => onChange({ ...content, success_message: e.target.value })}
+          placeholder="Thanks for letting us know. We'll be in touch."
+          maxLength={300}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
@@ -168,6 +168,8 @@ export function getDefaultContent(blockType: BioBlockType): Record<string, unkno
       return { display_mode: 'grid', columns: 3, images: [] };
     case 'contact_form':
       return { fields: ['name', 'email', 'message'], form_title: 'Get in Touch' };
+    case 'review_funnel':
+      return { platform: 'google', review_url: '', prompt: 'How was your visit?', min_public_rating: 4 };
     default:
       return {};
   }
@@ -206,6 +208,8 @@ export function getDefaultSize(blockType: BioBlockType): { colSpan: number; rowS
       return { colSpan: 4, rowSpan: 2 };
     case 'contact_form':
       return { colSpan: 4, rowSpan: 2 };
+    case 'review_funnel':
+      return { colSpan: 4, rowSpan: 2 };
     default:
       return { colSpan: 4, rowSpan: 1 };
   }
@@ -0,0 +1,342 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button, Input, Label, useToast } from '@/components/ui';
+import { LEAD_ROUTING_DEFAULTS } from '@/lib/constants';
+import type {
+  BioFormEmailLogEntry,
+  BioFormEmailStatus,
+  BioLeadRouting,
+} from '@/types/bio';
+
+export interface LeadFormBlock {
+  id: string;
+  label: string;
+}
+
+interface LeadRoutingSettingsProps {
+  pageId: string;
+  /** Where notifications go when no recipients are configured */
+  fallbackEmail: string | null;
+  initialRouting: BioLeadRouting | null;
+  formBlocks: LeadFormBlock[];
+}
+
+const DEFAULT_AUTORESPONDER = {
+  subject: 'Thanks for getting in touch, {{name}}',
+  message: 'Hi {{name}},\n\nThanks for your message to {{page}}. We\'ll get back to you soon.',
+};
+
+function parseAddresses(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+function statusBadgeClass(status: BioFormEmailStatus) {
+  switch (status) {
+    case 'sent':
+      return 'bg-lynx-500/15 text-lynx-400 border border-lynx-400/30';
+    case 'failed':
+      return 'bg-destructive/15 text-destructive border border-destructive/30';
+    default:
+      return 'bg-zinc-800 text-zinc-200 border border-zinc-700';
+  }
+}
+
+export function LeadRoutingSettings({
+  pageId,
+  fallbackEmail,
+  initialRouting,
+  formBlocks,
+}: LeadRoutingSettingsProps) {
+  const { addToast } = useToast();
+  const [recipients, setRecipients] = useState(
+    (initialRouting?.recipients ?? []).join(', ')
+  );
+  const [overrides, setOverrides] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(initialRouting?.block_overrides ?? {}).map(([id, list]) => [
+        id,
+        list.join(', '),
+      ])
+    )
+  );
+  const [autoEnabled, setAutoEnabled] = useState(
+    initialRouting?.autoresponder?.enabled ?? false
+  );
+  const [autoSubject, setAutoSubject] = useState(
+    initialRouting?.autoresponder?.subject ?? DEFAULT_AUTORESPONDER.subject
+  );
+  const [autoMessage, setAutoMessage] = useState(
+    initialRouting?.autoresponder?.message ?? DEFAULT_AUTORESPONDER.message
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function save(routing: BioLeadRouting | null) {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/bio/${pageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ lead_routing: routing }),
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        error?: string;
+        details?: { fieldErrors?: Record<string, string[]> };
+      };
+      if (!res.ok) {
+        const detail = json.details?.fieldErrors?.lead_routing?.[0];
+        setError(detail ?? json.error ?? `Failed (${res.status})`);
+        return;
+      }
+      addToast({ title: 'Lead routing saved', variant: 'success' });
+    } catch {
+      setError('Network error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    const blockOverrides: Record<string, string[]> = {};
+    for (const block of formBlocks) {
+      const list = parseAddresses(overrides[block.id] ?? '');
+      if (list.length > 0) blockOverrides[block.id] = list;
+    }
+    save({
+      recipients: parseAddresses(recipients),
+      block_overrides: blockOverrides,
+      autoresponder:
+        autoEnabled || initialRouting?.autoresponder
+          ? { enabled: autoEnabled, subject: autoSubject, message: autoMessage }
+          : null,
+    });
+  }
+
+  function handleReset() {
+    setRecipients('');
+    setOverrides({});
+    setAutoEnabled(false);
+    setAutoSubject(DEFAULT_AUTORESPONDER.subject);
+    setAutoMessage(DEFAULT_AUTORESPONDER.message);
+    save(null);
+  }
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleSave} className="space-y-8">
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-base font-medium text-zinc-100">Notify</h2>
+            <p className="text-sm text-zinc-400">
+              Every form submission on this page is emailed to these addresses.
+              {fallbackEmail
+                ? <> Leave empty to use {fallbackEmail}.</>
+                : <> Leave empty to use your account email.</>}
+            </p>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="lead-recipients">Recipients</Label>
+            <Input
+              id="lead-recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder="sales@example.com, owner@example.com"
+            />
+            <p className="text-xs text-zinc-500">
+              Separate addresses with commas. Up to {LEAD_ROUTING_DEFAULTS.MAX_RECIPIENTS}.
+            </p>
+          </div>
+        </section>
+
+        {formBlocks.length > 0 && (
+          <section className="space-y-3">
+            <div>
+              <h2 className="text-base font-medium text-zinc-100">Per-form overrides</h2>
+              <p className="text-sm text-zinc-400">
+                Send a specific form somewhere else instead. Empty uses the list above.
+              </p>
+            </div>
+            {formBlocks.map((block) => (
+              <div key={block.id} className="space-y-1.5">
+                <Label htmlFor={`lead-override-${block.id}`}>{block.label}</Label>
+                <Input
+                  id={`lead-override-${block.id}`}
+                  value={overrides[block.id] ?? ''}
+                  onChange={(e) =>
+                    setOverrides((prev) => ({ ...prev, [block.id]: e.target.value }))
+                  }
+                  placeholder="Same as page recipients"
+                />
+              </div>
+            ))}
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-base font-medium text-zinc-100">Autoresponder</h2>
+            <p className="text-sm text-zinc-400">
+              Reply to the person who submitted the form. Use {'{{name}}'} and {'{{page}}'} as placeholders.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-zinc-200">
+            <input
+              type="checkbox"
+              checked={autoEnabled}
+              onChange={(e) => setAutoEnabled(e.target.checked)}
+              className="h-4 w-4 rounded border-zinc-700 bg-zinc-900"
+            />
+            Send an automatic reply
+          </label>
+          {autoEnabled && (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="lead-auto-subject">Subject</Label>
+                <Input
+                  id="lead-auto-subject"
+                  value={autoSubject}
+                  onChange={(e) => setAutoSubject(e.target.value)}
+                  maxLength={LEAD_ROUTING_DEFAULTS.MAX_AUTORESPONDER_SUBJECT}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="lead-auto-message">Message</Label>
+                <textarea
+                  id="lead-auto-message"
+                  value={autoMessage}
+                  onChange={(e) => setAutoMessage(e.target.value)}
+                  maxLength={LEAD_ROUTING_DEFAULTS.MAX_AUTORESPONDER_MESSAGE}
+                  rows={6}
+                  className="w-full rounded-md border border-zinc-800 bg-zinc-950 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-zinc-600"
+                />
+              </div>
+            </div>
+          )}
+        </section>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex items-center gap-2">
+          <Button type="submit" disabled={saving}>
+            {saving ? <><Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />saving...</> : 'save routing'}
+          </Button>
+          <Button type="button" variant="outline" disabled={saving} onClick={handleReset}>
+            reset to default
+          </Button>
+        </div>
+      </form>
+
+      <EmailLog pageId={pageId} />
+    </div>
+  );
+}
+
+function EmailLog({ pageId }: { pageId: string }) {
+  const [entries, setEntries] = useState<BioFormEmailLogEntry[] | null>(null);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    const qs = failedOnly ? '?status=failed' : '';
+    try {
+      const res = await fetch(`/api/bio/${pageId}/email-log${qs}`, {
+        credentials: 'same-origin',
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        data?: BioFormEmailLogEntry[];
+        error?: string;
+      };
+      if (!res.ok) {
+        setError(json.error ?? `Failed (${res.status})`);
+        return;
+      }
+      setEntries(json.data ?? []);
+    } catch {
+      setError('Network error');
+    }
+  }, [pageId, failedOnly]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <section className="space-y-3 border-t border-zinc-800 pt-6">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-base font-medium text-zinc-100">Recent emails</h2>
+          <p className="text-sm text-zinc-400">
+            Notifications and autoresponders sent for this page.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={failedOnly}
+              onChange={(e) => setFailedOnly(e.target.checked)}
+              className="h-3.5 w-3.5 rounded border-zinc-700 bg-zinc-900"
+            />
+            failed only
+          </label>
+          <Button type="button" variant="outline" size="sm" onClick={load}>
+            <RefreshCw className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {entries === null ? (
+        <p className="text-sm text-zinc-500">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-zinc-500">No emails yet.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/60 text-left text-xs text-zinc-400">
+              <tr>
+                <th className="px-3 py-2 font-medium">When</th>
+                <th className="px-3 py-2 font-medium">Type</th>
+                <th className="px-3 py-2 font-medium">To</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {entries.map((entry) => (
+                <tr key={entry.id} className="align-top">
+                  <td className="px-3 py-2 whitespace-nowrap text-zinc-400">
+                    {formatDateTime(entry.created_at)}
+                  </td>
+                  <td className="px-3 py-2 text-zinc-300">{entry.kind}</td>
+                  <td className="px-3 py-2 text-zinc-200 break-all">{entry.recipient}</td>
+                  <td className="px-3 py-2">
+                    <span className={`inline-block rounded px-1.5 py-0.5 text-xs ${statusBadgeClass(entry.status)}`}>
+                      {entry.status}
+                    </span>
+                    {entry.error && (
+                      <p className="mt-1 text-xs text-zinc-500 break-words">{entry.error}</p>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
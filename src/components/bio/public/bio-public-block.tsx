@@ -15,6 +15,7 @@ import type {
   BioBlockContentPaymentLink,
   BioBlockContentGallery,
   BioBlockContentContactForm,
+  BioBlockContentReviewFunnel,
 } from '@/types/bio';
 
 import { PublicLinkBlock } from './block-renderers/link-block';
@@ -31,12 +32,14 @@ import { PublicCountdownBlock } from './block-renderers/countdown-block';
 import { PublicPaymentLinkBlock } from './block-renderers/payment-link-block';
 import { PublicGalleryBlock } from './block-renderers/gallery-block';
 import { PublicContactFormBlock } from './block-renderers/contact-form-block';
+import { PublicReviewFunnelBlock } from './block-renderers/review-funnel-block';
 
 interface BioPublicBlockProps {
   block: BioBlock;
   themeConfig: BioThemeConfig;
   staggerIndex: number;
   pageId: string;
+  trackConversions?: boolean;
 }
 
 /**
@@ -48,6 +51,7 @@ export function BioPublicBlock({
   themeConfig,
   staggerIndex,
   pageId,
+  trackConversions = false,
 }: BioPublicBlockProps) {
   // Extract per-block style overrides and build a CSS style object
   const styleOverrides = (block.content as { style_overrides?: BioStyleOverrides }).style_overrides;
@@ -84,6 +88,7 @@ export function BioPublicBlock({
           pageId={pageId}
           themeConfig={themeConfig}
           staggerIndex={staggerIndex}
+          trackConversions={trackConversions}
         />
       );
 
@@ -192,6 +197,16 @@ export function BioPublicBlock({
         />
       );
 
+    case 'review_funnel':
+      return (
+        <PublicReviewFunnelBlock
+          content={block.content as BioBlockContentReviewFunnel}
+          themeConfig={themeConfig}
+          blockId={block.id}
+          pageId={pageId}
+        />
+      );
+
     default:
       return null;
   }
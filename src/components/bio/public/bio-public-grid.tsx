@@ -6,6 +6,8 @@ interface BioPublicGridProps {
   blocks: BioBlock[];
   themeConfig: BioThemeConfig;
   pageId: string;
+  /** Tag link clicks with a conversion click ID (org has conversion tracking on) */
+  trackConversions?: boolean;
 }
 
 /**
@@ -42,7 +44,7 @@ const BLOCK_PADDING_MAP: Record<string, string> = {
  * - Each block is placed using gridColumn/gridRow inline styles
  * - Spacing config drives both grid gap and per-block content padding
  */
-export function BioPublicGrid({ blocks, themeConfig, pageId }: BioPublicGridProps) {
+export function BioPublicGrid({ blocks, themeConfig, pageId, trackConversions = false }: BioPublicGridProps) {
   const spacingConfig = SPACING_MAP[themeConfig.spacing];
   const gap = spacingConfig.gap;
   const blockPadding = BLOCK_PADDING_MAP[themeConfig.spacing] ?? BLOCK_PADDING_MAP.normal;
@@ -93,6 +95,7 @@ export function BioPublicGrid({ blocks, themeConfig, pageId }: BioPublicGridProp
               themeConfig={themeConfig}
               staggerIndex={index}
               pageId={pageId}
+              trackConversions={trackConversions}
             />
           </div>
         );
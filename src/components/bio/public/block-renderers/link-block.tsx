@@ -1,6 +1,7 @@
 'use client';
 
 import { ExternalLink } from 'lucide-react';
+import { appendClickId, generateClickId } from '@/lib/conversions/click-id';
 import type { BioBlockContentLink, BioThemeConfig, BioLinkIconType } from '@/types/bio';
 
 interface PublicLinkBlockProps {
@@ -9,6 +10,7 @@ interface PublicLinkBlockProps {
   pageId: string;
   themeConfig: BioThemeConfig;
   staggerIndex: number;
+  trackConversions?: boolean;
 }
 
 /**
@@ -74,14 +76,20 @@ export function PublicLinkBlock({
   pageId,
   themeConfig,
   staggerIndex,
+  trackConversions = false,
 }: PublicLinkBlockProps) {
   const { buttonStyle, colors, fonts, animations } = themeConfig;
 
-  const handleClick = () => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    // A fresh click ID per click, carried to the destination for the
+    // org's conversion snippet
+    const clickId = trackConversions ? generateClickId() : undefined;
+    if (clickId) e.currentTarget.href = appendClickId(content.url, clickId);
+
     try {
       navigator.sendBeacon(
         '/api/bio/track',
-        JSON.stringify({ block_id: blockId, page_id: pageId }),
+        JSON.stringify({ block_id: blockId, page_id: pageId, click_id: clickId }),
       );
     } catch {
       // Tracking is non-critical
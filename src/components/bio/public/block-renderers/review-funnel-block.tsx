@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, Loader2, Star } from 'lucide-react';
+import type { BioBlockContentReviewFunnel, BioThemeConfig } from '@/types/bio';
+import { BIO_DEFAULTS } from '@/lib/constants';
+import { validateRedirectUrl } from '@/lib/security/url-validator';
+
+interface PublicReviewFunnelBlockProps {
+  content: BioBlockContentReviewFunnel;
+  themeConfig: BioThemeConfig;
+  blockId: string;
+  pageId: string;
+}
+
+type FunnelStage = 'rate' | 'feedback' | 'submitting' | 'success';
+
+/**
+ * Public-facing review funnel block renderer.
+ *
+ * Shows a 5-star prompt. Ratings at or above min_public_rating are sent to
+ * the configured public review site; lower ratings open a private feedback
+ * form that posts to /api/bio/[id]/form with the rating attached.
+ */
+export function PublicReviewFunnelBlock({
+  content,
+  themeConfig,
+  blockId,
+  pageId,
+}: PublicReviewFunnelBlockProps) {
+  const [stage, setStage] = useState<FunnelStage>('rate');
+  const [hovered, setHovered] = useState(0);
+  const [rating, setRating] = useState(0);
+  const [formData, setFormData] = useState({ name: '', email: '', message: '' });
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const { colors, borderRadius } = themeConfig;
+  const minPublicRating = content.min_public_rating ?? BIO_DEFAULTS.REVIEW_FUNNEL_MIN_PUBLIC_RATING;
+
+  const handleRate = (value: number) => {
+    setRating(value);
+
+    // Content saved before review_url was validated may hold anything; only follow http(s)
+    if (value >= minPublicRating && content.review_url && validateRedirectUrl(content.review_url)) {
+      try {
+        navigator.sendBeacon(
+          '/api/bio/track',
+          JSON.stringify({ block_id: blockId, page_id: pageId }),
+        );
+      } catch {
+        // Tracking is non-critical
+      }
+      window.location.href = content.review_url;
+      return;
+    }
+
+    setStage('feedback');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    const email = formData.email.trim();
+    const message = formData.message.trim();
+
+    if (!name || !email || !message) {
+      setErrorMessage('Please fill in every field.');
+      return;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setErrorMessage('Invalid email address');
+      return;
+    }
+
+    setStage('submitting');
+    setErrorMessage('');
+
+    try {
+      const res = await fetch(`/api/bio/${pageId}/form`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ block_id: blockId, name, email, message, rating }),
+      });
+
+      if (res.status === 429) {
+        setStage('feedback');
+        setErrorMessage('Too many submissions. Please try again later.');
+        return;
+      }
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setStage('feedback');
+        setErrorMessage(data.error || 'Something went wrong. Please try again.');
+        return;
+      }
+
+      setStage('success');
+    } catch {
+      setStage('feedback');
+      setErrorMessage('Something went wrong. Please try again.');
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    borderRadius,
+    borderColor: `${colors.text}20`,
+    backgroundColor: 'transparent',
+    color: colors.text,
+  };
+
+  if (stage === 'success') {
+    return (
+      <div className="flex h-full w-full flex-col items-center justify-center gap-3 px-4 py-6">
+        <CheckCircle className="h-8 w-8" style={{ color: colors.accent }} />
+        <p className="text-center text-sm font-medium" style={{ color: colors.accent }}>
+          {content.success_message || "Thanks for letting us know. We'll be in touch."}
+        </p>
+      </div>
+    );
+  }
+
+  const displayRating = hovered || rating;
+
+  return (
+    <div className="flex h-full w-full flex-col gap-3 px-4 py-4">
+      <p className="text-center text-base font-semibold" style={{ color: colors.text }}>
+        {content.prompt || 'How was your visit?'}
+      </p>
+
+      {/* Stars */}
+      <div
+        className="flex items-center justify-center gap-1.5"
+        role="radiogroup"
+        aria-label="Star rating"
+        onMouseLeave={() => setHovered(0)}
+      >
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={`${value} star${value > 1 ? 's' : ''}`}
+            disabled={stage !== 'rate'}
+            onMouseEnter={() => setHovered(value)}
+            onClick={() => handleRate(value)}
+            className="p-0.5 transition-transform hover:scale-110 disabled:hover:scale-100"
+          >
+            <Star
+              className="h-8 w-8"
+              style={{
+                color: colors.accent,
+                fill: value <= displayRating ? colors.accent : 'transparent',
+              }}
+            />
+          </button>
+        ))}
+      </div>
+
+      {/* Private feedback form */}
+      {stage !== 'rate' && (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2" noValidate>
+          <p className="text-sm font-medium" style={{ color: colors.text }}>
+            {content.feedback_title || 'Sorry to hear that. What could we do better?'}
+          </p>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="Your name..."
+            maxLength={200}
+            className="w-full border px-3 py-2 text-sm outline-none placeholder:opacity-40"
+            style={inputStyle}
+          />
+          <input
+            type="email"
+            value={formData.email}
+            onChange={(e) => setFormData((prev) => ({ ...prev, email: e.target.value }))}
+            placeholder="Your email..."
+            maxLength={200}
+            className="w-full border px-3 py-2 text-sm outline-none placeholder:opacity-40"
+            style={inputStyle}
+          />
+          <textarea
+            value={formData.message}
+            onChange={(e) => setFormData((prev) => ({ ...prev, message: e.target.value }))}
+            placeholder="Your feedback..."
+            rows={3}
+            maxLength={2000}
+            className="w-full resize-none border px-3 py-2 text-sm outline-none placeholder:opacity-40"
+            style={inputStyle}
+          />
+
+          {errorMessage && (
+            <p className="text-xs" style={{ color: '#ef4444' }}>
+              {errorMessage}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={stage === 'submitting'}
+            className="flex w-full items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium transition-opacity disabled:opacity-60"
+            style={{
+              backgroundColor: colors.accent,
+              color: colors.buttonText,
+              borderRadius,
+            }}
+          >
+            {stage === 'submitting' ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              'Send Feedback'
+            )}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -564,6 +564,12 @@ function PeopleSection({ profileId, people }: { profileId: string; people: Brand
                           Remove photo
                         </button>
                       )}
+                      <Link
+                        href={`/app/new?contact_person=${p.id}`}
+                        className="text-zinc-400 hover:text-zinc-100 underline"
+                      >
+                        Create contact QR
+                      </Link>
                     </div>
                   </div>
                   <Button variant="ghost" size="icon" onClick={() => deletePerson(p.id, p.full_name)} aria-label={`Remove ${p.full_name}`}>
@@ -0,0 +1,179 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Tags } from 'lucide-react';
+import { Button, Card, CardContent, Skeleton, useToast } from '@/components/ui';
+import { UtmFields } from './utm-fields';
+import { UTM_FIELDS } from '@/lib/utm';
+import { formatNumber } from '@/lib/utils';
+import type { UtmCampaignSummary } from '@/types/organization';
+import type { UtmParams } from '@/types/qr';
+
+function tagsOf(campaign: UtmCampaignSummary): UtmParams {
+  return {
+    source: campaign.source ?? '',
+    medium: campaign.medium ?? '',
+    campaign: campaign.campaign,
+    content: campaign.content ?? '',
+  };
+}
+
+/**
+ * Every UTM campaign in the active org, each editable in one go.
+ *
+ * Saving sends only the tags that were changed, so a tag that differs
+ * between items (shown blank) is left alone unless it is filled in.
+ */
+export function CampaignsPanel() {
+  const [campaigns, setCampaigns] = useState<UtmCampaignSummary[] | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCampaigns = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/org/campaigns');
+      if (res.ok) {
+        const data = await res.json();
+        setCampaigns(data.campaigns);
+      }
+    } catch {
+      // Non-critical
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Campaigns</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          UTM tags added to scans and bio link clicks, grouped by utm_campaign. Set tags on
+          a QR code&apos;s destination tab or on a bio link, then edit a whole campaign here.
+        </p>
+      </div>
+
+      {loading && !campaigns ? (
+        <div className="space-y-4">
+          <Skeleton className="h-[180px]" />
+          <Skeleton className="h-[180px]" />
+        </div>
+      ) : !campaigns ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          Unable to load campaigns.
+        </p>
+      ) : campaigns.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+            <Tags className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Nothing is tagged with a utm_campaign yet.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {campaigns.map((campaign) => (
+            <CampaignCard
+              key={campaign.campaign}
+              campaign={campaign}
+              onSaved={fetchCampaigns}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CampaignCard({
+  campaign,
+  onSaved,
+}: {
+  campaign: UtmCampaignSummary;
+  onSaved: () => void;
+}) {
+  const { addToast } = useToast();
+  const [utm, setUtm] = useState<UtmParams>(tagsOf(campaign));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const initial = tagsOf(campaign);
+  const changed = UTM_FIELDS.filter((f) => (utm[f] ?? '').trim() !== (initial[f] ?? ''));
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const patch: Record<string, string> = {};
+      for (const field of changed) patch[field] = utm[field] ?? '';
+
+      const res = await fetch('/api/org/campaigns', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaign: campaign.campaign, utm: patch }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update campaign');
+      }
+
+      const { updated } = await res.json();
+      addToast({
+        title: 'Campaign updated',
+        description: `${formatNumber(updated)} item${updated === 1 ? '' : 's'} retagged`,
+        variant: 'success',
+      });
+      onSaved();
+    } catch (error: any) {
+      addToast({
+        title: 'Failed to update campaign',
+        description: error.message,
+        variant: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const counts = [
+    { label: 'QR codes', value: campaign.qr_codes },
+    { label: 'bio links', value: campaign.bio_links },
+    { label: 'link blocks', value: campaign.link_blocks },
+  ].filter((c) => c.value > 0);
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="font-mono text-sm font-medium">{campaign.campaign}</h3>
+          <p className="text-xs text-muted-foreground">
+            {counts.map((c) => `${formatNumber(c.value)} ${c.label}`).join(' · ')}
+          </p>
+        </div>
+
+        <UtmFields
+          idPrefix={`campaign-${campaign.campaign}`}
+          value={utm}
+          onChange={setUtm}
+          disabled={isSaving}
+        />
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={save} disabled={isSaving || changed.length === 0}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            apply to campaign
+          </Button>
+          {changed.length > 0 && !isSaving && (
+            <Button size="sm" variant="ghost" onClick={() => setUtm(initial)}>
+              reset
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { Input, Label } from '@/components/ui';
+import { UTM_FIELDS, type UtmField } from '@/lib/utm';
+import type { UtmParams } from '@/types/qr';
+
+const FIELD_PLACEHOLDERS: Record<UtmField, string> = {
+  source: 'e.g. flyer',
+  medium: 'e.g. qr',
+  campaign: 'e.g. spring-sale',
+  content: 'e.g. window-poster',
+};
+
+interface UtmFieldsProps {
+  /** Prefix for input ids, unique per form on the page */
+  idPrefix: string;
+  value: UtmParams;
+  onChange: (value: UtmParams) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The four UTM tag inputs (utm_source, utm_medium, utm_campaign,
+ * utm_content), shared by the QR, bio link and link block editors.
+ */
+export function UtmFields({ idPrefix, value, onChange, disabled }: UtmFieldsProps) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {UTM_FIELDS.map((field) => (
+        <div key={field} className="flex flex-col gap-1.5">
+          <Label htmlFor={`${idPrefix}-utm-${field}`} className="text-xs">
+            utm_{field}
+          </Label>
+          <Input
+            id={`${idPrefix}-utm-${field}`}
+            value={value[field] ?? ''}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            placeholder={FIELD_PLACEHOLDERS[field]}
+            maxLength={100}
+            disabled={disabled}
+            className="text-sm"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
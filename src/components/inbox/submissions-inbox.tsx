@@ -0,0 +1,414 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, Download, Loader2, Mail, MailOpen, Search, Star, Trash2 } from 'lucide-react';
+import { Badge, Button, Input, Label, Select, useToast } from '@/components/ui';
+import { SUBMISSION_DEFAULTS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import type { InboxSubmission, SubmissionBulkAction, SubmissionStatusFilter } from '@/types/bio';
+
+const STATUS_TABS: { id: SubmissionStatusFilter; label: string }[] = [
+  { id: 'inbox', label: 'Inbox' },
+  { id: 'unread', label: 'Unread' },
+  { id: 'read', label: 'Read' },
+  { id: 'archived', label: 'Archived' },
+  { id: 'all', label: 'All' },
+];
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+export function SubmissionsInbox({ pages }: { pages: { id: string; title: string }[] }) {
+  const { addToast } = useToast();
+
+  const [status, setStatus] = useState<SubmissionStatusFilter>('inbox');
+  const [searchInput, setSearchInput] = useState('');
+  const [q, setQ] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [pageId, setPageId] = useState('');
+  const [offset, setOffset] = useState(0);
+
+  const [rows, setRows] = useState<InboxSubmission[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const limit = SUBMISSION_DEFAULTS.PAGE_SIZE;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({ status, limit: String(limit), offset: String(offset) });
+    if (q) params.set('q', q);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (pageId) params.set('page_id', pageId);
+    try {
+      const res = await fetch(`/api/inbox?${params}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load submissions');
+      setRows(json.data ?? []);
+      setTotal(json.total ?? 0);
+    } catch (error) {
+      addToast({
+        title: error instanceof Error ? error.message : 'Failed to load submissions',
+        variant: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, q, from, to, pageId, offset, limit, addToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // A new filter starts from the first page with nothing selected
+  function changeFilter(apply: () => void) {
+    apply();
+    setOffset(0);
+    setSelected(new Set());
+  }
+
+  async function runAction(ids: string[], action: SubmissionBulkAction) {
+    if (ids.length === 0) return false;
+    setBusy(true);
+    try {
+      const res = await fetch('/api/inbox/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, action }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to update submissions');
+      return true;
+    } catch (error) {
+      addToast({
+        title: error instanceof Error ? error.message : 'Failed to update submissions',
+        variant: 'error',
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleBulk(action: SubmissionBulkAction) {
+    const ids = Array.from(selected);
+    if (action === 'delete' && !confirm(`Delete ${ids.length} submission(s)? This cannot be undone.`)) return;
+    if (await runAction(ids, action)) {
+      setSelected(new Set());
+      if (openId && ids.includes(openId) && action === 'delete') setOpenId(null);
+      load();
+    }
+  }
+
+  async function openSubmission(row: InboxSubmission) {
+    setOpenId(row.id);
+    if (!row.is_read && (await runAction([row.id], 'mark_read'))) {
+      setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, is_read: true } : r)));
+    }
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function toggleAll() {
+    setSelected((prev) =>
+      prev.size === rows.length ? new Set() : new Set(rows.map((r) => r.id))
+    );
+  }
+
+  function exportHref() {
+    // Export needs a range; default to the last 30 days
+    const end = to || isoDay(new Date());
+    const start = from || isoDay(new Date(Date.now() - 29 * 86_400_000));
+    const params = new URLSearchParams({ from: start, to: end, status });
+    if (q) params.set('q', q);
+    if (pageId) params.set('page_id', pageId);
+    return `/api/inbox/export?${params}`;
+  }
+
+  const open = rows.find((r) => r.id === openId) ?? null;
+  const inArchive = status === 'archived';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Inbox</h1>
+          <p className="text-sm text-zinc-400 mt-1">
+            Contact form and private feedback submissions from every bio page.
+          </p>
+        </div>
+        <a href={exportHref()}>
+          <Button variant="outline" type="button">
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </a>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-1">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              onClick={() => changeFilter(() => setStatus(tab.id))}
+              className={cn(
+                'rounded-md px-3 py-1.5 text-sm transition-colors',
+                status === tab.id
+                  ? 'bg-zinc-800 text-zinc-50'
+                  : 'text-zinc-400 hover:text-zinc-200'
+              )}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              changeFilter(() => setQ(searchInput.trim()));
+            }}
+            className="space-y-1"
+          >
+            <Label htmlFor="inbox-search">Search</Label>
+            <div className="relative">
+              <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-500" />
+              <Input
+                id="inbox-search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onBlur={() => searchInput.trim() !== q && changeFilter(() => setQ(searchInput.trim()))}
+                placeholder="Name, email, subject or message"
+                className="pl-9"
+                maxLength={200}
+              />
+            </div>
+          </form>
+          <div className="space-y-1">
+            <Label htmlFor="inbox-from">From</Label>
+            <Input id="inbox-from" type="date" value={from} max={to || undefined} onChange={(e) => changeFilter(() => setFrom(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="inbox-to">To</Label>
+            <Input id="inbox-to" type="date" value={to} min={from || undefined} onChange={(e) => changeFilter(() => setTo(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="inbox-page">Page</Label>
+            <Select id="inbox-page" value={pageId} onChange={(e) => changeFilter(() => setPageId(e.target.value))}>
+              <option value="">All pages</option>
+              {pages.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {/* Bulk actions */}
+      {selected.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-zinc-800 bg-zinc-900 px-4 py-2 text-sm">
+          <span className="text-zinc-300 mr-2">{selected.size} selected</span>
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => handleBulk('mark_read')}>
+            <MailOpen className="h-4 w-4 mr-1" /> Mark read
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => handleBulk('mark_unread')}>
+            <Mail className="h-4 w-4 mr-1" /> Mark unread
+          </Button>
+          {inArchive ? (
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => handleBulk('unarchive')}>
+              <ArchiveRestore className="h-4 w-4 mr-1" /> Move to inbox
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => handleBulk('archive')}>
+              <Archive className="h-4 w-4 mr-1" /> Archive
+            </Button>
+          )}
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => handleBulk('delete')}>
+            <Trash2 className="h-4 w-4 mr-1" /> Delete
+          </Button>
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+        {/* List */}
+        <div className="rounded-xl border border-zinc-800 bg-zinc-900">
+          <div className="flex items-center justify-between border-b border-zinc-800 px-4 py-2 text-xs text-zinc-500">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rows.length > 0 && selected.size === rows.length}
+                onChange={toggleAll}
+                className="rounded border-zinc-700 bg-zinc-800"
+              />
+              Select all
+            </label>
+            <span>
+              {total === 0 ? '0' : `${offset + 1}–${Math.min(offset + limit, total)}`} of {total}
+            </span>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center min-h-[200px]">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="p-6 text-center text-sm text-zinc-500">No submissions match these filters.</p>
+          ) : (
+            <ul className="divide-y divide-zinc-800">
+              {rows.map((row) => (
+                <li
+                  key={row.id}
+                  className={cn(
+                    'flex items-start gap-3 px-4 py-3 text-sm cursor-pointer hover:bg-zinc-800/50',
+                    openId === row.id && 'bg-zinc-800/70'
+                  )}
+                  onClick={() => openSubmission(row)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(row.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleSelected(row.id)}
+                    className="mt-1 rounded border-zinc-700 bg-zinc-800"
+                    aria-label={`Select submission from ${row.name}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={cn('truncate', row.is_read ? 'text-zinc-300' : 'font-semibold text-zinc-50')}>
+                        {row.name}
+                      </span>
+                      <span className="shrink-0 text-xs text-zinc-500">
+                        {new Date(row.submitted_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <div className="truncate text-xs text-zinc-400">
+                      {row.subject || row.message}
+                    </div>
+                    <div className="mt-1 flex items-center gap-2 text-[11px] text-zinc-500">
+                      <span className="truncate">{row.page.title}</span>
+                      {row.rating !== null && (
+                        <span className="inline-flex items-center gap-0.5 text-amber-400">
+                          <Star className="h-3 w-3 fill-current" />
+                          {row.rating}
+                        </span>
+                      )}
+                      {row.archived_at && <Badge variant="outline">Archived</Badge>}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {total > limit && (
+            <div className="flex items-center justify-between border-t border-zinc-800 px-4 py-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset === 0 || loading}
+                onClick={() => setOffset(Math.max(0, offset - limit))}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset + limit >= total || loading}
+                onClick={() => setOffset(offset + limit)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Detail */}
+        <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5">
+          {!open ? (
+            <p className="text-sm text-zinc-500">Select a submission to read it.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h2 className="text-lg font-semibold text-zinc-50 truncate">
+                    {open.subject || `Message from ${open.name}`}
+                  </h2>
+                  <p className="text-xs text-zinc-500 mt-0.5">
+                    {formatDateTime(open.submitted_at)} · {open.page.title}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={async () => {
+                      if (await runAction([open.id], open.archived_at ? 'unarchive' : 'archive')) {
+                        setOpenId(null);
+                        load();
+                      }
+                    }}
+                  >
+                    {open.archived_at ? 'Move to inbox' : 'Archive'}
+                  </Button>
+                </div>
+              </div>
+
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-zinc-500">Name</dt>
+                <dd className="text-zinc-200">{open.name}</dd>
+                <dt className="text-zinc-500">Email</dt>
+                <dd>
+                  <a href={`mailto:${open.email}`} className="text-lynx-400 hover:underline">
+                    {open.email}
+                  </a>
+                </dd>
+                {open.phone && (
+                  <>
+                    <dt className="text-zinc-500">Phone</dt>
+                    <dd>
+                      <a href={`tel:${open.phone}`} className="text-lynx-400 hover:underline">
+                        {open.phone}
+                      </a>
+                    </dd>
+                  </>
+                )}
+                {open.rating !== null && (
+                  <>
+                    <dt className="text-zinc-500">Rating</dt>
+                    <dd className="text-amber-400">{'★'.repeat(open.rating)}{'☆'.repeat(5 - open.rating)}</dd>
+                  </>
+                )}
+              </dl>
+
+              <p className="whitespace-pre-wrap text-sm text-zinc-200 border-t border-zinc-800 pt-4">
+                {open.message}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Plus, Link2, Menu, X, Users, ShoppingBag, QrCode, Palette } from 'lucide-react';
+import { LayoutDashboard, Plus, Link2, Menu, X, Users, ShoppingBag, QrCode, Palette, KeyRound, Webhook, Inbox, BarChart3, Tags, Target, Bell, FileBarChart } from 'lucide-react';
 import { SignOutButton } from '@/components/auth/sign-out-button';
 import { OneSignWordmark } from '@/components/ui';
 import { OrgSwitcher } from '@/components/org/org-switcher';
@@ -14,8 +14,16 @@ const NAV_ITEMS = [
   { href: '/app/new', icon: Plus, label: 'Create Link' },
   { href: '/app/qr/direct/new', icon: QrCode, label: 'One-off QR' },
   { href: '/app/bio', icon: Link2, label: 'Bio Pages' },
+  { href: '/app/inbox', icon: Inbox, label: 'Inbox' },
+  { href: '/app/analytics', icon: BarChart3, label: 'Analytics' },
+  { href: '/app/campaigns', icon: Tags, label: 'Campaigns' },
+  { href: '/app/alerts', icon: Bell, label: 'Alerts' },
   { href: '/app/brand-kit', icon: Palette, label: 'Brand Kit' },
   { href: '/app/settings/team', icon: Users, label: 'Team' },
+  { href: '/app/settings/api-keys', icon: KeyRound, label: 'API Keys' },
+  { href: '/app/settings/webhooks', icon: Webhook, label: 'Webhooks' },
+  { href: '/app/settings/conversions', icon: Target, label: 'Conversions' },
+  { href: '/app/settings/reports', icon: FileBarChart, label: 'Reports' },
   { href: '/app/shop', icon: ShoppingBag, label: 'Shop' },
 ] as const;
 
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Copy, Check } from 'lucide-react';
+import { Button, Input, Label } from '@/components/ui';
+import type { ApiKeyScope, ApiKeySummary } from '@/types/api-key';
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : 'Never';
+}
+
+function scopeBadgeClass(scope: ApiKeyScope) {
+  return scope === 'write'
+    ? 'bg-lynx-500/15 text-lynx-400 border border-lynx-400/30'
+    : 'bg-zinc-800 text-zinc-200 border border-zinc-700';
+}
+
+export function ApiKeysSettings({
+  myRole,
+  apiKeys,
+}: {
+  myRole: 'owner' | 'admin' | 'member';
+  apiKeys: ApiKeySummary[];
+}) {
+  const router = useRouter();
+  const canManage = myRole === 'owner' || myRole === 'admin';
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read']);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const active = apiKeys.filter((k) => !k.revoked_at);
+  const revoked = apiKeys.filter((k) => k.revoked_at);
+
+  function toggleScope(scope: ApiKeyScope) {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  }
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNewKey(null);
+    try {
+      const res = await fetch('/api/org/api-keys', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ name, scopes }),
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        key?: string;
+        error?: string;
+      };
+      if (!res.ok || !json.key) {
+        setError(json.error ?? 'Failed to create API key');
+        return;
+      }
+      setNewKey(json.key);
+      setCopied(false);
+      setName('');
+      setScopes(['read']);
+      router.refresh();
+    } catch {
+      setError('Failed to create API key');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRevoke(id: string) {
+    if (!confirm('Revoke this key? Anything using it will stop working immediately.')) return;
+    const res = await fetch(`/api/org/api-keys/${id}`, {
+      method: 'DELETE',
+      credentials: 'same-origin',
+    });
+    if (res.ok) router.refresh();
+  }
+
+  async function handleCopy() {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  }
+
+  return (
+    <div className="max-w-3xl space-y-10">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">API Keys</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          Keys let your own tools call the REST API at{' '}
+          <code className="font-mono text-xs text-zinc-300">/api/v1</code> on
+          behalf of this organisation.
+        </p>
+      </div>
+
+      {!canManage && (
+        <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <p className="text-sm text-zinc-500">
+            Only owners and admins can manage API keys.
+          </p>
+        </div>
+      )}
+
+      {canManage && (
+        <section>
+          <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+            Create a key
+          </h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5 space-y-4">
+            <form onSubmit={onCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  required
+                  maxLength={100}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Inventory sync"
+                />
+              </div>
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-zinc-200">Scopes</legend>
+                {(['read', 'write'] as const).map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="rounded border-zinc-700 bg-zinc-800"
+                    />
+                    <span className="capitalize">{scope}</span>
+                    <span className="text-xs text-zinc-500">
+                      {scope === 'read'
+                        ? 'List QR codes, bio pages and analytics'
+                        : 'Create, update and delete QR codes'}
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+              <Button type="submit" disabled={busy || scopes.length === 0}>
+                {busy ? 'Creating…' : 'Create key'}
+              </Button>
+              {error && (
+                <p className="text-sm text-destructive" role="status">
+                  {error}
+                </p>
+              )}
+            </form>
+
+            {newKey && (
+              <div className="rounded-lg border border-lynx-400/30 bg-lynx-500/10 p-4 space-y-2">
+                <p className="text-sm text-zinc-100">
+                  Copy this key now — it won&apos;t be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 min-w-0 truncate rounded-md bg-zinc-950 px-3 py-2 font-mono text-xs text-zinc-200">
+                    {newKey}
+                  </code>
+                  <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-zinc-500">
+                  Send it as{' '}
+                  <code className="font-mono">Authorization: Bearer {newKey.slice(0, 12)}…</code>
+                </p>
+              </div>
+            )}
+          </div>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+          Active keys ({active.length})
+        </h2>
+        {active.length === 0 ? (
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+            <p className="text-sm text-zinc-500">No active API keys.</p>
+          </div>
+        ) : (
+          <ul className="rounded-xl border border-zinc-800 bg-zinc-900 divide-y divide-zinc-800">
+            {active.map((k) => (
+              <li
+                key={k.id}
+                className="p-4 text-sm flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="text-zinc-100 truncate">{k.name}</div>
+                  <div className="text-xs text-zinc-500 mt-0.5 flex flex-wrap items-center gap-2">
+                    <span className="font-mono">{k.key_prefix}…</span>
+                    {k.scopes.map((scope) => (
+                      <span
+                        key={scope}
+                        className={`inline-flex items-center rounded-md px-2 py-0.5 text-[10px] font-medium capitalize ${scopeBadgeClass(scope)}`}
+                      >
+                        {scope}
+                      </span>
+                    ))}
+                    <span>created {formatDate(k.created_at)}</span>
+                    <span>last used {formatDate(k.last_used_at)}</span>
+                  </div>
+                </div>
+                {canManage && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(k.id)}
+                    className="text-xs font-semibold text-destructive hover:text-destructive/80 transition-colors"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {revoked.length > 0 && (
+        <section>
+          <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+            Revoked ({revoked.length})
+          </h2>
+          <ul className="rounded-xl border border-zinc-800 bg-zinc-900 divide-y divide-zinc-800">
+            {revoked.map((k) => (
+              <li key={k.id} className="p-4 text-sm flex items-center justify-between gap-4 opacity-60">
+                <div className="min-w-0">
+                  <div className="text-zinc-300 truncate line-through">{k.name}</div>
+                  <div className="text-xs text-zinc-500 mt-0.5">
+                    <span className="font-mono">{k.key_prefix}…</span> · revoked {formatDate(k.revoked_at)}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Copy, Check } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { buildConversionPixel, buildConversionSnippet } from '@/lib/conversions/snippet';
+import { CLICK_ID_PARAM } from '@/lib/conversions/click-id';
+import { CONVERSION_DEFAULTS } from '@/lib/constants';
+
+function CodeBlock({ code }: { code: string }) {
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopy() {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+  }
+
+  return (
+    <div className="relative">
+      <pre className="overflow-x-auto rounded-md bg-zinc-950 p-3 pr-12 font-mono text-xs text-zinc-200">
+        {code}
+      </pre>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleCopy}
+        className="absolute right-2 top-2"
+        aria-label="Copy"
+      >
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
+
+export function ConversionSettings({
+  myRole,
+  conversionKey,
+  endpoint,
+}: {
+  myRole: 'owner' | 'admin' | 'member';
+  conversionKey: string | null;
+  endpoint: string;
+}) {
+  const router = useRouter();
+  const canManage = myRole === 'owner' || myRole === 'admin';
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(method: 'POST' | 'DELETE', failure: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/org/conversions', {
+        method,
+        credentials: 'same-origin',
+      });
+      if (!res.ok) {
+        const json = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(json.error ?? failure);
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleEnable() {
+    send('POST', 'Failed to enable conversion tracking');
+  }
+
+  function handleRotate() {
+    if (!confirm('Rotate the key? Installed snippets and pixels stop reporting until you update them.')) return;
+    send('POST', 'Failed to rotate key');
+  }
+
+  function handleDisable() {
+    if (!confirm('Turn off conversion tracking? Conversions already recorded are kept.')) return;
+    send('DELETE', 'Failed to disable conversion tracking');
+  }
+
+  return (
+    <div className="max-w-3xl space-y-10">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Conversions</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          Tie purchases and sign-ups on your own site back to the scan or bio
+          link click that brought the visitor. Managed QR redirects and bio
+          links add a{' '}
+          <code className="font-mono text-xs text-zinc-300">?{CLICK_ID_PARAM}=…</code>{' '}
+          click ID, valid for {CONVERSION_DEFAULTS.CLICK_TTL_DAYS} days, which
+          the snippet reports back.
+        </p>
+      </div>
+
+      {!conversionKey ? (
+        <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center space-y-3">
+          <p className="text-sm text-zinc-500">Conversion tracking is off.</p>
+          {canManage ? (
+            <Button type="button" onClick={handleEnable} disabled={busy}>
+              {busy ? 'Enabling…' : 'Enable conversion tracking'}
+            </Button>
+          ) : (
+            <p className="text-sm text-zinc-500">
+              Only owners and admins can turn it on.
+            </p>
+          )}
+        </div>
+      ) : (
+        <>
+          <section>
+            <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+              1. Add the snippet to every page
+            </h2>
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5 space-y-3">
+              <CodeBlock code={buildConversionSnippet(endpoint, conversionKey)} />
+              <p className="text-xs text-zinc-500">
+                Then, on your thank-you page, call{' '}
+                <code className="font-mono">
+                  onesignConvert({'{'} event: &apos;purchase&apos;, value: 49.99, currency: &apos;GBP&apos; {'}'})
+                </code>
+                . Every option is optional.
+              </p>
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+              Or use the pixel
+            </h2>
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5 space-y-3">
+              <CodeBlock code={buildConversionPixel(endpoint, conversionKey)} />
+              <p className="text-xs text-zinc-500">
+                For pages rendered on your server: replace{' '}
+                <code className="font-mono">{'{CLICK_ID}'}</code> with the{' '}
+                <code className="font-mono">{CLICK_ID_PARAM}</code> value you
+                kept from the landing URL and{' '}
+                <code className="font-mono">{'{VALUE}'}</code> with the order
+                total.
+              </p>
+            </div>
+          </section>
+
+          {canManage && (
+            <section className="flex flex-wrap items-center gap-3">
+              <Button type="button" variant="outline" onClick={handleRotate} disabled={busy}>
+                Rotate key
+              </Button>
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={busy}
+                className="text-xs font-semibold text-destructive hover:text-destructive/80 transition-colors"
+              >
+                Turn off
+              </button>
+            </section>
+          )}
+        </>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="status">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button, Label, Select } from '@/components/ui';
+import { REPORT_DEFAULTS } from '@/lib/constants';
+import type { ReportEmailStatus, ReportScheduleSummary } from '@/types/report';
+
+interface Member {
+  user_id: string;
+  /** Null when the viewer can't see members' emails */
+  email: string | null;
+}
+
+function formatMonth(day: string | null) {
+  return day
+    ? new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : 'Not sent yet';
+}
+
+function statusBadgeClass(status: ReportEmailStatus | null) {
+  switch (status) {
+    case 'sent':
+      return 'bg-lynx-500/15 text-lynx-400 border border-lynx-400/30';
+    case 'failed':
+      return 'bg-destructive/15 text-destructive border border-destructive/30';
+    default:
+      return 'bg-zinc-800 text-zinc-200 border border-zinc-700';
+  }
+}
+
+export function ReportSettings({
+  userId,
+  myRole,
+  schedules,
+  members,
+  qrCodes,
+  bioPages,
+}: {
+  userId: string;
+  myRole: 'owner' | 'admin' | 'member';
+  schedules: ReportScheduleSummary[];
+  members: Member[];
+  qrCodes: Array<{ id: string; name: string }>;
+  bioPages: Array<{ id: string; title: string }>;
+}) {
+  const router = useRouter();
+  const isAdmin = myRole === 'owner' || myRole === 'admin';
+
+  // "org", "qr:<id>" or "bio:<id>"
+  const [target, setTarget] = useState('org');
+  const [recipientIds, setRecipientIds] = useState<string[]>([userId]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const memberLabel = new Map(members.map((m) => [m.user_id, m.email ?? m.user_id]));
+
+  function toggleRecipient(id: string) {
+    setRecipientIds((current) =>
+      current.includes(id) ? current.filter((r) => r !== id) : [...current, id]
+    );
+  }
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    const [targetType, targetId] = target.split(':');
+
+    try {
+      const res = await fetch('/api/org/reports', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({
+          ...(targetType === 'qr' ? { qr_id: targetId } : {}),
+          ...(targetType === 'bio' ? { page_id: targetId } : {}),
+          recipient_ids: recipientIds,
+        }),
+      });
+      const json = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? 'Failed to schedule report');
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError('Failed to schedule report');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleActive(schedule: ReportScheduleSummary) {
+    const res = await fetch(`/api/org/reports/${schedule.id}`, {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify({ is_active: !schedule.is_active }),
+    });
+    if (res.ok) router.refresh();
+  }
+
+  async function handleDelete(schedule: ReportScheduleSummary) {
+    if (!confirm('Stop sending this report?')) return;
+    const res = await fetch(`/api/org/reports/${schedule.id}`, {
+      method: 'DELETE',
+      credentials: 'same-origin',
+    });
+    if (res.ok) router.refresh();
+  }
+
+  return (
+    <div className="max-w-3xl space-y-10">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Reports</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          Email a PDF performance report to members on the 1st of every
+          month — headline numbers against the month before, a daily chart
+          and the top codes, pages, countries and devices. Months follow your
+          organisation&apos;s timezone and leave out bot traffic.
+        </p>
+      </div>
+
+      {isAdmin && (
+        <section>
+          <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+            New monthly report
+          </h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5">
+            <form onSubmit={onCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="report-target">Report on</Label>
+                <Select
+                  id="report-target"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                >
+                  <option value="org">The whole organisation</option>
+                  {qrCodes.length > 0 && (
+                    <optgroup label="QR codes">
+                      {qrCodes.map((q) => (
+                        <option key={q.id} value={`qr:${q.id}`}>
+                          {q.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {bioPages.length > 0 && (
+                    <optgroup label="Bio pages">
+                      {bioPages.map((p) => (
+                        <option key={p.id} value={`bio:${p.id}`}>
+                          {p.title}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </Select>
+              </div>
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-zinc-200 mb-2">Send to</legend>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {members.map((m) => (
+                    <label key={m.user_id} className="flex items-center gap-2 text-sm text-zinc-300">
+                      <input
+                        type="checkbox"
+                        checked={recipientIds.includes(m.user_id)}
+                        onChange={() => toggleRecipient(m.user_id)}
+                        className="h-4 w-4 rounded border-zinc-700 bg-zinc-900"
+                      />
+                      <span className="truncate">
+                        {m.email ?? m.user_id}
+                        {m.user_id === userId && <span className="text-zinc-500"> (you)</span>}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <Button
+                type="submit"
+                disabled={
+                  busy ||
+                  recipientIds.length === 0 ||
+                  recipientIds.length > REPORT_DEFAULTS.MAX_RECIPIENTS
+                }
+              >
+                {busy ? 'Scheduling…' : 'Schedule report'}
+              </Button>
+              {error && (
+                <p className="text-sm text-destructive" role="status">
+                  {error}
+                </p>
+              )}
+            </form>
+          </div>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+          Scheduled reports ({schedules.length})
+        </h2>
+        {schedules.length === 0 ? (
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+            <p className="text-sm text-zinc-500">No reports scheduled yet.</p>
+          </div>
+        ) : (
+          <ul className="rounded-xl border border-zinc-800 bg-zinc-900 divide-y divide-zinc-800">
+            {schedules.map((schedule) => (
+              <li
+                key={schedule.id}
+                className={`p-4 text-sm flex items-center justify-between gap-4 ${schedule.is_active ? '' : 'opacity-60'}`}
+              >
+                <div className="min-w-0">
+                  <div className="text-zinc-100 truncate">{schedule.target_name}</div>
+                  <div className="text-xs text-zinc-500 mt-0.5 flex flex-wrap items-center gap-2">
+                    <span>
+                      to{' '}
+                      {isAdmin
+                        ? schedule.recipient_ids.map((id) => memberLabel.get(id) ?? 'former member').join(', ')
+                        : `${schedule.recipient_ids.length} member${schedule.recipient_ids.length === 1 ? '' : 's'}`}
+                    </span>
+                    <span>last report {formatMonth(schedule.last_period)}</span>
+                    {schedule.last_status && (
+                      <span
+                        className={`inline-flex items-center rounded-md px-2 py-0.5 text-[10px] font-medium capitalize ${statusBadgeClass(schedule.last_status)}`}
+                      >
+                        {schedule.last_status}
+                      </span>
+                    )}
+                    {!schedule.is_active && <span>paused</span>}
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center gap-3">
+                  <a
+                    href={`/api/org/reports/${schedule.id}/preview`}
+                    className="text-xs font-semibold text-zinc-400 hover:text-zinc-200 transition-colors"
+                  >
+                    Preview PDF
+                  </a>
+                  {isAdmin && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => toggleActive(schedule)}
+                        className="text-xs font-semibold text-zinc-400 hover:text-zinc-200 transition-colors"
+                      >
+                        {schedule.is_active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(schedule)}
+                        className="text-xs font-semibold text-destructive hover:text-destructive/80 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Copy, Check, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button, Input, Label } from '@/components/ui';
+import { WEBHOOK_EVENTS } from '@/lib/constants';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpointSummary,
+  WebhookEventType,
+} from '@/types/webhook';
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function statusBadgeClass(status: WebhookDeliveryStatus) {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-lynx-500/15 text-lynx-400 border border-lynx-400/30';
+    case 'failed':
+      return 'bg-destructive/15 text-destructive border border-destructive/30';
+    default:
+      return 'bg-zinc-800 text-zinc-200 border border-zinc-700';
+  }
+}
+
+function SecretReveal({ secret, onDismiss }: { secret: string; onDismiss: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopy() {
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+  }
+
+  return (
+    <div className="rounded-lg border border-lynx-400/30 bg-lynx-500/10 p-4 space-y-2">
+      <p className="text-sm text-zinc-100">
+        Copy this signing secret now — it won&apos;t be shown again.
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 min-w-0 truncate rounded-md bg-zinc-950 px-3 py-2 font-mono text-xs text-zinc-200">
+          {secret}
+        </code>
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-zinc-500">
+          Use it to verify the <code className="font-mono">X-Lynx-Signature</code> header.
+        </p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function DeliveryLog({ endpointId, canManage }: { endpointId: string; canManage: boolean }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/org/webhooks/${endpointId}/deliveries`, {
+        credentials: 'same-origin',
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        deliveries?: WebhookDelivery[];
+        error?: string;
+      };
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(json.error ?? 'Failed to load deliveries');
+        return;
+      }
+      setDeliveries(json.deliveries ?? []);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [endpointId]);
+
+  async function handleRedeliver(deliveryId: string) {
+    setRedelivering(deliveryId);
+    try {
+      const res = await fetch(
+        `/api/org/webhooks/${endpointId}/deliveries/${deliveryId}/redeliver`,
+        { method: 'POST', credentials: 'same-origin' }
+      );
+      const json = (await res.json().catch(() => ({}))) as {
+        delivery?: WebhookDelivery;
+        error?: string;
+      };
+      if (!res.ok || !json.delivery) {
+        setError(json.error ?? 'Failed to redeliver');
+        return;
+      }
+      const updated = json.delivery;
+      setDeliveries((prev) => prev?.map((d) => (d.id === updated.id ? updated : d)) ?? null);
+    } finally {
+      setRedelivering(null);
+    }
+  }
+
+  if (deliveries === null && !error) {
+    return <p className="px-4 pb-4 text-xs text-zinc-500">Loading deliveries…</p>;
+  }
+
+  return (
+    <div className="px-4 pb-4 space-y-2">
+      {error && (
+        <p className="text-xs text-destructive" role="status">
+          {error}
+        </p>
+      )}
+      {deliveries && deliveries.length === 0 && (
+        <p className="text-xs text-zinc-500">No deliveries yet.</p>
+      )}
+      {deliveries && deliveries.length > 0 && (
+        <ul className="rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+          {deliveries.map((d) => (
+            <li key={d.id} className="p-3 text-xs flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`inline-flex items-center rounded-md px-2 py-0.5 text-[10px] font-medium capitalize ${statusBadgeClass(d.status)}`}
+                  >
+                    {d.status}
+                  </span>
+                  <span className="font-mono text-zinc-300">{d.event_type}</span>
+                  <span className="text-zinc-500">{formatDateTime(d.created_at)}</span>
+                </div>
+                <div className="text-zinc-500">
+                  {d.attempts} attempt{d.attempts === 1 ? '' : 's'}
+                  {d.response_status !== null && <> · HTTP {d.response_status}</>}
+                  {d.status === 'pending' && d.next_attempt_at && (
+                    <> · next try {formatDateTime(d.next_attempt_at)}</>
+                  )}
+                </div>
+                {d.last_error && d.status !== 'succeeded' && (
+                  <div className="text-destructive truncate">{d.last_error}</div>
+                )}
+              </div>
+              {canManage && (
+                <button
+                  type="button"
+                  disabled={redelivering === d.id}
+                  onClick={() => handleRedeliver(d.id)}
+                  className="shrink-0 text-xs font-semibold text-lynx-400 hover:text-lynx-300 disabled:opacity-50 transition-colors"
+                >
+                  {redelivering === d.id ? 'Sending…' : 'Redeliver'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function WebhooksSettings({
+  myRole,
+  endpoints,
+}: {
+  myRole: 'owner' | 'admin' | 'member';
+  endpoints: WebhookEndpointSummary[];
+}) {
+  const router = useRouter();
+  const canManage = myRole === 'owner' || myRole === 'admin';
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(['qr.scanned']);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<{ endpointId: string | null; secret: string } | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  function toggleEvent(event: WebhookEventType) {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  }
+
+  async function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setRevealed(null);
+    try {
+      const res = await fetch('/api/org/webhooks', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ url, description: description || null, events }),
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        secret?: string;
+        error?: string;
+      };
+      if (!res.ok || !json.secret) {
+        setError(json.error ?? 'Failed to add endpoint');
+        return;
+      }
+      setRevealed({ endpointId: null, secret: json.secret });
+      setUrl('');
+      setDescription('');
+      setEvents(['qr.scanned']);
+      router.refresh();
+    } catch {
+      setError('Failed to add endpoint');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function patchEndpoint(id: string, body: Record<string, unknown>) {
+    const res = await fetch(`/api/org/webhooks/${id}`, {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify(body),
+    });
+    const json = (await res.json().catch(() => ({}))) as { secret?: string };
+    if (res.ok) router.refresh();
+    return { ok: res.ok, secret: json.secret };
+  }
+
+  async function handleRotate(id: string) {
+    if (!confirm('Rotate the signing secret? Deliveries are signed with the new secret immediately.')) return;
+    const { ok, secret } = await patchEndpoint(id, { rotate_secret: true });
+    if (ok && secret) setRevealed({ endpointId: id, secret });
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this endpoint and its delivery log?')) return;
+    const res = await fetch(`/api/org/webhooks/${id}`, {
+      method: 'DELETE',
+      credentials: 'same-origin',
+    });
+    if (res.ok) router.refresh();
+  }
+
+  return (
+    <div className="max-w-3xl space-y-10">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-zinc-50">Webhooks</h1>
+        <p className="text-sm text-zinc-400 mt-1">
+          Send scans, clicks, form submissions and more to your own systems as
+          they happen. Each request is signed so you can verify it came from us.
+        </p>
+      </div>
+
+      {!canManage && (
+        <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <p className="text-sm text-zinc-500">
+            Only owners and admins can manage webhooks.
+          </p>
+        </div>
+      )}
+
+      {canManage && (
+        <section>
+          <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+            Add an endpoint
+          </h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-5 space-y-4">
+            <form onSubmit={onCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  required
+                  maxLength={2048}
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/hooks/lynx"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description (optional)</Label>
+                <Input
+                  id="webhook-description"
+                  maxLength={200}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="CRM sync"
+                />
+              </div>
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-zinc-200">Events</legend>
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label key={event.id} className="flex items-center gap-2 text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(event.id)}
+                      onChange={() => toggleEvent(event.id)}
+                      className="rounded border-zinc-700 bg-zinc-800"
+                    />
+                    <span>{event.label}</span>
+                    <code className="font-mono text-xs text-zinc-500">{event.id}</code>
+                  </label>
+                ))}
+              </fieldset>
+              <Button type="submit" disabled={busy || events.length === 0}>
+                {busy ? 'Adding…' : 'Add endpoint'}
+              </Button>
+              {error && (
+                <p className="text-sm text-destructive" role="status">
+                  {error}
+                </p>
+              )}
+            </form>
+
+            {revealed && revealed.endpointId === null && (
+              <SecretReveal secret={revealed.secret} onDismiss={() => setRevealed(null)} />
+            )}
+          </div>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-sm font-semibold text-zinc-500 uppercase tracking-widest mb-3">
+          Endpoints ({endpoints.length})
+        </h2>
+        {endpoints.length === 0 ? (
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900 p-6 text-center">
+            <p className="text-sm text-zinc-500">No webhook endpoints.</p>
+          </div>
+        ) : (
+          <ul className="rounded-xl border border-zinc-800 bg-zinc-900 divide-y divide-zinc-800">
+            {endpoints.map((endpoint) => (
+              <li key={endpoint.id}>
+                <div className="p-4 text-sm flex items-center justify-between gap-4">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === endpoint.id ? null : endpoint.id)}
+                    className="min-w-0 flex items-start gap-2 text-left"
+                  >
+                    {expanded === endpoint.id ? (
+                      <ChevronDown className="h-4 w-4 mt-0.5 shrink-0 text-zinc-500" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mt-0.5 shrink-0 text-zinc-500" />
+                    )}
+                    <div className="min-w-0">
+                      <div className={`truncate font-mono text-xs ${endpoint.is_active ? 'text-zinc-100' : 'text-zinc-500'}`}>
+                        {endpoint.url}
+                      </div>
+                      <div className="text-xs text-zinc-500 mt-0.5 flex flex-wrap items-center gap-2">
+                        {endpoint.description && <span>{endpoint.description}</span>}
+                        {!endpoint.is_active && <span className="text-amber-400">Paused</span>}
+                        <span>{endpoint.events.join(', ')}</span>
+                      </div>
+                    </div>
+                  </button>
+                  {canManage && (
+                    <div className="flex shrink-0 items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => patchEndpoint(endpoint.id, { is_active: !endpoint.is_active })}
+                        className="text-xs font-semibold text-zinc-400 hover:text-zinc-200 transition-colors"
+                      >
+                        {endpoint.is_active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRotate(endpoint.id)}
+                        className="text-xs font-semibold text-zinc-400 hover:text-zinc-200 transition-colors"
+                      >
+                        Rotate secret
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(endpoint.id)}
+                        className="text-xs font-semibold text-destructive hover:text-destructive/80 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {revealed && revealed.endpointId === endpoint.id && (
+                  <div className="px-4 pb-4">
+                    <SecretReveal secret={revealed.secret} onDismiss={() => setRevealed(null)} />
+                  </div>
+                )}
+                {expanded === endpoint.id && (
+                  <DeliveryLog endpointId={endpoint.id} canManage={canManage} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -6,8 +6,8 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
 
 interface CarrierCardProps {
   variant: 'qr' | 'nfc';
-  /** 'free' | 'pro' — only relevant for variant='nfc'. QR is always free. */
-  plan?: 'free' | 'pro';
+  /** Whether the org's plan excludes NFC carriers. Only relevant for variant='nfc'; QR is always free. */
+  locked?: boolean;
   /** Whether the user has enabled the NFC carrier. Ignored for variant='qr'. */
   enabled?: boolean;
   /** Toggle enabled state. Ignored for variant='qr'. */
@@ -19,11 +19,12 @@ interface CarrierCardProps {
 /**
  * Carrier card: a section on /app/new and /app/qr/[id] representing a
  * physical expression of the Link. QR is always enabled and free; NFC
- * is Pro-gated and rendered in a locked/greyed-out state for Free orgs.
+ * depends on the plan and is rendered in a locked/greyed-out state when
+ * the org's plan doesn't include it.
  */
 export function CarrierCard({
   variant,
-  plan = 'free',
+  locked = true,
   enabled = false,
   onEnabledChange,
   children,
@@ -46,8 +47,6 @@ export function CarrierCard({
   }
 
   // NFC variant
-  const locked = plan !== 'pro';
-
   return (
     <Card className={locked ? 'opacity-70' : undefined} aria-disabled={locked || undefined}>
       <CardHeader className="flex-row items-center justify-between">
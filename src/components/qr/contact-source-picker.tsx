@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Label, Select } from '@/components/ui';
+import type { ContactSource } from '@/types/qr';
+
+interface ContactSources {
+  people: Array<{ id: string; full_name: string; role: string | null; profile_name: string }>;
+  bio_pages: Array<{ id: string; title: string; slug: string }>;
+}
+
+interface ContactSourcePickerProps {
+  value: ContactSource | null;
+  onChange: (value: ContactSource | null) => void;
+}
+
+function encode(source: ContactSource | null): string {
+  if (!source) return '';
+  return 'person_id' in source ? `person:${source.person_id}` : `bio:${source.bio_page_id}`;
+}
+
+function decode(value: string): ContactSource | null {
+  const [kind, id] = value.split(':');
+  if (!id) return null;
+  return kind === 'person' ? { person_id: id } : { bio_page_id: id };
+}
+
+/**
+ * Picks the brand kit person or bio page a managed contact code serves as
+ * a vCard. The card is rebuilt on every scan, so later edits to the person
+ * or page reach printed codes.
+ */
+export function ContactSourcePicker({ value, onChange }: ContactSourcePickerProps) {
+  const [sources, setSources] = useState<ContactSources | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/qr/contact-sources')
+      .then((r) => {
+        if (!r.ok) throw new Error('Failed to load contacts');
+        return r.json();
+      })
+      .then((data: ContactSources) => setSources(data))
+      .catch(() => setLoadError(true));
+  }, []);
+
+  const isEmpty = sources && sources.people.length === 0 && sources.bio_pages.length === 0;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="contact-source">Contact *</Label>
+      <Select
+        id="contact-source"
+        value={encode(value)}
+        onChange={(e) => onChange(decode(e.target.value))}
+        disabled={!sources || !!isEmpty}
+        required
+      >
+        <option value="">
+          {sources ? 'Choose a person or bio page' : loadError ? 'Could not load contacts' : 'Loading…'}
+        </option>
+        {sources && sources.people.length > 0 && (
+          <optgroup label="Brand kit">
+            {sources.people.map((person) => (
+              <option key={person.id} value={`person:${person.id}`}>
+                {person.full_name}
+                {person.role ? `, ${person.role}` : ''} ({person.profile_name})
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sources && sources.bio_pages.length > 0 && (
+          <optgroup label="Bio pages">
+            {sources.bio_pages.map((page) => (
+              <option key={page.id} value={`bio:${page.id}`}>
+                {page.title} (/p/{page.slug})
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </Select>
+      {isEmpty ? (
+        <p className="text-xs text-muted-foreground">
+          Add a person to your{' '}
+          <Link href="/app/brand-kit" className="text-lynx-400 hover:text-lynx-300 underline">
+            brand kit
+          </Link>{' '}
+          or create a bio page first.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Scanning saves this contact, photo included. Edits to the person or page
+          reach every printed code.
+        </p>
+      )}
+    </div>
+  );
+}
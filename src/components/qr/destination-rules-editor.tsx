@@ -0,0 +1,345 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowDown, ArrowUp, Clock, Plus, Trash2 } from 'lucide-react';
+import { Button, Input, Label, useToast } from '@/components/ui';
+import {
+  localPartsFromInput,
+  resolveDestinationAtLocalTime,
+} from '@/lib/qr/destination-rules';
+import { getZonedParts, resolveTimeZone } from '@/lib/timezone';
+import { QR_DEFAULTS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import type { QRDestinationRule } from '@/types/qr';
+
+interface DestinationRulesEditorProps {
+  qrId: string;
+  fallbackUrl: string;
+  initialRules: QRDestinationRule[];
+  /** Org default_timezone; null falls back to the app default */
+  timeZone: string | null;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const PRESETS: Array<{ label: string; rule: Omit<QRDestinationRule, 'id' | 'destination_url'> }> = [
+  { label: 'weekdays', rule: { label: 'Weekdays', days: [1, 2, 3, 4, 5] } },
+  { label: 'weekends', rule: { label: 'Weekends', days: [0, 6] } },
+  { label: 'lunch', rule: { label: 'Lunch', start_time: '11:30', end_time: '15:00' } },
+  { label: 'evening', rule: { label: 'Dinner', start_time: '17:00', end_time: '23:00' } },
+];
+
+function newRuleId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Drops empty optional fields so the payload matches destinationRuleSchema */
+function cleanRule(rule: QRDestinationRule): QRDestinationRule {
+  const cleaned: QRDestinationRule = { id: rule.id, destination_url: rule.destination_url.trim() };
+  if (rule.label?.trim()) cleaned.label = rule.label.trim();
+  if (rule.days && rule.days.length > 0) cleaned.days = [...rule.days].sort();
+  if (rule.start_date) cleaned.start_date = rule.start_date;
+  if (rule.end_date) cleaned.end_date = rule.end_date;
+  if (rule.start_time) cleaned.start_time = rule.start_time;
+  if (rule.end_time) cleaned.end_time = rule.end_time;
+  return cleaned;
+}
+
+/**
+ * Editor for a managed QR's scheduled destination rules.
+ *
+ * Rules are evaluated top to bottom in the org's timezone; the first match
+ * wins and destination_url is the fallback. The preview runs the same
+ * evaluator as the redirect handler, so "what would a scan at X go to" is
+ * exactly what /r/[slug] will do.
+ */
+export function DestinationRulesEditor({
+  qrId,
+  fallbackUrl,
+  initialRules,
+  timeZone,
+}: DestinationRulesEditorProps) {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const zone = resolveTimeZone(timeZone);
+
+  const [rules, setRules] = useState<QRDestinationRule[]>(initialRules);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nowLocal = useMemo(() => getZonedParts(new Date(), zone), [zone]);
+  const [previewDate, setPreviewDate] = useState(nowLocal.date);
+  const [previewTime, setPreviewTime] = useState(nowLocal.time);
+
+  const preview = useMemo(() => {
+    if (!previewDate || !previewTime) return null;
+    const local = localPartsFromInput(previewDate, previewTime);
+    return resolveDestinationAtLocalTime(fallbackUrl, rules.map(cleanRule), local);
+  }, [fallbackUrl, rules, previewDate, previewTime]);
+
+  const previewRuleIndex = preview?.ruleId
+    ? rules.findIndex((r) => r.id === preview.ruleId)
+    : -1;
+
+  const updateRule = (index: number, patch: Partial<QRDestinationRule>) => {
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = rules[index].days ?? [];
+    updateRule(index, {
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day],
+    });
+  };
+
+  const moveRule = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    setRules((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addRule = (preset?: Omit<QRDestinationRule, 'id' | 'destination_url'>) => {
+    setRules((prev) => [
+      ...prev,
+      { id: newRuleId(), destination_url: '', days: [], ...preset },
+    ]);
+  };
+
+  const removeRule = (index: number) => {
+    setRules((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const saveRules = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/qr/${qrId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ destination_rules: rules.map(cleanRule) }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        const detail = data.details?.fieldErrors?.destination_rules?.[0];
+        throw new Error(detail || data.error || 'Failed to save rules');
+      }
+
+      const updated = await res.json();
+      if (Array.isArray(updated?.destination_rules)) {
+        setRules(updated.destination_rules);
+      }
+      addToast({ title: 'Schedule saved', variant: 'success' });
+      router.refresh();
+    } catch (error: any) {
+      addToast({
+        title: 'Failed to save schedule',
+        description: error.message,
+        variant: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const atMax = rules.length >= QR_DEFAULTS.MAX_DESTINATION_RULES;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <Label>scheduled destinations</Label>
+        <p className="text-xs text-muted-foreground">
+          Rules are checked top to bottom in <span className="font-mono">{zone}</span>. The
+          first match wins; if none match, scans go to the destination url above.
+        </p>
+      </div>
+
+      {/* Rules */}
+      {rules.length === 0 ? (
+        <div className="p-4 bg-muted rounded-sm">
+          <p className="text-sm text-muted-foreground">
+            No rules yet. Every scan goes to the destination url.
+          </p>
+        </div>
+      ) : (
+        <ol className="space-y-3">
+          {rules.map((rule, index) => (
+            <li
+              key={rule.id}
+              className={cn(
+                'rounded-sm border p-4 space-y-3',
+                index === previewRuleIndex ? 'border-lynx-500' : 'border-border'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-muted-foreground w-5">{index + 1}.</span>
+                <Input
+                  value={rule.label ?? ''}
+                  onChange={(e) => updateRule(index, { label: e.target.value })}
+                  placeholder="Rule name (e.g. Lunch menu)"
+                  maxLength={60}
+                  className="h-8 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveRule(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move rule up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === rules.length - 1}
+                  aria-label="Move rule down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRule(index)}
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <Input
+                value={rule.destination_url}
+                onChange={(e) => updateRule(index, { destination_url: e.target.value })}
+                placeholder="https://example.com/lunch-menu"
+                className="font-mono text-sm"
+              />
+
+              {/* Days */}
+              <div className="flex flex-wrap gap-1.5">
+                {DAY_LABELS.map((label, day) => {
+                  const active = rule.days?.includes(day) ?? false;
+                  return (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleDay(index, day)}
+                      className={cn(
+                        'px-2 py-1 text-xs rounded-sm border transition-colors',
+                        active
+                          ? 'bg-foreground text-background border-foreground'
+                          : 'border-border text-muted-foreground hover:bg-muted'
+                      )}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Dates and times */}
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                <div className="space-y-1">
+                  <Label className="text-xs">from date</Label>
+                  <Input
+                    type="date"
+                    value={rule.start_date ?? ''}
+                    onChange={(e) => updateRule(index, { start_date: e.target.value || undefined })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">to date</Label>
+                  <Input
+                    type="date"
+                    value={rule.end_date ?? ''}
+                    onChange={(e) => updateRule(index, { end_date: e.target.value || undefined })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">from time</Label>
+                  <Input
+                    type="time"
+                    value={rule.start_time ?? ''}
+                    onChange={(e) => updateRule(index, { start_time: e.target.value || undefined })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">until time</Label>
+                  <Input
+                    type="time"
+                    value={rule.end_time ?? ''}
+                    onChange={(e) => updateRule(index, { end_time: e.target.value || undefined })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Add */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => addRule()} disabled={atMax}>
+          <Plus className="h-4 w-4 mr-1" />
+          add rule
+        </Button>
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            variant="ghost"
+            size="sm"
+            onClick={() => addRule(preset.rule)}
+            disabled={atMax}
+          >
+            + {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Preview */}
+      <div className="space-y-3 pt-4 border-t">
+        <Label className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          preview a scan
+        </Label>
+        <div className="flex flex-wrap gap-2">
+          <Input
+            type="date"
+            value={previewDate}
+            onChange={(e) => setPreviewDate(e.target.value)}
+            className="h-8 w-auto text-sm"
+          />
+          <Input
+            type="time"
+            value={previewTime}
+            onChange={(e) => setPreviewTime(e.target.value)}
+            className="h-8 w-auto text-sm"
+          />
+        </div>
+        {preview && (
+          <p className="text-sm text-muted-foreground">
+            A scan on {DAY_LABELS[localPartsFromInput(previewDate, previewTime).weekday]}{' '}
+            {previewDate} at {previewTime} ({zone}) goes to{' '}
+            <span className="font-mono text-foreground break-all">{preview.url || '—'}</span>
+            {previewRuleIndex >= 0
+              ? ` via rule ${previewRuleIndex + 1}${rules[previewRuleIndex].label ? ` (${rules[previewRuleIndex].label})` : ''}.`
+              : ' (fallback destination).'}
+          </p>
+        )}
+      </div>
+
+      <Button onClick={saveRules} disabled={isSaving}>
+        {isSaving ? 'saving...' : 'save schedule'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button, Input, Label, useToast } from '@/components/ui';
+import { MIN_SPLIT_VARIANTS, variantLabel } from '@/lib/qr/destination-variants';
+import { QR_DEFAULTS } from '@/lib/constants';
+import type { QRDestinationVariant } from '@/types/qr';
+
+interface DestinationVariantsEditorProps {
+  qrId: string;
+  fallbackUrl: string;
+  initialVariants: QRDestinationVariant[];
+}
+
+function newVariantId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `variant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Drops empty optional fields so the payload matches destinationVariantSchema */
+function cleanVariant(variant: QRDestinationVariant): QRDestinationVariant {
+  const cleaned: QRDestinationVariant = {
+    id: variant.id,
+    destination_url: variant.destination_url.trim(),
+    weight: variant.weight,
+  };
+  if (variant.label?.trim()) cleaned.label = variant.label.trim();
+  return cleaned;
+}
+
+/**
+ * Editor for a managed QR's A/B split.
+ *
+ * Each scan is sent to one variant in proportion to its weight, and the same
+ * visitor keeps getting the same variant. Scheduled destination rules still
+ * win when they match — the split only replaces the fallback destination.
+ */
+export function DestinationVariantsEditor({
+  qrId,
+  fallbackUrl,
+  initialVariants,
+}: DestinationVariantsEditorProps) {
+  const router = useRouter();
+  const { addToast } = useToast();
+
+  const [variants, setVariants] = useState<QRDestinationVariant[]>(initialVariants);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totalWeight = variants.reduce((sum, v) => sum + (v.weight || 0), 0);
+
+  const updateVariant = (index: number, patch: Partial<QRDestinationVariant>) => {
+    setVariants((prev) => prev.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  };
+
+  const startSplit = () => {
+    // Seed A with the current destination so the existing page keeps half the traffic
+    setVariants([
+      { id: newVariantId(), destination_url: fallbackUrl, weight: 50 },
+      { id: newVariantId(), destination_url: '', weight: 50 },
+    ]);
+  };
+
+  const addVariant = () => {
+    setVariants((prev) => [...prev, { id: newVariantId(), destination_url: '', weight: 50 }]);
+  };
+
+  const removeVariant = (index: number) => {
+    setVariants((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const saveVariants = async (next: QRDestinationVariant[]) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/qr/${qrId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ destination_variants: next.map(cleanVariant) }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        const detail = data.details?.fieldErrors?.destination_variants?.[0];
+        throw new Error(detail || data.error || 'Failed to save split');
+      }
+
+      const updated = await res.json();
+      if (Array.isArray(updated?.destination_variants)) {
+        setVariants(updated.destination_variants);
+      }
+      addToast({
+        title: next.length === 0 ? 'Split removed' : 'Split saved',
+        variant: 'success',
+      });
+      router.refresh();
+    } catch (error: any) {
+      addToast({
+        title: 'Failed to save split',
+        description: error.message,
+        variant: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const atMax = variants.length >= QR_DEFAULTS.MAX_DESTINATION_VARIANTS;
+  const tooFew = variants.length > 0 && variants.length < MIN_SPLIT_VARIANTS;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <Label>a/b split</Label>
+        <p className="text-xs text-muted-foreground">
+          Send scans to two or more pages by weight to compare them. Returning visitors keep
+          seeing the same page. Scheduled destinations take priority when they match.
+        </p>
+      </div>
+
+      {variants.length === 0 ? (
+        <div className="p-4 bg-muted rounded-sm flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            No split. Every scan goes to the destination url.
+          </p>
+          <Button variant="outline" size="sm" onClick={startSplit}>
+            <Plus className="h-4 w-4 mr-1" />
+            start a split
+          </Button>
+        </div>
+      ) : (
+        <ol className="space-y-3">
+          {variants.map((variant, index) => {
+            const share = totalWeight > 0 ? ((variant.weight || 0) / totalWeight) * 100 : 0;
+            return (
+              <li key={variant.id} className="rounded-sm border border-border p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-mono text-muted-foreground w-5">
+                    {variantLabel({}, index)}
+                  </span>
+                  <Input
+                    value={variant.label ?? ''}
+                    onChange={(e) => updateVariant(index, { label: e.target.value })}
+                    placeholder="Variant name (optional)"
+                    maxLength={40}
+                    className="h-8 text-sm"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={QR_DEFAULTS.MAX_VARIANT_WEIGHT}
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value, 10) || 0 })}
+                    className="h-8 w-20 text-sm"
+                    aria-label="Weight"
+                  />
+                  <span className="w-12 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+                    {share.toFixed(0)}%
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeVariant(index)}
+                    aria-label="Remove variant"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <Input
+                  value={variant.destination_url}
+                  onChange={(e) => updateVariant(index, { destination_url: e.target.value })}
+                  placeholder="https://example.com/landing-b"
+                  className="font-mono text-sm"
+                />
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {variants.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={addVariant} disabled={atMax}>
+            <Plus className="h-4 w-4 mr-1" />
+            add variant
+          </Button>
+          {tooFew && (
+            <p className="text-xs text-muted-foreground">
+              Add another variant, or remove this one to turn the split off.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => saveVariants(variants)} disabled={isSaving || tooFew}>
+          {isSaving ? 'saving...' : 'save split'}
+        </Button>
+        {initialVariants.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => saveVariants([])}
+            disabled={isSaving}
+          >
+            end split
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,36 +4,76 @@ import { useState } from 'react';
 import DOMPurify from 'isomorphic-dompurify';
 import { Download, FileImage, FileCode, FileText } from 'lucide-react';
 import { Button, Card, CardHeader, CardTitle, CardContent, Select, Label } from '@/components/ui';
-import type { QRStyleConfig } from '@/types/qr';
+import type { QRStyleConfig, CodeSymbology } from '@/types/qr';
 import { QR_DEFAULTS } from '@/lib/constants';
+import { svgAspectRatio } from '@/lib/qr/exporters/svg';
 import { SVG_PURIFY_CONFIG } from '@/lib/security/svg-sanitizer';
+import { fetchScannability } from './scannability-check';
 
 interface ExportPanelProps {
   qrId: string;
   data: string;
   style: QRStyleConfig;
+  symbology?: CodeSymbology;
 }
 
-export function ExportPanel({ qrId, data, style }: ExportPanelProps) {
+export function ExportPanel({ qrId, data, style, symbology = 'qr' }: ExportPanelProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [pngSize, setPngSize] = useState<number>(512);
 
+  // QR codes are square; barcodes are `size` wide at their own aspect ratio
+  const generateSVG = async (size?: number): Promise<string> => {
+    if (symbology !== 'qr') {
+      const { buildBarcodeSVG } = await import('@/lib/qr/barcodes');
+      return buildBarcodeSVG(symbology, data, style, { size });
+    }
+
+    const { generateStyledSVG } = await import('@/lib/qr/svg-generator');
+    return generateStyledSVG(data, {
+      errorCorrection: style.errorCorrection,
+      foregroundColor: style.foregroundColor,
+      backgroundColor: style.backgroundColor,
+      moduleShape: style.moduleShape,
+      eyeShape: style.eyeShape,
+      quietZone: style.quietZone,
+      size,
+      logoMode: style.logoMode,
+      logoDataUrl: style.logoDataUrl,
+      logoSizeRatio: style.logoSizeRatio,
+      gradientType: style.gradientType,
+      gradientColor: style.gradientColor,
+      gradientAngle: style.gradientAngle,
+      eyeOuterColor: style.eyeOuterColor,
+      eyeInnerColor: style.eyeInnerColor,
+      backgroundMode: style.backgroundMode,
+      backgroundImageDataUrl: style.backgroundImageDataUrl,
+    });
+  };
+
+  // QR codes that fail the scan test need confirming before download.
+  // If the test can't run (e.g. rate limited) the download goes ahead.
+  const confirmScannable = async (): Promise<boolean> => {
+    if (symbology !== 'qr') return true;
+    try {
+      const report = await fetchScannability(data, style);
+      return (
+        report.passed ||
+        window.confirm(
+          `This code failed the scan test (score ${report.score}/100).\n\n` +
+            `${report.issues.join('\n')}\n\nDownload it anyway?`
+        )
+      );
+    } catch {
+      return true;
+    }
+  };
+
   const downloadSVG = async () => {
     setIsExporting(true);
     try {
-      const { generateStyledSVG } = await import('@/lib/qr/svg-generator');
-
-      const svg = await generateStyledSVG(data, {
-        errorCorrection: style.errorCorrection,
-        foregroundColor: style.foregroundColor,
-        backgroundColor: style.backgroundColor,
-        moduleShape: style.moduleShape,
-        eyeShape: style.eyeShape,
-        quietZone: style.quietZone,
-        logoMode: style.logoMode,
-        logoDataUrl: style.logoDataUrl,
-        logoSizeRatio: style.logoSizeRatio,
-      });
+      if (!(await confirmScannable())) return;
+
+      const svg = await generateSVG();
 
       // Sanitize SVG before exporting to prevent XSS in downloaded files
       const sanitizedSvg = String(DOMPurify.sanitize(svg, SVG_PURIFY_CONFIG));
@@ -54,26 +94,16 @@ export function ExportPanel({ qrId, data, style }: ExportPanelProps) {
   const downloadPNG = async () => {
     setIsExporting(true);
     try {
-      const { generateStyledSVG } = await import('@/lib/qr/svg-generator');
+      if (!(await confirmScannable())) return;
 
       // Generate SVG first
-      const svg = await generateStyledSVG(data, {
-        errorCorrection: style.errorCorrection,
-        foregroundColor: style.foregroundColor,
-        backgroundColor: style.backgroundColor,
-        moduleShape: style.moduleShape,
-        eyeShape: style.eyeShape,
-        quietZone: style.quietZone,
-        size: pngSize,
-        logoMode: style.logoMode,
-        logoDataUrl: style.logoDataUrl,
-        logoSizeRatio: style.logoSizeRatio,
-      });
+      const svg = await generateSVG(pngSize);
+      const pngHeight = Math.round(pngSize * svgAspectRatio(svg));
 
       // Convert SVG to PNG using canvas
       const canvas = document.createElement('canvas');
       canvas.width = pngSize;
-      canvas.height = pngSize;
+      canvas.height = pngHeight;
       const ctx = canvas.getContext('2d');
 
       if (!ctx) {
@@ -88,7 +118,7 @@ export function ExportPanel({ qrId, data, style }: ExportPanelProps) {
 
       await new Promise<void>((resolve, reject) => {
         img.onload = () => {
-          ctx.drawImage(img, 0, 0, pngSize, pngSize);
+          ctx.drawImage(img, 0, 0, pngSize, pngHeight);
           URL.revokeObjectURL(svgUrl);
           resolve();
         };
@@ -153,7 +183,7 @@ export function ExportPanel({ qrId, data, style }: ExportPanelProps) {
             >
               {QR_DEFAULTS.SIZES.map((size) => (
                 <option key={size} value={size}>
-                  {size}x{size}px
+                  {symbology === 'qr' ? `${size}x${size}px` : `${size}px wide`}
                 </option>
               ))}
             </Select>
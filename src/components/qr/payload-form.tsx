@@ -0,0 +1,225 @@
+'use client';
+
+import { AlertCircle } from 'lucide-react';
+import { Input, Label, Select } from '@/components/ui';
+import type { QRPayloadType } from '@/types/qr';
+
+/** A direct payload type other than a plain URL */
+export type StructuredPayloadType = Exclude<QRPayloadType, 'url' | 'contact'>;
+
+/**
+ * Form state for a payload: raw input values keyed by payload field.
+ * draftToPayload turns it into the shape qrPayloadSchema checks.
+ */
+export type PayloadDraft = Record<string, string | boolean>;
+
+interface FieldSpec {
+  key: string;
+  label: string;
+  kind: 'text' | 'email' | 'tel' | 'url' | 'number' | 'textarea' | 'checkbox' | 'select' | 'when';
+  placeholder?: string;
+  required?: boolean;
+  options?: ReadonlyArray<{ value: string; label: string }>;
+  /** Hide the field unless this returns true for the current draft */
+  visible?: (draft: PayloadDraft) => boolean;
+  /** Lay out two half-width fields side by side */
+  half?: boolean;
+  maxLength?: number;
+}
+
+const FIELDS: Record<StructuredPayloadType, FieldSpec[]> = {
+  vcard: [
+    { key: 'first_name', label: 'First name', kind: 'text', half: true, maxLength: 100 },
+    { key: 'last_name', label: 'Last name', kind: 'text', half: true, maxLength: 100 },
+    { key: 'organization', label: 'Organization', kind: 'text', half: true, maxLength: 100 },
+    { key: 'title', label: 'Job title', kind: 'text', half: true, maxLength: 100 },
+    { key: 'phone', label: 'Work phone', kind: 'tel', placeholder: '+44 20 7946 0000', half: true },
+    { key: 'mobile', label: 'Mobile', kind: 'tel', placeholder: '+44 7700 900000', half: true },
+    { key: 'email', label: 'Email', kind: 'email', placeholder: 'jo@example.com', half: true },
+    { key: 'website', label: 'Website', kind: 'url', placeholder: 'https://example.com', half: true, maxLength: 500 },
+    { key: 'street', label: 'Street', kind: 'text', maxLength: 200 },
+    { key: 'city', label: 'City', kind: 'text', half: true, maxLength: 100 },
+    { key: 'region', label: 'Region', kind: 'text', half: true, maxLength: 100 },
+    { key: 'postcode', label: 'Postcode', kind: 'text', half: true, maxLength: 20 },
+    { key: 'country', label: 'Country', kind: 'text', half: true, maxLength: 100 },
+    { key: 'note', label: 'Note', kind: 'textarea', maxLength: 500 },
+    {
+      key: 'version',
+      label: 'vCard version',
+      kind: 'select',
+      options: [
+        { value: '3.0', label: '3.0 — widest support' },
+        { value: '4.0', label: '4.0' },
+      ],
+    },
+  ],
+  wifi: [
+    { key: 'ssid', label: 'Network name (SSID)', kind: 'text', required: true, placeholder: 'Cafe Guest', maxLength: 32 },
+    {
+      key: 'security',
+      label: 'Security',
+      kind: 'select',
+      options: [
+        { value: 'WPA', label: 'WPA / WPA2 / WPA3' },
+        { value: 'WEP', label: 'WEP' },
+        { value: 'nopass', label: 'None (open network)' },
+      ],
+    },
+    {
+      key: 'password',
+      label: 'Password',
+      kind: 'text',
+      required: true,
+      maxLength: 63,
+      visible: (draft) => draft.security !== 'nopass',
+    },
+    { key: 'hidden', label: 'Hidden network', kind: 'checkbox' },
+  ],
+  sms: [
+    { key: 'phone', label: 'Phone number', kind: 'tel', required: true, placeholder: '+44 7700 900000' },
+    { key: 'message', label: 'Message', kind: 'textarea', placeholder: 'Prefilled text (optional)', maxLength: 300 },
+  ],
+  email: [
+    { key: 'to', label: 'To', kind: 'email', required: true, placeholder: 'hello@example.com' },
+    { key: 'subject', label: 'Subject', kind: 'text', maxLength: 200 },
+    { key: 'body', label: 'Body', kind: 'textarea', maxLength: 1000 },
+  ],
+  geo: [
+    { key: 'latitude', label: 'Latitude', kind: 'number', required: true, placeholder: '51.5074', half: true },
+    { key: 'longitude', label: 'Longitude', kind: 'number', required: true, placeholder: '-0.1278', half: true },
+    { key: 'altitude', label: 'Altitude in metres (optional)', kind: 'number', half: true },
+  ],
+  event: [
+    { key: 'summary', label: 'Title', kind: 'text', required: true, placeholder: 'Open mic night', maxLength: 200 },
+    { key: 'all_day', label: 'All-day event', kind: 'checkbox' },
+    { key: 'start', label: 'Starts', kind: 'when', required: true, half: true },
+    { key: 'end', label: 'Ends', kind: 'when', half: true },
+    { key: 'location', label: 'Location', kind: 'text', maxLength: 200 },
+    { key: 'description', label: 'Description', kind: 'textarea', maxLength: 1000 },
+  ],
+};
+
+const DEFAULTS: Partial<Record<StructuredPayloadType, PayloadDraft>> = {
+  vcard: { version: '3.0' },
+  wifi: { security: 'WPA' },
+};
+
+/** An empty draft for a payload type */
+export function emptyDraft(type: StructuredPayloadType): PayloadDraft {
+  return { ...DEFAULTS[type] };
+}
+
+/**
+ * The payload a draft describes. Number fields are parsed; everything else
+ * is passed through for qrPayloadSchema to check.
+ */
+export function draftToPayload(type: StructuredPayloadType, draft: PayloadDraft): Record<string, unknown> {
+  const payload: Record<string, unknown> = { type };
+  for (const field of FIELDS[type]) {
+    if (field.visible && !field.visible(draft)) continue;
+    const value = draft[field.key];
+    if (value === undefined || value === '') continue;
+    payload[field.key] = field.kind === 'number' ? Number(value) : value;
+  }
+  return payload;
+}
+
+const textareaClass =
+  'flex w-full rounded-lg border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 transition-colors duration-150 resize-none';
+
+interface PayloadFormProps {
+  type: StructuredPayloadType;
+  value: PayloadDraft;
+  onChange: (value: PayloadDraft) => void;
+  /** First error message per field, shown under its input */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Inputs for one structured payload type (contact, Wi-Fi, SMS, email,
+ * location, event) on the direct QR form.
+ */
+export function PayloadForm({ type, value, onChange, errors = {} }: PayloadFormProps) {
+  const set = (key: string, next: string | boolean) => onChange({ ...value, [key]: next });
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {FIELDS[type].filter((field) => !field.visible || field.visible(value)).map((field) => {
+        const id = `payload-${field.key}`;
+        const error = errors[field.key];
+        const text = typeof value[field.key] === 'string' ? (value[field.key] as string) : '';
+
+        if (field.kind === 'checkbox') {
+          return (
+            <label key={field.key} className="flex items-center gap-2 text-sm sm:col-span-2">
+              <input
+                type="checkbox"
+                checked={value[field.key] === true}
+                onChange={(e) => set(field.key, e.target.checked)}
+                className="rounded border-input"
+              />
+              {field.label}
+            </label>
+          );
+        }
+
+        let input: React.ReactNode;
+        if (field.kind === 'textarea') {
+          input = (
+            <textarea
+              id={id}
+              value={text}
+              onChange={(e) => set(field.key, e.target.value)}
+              placeholder={field.placeholder}
+              maxLength={field.maxLength}
+              rows={3}
+              className={textareaClass}
+            />
+          );
+        } else if (field.kind === 'select') {
+          input = (
+            <Select id={id} value={text} onChange={(e) => set(field.key, e.target.value)}>
+              {field.options?.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          );
+        } else {
+          const inputType =
+            field.kind === 'when' ? (value.all_day ? 'date' : 'datetime-local') : field.kind;
+          input = (
+            <Input
+              id={id}
+              type={inputType}
+              step={field.kind === 'number' ? 'any' : undefined}
+              value={text}
+              onChange={(e) => set(field.key, e.target.value)}
+              placeholder={field.placeholder}
+              maxLength={field.maxLength}
+              required={field.required}
+              error={!!error}
+            />
+          );
+        }
+
+        return (
+          <div key={field.key} className={field.half ? 'space-y-2' : 'space-y-2 sm:col-span-2'}>
+            <Label htmlFor={id}>
+              {field.label}
+              {field.required ? ' *' : ''}
+            </Label>
+            {input}
+            {error && (
+              <p className="text-xs text-destructive flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {error}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
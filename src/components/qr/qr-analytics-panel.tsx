@@ -19,10 +19,22 @@ import {
   CalendarDays,
   Smartphone,
   Loader2,
+  Nfc,
+  Split,
 } from 'lucide-react';
 import { Card, CardContent, Select, Skeleton } from '@/components/ui';
 import { formatNumber } from '@/lib/utils';
-import type { AnalyticsSummary } from '@/types/qr';
+import {
+  AnalyticsRangePicker,
+  rangeQueryString,
+  type AnalyticsRangeQuery,
+} from '@/components/analytics/range-picker';
+import { MetricDelta } from '@/components/analytics/metric-delta';
+import { ActivityHeatmap } from '@/components/analytics/activity-heatmap';
+import { ConversionStats } from '@/components/analytics/conversion-stats';
+import { BotFilterToggle } from '@/components/analytics/bot-filter-toggle';
+import { AnalyticsExportMenu } from '@/components/analytics/export-menu';
+import type { AnalyticsBreakdowns, AnalyticsSummary, AnalyticsVariantSummary, ScanMedium } from '@/types/qr';
 
 const CHART_COLORS = {
   primary: '#a3e635', // lime accent already used elsewhere in dashboard
@@ -31,17 +43,25 @@ const CHART_COLORS = {
   pie: ['#a3e635', '#84cc16', '#65a30d', '#4d7c0f', '#3f6212'],
 };
 
-type Period = '7d' | '30d' | '90d';
-
 interface QRAnalyticsPanelProps {
   qrId: string;
+  /** Show the QR vs NFC split even before any taps (carrier includes NFC) */
+  showMedium?: boolean;
 }
 
-export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
+const MEDIUM_LABELS: Record<ScanMedium, string> = {
+  qr: 'QR scans',
+  nfc: 'NFC taps',
+};
+
+export function QRAnalyticsPanel({ qrId, showMedium = false }: QRAnalyticsPanelProps) {
   const [data, setData] = useState<AnalyticsSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [period, setPeriod] = useState<Period>('30d');
+  const [range, setRange] = useState<AnalyticsRangeQuery>({ period: '30d' });
+  const [includeBots, setIncludeBots] = useState(false);
+  // 'all' or a variant_id; narrows every breakdown below the stat cards
+  const [variantFilter, setVariantFilter] = useState<string>('all');
 
   useEffect(() => {
     let cancelled = false;
@@ -50,7 +70,7 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch(`/api/qr/${qrId}/analytics?period=${period}`);
+        const res = await fetch(`/api/qr/${qrId}/analytics?${rangeQueryString(range, includeBots)}`);
         if (cancelled) return;
         if (!res.ok) {
           const body = await res.json().catch(() => null);
@@ -68,13 +88,21 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
 
     fetchAnalytics();
     return () => { cancelled = true; };
-  }, [qrId, period]);
+  }, [qrId, range, includeBots]);
 
   const hasScans = useMemo(() => {
     if (!data) return false;
     return data.scans_by_day.some((d) => d.count > 0);
   }, [data]);
 
+  const variants = data?.variants ?? [];
+  const selectedVariant = variants.find((v) => v.variant_id === variantFilter) ?? null;
+  const view: AnalyticsBreakdowns | null = selectedVariant ?? data;
+  const variantLabels = useMemo(
+    () => new Map(variants.map((v) => [v.variant_id, v.label])),
+    [variants],
+  );
+
   if (loading && !data) return <AnalyticsSkeleton />;
 
   if (error) {
@@ -85,7 +113,7 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
     );
   }
 
-  if (!data) {
+  if (!data || !view) {
     return (
       <p className="py-8 text-center text-sm text-muted-foreground">
         Unable to load analytics data.
@@ -96,17 +124,16 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
   return (
     <div className="space-y-6">
       {/* Period Selector */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-4">
         <h2 className="text-lg font-semibold">Analytics</h2>
-        <Select
-          value={period}
-          onChange={(e) => setPeriod(e.target.value as Period)}
-          className="w-[160px]"
-        >
-          <option value="7d">Last 7 days</option>
-          <option value="30d">Last 30 days</option>
-          <option value="90d">Last 90 days</option>
-        </Select>
+        <div className="flex flex-wrap items-center gap-4">
+          <BotFilterToggle checked={includeBots} onChange={setIncludeBots} botCount={data.bot_scans} />
+          <AnalyticsRangePicker value={range} current={data.range} onChange={setRange} />
+          <AnalyticsExportMenu
+            endpoint={`/api/qr/${qrId}/analytics/export`}
+            rangeQuery={rangeQueryString(range, includeBots)}
+          />
+        </div>
       </div>
 
       {loading && (
@@ -117,13 +144,38 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
       )}
 
       {/* Stat Cards */}
-      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
         <StatCard label="Total Scans" value={formatNumber(data.total_scans)} icon={<BarChart3 className="h-4 w-4" />} />
-        <StatCard label="Unique Visitors" value={formatNumber(data.unique_visitors)} icon={<Users className="h-4 w-4" />} />
+        <StatCard
+          label="Scans in Period"
+          value={formatNumber(data.period_scans)}
+          icon={<BarChart3 className="h-4 w-4" />}
+          delta={<MetricDelta current={data.period_scans} previous={data.previous.scans} from={data.previous.from} to={data.previous.to} />}
+        />
+        <StatCard
+          label="Unique Visitors"
+          value={formatNumber(data.unique_visitors)}
+          icon={<Users className="h-4 w-4" />}
+          delta={<MetricDelta current={data.unique_visitors} previous={data.previous.unique_visitors} from={data.previous.from} to={data.previous.to} />}
+        />
         <StatCard label="Today" value={formatNumber(data.scans_today)} icon={<CalendarDays className="h-4 w-4" />} />
         <StatCard label="This Week" value={formatNumber(data.scans_this_week)} icon={<CalendarDays className="h-4 w-4" />} />
       </div>
 
+      {/* Conversions reported by the org's snippet or pixel */}
+      {data.conversions.conversions > 0 && (
+        <ConversionStats conversions={data.conversions} baseLabel="scan" />
+      )}
+
+      {/* A/B split comparison */}
+      {variants.length > 0 && (
+        <VariantComparison
+          variants={variants}
+          selected={variantFilter}
+          onSelect={setVariantFilter}
+        />
+      )}
+
       {/* Empty state when no scans at all in window */}
       {!hasScans ? (
         <Card>
@@ -140,9 +192,16 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
           {/* Time series */}
           <Card>
             <CardContent className="pt-6">
-              <h3 className="mb-4 text-sm font-medium">Scans Over Time</h3>
+              <h3 className="mb-4 text-sm font-medium">
+                Scans Over Time
+                {selectedVariant && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    variant {selectedVariant.label}
+                  </span>
+                )}
+              </h3>
               <ResponsiveContainer width="100%" height={250}>
-                <AreaChart data={data.scans_by_day}>
+                <AreaChart data={view.scans_by_day}>
                   <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
                   <XAxis
                     dataKey="date"
@@ -177,16 +236,43 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
             </CardContent>
           </Card>
 
+          {/* Day-of-week × hour-of-day (whole QR; not split by variant) */}
+          <Card>
+            <CardContent className="pt-6">
+              <h3 className="mb-4 text-sm font-medium">When People Scan</h3>
+              <ActivityHeatmap heatmap={data.heatmap} unit="scans" timezone={data.range.timezone} />
+            </CardContent>
+          </Card>
+
+          {/* QR vs NFC */}
+          {(showMedium || view.by_medium.some((m) => m.medium === 'nfc')) && (
+            <Card>
+              <CardContent className="pt-6">
+                <h3 className="mb-4 flex items-center gap-2 text-sm font-medium">
+                  <Nfc className="h-4 w-4" />
+                  Scans vs Taps
+                </h3>
+                <BreakdownBars
+                  items={(['qr', 'nfc'] as const).map((medium) => ({
+                    key: medium,
+                    leading: <span className="w-24 shrink-0 text-sm">{MEDIUM_LABELS[medium]}</span>,
+                    count: view.by_medium.find((m) => m.medium === medium)?.count ?? 0,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Countries + Devices */}
           <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
             <Card>
               <CardContent className="pt-6">
                 <h3 className="mb-4 text-sm font-medium">Top Countries</h3>
-                {data.top_countries.length === 0 ? (
+                {view.top_countries.length === 0 ? (
                   <EmptyHint>No country data yet</EmptyHint>
                 ) : (
                   <BreakdownBars
-                    items={data.top_countries.slice(0, 8).map((c) => ({
+                    items={view.top_countries.slice(0, 8).map((c) => ({
                       key: c.country,
                       leading: (
                         <>
@@ -206,14 +292,14 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
             <Card>
               <CardContent className="pt-6">
                 <h3 className="mb-4 text-sm font-medium">Devices</h3>
-                {data.top_devices.length === 0 ? (
+                {view.top_devices.length === 0 ? (
                   <EmptyHint>No device data yet</EmptyHint>
                 ) : (
                   <>
                     <ResponsiveContainer width="100%" height={180}>
                       <PieChart>
                         <Pie
-                          data={data.top_devices.map((d) => ({ name: d.device, value: d.count }))}
+                          data={view.top_devices.map((d) => ({ name: d.device, value: d.count }))}
                           dataKey="value"
                           nameKey="name"
                           cx="50%"
@@ -222,7 +308,7 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
                           outerRadius={80}
                           paddingAngle={2}
                         >
-                          {data.top_devices.map((_, index) => (
+                          {view.top_devices.map((_, index) => (
                             <Cell
                               key={index}
                               fill={CHART_COLORS.pie[index % CHART_COLORS.pie.length]}
@@ -241,8 +327,8 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
                       </PieChart>
                     </ResponsiveContainer>
                     <div className="mt-2 flex flex-wrap justify-center gap-4">
-                      {data.top_devices.map((d, index) => {
-                        const total = data.top_devices.reduce((sum, x) => sum + x.count, 0);
+                      {view.top_devices.map((d, index) => {
+                        const total = view.top_devices.reduce((sum, x) => sum + x.count, 0);
                         const pct = total > 0 ? ((d.count / total) * 100).toFixed(0) : '0';
                         return (
                           <div key={d.device} className="flex items-center gap-1.5 text-xs">
@@ -267,11 +353,11 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
             <Card>
               <CardContent className="pt-6">
                 <h3 className="mb-4 text-sm font-medium">Operating Systems</h3>
-                {data.top_os.length === 0 ? (
+                {view.top_os.length === 0 ? (
                   <EmptyHint>No OS data yet</EmptyHint>
                 ) : (
                   <BreakdownBars
-                    items={data.top_os.slice(0, 6).map((o) => ({
+                    items={view.top_os.slice(0, 6).map((o) => ({
                       key: o.os,
                       leading: <span className="w-24 shrink-0 truncate text-sm">{o.os}</span>,
                       count: o.count,
@@ -284,11 +370,11 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
             <Card>
               <CardContent className="pt-6">
                 <h3 className="mb-4 text-sm font-medium">Browsers</h3>
-                {data.top_browsers.length === 0 ? (
+                {view.top_browsers.length === 0 ? (
                   <EmptyHint>No browser data yet</EmptyHint>
                 ) : (
                   <BreakdownBars
-                    items={data.top_browsers.slice(0, 6).map((b) => ({
+                    items={view.top_browsers.slice(0, 6).map((b) => ({
                       key: b.browser,
                       leading: <span className="w-24 shrink-0 truncate text-sm">{b.browser}</span>,
                       count: b.count,
@@ -303,11 +389,11 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
           <Card>
             <CardContent className="pt-6">
               <h3 className="mb-4 text-sm font-medium">Top Referrers</h3>
-              {data.top_referrers.length === 0 ? (
+              {view.top_referrers.length === 0 ? (
                 <EmptyHint>No referrer data — most scans came from QR readers, not links</EmptyHint>
               ) : (
                 <BreakdownBars
-                  items={data.top_referrers.slice(0, 8).map((r) => ({
+                  items={view.top_referrers.slice(0, 8).map((r) => ({
                     key: r.domain,
                     leading: <span className="min-w-0 flex-1 truncate text-sm">{r.domain}</span>,
                     count: r.count,
@@ -344,6 +430,21 @@ export function QRAnalyticsPanel({ qrId }: QRAnalyticsPanelProps) {
                       <span className="min-w-0 flex-1 truncate text-xs text-muted-foreground">
                         {[scan.os_family, scan.browser_family].filter(Boolean).join(' · ') || '—'}
                       </span>
+                      {scan.is_bot && (
+                        <span className="shrink-0 rounded-sm border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted-foreground">
+                          Bot
+                        </span>
+                      )}
+                      {scan.medium === 'nfc' && (
+                        <span className="shrink-0 rounded-sm border border-border px-1.5 py-0.5 text-[10px] font-medium">
+                          NFC
+                        </span>
+                      )}
+                      {scan.variant_id && (
+                        <span className="shrink-0 rounded-sm border border-border px-1.5 py-0.5 text-[10px] font-medium">
+                          {variantLabels.get(scan.variant_id) ?? '?'}
+                        </span>
+                      )}
                       {scan.referrer_domain && (
                         <span className="shrink-0 truncate max-w-[140px] text-xs text-muted-foreground">
                           from {scan.referrer_domain}
@@ -367,10 +468,13 @@ function StatCard({
   label,
   value,
   icon,
+  delta,
 }: {
   label: string;
   value: string;
   icon: React.ReactNode;
+  /** Change vs the previous period */
+  delta?: React.ReactNode;
 }) {
   return (
     <div className="space-y-1 rounded-sm border border-border p-3">
@@ -378,11 +482,94 @@ function StatCard({
         {icon}
         <span className="text-xs">{label}</span>
       </div>
-      <p className="text-lg font-semibold tabular-nums">{value}</p>
+      <div className="flex items-baseline gap-2">
+        <p className="text-lg font-semibold tabular-nums">{value}</p>
+        {delta}
+      </div>
     </div>
   );
 }
 
+function VariantComparison({
+  variants,
+  selected,
+  onSelect,
+}: {
+  variants: AnalyticsVariantSummary[];
+  selected: string;
+  onSelect: (variantId: string) => void;
+}) {
+  const totalScans = variants.reduce((sum, v) => sum + v.scans, 0);
+  const totalWeight = variants.reduce((sum, v) => sum + (v.weight ?? 0), 0);
+  const hasConversions = variants.some((v) => v.conversions > 0);
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="mb-4 flex items-center justify-between gap-4">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <Split className="h-4 w-4" />
+            A/B Split
+          </h3>
+          <Select
+            value={selected}
+            onChange={(e) => onSelect(e.target.value)}
+            className="w-[180px]"
+            aria-label="Show breakdowns for"
+          >
+            <option value="all">All variants</option>
+            {variants.map((v) => (
+              <option key={v.variant_id} value={v.variant_id}>
+                Variant {v.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="space-y-2">
+          {variants.map((v) => {
+            const share = totalScans > 0 ? (v.scans / totalScans) * 100 : 0;
+            const target = v.weight && totalWeight > 0 ? (v.weight / totalWeight) * 100 : null;
+            return (
+              <button
+                key={v.variant_id}
+                type="button"
+                onClick={() => onSelect(selected === v.variant_id ? 'all' : v.variant_id)}
+                className={`flex w-full items-center gap-3 rounded-sm border px-3 py-2 text-left transition-colors ${
+                  selected === v.variant_id ? 'border-foreground' : 'border-border hover:bg-muted'
+                }`}
+              >
+                <span className="w-20 shrink-0 truncate text-sm font-medium">{v.label}</span>
+                <span className="min-w-0 flex-1 truncate font-mono text-xs text-muted-foreground">
+                  {v.destination_url ?? 'no longer configured'}
+                </span>
+                <span className="w-16 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+                  {target !== null ? `${target.toFixed(0)}% target` : '—'}
+                </span>
+                <span className="w-20 shrink-0 text-right text-sm tabular-nums">
+                  {formatNumber(v.scans)}
+                  <span className="ml-1 text-xs text-muted-foreground">{share.toFixed(0)}%</span>
+                </span>
+                <span className="w-20 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+                  {formatNumber(v.unique_visitors)} unique
+                </span>
+                {hasConversions && (
+                  <span
+                    className="w-24 shrink-0 text-right text-xs text-muted-foreground tabular-nums"
+                    title="Conversions (rate per scan)"
+                  >
+                    {formatNumber(v.conversions)} conv.
+                    {v.scans > 0 && ` ${((v.conversions / v.scans) * 100).toFixed(1)}%`}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function EmptyHint({ children }: { children: React.ReactNode }) {
   return <p className="py-4 text-center text-sm text-muted-foreground">{children}</p>;
 }
@@ -431,6 +618,7 @@ function ChartTooltip({
     month: 'short',
     day: 'numeric',
     year: 'numeric',
+    timeZone: 'UTC',
   });
 
   const scans = payload[0]?.value ?? 0;
@@ -450,8 +638,8 @@ function AnalyticsSkeleton() {
         <Skeleton className="h-7 w-24" />
         <Skeleton className="h-10 w-[160px]" />
       </div>
-      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
-        {[...Array(4)].map((_, i) => (
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        {[...Array(5)].map((_, i) => (
           <Skeleton key={i} className="h-[72px]" />
         ))}
       </div>
@@ -466,9 +654,10 @@ function AnalyticsSkeleton() {
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
+/** Day keys are already local to the org; format them without shifting */
 function formatDateTick(dateStr: string): string {
   const d = new Date(dateStr);
-  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
 }
 
 function formatScanTime(iso: string): string {
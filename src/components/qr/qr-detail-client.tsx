@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { ExternalLink, Copy } from 'lucide-react';
 import {
   Button,
@@ -21,17 +22,44 @@ import { QRPreview } from './qr-preview';
 import { StylePanel } from './style-panel';
 import { ExportPanel } from './export-panel';
 import { QRAnalyticsPanel } from './qr-analytics-panel';
-import type { QRStyleConfig, ErrorCorrectionLevel, LogoMode } from '@/types/qr';
+import { DestinationRulesEditor } from './destination-rules-editor';
+import { DestinationVariantsEditor } from './destination-variants-editor';
+import { UtmTagsEditor } from './utm-tags-editor';
+import type {
+  QRStyleConfig,
+  ErrorCorrectionLevel,
+  LogoMode,
+  CodeSymbology,
+  GradientType,
+  BackgroundMode,
+} from '@/types/qr';
 import type { ModuleShape, EyeShape } from '@/lib/qr/shapes';
-import { QR_DEFAULTS } from '@/lib/constants';
+import { styleConfigToInput } from '@/lib/qr/style';
+import { QR_DEFAULTS, SYMBOLOGY_INFO, QR_PAYLOADS } from '@/lib/constants';
 
 interface QRDetailClientProps {
   qr: any;
   style: any;
   redirectUrl: string | null;
+  /** Managed link with the NFC medium marker; null unless the carrier includes NFC */
+  nfcUrl: string | null;
+  /** Contact codes: the person or bio page the served vCard is built from */
+  contactSource?: { name: string; editHref: string } | null;
+  /** Stored background image as a data URL, when the style uses one */
+  backgroundImage?: string | null;
+  /** Org default_timezone, used to evaluate scheduled destination rules */
+  timeZone: string | null;
 }
 
-export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetailClientProps) {
+export function QRDetailClient({
+  qr,
+  style: initialStyle,
+  redirectUrl,
+  nfcUrl,
+  contactSource,
+  backgroundImage,
+  timeZone,
+}: QRDetailClientProps) {
   const router = useRouter();
   const { addToast } = useToast();
 
@@ -48,12 +76,27 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
     logoMode: (initialStyle?.logo_mode || 'none') as LogoMode,
     logoDataUrl: initialStyle?.logo_data_url || undefined,
     logoSizeRatio: initialStyle?.logo_size_ratio || QR_DEFAULTS.DEFAULT_LOGO_RATIO,
+    gradientType: (initialStyle?.gradient_type || 'none') as GradientType,
+    gradientColor: initialStyle?.gradient_color || undefined,
+    gradientAngle: initialStyle?.gradient_angle ?? 0,
+    eyeOuterColor: initialStyle?.eye_outer_color || undefined,
+    eyeInnerColor: initialStyle?.eye_inner_color || undefined,
+    backgroundMode: (initialStyle?.background_mode || 'solid') as BackgroundMode,
+    backgroundImageDataUrl: backgroundImage || undefined,
   });
 
   const qrData = qr.mode === 'managed' && redirectUrl
     ? redirectUrl
     : qr.destination_url;
 
+  const symbology = (qr.symbology || 'qr') as CodeSymbology;
+  const symbologyInfo = SYMBOLOGY_INFO[symbology];
+  // Contact, Wi-Fi, … codes: destination_url holds the encoded text
+  const isContact = qr.payload_type === 'contact';
+  const payloadInfo = qr.payload_type && qr.payload_type !== 'url'
+    ? QR_PAYLOADS.find((p) => p.id === qr.payload_type)
+    : undefined;
+
   const copyToClipboard = async (text: string) => {
     await navigator.clipboard.writeText(text);
     addToast({ title: 'Copied to clipboard', variant: 'success' });
@@ -93,14 +136,8 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          style: {
-            foreground_color: style.foregroundColor,
-            background_color: style.backgroundColor,
-            error_correction: style.errorCorrection,
-            quiet_zone: style.quietZone,
-            module_shape: style.moduleShape,
-            eye_shape: style.eyeShape,
-          },
+          // The background image is only re-sent when it changed
+          style: styleConfigToInput(style, backgroundImage),
         }),
       });
 
@@ -128,14 +165,14 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
       <div className="space-y-6">
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">qr code</CardTitle>
+            <CardTitle className="text-base">{symbologyInfo.label.toLowerCase()}</CardTitle>
           </CardHeader>
           <CardContent>
-            <QRPreview data={qrData} style={style} size={300} />
+            <QRPreview data={qrData} style={style} size={300} symbology={symbology} />
           </CardContent>
         </Card>
 
-        <ExportPanel qrId={qr.id} data={qrData} style={style} />
+        <ExportPanel qrId={qr.id} data={qrData} style={style} symbology={symbology} />
       </div>
 
       {/* Right column - Tabs */}
@@ -174,39 +211,109 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
                       </a>
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      This is the URL encoded in your QR code
+                      This is the URL encoded in your {symbologyInfo.label}
                     </p>
                   </div>
                 )}
 
-                {/* Destination */}
-                <div className="space-y-2">
-                  <Label>destination url</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      value={qr.destination_url}
-                      readOnly
-                      className="font-mono text-sm"
-                    />
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={() => copyToClipboard(qr.destination_url)}
-                    >
-                      <Copy className="h-4 w-4" />
-                    </Button>
-                    <a href={qr.destination_url} target="_blank" rel="noopener noreferrer">
-                      <Button variant="outline" size="icon">
-                        <ExternalLink className="h-4 w-4" />
+                {/* NFC Link */}
+                {nfcUrl && (
+                  <div className="space-y-2">
+                    <Label>nfc tag link</Label>
+                    <div className="flex gap-2">
+                      <Input value={nfcUrl} readOnly className="font-mono text-sm" />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => copyToClipboard(nfcUrl)}
+                      >
+                        <Copy className="h-4 w-4" />
                       </Button>
-                    </a>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Write this URL to NFC tags so taps are counted separately from scans
+                    </p>
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    {qr.mode === 'managed'
-                      ? 'Visitors are redirected to this URL'
-                      : 'This URL is encoded directly in the QR code'}
-                  </p>
-                </div>
+                )}
+
+                {/* Destination — a GTIN for EAN-13 / UPC-A, the encoded text for payloads */}
+                {isContact ? (
+                  <div className="space-y-2">
+                    <Label>contact card</Label>
+                    <p className="text-sm">
+                      {contactSource ? contactSource.name : 'The linked contact has been deleted'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {contactSource
+                        ? 'Scans download this contact as a .vcf, built fresh from its current details'
+                        : `Scans now redirect to ${qr.destination_url}`}
+                    </p>
+                  </div>
+                ) : payloadInfo ? (
+                  <div className="space-y-2">
+                    <Label>{payloadInfo.label.toLowerCase()}</Label>
+                    <div className="flex gap-2 items-start">
+                      <pre className="flex-1 min-w-0 rounded-lg border border-input bg-background px-3 py-2 font-mono text-xs whitespace-pre-wrap break-all">
+                        {qr.destination_url}
+                      </pre>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => copyToClipboard(qr.destination_url)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The content encoded in this QR code
+                    </p>
+                  </div>
+                ) : !symbologyInfo.carriesUrl ? (
+                  <div className="space-y-2">
+                    <Label>gtin</Label>
+                    <div className="flex gap-2">
+                      <Input value={qr.destination_url} readOnly className="font-mono text-sm" />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => copyToClipboard(qr.destination_url)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The product number encoded in this {symbologyInfo.label} barcode
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>destination url</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        value={qr.destination_url}
+                        readOnly
+                        className="font-mono text-sm"
+                      />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => copyToClipboard(qr.destination_url)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <a href={qr.destination_url} target="_blank" rel="noopener noreferrer">
+                        <Button variant="outline" size="icon">
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                      </a>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {qr.mode === 'managed'
+                        ? 'Visitors are redirected to this URL'
+                        : `This URL is encoded directly in the ${symbologyInfo.label}`}
+                    </p>
+                  </div>
+                )}
 
                 {/* Stats */}
                 <div className="grid grid-cols-2 gap-4 pt-4 border-t">
@@ -227,7 +334,22 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
           <TabsContent value="destination">
             <Card>
               <CardContent className="pt-6 space-y-4">
-                {qr.mode === 'managed' ? (
+                {isContact ? (
+                  <div className="p-4 bg-muted rounded-sm space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      This code serves a contact card instead of redirecting. Edit the
+                      contact&apos;s details and every printed code picks them up on the next scan.
+                    </p>
+                    {contactSource && (
+                      <Link
+                        href={contactSource.editHref}
+                        className="inline-block text-sm text-lynx-400 hover:text-lynx-300 underline"
+                      >
+                        Edit {contactSource.name}
+                      </Link>
+                    )}
+                  </div>
+                ) : qr.mode === 'managed' ? (
                   <>
                     <div className="space-y-2">
                       <Label htmlFor="dest-url">destination url</Label>
@@ -247,12 +369,37 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
                     >
                       {isUpdating ? 'updating...' : 'update destination'}
                     </Button>
+
+                    <div className="pt-6 border-t">
+                      <DestinationRulesEditor
+                        qrId={qr.id}
+                        fallbackUrl={qr.destination_url}
+                        initialRules={qr.destination_rules ?? []}
+                        timeZone={timeZone}
+                      />
+                    </div>
+
+                    <div className="pt-6 border-t">
+                      <DestinationVariantsEditor
+                        qrId={qr.id}
+                        fallbackUrl={qr.destination_url}
+                        initialVariants={qr.destination_variants ?? []}
+                      />
+                    </div>
+
+                    <div className="pt-6 border-t">
+                      <UtmTagsEditor
+                        qrId={qr.id}
+                        destinationUrl={qr.destination_url}
+                        initialUtm={qr.utm ?? null}
+                      />
+                    </div>
                   </>
                 ) : (
                   <div className="p-4 bg-muted rounded-sm">
                     <p className="text-sm text-muted-foreground">
-                      This is a direct QR code. The destination URL is encoded directly
-                      in the QR code and cannot be changed without generating a new code.
+                      This is a direct {symbologyInfo.label}. Its content is encoded directly
+                      in the code and cannot be changed without generating a new code.
                     </p>
                   </div>
                 )}
@@ -264,7 +411,7 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
           <TabsContent value="style">
             <Card>
               <CardContent className="pt-6 space-y-4">
-                <StylePanel style={style} onChange={setStyle} />
+                <StylePanel style={style} onChange={setStyle} symbology={symbology} content={qrData} />
                 <Button onClick={updateStyle} disabled={isUpdating}>
                   {isUpdating ? 'saving...' : 'save style changes'}
                 </Button>
@@ -275,7 +422,7 @@ export function QRDetailClient({ qr, style: initialStyle, redirectUrl }: QRDetai
           {/* Analytics Tab */}
           {qr.analytics_enabled && (
             <TabsContent value="analytics">
-              <QRAnalyticsPanel qrId={qr.id} />
+              <QRAnalyticsPanel qrId={qr.id} showMedium={Boolean(nfcUrl)} />
             </TabsContent>
           )}
         </Tabs>
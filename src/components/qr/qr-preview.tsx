@@ -3,20 +3,27 @@
 import { useEffect, useState } from 'react';
 import DOMPurify from 'isomorphic-dompurify';
 import { QrCode, AlertTriangle } from 'lucide-react';
-import type { QRStyleConfig } from '@/types/qr';
+import type { QRStyleConfig, CodeSymbology } from '@/types/qr';
 import { QR_DEFAULTS } from '@/lib/constants';
 import { SVG_PURIFY_CONFIG } from '@/lib/security/svg-sanitizer';
+import { contrastRatio, getContrastWarnings } from '@/lib/qr/paint';
+
+// Shows through transparent codes, as in image editors
+const CHECKERBOARD =
+  'bg-[conic-gradient(#e4e4e7_25%,#ffffff_0_50%,#e4e4e7_0_75%,#ffffff_0)] bg-[length:16px_16px]';
 
 interface QRPreviewProps {
   data: string;
   style: QRStyleConfig;
   size?: number;
+  symbology?: CodeSymbology;
 }
 
 /**
- * Client-side QR preview component with custom styling support
+ * Client-side QR preview component with custom styling support.
+ * Other symbologies are drawn with buildBarcodeSVG at their own aspect ratio.
  */
-export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
+export function QRPreview({ data, style, size = 256, symbology = 'qr' }: QRPreviewProps) {
   const [svgContent, setSvgContent] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
@@ -26,20 +33,34 @@ export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
 
     async function generatePreview() {
       try {
-        // Dynamically import to avoid SSR issues
-        const { generateStyledSVG } = await import('@/lib/qr/svg-generator');
-
-        const svg = await generateStyledSVG(data, {
-          errorCorrection: style.errorCorrection,
-          foregroundColor: style.foregroundColor,
-          backgroundColor: style.backgroundColor,
-          moduleShape: style.moduleShape,
-          eyeShape: style.eyeShape,
-          quietZone: style.quietZone,
-          logoMode: style.logoMode,
-          logoDataUrl: style.logoDataUrl,
-          logoSizeRatio: style.logoSizeRatio,
-        });
+        let svg: string;
+        if (symbology !== 'qr') {
+          // Dynamically import to keep bwip-js out of the page bundle
+          const { buildBarcodeSVG } = await import('@/lib/qr/barcodes');
+          svg = buildBarcodeSVG(symbology, data, style, { includeXmlDeclaration: false });
+        } else {
+          // Dynamically import to avoid SSR issues
+          const { generateStyledSVG } = await import('@/lib/qr/svg-generator');
+
+          svg = await generateStyledSVG(data, {
+            errorCorrection: style.errorCorrection,
+            foregroundColor: style.foregroundColor,
+            backgroundColor: style.backgroundColor,
+            moduleShape: style.moduleShape,
+            eyeShape: style.eyeShape,
+            quietZone: style.quietZone,
+            logoMode: style.logoMode,
+            logoDataUrl: style.logoDataUrl,
+            logoSizeRatio: style.logoSizeRatio,
+            gradientType: style.gradientType,
+            gradientColor: style.gradientColor,
+            gradientAngle: style.gradientAngle,
+            eyeOuterColor: style.eyeOuterColor,
+            eyeInnerColor: style.eyeInnerColor,
+            backgroundMode: style.backgroundMode,
+            backgroundImageDataUrl: style.backgroundImageDataUrl,
+          });
+        }
 
         if (!cancelled) {
           setSvgContent(svg);
@@ -48,14 +69,19 @@ export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
           // Check for warnings
           const newWarnings: string[] = [];
 
-          // Contrast warning
-          const fgLum = getLuminance(style.foregroundColor);
-          const bgLum = getLuminance(style.backgroundColor);
-          const contrast = (Math.max(fgLum, bgLum) + 0.05) / (Math.min(fgLum, bgLum) + 0.05);
-          if (contrast < 4) {
-            newWarnings.push('Low contrast may affect scanning');
+          // The remaining checks are about QR features; barcodes are
+          // always flat colours
+          if (symbology !== 'qr') {
+            if (contrastRatio(style.foregroundColor, style.backgroundColor) < QR_DEFAULTS.MIN_CONTRAST) {
+              newWarnings.push('Low contrast may affect scanning');
+            }
+            setWarnings(newWarnings);
+            return;
           }
 
+          // Gradient stops, eye colours and background
+          newWarnings.push(...getContrastWarnings(style));
+
           // Logo size warning
           if (style.logoMode !== 'none' && style.logoSizeRatio && style.logoSizeRatio > QR_DEFAULTS.WARN_LOGO_RATIO) {
             newWarnings.push('Large logo may affect scanning');
@@ -76,7 +102,8 @@ export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
       } catch (err) {
         console.error('QR preview error:', err);
         if (!cancelled) {
-          setError('Failed to generate QR preview');
+          // Barcode content errors (bad check digit, …) are worth showing as-is
+          setError(symbology !== 'qr' && err instanceof Error ? err.message : 'Failed to generate QR preview');
           setSvgContent(null);
         }
       }
@@ -87,7 +114,7 @@ export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
     return () => {
       cancelled = true;
     };
-  }, [data, style]);
+  }, [data, style, symbology]);
 
   if (error) {
     return (
@@ -115,7 +142,9 @@ export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
   return (
     <div className="space-y-2">
       <div
-        className="aspect-square rounded-sm overflow-hidden border border-border"
+        className={`${symbology === 'qr' ? 'aspect-square ' : ''}rounded-sm overflow-hidden border border-border${
+          symbology === 'qr' && style.backgroundMode === 'transparent' ? ` ${CHECKERBOARD}` : ''
+        }`}
         style={{ maxWidth: size }}
         dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(svgContent, SVG_PURIFY_CONFIG) }}
       />
@@ -133,29 +162,3 @@ export function QRPreview({ data, style, size = 256 }: QRPreviewProps) {
     </div>
   );
 }
-
-/**
- * Calculate relative luminance of a hex color
- */
-function getLuminance(hex: string): number {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return 0;
-
-  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((v) => {
-    v /= 255;
-    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-  });
-
-  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
-}
-
-function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result
-    ? {
-        r: parseInt(result[1], 16),
-        g: parseInt(result[2], 16),
-        b: parseInt(result[3], 16),
-      }
-    : null;
-}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+import { Label } from '@/components/ui';
+import { styleConfigToInput } from '@/lib/qr/style';
+import type { QRStyleConfig, ScannabilityReport } from '@/types/qr';
+
+// Editors re-render on every slider tick; only check once they settle
+const CHECK_DELAY_MS = 800;
+const CACHE_LIMIT = 20;
+
+// Request body → report, shared by the style panel and export panel so an
+// export right after the panel's check doesn't render the code again
+const reports = new Map<string, Promise<ScannabilityReport>>();
+
+function requestBody(content: string, style: QRStyleConfig): string {
+  // An upload mode with no image yet draws no logo
+  const logoMode = style.logoMode === 'upload' && !style.logoDataUrl ? 'none' : style.logoMode;
+  return JSON.stringify({
+    content,
+    style: { ...styleConfigToInput(style), logo_size_ratio: style.logoSizeRatio },
+    logo_mode: logoMode,
+  });
+}
+
+function runCheck(body: string): Promise<ScannabilityReport> {
+  const cached = reports.get(body);
+  if (cached) return cached;
+
+  const report = fetch('/api/qr/scannability', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  }).then(async (res) => {
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      throw new Error(data?.error || 'Scan test failed to run');
+    }
+    return res.json() as Promise<ScannabilityReport>;
+  });
+  report.catch(() => reports.delete(body));
+
+  if (reports.size >= CACHE_LIMIT) {
+    reports.delete(reports.keys().next().value as string);
+  }
+  reports.set(body, report);
+  return report;
+}
+
+/**
+ * Render and decode the styled code server-side (POST /api/qr/scannability).
+ * Rejects when the check couldn't run, e.g. when rate limited.
+ */
+export function fetchScannability(content: string, style: QRStyleConfig): Promise<ScannabilityReport> {
+  return runCheck(requestBody(content, style));
+}
+
+const BLUR_LABELS: Record<number, string> = { 0: 'sharp', 0.25: 'soft', 0.5: 'blurry' };
+
+interface ScannabilityCheckProps {
+  /** Exactly what the code encodes */
+  content: string;
+  style: QRStyleConfig;
+}
+
+/**
+ * Scan test for the style being edited: decodes the code at print sizes
+ * and blur levels, and scores its contrast and logo coverage.
+ */
+export function ScannabilityCheck({ content, style }: ScannabilityCheckProps) {
+  const [report, setReport] = useState<ScannabilityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const body = useMemo(() => requestBody(content, style), [content, style]);
+
+  useEffect(() => {
+    if (!content) {
+      setIsChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsChecking(true);
+
+    const timer = setTimeout(() => {
+      runCheck(body)
+        .then((result) => {
+          if (cancelled) return;
+          setReport(result);
+          setError(null);
+        })
+        .catch((err: Error) => {
+          if (!cancelled) setError(err.message);
+        })
+        .finally(() => {
+          if (!cancelled) setIsChecking(false);
+        });
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [content, body]);
+
+  const sizes = report ? [...new Set(report.attempts.map((a) => a.size))] : [];
+  const blurs = report ? [...new Set(report.attempts.map((a) => a.blur))] : [];
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <div className="flex items-center justify-between">
+        <Label>scan test</Label>
+        {isChecking && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && !report && <p className="text-xs text-destructive">{error}</p>}
+
+      {report && (
+        <div className={`space-y-3 ${isChecking ? 'opacity-50' : ''}`}>
+          {report.passed ? (
+            <div className="flex items-start gap-2 p-2 bg-green-50 border border-green-200 rounded-sm text-green-800">
+              <CheckCircle2 className="h-4 w-4 shrink-0 mt-0.5" />
+              <p className="text-xs">Scans at every size. Score {report.score}/100</p>
+            </div>
+          ) : (
+            <div className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              <div className="text-xs space-y-1">
+                <p className="font-medium">Failed the scan test. Score {report.score}/100</p>
+                {report.issues.map((issue, i) => (
+                  <p key={i}>{issue}</p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {report.passed && report.issues.length > 0 && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              {report.issues.map((issue, i) => (
+                <p key={i}>{issue}</p>
+              ))}
+            </div>
+          )}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal">width</th>
+                {blurs.map((blur) => (
+                  <th key={blur} className="font-normal">{BLUR_LABELS[blur] ?? blur}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sizes.map((size) => (
+                <tr key={size}>
+                  <td className="font-mono">{size}px</td>
+                  {blurs.map((blur) => {
+                    const decoded = report.attempts.find((a) => a.size === size && a.blur === blur)?.decoded;
+                    return (
+                      <td key={blur} className={`text-center ${decoded ? 'text-green-700' : 'text-red-700'}`}>
+                        {decoded ? '✓' : '✗'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">contrast</dt>
+            <dd className="text-right font-mono">{report.contrast.ratio}:1</dd>
+            <dt className="text-muted-foreground">logo covers</dt>
+            <dd className="text-right font-mono">
+              {Math.round(report.logoCoverage.ratio * 100)}% (recoverable {Math.round(report.logoCoverage.capacity * 100)}%)
+            </dd>
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,13 +3,25 @@
 import { useRef } from 'react';
 import { Upload, X, ImageIcon } from 'lucide-react';
 import { Label, Select, Input, Button } from '@/components/ui';
-import { MODULE_SHAPES, EYE_SHAPES, QR_DEFAULTS } from '@/lib/constants';
-import type { QRStyleConfig, ErrorCorrectionLevel, LogoMode } from '@/types/qr';
+import { MODULE_SHAPES, EYE_SHAPES, GRADIENT_TYPES, QR_DEFAULTS, SYMBOLOGY_INFO } from '@/lib/constants';
+import type {
+  QRStyleConfig,
+  ErrorCorrectionLevel,
+  LogoMode,
+  CodeSymbology,
+  GradientType,
+  BackgroundMode,
+} from '@/types/qr';
 import type { ModuleShape, EyeShape } from '@/lib/qr/shapes';
+import { ScannabilityCheck } from './scannability-check';
 
 interface StylePanelProps {
   style: QRStyleConfig;
   onChange: (style: QRStyleConfig) => void;
+  /** Barcodes only take colours and a quiet zone; the QR options are hidden */
+  symbology?: CodeSymbology;
+  /** What the code encodes; QR codes get a scan test when it's given */
+  content?: string;
 }
 
 const LOGO_MODES: { value: LogoMode; label: string; description: string }[] = [
@@ -18,8 +30,60 @@ const LOGO_MODES: { value: LogoMode; label: string; description: string }[] = [
   { value: 'placeholder', label: 'Placeholder', description: 'Leave blank space for manual logo' },
 ];
 
-export function StylePanel({ style, onChange }: StylePanelProps) {
+const BACKGROUND_MODES: { value: BackgroundMode; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'transparent', label: 'Transparent' },
+  { value: 'image', label: 'Image' },
+];
+
+const BACKGROUND_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// 'vertical-bars' → 'vertical bars'
+const shapeLabel = (shape: string) => shape.replace(/-/g, ' ');
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string | undefined;
+  /** Shown, greyed, while the field is unset */
+  fallback: string;
+  onChange: (value: string | undefined) => void;
+}
+
+/** Optional colour: clearing it goes back to the fallback */
+function ColorField({ id, label, value, fallback, onChange }: ColorFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <input
+          type="color"
+          id={id}
+          value={value ?? fallback}
+          onChange={(e) => onChange(e.target.value)}
+          className={`h-10 w-10 rounded-sm border border-input cursor-pointer ${value ? '' : 'opacity-50'}`}
+        />
+        <Input
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          placeholder="same as foreground"
+          className="flex-1 font-mono text-sm"
+        />
+        {value && (
+          <Button type="button" size="sm" variant="outline" onClick={() => onChange(undefined)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function StylePanel({ style, onChange, symbology = 'qr', content }: StylePanelProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backgroundInputRef = useRef<HTMLInputElement>(null);
+  const isQR = symbology === 'qr';
+  const symbologyInfo = SYMBOLOGY_INFO[symbology];
 
   const updateStyle = (updates: Partial<QRStyleConfig>) => {
     onChange({ ...style, ...updates });
@@ -60,6 +124,34 @@ export function StylePanel({ style, onChange }: StylePanelProps) {
     }
   };
 
+  const handleBackgroundUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!BACKGROUND_IMAGE_TYPES.includes(file.type)) {
+      alert('Please upload a PNG, JPG or WebP image');
+      return;
+    }
+
+    if (file.size > QR_DEFAULTS.MAX_BACKGROUND_IMAGE_BYTES) {
+      alert(`Image must be less than ${QR_DEFAULTS.MAX_BACKGROUND_IMAGE_BYTES / 1024}KB`);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      updateStyle({
+        backgroundImageDataUrl: event.target?.result as string,
+        backgroundMode: 'image',
+      });
+    };
+    reader.readAsDataURL(file);
+
+    if (backgroundInputRef.current) {
+      backgroundInputRef.current.value = '';
+    }
+  };
+
   const removeLogo = () => {
     updateStyle({
       logoDataUrl: undefined,
@@ -110,56 +202,224 @@ export function StylePanel({ style, onChange }: StylePanelProps) {
         </div>
       </div>
 
+      {/* Gradient */}
+      {isQR && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gradient-type">fill</Label>
+              <Select
+                id="gradient-type"
+                value={style.gradientType ?? 'none'}
+                onChange={(e) => {
+                  const gradientType = e.target.value as GradientType;
+                  updateStyle({
+                    gradientType,
+                    gradientColor: gradientType === 'none' ? undefined : style.gradientColor ?? style.foregroundColor,
+                  });
+                }}
+              >
+                {GRADIENT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type === 'none' ? 'flat colour' : `${type} gradient`}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            {style.gradientType && style.gradientType !== 'none' && (
+              <div className="space-y-2">
+                <Label htmlFor="gradient-color">gradient end</Label>
+                <div className="flex gap-2">
+                  <input
+                    type="color"
+                    id="gradient-color"
+                    value={style.gradientColor ?? style.foregroundColor}
+                    onChange={(e) => updateStyle({ gradientColor: e.target.value })}
+                    className="h-10 w-10 rounded-sm border border-input cursor-pointer"
+                  />
+                  <Input
+                    value={style.gradientColor ?? ''}
+                    onChange={(e) => updateStyle({ gradientColor: e.target.value })}
+                    placeholder="#000000"
+                    className="flex-1 font-mono text-sm"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {style.gradientType === 'linear' && (
+            <div className="space-y-2">
+              <Label htmlFor="gradient-angle">
+                gradient angle: {style.gradientAngle ?? 0}°
+              </Label>
+              <input
+                type="range"
+                id="gradient-angle"
+                min={0}
+                max={359}
+                value={style.gradientAngle ?? 0}
+                onChange={(e) => updateStyle({ gradientAngle: parseInt(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Shapes */}
-      <div className="grid grid-cols-2 gap-4">
-        <div className="space-y-2">
-          <Label htmlFor="module-shape">module shape</Label>
-          <Select
-            id="module-shape"
-            value={style.moduleShape}
-            onChange={(e) => updateStyle({ moduleShape: e.target.value as ModuleShape })}
-          >
-            {MODULE_SHAPES.map((shape) => (
-              <option key={shape} value={shape}>
-                {shape}
-              </option>
+      {isQR && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="module-shape">module shape</Label>
+            <Select
+              id="module-shape"
+              value={style.moduleShape}
+              onChange={(e) => updateStyle({ moduleShape: e.target.value as ModuleShape })}
+            >
+              {MODULE_SHAPES.map((shape) => (
+                <option key={shape} value={shape}>
+                  {shapeLabel(shape)}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="eye-shape">eye shape</Label>
+            <Select
+              id="eye-shape"
+              value={style.eyeShape}
+              onChange={(e) => updateStyle({ eyeShape: e.target.value as EyeShape })}
+            >
+              {EYE_SHAPES.map((shape) => (
+                <option key={shape} value={shape}>
+                  {shapeLabel(shape)}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+
+      )}
+
+      {/* Eye colours */}
+      {isQR && (
+        <div className="grid grid-cols-2 gap-4">
+          <ColorField
+            id="eye-outer-color"
+            label="outer eye"
+            value={style.eyeOuterColor}
+            fallback={style.foregroundColor}
+            onChange={(eyeOuterColor) => updateStyle({ eyeOuterColor })}
+          />
+          <ColorField
+            id="eye-inner-color"
+            label="inner eye"
+            value={style.eyeInnerColor}
+            fallback={style.foregroundColor}
+            onChange={(eyeInnerColor) => updateStyle({ eyeInnerColor })}
+          />
+        </div>
+      )}
+
+      {/* Background */}
+      {isQR && (
+        <div className="space-y-3">
+          <Label>background</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {BACKGROUND_MODES.map((mode) => (
+              <button
+                key={mode.value}
+                type="button"
+                onClick={() => {
+                  if (mode.value === 'image' && !style.backgroundImageDataUrl) {
+                    backgroundInputRef.current?.click();
+                  } else {
+                    updateStyle({ backgroundMode: mode.value });
+                  }
+                }}
+                className={`p-2 text-xs border rounded-sm transition-colors ${
+                  (style.backgroundMode ?? 'solid') === mode.value
+                    ? 'border-foreground bg-foreground/5'
+                    : 'border-input hover:border-foreground/50'
+                }`}
+              >
+                {mode.label}
+              </button>
             ))}
-          </Select>
+          </div>
+
+          <input
+            ref={backgroundInputRef}
+            type="file"
+            accept={BACKGROUND_IMAGE_TYPES.join(',')}
+            onChange={handleBackgroundUpload}
+            className="hidden"
+          />
+
+          {style.backgroundMode === 'image' && style.backgroundImageDataUrl && (
+            <div className="flex items-center gap-3 p-3 border rounded-sm">
+              <img
+                src={style.backgroundImageDataUrl}
+                alt="Background preview"
+                className="w-12 h-12 object-cover rounded-sm border"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">Background image</p>
+                <p className="text-xs text-muted-foreground">
+                  Shown under a veil of the background colour
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => backgroundInputRef.current?.click()}
+                >
+                  <Upload className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateStyle({ backgroundImageDataUrl: undefined, backgroundMode: 'solid' })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {style.backgroundMode === 'transparent' && (
+            <p className="text-xs text-muted-foreground">
+              Nothing is drawn behind the modules. Print on a light, plain surface.
+            </p>
+          )}
         </div>
+      )}
 
+      {/* Error Correction */}
+      {isQR && (
         <div className="space-y-2">
-          <Label htmlFor="eye-shape">eye shape</Label>
+          <Label htmlFor="error-correction">error correction</Label>
           <Select
-            id="eye-shape"
-            value={style.eyeShape}
-            onChange={(e) => updateStyle({ eyeShape: e.target.value as EyeShape })}
+            id="error-correction"
+            value={style.errorCorrection}
+            onChange={(e) => updateStyle({ errorCorrection: e.target.value as ErrorCorrectionLevel })}
           >
-            {EYE_SHAPES.map((shape) => (
-              <option key={shape} value={shape}>
-                {shape}
-              </option>
-            ))}
+            <option value="L">Low (7% recovery)</option>
+            <option value="M">Medium (15% recovery) - recommended</option>
+            <option value="Q">Quartile (25% recovery)</option>
+            <option value="H">High (30% recovery) - best for logos</option>
           </Select>
+          <p className="text-xs text-muted-foreground">
+            Higher error correction allows the QR to be read even if partially obscured
+          </p>
         </div>
-      </div>
-
-      {/* Error Correction */}
-      <div className="space-y-2">
-        <Label htmlFor="error-correction">error correction</Label>
-        <Select
-          id="error-correction"
-          value={style.errorCorrection}
-          onChange={(e) => updateStyle({ errorCorrection: e.target.value as ErrorCorrectionLevel })}
-        >
-          <option value="L">Low (7% recovery)</option>
-          <option value="M">Medium (15% recovery) - recommended</option>
-          <option value="Q">Quartile (25% recovery)</option>
-          <option value="H">High (30% recovery) - best for logos</option>
-        </Select>
-        <p className="text-xs text-muted-foreground">
-          Higher error correction allows the QR to be read even if partially obscured
-        </p>
-      </div>
+      )}
 
       {/* Quiet Zone */}
       <div className="space-y-2">
@@ -176,134 +436,141 @@ export function StylePanel({ style, onChange }: StylePanelProps) {
           className="w-full"
         />
         <p className="text-xs text-muted-foreground">
-          The white border around the QR. Minimum 4 modules recommended.
+          {isQR
+            ? 'The white border around the QR. Minimum 4 modules recommended.'
+            : `The blank margin around the code. ${symbologyInfo.label} needs at least ${symbologyInfo.minQuietZone} modules; smaller values are raised to that.`}
         </p>
       </div>
 
       {/* Logo Section */}
-      <div className="space-y-3 pt-4 border-t">
-        <Label>center logo</Label>
-
-        {/* Logo Mode Selection */}
-        <div className="grid grid-cols-3 gap-2">
-          {LOGO_MODES.map((mode) => (
-            <button
-              key={mode.value}
-              type="button"
-              onClick={() => {
-                if (mode.value === 'upload' && !style.logoDataUrl) {
-                  fileInputRef.current?.click();
-                } else {
-                  updateStyle({
-                    logoMode: mode.value,
-                    errorCorrection: mode.value !== 'none' ? 'H' : style.errorCorrection,
-                  });
-                }
-              }}
-              className={`p-2 text-xs border rounded-sm transition-colors ${
-                style.logoMode === mode.value
-                  ? 'border-foreground bg-foreground/5'
-                  : 'border-input hover:border-foreground/50'
-              }`}
-            >
-              {mode.label}
-            </button>
-          ))}
-        </div>
-
-        {/* Hidden file input */}
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept="image/*"
-          onChange={handleLogoUpload}
-          className="hidden"
-        />
+      {isQR && (
+        <div className="space-y-3 pt-4 border-t">
+          <Label>center logo</Label>
 
-        {/* Logo Preview & Controls */}
-        {style.logoMode === 'upload' && (
-          <div className="space-y-3">
-            {style.logoDataUrl ? (
-              <div className="flex items-center gap-3 p-3 border rounded-sm">
-                <img
-                  src={style.logoDataUrl}
-                  alt="Logo preview"
-                  className="w-12 h-12 object-contain rounded-sm border"
-                />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">Logo uploaded</p>
-                  <p className="text-xs text-muted-foreground">Click to change</p>
-                </div>
-                <div className="flex gap-1">
-                  <Button
-                    type="button"
-                    size="sm"
-                    variant="outline"
-                    onClick={() => fileInputRef.current?.click()}
-                  >
-                    <Upload className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    type="button"
-                    size="sm"
-                    variant="outline"
-                    onClick={removeLogo}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            ) : (
+          {/* Logo Mode Selection */}
+          <div className="grid grid-cols-3 gap-2">
+            {LOGO_MODES.map((mode) => (
               <button
+                key={mode.value}
                 type="button"
-                onClick={() => fileInputRef.current?.click()}
-                className="w-full p-6 border-2 border-dashed rounded-sm hover:border-foreground/50 transition-colors"
+                onClick={() => {
+                  if (mode.value === 'upload' && !style.logoDataUrl) {
+                    fileInputRef.current?.click();
+                  } else {
+                    updateStyle({
+                      logoMode: mode.value,
+                      errorCorrection: mode.value !== 'none' ? 'H' : style.errorCorrection,
+                    });
+                  }
+                }}
+                className={`p-2 text-xs border rounded-sm transition-colors ${
+                  style.logoMode === mode.value
+                    ? 'border-foreground bg-foreground/5'
+                    : 'border-input hover:border-foreground/50'
+                }`}
               >
-                <div className="flex flex-col items-center gap-2 text-muted-foreground">
-                  <Upload className="h-8 w-8" />
-                  <span className="text-sm">Click to upload logo</span>
-                  <span className="text-xs">PNG, JPG, SVG (max 500KB)</span>
-                </div>
+                {mode.label}
               </button>
-            )}
+            ))}
           </div>
-        )}
 
-        {style.logoMode === 'placeholder' && (
-          <div className="flex items-center gap-3 p-3 border rounded-sm bg-muted/50">
-            <div className="w-12 h-12 border-2 border-dashed rounded-sm flex items-center justify-center">
-              <ImageIcon className="h-6 w-6 text-muted-foreground" />
+          {/* Hidden file input */}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleLogoUpload}
+            className="hidden"
+          />
+
+          {/* Logo Preview & Controls */}
+          {style.logoMode === 'upload' && (
+            <div className="space-y-3">
+              {style.logoDataUrl ? (
+                <div className="flex items-center gap-3 p-3 border rounded-sm">
+                  <img
+                    src={style.logoDataUrl}
+                    alt="Logo preview"
+                    className="w-12 h-12 object-contain rounded-sm border"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">Logo uploaded</p>
+                    <p className="text-xs text-muted-foreground">Click to change</p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={removeLogo}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full p-6 border-2 border-dashed rounded-sm hover:border-foreground/50 transition-colors"
+                >
+                  <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                    <Upload className="h-8 w-8" />
+                    <span className="text-sm">Click to upload logo</span>
+                    <span className="text-xs">PNG, JPG, SVG (max 500KB)</span>
+                  </div>
+                </button>
+              )}
             </div>
-            <div className="flex-1">
-              <p className="text-sm font-medium">Placeholder enabled</p>
+          )}
+
+          {style.logoMode === 'placeholder' && (
+            <div className="flex items-center gap-3 p-3 border rounded-sm bg-muted/50">
+              <div className="w-12 h-12 border-2 border-dashed rounded-sm flex items-center justify-center">
+                <ImageIcon className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-medium">Placeholder enabled</p>
+                <p className="text-xs text-muted-foreground">
+                  A blank square will be left in the center for you to add a logo manually
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Logo Size */}
+          {style.logoMode !== 'none' && (
+            <div className="space-y-2">
+              <Label htmlFor="logo-size">
+                logo size: {Math.round((style.logoSizeRatio || 0.2) * 100)}%
+              </Label>
+              <input
+                type="range"
+                id="logo-size"
+                min={15}
+                max={30}
+                value={(style.logoSizeRatio || 0.2) * 100}
+                onChange={(e) => updateStyle({ logoSizeRatio: parseInt(e.target.value) / 100 })}
+                className="w-full"
+              />
               <p className="text-xs text-muted-foreground">
-                A blank square will be left in the center for you to add a logo manually
+                Larger logos may affect scanning reliability. Using high error correction is recommended.
               </p>
             </div>
-          </div>
-        )}
+          )}
+        </div>
+      )}
 
-        {/* Logo Size */}
-        {style.logoMode !== 'none' && (
-          <div className="space-y-2">
-            <Label htmlFor="logo-size">
-              logo size: {Math.round((style.logoSizeRatio || 0.2) * 100)}%
-            </Label>
-            <input
-              type="range"
-              id="logo-size"
-              min={15}
-              max={30}
-              value={(style.logoSizeRatio || 0.2) * 100}
-              onChange={(e) => updateStyle({ logoSizeRatio: parseInt(e.target.value) / 100 })}
-              className="w-full"
-            />
-            <p className="text-xs text-muted-foreground">
-              Larger logos may affect scanning reliability. Using high error correction is recommended.
-            </p>
-          </div>
-        )}
-      </div>
+      {/* Scan test */}
+      {isQR && content && <ScannabilityCheck content={content} style={style} />}
     </div>
   );
 }
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button, Label, useToast } from '@/components/ui';
+import { UtmFields } from '@/components/campaigns/utm-fields';
+import { appendUtm, normalizeUtm } from '@/lib/utm';
+import type { UtmParams } from '@/types/qr';
+
+interface UtmTagsEditorProps {
+  qrId: string;
+  destinationUrl: string;
+  initialUtm: UtmParams | null;
+}
+
+/**
+ * Editor for a managed QR's UTM tags.
+ *
+ * The redirect appends the tags to whichever destination it resolves to
+ * (scheduled rule, A/B variant or the fallback URL), so analytics tools can
+ * attribute the visit. Tags already in a destination URL are left as they are.
+ */
+export function UtmTagsEditor({ qrId, destinationUrl, initialUtm }: UtmTagsEditorProps) {
+  const router = useRouter();
+  const { addToast } = useToast();
+
+  const [utm, setUtm] = useState<UtmParams>(initialUtm ?? {});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveUtm = async (next: UtmParams | null) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/qr/${qrId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ utm: normalizeUtm(next) }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to save tags');
+      }
+
+      if (!next) setUtm({});
+      addToast({ title: next ? 'UTM tags saved' : 'UTM tags removed', variant: 'success' });
+      router.refresh();
+    } catch (error: any) {
+      addToast({
+        title: 'Failed to save tags',
+        description: error.message,
+        variant: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const preview = appendUtm(destinationUrl, utm);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label>utm tags</Label>
+        <p className="text-xs text-muted-foreground">
+          Added to the destination on every scan so analytics tools can tell this
+          code&apos;s traffic apart. Codes sharing a campaign can be edited together
+          under Campaigns.
+        </p>
+      </div>
+
+      <UtmFields idPrefix={`qr-${qrId}`} value={utm} onChange={setUtm} disabled={isSaving} />
+
+      {preview !== destinationUrl && (
+        <p className="text-xs text-muted-foreground break-all font-mono">{preview}</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => saveUtm(utm)} disabled={isSaving}>
+          {isSaving ? 'saving...' : 'save tags'}
+        </Button>
+        {initialUtm && (
+          <Button variant="outline" onClick={() => saveUtm(null)} disabled={isSaving}>
+            remove tags
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ALERT_DEFAULTS } from '@/lib/constants';
+import type { AlertEvent, AlertRuleSummary } from '@/types/alert';
+
+/**
+ * Dashboard reads for alert rules and their events, shared by
+ * /api/org/alerts and the alerts page. RLS scopes both to org members.
+ */
+
+export const ALERT_RULE_SUMMARY_COLUMNS =
+  'id, created_by, qr_id, page_id, kind, threshold, window_hours, delivery, recipients, is_active, last_triggered_at, created_at, updated_at';
+
+type SummaryRow = Omit<AlertRuleSummary, 'target_name'> & {
+  qr_codes: { name: string } | { name: string }[] | null;
+  bio_link_pages: { title: string } | { title: string }[] | null;
+};
+
+function first<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+/** Flatten a rule row with its embedded QR code / bio page into a summary */
+export function toAlertRuleSummary(row: SummaryRow): AlertRuleSummary {
+  const { qr_codes, bio_link_pages, ...rule } = row;
+  return {
+    ...rule,
+    target_name: first(qr_codes)?.name ?? first(bio_link_pages)?.title ?? 'Deleted',
+  };
+}
+
+export async function listAlertRules(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<AlertRuleSummary[]> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select(`${ALERT_RULE_SUMMARY_COLUMNS}, qr_codes(name), bio_link_pages(title)`)
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load alert rules: ${error.message}`);
+  return ((data ?? []) as SummaryRow[]).map(toAlertRuleSummary);
+}
+
+export async function listAlertEvents(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<AlertEvent[]> {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select('id, rule_id, org_id, message, details, triggered_at, notified_at, email_status')
+    .eq('org_id', orgId)
+    .order('triggered_at', { ascending: false })
+    .limit(ALERT_DEFAULTS.EVENTS_LIMIT);
+  if (error) throw new Error(`Failed to load alert events: ${error.message}`);
+  return (data ?? []) as AlertEvent[];
+}
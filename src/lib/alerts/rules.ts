@@ -0,0 +1,171 @@
+import { shiftDay } from '@/lib/analytics/rollups';
+import { getZonedParts, zonedDayStart } from '@/lib/timezone';
+import type { AlertDelivery, AlertKind, AlertRuleRecord } from '@/types/alert';
+
+/**
+ * Alert rule evaluation.
+ *
+ * Pure decisions for the alerts cron: whether a rule fires given the stats
+ * gathered for its QR code (scans) or bio page (views), and whether a
+ * digest rule's pending events are due to be emailed. Kept free of I/O so
+ * every rule kind can be unit-tested.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The cron runs hourly; half an hour of slack stops a daily rule drifting
+// an hour later every time it fires
+const CRON_SLACK_HOURS = 0.5;
+
+/** Digests go out at this local hour in the org's timezone (weekly: Mondays) */
+export const DIGEST_HOUR = 8;
+const DIGEST_WEEKDAY = 1;
+
+export interface AlertTarget {
+  type: 'qr' | 'bio';
+  name: string;
+}
+
+export interface AlertRuleStats {
+  /** When the target's first ever scan / view happened (first_scan) */
+  firstAt?: string | null;
+  /** Scans / views in the rule's window (volume_above, volume_below, inactive) */
+  windowCount?: number;
+  /** Countries first seen since the last evaluation (new_country) */
+  newCountries?: string[];
+}
+
+export interface AlertTrigger {
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/** Which stats a rule kind needs, so the cron only runs those queries */
+export function statsNeeded(kind: AlertKind): keyof AlertRuleStats {
+  switch (kind) {
+    case 'first_scan':
+      return 'firstAt';
+    case 'new_country':
+      return 'newCountries';
+    default:
+      return 'windowCount';
+  }
+}
+
+/** Start of the period new_country looks at: since the previous run */
+export function evaluationSince(rule: Pick<AlertRuleRecord, 'last_evaluated_at' | 'created_at'>): string {
+  return rule.last_evaluated_at ?? rule.created_at;
+}
+
+function describeTarget(target: AlertTarget): string {
+  return `${target.type === 'qr' ? 'QR code' : 'Bio page'} “${target.name}”`;
+}
+
+function describeWindow(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return days === 1 ? '24 hours' : `${days} days`;
+  }
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+function hoursSince(iso: string, now: Date): number {
+  return (now.getTime() - new Date(iso).getTime()) / HOUR_MS;
+}
+
+/**
+ * Decide whether `rule` fires now. Volume and inactivity rules fire at most
+ * once per window, and only once the rule is at least one window old, so a
+ * new rule doesn't alert on history from before it existed.
+ */
+export function evaluateAlertRule(
+  rule: AlertRuleRecord,
+  target: AlertTarget,
+  stats: AlertRuleStats,
+  now: Date = new Date(),
+): AlertTrigger | null {
+  const subject = describeTarget(target);
+  const noun = target.type === 'qr' ? 'scan' : 'view';
+  const window = rule.window_hours ?? 0;
+  const cooledDown =
+    !rule.last_triggered_at || hoursSince(rule.last_triggered_at, now) >= window - CRON_SLACK_HOURS;
+  const fullWindow = hoursSince(rule.created_at, now) >= window - CRON_SLACK_HOURS;
+  const count = stats.windowCount ?? 0;
+
+  switch (rule.kind) {
+    case 'first_scan': {
+      if (rule.last_triggered_at || !stats.firstAt) return null;
+      // A target that was already live when the rule was made has no "first" to report
+      if (new Date(stats.firstAt) < new Date(rule.created_at)) return null;
+      return {
+        message: `${subject} got its first ${noun}.`,
+        details: { first_at: stats.firstAt },
+      };
+    }
+
+    case 'volume_above': {
+      const threshold = rule.threshold ?? 0;
+      if (!cooledDown || count <= threshold) return null;
+      return {
+        message: `${subject} had ${count} ${noun}s in the last ${describeWindow(window)} (alert above ${threshold}).`,
+        details: { count, threshold, window_hours: window },
+      };
+    }
+
+    case 'volume_below': {
+      const threshold = rule.threshold ?? 0;
+      if (!fullWindow || !cooledDown || count >= threshold) return null;
+      return {
+        message: `${subject} had only ${count} ${noun}${count === 1 ? '' : 's'} in the last ${describeWindow(window)} (alert below ${threshold}).`,
+        details: { count, threshold, window_hours: window },
+      };
+    }
+
+    case 'inactive': {
+      if (!fullWindow || !cooledDown || count > 0) return null;
+      return {
+        message: `${subject} has had no ${noun}s for ${describeWindow(window)}.`,
+        details: { window_hours: window },
+      };
+    }
+
+    case 'new_country': {
+      const countries = stats.newCountries ?? [];
+      if (countries.length === 0) return null;
+      return {
+        message: `${subject} got its first ${noun}${countries.length === 1 ? '' : 's'} from ${countries.join(', ')}.`,
+        details: { countries },
+      };
+    }
+  }
+}
+
+/** The most recent digest send time at or before `now` */
+export function lastDigestSlot(
+  delivery: Exclude<AlertDelivery, 'immediate'>,
+  timeZone: string | null | undefined,
+  now: Date = new Date(),
+): Date {
+  const local = getZonedParts(now, timeZone);
+  let back = local.hour < DIGEST_HOUR ? 1 : 0;
+  if (delivery === 'weekly') {
+    const weekday = (local.weekday - back + 7) % 7;
+    back += (weekday - DIGEST_WEEKDAY + 7) % 7;
+  }
+  const day = shiftDay(local.date, -back);
+  return new Date(zonedDayStart(day, timeZone).getTime() + DIGEST_HOUR * HOUR_MS);
+}
+
+/**
+ * Whether an event goes out on this run: immediately, or with the first
+ * digest slot after it fired.
+ */
+export function isNotificationDue(
+  delivery: AlertDelivery,
+  triggeredAt: string,
+  timeZone: string | null | undefined,
+  now: Date = new Date(),
+): boolean {
+  if (delivery === 'immediate') return true;
+  return new Date(triggeredAt) < lastDigestSlot(delivery, timeZone, now);
+}
@@ -0,0 +1,296 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ALERT_DEFAULTS } from '@/lib/constants';
+import { sendEmail, type SendEmailStatus } from '@/lib/email/resend';
+import { renderAlertEmail } from '@/lib/email/send-alert';
+import {
+  evaluateAlertRule,
+  evaluationSince,
+  isNotificationDue,
+  statsNeeded,
+  type AlertRuleStats,
+  type AlertTarget,
+} from './rules';
+import type { AlertDelivery, AlertRuleRecord } from '@/types/alert';
+
+/**
+ * Alerts cron: evaluate active rules, record the ones that fire, then email
+ * every event that is due — immediate alerts straight away, digest rules
+ * at the next daily / weekly slot in the org's timezone. Runs with the
+ * service-role client.
+ */
+
+const RULE_COLUMNS =
+  'id, org_id, created_by, qr_id, page_id, kind, threshold, window_hours, delivery, recipients, is_active, last_evaluated_at, last_triggered_at, last_notified_at, created_at, updated_at';
+
+/** Pending events picked up per run */
+const PENDING_LIMIT = 500;
+
+type RuleRow = AlertRuleRecord & {
+  qr_codes: { name: string; deleted_at: string | null } | { name: string; deleted_at: string | null }[] | null;
+  bio_link_pages: { title: string; deleted_at: string | null } | { title: string; deleted_at: string | null }[] | null;
+};
+
+export interface AlertRunResult {
+  evaluated: number;
+  triggered: number;
+  emails_sent: number;
+}
+
+function first<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+/** The code or page a rule watches; null once it has been deleted */
+function ruleTarget(rule: RuleRow): AlertTarget | null {
+  if (rule.qr_id) {
+    const qr = first(rule.qr_codes);
+    return qr && !qr.deleted_at ? { type: 'qr', name: qr.name } : null;
+  }
+  const page = first(rule.bio_link_pages);
+  return page && !page.deleted_at ? { type: 'bio', name: page.title } : null;
+}
+
+/** Stats over human scans / views only; bot events never fire an alert */
+async function gatherStats(
+  supabase: SupabaseClient,
+  rule: AlertRuleRecord,
+  now: Date
+): Promise<AlertRuleStats> {
+  const isQr = Boolean(rule.qr_id);
+  const table = isQr ? 'qr_scan_events' : 'bio_link_view_events';
+  const idColumn = isQr ? 'qr_id' : 'page_id';
+  const timeColumn = isQr ? 'scanned_at' : 'viewed_at';
+  const targetId = (rule.qr_id ?? rule.page_id) as string;
+
+  switch (statsNeeded(rule.kind)) {
+    case 'firstAt': {
+      const { data, error } = await supabase
+        .from(table)
+        .select(timeColumn)
+        .eq(idColumn, targetId)
+        .eq('is_bot', false)
+        .order(timeColumn, { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw new Error(`first event lookup failed: ${error.message}`);
+      return { firstAt: (data as Record<string, string> | null)?.[timeColumn] ?? null };
+    }
+
+    case 'newCountries': {
+      const { data, error } = await supabase.rpc('alert_new_countries', {
+        p_qr_id: rule.qr_id,
+        p_page_id: rule.page_id,
+        p_since: evaluationSince(rule),
+      });
+      if (error) throw new Error(`new country lookup failed: ${error.message}`);
+      return {
+        newCountries: ((data ?? []) as Array<{ country_code: string }>).map((r) => r.country_code).sort(),
+      };
+    }
+
+    case 'windowCount': {
+      const since = new Date(now.getTime() - (rule.window_hours ?? 0) * 60 * 60 * 1000);
+      const { count, error } = await supabase
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq(idColumn, targetId)
+        .eq('is_bot', false)
+        .gte(timeColumn, since.toISOString());
+      if (error) throw new Error(`event count failed: ${error.message}`);
+      return { windowCount: count ?? 0 };
+    }
+  }
+}
+
+/**
+ * Evaluate the least recently evaluated active rules, recording any that
+ * fire. Rules on deleted codes and pages are left out of the batch, and
+ * every rule picked up is stamped evaluated, even one that is skipped or
+ * fails, so a stuck rule can't hold the head of every batch.
+ */
+export async function evaluateAlertRules(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<Pick<AlertRunResult, 'evaluated' | 'triggered'>> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select(`${RULE_COLUMNS}, qr_codes(name, deleted_at), bio_link_pages(title, deleted_at)`)
+    .eq('is_active', true)
+    // Deleted targets embed as null; each rule watches exactly one
+    .is('qr_codes.deleted_at', null)
+    .is('bio_link_pages.deleted_at', null)
+    .or('qr_codes.not.is.null,bio_link_pages.not.is.null')
+    .order('last_evaluated_at', { ascending: true, nullsFirst: true })
+    .limit(ALERT_DEFAULTS.BATCH_SIZE);
+  if (error) throw new Error(`Failed to load alert rules: ${error.message}`);
+
+  let evaluated = 0;
+  let triggered = 0;
+  const passedOver: string[] = [];
+
+  for (const rule of (data ?? []) as RuleRow[]) {
+    const target = ruleTarget(rule);
+    if (!target) {
+      passedOver.push(rule.id);
+      continue;
+    }
+
+    try {
+      const stats = await gatherStats(supabase, rule, now);
+      const trigger = evaluateAlertRule(rule, target, stats, now);
+
+      if (trigger) {
+        const { error: insertError } = await supabase.from('alert_events').insert({
+          rule_id: rule.id,
+          org_id: rule.org_id,
+          message: trigger.message,
+          details: trigger.details,
+          triggered_at: now.toISOString(),
+        });
+        if (insertError) throw new Error(`event insert failed: ${insertError.message}`);
+        triggered++;
+      }
+
+      await supabase
+        .from('alert_rules')
+        .update({
+          last_evaluated_at: now.toISOString(),
+          ...(trigger ? { last_triggered_at: now.toISOString() } : {}),
+        })
+        .eq('id', rule.id);
+      evaluated++;
+    } catch (err) {
+      console.error(`[alerts] rule ${rule.id} failed:`, err instanceof Error ? err.message : err);
+      passedOver.push(rule.id);
+    }
+  }
+
+  // Retried after the rest of the queue
+  if (passedOver.length > 0) {
+    await supabase
+      .from('alert_rules')
+      .update({ last_evaluated_at: now.toISOString() })
+      .in('id', passedOver);
+  }
+
+  return { evaluated, triggered };
+}
+
+type PendingRule = Pick<
+  AlertRuleRecord,
+  'id' | 'delivery' | 'recipients' | 'created_by'
+> & {
+  organizations: { default_timezone: string | null } | { default_timezone: string | null }[] | null;
+};
+
+interface PendingEvent {
+  id: string;
+  rule_id: string;
+  message: string;
+  triggered_at: string;
+  alert_rules: PendingRule | PendingRule[] | null;
+}
+
+/** Best outcome across the emails an event went out in */
+function combineStatus(a: SendEmailStatus | undefined, b: SendEmailStatus): SendEmailStatus {
+  const rank: Record<SendEmailStatus, number> = { skipped: 0, failed: 1, sent: 2 };
+  return a && rank[a] >= rank[b] ? a : b;
+}
+
+/**
+ * Email every pending event whose rule is due, one email per recipient and
+ * cadence. Events are marked notified whatever the outcome (the status is
+ * kept on the event) so a failing address can't cause a resend every hour.
+ */
+export async function sendDueAlertNotifications(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select(
+      'id, rule_id, message, triggered_at, alert_rules(id, delivery, recipients, created_by, organizations(default_timezone))'
+    )
+    .is('notified_at', null)
+    .order('triggered_at', { ascending: true })
+    .limit(PENDING_LIMIT);
+  if (error) throw new Error(`Failed to load pending alerts: ${error.message}`);
+
+  const creatorEmails = new Map<string, string | null>();
+  async function recipientsFor(rule: PendingRule): Promise<string[]> {
+    if (rule.recipients.length > 0) return rule.recipients;
+    if (!rule.created_by) return [];
+    if (!creatorEmails.has(rule.created_by)) {
+      const { data: authUser } = await supabase.auth.admin.getUserById(rule.created_by);
+      creatorEmails.set(rule.created_by, authUser?.user?.email ?? null);
+    }
+    const email = creatorEmails.get(rule.created_by);
+    return email ? [email] : [];
+  }
+
+  // recipient + cadence → events for one email
+  const batches = new Map<string, { to: string; delivery: AlertDelivery; events: PendingEvent[] }>();
+  const statuses = new Map<string, SendEmailStatus>();
+  const dueRuleIds = new Set<string>();
+
+  for (const event of (data ?? []) as PendingEvent[]) {
+    const rule = first(event.alert_rules);
+    const timeZone = rule ? first(rule.organizations)?.default_timezone : null;
+    if (!rule || !isNotificationDue(rule.delivery, event.triggered_at, timeZone, now)) continue;
+    dueRuleIds.add(rule.id);
+
+    const recipients = await recipientsFor(rule);
+    if (recipients.length === 0) statuses.set(event.id, 'skipped');
+    for (const to of recipients) {
+      const key = `${to.toLowerCase()}|${rule.delivery}`;
+      const batch = batches.get(key) ?? { to, delivery: rule.delivery, events: [] };
+      batch.events.push(event);
+      batches.set(key, batch);
+    }
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? '';
+  let sent = 0;
+
+  for (const batch of batches.values()) {
+    const email = renderAlertEmail(batch.delivery, batch.events, appUrl);
+    const result = await sendEmail({ to: batch.to, ...email });
+    if (result.status === 'sent') sent++;
+    else if (result.status === 'failed') console.error(`[alerts] email to ${batch.to} failed: ${result.error}`);
+
+    for (const event of batch.events) {
+      statuses.set(event.id, combineStatus(statuses.get(event.id), result.status));
+    }
+  }
+
+  // One update per outcome
+  const byStatus = new Map<SendEmailStatus, string[]>();
+  for (const [eventId, status] of statuses) {
+    byStatus.set(status, [...(byStatus.get(status) ?? []), eventId]);
+  }
+  for (const [status, ids] of byStatus) {
+    await supabase
+      .from('alert_events')
+      .update({ notified_at: now.toISOString(), email_status: status })
+      .in('id', ids);
+  }
+
+  if (dueRuleIds.size > 0) {
+    await supabase
+      .from('alert_rules')
+      .update({ last_notified_at: now.toISOString() })
+      .in('id', Array.from(dueRuleIds));
+  }
+
+  return sent;
+}
+
+/** One cron run: evaluate, then notify */
+export async function runAlerts(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<AlertRunResult> {
+  const { evaluated, triggered } = await evaluateAlertRules(supabase, now);
+  const emailsSent = await sendDueAlertNotifications(supabase, now);
+  return { evaluated, triggered, emails_sent: emailsSent };
+}
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  breakdown,
+  fetchBioConversions,
+  fetchBioHeatmap,
+  fetchBioRollups,
+  fetchBioUniqueVisitors,
+  previousWindow,
+  rowsSince,
+  shiftDay,
+  sumTotal,
+  summarizeConversions,
+  totalsByDay,
+  trailingWindow,
+  type AnalyticsRange,
+} from '@/lib/analytics/rollups';
+import type { BioViewMedium } from '@/types/bio';
+
+/**
+ * Bio page analytics summary.
+ *
+ * Builds the dashboard analytics payload for one bio page from the view
+ * and click rollups, bucketed into local days of the range's timezone.
+ * Shared by
+ * /api/bio/[id]/analytics (RLS-scoped client) and /api/v1/bio/[id]/analytics
+ * (service-role client scoped by org) — callers must verify access first.
+ */
+
+/** Extract a human-readable label from a block's JSONB content. */
+function blockLabel(blockType: string, content: Record<string, unknown>): string {
+  if (blockType === 'link' && typeof content.title === 'string') return content.title;
+  if ((blockType === 'heading' || blockType === 'text') && typeof content.text === 'string') {
+    const text = content.text as string;
+    return text.length > 40 ? text.slice(0, 40) + '…' : text;
+  }
+  // Capitalize block type for others (e.g. "social_icons" → "Social Icons")
+  return blockType.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * Read the view and click rollups for `page` and fold them: totals,
+ * time-series, heatmap, per-link/per-block performance and visitor
+ * breakdowns and conversions over `range`, plus the previous period's
+ * totals. Bot views and clicks are left out unless the range includes them.
+ */
+export async function getBioAnalyticsSummary(
+  supabase: SupabaseClient,
+  page: { id: string; total_views: number; bot_views: number },
+  range: AnalyticsRange,
+) {
+  // Today / this week / this month are always relative to now, whatever the range
+  const recent = { ...trailingWindow(30, range.timezone), include_bots: range.include_bots };
+  const weekStart = shiftDay(recent.to, -6);
+  const previous = previousWindow(range);
+
+  const [
+    rollups,
+    recentRollups,
+    previousTotals,
+    uniqueVisitors,
+    previousUniqueVisitors,
+    heatmap,
+    conversions,
+    linksResult,
+    blocksResult,
+  ] = await Promise.all([
+    fetchBioRollups(supabase, page.id, range),
+    fetchBioRollups(supabase, page.id, recent),
+    fetchBioRollups(supabase, page.id, previous, true),
+    fetchBioUniqueVisitors(supabase, page.id, range),
+    fetchBioUniqueVisitors(supabase, page.id, previous),
+    fetchBioHeatmap(supabase, page.id, range),
+    fetchBioConversions(supabase, page.id, range),
+
+    // Legacy links (with total_clicks counter)
+    supabase
+      .from('bio_link_items')
+      .select('id, title, total_clicks')
+      .eq('page_id', page.id)
+      .order('sort_order', { ascending: true }),
+
+    // Blocks (with total_clicks counter)
+    supabase
+      .from('bio_blocks')
+      .select('id, block_type, content, total_clicks')
+      .eq('page_id', page.id)
+      .order('sort_order', { ascending: true }),
+  ]);
+
+  const periodViews = rollups.filter((r) => r.metric === 'view');
+  const periodClicks = rollups.filter((r) => r.metric === 'click');
+  const recentViews = recentRollups.filter((r) => r.metric === 'view');
+  const recentClicks = recentRollups.filter((r) => r.metric === 'click');
+  const periodClickCount = sumTotal(periodClicks);
+  const links = linksResult.data ?? [];
+  const blocks = blocksResult.data ?? [];
+
+  // Per-link clicks this week
+  const linkClicksByItem = new Map(
+    breakdown(rowsSince(recentClicks, weekStart), 'link').map((l) => [l.key, l.count]),
+  );
+
+  const linksData = links.map((link) => ({
+    id: link.id,
+    title: link.title,
+    total_clicks: link.total_clicks,
+    clicks_this_week: linkClicksByItem.get(link.id) ?? 0,
+  }));
+
+  // Blocks data with labels
+  const blocksData = blocks.map((block) => ({
+    id: block.id,
+    block_type: block.block_type,
+    label: blockLabel(block.block_type, block.content as Record<string, unknown>),
+    total_clicks: block.total_clicks,
+  }));
+
+  return {
+    total_views: page.total_views + (range.include_bots ? page.bot_views : 0),
+    bot_views: page.bot_views,
+    views_today: sumTotal(recentViews, recent.to),
+    views_this_week: sumTotal(recentViews, weekStart),
+    views_this_month: sumTotal(recentViews),
+    period_views: sumTotal(periodViews),
+    total_clicks: periodClickCount,
+    unique_visitors: uniqueVisitors,
+    period: range.period,
+    range,
+    previous: {
+      from: previous.from,
+      to: previous.to,
+      views: sumTotal(previousTotals.filter((r) => r.metric === 'view')),
+      clicks: sumTotal(previousTotals.filter((r) => r.metric === 'click')),
+      unique_visitors: previousUniqueVisitors,
+    },
+    heatmap,
+    conversions: summarizeConversions(conversions, periodClickCount),
+    views_by_day: totalsByDay(periodViews, range.from, range.to),
+    clicks_by_day: totalsByDay(periodClicks, range.from, range.to),
+    links: linksData,
+    blocks: blocksData,
+    top_countries: breakdown(periodViews, 'country')
+      .slice(0, 10)
+      .map((c) => ({ country: c.key, count: c.count })),
+    top_devices: breakdown(periodViews, 'device')
+      .map((d) => ({ device: d.key, count: d.count })),
+    top_referrers: breakdown(periodViews, 'referrer')
+      .slice(0, 10)
+      .map((r) => ({ domain: r.key, count: r.count })),
+    top_browsers: breakdown(periodViews, 'browser')
+      .slice(0, 8)
+      .map((b) => ({ browser: b.key, count: b.count })),
+    by_medium: breakdown(periodViews, 'medium')
+      .map((m) => ({ medium: m.key as BioViewMedium, count: m.count })),
+  };
+}
+
+export type BioAnalyticsSummary = Awaited<ReturnType<typeof getBioAnalyticsSummary>>;
@@ -0,0 +1,107 @@
+/**
+ * Bot classification for analytics events.
+ *
+ * Link unfurlers (Slack, WhatsApp, iMessage…), mail security scanners,
+ * search crawlers, uptime monitors and browser prefetches all request
+ * /r/[slug] and /p/[slug] exactly like a visitor. Events they produce are
+ * recorded with is_bot = true and left out of the counters and summaries
+ * unless a user asks to include them.
+ *
+ * Matching is by user agent signature plus the prefetch / preview request
+ * headers browsers send. Signatures are plain substrings or patterns so
+ * the list is easy to extend; avoid tokens that in-app browsers (Snapchat,
+ * LINE, Instagram…) put in real visitors' user agents.
+ */
+
+export type BotCategory = 'preview' | 'crawler' | 'scanner' | 'monitor' | 'tool' | 'prefetch';
+
+export interface BotSignature {
+  name: string;
+  category: BotCategory;
+  pattern: RegExp;
+}
+
+export interface BotMatch {
+  name: string;
+  category: BotCategory;
+}
+
+export const BOT_SIGNATURES: readonly BotSignature[] = [
+  // Link previews / unfurlers. iMessage sends "facebookexternalhit … Twitterbot".
+  { name: 'Slack', category: 'preview', pattern: /slackbot|slack-imgproxy/i },
+  { name: 'WhatsApp', category: 'preview', pattern: /whatsapp\//i },
+  { name: 'Facebook', category: 'preview', pattern: /facebookexternalhit|facebookcatalog|facebot/i },
+  { name: 'Twitter', category: 'preview', pattern: /twitterbot/i },
+  { name: 'LinkedIn', category: 'preview', pattern: /linkedinbot/i },
+  { name: 'Telegram', category: 'preview', pattern: /telegrambot/i },
+  { name: 'Discord', category: 'preview', pattern: /discordbot/i },
+  { name: 'Microsoft Teams / Skype', category: 'preview', pattern: /skypeuripreview|microsoftpreview/i },
+  { name: 'Pinterest', category: 'preview', pattern: /pinterestbot|pinterest\/0\./i },
+  { name: 'Reddit', category: 'preview', pattern: /redditbot/i },
+  { name: 'Google preview', category: 'preview', pattern: /google-pagerenderer|googleimageproxy|google-read-aloud/i },
+  { name: 'Embed services', category: 'preview', pattern: /embedly|iframely|vkshare|mastodon\//i },
+
+  // Mail and URL security scanners
+  { name: 'Security scanner', category: 'scanner', pattern: /barracuda|proofpoint|mimecast|urlscan|virustotal|netcraft|censys|zgrab|masscan|nmap|nuclei/i },
+
+  // Search and AI crawlers
+  { name: 'Search crawler', category: 'crawler', pattern: /googlebot|bingbot|yandex(bot|images)|baiduspider|duckduckbot|applebot|petalbot|seznambot|exabot/i },
+  { name: 'SEO crawler', category: 'crawler', pattern: /ahrefsbot|semrushbot|mj12bot|dotbot|rogerbot|screaming frog/i },
+  { name: 'AI crawler', category: 'crawler', pattern: /gptbot|chatgpt-user|ccbot|claudebot|anthropic-ai|perplexitybot|bytespider|amazonbot/i },
+  { name: 'Archiver', category: 'crawler', pattern: /archive\.org_bot|ia_archiver/i },
+
+  // Uptime monitors
+  { name: 'Uptime monitor', category: 'monitor', pattern: /uptimerobot|pingdom|statuscake|site24x7|datadog|newrelicpinger|betteruptime|checkly/i },
+
+  // HTTP libraries, headless browsers and CLI tools
+  { name: 'HTTP client', category: 'tool', pattern: /^(curl|wget|httpie|python-requests|python-urllib|aiohttp|go-http-client|java|okhttp|apache-httpclient|node-fetch|axios|undici|libwww-perl)\b/i },
+  { name: 'Headless browser', category: 'tool', pattern: /headlesschrome|phantomjs|puppeteer|playwright|lighthouse/i },
+
+  // Anything else that calls itself a bot, crawler or spider ("FooBot/1.0",
+  // "(compatible; Foo-Bot)") — but not the Cubot phone brand
+  { name: 'Generic bot', category: 'crawler', pattern: /[a-z0-9_-](bot|crawler|spider)\/|\b(bot|crawler|spider)\b/i },
+];
+
+/** The first signature the user agent matches; an empty user agent is a bot */
+export function matchBotUserAgent(userAgent: string): BotMatch | null {
+  const ua = userAgent.trim();
+  if (!ua) return { name: 'No user agent', category: 'tool' };
+
+  for (const signature of BOT_SIGNATURES) {
+    if (signature.pattern.test(ua)) {
+      return { name: signature.name, category: signature.category };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the browser is only prefetching or previewing the URL: Chrome's
+ * `Sec-Purpose: prefetch`, the older `Purpose: prefetch`, Safari's
+ * `X-Purpose: preview` and Firefox's `X-Moz: prefetch`.
+ */
+export function isPrefetchRequest(headers: Pick<Headers, 'get'>): boolean {
+  const purpose = [
+    headers.get('sec-purpose'),
+    headers.get('purpose'),
+    headers.get('x-purpose'),
+    headers.get('x-moz'),
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return /prefetch|preview/.test(purpose);
+}
+
+/**
+ * Classify a request, or null for what looks like a person. HEAD requests
+ * are bots too: browsers don't send them for navigation, unfurlers do.
+ */
+export function classifyBot(
+  headers: Pick<Headers, 'get'>,
+  method: string = 'GET',
+): BotMatch | null {
+  if (isPrefetchRequest(headers)) return { name: 'Prefetch', category: 'prefetch' };
+  if (method.toUpperCase() === 'HEAD') return { name: 'HEAD request', category: 'tool' };
+  return matchBotUserAgent(headers.get('user-agent') ?? '');
+}
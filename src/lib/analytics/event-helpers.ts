@@ -1,5 +1,7 @@
-import { createHash } from 'crypto';
 import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { classifyBot } from './bots';
+import { visitorHash } from './visitor-hash';
 import type { DeviceType } from '@/types/qr';
 
 /**
@@ -17,29 +19,24 @@ export interface EventContext {
   osFamily: string | null;
   browserFamily: string | null;
   referrerDomain: string | null;
+  /** Link preview, crawler, scanner or prefetch rather than a person */
+  isBot: boolean;
 }
 
 /**
- * Extract anonymized analytics context from a request.
- * Returns null for ipHash if IP_HASH_SALT is not configured.
+ * Extract anonymized analytics context from a request for an event on
+ * `resource` (e.g. `page:<id>`). ipHash is the visitor's daily hash, or
+ * null if IP_HASH_SALT is not configured.
  */
-export function extractEventContext(request: NextRequest): EventContext {
+export async function extractEventContext(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  resource: string
+): Promise<EventContext> {
   const headers = request.headers;
 
-  // Hash IP (one-way, for deduplication only)
-  const ip =
-    headers.get('x-forwarded-for')?.split(',')[0] ||
-    headers.get('x-real-ip') ||
-    'unknown';
-
-  const ipSalt = process.env.IP_HASH_SALT;
-  let ipHash: string | null = null;
-  if (ipSalt) {
-    ipHash = createHash('sha256')
-      .update(ip + ipSalt)
-      .digest('hex')
-      .substring(0, 16);
-  }
+  // Daily visitor hash (one-way, for deduplication only)
+  const ipHash = await visitorHash(supabase, headers, resource);
 
   // Parse user agent
   const userAgent = headers.get('user-agent') || '';
@@ -68,6 +65,7 @@ export function extractEventContext(request: NextRequest): EventContext {
     osFamily: deviceInfo.osFamily,
     browserFamily: deviceInfo.browserFamily,
     referrerDomain,
+    isBot: classifyBot(headers, request.method) !== null,
   };
 }
 
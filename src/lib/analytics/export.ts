@@ -0,0 +1,342 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ANALYTICS_EXPORT_DEFAULTS } from '@/lib/constants';
+import { csvEscape } from '@/lib/qr/bulk';
+import { spreadsheetSafe } from '@/lib/bio/submissions';
+import { windowBounds, type AnalyticsRange } from '@/lib/analytics/rollups';
+import type { BioAnalyticsSummary } from '@/lib/analytics/bio-summary';
+import type { AnalyticsSummary, DeviceType, ScanMedium } from '@/types/qr';
+import type { OrgAnalyticsSummary } from '@/types/organization';
+import type { BioViewMedium } from '@/types/bio';
+
+/**
+ * Analytics exports.
+ *
+ * Raw events (scans, page views, link and block clicks) and the analytics
+ * summaries for one QR code, one bio page or a whole org, as CSV or JSON.
+ * Events are already anonymised when recorded — country/region, generalised
+ * device and referrer domain only — and the IP hash is never exported. Bot
+ * events are left out unless the range includes them.
+ */
+
+export type AnalyticsExportScope =
+  | { type: 'qr'; id: string; name: string }
+  | { type: 'bio'; id: string; name: string }
+  | { type: 'org'; id: string; name: string };
+
+export type AnalyticsExportEventType = 'scan' | 'view' | 'link_click' | 'block_click';
+
+export interface AnalyticsExportEvent {
+  event: AnalyticsExportEventType;
+  occurred_at: string;
+  source_type: 'qr' | 'bio';
+  /** The QR code or bio page */
+  source_id: string;
+  source_name: string;
+  /** The clicked link item or block; null for scans and views */
+  target_id: string | null;
+  variant_id: string | null;
+  medium: ScanMedium | BioViewMedium | null;
+  country_code: string | null;
+  region: string | null;
+  device_type: DeviceType | null;
+  os_family: string | null;
+  browser_family: string | null;
+  referrer_domain: string | null;
+  is_bot: boolean;
+}
+
+export interface AnalyticsExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+// ─── Events ──────────────────────────────────────────────────────────
+
+interface EventSource {
+  event: AnalyticsExportEventType;
+  table: string;
+  timeColumn: string;
+  /** Event columns besides the time, parent id and is_bot */
+  columns: string;
+  parent: 'qr' | 'bio';
+  targetColumn?: 'item_id' | 'block_id';
+}
+
+const VISITOR_COLUMNS = 'country_code, region, device_type, os_family, browser_family, referrer_domain';
+
+const EVENT_SOURCES: readonly EventSource[] = [
+  { event: 'scan', table: 'qr_scan_events', timeColumn: 'scanned_at', columns: `${VISITOR_COLUMNS}, variant_id, medium`, parent: 'qr' },
+  { event: 'view', table: 'bio_link_view_events', timeColumn: 'viewed_at', columns: `${VISITOR_COLUMNS}, medium`, parent: 'bio' },
+  { event: 'link_click', table: 'bio_link_click_events', timeColumn: 'clicked_at', columns: 'item_id, country_code, device_type', parent: 'bio', targetColumn: 'item_id' },
+  { event: 'block_click', table: 'bio_block_click_events', timeColumn: 'clicked_at', columns: 'block_id, country_code, device_type', parent: 'bio', targetColumn: 'block_id' },
+];
+
+const PARENTS = {
+  qr: { table: 'qr_codes', idColumn: 'qr_id', nameColumn: 'name' },
+  bio: { table: 'bio_link_pages', idColumn: 'page_id', nameColumn: 'title' },
+} as const;
+
+type EventRow = Record<string, unknown>;
+
+function first<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+function toExportEvent(source: EventSource, row: EventRow): AnalyticsExportEvent {
+  const parent = PARENTS[source.parent];
+  const embedded = first(row[parent.table] as Record<string, string> | Record<string, string>[] | null);
+  const text = (column: string) => (row[column] as string | null | undefined) ?? null;
+
+  return {
+    event: source.event,
+    occurred_at: row[source.timeColumn] as string,
+    source_type: source.parent,
+    source_id: row[parent.idColumn] as string,
+    source_name: embedded?.[parent.nameColumn] ?? '',
+    target_id: source.targetColumn ? text(source.targetColumn) : null,
+    variant_id: text('variant_id'),
+    medium: text('medium') as AnalyticsExportEvent['medium'],
+    country_code: text('country_code'),
+    region: text('region'),
+    device_type: text('device_type') as DeviceType | null,
+    os_family: text('os_family'),
+    browser_family: text('browser_family'),
+    referrer_domain: text('referrer_domain'),
+    is_bot: row.is_bot === true,
+  };
+}
+
+/** One event table's rows in the window, oldest first, paged up to `limit` */
+async function fetchSourceEvents(
+  supabase: SupabaseClient,
+  source: EventSource,
+  scope: AnalyticsExportScope,
+  range: AnalyticsRange,
+  limit: number,
+): Promise<AnalyticsExportEvent[]> {
+  const parent = PARENTS[source.parent];
+  const bounds = windowBounds(range);
+  const events: AnalyticsExportEvent[] = [];
+
+  while (events.length < limit) {
+    const size = Math.min(ANALYTICS_EXPORT_DEFAULTS.PAGE_SIZE, limit - events.length);
+    let query = supabase
+      .from(source.table)
+      .select(
+        `id, ${source.timeColumn}, ${parent.idColumn}, ${source.columns}, is_bot, ${parent.table}!inner(${parent.nameColumn}, org_id, deleted_at)`
+      )
+      .gte(source.timeColumn, bounds.from)
+      .lt(source.timeColumn, bounds.to);
+
+    query =
+      scope.type === 'org'
+        ? query.eq(`${parent.table}.org_id`, scope.id).is(`${parent.table}.deleted_at`, null)
+        : query.eq(parent.idColumn, scope.id);
+    if (!range.include_bots) query = query.eq('is_bot', false);
+
+    const { data, error } = await query
+      .order(source.timeColumn, { ascending: true })
+      .order('id', { ascending: true })
+      .range(events.length, events.length + size - 1);
+    if (error) throw new Error(`Failed to export ${source.table}: ${error.message}`);
+
+    const rows = (data ?? []) as unknown as EventRow[];
+    events.push(...rows.map((row) => toExportEvent(source, row)));
+    if (rows.length < size) break;
+  }
+
+  return events;
+}
+
+/**
+ * Every scan (QR), view and click (bio page) — or all of them across the
+ * org's live codes and pages — in `range`, oldest first. At most
+ * ANALYTICS_EXPORT_DEFAULTS.MAX_EVENTS; `truncated` says whether there were
+ * more.
+ */
+export async function fetchExportEvents(
+  supabase: SupabaseClient,
+  scope: AnalyticsExportScope,
+  range: AnalyticsRange,
+): Promise<{ events: AnalyticsExportEvent[]; truncated: boolean }> {
+  const max = ANALYTICS_EXPORT_DEFAULTS.MAX_EVENTS;
+  const sources = EVENT_SOURCES.filter((s) => scope.type === 'org' || s.parent === scope.type);
+
+  // One past the cap from each table tells us whether the merge was cut short
+  const perSource = await Promise.all(
+    sources.map((source) => fetchSourceEvents(supabase, source, scope, range, max + 1)),
+  );
+  const events = perSource
+    .flat()
+    .sort((a, b) => Date.parse(a.occurred_at) - Date.parse(b.occurred_at));
+
+  return { events: events.slice(0, max), truncated: events.length > max };
+}
+
+const EVENT_CSV_HEADER: Array<keyof AnalyticsExportEvent> = [
+  'event',
+  'occurred_at',
+  'source_type',
+  'source_id',
+  'source_name',
+  'target_id',
+  'variant_id',
+  'medium',
+  'country_code',
+  'region',
+  'device_type',
+  'os_family',
+  'browser_family',
+  'referrer_domain',
+  'is_bot',
+];
+
+/** Render events as CSV (CRLF line endings, header row first). */
+export function eventsToCsv(events: AnalyticsExportEvent[]): string {
+  const lines = [EVENT_CSV_HEADER.join(',')];
+  for (const event of events) {
+    lines.push(
+      EVENT_CSV_HEADER.map((column) => {
+        const value = event[column];
+        return csvEscape(spreadsheetSafe(typeof value === 'boolean' ? String(value) : value));
+      }).join(',')
+    );
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+// ─── Summaries ───────────────────────────────────────────────────────
+
+export type AnalyticsExportSummary =
+  | { type: 'qr'; summary: AnalyticsSummary }
+  | { type: 'bio'; summary: BioAnalyticsSummary }
+  | { type: 'org'; summary: OrgAnalyticsSummary };
+
+/** section, key, value */
+type SummaryRow = [string, string, number];
+
+function keyed<T>(section: string, items: T[], key: (item: T) => string, value: (item: T) => number): SummaryRow[] {
+  return items.map((item) => [section, key(item), value(item)]);
+}
+
+function summaryRows(input: AnalyticsExportSummary): SummaryRow[] {
+  switch (input.type) {
+    case 'qr': {
+      const s = input.summary;
+      return [
+        ['total', 'scans', s.period_scans],
+        ['total', 'unique_visitors', s.unique_visitors],
+        ['total', 'conversions', s.conversions.conversions],
+        ['previous', 'scans', s.previous.scans],
+        ['previous', 'unique_visitors', s.previous.unique_visitors],
+        ...keyed('scans_by_day', s.scans_by_day, (d) => d.date, (d) => d.count),
+        ...keyed('country', s.top_countries, (c) => c.country, (c) => c.count),
+        ...keyed('device', s.top_devices, (d) => d.device, (d) => d.count),
+        ...keyed('os', s.top_os, (o) => o.os, (o) => o.count),
+        ...keyed('browser', s.top_browsers, (b) => b.browser, (b) => b.count),
+        ...keyed('referrer', s.top_referrers, (r) => r.domain, (r) => r.count),
+        ...keyed('medium', s.by_medium, (m) => m.medium, (m) => m.count),
+      ];
+    }
+
+    case 'bio': {
+      const s = input.summary;
+      return [
+        ['total', 'views', s.period_views],
+        ['total', 'clicks', s.total_clicks],
+        ['total', 'unique_visitors', s.unique_visitors],
+        ['total', 'conversions', s.conversions.conversions],
+        ['previous', 'views', s.previous.views],
+        ['previous', 'clicks', s.previous.clicks],
+        ['previous', 'unique_visitors', s.previous.unique_visitors],
+        ...keyed('views_by_day', s.views_by_day, (d) => d.date, (d) => d.count),
+        ...keyed('clicks_by_day', s.clicks_by_day, (d) => d.date, (d) => d.count),
+        ...keyed('country', s.top_countries, (c) => c.country, (c) => c.count),
+        ...keyed('device', s.top_devices, (d) => d.device, (d) => d.count),
+        ...keyed('browser', s.top_browsers, (b) => b.browser, (b) => b.count),
+        ...keyed('referrer', s.top_referrers, (r) => r.domain, (r) => r.count),
+        ...keyed('medium', s.by_medium, (m) => m.medium, (m) => m.count),
+      ];
+    }
+
+    case 'org': {
+      const s = input.summary;
+      const metrics = ['scans', 'views', 'clicks', 'submissions'] as const;
+      return [
+        ...metrics.map((m): SummaryRow => ['total', m, s.totals[m]]),
+        ...metrics.map((m): SummaryRow => ['previous', m, s.previous[m]]),
+        ...metrics.flatMap((m) => keyed(`${m}_by_day`, s.timeline, (d) => d.date, (d) => d[m])),
+        ...keyed('qr_code_scans', s.top_qr_codes, (q) => q.name, (q) => q.scans),
+        ...keyed('page_views', s.top_pages, (p) => p.title, (p) => p.views),
+        ...keyed('page_clicks', s.top_pages, (p) => p.title, (p) => p.clicks),
+        ...keyed('page_submissions', s.top_pages, (p) => p.title, (p) => p.submissions),
+      ];
+    }
+  }
+}
+
+/**
+ * Render a summary as long-format CSV — one `section,key,value` row per
+ * total, day and breakdown entry — so it pivots cleanly in a spreadsheet.
+ */
+export function summaryToCsv(input: AnalyticsExportSummary): string {
+  const lines = ['section,key,value'];
+  for (const row of summaryRows(input)) {
+    lines.push(row.map((value) => csvEscape(spreadsheetSafe(value))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+// ─── Files ───────────────────────────────────────────────────────────
+
+/** The scope's name as a filename-safe slug */
+export function filenameStem(scope: AnalyticsExportScope): string {
+  const slug = scope.name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || scope.type;
+}
+
+/** `<name>-<events|summary>-<from>-to-<to>.<csv|json>` */
+export function exportFilename(
+  scope: AnalyticsExportScope,
+  range: Pick<AnalyticsRange, 'from' | 'to'>,
+  data: 'events' | 'summary',
+  format: 'csv' | 'json',
+): string {
+  return `${filenameStem(scope)}-${data}-${range.from}-to-${range.to}.${format}`;
+}
+
+export function eventsExportFile(
+  scope: AnalyticsExportScope,
+  range: AnalyticsRange,
+  format: 'csv' | 'json',
+  result: { events: AnalyticsExportEvent[]; truncated: boolean },
+): AnalyticsExportFile {
+  return {
+    filename: exportFilename(scope, range, 'events', format),
+    contentType: format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+    body:
+      format === 'csv'
+        ? eventsToCsv(result.events)
+        : JSON.stringify({ scope, range, truncated: result.truncated, events: result.events }, null, 2),
+  };
+}
+
+export function summaryExportFile(
+  scope: AnalyticsExportScope,
+  range: AnalyticsRange,
+  format: 'csv' | 'json',
+  input: AnalyticsExportSummary,
+): AnalyticsExportFile {
+  return {
+    filename: exportFilename(scope, range, 'summary', format),
+    contentType: format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+    body: format === 'csv' ? summaryToCsv(input) : JSON.stringify({ scope, summary: input.summary }, null, 2),
+  };
+}
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  fetchOrgDailyTotals,
+  fetchOrgLeaderboard,
+  previousWindow,
+  shiftDay,
+  type AnalyticsRange,
+} from '@/lib/analytics/rollups';
+import type { OrgAnalyticsSummary } from '@/types/organization';
+
+/**
+ * Org-wide analytics summary.
+ *
+ * Combines the rollups of every live QR code and bio page in an org over
+ * `range`: totals (and the previous period's, for comparison), a
+ * scans-vs-views timeline by local day (with clicks and form submissions)
+ * and a leaderboard of the busiest codes and pages. The caller must have
+ * verified org membership; RLS on the rollups applies to the RLS client.
+ */
+
+const LEADERBOARD_SIZE = 10;
+
+function sumDays(days: Array<OrgAnalyticsSummary['totals']>): OrgAnalyticsSummary['totals'] {
+  const totals = { scans: 0, views: 0, clicks: 0, submissions: 0 };
+  for (const d of days) {
+    totals.scans += d.scans;
+    totals.views += d.views;
+    totals.clicks += d.clicks;
+    totals.submissions += d.submissions;
+  }
+  return totals;
+}
+
+export async function getOrgAnalyticsSummary(
+  supabase: SupabaseClient,
+  orgId: string,
+  range: AnalyticsRange,
+): Promise<OrgAnalyticsSummary> {
+  const previous = previousWindow(range);
+
+  const [daily, previousDaily, leaderboard] = await Promise.all([
+    fetchOrgDailyTotals(supabase, orgId, range),
+    fetchOrgDailyTotals(supabase, orgId, previous),
+    fetchOrgLeaderboard(supabase, orgId, range, LEADERBOARD_SIZE),
+  ]);
+
+  const byDay = new Map(daily.map((d) => [d.day, d]));
+  const timeline: OrgAnalyticsSummary['timeline'] = [];
+  for (let date = range.from; date <= range.to; date = shiftDay(date, 1)) {
+    const d = byDay.get(date);
+    timeline.push({
+      date,
+      scans: d?.scans ?? 0,
+      views: d?.views ?? 0,
+      clicks: d?.clicks ?? 0,
+      submissions: d?.submissions ?? 0,
+    });
+  }
+
+  return {
+    period: range.period,
+    range,
+    totals: sumDays(timeline),
+    previous: { from: previous.from, to: previous.to, ...sumDays(previousDaily) },
+    timeline,
+    top_qr_codes: leaderboard
+      .filter((r) => r.resource_type === 'qr')
+      .map((r) => ({ id: r.resource_id, name: r.name, scans: r.scans })),
+    top_pages: leaderboard
+      .filter((r) => r.resource_type === 'bio')
+      .map((r) => ({
+        id: r.resource_id,
+        title: r.name,
+        views: r.views,
+        clicks: r.clicks,
+        submissions: r.submissions,
+      })),
+  };
+}
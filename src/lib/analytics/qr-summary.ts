@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { variantLabel, variantLetter } from '@/lib/qr/destination-variants';
+import {
+  breakdown,
+  fetchQrConversions,
+  fetchQrHeatmap,
+  fetchQrScanRollups,
+  fetchQrUniqueVisitors,
+  previousWindow,
+  shiftDay,
+  sumTotal,
+  summarizeConversions,
+  totalsByDay,
+  trailingWindow,
+  type ConversionRow,
+  type QrScanRollupRow,
+} from '@/lib/analytics/rollups';
+import type {
+  AnalyticsBreakdowns,
+  AnalyticsRange,
+  AnalyticsSummary,
+  AnalyticsVariantSummary,
+  DeviceType,
+  QRDestinationVariant,
+  ScanMedium,
+} from '@/types/qr';
+
+/**
+ * QR scan analytics summary.
+ *
+ * Builds the AnalyticsSummary payload for one QR code from the scan
+ * rollups, bucketed into local days of the range's timezone. Shared by the dashboard route (/api/qr/[id]/analytics,
+ * RLS-scoped client) and the public API (/api/v1/qr/[id]/analytics,
+ * service-role client scoped by org) — callers are responsible for having
+ * verified access to the QR first.
+ */
+
+// ─── Aggregation ─────────────────────────────────────────────────────
+
+function buildBreakdowns(
+  rows: QrScanRollupRow[],
+  range: AnalyticsRange,
+): AnalyticsBreakdowns {
+  return {
+    scans_by_day: totalsByDay(rows, range.from, range.to),
+    top_countries: breakdown(rows, 'country')
+      .slice(0, 10)
+      .map((c) => ({ country: c.key, count: c.count })),
+    top_devices: breakdown(rows, 'device')
+      .map((d) => ({ device: d.key as DeviceType, count: d.count })),
+    top_os: breakdown(rows, 'os')
+      .slice(0, 8)
+      .map((o) => ({ os: o.key, count: o.count })),
+    top_browsers: breakdown(rows, 'browser')
+      .slice(0, 8)
+      .map((b) => ({ browser: b.key, count: b.count })),
+    top_referrers: breakdown(rows, 'referrer')
+      .slice(0, 10)
+      .map((r) => ({ domain: r.key, count: r.count })),
+    by_medium: breakdown(rows, 'medium')
+      .map((m) => ({ medium: m.key as ScanMedium, count: m.count })),
+  };
+}
+
+/**
+ * Splits the period's rollups by A/B variant. Current variants are always
+ * listed (in configured order, even with zero scans); variant ids that only
+ * appear in rollups — removed since — are appended and flagged.
+ */
+function buildVariantSummaries(
+  rows: QrScanRollupRow[],
+  variants: QRDestinationVariant[],
+  uniqueByVariant: Map<string, number>,
+  conversions: ConversionRow[],
+  range: AnalyticsRange,
+): AnalyticsVariantSummary[] {
+  const conversionsByVariant = new Map<string, number>();
+  for (const c of conversions) {
+    if (!c.variant_id) continue;
+    conversionsByVariant.set(c.variant_id, (conversionsByVariant.get(c.variant_id) ?? 0) + c.conversions);
+  }
+
+  const byVariant = new Map<string, QrScanRollupRow[]>();
+  for (const r of rows) {
+    if (!r.variant_id) continue;
+    const list = byVariant.get(r.variant_id) ?? [];
+    list.push(r);
+    byVariant.set(r.variant_id, list);
+  }
+
+  const summaries: AnalyticsVariantSummary[] = variants.map((v, i) => {
+    const variantRows = byVariant.get(v.id) ?? [];
+    byVariant.delete(v.id);
+    return {
+      variant_id: v.id,
+      label: variantLabel(v, i),
+      destination_url: v.destination_url,
+      weight: v.weight,
+      removed: false,
+      scans: sumTotal(variantRows),
+      unique_visitors: uniqueByVariant.get(v.id) ?? 0,
+      conversions: conversionsByVariant.get(v.id) ?? 0,
+      ...buildBreakdowns(variantRows, range),
+    };
+  });
+
+  let removedIndex = variants.length;
+  for (const [variantId, variantRows] of byVariant) {
+    summaries.push({
+      variant_id: variantId,
+      label: `${variantLetter(removedIndex++)} (removed)`,
+      destination_url: null,
+      weight: null,
+      removed: true,
+      scans: sumTotal(variantRows),
+      unique_visitors: uniqueByVariant.get(variantId) ?? 0,
+      conversions: conversionsByVariant.get(variantId) ?? 0,
+      ...buildBreakdowns(variantRows, range),
+    });
+  }
+
+  return summaries;
+}
+
+// ─── Summary ─────────────────────────────────────────────────────────
+
+/**
+ * Read the scan rollups for `qr` and fold them into the full summary:
+ * totals, time-series, breakdowns, heatmap and per-variant splits over
+ * `range`, conversions attributed to the period's scans, the previous
+ * period's totals for comparison, plus the most recent raw scans. Bot scans
+ * are left out of everything but `bot_scans` unless the range includes them.
+ */
+export async function getQRAnalyticsSummary(
+  supabase: SupabaseClient,
+  qr: { id: string; total_scans: number; bot_scans: number; destination_variants: unknown },
+  range: AnalyticsRange,
+): Promise<AnalyticsSummary> {
+  // Today / this week / this month are always relative to now, whatever the range
+  const recent = { ...trailingWindow(30, range.timezone), include_bots: range.include_bots };
+  const previous = previousWindow(range);
+
+  let recentScansQuery = supabase
+    .from('qr_scan_events')
+    .select('scanned_at, country_code, device_type, os_family, browser_family, referrer_domain, variant_id, medium, is_bot')
+    .eq('qr_id', qr.id);
+  if (!range.include_bots) recentScansQuery = recentScansQuery.eq('is_bot', false);
+
+  const [rollups, recentTotals, previousTotals, uniques, previousUniques, heatmap, conversions, recentResult] =
+    await Promise.all([
+      fetchQrScanRollups(supabase, qr.id, range),
+      fetchQrScanRollups(supabase, qr.id, recent, true),
+      fetchQrScanRollups(supabase, qr.id, previous, true),
+      fetchQrUniqueVisitors(supabase, qr.id, range),
+      fetchQrUniqueVisitors(supabase, qr.id, previous),
+      fetchQrHeatmap(supabase, qr.id, range),
+      fetchQrConversions(supabase, qr.id, range),
+      recentScansQuery
+        .order('scanned_at', { ascending: false })
+        .limit(20),
+    ]);
+
+  const variants = buildVariantSummaries(
+    rollups,
+    (qr.destination_variants as QRDestinationVariant[] | null) ?? [],
+    uniques.byVariant,
+    conversions,
+    range,
+  );
+  const periodScans = sumTotal(rollups);
+
+  return {
+    total_scans: qr.total_scans + (range.include_bots ? qr.bot_scans : 0),
+    bot_scans: qr.bot_scans,
+    scans_today: sumTotal(recentTotals, recent.to),
+    scans_this_week: sumTotal(recentTotals, shiftDay(recent.to, -6)),
+    scans_this_month: sumTotal(recentTotals),
+    period_scans: periodScans,
+    unique_visitors: uniques.total,
+    period: range.period,
+    range,
+    previous: {
+      from: previous.from,
+      to: previous.to,
+      scans: sumTotal(previousTotals),
+      unique_visitors: previousUniques.total,
+    },
+    heatmap,
+    conversions: summarizeConversions(conversions, periodScans),
+    ...buildBreakdowns(rollups, range),
+    variants,
+    recent_scans: (recentResult.data ?? []) as AnalyticsSummary['recent_scans'],
+  };
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ANALYTICS_RETENTION_DEFAULTS } from '@/lib/constants';
+
+/**
+ * Retention for raw scan, view and click events. Counters and hourly
+ * rollups are kept for good; only the per-event rows are coarsened (their
+ * visitor hash is replaced by a daily distinct count) and, if configured,
+ * deleted. Runs daily from /api/cron/retention with the service-role client.
+ */
+
+export interface RetentionPolicy {
+  /** Events older than this many days lose their visitor hash */
+  coarsenAfterDays: number;
+  /** Events older than this many days are deleted; 0 keeps them */
+  deleteAfterDays: number;
+}
+
+export interface RetentionResult {
+  /** Events before this UTC day are coarsened */
+  coarsen_before: string;
+  coarsened_days: number;
+  /** Events before this UTC day are deleted; null when deletion is off */
+  delete_before: string | null;
+  deleted_events: number;
+}
+
+function parseDays(value: string | undefined, fallback: number, min: number, name: string): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < min) {
+    console.error(`[retention] ignoring ${name}=${value}: expected a whole number of days ≥ ${min}`);
+    return fallback;
+  }
+  return days;
+}
+
+/**
+ * The policy from ANALYTICS_COARSEN_AFTER_DAYS and
+ * ANALYTICS_DELETE_AFTER_DAYS. Coarsening needs at least one whole day;
+ * events are never deleted before they've been coarsened.
+ */
+export function retentionPolicy(env: Record<string, string | undefined> = process.env): RetentionPolicy {
+  const coarsenAfterDays = parseDays(
+    env.ANALYTICS_COARSEN_AFTER_DAYS,
+    ANALYTICS_RETENTION_DEFAULTS.COARSEN_AFTER_DAYS,
+    1,
+    'ANALYTICS_COARSEN_AFTER_DAYS'
+  );
+  const deleteAfterDays = parseDays(
+    env.ANALYTICS_DELETE_AFTER_DAYS,
+    ANALYTICS_RETENTION_DEFAULTS.DELETE_AFTER_DAYS,
+    0,
+    'ANALYTICS_DELETE_AFTER_DAYS'
+  );
+
+  return {
+    coarsenAfterDays,
+    deleteAfterDays: deleteAfterDays > 0 ? Math.max(deleteAfterDays, coarsenAfterDays) : 0,
+  };
+}
+
+/** The UTC day `days` before `now`, as YYYY-MM-DD */
+function daysBefore(now: Date, days: number): string {
+  const d = new Date(now);
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Coarsen, then delete, the events past the policy's cut-offs. Each run
+ * handles a bounded amount (ANALYTICS_RETENTION_DEFAULTS); a backlog is
+ * worked off over the following days.
+ */
+export async function applyRetention(
+  supabase: SupabaseClient,
+  policy: RetentionPolicy = retentionPolicy(),
+  now: Date = new Date()
+): Promise<RetentionResult> {
+  const coarsenBefore = daysBefore(now, policy.coarsenAfterDays);
+  const { data: coarsened, error: coarsenError } = await supabase.rpc('analytics_coarsen_events', {
+    p_before: coarsenBefore,
+    p_max_days: ANALYTICS_RETENTION_DEFAULTS.MAX_DAYS_PER_RUN,
+  });
+  if (coarsenError) throw new Error(`Failed to coarsen events: ${coarsenError.message}`);
+
+  const result: RetentionResult = {
+    coarsen_before: coarsenBefore,
+    coarsened_days: Number(coarsened ?? 0),
+    delete_before: null,
+    deleted_events: 0,
+  };
+  if (policy.deleteAfterDays === 0) return result;
+
+  result.delete_before = daysBefore(now, policy.deleteAfterDays);
+  const { data: deleted, error: deleteError } = await supabase.rpc('analytics_delete_events', {
+    p_before: result.delete_before,
+    p_limit: ANALYTICS_RETENTION_DEFAULTS.DELETE_BATCH_SIZE,
+  });
+  if (deleteError) throw new Error(`Failed to delete events: ${deleteError.message}`);
+
+  result.deleted_events = Number(deleted ?? 0);
+  return result;
+}
@@ -0,0 +1,512 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getZonedParts, resolveTimeZone, zonedDayStart } from '@/lib/timezone';
+import type { AnalyticsHeatmap, AnalyticsPeriod, AnalyticsRange, ConversionSummary } from '@/types/qr';
+
+/**
+ * Analytics rollup queries shared by the QR, bio-page and org summaries.
+ *
+ * Events are pre-aggregated into hourly UTC rollup rows by database
+ * triggers (migration 00038): one 'total' row per hour plus one row per
+ * breakdown value. The analytics_* database functions sum those hours into
+ * local days of the org's timezone, so every row here is keyed by a local
+ * day. The range and folding helpers are pure so they can be unit-tested
+ * without a database.
+ */
+
+export type { AnalyticsPeriod, AnalyticsRange };
+
+export type RollupDimension =
+  | 'total'
+  | 'country'
+  | 'device'
+  | 'os'
+  | 'browser'
+  | 'referrer'
+  | 'medium'
+  | 'link'
+  | 'block';
+
+export interface RollupRow {
+  /** Local day, YYYY-MM-DD */
+  day: string;
+  dimension: RollupDimension;
+  /** Breakdown value; '' on 'total' rows */
+  value: string;
+  count: number;
+}
+
+export interface QrScanRollupRow extends RollupRow {
+  /** '' when no A/B split was active */
+  variant_id: string;
+}
+
+export interface BioRollupRow extends RollupRow {
+  metric: 'view' | 'click' | 'submission';
+}
+
+export interface ConversionRow {
+  /** Always null for bio pages, and for scans outside an A/B split */
+  variant_id: string | null;
+  /** Null for conversions reported without a value */
+  currency: string | null;
+  conversions: number;
+  value: number;
+}
+
+/**
+ * Local days from `from` to `to` (inclusive) in `timezone`. Bot events are
+ * left out unless `include_bots` is set.
+ */
+export interface DayWindow {
+  from: string;
+  to: string;
+  timezone: string;
+  include_bots?: boolean;
+}
+
+// ─── Days ────────────────────────────────────────────────────────────
+
+const PRESET_DAYS: Record<Exclude<AnalyticsPeriod, 'custom'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+/** Longest custom range accepted, in days */
+export const MAX_RANGE_DAYS = 366;
+
+/** `day` (YYYY-MM-DD) moved by `offset` days */
+export function shiftDay(day: string, offset: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + offset * 86_400_000)
+    .toISOString()
+    .substring(0, 10);
+}
+
+/** Number of days from `from` to `to`, inclusive */
+export function daysInclusive(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+function isCalendarDay(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && shiftDay(value, 0) === value;
+}
+
+/** Today's date in `timeZone` */
+export function localToday(timeZone: string, now: Date = new Date()): string {
+  return getZonedParts(now, timeZone).date;
+}
+
+/**
+ * Parse the `period`, `from` and `to` query params into whole local days of
+ * `timeZone`. A from/to pair makes a 'custom' range; otherwise the preset
+ * period ends today, and anything unrecognised falls back to 30d.
+ * `bots=include` counts bot events too. Returns null when from/to is
+ * incomplete, malformed, reversed or longer than MAX_RANGE_DAYS.
+ */
+export function parseAnalyticsRange(
+  params: URLSearchParams,
+  timeZone: string | null | undefined,
+  now: Date = new Date(),
+): AnalyticsRange | null {
+  const timezone = resolveTimeZone(timeZone);
+  const include_bots = params.get('bots') === 'include';
+  const from = params.get('from');
+  const to = params.get('to');
+
+  if (from || to) {
+    if (!from || !to || !isCalendarDay(from) || !isCalendarDay(to) || from > to) return null;
+    const days = daysInclusive(from, to);
+    if (days > MAX_RANGE_DAYS) return null;
+    return { period: 'custom', from, to, days, timezone, include_bots };
+  }
+
+  const value = params.get('period');
+  const period = value === '7d' || value === '90d' ? value : '30d';
+  const days = PRESET_DAYS[period];
+  const today = localToday(timezone, now);
+  return { period, from: shiftDay(today, 1 - days), to: today, days, timezone, include_bots };
+}
+
+/** The equally long window that ends the day before `range` starts */
+export function previousWindow(range: AnalyticsRange): DayWindow {
+  return {
+    from: shiftDay(range.from, -range.days),
+    to: shiftDay(range.from, -1),
+    timezone: range.timezone,
+    include_bots: range.include_bots,
+  };
+}
+
+/** The last `days` local days up to and including today */
+export function trailingWindow(days: number, timeZone: string, now: Date = new Date()): DayWindow {
+  const today = localToday(timeZone, now);
+  return { from: shiftDay(today, 1 - days), to: today, timezone: timeZone };
+}
+
+/** Half-open [from, to) instants covering a window's local days */
+export function windowBounds(window: DayWindow): { from: string; to: string } {
+  return {
+    from: zonedDayStart(window.from, window.timezone).toISOString(),
+    to: zonedDayStart(shiftDay(window.to, 1), window.timezone).toISOString(),
+  };
+}
+
+// ─── Folding ─────────────────────────────────────────────────────────
+
+/** Rows on or after `sinceDay` */
+export function rowsSince<T extends RollupRow>(rows: T[], sinceDay: string): T[] {
+  return rows.filter((r) => r.day >= sinceDay);
+}
+
+/** Sum of the 'total' rows (optionally only those on or after `sinceDay`) */
+export function sumTotal(rows: RollupRow[], sinceDay?: string): number {
+  let sum = 0;
+  for (const r of rows) {
+    if (r.dimension !== 'total') continue;
+    if (sinceDay && r.day < sinceDay) continue;
+    sum += r.count;
+  }
+  return sum;
+}
+
+/** Totals per day from `from` to `to` (inclusive), filling missing days with 0. */
+export function totalsByDay(
+  rows: RollupRow[],
+  from: string,
+  to: string,
+): Array<{ date: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const r of rows) {
+    if (r.dimension !== 'total') continue;
+    counts.set(r.day, (counts.get(r.day) ?? 0) + r.count);
+  }
+
+  const result: Array<{ date: string; count: number }> = [];
+  for (let day = from; day <= to; day = shiftDay(day, 1)) {
+    result.push({ date: day, count: counts.get(day) ?? 0 });
+  }
+  return result;
+}
+
+/** Sum one dimension's rows by value. Returns sorted desc by count. */
+export function breakdown(
+  rows: RollupRow[],
+  dimension: RollupDimension,
+): Array<{ key: string; count: number }> {
+  const map = new Map<string, number>();
+  for (const r of rows) {
+    if (r.dimension !== dimension || !r.value) continue;
+    map.set(r.value, (map.get(r.value) ?? 0) + r.count);
+  }
+  return Array.from(map.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Dense weekday × hour grid from sparse heatmap rows */
+export function heatmapGrid(
+  rows: Array<{ weekday: number; hour: number; count: number }>,
+): AnalyticsHeatmap {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const r of rows) {
+    if (grid[r.weekday] && r.hour >= 0 && r.hour < 24) grid[r.weekday][r.hour] += r.count;
+  }
+  return grid;
+}
+
+
+/** Conversion count, rate against `base` scans or clicks, and value per currency */
+export function summarizeConversions(rows: ConversionRow[], base: number): ConversionSummary {
+  let conversions = 0;
+  const byCurrency = new Map<string, number>();
+  for (const r of rows) {
+    conversions += r.conversions;
+    if (r.currency) byCurrency.set(r.currency, (byCurrency.get(r.currency) ?? 0) + r.value);
+  }
+
+  return {
+    conversions,
+    rate: base > 0 ? conversions / base : null,
+    value: Array.from(byCurrency.entries())
+      .map(([currency, total]) => ({ currency, total: Math.round(total * 100) / 100 }))
+      .sort((a, b) => b.total - a.total),
+  };
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────
+
+/** PostgREST caps responses (1000 rows by default); page through them */
+const ROLLUP_PAGE_SIZE = 1000;
+
+async function fetchAllPages<T>(
+  query: (first: number, last: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let first = 0; ; first += ROLLUP_PAGE_SIZE) {
+    const { data, error } = await query(first, first + ROLLUP_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load analytics rollups: ${error.message}`);
+    const page = (data ?? []) as T[];
+    rows.push(...page);
+    if (page.length < ROLLUP_PAGE_SIZE) return rows;
+  }
+}
+
+/** BIGINT counts can come back as strings; normalise to numbers */
+function withNumericCounts<T extends { count: number }>(rows: T[]): T[] {
+  return rows.map((r) => ({ ...r, count: Number(r.count) }));
+}
+
+function rangeArgs(window: DayWindow) {
+  const bounds = windowBounds(window);
+  return { p_from: bounds.from, p_to: bounds.to };
+}
+
+function botArgs(window: DayWindow) {
+  return { p_include_bots: window.include_bots ?? false };
+}
+
+/**
+ * Scan rollups for one QR summed into the window's local days. With
+ * `totalsOnly` only the 'total' rows come back.
+ */
+export async function fetchQrScanRollups(
+  supabase: SupabaseClient,
+  qrId: string,
+  window: DayWindow,
+  totalsOnly = false,
+): Promise<QrScanRollupRow[]> {
+  const rows = await fetchAllPages<QrScanRollupRow>((first, last) =>
+    supabase
+      .rpc('analytics_qr_rollups', {
+        p_qr_id: qrId,
+        ...rangeArgs(window),
+        p_tz: window.timezone,
+        p_totals_only: totalsOnly,
+        ...botArgs(window),
+      })
+      .range(first, last),
+  );
+  return withNumericCounts(rows);
+}
+
+export async function fetchBioRollups(
+  supabase: SupabaseClient,
+  pageId: string,
+  window: DayWindow,
+  totalsOnly = false,
+): Promise<BioRollupRow[]> {
+  const rows = await fetchAllPages<BioRollupRow>((first, last) =>
+    supabase
+      .rpc('analytics_bio_rollups', {
+        p_page_id: pageId,
+        ...rangeArgs(window),
+        p_tz: window.timezone,
+        p_totals_only: totalsOnly,
+        ...botArgs(window),
+      })
+      .range(first, last),
+  );
+  return withNumericCounts(rows);
+}
+
+async function fetchHeatmap(
+  supabase: SupabaseClient,
+  fn: string,
+  args: Record<string, unknown>,
+): Promise<AnalyticsHeatmap> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw new Error(`Failed to load analytics heatmap: ${error.message}`);
+  return heatmapGrid(
+    withNumericCounts((data ?? []) as Array<{ weekday: number; hour: number; count: number }>),
+  );
+}
+
+/** Scans by local weekday × hour over the window */
+export function fetchQrHeatmap(
+  supabase: SupabaseClient,
+  qrId: string,
+  window: DayWindow,
+): Promise<AnalyticsHeatmap> {
+  return fetchHeatmap(supabase, 'analytics_qr_heatmap', {
+    p_qr_id: qrId,
+    ...rangeArgs(window),
+    p_tz: window.timezone,
+    ...botArgs(window),
+  });
+}
+
+/** Page views by local weekday × hour over the window */
+export function fetchBioHeatmap(
+  supabase: SupabaseClient,
+  pageId: string,
+  window: DayWindow,
+): Promise<AnalyticsHeatmap> {
+  return fetchHeatmap(supabase, 'analytics_bio_heatmap', {
+    p_page_id: pageId,
+    ...rangeArgs(window),
+    p_tz: window.timezone,
+    ...botArgs(window),
+  });
+}
+
+/**
+ * Distinct visitors (by ip_hash) over the window, overall and per A/B
+ * variant. Distinct counts can't be summed from rollups, so this is a
+ * COUNT(DISTINCT) in SQL. Failures read as zero rather than failing the
+ * whole summary.
+ */
+export async function fetchQrUniqueVisitors(
+  supabase: SupabaseClient,
+  qrId: string,
+  window: DayWindow,
+): Promise<{ total: number; byVariant: Map<string, number> }> {
+  const { data, error } = await supabase.rpc('analytics_qr_unique_visitors', {
+    p_qr_id: qrId,
+    ...rangeArgs(window),
+    ...botArgs(window),
+  });
+
+  const byVariant = new Map<string, number>();
+  let total = 0;
+  if (error) {
+    console.error('[analytics] unique visitors lookup failed:', error.message);
+    return { total, byVariant };
+  }
+
+  for (const row of (data ?? []) as Array<{ variant_id: string | null; visitors: number | string }>) {
+    if (row.variant_id === null) total = Number(row.visitors);
+    else byVariant.set(row.variant_id, Number(row.visitors));
+  }
+  return { total, byVariant };
+}
+
+export async function fetchBioUniqueVisitors(
+  supabase: SupabaseClient,
+  pageId: string,
+  window: DayWindow,
+): Promise<number> {
+  const { data, error } = await supabase.rpc('analytics_bio_unique_visitors', {
+    p_page_id: pageId,
+    ...rangeArgs(window),
+    ...botArgs(window),
+  });
+
+  if (error) {
+    console.error('[analytics] unique visitors lookup failed:', error.message);
+    return 0;
+  }
+  return Number(data ?? 0);
+}
+
+async function fetchConversions(
+  supabase: SupabaseClient,
+  fn: string,
+  args: Record<string, unknown>,
+): Promise<ConversionRow[]> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) {
+    console.error('[analytics] conversions lookup failed:', error.message);
+    return [];
+  }
+
+  return ((data ?? []) as Array<Partial<ConversionRow> & { conversions: number | string; value: number | string }>)
+    .map((r) => ({
+      variant_id: r.variant_id ?? null,
+      currency: r.currency ?? null,
+      conversions: Number(r.conversions),
+      value: Number(r.value),
+    }));
+}
+
+/**
+ * Conversions attributed to scans of one QR over the window, per A/B
+ * variant and currency. Failures read as no conversions.
+ */
+export function fetchQrConversions(
+  supabase: SupabaseClient,
+  qrId: string,
+  window: DayWindow,
+): Promise<ConversionRow[]> {
+  return fetchConversions(supabase, 'analytics_qr_conversions', {
+    p_qr_id: qrId,
+    ...rangeArgs(window),
+  });
+}
+
+export function fetchBioConversions(
+  supabase: SupabaseClient,
+  pageId: string,
+  window: DayWindow,
+): Promise<ConversionRow[]> {
+  return fetchConversions(supabase, 'analytics_bio_conversions', {
+    p_page_id: pageId,
+    ...rangeArgs(window),
+  });
+}
+
+// ─── Org-wide ────────────────────────────────────────────────────────
+
+export interface OrgDailyTotals {
+  day: string;
+  scans: number;
+  views: number;
+  clicks: number;
+  submissions: number;
+}
+
+export interface OrgLeaderboardRow {
+  resource_type: 'qr' | 'bio';
+  resource_id: string;
+  name: string;
+  scans: number;
+  views: number;
+  clicks: number;
+  submissions: number;
+}
+
+/** Per local day totals across every live QR code and bio page in the org */
+export async function fetchOrgDailyTotals(
+  supabase: SupabaseClient,
+  orgId: string,
+  window: DayWindow,
+): Promise<OrgDailyTotals[]> {
+  const { data, error } = await supabase.rpc('analytics_org_daily', {
+    p_org_id: orgId,
+    ...rangeArgs(window),
+    p_tz: window.timezone,
+    ...botArgs(window),
+  });
+  if (error) throw new Error(`Failed to load org analytics: ${error.message}`);
+
+  return ((data ?? []) as OrgDailyTotals[]).map((r) => ({
+    day: r.day,
+    scans: Number(r.scans),
+    views: Number(r.views),
+    clicks: Number(r.clicks),
+    submissions: Number(r.submissions),
+  }));
+}
+
+/** The org's busiest QR codes (by scans) and bio pages (by views) */
+export async function fetchOrgLeaderboard(
+  supabase: SupabaseClient,
+  orgId: string,
+  window: DayWindow,
+  limit: number,
+): Promise<OrgLeaderboardRow[]> {
+  const { data, error } = await supabase.rpc('analytics_org_leaderboard', {
+    p_org_id: orgId,
+    ...rangeArgs(window),
+    p_limit: limit,
+    ...botArgs(window),
+  });
+  if (error) throw new Error(`Failed to load org leaderboard: ${error.message}`);
+
+  return ((data ?? []) as OrgLeaderboardRow[]).map((r) => ({
+    ...r,
+    scans: Number(r.scans),
+    views: Number(r.views),
+    clicks: Number(r.clicks),
+    submissions: Number(r.submissions),
+  }));
+}
@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Visitor hashes for unique visitor counts and A/B stickiness.
+ *
+ * A hash is SHA-256 over the day's salt, IP_HASH_SALT, the resource (e.g.
+ * `qr:<id>`), the IP and the user agent, truncated to 16 hex chars. The
+ * salt is random per UTC day and deleted once the day is over (see
+ * analytics_daily_salt in migration 00045), so the same visitor gets
+ * unrelated hashes on different days and on different codes and pages,
+ * and nobody — us included — can recompute an old hash from an IP.
+ */
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+/** Salt for one UTC day, cached per server instance */
+let cachedSalt: { day: string; salt: string } | null = null;
+
+/** The client IP as reported by the platform's proxy headers */
+export function clientIp(headers: HeaderSource): string {
+  return (
+    headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
+
+/** The hash for one visitor, resource and day */
+export function hashVisitor(parts: {
+  daySalt: string;
+  secret: string;
+  resource: string;
+  ip: string;
+  userAgent: string;
+}): string {
+  return createHash('sha256')
+    .update([parts.daySalt, parts.secret, parts.resource, parts.ip, parts.userAgent].join('\n'))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/** Today's salt (UTC), created on first use; null if it can't be loaded */
+export async function dailySalt(supabase: SupabaseClient, now: Date = new Date()): Promise<string | null> {
+  const day = now.toISOString().slice(0, 10);
+  if (cachedSalt?.day === day) return cachedSalt.salt;
+
+  const { data, error } = await supabase.rpc('analytics_daily_salt', { p_day: day });
+  if (error || typeof data !== 'string' || !data) {
+    console.error('[analytics] daily salt lookup failed:', error?.message ?? 'no salt returned');
+    return null;
+  }
+
+  cachedSalt = { day, salt: data };
+  return data;
+}
+
+/**
+ * Hash the visitor behind `headers` for `resource`.
+ * Returns null when IP_HASH_SALT is not configured or the day's salt
+ * can't be loaded; such events aren't counted as unique visitors.
+ */
+export async function visitorHash(
+  supabase: SupabaseClient,
+  headers: HeaderSource,
+  resource: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const secret = process.env.IP_HASH_SALT;
+  if (!secret) return null;
+
+  const daySalt = await dailySalt(supabase, now);
+  if (!daySalt) return null;
+
+  return hashVisitor({
+    daySalt,
+    secret,
+    resource,
+    ip: clientIp(headers),
+    userAgent: headers.get('user-agent') || '',
+  });
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  checkApiKeyLimit,
+  getRateLimitHeaders,
+  type RateLimitResult,
+} from '@/lib/security/rate-limiter';
+import { API_KEY_DEFAULTS } from '@/lib/constants';
+import { hashApiKey, parseBearerToken } from '@/lib/api-keys/tokens';
+import type { ApiKeyContext, ApiKeyScope } from '@/types/api-key';
+
+export type ApiKeyAuthResult =
+  | {
+      ok: true;
+      key: ApiKeyContext;
+      rateLimit: RateLimitResult;
+      /**
+       * Service-role client. RLS does not apply, so every query MUST filter
+       * by key.orgId.
+       */
+      supabase: SupabaseClient;
+    }
+  | { ok: false; response: NextResponse };
+
+function unauthorized(error: string): ApiKeyAuthResult {
+  return {
+    ok: false,
+    response: NextResponse.json(
+      { error },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    ),
+  };
+}
+
+/**
+ * Authenticate a /api/v1 request by its bearer API key.
+ *
+ * Checks, in order: a well-formed `Authorization: Bearer lynx_…` header, a
+ * matching non-revoked key, the required scope (scopes are independent — a
+ * read-write key holds both), then the per-key rate limit. On failure the
+ * result carries the response to return as-is.
+ */
+export async function authenticateApiKey(
+  request: Request,
+  requiredScope: ApiKeyScope
+): Promise<ApiKeyAuthResult> {
+  const token = parseBearerToken(request.headers.get('authorization'));
+  if (!token) {
+    return unauthorized('Missing or malformed API key');
+  }
+
+  const supabase = createAdminClient();
+  const { data: row, error } = await supabase
+    .from('api_keys')
+    .select('id, org_id, created_by, scopes, last_used_at, revoked_at')
+    .eq('key_hash', hashApiKey(token))
+    .single();
+
+  if (error || !row || row.revoked_at) {
+    return unauthorized('Invalid API key');
+  }
+
+  const scopes = (row.scopes ?? []) as ApiKeyScope[];
+  if (!scopes.includes(requiredScope)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'insufficient_scope', required_scope: requiredScope },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const rateLimit = checkApiKeyLimit(row.id);
+  if (!rateLimit.success) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Rate limit exceeded' },
+        { status: 429, headers: getRateLimitHeaders(rateLimit) }
+      ),
+    };
+  }
+
+  const lastUsed = row.last_used_at ? new Date(row.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > API_KEY_DEFAULTS.LAST_USED_THROTTLE_MS) {
+    // Fire-and-forget — usage tracking must never fail the request
+    touchLastUsed(supabase, row.id);
+  }
+
+  return {
+    ok: true,
+    key: {
+      keyId: row.id,
+      orgId: row.org_id,
+      createdBy: row.created_by,
+      scopes,
+    },
+    rateLimit,
+    supabase,
+  };
+}
+
+async function touchLastUsed(supabase: SupabaseClient, keyId: string): Promise<void> {
+  try {
+    await supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', keyId);
+  } catch (error) {
+    console.error('[api-keys] Failed to update last_used_at:', error instanceof Error ? error.message : 'unknown error');
+  }
+}
@@ -0,0 +1,50 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** Every key starts with this so it is recognisable in logs and secret scanners. */
+export const API_KEY_PREFIX = 'lynx_';
+
+/** Characters of the plaintext key kept for display ("lynx_Ab12Cd…"). */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export interface GeneratedApiKey {
+  /** Full plaintext key — returned to the user once, never stored. */
+  key: string;
+  /** Non-secret leading characters, stored for display. */
+  prefix: string;
+  /** SHA-256 hex digest, stored and used for lookup. */
+  hash: string;
+}
+
+/**
+ * 256-bit random key, base64url-encoded with the lynx_ prefix.
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  };
+}
+
+/**
+ * Keys carry 256 bits of entropy, so an unsalted SHA-256 is enough — there is
+ * nothing to brute-force, and a deterministic hash allows an indexed lookup.
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Extract an API key from an `Authorization: Bearer <key>` header.
+ * Returns null for a missing header, another scheme or a malformed key.
+ */
+export function parseBearerToken(header: string | null): string | null {
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  if (!match) return null;
+  const token = match[1];
+  if (!token.startsWith(API_KEY_PREFIX)) return null;
+  if (!/^[A-Za-z0-9_-]{20,128}$/.test(token)) return null;
+  return token;
+}
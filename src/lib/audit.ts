@@ -51,6 +51,30 @@ export async function writeAuditLog(entry: AuditEntry): Promise<void> {
   }
 }
 
+/**
+ * Write several QR audit entries in one insert (bulk operations).
+ * Fire-and-forget, same guarantees as writeAuditLog.
+ */
+export async function writeAuditLogs(entries: AuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    const supabase = createAdminClient();
+    await supabase.from('qr_audit_log').insert(
+      entries.map((entry) => ({
+        qr_id: entry.qrId,
+        actor_id: entry.actorId,
+        action: entry.action,
+        previous_value: entry.previousValue ?? null,
+        new_value: entry.newValue ?? null,
+        ip_address: entry.ipAddress ?? null,
+        user_agent: entry.userAgent ?? null,
+      }))
+    );
+  } catch (error) {
+    console.error('[audit] Failed to write audit logs:', error instanceof Error ? error.message : 'unknown error');
+  }
+}
+
 /**
  * Determine the audit action for a QR code update based on changed fields.
  */
@@ -58,7 +82,11 @@ export function determineUpdateAction(
   qrUpdate: Record<string, unknown>,
   styleUpdate: Record<string, unknown>,
 ): AuditAction {
-  if ('destination_url' in qrUpdate) return 'destination_changed';
+  if (
+    'destination_url' in qrUpdate ||
+    'destination_rules' in qrUpdate ||
+    'destination_variants' in qrUpdate
+  ) return 'destination_changed';
   if ('is_active' in qrUpdate && qrUpdate.is_active === false) return 'deactivated';
   if ('is_active' in qrUpdate && qrUpdate.is_active === true) return 'reactivated';
   if (Object.keys(styleUpdate).length > 0) return 'style_changed';
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { csvEscape } from '@/lib/qr/bulk';
+import type { InboxSubmission, SubmissionStatusFilter } from '@/types/bio';
+
+/**
+ * Inbox columns. The !inner page join is what scopes an org-wide query:
+ * submissions have no org_id of their own.
+ */
+export const INBOX_COLUMNS =
+  'id, page_id, block_id, name, email, message, phone, subject, rating, is_read, archived_at, submitted_at, page:bio_link_pages!inner(id, title, slug)';
+
+export interface SubmissionFilters {
+  status: SubmissionStatusFilter;
+  q?: string;
+  from?: string;
+  to?: string;
+  page_id?: string;
+}
+
+/**
+ * Turn free text into a prefix tsquery: "jo acme" → "jo:* & acme:*".
+ * Only letters and digits survive, so user input can never inject tsquery
+ * operators. Returns null when nothing searchable is left.
+ */
+export function toPrefixTsQuery(input: string): string | null {
+  const terms = input
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 10);
+  return terms.length > 0 ? terms.map((t) => `${t}:*`).join(' & ') : null;
+}
+
+/** Inclusive YYYY-MM-DD range → ISO bounds [gte, lt) over whole UTC days. */
+export function dateRangeBounds(from?: string, to?: string): { gte?: string; lt?: string } {
+  const bounds: { gte?: string; lt?: string } = {};
+  if (from) bounds.gte = new Date(`${from}T00:00:00.000Z`).toISOString();
+  if (to) {
+    const end = new Date(`${to}T00:00:00.000Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    bounds.lt = end.toISOString();
+  }
+  return bounds;
+}
+
+/**
+ * Org-wide submissions query with the inbox filters applied, newest first.
+ * RLS still applies — the caller passes the user's client.
+ */
+export function buildSubmissionsQuery(
+  supabase: SupabaseClient,
+  orgId: string,
+  filters: SubmissionFilters,
+  columns: string = INBOX_COLUMNS,
+  options: { count?: 'exact' } = {}
+) {
+  let query = supabase
+    .from('bio_form_submissions')
+    .select(columns, options)
+    .eq('page.org_id', orgId)
+    .is('page.deleted_at', null);
+
+  switch (filters.status) {
+    case 'inbox':
+      query = query.is('archived_at', null);
+      break;
+    case 'unread':
+      query = query.is('archived_at', null).eq('is_read', false);
+      break;
+    case 'read':
+      query = query.is('archived_at', null).eq('is_read', true);
+      break;
+    case 'archived':
+      query = query.not('archived_at', 'is', null);
+      break;
+    case 'all':
+      break;
+  }
+
+  if (filters.page_id) {
+    query = query.eq('page_id', filters.page_id);
+  }
+
+  const tsQuery = filters.q ? toPrefixTsQuery(filters.q) : null;
+  if (tsQuery) {
+    query = query.textSearch('search_vector', tsQuery, { config: 'simple' });
+  }
+
+  const { gte, lt } = dateRangeBounds(filters.from, filters.to);
+  if (gte) query = query.gte('submitted_at', gte);
+  if (lt) query = query.lt('submitted_at', lt);
+
+  return query.order('submitted_at', { ascending: false });
+}
+
+/**
+ * Prefix cells that a spreadsheet would run as a formula. Submissions are
+ * typed by the public, so "=HYPERLINK(…)" in a message must stay text.
+ */
+export function spreadsheetSafe(value: string | number | null | undefined): string {
+  const s = value === null || value === undefined ? '' : String(value);
+  return /^[=+\-@\t\r]/.test(s) ? `'${s}` : s;
+}
+
+export function submissionStatus(row: Pick<InboxSubmission, 'is_read' | 'archived_at'>): 'unread' | 'read' | 'archived' {
+  if (row.archived_at) return 'archived';
+  return row.is_read ? 'read' : 'unread';
+}
+
+const CSV_HEADER = [
+  'submitted_at',
+  'page_title',
+  'page_slug',
+  'type',
+  'status',
+  'name',
+  'email',
+  'phone',
+  'subject',
+  'message',
+  'rating',
+];
+
+/** Render inbox rows as CSV (CRLF line endings, header row first). */
+export function submissionsToCsv(rows: InboxSubmission[]): string {
+  const lines = [CSV_HEADER.join(',')];
+  for (const row of rows) {
+    lines.push(
+      [
+        row.submitted_at,
+        row.page.title,
+        row.page.slug,
+        row.rating !== null ? 'review_feedback' : 'contact_form',
+        submissionStatus(row),
+        row.name,
+        row.email,
+        row.phone,
+        row.subject,
+        row.message,
+        row.rating,
+      ]
+        .map((value) => csvEscape(spreadsheetSafe(value)))
+        .join(',')
+    );
+  }
+  return lines.join('\r\n') + '\r\n';
+}
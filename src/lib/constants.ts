@@ -16,6 +16,14 @@ export const QR_DEFAULTS = {
   DEFAULT_LOGO_RATIO: 0.20,
   WARN_LOGO_RATIO: 0.25,
   LOGO_MODE: 'none' as const,
+  MAX_DESTINATION_RULES: 20,
+  MAX_DESTINATION_VARIANTS: 5,
+  MAX_VARIANT_WEIGHT: 100,
+  MAX_BULK_ROWS: 500,
+  MAX_BULK_CSV_BYTES: 1_000_000,
+  // Below this WCAG contrast ratio against the background, scanning suffers
+  MIN_CONTRAST: 4,
+  MAX_BACKGROUND_IMAGE_BYTES: 500 * 1024,
 };
 
 // URL validation
@@ -42,6 +50,149 @@ export const RATE_LIMITS = {
   BIO_CREATE: 10,
   BIO_TRACK: 1000,
   BIO_FORM_SUBMIT: 5,
+  QR_BULK_CREATE: 5,
+  API_KEY: 120,
+  WEBHOOK_REDELIVER: 10,
+  CONVERSION: 300,
+};
+
+// Public REST API (/api/v1) keys
+export const API_KEY_DEFAULTS = {
+  MAX_KEYS_PER_ORG: 20,
+  /** Skip the last_used_at write if it was updated more recently than this */
+  LAST_USED_THROTTLE_MS: 60_000,
+};
+
+// Conversion tracking (/api/conversions)
+export const CONVERSION_DEFAULTS = {
+  /** A click ID can be converted for this long after the scan or click */
+  CLICK_TTL_DAYS: 7,
+  /** Largest value accepted on a single conversion */
+  MAX_VALUE: 1_000_000,
+  /** Event name used when the snippet or pixel doesn't pass one */
+  DEFAULT_EVENT: 'conversion',
+};
+
+// Outgoing webhooks
+export const WEBHOOK_EVENT_TYPES = [
+  'qr.scanned',
+  'bio.viewed',
+  'bio.block_clicked',
+  'form.submitted',
+  'invite.accepted',
+  'order.status_changed',
+] as const;
+
+export const WEBHOOK_EVENTS = [
+  { id: 'qr.scanned', label: 'QR code scanned' },
+  { id: 'bio.viewed', label: 'Bio page viewed' },
+  { id: 'bio.block_clicked', label: 'Bio block clicked' },
+  { id: 'form.submitted', label: 'Contact form submitted' },
+  { id: 'invite.accepted', label: 'Team invite accepted' },
+  { id: 'order.status_changed', label: 'Shop order status changed' },
+] as const;
+
+export const WEBHOOK_DEFAULTS = {
+  MAX_ENDPOINTS_PER_ORG: 10,
+  /** A delivery is marked failed after this many attempts */
+  MAX_ATTEMPTS: 8,
+  /** Retry delay doubles from this after each failed attempt… */
+  BASE_RETRY_DELAY_MS: 30_000,
+  /** …up to this cap */
+  MAX_RETRY_DELAY_MS: 6 * 60 * 60 * 1000,
+  TIMEOUT_MS: 10_000,
+  /** Characters of the receiver's response kept in the delivery log */
+  RESPONSE_BODY_LIMIT: 2000,
+  /** Deliveries processed per retry-cron run */
+  CRON_BATCH_SIZE: 50,
+};
+
+// Submissions inbox (org-wide bio_form_submissions)
+export const SUBMISSION_DEFAULTS = {
+  PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 100,
+  MAX_BULK_IDS: 200,
+  /** CSV export date range, inclusive */
+  MAX_EXPORT_DAYS: 366,
+  MAX_EXPORT_ROWS: 10_000,
+};
+
+// Bio form lead routing (bio_link_pages.lead_routing)
+export const ALERT_KINDS = [
+  'first_scan',
+  'volume_above',
+  'volume_below',
+  'new_country',
+  'inactive',
+] as const;
+
+export const ALERT_DELIVERIES = ['immediate', 'daily', 'weekly'] as const;
+
+export const ALERT_DEFAULTS = {
+  MAX_RULES_PER_ORG: 50,
+  MAX_RECIPIENTS: 10,
+  /** Longest volume / inactivity window: 90 days */
+  MAX_WINDOW_HOURS: 2160,
+  /** Rules evaluated per cron run, least recently evaluated first */
+  BATCH_SIZE: 200,
+  /** Recent alert events shown on the alerts page */
+  EVENTS_LIMIT: 50,
+} as const;
+
+// Analytics exports (/api/…/analytics/export)
+export const ANALYTICS_EXPORT_FORMATS = ['csv', 'json'] as const;
+export const ANALYTICS_EXPORT_DATA = ['events', 'summary'] as const;
+
+export const ANALYTICS_EXPORT_DEFAULTS = {
+  /** Raw events per export, oldest first */
+  MAX_EVENTS: 50_000,
+  /** Rows per request while paging through an event table */
+  PAGE_SIZE: 1000,
+} as const;
+
+// Raw event retention (/api/cron/retention)
+export const ANALYTICS_RETENTION_DEFAULTS = {
+  /** Events older than this lose their visitor hash (ANALYTICS_COARSEN_AFTER_DAYS) */
+  COARSEN_AFTER_DAYS: 30,
+  /** Events older than this are deleted; 0 keeps them (ANALYTICS_DELETE_AFTER_DAYS) */
+  DELETE_AFTER_DAYS: 0,
+  /** UTC days coarsened per run */
+  MAX_DAYS_PER_RUN: 7,
+  /** Events deleted per table per run */
+  DELETE_BATCH_SIZE: 10_000,
+} as const;
+
+// Scheduled monthly PDF reports (report_schedules)
+export const REPORT_DEFAULTS = {
+  MAX_SCHEDULES_PER_ORG: 20,
+  MAX_RECIPIENTS: 20,
+  /** Schedules checked per cron run, least recently sent first */
+  BATCH_SIZE: 20,
+} as const;
+
+export const LEAD_ROUTING_DEFAULTS = {
+  MAX_RECIPIENTS: 10,
+  MAX_BLOCK_OVERRIDES: 20,
+  MAX_AUTORESPONDER_SUBJECT: 200,
+  MAX_AUTORESPONDER_MESSAGE: 2000,
+  /** Rows returned by the page's email delivery log */
+  EMAIL_LOG_LIMIT: 50,
+  /** Characters of a provider error kept in the log */
+  ERROR_LIMIT: 500,
+};
+
+// Custom domains for bio pages (bio_link_pages.custom_domain)
+export const CUSTOM_DOMAIN_DEFAULTS = {
+  /** Host customers point their CNAME at; CUSTOM_DOMAIN_CNAME_TARGET overrides */
+  CNAME_TARGET: 'cname.vercel-dns.com',
+  /** TXT ownership record lives at <prefix>.<domain> */
+  TXT_RECORD_PREFIX: '_lynx-verify',
+  /** Domains still pending after this many days are released */
+  PENDING_TTL_DAYS: 7,
+  /** Pages checked per verification-cron run */
+  CRON_BATCH_SIZE: 50,
+  /** How long middleware caches a host → slug lookup */
+  HOST_CACHE_TTL_MS: 60_000,
 };
 
 // Slug configuration
@@ -52,9 +203,43 @@ export const SLUG_CONFIG = {
   PATTERN: /^[a-z0-9]+(-[a-z0-9]+)*$/,
 };
 
+// Code types (qr_codes.symbology). GTIN codes carry digits, not a URL,
+// so they can only be direct. minQuietZone is in modules; a smaller style
+// quiet zone is raised to it.
+export const CODE_SYMBOLOGIES = ['qr', 'code128', 'ean13', 'upca', 'datamatrix', 'pdf417'] as const;
+
+export const SYMBOLOGY_INFO = {
+  qr: { label: 'QR code', description: 'Styled 2D code for phones', carriesUrl: true, minQuietZone: 2 },
+  code128: { label: 'Code 128', description: 'Linear barcode for labels and logistics', carriesUrl: true, minQuietZone: 10 },
+  ean13: { label: 'EAN-13', description: 'Retail product barcode (GTIN-13)', carriesUrl: false, minQuietZone: 11 },
+  upca: { label: 'UPC-A', description: 'North American product barcode (GTIN-12)', carriesUrl: false, minQuietZone: 11 },
+  datamatrix: { label: 'Data Matrix', description: 'Compact 2D code for small items', carriesUrl: true, minQuietZone: 1 },
+  pdf417: { label: 'PDF417', description: 'Stacked 2D code for documents and IDs', carriesUrl: true, minQuietZone: 2 },
+} as const;
+
+// Structured direct-QR content (qr_codes.payload_type); see lib/qr/payloads.ts
+export const QR_PAYLOADS = [
+  { id: 'url', label: 'Website', description: 'Opens a URL' },
+  { id: 'vcard', label: 'Contact', description: 'Saves a contact card (vCard)' },
+  { id: 'wifi', label: 'Wi-Fi', description: 'Joins a Wi-Fi network' },
+  { id: 'sms', label: 'SMS', description: 'Starts a text message' },
+  { id: 'email', label: 'Email', description: 'Starts an email' },
+  { id: 'geo', label: 'Location', description: 'Opens a map location' },
+  { id: 'event', label: 'Event', description: 'Adds a calendar event' },
+] as const;
+
+export const WIFI_SECURITY_TYPES = ['WPA', 'WEP', 'nopass'] as const;
+
 // Shape presets
-export const MODULE_SHAPES = ['square', 'rounded', 'dots', 'diamond'] as const;
-export const EYE_SHAPES = ['square', 'rounded', 'circle'] as const;
+export const MODULE_SHAPES = [
+  'square', 'rounded', 'dots', 'diamond',
+  'vertical-bars', 'horizontal-bars', 'classy', 'star',
+] as const;
+export const EYE_SHAPES = ['square', 'rounded', 'circle', 'leaf', 'dot-in-square'] as const;
+
+// Foreground fills and backgrounds (see lib/qr/paint.ts)
+export const GRADIENT_TYPES = ['none', 'linear', 'radial'] as const;
+export const BACKGROUND_MODES = ['solid', 'transparent', 'image'] as const;
 
 // Error correction levels
 export const ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
@@ -70,11 +255,8 @@ export const PDF_PRESETS = {
   'a4': { width: 210, height: 297, name: 'A4 Page' },
 } as const;
 
-// Bio-link page defaults
+// Bio-link page defaults (per-plan limits live in lib/org/entitlements)
 export const BIO_DEFAULTS = {
-  MAX_PAGES_PER_USER: 5,
-  MAX_LINKS_PER_PAGE: 10,
-  MAX_BLOCKS_PER_PAGE: 50,
   MAX_BIO_LENGTH: 300,
   MAX_TITLE_LENGTH: 100,
   SLUG_MIN_LENGTH: 3,
@@ -82,7 +264,7 @@ export const BIO_DEFAULTS = {
   GRID_COLUMNS: 4,
   GRID_ROW_HEIGHT: 80,
   GRID_GAP: 8,
-  MAX_GALLERY_IMAGES: 12,
+  REVIEW_FUNNEL_MIN_PUBLIC_RATING: 4,
 };
 
 // Social platform definitions for social_icons blocks
@@ -102,6 +284,14 @@ export const SOCIAL_PLATFORMS = [
   { id: 'website', label: 'Website', icon: 'globe' },
 ] as const;
 
+// Review site definitions for review_funnel blocks
+export const REVIEW_PLATFORMS = [
+  { id: 'google', label: 'Google', placeholder: 'https://g.page/r/.../review' },
+  { id: 'tripadvisor', label: 'TripAdvisor', placeholder: 'https://www.tripadvisor.co.uk/UserReviewEdit-...' },
+  { id: 'trustpilot', label: 'Trustpilot', placeholder: 'https://uk.trustpilot.com/evaluate/...' },
+  { id: 'facebook', label: 'Facebook', placeholder: 'https://www.facebook.com/.../reviews' },
+] as const;
+
 // Bio-link themes
 export const BIO_THEMES = [
   'minimal',
@@ -0,0 +1,31 @@
+import { appendQueryParams } from '@/lib/utils';
+
+/**
+ * Conversion click IDs.
+ *
+ * Each managed-QR scan (and each bio link click, when the org has
+ * conversion tracking on) gets a random click ID that travels to the
+ * destination as ?os_click=…. The org's snippet stores it on landing and
+ * sends it back with the conversion, tying the purchase or sign-up to the
+ * scan. Runs in the browser as well as on the server.
+ */
+
+/** Query param carrying the click ID to the destination */
+export const CLICK_ID_PARAM = 'os_click';
+
+const CLICK_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/** 128-bit random click ID, hex-encoded */
+export function generateClickId(): string {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function isValidClickId(value: unknown): value is string {
+  return typeof value === 'string' && CLICK_ID_PATTERN.test(value);
+}
+
+export function appendClickId(url: string, clickId: string): string {
+  return appendQueryParams(url, { [CLICK_ID_PARAM]: clickId });
+}
@@ -0,0 +1,142 @@
+import { randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CONVERSION_DEFAULTS } from '@/lib/constants';
+
+/**
+ * Server side of conversion tracking: per-org keys, issuing click IDs and
+ * recording conversions reported by /api/conversions. All writes go
+ * through the service-role client — the tables have no write policies.
+ */
+
+/** Every conversion key starts with this so it is recognisable in snippets */
+export const CONVERSION_KEY_PREFIX = 'osck_';
+
+/** 144-bit random public key, base64url-encoded with the osck_ prefix */
+export function generateConversionKey(): string {
+  return CONVERSION_KEY_PREFIX + randomBytes(18).toString('base64url');
+}
+
+export interface ClickSource {
+  orgId: string;
+  qrId?: string | null;
+  pageId?: string | null;
+  variantId?: string | null;
+}
+
+/** Store a click ID so conversions can be attributed to it until it expires */
+export async function issueClick(
+  supabase: SupabaseClient,
+  clickId: string,
+  source: ClickSource,
+  now: Date = new Date(),
+): Promise<void> {
+  const expiresAt = new Date(now.getTime() + CONVERSION_DEFAULTS.CLICK_TTL_DAYS * 86_400_000);
+
+  const { error } = await supabase.from('conversion_clicks').insert({
+    id: clickId,
+    org_id: source.orgId,
+    qr_id: source.qrId ?? null,
+    page_id: source.pageId ?? null,
+    variant_id: source.variantId ?? null,
+    created_at: now.toISOString(),
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) throw new Error(`Failed to issue click ID: ${error.message}`);
+}
+
+/**
+ * Store a bio page click ID reported by the page's tracking beacon. The ID
+ * is generated in the browser, so it is only kept when the page's org
+ * actually has conversion tracking on.
+ */
+export async function issuePageClick(
+  supabase: SupabaseClient,
+  clickId: string,
+  pageId: string,
+  now: Date = new Date(),
+): Promise<void> {
+  const { data: page } = await supabase
+    .from('bio_link_pages')
+    .select('org_id, organizations(conversion_key)')
+    .eq('id', pageId)
+    .maybeSingle();
+  if (!page) return;
+
+  const org = (Array.isArray(page.organizations) ? page.organizations[0] : page.organizations) as
+    | { conversion_key: string | null }
+    | null;
+  if (!org?.conversion_key) return;
+
+  await issueClick(supabase, clickId, { orgId: page.org_id, pageId }, now);
+}
+
+export interface ConversionInput {
+  key: string;
+  clickId: string;
+  event: string;
+  value: number | null;
+  currency: string | null;
+}
+
+export type ConversionResult = 'recorded' | 'duplicate' | 'unknown_key' | 'unknown_click';
+
+/**
+ * Record a conversion against a live click ID belonging to the key's org.
+ * A second report for the same click and event is ignored.
+ */
+export async function recordConversion(
+  supabase: SupabaseClient,
+  input: ConversionInput,
+  now: Date = new Date(),
+): Promise<ConversionResult> {
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('conversion_key', input.key)
+    .maybeSingle();
+  if (!org) return 'unknown_key';
+
+  const { data: click } = await supabase
+    .from('conversion_clicks')
+    .select('id, qr_id, page_id, variant_id')
+    .eq('id', input.clickId)
+    .eq('org_id', org.id)
+    .gt('expires_at', now.toISOString())
+    .maybeSingle();
+  if (!click) return 'unknown_click';
+
+  const { data: inserted, error } = await supabase
+    .from('conversion_events')
+    .upsert(
+      {
+        org_id: org.id,
+        click_id: click.id,
+        qr_id: click.qr_id,
+        page_id: click.page_id,
+        variant_id: click.variant_id,
+        event_name: input.event,
+        // Value without a currency can't be summed meaningfully
+        value: input.currency ? input.value : null,
+        currency: input.value !== null ? input.currency : null,
+        converted_at: now.toISOString(),
+      },
+      { onConflict: 'click_id,event_name', ignoreDuplicates: true },
+    )
+    .select('id');
+  if (error) throw new Error(`Failed to record conversion: ${error.message}`);
+
+  return inserted && inserted.length > 0 ? 'recorded' : 'duplicate';
+}
+
+/** Delete click IDs past their expiry; returns how many were removed */
+export async function purgeExpiredClicks(
+  supabase: SupabaseClient,
+  now: Date = new Date(),
+): Promise<number> {
+  const { count, error } = await supabase
+    .from('conversion_clicks')
+    .delete({ count: 'exact' })
+    .lt('expires_at', now.toISOString());
+  if (error) throw new Error(`Failed to purge click IDs: ${error.message}`);
+  return count ?? 0;
+}
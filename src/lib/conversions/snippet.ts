@@ -0,0 +1,47 @@
+import { CONVERSION_DEFAULTS } from '@/lib/constants';
+import { CLICK_ID_PARAM } from './click-id';
+
+/**
+ * Copy-paste conversion tracking code shown on the org's settings page.
+ *
+ * The snippet goes on every page of the destination site. On landing it
+ * keeps the ?os_click=… click ID in localStorage (first-party, no cookies);
+ * calling `onesignConvert({ event, value, currency })` on the thank-you page
+ * reports the conversion with a beacon, falling back to the pixel. Sites
+ * that render the thank-you page server-side can use the pixel directly.
+ */
+
+const STORAGE_KEY = 'onesign_click';
+
+export function buildConversionSnippet(endpoint: string, key: string): string {
+  const ttlMs = CONVERSION_DEFAULTS.CLICK_TTL_DAYS * 86_400_000;
+  return `<script>
+(function (w, k, u) {
+  var S = '${STORAGE_KEY}';
+  try {
+    var m = /[?&]${CLICK_ID_PARAM}=([0-9a-f]{32})/.exec(w.location.search);
+    if (m) w.localStorage.setItem(S, JSON.stringify({ id: m[1], t: Date.now() }));
+  } catch (e) {}
+  w.onesignConvert = function (o) {
+    o = o || {};
+    var c = null;
+    try { c = JSON.parse(w.localStorage.getItem(S) || 'null'); } catch (e) {}
+    if (!c || Date.now() - c.t > ${ttlMs}) return false;
+    var d = JSON.stringify({ k: k, c: c.id, e: o.event, v: o.value, cur: o.currency });
+    if (!(w.navigator.sendBeacon && w.navigator.sendBeacon(u, d))) {
+      new Image().src = u + '?k=' + encodeURIComponent(k) + '&c=' + c.id +
+        (o.event ? '&e=' + encodeURIComponent(o.event) : '') +
+        (o.value != null ? '&v=' + encodeURIComponent(o.value) : '') +
+        (o.currency ? '&cur=' + encodeURIComponent(o.currency) : '');
+    }
+    return true;
+  };
+})(window, ${JSON.stringify(key)}, ${JSON.stringify(endpoint)});
+</script>`;
+}
+
+/** Pixel tag with placeholders for the click ID and order value */
+export function buildConversionPixel(endpoint: string, key: string): string {
+  const src = `${endpoint}?k=${encodeURIComponent(key)}&c={CLICK_ID}&e=purchase&v={VALUE}&cur=GBP`;
+  return `<img src="${src}" width="1" height="1" alt="" style="display:none" />`;
+}
@@ -0,0 +1,77 @@
+/**
+ * Attach custom domains to the hosting project so the platform routes the
+ * host to this app and issues a TLS certificate.
+ *
+ * Uses the Vercel Domains API when VERCEL_API_TOKEN and VERCEL_PROJECT_ID
+ * are set. Without them (local dev, self-hosting) attaching is a no-op that
+ * succeeds — the operator is expected to route the host themselves.
+ */
+
+const VERCEL_API = 'https://api.vercel.com';
+
+export interface HostingResult {
+  ok: boolean;
+  error?: string;
+}
+
+function vercelConfig() {
+  const token = process.env.VERCEL_API_TOKEN;
+  const projectId = process.env.VERCEL_PROJECT_ID;
+  if (!token || !projectId) return null;
+  const teamId = process.env.VERCEL_TEAM_ID;
+  return {
+    token,
+    projectId,
+    query: teamId ? `?teamId=${encodeURIComponent(teamId)}` : '',
+  };
+}
+
+export async function attachDomainToHosting(domain: string): Promise<HostingResult> {
+  const config = vercelConfig();
+  if (!config) return { ok: true };
+
+  try {
+    const res = await fetch(
+      `${VERCEL_API}/v10/projects/${encodeURIComponent(config.projectId)}/domains${config.query}`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: domain }),
+      }
+    );
+
+    // 409: already attached to this project — nothing to do
+    if (res.ok || res.status === 409) return { ok: true };
+
+    const body = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+    return {
+      ok: false,
+      error: body?.error?.message ?? `Hosting provider responded ${res.status}`,
+    };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : 'Hosting request failed' };
+  }
+}
+
+export async function detachDomainFromHosting(domain: string): Promise<HostingResult> {
+  const config = vercelConfig();
+  if (!config) return { ok: true };
+
+  try {
+    const res = await fetch(
+      `${VERCEL_API}/v9/projects/${encodeURIComponent(config.projectId)}/domains/${encodeURIComponent(domain)}${config.query}`,
+      {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${config.token}` },
+      }
+    );
+
+    if (res.ok || res.status === 404) return { ok: true };
+    return { ok: false, error: `Hosting provider responded ${res.status}` };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : 'Hosting request failed' };
+  }
+}
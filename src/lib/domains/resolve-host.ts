@@ -0,0 +1,72 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import { CUSTOM_DOMAIN_DEFAULTS } from '@/lib/constants';
+
+/**
+ * Host → bio page slug lookup for middleware. Edge-safe: no Node APIs.
+ */
+
+const hostCache = new Map<string, { slug: string | null; expiresAt: number }>();
+/** Arbitrary Host headers are attacker-controlled — bound the cache */
+const HOST_CACHE_MAX_ENTRIES = 1000;
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/** Strip the port and trailing dot from a Host header value */
+export function normaliseHostHeader(host: string | null): string | null {
+  if (!host) return null;
+  const name = host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+  return name || null;
+}
+
+/**
+ * Hosts that serve the app itself and must never be looked up as a
+ * customer domain: the app and redirect URLs, local dev and preview deploys.
+ */
+export function isPlatformHost(host: string): boolean {
+  if (host === 'localhost' || host === '127.0.0.1' || host.endsWith('.localhost')) return true;
+  if (host.endsWith('.vercel.app')) return true;
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) return true;
+  return (
+    host === hostOf(process.env.NEXT_PUBLIC_APP_URL) ||
+    host === hostOf(process.env.QR_REDIRECT_BASE_URL)
+  );
+}
+
+/**
+ * Slug of the page served on `host`, or null. Results (including misses)
+ * are cached per instance for HOST_CACHE_TTL_MS; lookup errors are not.
+ */
+export async function resolveCustomDomain(host: string): Promise<string | null> {
+  const now = Date.now();
+  const cached = hostCache.get(host);
+  if (cached && cached.expiresAt > now) return cached.slug;
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) return null;
+
+  try {
+    const supabase = createSupabaseClient(url, anonKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const { data, error } = await supabase.rpc('resolve_custom_domain', { p_host: host });
+    if (error) {
+      console.error('[resolveCustomDomain] lookup failed:', error.message);
+      return null;
+    }
+
+    const slug = typeof data === 'string' && data ? data : null;
+    if (hostCache.size >= HOST_CACHE_MAX_ENTRIES) hostCache.clear();
+    hostCache.set(host, { slug, expiresAt: now + CUSTOM_DOMAIN_DEFAULTS.HOST_CACHE_TTL_MS });
+    return slug;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,272 @@
+import { randomBytes } from 'crypto';
+import { promises as dns } from 'dns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CUSTOM_DOMAIN_DEFAULTS } from '@/lib/constants';
+import { attachDomainToHosting, detachDomainFromHosting } from '@/lib/domains/hosting';
+import type { BioCustomDomain, BioCustomDomainStatus } from '@/types/bio';
+
+export const CUSTOM_DOMAIN_COLUMNS =
+  'id, custom_domain, custom_domain_status, custom_domain_token, custom_domain_requested_at, custom_domain_verified_at, custom_domain_checked_at, custom_domain_error';
+
+/** The subset of bio_link_pages the verification job works on */
+export interface CustomDomainRow {
+  id: string;
+  custom_domain: string | null;
+  custom_domain_status: BioCustomDomainStatus | null;
+  custom_domain_token: string | null;
+  custom_domain_requested_at: string | null;
+  custom_domain_verified_at: string | null;
+  custom_domain_checked_at: string | null;
+  custom_domain_error: string | null;
+}
+
+/**
+ * The two lookups verification needs. Production uses the system resolver;
+ * tests pass a stub.
+ */
+export interface DnsResolver {
+  resolveCname(host: string): Promise<string[]>;
+  resolveTxt(host: string): Promise<string[][]>;
+}
+
+export const systemResolver: DnsResolver = {
+  resolveCname: (host) => dns.resolveCname(host),
+  resolveTxt: (host) => dns.resolveTxt(host),
+};
+
+/**
+ * Result of one DNS check. `null` means the lookup itself failed (timeout,
+ * SERVFAIL) — unknown, as opposed to `false` for "record not there".
+ */
+export interface DomainDnsCheck {
+  cname: boolean | null;
+  txt: boolean | null;
+  error: string | null;
+}
+
+export function cnameTarget(): string {
+  return (process.env.CUSTOM_DOMAIN_CNAME_TARGET || CUSTOM_DOMAIN_DEFAULTS.CNAME_TARGET).toLowerCase();
+}
+
+export function verificationRecordName(domain: string): string {
+  return `${CUSTOM_DOMAIN_DEFAULTS.TXT_RECORD_PREFIX}.${domain}`;
+}
+
+export function generateDomainToken(): string {
+  return `lynx-verify=${randomBytes(16).toString('hex')}`;
+}
+
+function normaliseHost(host: string): string {
+  return host.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/** Errors that mean "no such record" rather than "couldn't ask" */
+function isMissingRecord(err: unknown): boolean {
+  const code = (err as { code?: string } | null)?.code;
+  return code === 'ENODATA' || code === 'ENOTFOUND' || code === 'NXDOMAIN';
+}
+
+export async function checkDomainDns(
+  domain: string,
+  token: string,
+  resolver: DnsResolver = systemResolver
+): Promise<DomainDnsCheck> {
+  const problems: string[] = [];
+  const target = cnameTarget();
+
+  let cname: boolean | null;
+  try {
+    const records = await resolver.resolveCname(domain);
+    cname = records.some((r) => normaliseHost(r) === target);
+    if (!cname) problems.push(`CNAME for ${domain} does not point to ${target}`);
+  } catch (err) {
+    cname = isMissingRecord(err) ? false : null;
+    problems.push(
+      cname === false
+        ? `No CNAME record found for ${domain}`
+        : `CNAME lookup for ${domain} failed`
+    );
+  }
+
+  const txtName = verificationRecordName(domain);
+  let txt: boolean | null;
+  try {
+    // TXT values may be split into several strings; join each record back up
+    const records = await resolver.resolveTxt(txtName);
+    txt = records.some((chunks) => chunks.join('').trim() === token);
+    if (!txt) problems.push(`TXT record at ${txtName} does not match`);
+  } catch (err) {
+    txt = isMissingRecord(err) ? false : null;
+    problems.push(
+      txt === false
+        ? `No TXT record found at ${txtName}`
+        : `TXT lookup for ${txtName} failed`
+    );
+  }
+
+  return { cname, txt, error: problems.length > 0 ? problems.join('; ') : null };
+}
+
+export type DomainTransition = BioCustomDomainStatus | 'released';
+
+/**
+ * The verification state machine.
+ *
+ *   pending  → verified  once both the CNAME and the TXT record check out
+ *   pending  → released  when still unverified after PENDING_TTL_DAYS
+ *   verified / active → pending  when the CNAME is definitely gone; the
+ *                                TTL restarts from the demotion
+ *
+ * verified → active happens outside this function, once hosting accepts
+ * the domain. Failed lookups (null) never move a domain backwards.
+ */
+export function nextDomainStatus(
+  status: BioCustomDomainStatus,
+  check: DomainDnsCheck,
+  requestedAt: string | null,
+  now: Date = new Date()
+): DomainTransition {
+  if (status === 'pending') {
+    if (check.cname === true && check.txt === true) return 'verified';
+    const ttlMs = CUSTOM_DOMAIN_DEFAULTS.PENDING_TTL_DAYS * 24 * 60 * 60 * 1000;
+    if (requestedAt && now.getTime() - new Date(requestedAt).getTime() > ttlMs) {
+      return 'released';
+    }
+    return 'pending';
+  }
+
+  // Once verified the TXT record may be removed; only the CNAME keeps routing
+  if (check.cname === false) return 'pending';
+  return status;
+}
+
+/**
+ * Re-check one page's domain and persist the outcome. Verified domains are
+ * attached to hosting straight away and become active if that succeeds.
+ */
+export async function verifyPageDomain(
+  supabase: SupabaseClient,
+  row: CustomDomainRow,
+  resolver: DnsResolver = systemResolver,
+  now: Date = new Date()
+): Promise<DomainTransition> {
+  if (!row.custom_domain || !row.custom_domain_status || !row.custom_domain_token) {
+    return 'released';
+  }
+
+  const check = await checkDomainDns(row.custom_domain, row.custom_domain_token, resolver);
+  let next = nextDomainStatus(row.custom_domain_status, check, row.custom_domain_requested_at, now);
+  let error = check.error;
+  const nowIso = now.toISOString();
+
+  if (next === 'released') {
+    // A demoted domain was attached to hosting when it was verified
+    if (row.custom_domain_verified_at) {
+      await detachDomainFromHosting(row.custom_domain);
+    }
+    await supabase
+      .from('bio_link_pages')
+      .update({
+        custom_domain: null,
+        custom_domain_status: null,
+        custom_domain_token: null,
+        custom_domain_requested_at: null,
+        custom_domain_verified_at: null,
+        custom_domain_checked_at: nowIso,
+        custom_domain_error: `Released: DNS was not verified within ${CUSTOM_DOMAIN_DEFAULTS.PENDING_TTL_DAYS} days`,
+      })
+      .eq('id', row.id)
+      .eq('custom_domain', row.custom_domain);
+    return next;
+  }
+
+  if (next === 'verified') {
+    const hosting = await attachDomainToHosting(row.custom_domain);
+    if (hosting.ok) {
+      next = 'active';
+      error = null;
+    } else {
+      error = hosting.error ?? 'Hosting provider rejected the domain';
+    }
+  } else if (next === 'active' && check.cname === true) {
+    // TXT may have been tidied away after verification — not an error
+    error = null;
+  }
+
+  const update: Record<string, unknown> = {
+    custom_domain_status: next,
+    custom_domain_checked_at: nowIso,
+    custom_domain_error: error,
+  };
+  if (row.custom_domain_status === 'pending' && next !== 'pending') {
+    update.custom_domain_verified_at = nowIso;
+  }
+  if (row.custom_domain_status !== 'pending' && next === 'pending') {
+    // Give the owner the full window to fix DNS; the original request is
+    // long past the TTL and would release the domain on the next run
+    update.custom_domain_requested_at = nowIso;
+  }
+
+  // Conditional on the domain so a concurrent change by the owner wins
+  await supabase
+    .from('bio_link_pages')
+    .update(update)
+    .eq('id', row.id)
+    .eq('custom_domain', row.custom_domain);
+
+  return next;
+}
+
+/**
+ * Verification cron: re-check the least recently checked domains.
+ */
+export async function runDomainVerification(
+  supabase: SupabaseClient,
+  resolver: DnsResolver = systemResolver
+): Promise<Record<DomainTransition, number>> {
+  const { data: rows, error } = await supabase
+    .from('bio_link_pages')
+    .select(CUSTOM_DOMAIN_COLUMNS)
+    .not('custom_domain', 'is', null)
+    .is('deleted_at', null)
+    .order('custom_domain_checked_at', { ascending: true, nullsFirst: true })
+    .limit(CUSTOM_DOMAIN_DEFAULTS.CRON_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load custom domains: ${error.message}`);
+  }
+
+  const counts: Record<DomainTransition, number> = {
+    pending: 0,
+    verified: 0,
+    active: 0,
+    released: 0,
+  };
+
+  // Sequential — keeps the resolver and hosting API calls gentle
+  for (const row of (rows ?? []) as CustomDomainRow[]) {
+    const next = await verifyPageDomain(supabase, row, resolver);
+    counts[next]++;
+  }
+
+  return counts;
+}
+
+/** API shape for a page's domain, including the DNS records to create */
+export function toCustomDomain(row: CustomDomainRow): BioCustomDomain | null {
+  if (!row.custom_domain || !row.custom_domain_status || !row.custom_domain_token) {
+    return null;
+  }
+  return {
+    domain: row.custom_domain,
+    status: row.custom_domain_status,
+    requested_at: row.custom_domain_requested_at,
+    verified_at: row.custom_domain_verified_at,
+    checked_at: row.custom_domain_checked_at,
+    error: row.custom_domain_error,
+    records: [
+      { type: 'CNAME', name: row.custom_domain, value: cnameTarget() },
+      { type: 'TXT', name: verificationRecordName(row.custom_domain), value: row.custom_domain_token },
+    ],
+  };
+}
@@ -0,0 +1,19 @@
+/** Escape text for interpolation into HTML element content. */
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Escape text for interpolation into a double-quoted HTML attribute. */
+export function escapeAttr(s: string): string {
+  return s.replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/** Escape multi-line user text, keeping its line breaks. */
+export function escapeMultiline(s: string): string {
+  return escapeHtml(s).replace(/\r?\n/g, '<br>');
+}
@@ -0,0 +1,72 @@
+export const EMAIL_FROM = 'OneSign – Lynx <noreply@onesignanddigital.com>';
+
+const RESEND_ENDPOINT = 'https://api.resend.com/emails';
+
+export interface EmailAttachment {
+  filename: string;
+  /** File contents, base64-encoded */
+  content: string;
+}
+
+export interface SendEmailArgs {
+  to: string | string[];
+  subject: string;
+  html: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export type SendEmailStatus = 'sent' | 'failed' | 'skipped';
+
+export interface SendEmailResult {
+  status: SendEmailStatus;
+  /** Resend's email id when sent */
+  providerId?: string;
+  /** Why the send failed or was skipped */
+  error?: string;
+}
+
+/**
+ * Send one email through Resend. Never throws — failures come back as
+ * status 'failed' with the reason, and a missing RESEND_API_KEY as 'skipped'.
+ */
+export async function sendEmail(args: SendEmailArgs): Promise<SendEmailResult> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    return { status: 'skipped', error: 'RESEND_API_KEY missing' };
+  }
+
+  try {
+    const res = await fetch(RESEND_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: EMAIL_FROM,
+        to: args.to,
+        subject: args.subject,
+        html: args.html,
+        ...(args.replyTo ? { reply_to: args.replyTo } : {}),
+        ...(args.attachments?.length ? { attachments: args.attachments } : {}),
+      }),
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      return {
+        status: 'failed',
+        error: `Resend responded ${res.status}${text ? `: ${text.slice(0, 500)}` : ''}`,
+      };
+    }
+
+    const json = (await res.json().catch(() => null)) as { id?: string } | null;
+    return { status: 'sent', providerId: json?.id };
+  } catch (err) {
+    return {
+      status: 'failed',
+      error: err instanceof Error ? err.message : 'fetch failed',
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { escapeHtml, escapeAttr } from './escape';
+import type { RenderedEmail } from './send-lead';
+import type { AlertDelivery } from '@/types/alert';
+
+export interface AlertEmailItem {
+  message: string;
+  triggered_at: string;
+}
+
+const DIGEST_TITLES: Record<AlertDelivery, string> = {
+  immediate: 'Scan alerts',
+  daily: 'Your daily alert digest',
+  weekly: 'Your weekly alert digest',
+};
+
+/** Subjects are plain text, but target names must not smuggle in line breaks. */
+function singleLine(s: string): string {
+  return s.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * One email for a recipient's due alerts: a single immediate alert reads as
+ * that alert, anything else as a list (a digest, or several alerts that
+ * fired in the same run).
+ */
+export function renderAlertEmail(
+  delivery: AlertDelivery,
+  items: AlertEmailItem[],
+  appUrl: string
+): RenderedEmail {
+  const single = delivery === 'immediate' && items.length === 1;
+  const subject = singleLine(
+    single ? `Alert: ${items[0].message}` : `${DIGEST_TITLES[delivery]} (${items.length})`
+  );
+
+  const alertsUrl = `${appUrl.replace(/\/+$/, '')}/app/alerts`;
+  const rows = items
+    .map(
+      (item) =>
+        `<li style="margin: 0 0 12px;">${escapeHtml(item.message)}<br><span style="font-size: 13px; color: #666;">${escapeHtml(formatWhen(item.triggered_at))}</span></li>`
+    )
+    .join('\n');
+
+  const html = `<!doctype html>
+<html><body style="font-family: system-ui, sans-serif; max-width: 560px; margin: 0 auto; padding: 24px; color: #111;">
+<h1 style="font-size: 20px; margin: 0 0 16px;">${single ? 'Scan alert' : DIGEST_TITLES[delivery]}</h1>
+<ul style="margin: 0 0 24px; padding-left: 20px;">
+${rows}
+</ul>
+<p style="margin: 0; font-size: 13px; color: #666;">Manage your alert rules at <a href="${escapeAttr(alertsUrl)}">${escapeHtml(alertsUrl)}</a>.</p>
+</body></html>`;
+
+  return { subject, html };
+}
@@ -1,3 +1,6 @@
+import { escapeHtml, escapeAttr } from './escape';
+import { sendEmail } from './resend';
+
 export interface SendInviteArgs {
   to: string;
   orgName: string;
@@ -17,16 +20,8 @@ export function buildAcceptUrl(baseUrl: string, token: string): string {
 export async function sendInviteEmail(
   args: SendInviteArgs
 ): Promise<SendInviteResult> {
-  const apiKey = process.env.RESEND_API_KEY;
   const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? '';
 
-  if (!apiKey) {
-    console.warn(
-      '[sendInviteEmail] RESEND_API_KEY missing — skipping email send'
-    );
-    return { sent: false };
-  }
-
   const acceptUrl = buildAcceptUrl(appUrl, args.token);
   const subject = `${args.inviterName} invited you to ${args.orgName} on OneSign – Lynx`;
   const html = renderInviteEmail({
@@ -35,32 +30,16 @@ export async function sendInviteEmail(
     acceptUrl,
   });
 
-  try {
-    const res = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from: 'OneSign – Lynx <noreply@onesignanddigital.com>',
-        to: args.to,
-        subject,
-        html,
-      }),
-    });
+  const result = await sendEmail({ to: args.to, subject, html });
 
-    if (!res.ok) {
-      console.error(
-        `[sendInviteEmail] Resend non-ok status ${res.status} ${await res.text().catch(() => '')}`
-      );
-      return { sent: false };
-    }
-    return { sent: true };
-  } catch (err) {
-    console.error('[sendInviteEmail] fetch failed', err);
-    return { sent: false };
+  if (result.status === 'skipped') {
+    console.warn(
+      '[sendInviteEmail] RESEND_API_KEY missing — skipping email send'
+    );
+  } else if (result.status === 'failed') {
+    console.error(`[sendInviteEmail] ${result.error}`);
   }
+  return { sent: result.status === 'sent' };
 }
 
 function renderInviteEmail(args: {
@@ -80,16 +59,3 @@ function renderInviteEmail(args: {
 <p style="margin: 0; word-break: break-all; font-size: 13px; color: #666;">${escapeHtml(args.acceptUrl)}</p>
 </body></html>`;
 }
-
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
-function escapeAttr(s: string): string {
-  return s.replace(/"/g, '&quot;').replace(/</g, '&lt;');
-}
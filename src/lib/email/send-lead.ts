@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LEAD_ROUTING_DEFAULTS } from '@/lib/constants';
+import { escapeHtml, escapeMultiline } from './escape';
+import { sendEmail, type SendEmailResult } from './resend';
+import type {
+  BioLeadAutoresponder,
+  BioLeadRouting,
+  BioFormEmailKind,
+} from '@/types/bio';
+
+export interface LeadDetails {
+  pageTitle: string;
+  formType: 'contact_form' | 'review_feedback';
+  name: string;
+  email: string;
+  message: string;
+  phone?: string | null;
+  subject?: string | null;
+  rating?: number | null;
+}
+
+interface EmailOutcome {
+  kind: BioFormEmailKind;
+  recipient: string;
+  result: SendEmailResult;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+export interface DeliverLeadEmailsArgs {
+  page: {
+    id: string;
+    owner_id: string;
+    contact_email: string | null;
+    lead_routing: BioLeadRouting | null;
+  };
+  blockId: string;
+  submissionId: string | null;
+  lead: LeadDetails;
+}
+
+/**
+ * Work out who gets notified about a submission to `blockId`.
+ *
+ * A block override replaces the page-wide list; an empty result falls back
+ * to `fallback` (the page's contact email or the owner's login email).
+ */
+export function resolveLeadRecipients(
+  routing: BioLeadRouting | null,
+  blockId: string,
+  fallback: string | null
+): string[] {
+  const override = routing?.block_overrides?.[blockId];
+  const list = override && override.length > 0 ? override : routing?.recipients ?? [];
+  if (list.length > 0) return Array.from(new Set(list));
+  return fallback ? [fallback] : [];
+}
+
+/** Replace {{name}} and {{page}} in autoresponder text. Output is NOT escaped. */
+export function fillLeadPlaceholders(
+  template: string,
+  vars: { name: string; page: string }
+): string {
+  return template.replace(/\{\{\s*(name|page)\s*\}\}/g, (_, key: 'name' | 'page') => vars[key]);
+}
+
+/** Subjects are plain text, but user input must not smuggle in line breaks. */
+function singleLine(s: string): string {
+  return s.replace(/[\r\n]+/g, ' ').trim();
+}
+
+export function renderLeadNotificationEmail(lead: LeadDetails): RenderedEmail {
+  const isFeedback = lead.formType === 'review_feedback';
+  const subject = singleLine(
+    isFeedback
+      ? `New private feedback (${lead.rating}★) from ${lead.name}`
+      : lead.subject
+        ? `New form submission: ${lead.subject}`
+        : `New contact form submission from ${lead.name}`
+  );
+
+  const row = (label: string, value: string) =>
+    `<p style="margin: 0 0 8px;"><strong>${label}:</strong> ${escapeHtml(value)}</p>`;
+
+  const html = `<!doctype html>
+<html><body style="font-family: system-ui, sans-serif; max-width: 560px; margin: 0 auto; padding: 24px; color: #111;">
+<h1 style="font-size: 20px; margin: 0 0 4px;">${isFeedback ? 'New private feedback' : 'New contact form submission'}</h1>
+<p style="margin: 0 0 16px; font-size: 13px; color: #666;">From your page ${escapeHtml(lead.pageTitle)}</p>
+${isFeedback && lead.rating != null ? row('Rating', `${lead.rating} / 5`) : ''}
+${row('Name', lead.name)}
+${row('Email', lead.email)}
+${lead.phone ? row('Phone', lead.phone) : ''}
+${lead.subject ? row('Subject', lead.subject) : ''}
+<p style="margin: 16px 0 8px;"><strong>Message:</strong></p>
+<p style="margin: 0;">${escapeMultiline(lead.message)}</p>
+</body></html>`;
+
+  return { subject, html };
+}
+
+export function renderAutoresponderEmail(
+  autoresponder: Pick<BioLeadAutoresponder, 'subject' | 'message'>,
+  vars: { name: string; page: string }
+): RenderedEmail {
+  const subject = singleLine(fillLeadPlaceholders(autoresponder.subject, vars));
+  const message = fillLeadPlaceholders(autoresponder.message, vars);
+
+  const html = `<!doctype html>
+<html><body style="font-family: system-ui, sans-serif; max-width: 560px; margin: 0 auto; padding: 24px; color: #111;">
+<p style="margin: 0 0 16px;">${escapeMultiline(message)}</p>
+<p style="margin: 0; font-size: 13px; color: #666;">You're receiving this because you contacted ${escapeHtml(vars.page)}.</p>
+</body></html>`;
+
+  return { subject, html };
+}
+
+/**
+ * Send the notification(s) and optional autoresponder for a new submission,
+ * recording every attempt in bio_form_email_log.
+ *
+ * Never throws — the form route fires and forgets, and failures surface in
+ * the page's delivery log instead.
+ */
+export async function deliverLeadEmails(
+  supabase: SupabaseClient,
+  args: DeliverLeadEmailsArgs
+): Promise<void> {
+  try {
+    const { page, lead } = args;
+    const routing = page.lead_routing;
+
+    let fallback = page.contact_email;
+    if (!fallback && (routing?.recipients.length ?? 0) === 0) {
+      const { data: authUser } = await supabase.auth.admin.getUserById(page.owner_id);
+      fallback = authUser?.user?.email ?? null;
+    }
+
+    const recipients = resolveLeadRecipients(routing, args.blockId, fallback);
+    const notification = renderLeadNotificationEmail(lead);
+
+    const send = async (
+      kind: BioFormEmailKind,
+      recipient: string,
+      email: RenderedEmail & { replyTo?: string }
+    ): Promise<EmailOutcome> => ({
+      kind,
+      recipient,
+      result: await sendEmail({ to: recipient, ...email }),
+    });
+
+    const sends = recipients.map((recipient) =>
+      send('notification', recipient, { ...notification, replyTo: lead.email })
+    );
+
+    const autoresponder = routing?.autoresponder;
+    if (autoresponder?.enabled) {
+      const reply = renderAutoresponderEmail(autoresponder, {
+        name: lead.name,
+        page: lead.pageTitle,
+      });
+      sends.push(send('autoresponder', lead.email, reply));
+    }
+
+    const outcomes = await Promise.all(sends);
+    if (outcomes.length === 0) return;
+
+    const { error } = await supabase.from('bio_form_email_log').insert(
+      outcomes.map(({ kind, recipient, result }) => ({
+        page_id: page.id,
+        submission_id: args.submissionId,
+        kind,
+        recipient,
+        status: result.status,
+        provider_id: result.providerId ?? null,
+        error: result.error?.slice(0, LEAD_ROUTING_DEFAULTS.ERROR_LIMIT) ?? null,
+      }))
+    );
+    if (error) {
+      console.error('[deliverLeadEmails] failed to write email log:', error.message);
+    }
+
+    for (const { kind, recipient, result } of outcomes) {
+      if (result.status === 'failed') {
+        console.error(`[deliverLeadEmails] ${kind} to ${recipient} failed: ${result.error}`);
+      }
+    }
+  } catch (err) {
+    console.error('[deliverLeadEmails] unexpected error', err);
+  }
+}
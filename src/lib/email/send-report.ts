@@ -0,0 +1,37 @@
+import { escapeHtml, escapeAttr } from './escape';
+import type { RenderedEmail } from './send-lead';
+import type { ReportContent } from '@/lib/reports/content';
+
+/** Subjects are plain text, but target names must not smuggle in line breaks. */
+function singleLine(s: string): string {
+  return s.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * The email a monthly report PDF is attached to: the headline numbers, so
+ * the report is useful before it's opened, and a link to the analytics.
+ */
+export function renderReportEmail(content: ReportContent, appUrl: string): RenderedEmail {
+  const subject = singleLine(`${content.title}: ${content.subtitle}`);
+
+  const analyticsUrl = `${appUrl.replace(/\/+$/, '')}/app/analytics`;
+  const rows = content.metrics
+    .map(
+      (metric) =>
+        `<tr><td style="padding: 4px 16px 4px 0; color: #666;">${escapeHtml(metric.label)}</td><td style="padding: 4px 0; font-weight: 600;">${metric.value.toLocaleString('en-GB')}</td></tr>`
+    )
+    .join('\n');
+
+  const html = `<!doctype html>
+<html><body style="font-family: system-ui, sans-serif; max-width: 560px; margin: 0 auto; padding: 24px; color: #111;">
+<h1 style="font-size: 20px; margin: 0 0 4px;">${escapeHtml(content.title)}</h1>
+<p style="margin: 0 0 16px; color: #666;">${escapeHtml(content.subtitle)}</p>
+<table style="border-collapse: collapse; margin: 0 0 16px;">
+${rows}
+</table>
+<p style="margin: 0 0 24px;">The full report, with daily figures and breakdowns, is attached as a PDF.</p>
+<p style="margin: 0; font-size: 13px; color: #666;">See live analytics at <a href="${escapeAttr(analyticsUrl)}">${escapeHtml(analyticsUrl)}</a>.</p>
+</body></html>`;
+
+  return { subject, html };
+}
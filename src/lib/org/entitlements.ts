@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OrganizationPlan } from '@/types/organization';
+
+/**
+ * Plan entitlements — the single table of what each plan may do.
+ *
+ * Routes enforce these server-side; the UI reads them from
+ * /api/org/current-plan (or receives them from a server page) to hide or
+ * lock what the plan doesn't include. Adding a tier means adding a row
+ * here and to the organization_plan enum — nothing else should compare
+ * plan names.
+ */
+
+/** On/off capabilities */
+export type PlanFeature = 'custom_domains';
+
+/** Numeric caps; `null` means unlimited */
+export type PlanLimit =
+  | 'bio_pages'
+  | 'links_per_page'
+  | 'blocks_per_page'
+  | 'gallery_images'
+  | 'seats'
+  | 'nfc_carriers';
+
+export type PlanLimits = Record<PlanLimit, number | null>;
+
+export interface PlanEntitlements {
+  features: Record<PlanFeature, boolean>;
+  limits: PlanLimits;
+}
+
+export const PLAN_ENTITLEMENTS: Record<OrganizationPlan, PlanEntitlements> = {
+  free: {
+    features: {
+      custom_domains: false,
+    },
+    limits: {
+      bio_pages: 5,
+      links_per_page: 10,
+      blocks_per_page: 50,
+      gallery_images: 12,
+      seats: 3,
+      nfc_carriers: 0,
+    },
+  },
+  pro: {
+    features: {
+      custom_domains: true,
+    },
+    limits: {
+      bio_pages: null,
+      links_per_page: 10,
+      blocks_per_page: 50,
+      gallery_images: 12,
+      seats: null,
+      nfc_carriers: null,
+    },
+  },
+};
+
+type PlanSource = OrganizationPlan | { plan: OrganizationPlan } | null | undefined;
+
+function planOf(source: PlanSource): OrganizationPlan {
+  const plan = typeof source === 'string' ? source : source?.plan;
+  // Unknown plans get the free row — a lookup problem never grants more
+  return plan && plan in PLAN_ENTITLEMENTS ? plan : 'free';
+}
+
+export function getPlanEntitlements(source: PlanSource): PlanEntitlements {
+  return PLAN_ENTITLEMENTS[planOf(source)];
+}
+
+export function orgHasFeature(source: PlanSource, feature: PlanFeature): boolean {
+  return getPlanEntitlements(source).features[feature];
+}
+
+export function getPlanLimit(source: PlanSource, limit: PlanLimit): number | null {
+  return getPlanEntitlements(source).limits[limit];
+}
+
+/** True when `currentCount` items leave room for one more */
+export function isWithinLimit(
+  source: PlanSource,
+  limit: PlanLimit,
+  currentCount: number
+): boolean {
+  const max = getPlanLimit(source, limit);
+  return max === null || currentCount < max;
+}
+
+/**
+ * Like isWithinLimit, but only counts usage when the limit is finite and
+ * non-zero — unlimited and not-included never cost a query.
+ */
+export async function hasRoomFor(
+  source: PlanSource,
+  limit: PlanLimit,
+  countUsed: () => Promise<number>
+): Promise<boolean> {
+  const max = getPlanLimit(source, limit);
+  if (max === null) return true;
+  if (max <= 0) return false;
+  return (await countUsed()) < max;
+}
+
+/**
+ * The largest value of a limit across all plans (null if any plan is
+ * unlimited). Validation schemas use it as their absolute ceiling; routes
+ * then apply the org's own limit.
+ */
+export function planLimitCeiling(limit: PlanLimit): number | null {
+  let ceiling = 0;
+  for (const entitlements of Object.values(PLAN_ENTITLEMENTS)) {
+    const value = entitlements.limits[limit];
+    if (value === null) return null;
+    ceiling = Math.max(ceiling, value);
+  }
+  return ceiling;
+}
+
+/**
+ * Plan of a specific org, for routes that act on an org's resource (a bio
+ * page, an API key's org) rather than the caller's active org. Falls back
+ * to 'free' on any error, like getActiveOrgPlan.
+ */
+export async function getOrgPlan(
+  client: SupabaseClient,
+  orgId: string | null | undefined
+): Promise<OrganizationPlan> {
+  if (!orgId) return 'free';
+  try {
+    const { data, error } = await client
+      .from('organizations')
+      .select('plan')
+      .eq('id', orgId)
+      .single();
+
+    if (error || !data) return 'free';
+    return planOf(data.plan as OrganizationPlan);
+  } catch {
+    return 'free';
+  }
+}
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Seats an org has committed, for the plan's seats limit: current members
+ * plus invites that are still pending and unexpired, so a free org can't
+ * queue up more invites than it has room to accept.
+ */
+export async function countSeatsInUse(
+  client: SupabaseClient,
+  orgId: string
+): Promise<number> {
+  const [members, invites] = await Promise.all([
+    client
+      .from('organization_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('org_id', orgId),
+    client
+      .from('organization_invites')
+      .select('id', { count: 'exact', head: true })
+      .eq('org_id', orgId)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString()),
+  ]);
+
+  return (members.count ?? 0) + (invites.count ?? 0);
+}
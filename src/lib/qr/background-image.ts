@@ -0,0 +1,66 @@
+/**
+ * Background images for styled QR codes (background_mode 'image').
+ *
+ * Uploads arrive inline in the style as data URLs, are re-encoded to a
+ * bounded JPEG (which also rejects anything sharp can't decode) and
+ * stored in the qr-logos bucket under the owner's folder. Files are
+ * named by content hash, so a bulk batch sharing one image stores it
+ * once. Renderers get them back as data URLs to embed in the SVG.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const BUCKET = 'qr-logos';
+
+/** Longest edge of the stored image, in pixels */
+const MAX_EDGE = 1024;
+
+/**
+ * Decode and normalise an uploaded data URL. Null if it isn't an image
+ * sharp can read.
+ */
+export async function prepareBackgroundImage(dataUrl: string): Promise<Buffer | null> {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  try {
+    return await sharp(Buffer.from(base64, 'base64'))
+      .rotate()
+      .resize(MAX_EDGE, MAX_EDGE, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/** Store a prepared image; returns its storage path, or null on failure */
+export async function uploadBackgroundImage(
+  supabase: SupabaseClient,
+  ownerId: string,
+  image: Buffer
+): Promise<string | null> {
+  const hash = createHash('sha256').update(image).digest('hex').slice(0, 32);
+  const path = `${ownerId}/backgrounds/${hash}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, image, { contentType: 'image/jpeg', upsert: true });
+  if (error) {
+    console.error('Background image upload failed:', error.message);
+    return null;
+  }
+  return path;
+}
+
+/** A stored image as a data URL for embedding; null if it can't be read */
+export async function loadBackgroundImage(
+  supabase: SupabaseClient,
+  path: string | null | undefined
+): Promise<string | null> {
+  if (!path) return null;
+  const { data, error } = await supabase.storage.from(BUCKET).download(path);
+  if (error || !data) return null;
+  return `data:image/jpeg;base64,${Buffer.from(await data.arrayBuffer()).toString('base64')}`;
+}
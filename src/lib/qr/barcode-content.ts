@@ -0,0 +1,97 @@
+/**
+ * What the non-QR code types can encode.
+ *
+ * Kept apart from the bwip-js builders in barcodes.ts so forms can check
+ * a GTIN or a Code 128 value without pulling the encoder into the page.
+ */
+
+import { SYMBOLOGY_INFO } from '@/lib/constants';
+import type { BarcodeSymbology, CodeSymbology } from '@/types/qr';
+
+export interface BarcodeContentResult {
+  isValid: boolean;
+  error?: string;
+  /** The value to encode: GTINs get their check digit appended */
+  normalized?: string;
+}
+
+// Code 128 and the 2D codes carry text; keep it to printable ASCII so the
+// same value round-trips on every scanner
+const PRINTABLE_ASCII = /^[\x20-\x7E]+$/;
+
+/** GS1 mod-10 check digit for the digits of a GTIN without its check digit */
+export function gtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3, 1, … from the rightmost digit
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function validateGtin(content: string, length: number, label: string): BarcodeContentResult {
+  const digits = content.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) {
+    return { isValid: false, error: `${label} codes contain digits only` };
+  }
+  if (digits.length === length - 1) {
+    return { isValid: true, normalized: digits + gtinCheckDigit(digits) };
+  }
+  if (digits.length !== length) {
+    return { isValid: false, error: `${label} needs ${length - 1} or ${length} digits` };
+  }
+  if (Number(digits[length - 1]) !== gtinCheckDigit(digits.slice(0, -1))) {
+    return { isValid: false, error: `Invalid ${label} check digit` };
+  }
+  return { isValid: true, normalized: digits };
+}
+
+function validateText(content: string, maxLength: number): BarcodeContentResult {
+  if (!content) return { isValid: false, error: 'Content is required' };
+  if (content.length > maxLength) {
+    return { isValid: false, error: `Content must be at most ${maxLength} characters` };
+  }
+  if (!PRINTABLE_ASCII.test(content)) {
+    return { isValid: false, error: 'Content may only contain printable ASCII characters' };
+  }
+  return { isValid: true, normalized: content };
+}
+
+/** Whether a code type is one of the bwip-js barcodes rather than a QR code */
+export function isBarcodeSymbology(symbology: CodeSymbology): symbology is BarcodeSymbology {
+  return symbology !== 'qr';
+}
+
+/** Whether a code type can encode a managed /r/ URL (GTINs can't) */
+export function symbologyCarriesUrl(symbology: CodeSymbology): boolean {
+  return SYMBOLOGY_INFO[symbology].carriesUrl;
+}
+
+/** The quiet zone actually drawn, in modules */
+export function barcodeQuietZone(symbology: BarcodeSymbology, quietZone: number): number {
+  return Math.max(quietZone, SYMBOLOGY_INFO[symbology].minQuietZone);
+}
+
+/**
+ * Check what a barcode will encode. URL content is checked with the URL
+ * validators first, as for QR codes; this checks it fits the symbology.
+ */
+export function validateBarcodeContent(
+  symbology: BarcodeSymbology,
+  content: string
+): BarcodeContentResult {
+  const value = content.trim();
+  switch (symbology) {
+    case 'ean13':
+      return validateGtin(value, 13, 'EAN-13');
+    case 'upca':
+      return validateGtin(value, 12, 'UPC-A');
+    case 'code128':
+      // Beyond ~80 characters the symbol is too wide to print or scan
+      return validateText(value, 80);
+    case 'datamatrix':
+    case 'pdf417':
+      return validateText(value, 1000);
+  }
+}
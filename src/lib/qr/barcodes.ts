@@ -0,0 +1,75 @@
+/**
+ * SVG builders for the non-QR code types (Code 128, EAN-13, UPC-A,
+ * Data Matrix, PDF417).
+ *
+ * Encoding is done by bwip-js; each symbology has a spec below with its
+ * render options. The output is a plain SVG (bars, modules and
+ * human-readable digits as paths) so it goes through the same svgToPng /
+ * svgToPdf exporters as QR codes. Only the colours and quiet zone of a
+ * QRStyleConfig apply — shapes, error correction and logos are QR-only.
+ */
+
+// The platform-neutral build: no canvas or Buffer, so it runs in the
+// browser preview and in server routes alike
+import { toSVG } from 'bwip-js/generic';
+import type { BarcodeSymbology, QRStyleConfig } from '@/types/qr';
+import type { SVGOptions } from './svg-builder';
+import { barcodeQuietZone, validateBarcodeContent } from './barcode-content';
+import { svgAspectRatio } from './exporters/svg';
+
+interface SymbologySpec {
+  /** bwip-js encoder id */
+  bcid: string;
+  /** bwip-js units per module; padding is given in these units */
+  moduleUnits: number;
+  /** Linear code: one row of bars with the value printed underneath */
+  linear: boolean;
+}
+
+const SPECS: Record<BarcodeSymbology, SymbologySpec> = {
+  code128: { bcid: 'code128', moduleUnits: 1, linear: true },
+  ean13: { bcid: 'ean13', moduleUnits: 1, linear: true },
+  upca: { bcid: 'upca', moduleUnits: 1, linear: true },
+  datamatrix: { bcid: 'datamatrix', moduleUnits: 2, linear: false },
+  pdf417: { bcid: 'pdf417', moduleUnits: 1, linear: false },
+};
+
+/**
+ * Build an SVG for a barcode. Throws if `data` can't be encoded — run
+ * validateBarcodeContent first for user input.
+ */
+export function buildBarcodeSVG(
+  symbology: BarcodeSymbology,
+  data: string,
+  style: Pick<QRStyleConfig, 'foregroundColor' | 'backgroundColor' | 'quietZone'>,
+  options: SVGOptions = {}
+): string {
+  const { includeXmlDeclaration = true } = options;
+  const spec = SPECS[symbology];
+
+  const content = validateBarcodeContent(symbology, data);
+  if (!content.isValid || !content.normalized) {
+    throw new Error(content.error ?? 'Invalid barcode content');
+  }
+
+  const padding = barcodeQuietZone(symbology, style.quietZone) * spec.moduleUnits;
+
+  const svg = toSVG({
+    bcid: spec.bcid,
+    text: content.normalized,
+    includetext: spec.linear,
+    barcolor: style.foregroundColor.replace('#', ''),
+    textcolor: style.foregroundColor.replace('#', ''),
+    backgroundcolor: style.backgroundColor.replace('#', ''),
+    paddingwidth: padding,
+    // Linear codes only need a token margin above and below the bars
+    paddingheight: spec.linear ? Math.ceil(padding / 2) : padding,
+  });
+
+  const sized = options.size
+    ? svg.replace('<svg ', `<svg width="${options.size}" height="${Math.round(options.size * svgAspectRatio(svg))}" `)
+    : svg;
+
+  const xmlDecl = includeXmlDeclaration ? '<?xml version="1.0" encoding="UTF-8"?>\n' : '';
+  return `${xmlDecl}${sized.trim()}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * Bulk QR creation helpers
+ *
+ * CSV parsing and small utilities shared by /api/qr/bulk (create) and
+ * /api/qr/bulk/export (ZIP download). Pure functions — safe to import from
+ * the dashboard for client-side previews as well.
+ */
+
+/** One data row from a bulk-create CSV, before validation. */
+export interface BulkCsvRow {
+  /** 1-based line number in the uploaded file (header is line 1) */
+  line: number;
+  name: string;
+  destination_url: string;
+  slug?: string;
+}
+
+export type BulkCsvParseResult =
+  | { ok: true; rows: BulkCsvRow[] }
+  | { ok: false; error: string };
+
+/** Accepted header spellings, normalised to lower-case with spaces → underscores. */
+const HEADER_ALIASES: Record<string, keyof Omit<BulkCsvRow, 'line'>> = {
+  name: 'name',
+  title: 'name',
+  destination_url: 'destination_url',
+  destination: 'destination_url',
+  url: 'destination_url',
+  link: 'destination_url',
+  slug: 'slug',
+};
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180: quoted fields, escaped
+ * quotes, embedded commas and newlines). Accepts CRLF or LF line endings
+ * and strips a leading UTF-8 BOM, which Excel adds on export.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a bulk-create CSV. The first line must be a header naming at least
+ * `name` and `destination_url` (aliases: url, destination, link); `slug` is
+ * optional. Blank lines are skipped. Column order doesn't matter.
+ */
+export function parseBulkCsv(text: string): BulkCsvParseResult {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    return { ok: false, error: 'CSV is empty' };
+  }
+
+  const header = records[0].map((h) => h.trim().toLowerCase().replace(/\s+/g, '_'));
+  const columns = new Map<keyof Omit<BulkCsvRow, 'line'>, number>();
+  header.forEach((h, index) => {
+    const key = HEADER_ALIASES[h];
+    if (key && !columns.has(key)) columns.set(key, index);
+  });
+
+  if (!columns.has('name') || !columns.has('destination_url')) {
+    return {
+      ok: false,
+      error: 'CSV header must include "name" and "destination_url" columns',
+    };
+  }
+
+  const cell = (record: string[], key: keyof Omit<BulkCsvRow, 'line'>) => {
+    const index = columns.get(key);
+    return index === undefined ? '' : (record[index] ?? '').trim();
+  };
+
+  const rows: BulkCsvRow[] = [];
+  for (let i = 1; i < records.length; i++) {
+    const record = records[i];
+    if (record.every((f) => f.trim() === '')) continue;
+
+    const slug = cell(record, 'slug');
+    rows.push({
+      line: i + 1,
+      name: cell(record, 'name'),
+      destination_url: cell(record, 'destination_url'),
+      ...(slug ? { slug } : {}),
+    });
+  }
+
+  if (rows.length === 0) {
+    return { ok: false, error: 'CSV has no data rows' };
+  }
+
+  return { ok: true, rows };
+}
+
+/**
+ * Map over `items` with at most `limit` promises in flight. Results keep
+ * input order. Used to bound DNS lookups and inserts for large batches.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, () => worker()),
+  );
+  return results;
+}
+
+/** Filesystem-safe base name for a QR's exported files: `<name>-<slug>`. */
+export function bulkFileBaseName(name: string, slug: string | null, fallback: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+  return [base, slug].filter(Boolean).join('-') || fallback;
+}
+
+/** Quote a value for CSV output if it contains a delimiter, quote or newline. */
+export function csvEscape(value: string | number | null | undefined): string {
+  const s = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,23 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Number of live QR codes in an org carrying an NFC chip (carrier 'nfc' or
+ * 'both'), for the plan's nfc_carriers limit. `excludeId` leaves out the
+ * code being edited. A failed count reads as 0 rather than blocking.
+ */
+export async function countNfcCarriers(
+  client: SupabaseClient,
+  orgId: string,
+  excludeId?: string
+): Promise<number> {
+  let query = client
+    .from('qr_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', orgId)
+    .neq('carrier', 'qr')
+    .is('deleted_at', null);
+  if (excludeId) query = query.neq('id', excludeId);
+
+  const { count } = await query;
+  return count ?? 0;
+}
@@ -0,0 +1,230 @@
+/**
+ * vCards served by managed contact codes (payload_type 'contact').
+ *
+ * The card is built when the code is scanned, from a brand kit person or
+ * a bio page's contact fields, so edits reach every printed code. The
+ * photo (headshot or bio avatar) is embedded, downscaled to keep the
+ * .vcf small enough for phones to import in one go. Encoded photos are
+ * cached per instance, keyed on the row's updated_at, so repeat scans
+ * skip the storage download and sharp.
+ */
+
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ContactSource, VCardPayload } from '@/types/qr';
+import type { BrandPerson, BrandProfile } from '@/types/brand';
+import type { BioLinkPage } from '@/types/bio';
+import { buildVCard, type VCardPhoto } from './payloads';
+
+/** Edge length of the embedded photo, in pixels */
+const PHOTO_SIZE = 256;
+
+const photoCache = new Map<string, VCardPhoto | null>();
+/** Each entry is a 256px JPEG, roughly 20–30 KB as base64 */
+const PHOTO_CACHE_MAX_ENTRIES = 200;
+
+export interface ContactCard {
+  vcf: string;
+  /** Display name, used for the download filename */
+  name: string;
+}
+
+/** The qr_codes columns a contact source resolves to */
+export interface ContactColumns {
+  contact_person_id: string | null;
+  contact_bio_page_id: string | null;
+  /** Where the code redirects if the source is later deleted */
+  destination_url: string;
+}
+
+/** "Jo van Bloggs" → first "Jo", last "van Bloggs" */
+export function splitName(fullName: string): { first_name: string; last_name: string } {
+  const [first = '', ...rest] = fullName.trim().split(/\s+/);
+  return { first_name: first, last_name: rest.join(' ') };
+}
+
+export function personToVCard(
+  person: Pick<BrandPerson, 'full_name' | 'role' | 'email' | 'phone' | 'mobile' | 'address'>,
+  profile: Pick<BrandProfile, 'name' | 'website'>
+): VCardPayload {
+  return {
+    type: 'vcard',
+    version: '3.0',
+    ...splitName(person.full_name),
+    organization: profile.name,
+    title: person.role ?? undefined,
+    email: person.email ?? undefined,
+    phone: person.phone ?? undefined,
+    mobile: person.mobile ?? undefined,
+    website: profile.website ?? undefined,
+    // Free-text address: kept whole in the street component
+    street: person.address ?? undefined,
+  };
+}
+
+export function bioPageToVCard(
+  page: Pick<
+    BioLinkPage,
+    'title' | 'company' | 'job_title' | 'contact_email' | 'contact_phone' | 'contact_website' | 'location'
+  >,
+  pageUrl: string
+): VCardPayload {
+  return {
+    type: 'vcard',
+    version: '3.0',
+    ...splitName(page.title),
+    organization: page.company ?? undefined,
+    title: page.job_title ?? undefined,
+    email: page.contact_email ?? undefined,
+    phone: page.contact_phone ?? undefined,
+    website: page.contact_website || pageUrl,
+    city: page.location ?? undefined,
+  };
+}
+
+function bioPageUrl(slug: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || ''}/p/${slug}`;
+}
+
+/** Square JPEG of the image for embedding; null if it can't be read */
+export async function toVCardPhoto(image: Buffer): Promise<VCardPhoto | null> {
+  try {
+    const jpeg = await sharp(image)
+      .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: 'cover' })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return { mediaType: 'image/jpeg', base64: jpeg.toString('base64') };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Photo for the card, encoded once per upload. Uploads overwrite the same
+ * path, so `version` (the row's updated_at) is part of the key. Failed
+ * downloads are not cached.
+ */
+async function loadPhoto(
+  supabase: SupabaseClient,
+  bucket: string,
+  path: string | null,
+  version: string
+): Promise<VCardPhoto | null> {
+  if (!path) return null;
+  const key = `${bucket}/${path}@${version}`;
+  const cached = photoCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data) return null;
+  const photo = await toVCardPhoto(Buffer.from(await data.arrayBuffer()));
+
+  if (photoCache.size >= PHOTO_CACHE_MAX_ENTRIES) photoCache.clear();
+  photoCache.set(key, photo);
+  return photo;
+}
+
+/**
+ * Check a contact source belongs to the org and return the columns to
+ * store on the code. Null if it doesn't exist, is deleted or belongs to
+ * another org.
+ */
+export async function resolveContactSource(
+  supabase: SupabaseClient,
+  source: ContactSource,
+  orgId: string
+): Promise<ContactColumns | null> {
+  if ('person_id' in source) {
+    const { data: person } = await supabase
+      .from('brand_people')
+      .select('id, brand_profile_id')
+      .eq('id', source.person_id)
+      .single();
+    if (!person) return null;
+
+    const { data: profile } = await supabase
+      .from('brand_profiles')
+      .select('org_id, website, deleted_at')
+      .eq('id', person.brand_profile_id)
+      .single();
+    if (!profile || profile.org_id !== orgId || profile.deleted_at) return null;
+
+    return {
+      contact_person_id: person.id,
+      contact_bio_page_id: null,
+      destination_url: profile.website || process.env.NEXT_PUBLIC_APP_URL || '/',
+    };
+  }
+
+  const { data: page } = await supabase
+    .from('bio_link_pages')
+    .select('id, org_id, slug, deleted_at')
+    .eq('id', source.bio_page_id)
+    .single();
+  if (!page || page.org_id !== orgId || page.deleted_at) return null;
+
+  return {
+    contact_person_id: null,
+    contact_bio_page_id: page.id,
+    destination_url: bioPageUrl(page.slug),
+  };
+}
+
+/**
+ * Build the vCard for a contact code. Null when its source has been
+ * deleted or its bio page unpublished, so the caller can fall back to
+ * destination_url.
+ */
+export async function loadContactCard(
+  supabase: SupabaseClient,
+  qr: { contact_person_id: string | null; contact_bio_page_id: string | null }
+): Promise<ContactCard | null> {
+  if (qr.contact_person_id) {
+    const { data: person } = await supabase
+      .from('brand_people')
+      .select('*')
+      .eq('id', qr.contact_person_id)
+      .single();
+    if (!person) return null;
+
+    const { data: profile } = await supabase
+      .from('brand_profiles')
+      .select('name, website, deleted_at')
+      .eq('id', person.brand_profile_id)
+      .single();
+    if (!profile || profile.deleted_at) return null;
+
+    const photo = await loadPhoto(supabase, 'brand-assets', person.photo_storage_path, person.updated_at);
+    return {
+      vcf: buildVCard(personToVCard(person, profile), photo ?? undefined),
+      name: person.full_name,
+    };
+  }
+
+  if (qr.contact_bio_page_id) {
+    // Unpublished pages don't serve a card, as with the public page
+    const { data: page } = await supabase
+      .from('bio_link_pages')
+      .select('title, slug, company, job_title, contact_email, contact_phone, contact_website, location, avatar_storage_path, updated_at, deleted_at')
+      .eq('id', qr.contact_bio_page_id)
+      .eq('is_active', true)
+      .single();
+    if (!page || page.deleted_at) return null;
+
+    const photo = await loadPhoto(supabase, 'bio-avatars', page.avatar_storage_path, page.updated_at);
+    return {
+      vcf: buildVCard(bioPageToVCard(page, bioPageUrl(page.slug)), photo ?? undefined),
+      name: page.title,
+    };
+  }
+
+  return null;
+}
+
+/** Content-Disposition for a .vcf named after the contact */
+export function vcfContentDisposition(name: string): string {
+  const base = name.trim() || 'contact';
+  const ascii = base.replace(/[^\x20-\x7E]/g, '').replace(/["\\/]/g, '').trim() || 'contact';
+  return `attachment; filename="${ascii}.vcf"; filename*=UTF-8''${encodeURIComponent(`${base}.vcf`)}`;
+}
@@ -0,0 +1,225 @@
+/**
+ * QR code creation
+ *
+ * The create steps shared by POST /api/qr (dashboard session) and
+ * POST /api/v1/qr (API key): validation, the NFC plan gate, payload and
+ * contact resolution, barcode checks, the background image, the slug retry
+ * loop, styles and the audit log. Routes keep auth, rate limiting and the
+ * response shape.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OrganizationPlan } from '@/types/organization';
+import { validateUrlStrict } from '@/lib/security/url-validator-strict';
+import { createQRSchema } from '@/validations/qr';
+import { writeAuditLog } from '@/lib/audit';
+import { hasRoomFor } from '@/lib/org/entitlements';
+import { countNfcCarriers } from '@/lib/qr/carriers';
+import { isBarcodeSymbology, symbologyCarriesUrl, validateBarcodeContent } from '@/lib/qr/barcode-content';
+import { buildPayload } from '@/lib/qr/payloads';
+import { resolveContactSource, type ContactColumns } from '@/lib/qr/contact-card';
+import { carrierHasNfc, nfcRedirectUrl } from '@/lib/qr/medium';
+import { styleInputToUpdate } from '@/lib/qr/style';
+import { prepareBackgroundImage, uploadBackgroundImage } from '@/lib/qr/background-image';
+
+const MAX_SLUG_RETRIES = 3;
+
+export interface CreateQRCodeParams {
+  supabase: SupabaseClient;
+  /** User the code is owned by (the caller, or the API key's creator) */
+  ownerId: string;
+  /** Organisation the code is created in */
+  orgId: string;
+  /** Request body, validated against createQRSchema here */
+  input: unknown;
+  /** Plan that gates NFC carriers; only looked up when one is requested */
+  getPlan: () => Promise<OrganizationPlan>;
+  audit: {
+    ipAddress: string | null;
+    userAgent: string | null;
+    /** Extra fields recorded with the audit entry (e.g. api_key_id) */
+    details?: Record<string, unknown>;
+  };
+}
+
+export type CreateQRCodeResult =
+  | {
+      ok: true;
+      id: string;
+      slug: string | null;
+      redirect_url: string | null;
+      nfc_url: string | null;
+    }
+  | { ok: false; status: number; error: string; details?: unknown };
+
+/**
+ * Validate the input and create the QR code with its style.
+ *
+ * A slug supplied by the caller that's already taken is their error (409),
+ * not a retry; generated slugs are regenerated up to MAX_SLUG_RETRIES times.
+ */
+export async function createQRCode({
+  supabase,
+  ownerId,
+  orgId,
+  input,
+  getPlan,
+  audit,
+}: CreateQRCodeParams): Promise<CreateQRCodeResult> {
+  const parsed = createQRSchema.safeParse(input);
+  if (!parsed.success) {
+    return { ok: false, status: 400, error: 'Validation error', details: parsed.error.flatten() };
+  }
+
+  const { name, mode, symbology, destination_url, payload, contact, slug, carrier, analytics_enabled, style } = parsed.data;
+
+  // Plan gate: NFC carriers (carrier != 'qr') count against nfc_carriers
+  if (carrier !== 'qr') {
+    const plan = await getPlan();
+    const allowed = await hasRoomFor(plan, 'nfc_carriers', () =>
+      countNfcCarriers(supabase, orgId)
+    );
+    if (!allowed) {
+      return { ok: false, status: 403, error: 'pro_plan_required' };
+    }
+  }
+
+  // Structured payloads (vCard, Wi-Fi, …) are encoded as built here;
+  // destination_url stores that text so exporters read a single column.
+  // Contact codes take their fallback URL from the person or bio page.
+  // Otherwise validate the URL with DNS resolution (SSRF prevention);
+  // EAN-13 and UPC-A codes encode a GTIN instead of a URL and skip this.
+  let destination = destination_url ?? '';
+  let contactColumns: ContactColumns | null = null;
+  if (payload) {
+    destination = buildPayload(payload);
+    if (destination.length > 2048) {
+      return { ok: false, status: 400, error: 'Content is too long to fit in a QR code' };
+    }
+  } else if (contact) {
+    contactColumns = await resolveContactSource(supabase, contact, orgId);
+    if (!contactColumns) {
+      return { ok: false, status: 404, error: 'Contact not found' };
+    }
+    destination = contactColumns.destination_url;
+  } else if (symbologyCarriesUrl(symbology)) {
+    const urlValidation = await validateUrlStrict(destination);
+    if (!urlValidation.isValid) {
+      return { ok: false, status: 400, error: urlValidation.error ?? 'Invalid URL' };
+    }
+    destination = urlValidation.normalizedUrl ?? destination;
+  }
+
+  // Direct barcodes encode the destination itself — check it fits
+  if (mode === 'direct' && isBarcodeSymbology(symbology)) {
+    const content = validateBarcodeContent(symbology, destination);
+    if (!content.isValid) {
+      return { ok: false, status: 400, error: content.error ?? 'Invalid barcode content' };
+    }
+    destination = content.normalized ?? destination;
+  }
+
+  // Read the background image before creating anything
+  let backgroundImage: Buffer | null = null;
+  if (style?.background_image) {
+    backgroundImage = await prepareBackgroundImage(style.background_image);
+    if (!backgroundImage) {
+      return { ok: false, status: 400, error: 'Background image could not be read' };
+    }
+  }
+
+  // Generate slug and create QR code with retry logic for slug collisions
+  let finalSlug = slug;
+  let qr: { id: string } | null = null;
+
+  for (let attempt = 0; attempt < MAX_SLUG_RETRIES; attempt++) {
+    // Generate slug if managed mode and not provided (or after collision)
+    if (mode === 'managed' && !finalSlug) {
+      const { data: slugData, error: slugError } = await supabase
+        .rpc('generate_qr_unique_slug');
+
+      if (slugError) {
+        return { ok: false, status: 500, error: 'Failed to generate slug' };
+      }
+      finalSlug = slugData;
+    }
+
+    const { data: created, error: createError } = await supabase
+      .from('qr_codes')
+      .insert({
+        owner_id: ownerId,
+        org_id: orgId,
+        name,
+        mode,
+        symbology,
+        slug: mode === 'managed' ? finalSlug : null,
+        carrier,
+        destination_url: destination,
+        payload_type: contactColumns ? 'contact' : payload?.type ?? 'url',
+        payload: payload ?? null,
+        contact_person_id: contactColumns?.contact_person_id ?? null,
+        contact_bio_page_id: contactColumns?.contact_bio_page_id ?? null,
+        analytics_enabled: mode === 'managed' ? analytics_enabled : false,
+      })
+      .select('id')
+      .single();
+
+    if (createError) {
+      if (createError.code === '23505' && mode === 'managed') {
+        // A caller-supplied slug that's taken is their error, not a retry
+        if (slug) {
+          return { ok: false, status: 409, error: 'Slug is already taken' };
+        }
+        finalSlug = undefined;
+        continue;
+      }
+      console.error('Failed to create QR:', createError.message);
+      return { ok: false, status: 500, error: 'Failed to create QR code' };
+    }
+
+    qr = created;
+    break;
+  }
+
+  if (!qr) {
+    return { ok: false, status: 500, error: 'Failed to create QR code after multiple attempts' };
+  }
+
+  // Update style if provided
+  if (style && Object.keys(style).length > 0) {
+    const styleUpdate = styleInputToUpdate(style);
+    if (backgroundImage) {
+      styleUpdate.background_image_storage_path =
+        await uploadBackgroundImage(supabase, ownerId, backgroundImage);
+    }
+
+    if (Object.keys(styleUpdate).length > 0) {
+      await supabase
+        .from('qr_styles')
+        .update(styleUpdate)
+        .eq('qr_id', qr.id);
+    }
+  }
+
+  // Write audit log (fire-and-forget)
+  writeAuditLog({
+    qrId: qr.id,
+    actorId: ownerId,
+    action: 'created',
+    newValue: { name, mode, destination_url: destination, slug: finalSlug, ...audit.details },
+    ipAddress: audit.ipAddress,
+    userAgent: audit.userAgent,
+  });
+
+  const redirectUrl = mode === 'managed'
+    ? `${process.env.NEXT_PUBLIC_APP_URL || ''}/r/${finalSlug}`
+    : null;
+
+  return {
+    ok: true,
+    id: qr.id,
+    slug: mode === 'managed' ? finalSlug ?? null : null,
+    redirect_url: redirectUrl,
+    nfc_url: redirectUrl && carrierHasNfc(carrier) ? nfcRedirectUrl(redirectUrl) : null,
+  };
+}
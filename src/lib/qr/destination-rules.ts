@@ -0,0 +1,96 @@
+import type { QRDestinationRule } from '@/types/qr';
+import { getZonedParts, type ZonedParts } from '@/lib/timezone';
+
+/**
+ * Scheduled destination rules for managed QR codes.
+ *
+ * A QR code holds an ordered list of rules. On every scan the redirect
+ * handler walks the list in order and sends the visitor to the first rule
+ * whose conditions all hold at the scan time, evaluated in the org's
+ * timezone. If no rule matches, the QR's destination_url is used.
+ *
+ * Conditions are optional and combined with AND:
+ *   - days:        local weekdays (0 = Sunday … 6 = Saturday)
+ *   - start_date / end_date: inclusive local dates (YYYY-MM-DD)
+ *   - start_time / end_time: local HH:MM window, end exclusive. A window
+ *     whose end is earlier than its start wraps past midnight (22:00-02:00).
+ *     Day/date conditions are checked against the scan's own local date, so
+ *     the post-midnight part of a wrapping window belongs to the next day.
+ */
+
+export interface ResolvedDestination {
+  url: string;
+  /** id of the matching rule, or null when the fallback destination was used */
+  ruleId: string | null;
+}
+
+/** Returns true if every condition on `rule` holds for the given local time. */
+export function ruleMatches(rule: QRDestinationRule, local: ZonedParts): boolean {
+  if (rule.days && rule.days.length > 0 && !rule.days.includes(local.weekday)) {
+    return false;
+  }
+
+  if (rule.start_date && local.date < rule.start_date) return false;
+  if (rule.end_date && local.date > rule.end_date) return false;
+
+  if (rule.start_time || rule.end_time) {
+    const start = rule.start_time ?? '00:00';
+    const end = rule.end_time ?? '24:00';
+    const inWindow = start <= end
+      ? local.time >= start && local.time < end
+      : local.time >= start || local.time < end;
+    if (!inWindow) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Picks the destination for a scan at `at`.
+ *
+ * @param fallbackUrl - the QR's destination_url, used when no rule matches
+ * @param rules - ordered rules; first match wins
+ * @param timeZone - org default_timezone (invalid/null falls back)
+ */
+export function resolveDestination(
+  fallbackUrl: string,
+  rules: QRDestinationRule[] | null | undefined,
+  timeZone: string | null | undefined,
+  at: Date = new Date(),
+): ResolvedDestination {
+  if (!rules || rules.length === 0) {
+    return { url: fallbackUrl, ruleId: null };
+  }
+
+  return resolveDestinationAtLocalTime(fallbackUrl, rules, getZonedParts(at, timeZone));
+}
+
+/**
+ * Same as resolveDestination, but for an already-localised wall-clock time.
+ * Used by the dashboard preview, where the user picks a date and time in the
+ * org's timezone directly.
+ */
+export function resolveDestinationAtLocalTime(
+  fallbackUrl: string,
+  rules: QRDestinationRule[] | null | undefined,
+  local: ZonedParts,
+): ResolvedDestination {
+  for (const rule of rules ?? []) {
+    if (ruleMatches(rule, local)) {
+      return { url: rule.destination_url, ruleId: rule.id };
+    }
+  }
+
+  return { url: fallbackUrl, ruleId: null };
+}
+
+/** Builds ZonedParts from a local YYYY-MM-DD date and HH:MM time. */
+export function localPartsFromInput(date: string, time: string): ZonedParts {
+  const [y, m, d] = date.split('-').map(Number);
+  return {
+    date,
+    time,
+    weekday: new Date(Date.UTC(y, m - 1, d)).getUTCDay(),
+    hour: parseInt(time.slice(0, 2), 10),
+  };
+}
@@ -0,0 +1,78 @@
+import type { QRDestinationVariant } from '@/types/qr';
+
+/**
+ * A/B split destinations for managed QR codes.
+ *
+ * A QR code can hold two or more weighted variants. When no scheduled
+ * destination rule matches, the redirect handler picks one variant per scan
+ * with probability weight / sum(weights). The pick is deterministic for a
+ * given sticky key (the scan's ip_hash), so a visitor who scans the same
+ * poster twice in a day lands on the same page and is counted against one
+ * variant. Visitor hashes rotate daily, so the pick can change the next day.
+ *
+ * Hashing is FNV-1a over `${qrId}:${key}` — not cryptographic, just stable
+ * and evenly spread, and it keeps this module usable in the browser.
+ */
+
+/** Fewer than this many variants means no split is active. */
+export const MIN_SPLIT_VARIANTS = 2;
+
+/** Default display label for the variant at `index`: A, B, C… */
+export function variantLetter(index: number): string {
+  return String.fromCharCode(65 + (index % 26));
+}
+
+/** Label shown in the dashboard — the user's label, or its letter. */
+export function variantLabel(variant: Pick<QRDestinationVariant, 'label'>, index: number): string {
+  return variant.label?.trim() || variantLetter(index);
+}
+
+/** Returns true if `variants` describes an active A/B split. */
+export function hasActiveSplit(
+  variants: QRDestinationVariant[] | null | undefined,
+): variants is QRDestinationVariant[] {
+  return (
+    Array.isArray(variants) &&
+    variants.filter((v) => v.weight > 0).length >= MIN_SPLIT_VARIANTS
+  );
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Picks the variant for a scan.
+ *
+ * @param qrId - mixed into the hash so one visitor isn't always "A" everywhere
+ * @param variants - weighted variants; zero-weight entries never win
+ * @param stickyKey - the scan's ip_hash; null picks at random (no stickiness)
+ * @returns the chosen variant, or null when no split is active
+ */
+export function pickVariant(
+  qrId: string,
+  variants: QRDestinationVariant[] | null | undefined,
+  stickyKey: string | null,
+): QRDestinationVariant | null {
+  if (!hasActiveSplit(variants)) return null;
+
+  const eligible = variants.filter((v) => v.weight > 0);
+  const total = eligible.reduce((sum, v) => sum + v.weight, 0);
+
+  const roll = stickyKey
+    ? fnv1a(`${qrId}:${stickyKey}`) % total
+    : Math.floor(Math.random() * total);
+
+  let cumulative = 0;
+  for (const variant of eligible) {
+    cumulative += variant.weight;
+    if (roll < cumulative) return variant;
+  }
+
+  return eligible[eligible.length - 1];
+}
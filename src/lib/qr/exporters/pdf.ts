@@ -8,7 +8,7 @@ import { PDFDocument, rgb } from 'pdf-lib';
 import { svgToPng } from './png';
 
 // Convert mm to PDF points (72 points = 1 inch, 1 inch = 25.4 mm)
-const MM_TO_POINTS = 72 / 25.4;
+export const MM_TO_POINTS = 72 / 25.4;
 
 export interface PDFOptions {
   // Page size in mm
@@ -70,16 +70,22 @@ export async function svgToPdf(
   // Embed PNG image
   const pngImage = await pdfDoc.embedPng(pngBuffer);
 
+  // Fit the code inside a qrSizePts square, keeping its aspect ratio
+  // (QR codes fill it; linear barcodes use the full width)
+  const scale = qrSizePts / Math.max(pngImage.width, pngImage.height);
+  const imageWidth = pngImage.width * scale;
+  const imageHeight = pngImage.height * scale;
+
   // Calculate position to center QR
-  const x = (totalWidth - qrSizePts) / 2;
-  const y = (totalHeight - qrSizePts) / 2;
+  const x = (totalWidth - imageWidth) / 2;
+  const y = (totalHeight - imageHeight) / 2;
 
   // Draw QR code
   page.drawImage(pngImage, {
     x,
     y,
-    width: qrSizePts,
-    height: qrSizePts,
+    width: imageWidth,
+    height: imageHeight,
   });
 
   // Draw bleed marks if bleed is specified
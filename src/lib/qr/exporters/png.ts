@@ -5,18 +5,23 @@
  */
 
 import sharp from 'sharp';
+import { svgAspectRatio } from './svg';
 
 /**
  * Convert SVG string to PNG buffer
+ *
+ * The PNG is `width` pixels wide; the height follows the SVG's aspect
+ * ratio, so QR codes come out square and linear barcodes keep their shape.
  */
 export async function svgToPng(
   svgString: string,
   width: number
 ): Promise<Buffer> {
   const svgBuffer = Buffer.from(svgString);
+  const height = Math.max(1, Math.round(width * svgAspectRatio(svgString)));
 
   const pngBuffer = await sharp(svgBuffer)
-    .resize(width, width, {
+    .resize(width, height, {
       fit: 'contain',
       background: { r: 255, g: 255, b: 255, alpha: 1 },
     })
@@ -49,9 +54,10 @@ export async function svgToPngTransparent(
   width: number
 ): Promise<Buffer> {
   const svgBuffer = Buffer.from(svgString);
+  const height = Math.max(1, Math.round(width * svgAspectRatio(svgString)));
 
   const pngBuffer = await sharp(svgBuffer)
-    .resize(width, width, {
+    .resize(width, height, {
       fit: 'contain',
       background: { r: 0, g: 0, b: 0, alpha: 0 },
     })
@@ -39,3 +39,12 @@ export function optimizeSVG(svgString: string): string {
     // Trim
     .trim();
 }
+
+/**
+ * Height / width of an SVG's viewBox; 1 (square) if it has none
+ */
+export function svgAspectRatio(svgString: string): number {
+  const match = /viewBox="[\d.]+ [\d.]+ ([\d.]+) ([\d.]+)"/.exec(svgString);
+  if (!match || Number(match[1]) === 0) return 1;
+  return Number(match[2]) / Number(match[1]);
+}
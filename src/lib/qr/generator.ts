@@ -10,7 +10,8 @@
 
 import QRCode from 'qrcode';
 import { QR_DEFAULTS } from '../constants';
-import type { ErrorCorrectionLevel, QRMatrix } from '@/types/qr';
+import type { ErrorCorrectionLevel, QRMatrix, QRPayload } from '@/types/qr';
+import { buildPayload } from './payloads';
 
 /**
  * Generate QR code matrix data
@@ -138,17 +139,22 @@ export async function generateBasicPNGBuffer(
 /**
  * Get the content to encode in the QR code
  * For managed mode, this is the redirect URL
- * For direct mode, this is the destination URL
+ * For direct mode, this is the destination URL, or the text built from a
+ * structured payload (vCard, Wi-Fi, …) when one is given
  */
 export function getQRContent(
   mode: 'managed' | 'direct',
   destinationUrl: string,
-  slug?: string
+  slug?: string,
+  payload?: QRPayload | null
 ): string {
   if (mode === 'managed' && slug) {
     const baseUrl = process.env.QR_REDIRECT_BASE_URL || process.env.NEXT_PUBLIC_APP_URL || '';
     return `${baseUrl}/r/${slug}`;
   }
+  if (payload) {
+    return buildPayload(payload);
+  }
   return destinationUrl;
 }
 
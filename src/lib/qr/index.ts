@@ -3,8 +3,12 @@
  *
  * This module provides complete QR code generation with:
  * - Matrix generation using 'qrcode' npm package
- * - Custom styling (shapes, colors, logos)
+ * - Custom styling (shapes, colors, gradients, backgrounds, logos)
+ * - Scan tests that render and decode styled codes
+ * - vCard, Wi-Fi, SMS, email, geo and calendar event payloads
+ * - Code 128, EAN-13, UPC-A, Data Matrix and PDF417 via 'bwip-js'
  * - Export to SVG, PNG, and PDF formats
+ * - ZIP bundling for bulk exports
  */
 
 export {
@@ -18,24 +22,71 @@ export {
 
 export {
   getModulePath,
+  getModuleNeighbors,
   getFinderPatternPaths,
   isFinderPattern,
   isFinderSeparator,
   type ModuleShape,
   type EyeShape,
+  type ModuleNeighbors,
+  type EyeColors,
 } from './shapes';
 
+export {
+  getForegroundPaint,
+  getEyeColors,
+  getBackgroundLayer,
+  getContrastWarnings,
+  contrastRatio,
+  minimumContrast,
+  relativeLuminance,
+  BACKGROUND_IMAGE_VEIL,
+  type ForegroundPaint,
+} from './paint';
+
+export {
+  styleRowToConfig,
+  styleInputToUpdate,
+  styleConfigToInput,
+} from './style';
+
 export {
   buildStyledSVG,
   buildSimpleSVG,
   type SVGOptions,
 } from './svg-builder';
 
+export { checkScannability } from './scannability';
+
+export { buildBarcodeSVG } from './barcodes';
+
+export {
+  validateBarcodeContent,
+  isBarcodeSymbology,
+  symbologyCarriesUrl,
+  barcodeQuietZone,
+  gtinCheckDigit,
+  type BarcodeContentResult,
+} from './barcode-content';
+
+export {
+  buildPayload,
+  buildVCard,
+  buildWifi,
+  buildSms,
+  buildMailto,
+  buildGeo,
+  buildVEvent,
+  escapeText,
+  escapeWifi,
+} from './payloads';
+
 export {
   svgToBlob,
   svgToDataURL,
   svgToBase64DataURL,
   optimizeSVG,
+  svgAspectRatio,
 } from './exporters/svg';
 
 export {
@@ -49,3 +100,8 @@ export {
   createPresetPdf,
   type PDFOptions,
 } from './exporters/pdf';
+
+export {
+  createZip,
+  type ZipEntry,
+} from './exporters/zip';
@@ -0,0 +1,58 @@
+import type { QRCarrier, ScanMedium } from '@/types/qr';
+import type { BioViewMedium } from '@/types/bio';
+
+/**
+ * Scan medium attribution.
+ *
+ * NFC tags for a managed code encode the same /r/[slug] URL as the printed
+ * code plus a medium marker (`?m=nfc`), so the redirect handler can tell a
+ * tap from a camera scan. A missing or unknown marker counts as a QR scan.
+ */
+
+/** Query param carrying the medium on /r/[slug] */
+export const MEDIUM_PARAM = 'm';
+
+export function parseScanMedium(searchParams: URLSearchParams): ScanMedium {
+  return searchParams.get(MEDIUM_PARAM) === 'nfc' ? 'nfc' : 'qr';
+}
+
+/**
+ * Medium of a bio page view. The marker is set by NFC tags written with
+ * the page URL and passed on by managed codes that point at the page
+ * (withBioPageMedium); without one the visit came from some other link.
+ */
+export function parseViewMedium(searchParams: URLSearchParams): BioViewMedium {
+  const medium = searchParams.get(MEDIUM_PARAM);
+  return medium === 'qr' || medium === 'nfc' ? medium : 'web';
+}
+
+/**
+ * Pass a scan's medium on when the destination is one of our bio pages
+ * (/p/[slug] on the app URL), so the page view is attributed too. Other
+ * destinations are returned unchanged.
+ */
+export function withBioPageMedium(destinationUrl: string, medium: ScanMedium, appUrl: string): string {
+  let destination: URL;
+  let app: URL;
+  try {
+    destination = new URL(destinationUrl);
+    app = new URL(appUrl);
+  } catch {
+    return destinationUrl;
+  }
+  if (destination.origin !== app.origin || !destination.pathname.startsWith('/p/')) {
+    return destinationUrl;
+  }
+  destination.searchParams.set(MEDIUM_PARAM, medium);
+  return destination.toString();
+}
+
+/** True when the code ships with an NFC chip */
+export function carrierHasNfc(carrier: QRCarrier | null | undefined): boolean {
+  return carrier === 'nfc' || carrier === 'both';
+}
+
+/** The URL to write to NFC tags, given the code's managed redirect URL */
+export function nfcRedirectUrl(redirectUrl: string): string {
+  return `${redirectUrl}?${MEDIUM_PARAM}=nfc`;
+}
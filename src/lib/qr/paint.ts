@@ -0,0 +1,180 @@
+/**
+ * Fills for styled QR codes: foreground gradients, per-eye colours and
+ * solid / transparent / image backgrounds, plus the contrast checks that
+ * keep them scannable.
+ *
+ * Shared by buildStyledSVG (server exports) and generateStyledSVG
+ * (client preview and downloads), so both draw the same code.
+ */
+
+import { QR_DEFAULTS } from '@/lib/constants';
+import type { QRStylePaint } from '@/types/qr';
+import type { EyeColors } from './shapes';
+
+/** Opacity of the backgroundColor veil drawn over a background image */
+export const BACKGROUND_IMAGE_VEIL = 0.6;
+
+export interface ForegroundPaint {
+  /** <linearGradient>/<radialGradient> to put in <defs>, or '' */
+  defs: string;
+  /** fill attribute value for modules */
+  fill: string;
+}
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+function hasGradient(style: QRStylePaint): style is QRStylePaint & { gradientColor: string } {
+  return !!style.gradientType && style.gradientType !== 'none' && !!style.gradientColor;
+}
+
+/**
+ * Module fill. Gradients span the whole code (userSpaceOnUse) so modules
+ * and eyes share one sweep. The id is derived from the gradient itself:
+ * codes inlined on the same page with the same id draw the same fill.
+ */
+export function getForegroundPaint(style: QRStylePaint, viewBoxSize: number): ForegroundPaint {
+  if (!hasGradient(style)) {
+    return { defs: '', fill: style.foregroundColor };
+  }
+
+  const angle = style.gradientAngle ?? 0;
+  const id = `qr-${style.gradientType}-${style.foregroundColor}-${style.gradientColor}-${angle}`
+    .replace(/#/g, '')
+    .toLowerCase();
+  const stops =
+    `<stop offset="0" stop-color="${style.foregroundColor}"/>` +
+    `<stop offset="1" stop-color="${style.gradientColor}"/>`;
+  const c = viewBoxSize / 2;
+
+  if (style.gradientType === 'radial') {
+    // Reaches the end colour at the corners
+    const r = round(c * Math.SQRT2);
+    return {
+      defs: `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${c}" cy="${c}" r="${r}">${stops}</radialGradient>`,
+      fill: `url(#${id})`,
+    };
+  }
+
+  // 0° runs left to right, 90° top to bottom
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.cos(rad) * c;
+  const dy = Math.sin(rad) * c;
+  return {
+    defs:
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${round(c - dx)}" y1="${round(c - dy)}" x2="${round(c + dx)}" y2="${round(c + dy)}">${stops}</linearGradient>`,
+    fill: `url(#${id})`,
+  };
+}
+
+/** Eye fills: their own colours where set, otherwise the module fill */
+export function getEyeColors(style: QRStylePaint, foregroundFill: string): EyeColors {
+  return {
+    outer: style.eyeOuterColor || foregroundFill,
+    inner: style.eyeInnerColor || foregroundFill,
+  };
+}
+
+/**
+ * Elements drawn behind the code: nothing when transparent, the image
+ * under a backgroundColor veil, or a solid rect. An image mode without
+ * an image falls back to solid.
+ */
+export function getBackgroundLayer(style: QRStylePaint, viewBoxSize: number): string {
+  if (style.backgroundMode === 'transparent') return '';
+
+  const rect = `<rect width="${viewBoxSize}" height="${viewBoxSize}" fill="${style.backgroundColor}"/>`;
+  if (style.backgroundMode === 'image' && style.backgroundImageDataUrl) {
+    return (
+      `<image href="${style.backgroundImageDataUrl}" x="0" y="0" width="${viewBoxSize}" height="${viewBoxSize}" preserveAspectRatio="xMidYMid slice"/>` +
+      `<rect width="${viewBoxSize}" height="${viewBoxSize}" fill="${style.backgroundColor}" fill-opacity="${BACKGROUND_IMAGE_VEIL}"/>`
+    );
+  }
+  return rect;
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+      }
+    : null;
+}
+
+/**
+ * WCAG relative luminance of a #RRGGBB colour (0 black … 1 white)
+ */
+export function relativeLuminance(hex: string): number {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return 0;
+
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((v) => {
+    v /= 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG contrast ratio, 1 (none) … 21 (black on white) */
+export function contrastRatio(a: string, b: string): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/** Background the code is read against; transparent codes land on white paper */
+function contrastBackground(style: QRStylePaint): string {
+  return style.backgroundMode === 'transparent' ? '#FFFFFF' : style.backgroundColor;
+}
+
+/** Every dark colour in use: both gradient stops and the eye colours */
+function paintColors(style: QRStylePaint): Array<[string, string]> {
+  const colors: Array<[string, string]> = [['Foreground', style.foregroundColor]];
+  if (hasGradient(style)) colors.push(['Gradient end colour', style.gradientColor]);
+  if (style.eyeOuterColor) colors.push(['Outer eye colour', style.eyeOuterColor]);
+  if (style.eyeInnerColor) colors.push(['Inner eye colour', style.eyeInnerColor]);
+  return colors;
+}
+
+/** Lowest contrast ratio between any colour in use and the background */
+export function minimumContrast(style: QRStylePaint): number {
+  const background = contrastBackground(style);
+  return Math.min(...paintColors(style).map(([, color]) => contrastRatio(color, background)));
+}
+
+/**
+ * Scanning warnings for a style's colours. Every dark colour in use
+ * is checked against the background; transparent codes are checked
+ * against white paper.
+ */
+export function getContrastWarnings(style: QRStylePaint): string[] {
+  const warnings: string[] = [];
+  const transparent = style.backgroundMode === 'transparent';
+  const background = contrastBackground(style);
+
+  for (const [label, color] of paintColors(style)) {
+    if (contrastRatio(color, background) < QR_DEFAULTS.MIN_CONTRAST) {
+      warnings.push(
+        transparent
+          ? `${label} is too light to scan on white paper`
+          : `Low contrast between ${label.toLowerCase()} and background may affect scanning`
+      );
+    }
+  }
+
+  if (!transparent && relativeLuminance(style.foregroundColor) > relativeLuminance(background)) {
+    warnings.push('Light-on-dark codes do not scan on some older readers');
+  }
+  if (transparent) {
+    warnings.push('Transparent background: print on a light, plain surface');
+  }
+  if (style.backgroundMode === 'image') {
+    warnings.push('Background images can make codes harder to scan; test before printing');
+  }
+
+  return warnings;
+}
@@ -0,0 +1,245 @@
+/**
+ * Builders for structured direct-QR content.
+ *
+ * Each payload type is turned into the text phone cameras recognise:
+ * - vcard: vCard 3.0 (RFC 2426) or 4.0 (RFC 6350)
+ * - wifi:  WIFI:T:…;S:…;P:…;; (the ZXing / Android format)
+ * - sms:   SMSTO:number:message
+ * - email: mailto: (RFC 6068)
+ * - geo:   geo: URI (RFC 5870)
+ * - event: a bare iCalendar VEVENT (RFC 5545), as scanners expect it
+ *
+ * Input is validated by qrPayloadSchema first; these only format and
+ * escape. Nothing here touches the network, so forms use the same
+ * builders for their live preview.
+ */
+
+import type {
+  QRPayload,
+  VCardPayload,
+  WifiPayload,
+  SmsPayload,
+  EmailPayload,
+  GeoPayload,
+  EventPayload,
+} from '@/types/qr';
+
+const CRLF = '\r\n';
+
+/** Escape a vCard / iCalendar TEXT value: backslash, comma, semicolon, newline */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Escape a WIFI: field value: backslash, semicolon, comma, colon, double quote */
+export function escapeWifi(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+/**
+ * Fold a content line at 75 octets (vCard / iCalendar), continuing with
+ * CRLF + space. Never splits a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards their 75
+  let limit = 75;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+/** Digits and a leading + only — what tel: and SMSTO: expect */
+function normalizePhone(phone: string): string {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+function contentLines(lines: Array<string | null>): string {
+  return lines
+    .filter((line): line is string => line !== null)
+    .map(foldLine)
+    .join(CRLF);
+}
+
+/** An image embedded in a vCard, base64-encoded */
+export interface VCardPhoto {
+  mediaType: 'image/jpeg' | 'image/png';
+  base64: string;
+}
+
+/**
+ * Build a vCard. `photo` is only used for served .vcf files (managed
+ * contact codes) — an embedded image never fits in a QR code.
+ */
+export function buildVCard(payload: VCardPayload, photo?: VCardPhoto): string {
+  const v4 = payload.version === '4.0';
+  const first = payload.first_name?.trim() ?? '';
+  const last = payload.last_name?.trim() ?? '';
+  const fullName = [first, last].filter(Boolean).join(' ') || payload.organization?.trim() || '';
+
+  const hasAddress = [payload.street, payload.city, payload.region, payload.postcode, payload.country]
+    .some((part) => part?.trim());
+  const address = [
+    '',
+    '',
+    payload.street,
+    payload.city,
+    payload.region,
+    payload.postcode,
+    payload.country,
+  ].map((part) => escapeText(part?.trim() ?? '')).join(';');
+
+  const tel = (type: string, phone: string | undefined) => {
+    if (!phone?.trim()) return null;
+    return v4
+      ? `TEL;TYPE=${type};VALUE=uri:tel:${normalizePhone(phone)}`
+      : `TEL;TYPE=${type.toUpperCase()}:${phone.trim()}`;
+  };
+
+  let photoLine: string | null = null;
+  if (photo) {
+    photoLine = v4
+      ? `PHOTO:data:${photo.mediaType};base64,${photo.base64}`
+      : `PHOTO;ENCODING=b;TYPE=${photo.mediaType === 'image/png' ? 'PNG' : 'JPEG'}:${photo.base64}`;
+  }
+
+  return contentLines([
+    'BEGIN:VCARD',
+    `VERSION:${payload.version}`,
+    `N:${escapeText(last)};${escapeText(first)};;;`,
+    `FN:${escapeText(fullName)}`,
+    payload.organization?.trim() ? `ORG:${escapeText(payload.organization.trim())}` : null,
+    payload.title?.trim() ? `TITLE:${escapeText(payload.title.trim())}` : null,
+    tel('work', payload.phone),
+    tel('cell', payload.mobile),
+    payload.email?.trim()
+      ? `${v4 ? 'EMAIL;TYPE=work' : 'EMAIL;TYPE=INTERNET'}:${payload.email.trim()}`
+      : null,
+    payload.website?.trim() ? `URL:${payload.website.trim()}` : null,
+    hasAddress ? `ADR;TYPE=${v4 ? 'work' : 'WORK'}:${address}` : null,
+    payload.note?.trim() ? `NOTE:${escapeText(payload.note.trim())}` : null,
+    photoLine,
+    'END:VCARD',
+  ]);
+}
+
+export function buildWifi(payload: WifiPayload): string {
+  const fields = [`T:${payload.security}`, `S:${escapeWifi(payload.ssid)}`];
+  if (payload.security !== 'nopass' && payload.password) {
+    fields.push(`P:${escapeWifi(payload.password)}`);
+  }
+  if (payload.hidden) fields.push('H:true');
+  return `WIFI:${fields.join(';')};;`;
+}
+
+export function buildSms(payload: SmsPayload): string {
+  const phone = normalizePhone(payload.phone);
+  const message = payload.message?.trim();
+  return message ? `SMSTO:${phone}:${message}` : `SMSTO:${phone}`;
+}
+
+export function buildMailto(payload: EmailPayload): string {
+  // Line breaks in hfields are CRLF per RFC 6068
+  const encode = (value: string) => encodeURIComponent(value.replace(/\r?\n/g, CRLF));
+
+  const params: string[] = [];
+  if (payload.subject?.trim()) params.push(`subject=${encode(payload.subject.trim())}`);
+  if (payload.body?.trim()) params.push(`body=${encode(payload.body.trim())}`);
+
+  const to = encodeURIComponent(payload.to.trim()).replace(/%40/g, '@');
+  return params.length > 0 ? `mailto:${to}?${params.join('&')}` : `mailto:${to}`;
+}
+
+/** Six decimal places is ~10 cm — more only bloats the code */
+function coordinate(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+export function buildGeo(payload: GeoPayload): string {
+  const parts = [coordinate(payload.latitude), coordinate(payload.longitude)];
+  if (payload.altitude !== undefined) parts.push(String(Math.round(payload.altitude)));
+  return `geo:${parts.join(',')}`;
+}
+
+/** YYYY-MM-DD → YYYYMMDD */
+function icsDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+/** YYYY-MM-DDTHH:MM → YYYYMMDDTHHMM00 (floating local time) */
+function icsDateTime(dateTime: string): string {
+  return `${icsDate(dateTime)}T${dateTime.slice(11, 16).replace(':', '')}00`;
+}
+
+/** The day after a YYYY-MM-DD date, as YYYYMMDD */
+function icsNextDay(date: string): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return icsDate(d.toISOString());
+}
+
+/**
+ * Times are floating (no time zone), so the event lands at the same wall
+ * clock time wherever it's scanned. All-day events use DATE values with
+ * the exclusive end RFC 5545 requires.
+ */
+export function buildVEvent(payload: EventPayload): string {
+  let start: string;
+  let end: string | null;
+  if (payload.all_day) {
+    start = `DTSTART;VALUE=DATE:${icsDate(payload.start)}`;
+    end = `DTEND;VALUE=DATE:${icsNextDay(payload.end || payload.start)}`;
+  } else {
+    start = `DTSTART:${icsDateTime(payload.start)}`;
+    end = payload.end ? `DTEND:${icsDateTime(payload.end)}` : null;
+  }
+
+  return contentLines([
+    'BEGIN:VEVENT',
+    `SUMMARY:${escapeText(payload.summary.trim())}`,
+    start,
+    end,
+    payload.location?.trim() ? `LOCATION:${escapeText(payload.location.trim())}` : null,
+    payload.description?.trim() ? `DESCRIPTION:${escapeText(payload.description.trim())}` : null,
+    'END:VEVENT',
+  ]);
+}
+
+/** The text to encode for a structured payload */
+export function buildPayload(payload: QRPayload): string {
+  switch (payload.type) {
+    case 'vcard':
+      return buildVCard(payload);
+    case 'wifi':
+      return buildWifi(payload);
+    case 'sms':
+      return buildSms(payload);
+    case 'email':
+      return buildMailto(payload);
+    case 'geo':
+      return buildGeo(payload);
+    case 'event':
+      return buildVEvent(payload);
+  }
+}
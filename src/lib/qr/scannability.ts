@@ -0,0 +1,135 @@
+/**
+ * Scan check for styled QR codes.
+ *
+ * Renders the code the way exports do (buildStyledSVG → svgToPng) at a
+ * few print sizes, softens each render with increasing blur to stand in
+ * for camera focus and print spread, and decodes it with jsQR. A render
+ * only counts if it decodes back to the exact content.
+ *
+ * Logos are checked as their blank backing: what matters is how many
+ * modules they hide, and the logo's own pixels are never modules.
+ */
+
+import sharp from 'sharp';
+import jsQR from 'jsqr';
+import type {
+  ErrorCorrectionLevel,
+  QRStyleConfig,
+  ScanAttempt,
+  ScannabilityReport,
+} from '@/types/qr';
+import { generateQRMatrix } from './generator';
+import { buildStyledSVG } from './svg-builder';
+import { svgToPng } from './exporters/png';
+import { minimumContrast } from './paint';
+
+/** Rendered widths in pixels, from a small sticker up to a flyer */
+const SIZES = [160, 320, 640] as const;
+
+/**
+ * Gaussian blur per render, as a fraction of one module. A size is
+ * readable when its sharp or lightly blurred render decodes (jsQR
+ * occasionally misses a perfectly crisp edge a camera never sees); the
+ * heavy level only feeds the score.
+ */
+const BLUR_LEVELS = [0, 0.25, 0.5] as const;
+const REQUIRED_BLUR = 0.25;
+
+/** Share of the symbol each error-correction level can rebuild */
+const RECOVERY_CAPACITY: Record<ErrorCorrectionLevel, number> = {
+  L: 0.07,
+  M: 0.15,
+  Q: 0.25,
+  H: 0.3,
+};
+
+/** Contrast ratios scored 0 and 100 */
+const CONTRAST_FLOOR = 1.5;
+const CONTRAST_GOOD = 7;
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const clampScore = (v: number) => Math.round(Math.min(100, Math.max(0, v)));
+
+async function decodes(png: Buffer, sigma: number, expected: string): Promise<boolean> {
+  let image = sharp(png).flatten({ background: '#ffffff' });
+  // sharp's blur needs sigma ≥ 0.3
+  if (sigma > 0) image = image.blur(Math.max(0.3, sigma));
+  const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+
+  const result = jsQR(
+    new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+    info.width,
+    info.height
+  );
+  if (!result) return false;
+  return (
+    result.data === expected ||
+    Buffer.from(result.binaryData).equals(Buffer.from(expected, 'utf8'))
+  );
+}
+
+/**
+ * Render and decode a styled code. `content` is exactly what the code
+ * encodes (the redirect URL for managed codes).
+ */
+export async function checkScannability(
+  content: string,
+  style: QRStyleConfig
+): Promise<ScannabilityReport> {
+  const matrix = await generateQRMatrix(content, style.errorCorrection);
+  const svg = buildStyledSVG(
+    matrix,
+    { ...style, logoMode: style.logoMode === 'none' ? 'none' : 'placeholder' },
+    undefined,
+    { includeXmlDeclaration: false }
+  );
+  const viewBoxSize = matrix.size + style.quietZone * 2;
+
+  const attempts: ScanAttempt[] = [];
+  for (const size of SIZES) {
+    const png = await svgToPng(svg, size);
+    const moduleWidth = size / viewBoxSize;
+    for (const blur of BLUR_LEVELS) {
+      attempts.push({ size, blur, decoded: await decodes(png, blur * moduleWidth, content) });
+    }
+  }
+
+  const contrastRatio = minimumContrast(style);
+  const contrastScore = clampScore(
+    ((contrastRatio - CONTRAST_FLOOR) / (CONTRAST_GOOD - CONTRAST_FLOOR)) * 100
+  );
+
+  // The logo's backing square (logo plus 15% padding each side), as in buildStyledSVG
+  const capacity = RECOVERY_CAPACITY[style.errorCorrection];
+  const logoSide = style.logoMode === 'none' ? 0 : viewBoxSize * style.logoSizeRatio * 1.3;
+  const coverage = Math.min(1, (logoSide * logoSide) / (matrix.size * matrix.size));
+  const coverageScore = clampScore((1 - coverage / capacity) * 100);
+
+  const unreadable = SIZES.filter(
+    (size) => !attempts.some((a) => a.size === size && a.blur <= REQUIRED_BLUR && a.decoded)
+  );
+  const passed = unreadable.length === 0;
+  const decodeShare = attempts.filter((a) => a.decoded).length / attempts.length;
+
+  const issues: string[] = [];
+  if (unreadable.length > 0) {
+    issues.push(`Did not decode at ${unreadable.join(', ')}px`);
+  }
+  if (contrastScore < 50) {
+    issues.push('Colours are too close to the background');
+  }
+  if (coverage > capacity) {
+    issues.push(
+      `Logo hides ${Math.round(coverage * 100)}% of the code; error correction ${style.errorCorrection} recovers about ${Math.round(capacity * 100)}%`
+    );
+  }
+
+  return {
+    passed,
+    score: clampScore(decodeShare * 60 + contrastScore * 0.25 + coverageScore * 0.15),
+    contrast: { ratio: round2(contrastRatio), score: contrastScore },
+    logoCoverage: { ratio: round2(coverage), capacity, score: coverageScore },
+    attempts,
+    issues,
+  };
+}
@@ -2,8 +2,85 @@
  * SVG path generators for different QR code module shapes
  */
 
-export type ModuleShape = 'square' | 'rounded' | 'dots' | 'diamond';
-export type EyeShape = 'square' | 'rounded' | 'circle';
+export type ModuleShape =
+  | 'square'
+  | 'rounded'
+  | 'dots'
+  | 'diamond'
+  | 'vertical-bars'
+  | 'horizontal-bars'
+  | 'classy'
+  | 'star';
+export type EyeShape = 'square' | 'rounded' | 'circle' | 'leaf' | 'dot-in-square';
+
+/**
+ * Which of a module's neighbours are dark data modules. Bars join up
+ * with their neighbours; classy rounds only its exposed corners.
+ */
+export interface ModuleNeighbors {
+  top: boolean;
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+}
+
+const NO_NEIGHBORS: ModuleNeighbors = { top: false, right: false, bottom: false, left: false };
+
+/** Finder pattern fills: the 7x7 ring and the 3x3 centre */
+export interface EyeColors {
+  outer: string;
+  inner: string;
+}
+
+/** Corner radii, clockwise from top-left */
+type Corners = [number, number, number, number];
+
+// Trims float noise (0.30000000000000004) from path coordinates
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+function roundedRectPath(x: number, y: number, w: number, h: number, [tl, tr, br, bl]: Corners): string {
+  const arc = (r: number, toX: number, toY: number) =>
+    r ? `A${round(r)},${round(r)} 0 0 1 ${round(toX)},${round(toY)}` : '';
+  return (
+    `M${round(x + tl)},${round(y)}` +
+    `H${round(x + w - tr)}${arc(tr, x + w, y + tr)}` +
+    `V${round(y + h - br)}${arc(br, x + w - br, y + h)}` +
+    `H${round(x + bl)}${arc(bl, x, y + h - bl)}` +
+    `V${round(y + tl)}${arc(tl, x + tl, y)}Z`
+  );
+}
+
+function circlePath(cx: number, cy: number, r: number): string {
+  return `M${round(cx - r)},${round(cy)}a${round(r)},${round(r)} 0 1,0 ${round(r * 2)},0a${round(r)},${round(r)} 0 1,0 -${round(r * 2)},0Z`;
+}
+
+function starPath(cx: number, cy: number, outer: number, inner: number, points = 5): string {
+  const vertices: string[] = [];
+  for (let i = 0; i < points * 2; i++) {
+    const r = i % 2 === 0 ? outer : inner;
+    // Start at the top point
+    const angle = (Math.PI * i) / points - Math.PI / 2;
+    vertices.push(`${round(cx + r * Math.cos(angle))},${round(cy + r * Math.sin(angle))}`);
+  }
+  return `M${vertices.join('L')}Z`;
+}
+
+/**
+ * Dark neighbours of a module, given a predicate for "is a dark data
+ * module" that returns false outside the matrix.
+ */
+export function getModuleNeighbors(
+  isDark: (row: number, col: number) => boolean,
+  row: number,
+  col: number
+): ModuleNeighbors {
+  return {
+    top: isDark(row - 1, col),
+    right: isDark(row, col + 1),
+    bottom: isDark(row + 1, col),
+    left: isDark(row, col - 1),
+  };
+}
 
 /**
  * Generate SVG path for a module (data dot)
@@ -12,7 +89,8 @@ export function getModulePath(
   shape: ModuleShape,
   x: number,
   y: number,
-  size: number
+  size: number,
+  neighbors: ModuleNeighbors = NO_NEIGHBORS
 ): string {
   switch (shape) {
     case 'square':
@@ -35,6 +113,36 @@ export function getModulePath(
       return `M${x + half},${y}L${x + size},${y + half}L${x + half},${y + size}L${x},${y + half}Z`;
     }
 
+    case 'vertical-bars': {
+      // 80% wide; runs of modules join into one bar with rounded ends
+      const inset = size * 0.1;
+      const r = size * 0.4;
+      const top = neighbors.top ? 0 : r;
+      const bottom = neighbors.bottom ? 0 : r;
+      return roundedRectPath(x + inset, y, size - inset * 2, size, [top, top, bottom, bottom]);
+    }
+
+    case 'horizontal-bars': {
+      const inset = size * 0.1;
+      const r = size * 0.4;
+      const left = neighbors.left ? 0 : r;
+      const right = neighbors.right ? 0 : r;
+      return roundedRectPath(x, y + inset, size, size - inset * 2, [left, right, right, left]);
+    }
+
+    case 'classy': {
+      // Round the top-left and bottom-right corners where they're exposed
+      const r = size / 2;
+      const tl = !neighbors.top && !neighbors.left ? r : 0;
+      const br = !neighbors.bottom && !neighbors.right ? r : 0;
+      return roundedRectPath(x, y, size, size, [tl, 0, br, 0]);
+    }
+
+    case 'star': {
+      const half = size / 2;
+      return starPath(x + half, y + half, half, half * 0.5);
+    }
+
     default:
       return `M${x},${y}h${size}v${size}h-${size}Z`;
   }
@@ -43,8 +151,8 @@ export function getModulePath(
 /**
  * Generate SVG paths for finder pattern (eye)
  * The finder pattern consists of:
- * - Outer ring (7x7)
- * - Inner ring (5x5, white/background)
+ * - Outer ring (7x7 with a 5x5 hole, drawn even-odd so whatever is
+ *   behind the code shows through)
  * - Center dot (3x3)
  */
 export function getFinderPatternPaths(
@@ -52,62 +160,49 @@ export function getFinderPatternPaths(
   x: number,
   y: number,
   moduleSize: number,
-  foregroundColor: string,
-  backgroundColor: string
+  colors: EyeColors
 ): string[] {
-  const paths: string[] = [];
+  const m = moduleSize;
+  let ring: string;
+  let dot: string;
 
   switch (shape) {
-    case 'square': {
-      // Outer ring (7 modules)
-      const outer = moduleSize * 7;
-      paths.push(`<rect x="${x}" y="${y}" width="${outer}" height="${outer}" fill="${foregroundColor}"/>`);
-
-      // Inner ring (5 modules, offset by 1)
-      const innerOffset = moduleSize;
-      const inner = moduleSize * 5;
-      paths.push(`<rect x="${x + innerOffset}" y="${y + innerOffset}" width="${inner}" height="${inner}" fill="${backgroundColor}"/>`);
-
-      // Center dot (3 modules, offset by 2)
-      const centerOffset = moduleSize * 2;
-      const center = moduleSize * 3;
-      paths.push(`<rect x="${x + centerOffset}" y="${y + centerOffset}" width="${center}" height="${center}" fill="${foregroundColor}"/>`);
+    case 'rounded':
+      ring = roundedRectPath(x, y, m * 7, m * 7, [m * 1.5, m * 1.5, m * 1.5, m * 1.5]) +
+        roundedRectPath(x + m, y + m, m * 5, m * 5, [m, m, m, m]);
+      dot = roundedRectPath(x + m * 2, y + m * 2, m * 3, m * 3, [m * 0.5, m * 0.5, m * 0.5, m * 0.5]);
       break;
-    }
 
-    case 'rounded': {
-      const outer = moduleSize * 7;
-      const outerR = moduleSize * 1.5;
-      paths.push(`<rect x="${x}" y="${y}" width="${outer}" height="${outer}" rx="${outerR}" fill="${foregroundColor}"/>`);
-
-      const innerOffset = moduleSize;
-      const inner = moduleSize * 5;
-      const innerR = moduleSize;
-      paths.push(`<rect x="${x + innerOffset}" y="${y + innerOffset}" width="${inner}" height="${inner}" rx="${innerR}" fill="${backgroundColor}"/>`);
-
-      const centerOffset = moduleSize * 2;
-      const center = moduleSize * 3;
-      const centerR = moduleSize * 0.5;
-      paths.push(`<rect x="${x + centerOffset}" y="${y + centerOffset}" width="${center}" height="${center}" rx="${centerR}" fill="${foregroundColor}"/>`);
+    case 'circle':
+      ring = circlePath(x + m * 3.5, y + m * 3.5, m * 3.5) + circlePath(x + m * 3.5, y + m * 3.5, m * 2.5);
+      dot = circlePath(x + m * 3.5, y + m * 3.5, m * 1.5);
       break;
-    }
 
-    case 'circle': {
-      const outerR = moduleSize * 3.5;
-      const cx = x + outerR;
-      const cy = y + outerR;
-      paths.push(`<circle cx="${cx}" cy="${cy}" r="${outerR}" fill="${foregroundColor}"/>`);
+    case 'leaf':
+      // Pointed top-right and bottom-left corners
+      ring = roundedRectPath(x, y, m * 7, m * 7, [m * 3, 0, m * 3, 0]) +
+        roundedRectPath(x + m, y + m, m * 5, m * 5, [m * 2, 0, m * 2, 0]);
+      dot = roundedRectPath(x + m * 2, y + m * 2, m * 3, m * 3, [m * 1.2, 0, m * 1.2, 0]);
+      break;
 
-      const innerR = moduleSize * 2.5;
-      paths.push(`<circle cx="${cx}" cy="${cy}" r="${innerR}" fill="${backgroundColor}"/>`);
+    case 'dot-in-square':
+      ring = roundedRectPath(x, y, m * 7, m * 7, [0, 0, 0, 0]) +
+        roundedRectPath(x + m, y + m, m * 5, m * 5, [0, 0, 0, 0]);
+      dot = circlePath(x + m * 3.5, y + m * 3.5, m * 1.5);
+      break;
 
-      const centerR = moduleSize * 1.5;
-      paths.push(`<circle cx="${cx}" cy="${cy}" r="${centerR}" fill="${foregroundColor}"/>`);
+    case 'square':
+    default:
+      ring = roundedRectPath(x, y, m * 7, m * 7, [0, 0, 0, 0]) +
+        roundedRectPath(x + m, y + m, m * 5, m * 5, [0, 0, 0, 0]);
+      dot = roundedRectPath(x + m * 2, y + m * 2, m * 3, m * 3, [0, 0, 0, 0]);
       break;
-    }
   }
 
-  return paths;
+  return [
+    `<path fill-rule="evenodd" fill="${colors.outer}" d="${ring}"/>`,
+    `<path fill="${colors.inner}" d="${dot}"/>`,
+  ];
 }
 
 /**
@@ -0,0 +1,84 @@
+/**
+ * Mapping between qr_styles rows, style API input and the renderer's
+ * QRStyleConfig
+ */
+
+import { QR_DEFAULTS } from '@/lib/constants';
+import type { QRStyle, QRStyleConfig } from '@/types/qr';
+import type { UpdateStyleInput } from '@/validations/qr';
+
+/**
+ * Renderer config for a qr_styles row (defaults when there's no row).
+ * The background image is passed in already loaded as a data URL.
+ */
+export function styleRowToConfig(
+  row: Partial<QRStyle> | null | undefined,
+  backgroundImageDataUrl?: string | null
+): QRStyleConfig {
+  return {
+    foregroundColor: row?.foreground_color || '#000000',
+    backgroundColor: row?.background_color || '#FFFFFF',
+    errorCorrection: row?.error_correction || QR_DEFAULTS.ERROR_CORRECTION,
+    quietZone: row?.quiet_zone ?? QR_DEFAULTS.QUIET_ZONE,
+    moduleShape: row?.module_shape || 'square',
+    eyeShape: row?.eye_shape || 'square',
+    logoMode: 'none',
+    logoSizeRatio: row?.logo_size_ratio || QR_DEFAULTS.DEFAULT_LOGO_RATIO,
+    gradientType: row?.gradient_type || 'none',
+    gradientColor: row?.gradient_color || undefined,
+    gradientAngle: row?.gradient_angle ?? 0,
+    eyeOuterColor: row?.eye_outer_color || undefined,
+    eyeInnerColor: row?.eye_inner_color || undefined,
+    backgroundMode: row?.background_mode || 'solid',
+    backgroundImageDataUrl: backgroundImageDataUrl || undefined,
+  };
+}
+
+/**
+ * qr_styles columns to update for validated style input. The background
+ * image needs storing first, so background_image is left to the caller
+ * (see lib/qr/background-image.ts).
+ */
+export function styleInputToUpdate(style: UpdateStyleInput): Record<string, unknown> {
+  const styleUpdate: Record<string, unknown> = {};
+  if (style.foreground_color) styleUpdate.foreground_color = style.foreground_color;
+  if (style.background_color) styleUpdate.background_color = style.background_color;
+  if (style.error_correction) styleUpdate.error_correction = style.error_correction;
+  if (style.quiet_zone !== undefined) styleUpdate.quiet_zone = style.quiet_zone;
+  if (style.module_shape) styleUpdate.module_shape = style.module_shape;
+  if (style.eye_shape) styleUpdate.eye_shape = style.eye_shape;
+  if (style.gradient_type) styleUpdate.gradient_type = style.gradient_type;
+  if (style.gradient_color !== undefined) styleUpdate.gradient_color = style.gradient_color;
+  if (style.gradient_angle !== undefined) styleUpdate.gradient_angle = style.gradient_angle;
+  if (style.eye_outer_color !== undefined) styleUpdate.eye_outer_color = style.eye_outer_color;
+  if (style.eye_inner_color !== undefined) styleUpdate.eye_inner_color = style.eye_inner_color;
+  if (style.background_mode) styleUpdate.background_mode = style.background_mode;
+  return styleUpdate;
+}
+
+/**
+ * Style API input for an editor's QRStyleConfig. The background image is
+ * only sent when it changed: pass the image the code was loaded with.
+ */
+export function styleConfigToInput(
+  style: QRStyleConfig,
+  savedBackgroundImage?: string | null
+): UpdateStyleInput {
+  const input: UpdateStyleInput = {
+    foreground_color: style.foregroundColor,
+    background_color: style.backgroundColor,
+    error_correction: style.errorCorrection,
+    quiet_zone: style.quietZone,
+    module_shape: style.moduleShape,
+    eye_shape: style.eyeShape,
+    gradient_type: style.gradientType ?? 'none',
+    gradient_color: style.gradientColor ?? null,
+    gradient_angle: style.gradientAngle ?? 0,
+    eye_outer_color: style.eyeOuterColor ?? null,
+    eye_inner_color: style.eyeInnerColor ?? null,
+    background_mode: style.backgroundMode ?? 'solid',
+  };
+  const image = style.backgroundMode === 'image' ? style.backgroundImageDataUrl ?? null : null;
+  if (image !== (savedBackgroundImage ?? null)) input.background_image = image;
+  return input;
+}
@@ -3,7 +3,14 @@
  */
 
 import type { QRMatrix, QRStyleConfig } from '@/types/qr';
-import { getModulePath, getFinderPatternPaths, isFinderPattern, isFinderSeparator } from './shapes';
+import {
+  getModulePath,
+  getModuleNeighbors,
+  getFinderPatternPaths,
+  isFinderPattern,
+  isFinderSeparator,
+} from './shapes';
+import { getForegroundPaint, getEyeColors, getBackgroundLayer } from './paint';
 
 export interface SVGOptions {
   size?: number;
@@ -27,71 +34,43 @@ export function buildStyledSVG(
 
   const viewBoxSize = moduleCount + (quietZone * 2);
 
+  // Finder patterns and their separators are drawn separately
+  const isDataModule = (row: number, col: number) =>
+    row >= 0 && col >= 0 && row < moduleCount && col < moduleCount &&
+    !isFinderPattern(row, col, moduleCount) &&
+    !isFinderSeparator(row, col, moduleCount) &&
+    !!matrix.modules.get(row, col);
+
   // Collect paths for data modules
   const modulePaths: string[] = [];
 
   // Process each module
   for (let row = 0; row < moduleCount; row++) {
     for (let col = 0; col < moduleCount; col++) {
-      // Skip finder patterns - we'll draw them separately
-      if (isFinderPattern(row, col, moduleCount)) continue;
-
-      // Skip finder separators
-      if (isFinderSeparator(row, col, moduleCount)) continue;
-
-      // Check if module is set
-      const isSet = matrix.modules.get(row, col);
-      if (!isSet) continue;
+      if (!isDataModule(row, col)) continue;
 
       const x = quietZone + col * moduleSize;
       const y = quietZone + row * moduleSize;
 
-      modulePaths.push(getModulePath(style.moduleShape, x, y, moduleSize));
+      modulePaths.push(
+        getModulePath(style.moduleShape, x, y, moduleSize, getModuleNeighbors(isDataModule, row, col))
+      );
     }
   }
 
-  // Build finder patterns
-  const finderPatterns: string[] = [];
-
-  // Top-left finder pattern
-  finderPatterns.push(
-    ...getFinderPatternPaths(
-      style.eyeShape,
-      quietZone,
-      quietZone,
-      moduleSize,
-      style.foregroundColor,
-      style.backgroundColor
-    )
-  );
-
-  // Top-right finder pattern
-  finderPatterns.push(
-    ...getFinderPatternPaths(
-      style.eyeShape,
-      quietZone + (moduleCount - 7) * moduleSize,
-      quietZone,
-      moduleSize,
-      style.foregroundColor,
-      style.backgroundColor
-    )
-  );
-
-  // Bottom-left finder pattern
-  finderPatterns.push(
-    ...getFinderPatternPaths(
-      style.eyeShape,
-      quietZone,
-      quietZone + (moduleCount - 7) * moduleSize,
-      moduleSize,
-      style.foregroundColor,
-      style.backgroundColor
-    )
-  );
-
-  // Build logo element if provided
+  const foreground = getForegroundPaint(style, viewBoxSize);
+  const eyeColors = getEyeColors(style, foreground.fill);
+
+  // Build finder patterns: top-left, top-right, bottom-left
+  const finderPatterns: string[] = [
+    [quietZone, quietZone],
+    [quietZone + (moduleCount - 7) * moduleSize, quietZone],
+    [quietZone, quietZone + (moduleCount - 7) * moduleSize],
+  ].flatMap(([x, y]) => getFinderPatternPaths(style.eyeShape, x, y, moduleSize, eyeColors));
+
+  // Build logo element if provided; a placeholder is the blank backing alone
   let logoElement = '';
-  if (logoDataUri && style.logoSizeRatio) {
+  if ((logoDataUri || style.logoMode === 'placeholder') && style.logoSizeRatio) {
     const logoSize = viewBoxSize * style.logoSizeRatio;
     const logoX = (viewBoxSize - logoSize) / 2;
     const logoY = (viewBoxSize - logoSize) / 2;
@@ -105,7 +84,9 @@ export function buildStyledSVG(
       width="${logoSize + padding * 2}"
       height="${logoSize + padding * 2}"
       fill="${style.backgroundColor}"
-    />
+    />`;
+    if (logoDataUri) {
+      logoElement += `
     <image
       href="${logoDataUri}"
       x="${logoX}"
@@ -114,10 +95,12 @@ export function buildStyledSVG(
       height="${logoSize}"
       preserveAspectRatio="xMidYMid meet"
     />`;
+    }
   }
 
   // Assemble SVG
   const xmlDecl = includeXmlDeclaration ? '<?xml version="1.0" encoding="UTF-8"?>\n' : '';
+  const defs = foreground.defs ? `<defs>${foreground.defs}</defs>\n  ` : '';
 
   return `${xmlDecl}<svg
   xmlns="http://www.w3.org/2000/svg"
@@ -125,8 +108,8 @@ export function buildStyledSVG(
   viewBox="0 0 ${viewBoxSize} ${viewBoxSize}"
   shape-rendering="crispEdges"
 >
-  <rect width="100%" height="100%" fill="${style.backgroundColor}"/>
-  <path fill="${style.foregroundColor}" d="${modulePaths.join('')}"/>
+  ${defs}${getBackgroundLayer(style, viewBoxSize)}
+  <path fill="${foreground.fill}" d="${modulePaths.join('')}"/>
   ${finderPatterns.join('\n  ')}
   ${logoElement}
 </svg>`;
@@ -1,17 +1,23 @@
 /**
  * Custom SVG generator for styled QR codes
- * Supports different module shapes, eye shapes, and logo placement
+ * Supports different module shapes, eye shapes, gradients, backgrounds
+ * and logo placement
  */
 
 import QRCode from 'qrcode';
-import { getModulePath, getFinderPatternPaths, isFinderPattern, isFinderSeparator } from './shapes';
+import {
+  getModulePath,
+  getModuleNeighbors,
+  getFinderPatternPaths,
+  isFinderPattern,
+  isFinderSeparator,
+} from './shapes';
 import type { ModuleShape, EyeShape } from './shapes';
-import type { ErrorCorrectionLevel, LogoMode } from '@/types/qr';
+import { getForegroundPaint, getEyeColors, getBackgroundLayer } from './paint';
+import type { ErrorCorrectionLevel, LogoMode, QRStylePaint } from '@/types/qr';
 
-export interface StyledSVGOptions {
+export interface StyledSVGOptions extends QRStylePaint {
   errorCorrection: ErrorCorrectionLevel;
-  foregroundColor: string;
-  backgroundColor: string;
   moduleShape: ModuleShape;
   eyeShape: EyeShape;
   quietZone: number;
@@ -51,7 +57,6 @@ export async function generateStyledSVG(
 ): Promise<string> {
   const {
     errorCorrection,
-    foregroundColor,
     backgroundColor,
     moduleShape,
     eyeShape,
@@ -78,63 +83,43 @@ export async function generateStyledSVG(
   const logoPixelSize = matrixSize * moduleSize * logoSizeRatio;
   const logoOffset = (svgSize - logoPixelSize) / 2;
 
+  // Dark data modules; finder patterns, their separators and the logo
+  // area are left out
+  const isDataModule = (row: number, col: number) =>
+    row >= 0 && col >= 0 && row < matrixSize && col < matrixSize &&
+    !isFinderPattern(row, col, matrixSize) &&
+    !isFinderSeparator(row, col, matrixSize) &&
+    !(hasLogo && isInLogoArea(row, col, matrixSize, logoSizeRatio + 0.05)) &&
+    !!modules.get(row, col);
+
   // Build SVG paths
   const modulePaths: string[] = [];
 
-  // Generate data modules (skip finder patterns and logo area)
   for (let row = 0; row < matrixSize; row++) {
     for (let col = 0; col < matrixSize; col++) {
-      // Skip finder patterns - we'll draw them separately with eye shape
-      if (isFinderPattern(row, col, matrixSize)) continue;
-      // Skip finder separators
-      if (isFinderSeparator(row, col, matrixSize)) continue;
-      // Skip logo area if logo is enabled
-      if (hasLogo && isInLogoArea(row, col, matrixSize, logoSizeRatio + 0.05)) continue;
-
-      // Only draw dark modules
-      if (modules.get(row, col)) {
-        const x = margin + col * moduleSize;
-        const y = margin + row * moduleSize;
-        modulePaths.push(getModulePath(moduleShape, x, y, moduleSize));
-      }
+      if (!isDataModule(row, col)) continue;
+
+      const x = margin + col * moduleSize;
+      const y = margin + row * moduleSize;
+      modulePaths.push(
+        getModulePath(moduleShape, x, y, moduleSize, getModuleNeighbors(isDataModule, row, col))
+      );
     }
   }
 
-  // Generate finder patterns (eyes)
-  const finderPatterns: string[] = [];
-
-  // Top-left eye
-  finderPatterns.push(
-    ...getFinderPatternPaths(eyeShape, margin, margin, moduleSize, foregroundColor, backgroundColor)
-  );
-
-  // Top-right eye
-  finderPatterns.push(
-    ...getFinderPatternPaths(
-      eyeShape,
-      margin + (matrixSize - 7) * moduleSize,
-      margin,
-      moduleSize,
-      foregroundColor,
-      backgroundColor
-    )
-  );
+  const foreground = getForegroundPaint(options, svgSize);
+  const eyeColors = getEyeColors(options, foreground.fill);
 
-  // Bottom-left eye
-  finderPatterns.push(
-    ...getFinderPatternPaths(
-      eyeShape,
-      margin,
-      margin + (matrixSize - 7) * moduleSize,
-      moduleSize,
-      foregroundColor,
-      backgroundColor
-    )
-  );
+  // Generate finder patterns (eyes): top-left, top-right, bottom-left
+  const finderPatterns = [
+    [margin, margin],
+    [margin + (matrixSize - 7) * moduleSize, margin],
+    [margin, margin + (matrixSize - 7) * moduleSize],
+  ].flatMap(([x, y]) => getFinderPatternPaths(eyeShape, x, y, moduleSize, eyeColors));
 
   // Generate logo element
   let logoElement = '';
-  if (logoMode === 'placeholder') {
+  if (logoMode === 'placeholder' && options.backgroundMode !== 'transparent') {
     // Draw a blank square (just background color, no stroke)
     logoElement = `
   <rect x="${logoOffset}" y="${logoOffset}" width="${logoPixelSize}" height="${logoPixelSize}" fill="${backgroundColor}" />`;
@@ -149,10 +134,12 @@ export async function generateStyledSVG(
   const viewBox = `0 0 ${svgSize} ${svgSize}`;
   const widthHeight = size ? `width="${size}" height="${size}"` : '';
 
+  const defs = foreground.defs ? `<defs>${foreground.defs}</defs>\n  ` : '';
+
   const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="${viewBox}" ${widthHeight} shape-rendering="crispEdges">
-  <rect width="100%" height="100%" fill="${backgroundColor}"/>
+  ${defs}${getBackgroundLayer(options, svgSize)}
   ${finderPatterns.join('\n  ')}
-  <path d="${modulePaths.join(' ')}" fill="${foregroundColor}"/>${logoElement}
+  <path d="${modulePaths.join(' ')}" fill="${foreground.fill}"/>${logoElement}
 </svg>`;
 
   return svg;
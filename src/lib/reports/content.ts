@@ -0,0 +1,172 @@
+import { daysInclusive, localToday, shiftDay, type AnalyticsRange } from '@/lib/analytics/rollups';
+import { resolveTimeZone } from '@/lib/timezone';
+import type { BioAnalyticsSummary } from '@/lib/analytics/bio-summary';
+import type { AnalyticsSummary } from '@/types/qr';
+import type { OrgAnalyticsSummary } from '@/types/organization';
+
+/**
+ * Monthly report content.
+ *
+ * Turns an analytics summary (org, QR code or bio page) into what the
+ * report PDF lays out: headline metrics against the previous month, a daily
+ * chart and breakdown tables. Pure, so the reports cron and the preview
+ * endpoint build identical reports and both can be tested without pdf-lib.
+ */
+
+export type ReportColor = readonly [number, number, number];
+
+export interface ReportMetric {
+  label: string;
+  value: number;
+  /** Same metric over the previous month */
+  previous: number;
+}
+
+export interface ReportSeries {
+  label: string;
+  color: ReportColor;
+  /** One value per day of the chart */
+  values: number[];
+}
+
+export interface ReportChart {
+  title: string;
+  /** YYYY-MM-DD, oldest first */
+  days: string[];
+  series: ReportSeries[];
+}
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  /** First cell is the label, the rest are counts */
+  rows: Array<[string, ...number[]]>;
+}
+
+export interface ReportContent {
+  title: string;
+  subtitle: string;
+  timezone: string;
+  metrics: ReportMetric[];
+  chart: ReportChart;
+  tables: ReportTable[];
+}
+
+// The app's lime accent and a neutral companion series
+const PRIMARY: ReportColor = [0.52, 0.8, 0.09];
+const SECONDARY: ReportColor = [0.44, 0.44, 0.48];
+
+const TABLE_ROWS = 10;
+
+/**
+ * The last whole calendar month in `timeZone` as an analytics range (bots
+ * excluded), e.g. 1–30 September when it is October there.
+ */
+export function lastCompleteMonth(
+  timeZone: string | null | undefined,
+  now: Date = new Date(),
+): AnalyticsRange {
+  const timezone = resolveTimeZone(timeZone);
+  const monthStart = `${localToday(timezone, now).substring(0, 7)}-01`;
+  const to = shiftDay(monthStart, -1);
+  const from = `${to.substring(0, 7)}-01`;
+  return { period: 'custom', from, to, days: daysInclusive(from, to), timezone, include_bots: false };
+}
+
+/** "September 2026" */
+export function monthLabel(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-GB', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function table<T>(
+  title: string,
+  columns: string[],
+  items: T[],
+  row: (item: T) => [string, ...number[]],
+): ReportTable {
+  return { title, columns, rows: items.slice(0, TABLE_ROWS).map(row) };
+}
+
+export function orgReportContent(orgName: string, summary: OrgAnalyticsSummary): ReportContent {
+  const { totals, previous, timeline } = summary;
+  return {
+    title: orgName,
+    subtitle: `Monthly report · ${monthLabel(summary.range.from)}`,
+    timezone: summary.range.timezone,
+    metrics: [
+      { label: 'QR scans', value: totals.scans, previous: previous.scans },
+      { label: 'Page views', value: totals.views, previous: previous.views },
+      { label: 'Link clicks', value: totals.clicks, previous: previous.clicks },
+      { label: 'Form submissions', value: totals.submissions, previous: previous.submissions },
+    ],
+    chart: {
+      title: 'Scans and page views by day',
+      days: timeline.map((d) => d.date),
+      series: [
+        { label: 'Scans', color: PRIMARY, values: timeline.map((d) => d.scans) },
+        { label: 'Views', color: SECONDARY, values: timeline.map((d) => d.views) },
+      ],
+    },
+    tables: [
+      table('Top QR codes', ['QR code', 'Scans'], summary.top_qr_codes, (q) => [q.name, q.scans]),
+      table('Top bio pages', ['Page', 'Views', 'Clicks', 'Submissions'], summary.top_pages, (p) => [
+        p.title,
+        p.views,
+        p.clicks,
+        p.submissions,
+      ]),
+    ],
+  };
+}
+
+export function qrReportContent(qrName: string, summary: AnalyticsSummary): ReportContent {
+  return {
+    title: qrName,
+    subtitle: `QR code report · ${monthLabel(summary.range.from)}`,
+    timezone: summary.range.timezone,
+    metrics: [
+      { label: 'Scans', value: summary.period_scans, previous: summary.previous.scans },
+      { label: 'Unique visitors', value: summary.unique_visitors, previous: summary.previous.unique_visitors },
+    ],
+    chart: {
+      title: 'Scans by day',
+      days: summary.scans_by_day.map((d) => d.date),
+      series: [{ label: 'Scans', color: PRIMARY, values: summary.scans_by_day.map((d) => d.count) }],
+    },
+    tables: [
+      table('Countries', ['Country', 'Scans'], summary.top_countries, (c) => [c.country, c.count]),
+      table('Devices', ['Device', 'Scans'], summary.top_devices, (d) => [d.device, d.count]),
+      table('Referrers', ['Referrer', 'Scans'], summary.top_referrers, (r) => [r.domain, r.count]),
+    ],
+  };
+}
+
+export function bioReportContent(pageTitle: string, summary: BioAnalyticsSummary): ReportContent {
+  return {
+    title: pageTitle,
+    subtitle: `Bio page report · ${monthLabel(summary.range.from)}`,
+    timezone: summary.range.timezone,
+    metrics: [
+      { label: 'Page views', value: summary.period_views, previous: summary.previous.views },
+      { label: 'Link clicks', value: summary.total_clicks, previous: summary.previous.clicks },
+      { label: 'Unique visitors', value: summary.unique_visitors, previous: summary.previous.unique_visitors },
+    ],
+    chart: {
+      title: 'Views and clicks by day',
+      days: summary.views_by_day.map((d) => d.date),
+      series: [
+        { label: 'Views', color: PRIMARY, values: summary.views_by_day.map((d) => d.count) },
+        { label: 'Clicks', color: SECONDARY, values: summary.clicks_by_day.map((d) => d.count) },
+      ],
+    },
+    tables: [
+      table('Countries', ['Country', 'Views'], summary.top_countries, (c) => [c.country, c.count]),
+      table('Devices', ['Device', 'Views'], summary.top_devices, (d) => [d.device, d.count]),
+      table('Referrers', ['Referrer', 'Views'], summary.top_referrers, (r) => [r.domain, r.count]),
+    ],
+  };
+}
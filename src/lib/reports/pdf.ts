@@ -0,0 +1,326 @@
+/**
+ * Monthly report PDF using pdf-lib
+ *
+ * Lays out ReportContent on A4 pages: a header, headline metric cards with
+ * the change on the previous month, a daily bar chart and breakdown tables.
+ * Charts and tables are drawn with plain rectangles and text so the PDF
+ * needs no fonts or images beyond pdf-lib's standard Helvetica.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib';
+import { MM_TO_POINTS } from '@/lib/qr/exporters/pdf';
+import type { ReportChart, ReportColor, ReportContent, ReportMetric, ReportTable } from './content';
+
+const PAGE_WIDTH = 210 * MM_TO_POINTS;
+const PAGE_HEIGHT = 297 * MM_TO_POINTS;
+const MARGIN = 18 * MM_TO_POINTS;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Room kept free at the bottom of every page for the footer
+const FOOTER_SPACE = 24;
+
+const INK = rgb(0.09, 0.09, 0.11);
+const MUTED = rgb(0.44, 0.44, 0.48);
+const RULE = rgb(0.86, 0.86, 0.88);
+const SHADE = rgb(0.95, 0.95, 0.96);
+const UP = rgb(0.2, 0.55, 0.1);
+const DOWN = rgb(0.75, 0.15, 0.15);
+
+const CHART_HEIGHT = 170;
+const CHART_AXIS_WIDTH = 36;
+const TABLE_ROW_HEIGHT = 16;
+const TABLE_NUMBER_WIDTH = 72;
+
+// Beyond ASCII and Latin-1, the only characters Helvetica's WinAnsi
+// encoding can draw; anything else would make drawText throw
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+/** Replace characters the standard fonts can't encode */
+export function pdfSafeText(text: string): string {
+  return Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map((ch) => {
+      const code = ch.codePointAt(0)!;
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return ch;
+      return WIN_ANSI_EXTRAS.includes(ch) ? ch : '?';
+    })
+    .join('');
+}
+
+function formatCount(n: number): string {
+  return n.toLocaleString('en-GB');
+}
+
+/** "+12% on last month", "new", … */
+function describeChange(metric: ReportMetric): { text: string; color: ReturnType<typeof rgb> } {
+  if (metric.previous === 0) {
+    return { text: metric.value > 0 ? 'new this month' : 'no activity', color: MUTED };
+  }
+  const change = Math.round(((metric.value - metric.previous) / metric.previous) * 100);
+  if (change === 0) return { text: 'same as last month', color: MUTED };
+  return {
+    text: `${change > 0 ? '+' : ''}${change}% on last month (${formatCount(metric.previous)})`,
+    color: change > 0 ? UP : DOWN,
+  };
+}
+
+/** Round up to 1, 2 or 5 × 10^n so the axis labels are tidy */
+function niceMax(value: number): number {
+  if (value <= 4) return 4;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  for (const step of [1, 2, 5, 10]) {
+    if (step * magnitude >= value) return step * magnitude;
+  }
+  return 10 * magnitude;
+}
+
+function color(c: ReportColor) {
+  return rgb(c[0], c[1], c[2]);
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+/**
+ * Render a report. `generatedAt` is printed in the footer along with the
+ * timezone the days are counted in.
+ */
+export async function createReportPdf(
+  content: ReportContent,
+  generatedAt: Date = new Date()
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(pdfSafeText(`${content.title} – ${content.subtitle}`));
+  pdfDoc.setProducer('OneSign – Lynx');
+
+  const fonts: Fonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  // Top of the next thing to draw
+  let y = PAGE_HEIGHT - MARGIN;
+
+  function text(
+    value: string,
+    x: number,
+    baseline: number,
+    options: { size: number; font?: PDFFont; color?: ReturnType<typeof rgb>; maxWidth?: number; align?: 'left' | 'right' }
+  ) {
+    const font = options.font ?? fonts.regular;
+    let safe = pdfSafeText(value);
+    if (options.maxWidth !== undefined && font.widthOfTextAtSize(safe, options.size) > options.maxWidth) {
+      while (safe.length > 1 && font.widthOfTextAtSize(`${safe}…`, options.size) > options.maxWidth) {
+        safe = safe.slice(0, -1);
+      }
+      safe = `${safe.trimEnd()}…`;
+    }
+    const width = font.widthOfTextAtSize(safe, options.size);
+    page.drawText(safe, {
+      x: options.align === 'right' ? x - width : x,
+      y: baseline,
+      size: options.size,
+      font,
+      color: options.color ?? INK,
+    });
+  }
+
+  /** Start a new page when `height` won't fit above the footer */
+  function ensureSpace(height: number) {
+    if (y - height >= MARGIN + FOOTER_SPACE) return;
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // ─── Header ─────────────────────────────────────────────────────
+  text(content.title, MARGIN, y - 20, { size: 20, font: fonts.bold, maxWidth: CONTENT_WIDTH });
+  text(content.subtitle, MARGIN, y - 38, { size: 11, color: MUTED, maxWidth: CONTENT_WIDTH });
+  y -= 52;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    color: RULE,
+    thickness: 1,
+  });
+  y -= 16;
+
+  // ─── Metric cards ───────────────────────────────────────────────
+  drawMetrics(content.metrics);
+
+  // ─── Chart ──────────────────────────────────────────────────────
+  drawChart(content.chart);
+
+  // ─── Tables ─────────────────────────────────────────────────────
+  for (const table of content.tables) drawTable(table);
+
+  // ─── Footers ────────────────────────────────────────────────────
+  const pages = pdfDoc.getPages();
+  const generated = generatedAt.toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: content.timezone,
+  });
+  pages.forEach((p, index) => {
+    page = p;
+    const baseline = MARGIN - 4;
+    text(`Generated ${generated} · Days in ${content.timezone} · Bot traffic excluded`, MARGIN, baseline, {
+      size: 8,
+      color: MUTED,
+    });
+    text(`Page ${index + 1} of ${pages.length}`, PAGE_WIDTH - MARGIN, baseline, {
+      size: 8,
+      color: MUTED,
+      align: 'right',
+    });
+  });
+
+  return pdfDoc.save();
+
+  function drawMetrics(metrics: ReportMetric[]) {
+    if (metrics.length === 0) return;
+    const gap = 8;
+    const height = 62;
+    const width = (CONTENT_WIDTH - gap * (metrics.length - 1)) / metrics.length;
+    ensureSpace(height);
+
+    metrics.forEach((metric, index) => {
+      const x = MARGIN + index * (width + gap);
+      page.drawRectangle({
+        x,
+        y: y - height,
+        width,
+        height,
+        borderColor: RULE,
+        borderWidth: 1,
+      });
+      const change = describeChange(metric);
+      text(metric.label, x + 8, y - 16, { size: 9, color: MUTED, maxWidth: width - 16 });
+      text(formatCount(metric.value), x + 8, y - 38, { size: 18, font: fonts.bold, maxWidth: width - 16 });
+      text(change.text, x + 8, y - 53, { size: 7.5, color: change.color, maxWidth: width - 16 });
+    });
+    y -= height + 24;
+  }
+
+  function drawChart(chart: ReportChart) {
+    ensureSpace(CHART_HEIGHT + 48);
+    text(chart.title, MARGIN, y - 12, { size: 12, font: fonts.bold });
+
+    // Legend, right-aligned on the title line
+    let legendX = PAGE_WIDTH - MARGIN;
+    for (const series of [...chart.series].reverse()) {
+      const labelWidth = fonts.regular.widthOfTextAtSize(pdfSafeText(series.label), 9);
+      legendX -= labelWidth;
+      text(series.label, legendX, y - 12, { size: 9, color: MUTED });
+      legendX -= 12;
+      page.drawRectangle({ x: legendX, y: y - 12, width: 8, height: 8, color: color(series.color) });
+      legendX -= 12;
+    }
+    y -= 24;
+
+    const plotLeft = MARGIN + CHART_AXIS_WIDTH;
+    const plotWidth = CONTENT_WIDTH - CHART_AXIS_WIDTH;
+    const plotBottom = y - CHART_HEIGHT;
+    const max = niceMax(Math.max(0, ...chart.series.flatMap((s) => s.values)));
+
+    // Horizontal gridlines with their values
+    for (let i = 0; i <= 4; i++) {
+      const lineY = plotBottom + (CHART_HEIGHT * i) / 4;
+      page.drawLine({
+        start: { x: plotLeft, y: lineY },
+        end: { x: plotLeft + plotWidth, y: lineY },
+        color: i === 0 ? MUTED : RULE,
+        thickness: i === 0 ? 0.75 : 0.5,
+      });
+      text(formatCount(Math.round((max * i) / 4)), plotLeft - 6, lineY - 3, {
+        size: 7.5,
+        color: MUTED,
+        align: 'right',
+      });
+    }
+
+    const days = chart.days.length;
+    if (days > 0 && chart.series.length > 0) {
+      const slot = plotWidth / days;
+      const barWidth = (slot * 0.8) / chart.series.length;
+      // Label about one day a week so they never overlap
+      const labelEvery = Math.max(1, Math.ceil(days / 10));
+
+      chart.days.forEach((day, dayIndex) => {
+        const slotX = plotLeft + dayIndex * slot + slot * 0.1;
+        chart.series.forEach((series, seriesIndex) => {
+          const value = series.values[dayIndex] ?? 0;
+          if (value <= 0) return;
+          page.drawRectangle({
+            x: slotX + seriesIndex * barWidth,
+            y: plotBottom,
+            width: barWidth,
+            height: (value / max) * CHART_HEIGHT,
+            color: color(series.color),
+          });
+        });
+        if (dayIndex % labelEvery === 0) {
+          const label = String(Number(day.substring(8, 10)));
+          const width = fonts.regular.widthOfTextAtSize(label, 7.5);
+          text(label, plotLeft + dayIndex * slot + (slot - width) / 2, plotBottom - 11, {
+            size: 7.5,
+            color: MUTED,
+          });
+        }
+      });
+    }
+
+    y = plotBottom - 32;
+  }
+
+  function drawTable(table: ReportTable) {
+    const numberColumns = table.columns.length - 1;
+    const labelWidth = CONTENT_WIDTH - numberColumns * TABLE_NUMBER_WIDTH;
+    ensureSpace(20 + TABLE_ROW_HEIGHT * Math.min(3, table.rows.length + 1));
+
+    text(table.title, MARGIN, y - 12, { size: 12, font: fonts.bold });
+    y -= 20;
+
+    drawRow(table.columns, true);
+    if (table.rows.length === 0) {
+      text('No activity this month', MARGIN + 6, y - 11, { size: 9, color: MUTED });
+      y -= TABLE_ROW_HEIGHT;
+    }
+    for (const row of table.rows) {
+      ensureSpace(TABLE_ROW_HEIGHT);
+      drawRow(row.map((cell, index) => (index === 0 ? String(cell || '—') : formatCount(Number(cell)))), false);
+    }
+    y -= 20;
+
+    function drawRow(cells: string[], header: boolean) {
+      if (header) {
+        page.drawRectangle({
+          x: MARGIN,
+          y: y - TABLE_ROW_HEIGHT,
+          width: CONTENT_WIDTH,
+          height: TABLE_ROW_HEIGHT,
+          color: SHADE,
+        });
+      } else {
+        page.drawLine({
+          start: { x: MARGIN, y: y - TABLE_ROW_HEIGHT },
+          end: { x: PAGE_WIDTH - MARGIN, y: y - TABLE_ROW_HEIGHT },
+          color: RULE,
+          thickness: 0.5,
+        });
+      }
+      const font = header ? fonts.bold : fonts.regular;
+      const baseline = y - 11;
+      cells.forEach((cell, index) => {
+        if (index === 0) {
+          text(cell, MARGIN + 6, baseline, { size: 9, font, maxWidth: labelWidth - 12 });
+        } else {
+          const right = MARGIN + labelWidth + index * TABLE_NUMBER_WIDTH - 6;
+          text(cell, right, baseline, { size: 9, font, align: 'right', maxWidth: TABLE_NUMBER_WIDTH - 12 });
+        }
+      });
+      y -= TABLE_ROW_HEIGHT;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ReportScheduleSummary } from '@/types/report';
+
+/**
+ * Dashboard reads for report schedules, shared by /api/org/reports and the
+ * reports settings page. RLS scopes them to org members.
+ */
+
+export const REPORT_SCHEDULE_SUMMARY_COLUMNS =
+  'id, created_by, qr_id, page_id, recipient_ids, is_active, last_period, last_sent_at, last_status, created_at, updated_at';
+
+type SummaryRow = Omit<ReportScheduleSummary, 'scope' | 'target_name'> & {
+  qr_codes: { name: string } | { name: string }[] | null;
+  bio_link_pages: { title: string } | { title: string }[] | null;
+};
+
+function first<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+/** Flatten a schedule row with its embedded QR code / bio page into a summary */
+export function toReportScheduleSummary(row: SummaryRow): ReportScheduleSummary {
+  const { qr_codes, bio_link_pages, ...schedule } = row;
+  if (schedule.qr_id) {
+    return { ...schedule, scope: 'qr', target_name: first(qr_codes)?.name ?? 'Deleted' };
+  }
+  if (schedule.page_id) {
+    return { ...schedule, scope: 'bio', target_name: first(bio_link_pages)?.title ?? 'Deleted' };
+  }
+  return { ...schedule, scope: 'org', target_name: 'Whole organisation' };
+}
+
+export async function listReportSchedules(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<ReportScheduleSummary[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select(`${REPORT_SCHEDULE_SUMMARY_COLUMNS}, qr_codes(name), bio_link_pages(title)`)
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load report schedules: ${error.message}`);
+  return ((data ?? []) as SummaryRow[]).map(toReportScheduleSummary);
+}
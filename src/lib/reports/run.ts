@@ -0,0 +1,248 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { REPORT_DEFAULTS } from '@/lib/constants';
+import { sendEmail, type SendEmailStatus } from '@/lib/email/resend';
+import { renderReportEmail } from '@/lib/email/send-report';
+import { getOrgAnalyticsSummary } from '@/lib/analytics/org-summary';
+import { getQRAnalyticsSummary } from '@/lib/analytics/qr-summary';
+import { getBioAnalyticsSummary } from '@/lib/analytics/bio-summary';
+import { filenameStem } from '@/lib/analytics/export';
+import type { AnalyticsRange } from '@/lib/analytics/rollups';
+import {
+  bioReportContent,
+  lastCompleteMonth,
+  orgReportContent,
+  qrReportContent,
+  type ReportContent,
+} from './content';
+import { createReportPdf } from './pdf';
+import type { ReportScheduleRecord } from '@/types/report';
+
+/**
+ * Reports cron: email last month's PDF report for every active schedule
+ * that hasn't had it yet. "Last month" is the last whole calendar month in
+ * the org's timezone, so each org gets its report once its own month has
+ * ended. Runs with the service-role client.
+ */
+
+const SCHEDULE_COLUMNS =
+  'id, org_id, created_by, qr_id, page_id, recipient_ids, is_active, last_period, last_sent_at, last_status, created_at, updated_at';
+
+/** What a report covers, with the counters the summaries need */
+export type ReportTarget =
+  | { type: 'org'; id: string; name: string }
+  | {
+      type: 'qr';
+      id: string;
+      name: string;
+      total_scans: number;
+      bot_scans: number;
+      destination_variants: unknown;
+    }
+  | { type: 'bio'; id: string; name: string; total_views: number; bot_views: number };
+
+interface QrEmbed {
+  id: string;
+  name: string;
+  total_scans: number;
+  bot_scans: number;
+  destination_variants: unknown;
+  deleted_at: string | null;
+}
+
+interface PageEmbed {
+  id: string;
+  title: string;
+  total_views: number;
+  bot_views: number;
+  deleted_at: string | null;
+}
+
+type OrgEmbed = { name: string; default_timezone: string | null };
+
+export interface ReportRunResult {
+  /** Schedules whose month was due */
+  due: number;
+  reports_sent: number;
+  emails_sent: number;
+}
+
+export interface BuiltReport {
+  content: ReportContent;
+  pdf: Uint8Array;
+  filename: string;
+}
+
+function first<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+/** The org, QR code and bio page a schedule row embeds */
+export const SCHEDULE_TARGET_EMBEDS =
+  'organizations(name, default_timezone), qr_codes(id, name, total_scans, bot_scans, destination_variants, deleted_at), bio_link_pages(id, title, total_views, bot_views, deleted_at)';
+
+export type ScheduleTargetRow = Pick<ReportScheduleRecord, 'org_id' | 'qr_id' | 'page_id'> & {
+  organizations: OrgEmbed | OrgEmbed[] | null;
+  qr_codes: QrEmbed | QrEmbed[] | null;
+  bio_link_pages: PageEmbed | PageEmbed[] | null;
+};
+
+type ScheduleRow = ReportScheduleRecord & ScheduleTargetRow;
+
+/**
+ * What a schedule reports on and the timezone its months are counted in.
+ * The target is null when its QR code or bio page has been deleted.
+ */
+export function scheduleTarget(row: ScheduleTargetRow): {
+  target: ReportTarget | null;
+  timeZone: string | null;
+} {
+  const org = first(row.organizations);
+  const qr = first(row.qr_codes);
+  const page = first(row.bio_link_pages);
+  const timeZone = org?.default_timezone ?? null;
+
+  if (row.qr_id) {
+    if (!qr || qr.deleted_at) return { target: null, timeZone };
+    return {
+      target: {
+        type: 'qr',
+        id: qr.id,
+        name: qr.name,
+        total_scans: qr.total_scans,
+        bot_scans: qr.bot_scans,
+        destination_variants: qr.destination_variants,
+      },
+      timeZone,
+    };
+  }
+  if (row.page_id) {
+    if (!page || page.deleted_at) return { target: null, timeZone };
+    return {
+      target: { type: 'bio', id: page.id, name: page.title, total_views: page.total_views, bot_views: page.bot_views },
+      timeZone,
+    };
+  }
+  return { target: { type: 'org', id: row.org_id, name: org?.name ?? 'Organisation' }, timeZone };
+}
+
+/** Summarise `target` over `range` and lay it out as a PDF */
+export async function buildReport(
+  supabase: SupabaseClient,
+  target: ReportTarget,
+  range: AnalyticsRange,
+  now: Date = new Date()
+): Promise<BuiltReport> {
+  let content: ReportContent;
+  switch (target.type) {
+    case 'org':
+      content = orgReportContent(target.name, await getOrgAnalyticsSummary(supabase, target.id, range));
+      break;
+    case 'qr':
+      content = qrReportContent(target.name, await getQRAnalyticsSummary(supabase, target, range));
+      break;
+    case 'bio':
+      content = bioReportContent(target.name, await getBioAnalyticsSummary(supabase, target, range));
+      break;
+  }
+
+  return {
+    content,
+    pdf: await createReportPdf(content, now),
+    filename: `${filenameStem(target)}-report-${range.from.substring(0, 7)}.pdf`,
+  };
+}
+
+/** Email addresses of the recipients who are still members of the org */
+async function memberEmails(
+  supabase: SupabaseClient,
+  orgId: string,
+  userIds: string[],
+  cache: Map<string, string | null>
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('org_id', orgId)
+    .in('user_id', userIds);
+  if (error) throw new Error(`member lookup failed: ${error.message}`);
+
+  const emails: string[] = [];
+  for (const { user_id } of (data ?? []) as Array<{ user_id: string }>) {
+    if (!cache.has(user_id)) {
+      const { data: authUser } = await supabase.auth.admin.getUserById(user_id);
+      cache.set(user_id, authUser?.user?.email ?? null);
+    }
+    const email = cache.get(user_id);
+    if (email) emails.push(email);
+  }
+  return emails;
+}
+
+/** Best outcome across a report's emails */
+function combineStatus(a: SendEmailStatus | undefined, b: SendEmailStatus): SendEmailStatus {
+  const rank: Record<SendEmailStatus, number> = { skipped: 0, failed: 1, sent: 2 };
+  return a && rank[a] >= rank[b] ? a : b;
+}
+
+/**
+ * Send the due reports, least recently sent schedules first. A schedule is
+ * marked with the month whatever the outcome (the status is kept on it) so
+ * a failing address can't cause a resend every hour.
+ */
+export async function runReports(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<ReportRunResult> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select(`${SCHEDULE_COLUMNS}, ${SCHEDULE_TARGET_EMBEDS}`)
+    .eq('is_active', true)
+    .order('last_period', { ascending: true, nullsFirst: true })
+    .limit(REPORT_DEFAULTS.BATCH_SIZE);
+  if (error) throw new Error(`Failed to load report schedules: ${error.message}`);
+
+  const emailCache = new Map<string, string | null>();
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? '';
+  const result: ReportRunResult = { due: 0, reports_sent: 0, emails_sent: 0 };
+
+  for (const schedule of (data ?? []) as ScheduleRow[]) {
+    const { target, timeZone } = scheduleTarget(schedule);
+    const month = lastCompleteMonth(timeZone, now);
+    if (schedule.last_period && schedule.last_period >= month.from) continue;
+    result.due++;
+
+    try {
+      const recipients = target
+        ? await memberEmails(supabase, schedule.org_id, schedule.recipient_ids, emailCache)
+        : [];
+
+      let status: SendEmailStatus | undefined;
+      if (target && recipients.length > 0) {
+        const report = await buildReport(supabase, target, month, now);
+        const email = renderReportEmail(report.content, appUrl);
+        const attachment = { filename: report.filename, content: Buffer.from(report.pdf).toString('base64') };
+
+        for (const to of recipients) {
+          const sent = await sendEmail({ to, ...email, attachments: [attachment] });
+          if (sent.status === 'sent') result.emails_sent++;
+          else if (sent.status === 'failed') console.error(`[reports] email to ${to} failed: ${sent.error}`);
+          status = combineStatus(status, sent.status);
+        }
+        if (status === 'sent') result.reports_sent++;
+      }
+
+      await supabase
+        .from('report_schedules')
+        .update({
+          last_period: month.from,
+          last_sent_at: now.toISOString(),
+          last_status: status ?? 'skipped',
+        })
+        .eq('id', schedule.id);
+    } catch (err) {
+      console.error(`[reports] schedule ${schedule.id} failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  return result;
+}
@@ -107,6 +107,10 @@ const upstashLimiters = {
   bioCreate: createUpstashLimiter(RATE_LIMITS.BIO_CREATE),
   bioTrack: createUpstashLimiter(RATE_LIMITS.BIO_TRACK),
   bioFormSubmit: createUpstashLimiter(RATE_LIMITS.BIO_FORM_SUBMIT, 3_600_000),
+  qrBulkCreate: createUpstashLimiter(RATE_LIMITS.QR_BULK_CREATE, 3_600_000),
+  apiKey: createUpstashLimiter(RATE_LIMITS.API_KEY),
+  webhookRedeliver: createUpstashLimiter(RATE_LIMITS.WEBHOOK_REDELIVER),
+  conversion: createUpstashLimiter(RATE_LIMITS.CONVERSION),
 };
 
 // ---------------------------------------------------------------------------
@@ -225,6 +229,46 @@ export function checkBioFormSubmitLimitAsync(identifier: string) {
   return checkLimit('bioFormSubmit', identifier, RATE_LIMITS.BIO_FORM_SUBMIT);
 }
 
+/** Rate limit for bulk QR creation (5 batches/hr) — sync/in-memory */
+export function checkQrBulkCreateLimit(identifier: string): RateLimitResult {
+  return checkMemoryRateLimit(`qr-bulk-create:${identifier}`, RATE_LIMITS.QR_BULK_CREATE, 3_600_000);
+}
+
+/** Async rate limit for bulk QR creation — uses Upstash Redis in production */
+export function checkQrBulkCreateLimitAsync(identifier: string) {
+  return checkLimit('qrBulkCreate', identifier, RATE_LIMITS.QR_BULK_CREATE);
+}
+
+/** Rate limit for /api/v1 requests per API key (120/min) — sync/in-memory */
+export function checkApiKeyLimit(identifier: string): RateLimitResult {
+  return checkMemoryRateLimit(`api-key:${identifier}`, RATE_LIMITS.API_KEY);
+}
+
+/** Async rate limit for /api/v1 requests per API key — uses Upstash Redis in production */
+export function checkApiKeyLimitAsync(identifier: string) {
+  return checkLimit('apiKey', identifier, RATE_LIMITS.API_KEY);
+}
+
+/** Rate limit for manual webhook redeliveries (10/min) — sync/in-memory */
+export function checkWebhookRedeliverLimit(identifier: string): RateLimitResult {
+  return checkMemoryRateLimit(`webhook-redeliver:${identifier}`, RATE_LIMITS.WEBHOOK_REDELIVER);
+}
+
+/** Async rate limit for manual webhook redeliveries — uses Upstash Redis in production */
+export function checkWebhookRedeliverLimitAsync(identifier: string) {
+  return checkLimit('webhookRedeliver', identifier, RATE_LIMITS.WEBHOOK_REDELIVER);
+}
+
+/** Rate limit for conversion pixel/beacon hits per IP (300/min) — sync/in-memory */
+export function checkConversionLimit(identifier: string): RateLimitResult {
+  return checkMemoryRateLimit(`conversion:${identifier}`, RATE_LIMITS.CONVERSION);
+}
+
+/** Async rate limit for conversion pixel/beacon hits — uses Upstash Redis in production */
+export function checkConversionLimitAsync(identifier: string) {
+  return checkLimit('conversion', identifier, RATE_LIMITS.CONVERSION);
+}
+
 // ---------------------------------------------------------------------------
 // Response headers
 // ---------------------------------------------------------------------------
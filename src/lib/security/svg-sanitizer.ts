@@ -11,7 +11,7 @@ export const SVG_PURIFY_CONFIG = {
   ADD_TAGS: [
     'svg', 'rect', 'circle', 'path', 'g', 'defs',
     'clipPath', 'use', 'image', 'polygon', 'polyline',
-    'line', 'ellipse',
+    'line', 'ellipse', 'linearGradient', 'radialGradient', 'stop',
   ],
   ADD_ATTR: [
     'viewBox', 'fill', 'stroke', 'stroke-width', 'd',
@@ -20,6 +20,7 @@ export const SVG_PURIFY_CONFIG = {
     'clip-path', 'href', 'preserveAspectRatio', 'points',
     'x1', 'y1', 'x2', 'y2', 'opacity', 'fill-opacity',
     'stroke-opacity', 'stroke-linecap', 'stroke-linejoin',
+    'fill-rule', 'id', 'offset', 'stop-color', 'gradientUnits', 'fx', 'fy',
   ],
   FORBID_TAGS: [
     'script', 'style', 'foreignObject', 'iframe',
@@ -0,0 +1,95 @@
+/**
+ * Timezone helpers.
+ *
+ * Organisations carry an optional IANA `default_timezone`. Anything that
+ * reasons about "local" time for an org (scheduled QR destinations, day
+ * bucketing) goes through these helpers so a missing or invalid zone falls
+ * back consistently instead of throwing inside a request handler.
+ */
+
+/** Fallback zone for orgs without a valid default_timezone (UK-first product). */
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+/** Wall-clock fields of an instant as seen in a given timezone. */
+export interface ZonedParts {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM (24h) */
+  time: string;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  /** 0-23 */
+  hour: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/** Returns true if the runtime recognises `tz` as an IANA timezone. */
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Returns `tz` if valid, otherwise DEFAULT_TIMEZONE. */
+export function resolveTimeZone(tz: string | null | undefined): string {
+  return tz && isValidTimeZone(tz) ? tz : DEFAULT_TIMEZONE;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Splits an instant into local date/time fields for `timeZone`.
+ * Invalid zones fall back to DEFAULT_TIMEZONE.
+ */
+export function getZonedParts(at: Date, timeZone: string | null | undefined): ZonedParts {
+  const parts = getFormatter(resolveTimeZone(timeZone)).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  const hour = get('hour');
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${hour}:${get('minute')}`,
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    hour: parseInt(hour, 10),
+  };
+}
+
+/**
+ * The instant local midnight starts on `date` (YYYY-MM-DD) in `timeZone`.
+ * Invalid zones fall back to DEFAULT_TIMEZONE.
+ */
+export function zonedDayStart(date: string, timeZone: string | null | undefined): Date {
+  const target = Date.parse(`${date}T00:00:00Z`);
+  let at = target;
+  // Two passes settle the offset even when midnight is next to a DST change
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(at), timeZone);
+    at -= Date.parse(`${parts.date}T${parts.time}:00Z`) - target;
+  }
+  return new Date(at);
+}
@@ -46,3 +46,28 @@ export function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str;
   return str.slice(0, maxLength - 3) + '...';
 }
+
+/**
+ * Append query params to a URL without re-serialising it: the existing
+ * query string is kept as-is, new params go after it and ahead of any
+ * #fragment. Params the URL already has are not overridden.
+ */
+export function appendQueryParams(url: string, params: Record<string, string>): string {
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : url.slice(hashIndex);
+
+  const queryIndex = base.indexOf('?');
+  const existing = new URLSearchParams(queryIndex === -1 ? '' : base.slice(queryIndex + 1));
+
+  const added = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (!existing.has(key)) added.append(key, value);
+  }
+  const query = added.toString();
+  if (!query) return url;
+
+  const separator =
+    queryIndex === -1 ? '?' : base.endsWith('?') || base.endsWith('&') ? '' : '&';
+  return `${base}${separator}${query}${fragment}`;
+}
@@ -0,0 +1,47 @@
+import { appendQueryParams } from '@/lib/utils';
+import type { UtmParams } from '@/types/qr';
+
+/**
+ * UTM campaign tagging for outbound destinations.
+ *
+ * Managed QR codes, bio links and link blocks can carry UTM tags, which are
+ * appended to the destination when the visitor is sent there (the /r/[slug]
+ * redirect, the public bio page). The stored destination is never rewritten,
+ * so tags can be changed — one code at a time or per campaign — without
+ * touching the URL itself.
+ */
+
+export const UTM_FIELDS = ['source', 'medium', 'campaign', 'content'] as const;
+
+export type UtmField = (typeof UTM_FIELDS)[number];
+
+/** Trimmed tags with empty values dropped; null when nothing is set */
+export function normalizeUtm(utm: UtmParams | null | undefined): UtmParams | null {
+  if (!utm) return null;
+
+  const normalized: UtmParams = {};
+  for (const field of UTM_FIELDS) {
+    const value = utm[field]?.trim();
+    if (value) normalized[field] = value;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+/**
+ * Append UTM tags to a destination URL.
+ *
+ * The existing query string is kept byte-for-byte and the tags go after it,
+ * ahead of any #fragment. A utm_* param already present in the destination
+ * wins over the stored tag, so hand-tagged URLs keep working.
+ */
+export function appendUtm(url: string, utm: UtmParams | null | undefined): string {
+  const tags = normalizeUtm(utm);
+  if (!tags || !url) return url;
+
+  const params: Record<string, string> = {};
+  for (const field of UTM_FIELDS) {
+    const value = tags[field];
+    if (value) params[`utm_${field}`] = value;
+  }
+  return appendQueryParams(url, params);
+}
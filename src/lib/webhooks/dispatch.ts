@@ -0,0 +1,264 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { validateUrlStrict } from '@/lib/security/url-validator-strict';
+import { WEBHOOK_DEFAULTS } from '@/lib/constants';
+import {
+  signWebhookPayload,
+  retryDelayMs,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+} from '@/lib/webhooks/signing';
+import type {
+  WebhookDelivery,
+  WebhookEventEnvelope,
+  WebhookEventType,
+} from '@/types/webhook';
+
+export const DELIVERY_COLUMNS =
+  'id, endpoint_id, org_id, event_id, event_type, payload, status, attempts, next_attempt_at, last_attempt_at, response_status, response_body, last_error, created_at';
+
+interface EndpointTarget {
+  id: string;
+  url: string;
+  secret: string;
+  is_active?: boolean;
+}
+
+/**
+ * Emit an event to every active endpoint of the org subscribed to it.
+ *
+ * Queues one delivery per endpoint and attempts each immediately; failures
+ * are left pending for the retry cron. Never throws — callers fire and
+ * forget, exactly like scan/view recording.
+ */
+export async function emitWebhookEvent(
+  orgId: string | null | undefined,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  if (!orgId) return;
+
+  try {
+    const supabase = createAdminClient();
+
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, secret')
+      .eq('org_id', orgId)
+      .eq('is_active', true)
+      .contains('events', [type]);
+
+    if (error) {
+      console.error('[webhooks] Failed to load endpoints:', error.message);
+      return;
+    }
+    if (!endpoints || endpoints.length === 0) return;
+
+    const eventId = randomUUID();
+    const { data: deliveries, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(
+        endpoints.map((endpoint) => ({
+          endpoint_id: endpoint.id,
+          org_id: orgId,
+          event_id: eventId,
+          event_type: type,
+          payload: data,
+        }))
+      )
+      .select(DELIVERY_COLUMNS);
+
+    if (insertError || !deliveries) {
+      console.error('[webhooks] Failed to queue deliveries:', insertError?.message);
+      return;
+    }
+
+    const byId = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint as EndpointTarget]));
+    await Promise.all(
+      (deliveries as WebhookDelivery[]).map((delivery) => {
+        const endpoint = byId.get(delivery.endpoint_id);
+        return endpoint ? attemptDelivery(supabase, delivery, endpoint) : undefined;
+      })
+    );
+  } catch (error) {
+    console.error('[webhooks] Failed to emit event:', error instanceof Error ? error.message : 'unknown error');
+  }
+}
+
+/**
+ * emitWebhookEvent for callers that only know the bio page — resolves the
+ * page's org first.
+ */
+export async function emitBioPageWebhookEvent(
+  pageId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const supabase = createAdminClient();
+    const { data: page } = await supabase
+      .from('bio_link_pages')
+      .select('org_id')
+      .eq('id', pageId)
+      .single();
+    await emitWebhookEvent(page?.org_id, type, data);
+  } catch (error) {
+    console.error('[webhooks] Failed to emit page event:', error instanceof Error ? error.message : 'unknown error');
+  }
+}
+
+export function buildEnvelope(delivery: WebhookDelivery): WebhookEventEnvelope {
+  return {
+    id: delivery.event_id,
+    type: delivery.event_type,
+    created_at: delivery.created_at,
+    org_id: delivery.org_id,
+    data: delivery.payload ?? {},
+  };
+}
+
+/**
+ * POST one delivery to its endpoint and record the outcome.
+ *
+ * A 2xx response succeeds. Anything else — non-2xx, timeout, network error,
+ * or a URL that now resolves to a private address — counts as a failed
+ * attempt and is rescheduled with exponential backoff until MAX_ATTEMPTS,
+ * after which the delivery is marked failed. Redirects are not followed.
+ */
+export async function attemptDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: EndpointTarget
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let lastError: string | null = null;
+
+  const validation = await validateUrlStrict(endpoint.url);
+  if (!validation.isValid) {
+    lastError = validation.error || 'Endpoint URL is not allowed';
+  } else {
+    const body = JSON.stringify(buildEnvelope(delivery));
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'OneSign-Lynx-Webhooks/1.0',
+          [WEBHOOK_EVENT_HEADER]: delivery.event_type,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_DEFAULTS.TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(
+        0,
+        WEBHOOK_DEFAULTS.RESPONSE_BODY_LIMIT
+      );
+      if (!response.ok) {
+        lastError = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      lastError =
+        error instanceof Error && error.name === 'TimeoutError'
+          ? `Timed out after ${WEBHOOK_DEFAULTS.TIMEOUT_MS / 1000}s`
+          : error instanceof Error
+            ? error.message
+            : 'Request failed';
+    }
+  }
+
+  const succeeded = lastError === null;
+  const exhausted = !succeeded && attempts >= WEBHOOK_DEFAULTS.MAX_ATTEMPTS;
+
+  const update = {
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    attempts,
+    last_attempt_at: now.toISOString(),
+    next_attempt_at:
+      succeeded || exhausted
+        ? null
+        : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+    response_status: responseStatus,
+    response_body: responseBody,
+    last_error: lastError,
+  } as const;
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id);
+  if (error) {
+    console.error('[webhooks] Failed to record delivery attempt:', error.message);
+  }
+
+  return { ...delivery, ...update };
+}
+
+/**
+ * Retry cron: attempt up to CRON_BATCH_SIZE due pending deliveries.
+ *
+ * Each delivery is claimed by pushing next_attempt_at forward only if it is
+ * unchanged, so overlapping runs never send the same attempt twice.
+ */
+export async function processDueDeliveries(
+  supabase: SupabaseClient
+): Promise<{ processed: number; succeeded: number }> {
+  const nowIso = new Date().toISOString();
+
+  const { data: due, error } = await supabase
+    .from('webhook_deliveries')
+    .select(`${DELIVERY_COLUMNS}, webhook_endpoints(id, url, secret, is_active)`)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', nowIso)
+    .order('next_attempt_at', { ascending: true })
+    .limit(WEBHOOK_DEFAULTS.CRON_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load due deliveries: ${error.message}`);
+  }
+
+  let processed = 0;
+  let succeeded = 0;
+  const leaseUntil = new Date(Date.now() + WEBHOOK_DEFAULTS.TIMEOUT_MS * 3).toISOString();
+
+  // Sequential — one slow receiver should not fan out into many open sockets
+  for (const row of due ?? []) {
+    const { webhook_endpoints: joined, ...delivery } = row as WebhookDelivery & {
+      webhook_endpoints: EndpointTarget | EndpointTarget[] | null;
+    };
+    const endpoint = Array.isArray(joined) ? joined[0] : joined;
+
+    const { data: claimed } = await supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: leaseUntil })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id');
+    if (!claimed || claimed.length === 0) continue;
+
+    if (!endpoint || endpoint.is_active === false) {
+      // Disabled endpoints keep their history but stop retrying
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'failed', next_attempt_at: null, last_error: 'Endpoint disabled' })
+        .eq('id', delivery.id);
+      continue;
+    }
+
+    const result = await attemptDelivery(supabase, delivery, endpoint);
+    processed++;
+    if (result.status === 'succeeded') succeeded++;
+  }
+
+  return { processed, succeeded };
+}
@@ -0,0 +1,73 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { WEBHOOK_DEFAULTS } from '@/lib/constants';
+
+/** Every signing secret starts with this so it is recognisable in logs and secret scanners. */
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Lynx-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Lynx-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Lynx-Delivery';
+
+/**
+ * 192-bit random secret, base64url-encoded with the whsec_ prefix.
+ */
+export function generateWebhookSecret(): string {
+  return WEBHOOK_SECRET_PREFIX + randomBytes(24).toString('base64url');
+}
+
+/**
+ * Sign a request body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ *
+ * The timestamp is part of the signed content so receivers can reject
+ * replays by checking it is recent.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Receiver-side check of a signature header — the reference for what
+ * customers implement. Rejects timestamps outside the tolerance window.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.trim(), rest.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const received = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !received) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+  const a = Buffer.from(received, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: doubles from
+ * BASE_RETRY_DELAY_MS (30s, 1m, 2m, …) up to MAX_RETRY_DELAY_MS.
+ */
+export function retryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(
+    WEBHOOK_DEFAULTS.BASE_RETRY_DELAY_MS * 2 ** exponent,
+    WEBHOOK_DEFAULTS.MAX_RETRY_DELAY_MS
+  );
+}
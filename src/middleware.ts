@@ -2,6 +2,11 @@ import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
 import { checkRedirectLimit, getRateLimitHeaders } from '@/lib/security/rate-limiter';
 import { resolveActiveOrgIdForMiddleware } from '@/lib/org/active-org';
+import {
+  normaliseHostHeader,
+  isPlatformHost,
+  resolveCustomDomain,
+} from '@/lib/domains/resolve-host';
 import {
   ADMIN_SESSION_COOKIE,
   verifyAdminSessionCookie,
@@ -25,6 +30,75 @@ export async function middleware(request: NextRequest) {
 
   const pathname = request.nextUrl.pathname;
 
+  // -----------------------------------------------------------------------
+  // Custom domains — a customer hostname serves exactly one bio page
+  //
+  // "/" renders /p/[slug]; the page's own public endpoints (view/click
+  // tracking and form submissions) are let through without the CSRF check,
+  // since their Origin is the custom host and they carry no session.
+  // Everything else on a custom host is a 404 — the dashboard and QR
+  // redirects only live on the platform hosts.
+  // -----------------------------------------------------------------------
+  const host = normaliseHostHeader(request.headers.get('host'));
+  if (host && !isPlatformHost(host)) {
+    const slug = await resolveCustomDomain(host);
+    if (slug) {
+      if (
+        pathname === '/api/bio/track' ||
+        /^\/api\/bio\/[0-9a-f-]{36}\/form$/i.test(pathname)
+      ) {
+        return response;
+      }
+
+      if (pathname !== '/') {
+        return new NextResponse('Not Found', {
+          status: 404,
+          headers: { 'x-request-id': requestId },
+        });
+      }
+
+      const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+                 request.headers.get('x-real-ip') ||
+                 'unknown';
+
+      const rateLimit = checkRedirectLimit(ip);
+      if (!rateLimit.success) {
+        return new NextResponse('Too Many Requests', {
+          status: 429,
+          headers: {
+            ...getRateLimitHeaders(rateLimit),
+            'x-request-id': requestId,
+          },
+        });
+      }
+
+      const rewrite = NextResponse.rewrite(new URL(`/p/${slug}`, request.url));
+      rewrite.headers.set('x-request-id', requestId);
+      return rewrite;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Public REST API (/api/v1) — bearer API keys, no cookie session
+  //
+  // Route handlers authenticate with authenticateApiKey(). Cookies are never
+  // consulted, so the Origin-based CSRF check below doesn't apply (and would
+  // block server-to-server callers); skip the Supabase session refresh too.
+  // -----------------------------------------------------------------------
+  if (pathname.startsWith('/api/v1/')) {
+    return response;
+  }
+
+  // -----------------------------------------------------------------------
+  // Conversion pixel / beacon — called from customers' own sites
+  //
+  // The Origin is the destination site by design and no session is sent;
+  // the endpoint only accepts a public conversion key and a click ID.
+  // -----------------------------------------------------------------------
+  if (pathname === '/api/conversions') {
+    return response;
+  }
+
   // -----------------------------------------------------------------------
   // CSRF protection for mutating API requests
   //
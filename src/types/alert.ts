@@ -0,0 +1,49 @@
+export type AlertKind =
+  | 'first_scan'
+  | 'volume_above'
+  | 'volume_below'
+  | 'new_country'
+  | 'inactive';
+
+export type AlertDelivery = 'immediate' | 'daily' | 'weekly';
+
+export type AlertEmailStatus = 'sent' | 'failed' | 'skipped';
+
+export interface AlertRuleRecord {
+  id: string;
+  org_id: string;
+  created_by: string | null;
+  /** Exactly one of qr_id / page_id is set */
+  qr_id: string | null;
+  page_id: string | null;
+  kind: AlertKind;
+  /** volume_above / volume_below only */
+  threshold: number | null;
+  /** volume_above / volume_below / inactive only */
+  window_hours: number | null;
+  delivery: AlertDelivery;
+  /** Empty = the rule's creator */
+  recipients: string[];
+  is_active: boolean;
+  last_evaluated_at: string | null;
+  last_triggered_at: string | null;
+  last_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What the dashboard lists, with the target's name resolved */
+export interface AlertRuleSummary extends Omit<AlertRuleRecord, 'org_id' | 'last_evaluated_at' | 'last_notified_at'> {
+  target_name: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  org_id: string;
+  message: string;
+  details: Record<string, unknown>;
+  triggered_at: string;
+  notified_at: string | null;
+  email_status: AlertEmailStatus | null;
+}
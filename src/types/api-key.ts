@@ -0,0 +1,29 @@
+export type ApiKeyScope = 'read' | 'write';
+
+export interface ApiKeyRecord {
+  id: string;
+  org_id: string;
+  created_by: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/** What the dashboard sees — never includes the hash. */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'key_hash' | 'org_id'>;
+
+/**
+ * The authenticated caller of a /api/v1 request. Requests act on behalf of
+ * the org; created_by is used wherever a user id is required (owner_id on
+ * new rows, audit actor).
+ */
+export interface ApiKeyContext {
+  keyId: string;
+  orgId: string;
+  createdBy: string;
+  scopes: ApiKeyScope[];
+}
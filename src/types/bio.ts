@@ -2,7 +2,10 @@
  * Bio-link page related type definitions
  */
 
-import type { DeviceType } from './qr';
+import type { AnalyticsHeatmap, AnalyticsPeriod, AnalyticsRange, ConversionSummary, DeviceType, ScanMedium, UtmParams } from './qr';
+
+// How a bio page visitor arrived: a QR scan or NFC tap (?m=qr / ?m=nfc), or any other link
+export type BioViewMedium = ScanMedium | 'web';
 
 // ─── Block & Grid Types ─────────────────────────────────────────────
 
@@ -21,7 +24,8 @@ export type BioBlockType =
   | 'contact_form'
   | 'gallery'
   | 'countdown'
-  | 'payment_link';
+  | 'payment_link'
+  | 'review_funnel';
 
 /** Layout mode for bio pages */
 export type BioLayoutMode = 'list' | 'grid';
@@ -50,6 +54,8 @@ export interface BioBlockContentLink {
   icon_url?: string | null;
   icon_bg_color?: string | null;
   show_icon?: boolean;
+  /** UTM tags appended to url when the page is rendered */
+  utm?: UtmParams | null;
   style_overrides?: BioStyleOverrides;
 }
 
@@ -142,6 +148,20 @@ export interface BioBlockContentContactForm {
   style_overrides?: BioStyleOverrides;
 }
 
+/** Public review sites a review funnel can send happy customers to */
+export type BioReviewPlatform = 'google' | 'tripadvisor' | 'trustpilot' | 'facebook';
+
+export interface BioBlockContentReviewFunnel {
+  platform: BioReviewPlatform;
+  review_url: string;
+  prompt?: string;
+  /** Lowest star rating (1-5) that is sent to review_url; anything below opens private feedback */
+  min_public_rating?: number;
+  feedback_title?: string;
+  success_message?: string;
+  style_overrides?: BioStyleOverrides;
+}
+
 /** Per-block style overrides — stored in content JSONB */
 export interface BioStyleOverrides {
   bg_color?: string;
@@ -166,7 +186,8 @@ export type BioBlockContent =
   | BioBlockContentCountdown
   | BioBlockContentPaymentLink
   | BioBlockContentGallery
-  | BioBlockContentContactForm;
+  | BioBlockContentContactForm
+  | BioBlockContentReviewFunnel;
 
 /** Bio block database record */
 export interface BioBlock {
@@ -206,11 +227,81 @@ export interface BioFormSubmission {
   message: string;
   phone: string | null;
   subject: string | null;
-  ip_hash: string;
+  rating: number | null;
+  /** Daily visitor hash; null when hashing isn't configured */
+  ip_hash: string | null;
   is_read: boolean;
+  /** Set when archived from the inbox; null while in the inbox */
+  archived_at: string | null;
   submitted_at: string;
 }
 
+/** Inbox status filter: 'inbox' is everything not archived */
+export type SubmissionStatusFilter = 'inbox' | 'unread' | 'read' | 'archived' | 'all';
+
+export type SubmissionBulkAction = 'mark_read' | 'mark_unread' | 'archive' | 'unarchive' | 'delete';
+
+/** A submission as listed in the org-wide inbox, with its page */
+export interface InboxSubmission extends Omit<BioFormSubmission, 'ip_hash'> {
+  page: { id: string; title: string; slug: string };
+}
+
+/**
+ * Reply sent to the person who submitted a form. `subject` and `message`
+ * may use the {{name}} and {{page}} placeholders.
+ */
+export interface BioLeadAutoresponder {
+  enabled: boolean;
+  subject: string;
+  message: string;
+}
+
+/**
+ * Per-page form email routing (bio_link_pages.lead_routing)
+ */
+export interface BioLeadRouting {
+  /** Notification recipients for every form on the page */
+  recipients: string[];
+  /** Block id → recipients, replacing `recipients` for that form */
+  block_overrides: Record<string, string[]>;
+  autoresponder: BioLeadAutoresponder | null;
+}
+
+export type BioFormEmailKind = 'notification' | 'autoresponder';
+
+export type BioFormEmailStatus = 'sent' | 'failed' | 'skipped';
+
+/**
+ * One attempted form email (bio_form_email_log)
+ */
+export interface BioFormEmailLogEntry {
+  id: string;
+  page_id: string;
+  submission_id: string | null;
+  kind: BioFormEmailKind;
+  recipient: string;
+  status: BioFormEmailStatus;
+  provider_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+/** Custom domain lifecycle: pending → verified → active */
+export type BioCustomDomainStatus = 'pending' | 'verified' | 'active';
+
+/**
+ * A page's custom domain plus the DNS records the owner has to create
+ */
+export interface BioCustomDomain {
+  domain: string;
+  status: BioCustomDomainStatus;
+  requested_at: string | null;
+  verified_at: string | null;
+  checked_at: string | null;
+  error: string | null;
+  records: Array<{ type: 'CNAME' | 'TXT'; name: string; value: string }>;
+}
+
 // ─── Original Types ─────────────────────────────────────────────────
 
 // Bio-link theme options (10 total)
@@ -340,6 +431,7 @@ export interface BioThemeConfig {
 export interface BioLinkPage {
   id: string;
   owner_id: string;
+  org_id: string | null;
   title: string;
   bio: string | null;
   slug: string;
@@ -363,6 +455,15 @@ export interface BioLinkPage {
   contact_email: string | null;
   contact_phone: string | null;
   contact_website: string | null;
+  /** Form email routing; null = contact_email, else the owner's email */
+  lead_routing: BioLeadRouting | null;
+  custom_domain: string | null;
+  custom_domain_status: BioCustomDomainStatus | null;
+  custom_domain_token: string | null;
+  custom_domain_requested_at: string | null;
+  custom_domain_verified_at: string | null;
+  custom_domain_checked_at: string | null;
+  custom_domain_error: string | null;
   cover_storage_path: string | null;
   cover_aspect_ratio: BioCoverAspectRatio | null;
   cover_position_y: number | null;
@@ -391,6 +492,7 @@ export interface BioLinkItem {
   icon_url: string | null;
   icon_bg_color: string | null;
   show_icon: boolean;
+  utm: UtmParams | null;
   sort_order: number;
   is_enabled: boolean;
   total_clicks: number;
@@ -461,13 +563,32 @@ export interface BioLinkPageWithBlocks extends BioLinkPage {
  * Bio-link analytics summary (full dashboard data)
  */
 export interface BioLinkAnalyticsSummary {
+  /** All-time views; bot views are only added when `range.include_bots` */
   total_views: number;
+  /** All-time views flagged as bots, link previews or prefetches */
+  bot_views: number;
   views_today: number;
   views_this_week: number;
   views_this_month: number;
+  /** Views within the selected range */
+  period_views: number;
+  /** Clicks within the selected range */
   total_clicks: number;
   unique_visitors: number;
-  period: '7d' | '30d' | '90d';
+  period: AnalyticsPeriod;
+  range: AnalyticsRange;
+  /** The same metrics over the equally long range just before `range` */
+  previous: {
+    from: string;
+    to: string;
+    views: number;
+    clicks: number;
+    unique_visitors: number;
+  };
+  /** Page views by local weekday × hour */
+  heatmap: AnalyticsHeatmap;
+  /** Conversions from link clicks; rate is per click */
+  conversions: ConversionSummary;
   views_by_day: Array<{ date: string; count: number }>;
   clicks_by_day: Array<{ date: string; count: number }>;
   links: Array<{
@@ -486,6 +607,8 @@ export interface BioLinkAnalyticsSummary {
   top_devices: Array<{ device: string; count: number }>;
   top_referrers: Array<{ domain: string; count: number }>;
   top_browsers: Array<{ browser: string; count: number }>;
+  /** Views from QR scans and NFC taps vs other links */
+  by_medium: Array<{ medium: BioViewMedium; count: number }>;
 }
 
 /**
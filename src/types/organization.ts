@@ -1,3 +1,5 @@
+import type { AnalyticsPeriod, AnalyticsRange } from './qr';
+
 export type MemberRole = 'owner' | 'admin' | 'member';
 export type OrganizationPlan = 'free' | 'pro';
 
@@ -57,3 +59,58 @@ export interface OrganizationSummary {
   role: MemberRole;
   plan: OrganizationPlan;
 }
+
+/**
+ * Org-wide analytics across every live QR code and bio page in the active
+ * org. Returned by GET /api/org/analytics.
+ */
+export interface OrgAnalyticsSummary {
+  period: AnalyticsPeriod;
+  range: AnalyticsRange;
+  totals: {
+    scans: number;
+    views: number;
+    clicks: number;
+    submissions: number;
+  };
+  /** Totals over the equally long range just before `range` */
+  previous: {
+    from: string;
+    to: string;
+    scans: number;
+    views: number;
+    clicks: number;
+    submissions: number;
+  };
+  /** One entry per local day in the range, oldest first */
+  timeline: Array<{
+    date: string;
+    scans: number;
+    views: number;
+    clicks: number;
+    submissions: number;
+  }>;
+  top_qr_codes: Array<{ id: string; name: string; scans: number }>;
+  top_pages: Array<{
+    id: string;
+    title: string;
+    views: number;
+    clicks: number;
+    submissions: number;
+  }>;
+}
+
+/**
+ * A UTM campaign in an org (utm_campaigns RPC): everything tagged with the
+ * same utm_campaign. Source/medium/content are null when the tagged items
+ * disagree or leave them unset.
+ */
+export interface UtmCampaignSummary {
+  campaign: string;
+  source: string | null;
+  medium: string | null;
+  content: string | null;
+  qr_codes: number;
+  bio_links: number;
+  link_blocks: number;
+}
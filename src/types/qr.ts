@@ -10,9 +10,17 @@ export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
 // QR mode
 export type QRMode = 'managed' | 'direct';
 
+// Code type — what's printed. 'qr' is the styled QR code; the rest are
+// drawn by lib/qr/barcodes.ts and only take colours and a quiet zone.
+export type CodeSymbology = 'qr' | 'code128' | 'ean13' | 'upca' | 'datamatrix' | 'pdf417';
+export type BarcodeSymbology = Exclude<CodeSymbology, 'qr'>;
+
 // QR carrier — user intent about physical delivery. Only meaningful when mode='managed'.
 export type QRCarrier = 'qr' | 'nfc' | 'both';
 
+// Scan medium — what actually produced a scan: a camera read of the code or an NFC tap
+export type ScanMedium = 'qr' | 'nfc';
+
 // Asset format
 export type AssetFormat = 'svg' | 'png' | 'pdf';
 
@@ -39,6 +47,20 @@ export interface QRMatrix {
  */
 export type LogoMode = 'none' | 'upload' | 'placeholder';
 
+/**
+ * Foreground fill: flat foregroundColor, or a gradient from it to
+ * gradientColor
+ */
+export type GradientType = 'none' | 'linear' | 'radial';
+
+/**
+ * What's behind the modules
+ * - solid: backgroundColor
+ * - transparent: nothing, for printing onto coloured stock or artwork
+ * - image: an uploaded image under a backgroundColor veil
+ */
+export type BackgroundMode = 'solid' | 'transparent' | 'image';
+
 /**
  * QR style configuration
  */
@@ -52,8 +74,162 @@ export interface QRStyleConfig {
   logoMode: LogoMode;
   logoDataUrl?: string; // Base64 data URL for uploaded logo
   logoSizeRatio: number; // Size of logo/placeholder relative to QR (0.15 - 0.30)
+  gradientType?: GradientType;
+  gradientColor?: string; // Gradient end colour; foregroundColor is the start
+  gradientAngle?: number; // Linear gradients: degrees clockwise from left-to-right
+  eyeOuterColor?: string; // Finder pattern ring; defaults to the foreground fill
+  eyeInnerColor?: string; // Finder pattern centre; defaults to the foreground fill
+  backgroundMode?: BackgroundMode;
+  backgroundImageDataUrl?: string;
+}
+
+/**
+ * The colour side of a style: everything lib/qr/paint.ts needs to fill
+ * modules and background and to check their contrast
+ */
+export type QRStylePaint = Pick<
+  QRStyleConfig,
+  | 'foregroundColor'
+  | 'backgroundColor'
+  | 'gradientType'
+  | 'gradientColor'
+  | 'gradientAngle'
+  | 'eyeOuterColor'
+  | 'eyeInnerColor'
+  | 'backgroundMode'
+  | 'backgroundImageDataUrl'
+>;
+
+/**
+ * Time-based destination rule for a managed QR code.
+ * All set conditions must hold (AND); unset conditions are ignored.
+ * Evaluated in the org's default_timezone — see lib/qr/destination-rules.ts.
+ */
+export interface QRDestinationRule {
+  id: string;
+  label?: string;
+  destination_url: string;
+  /** Local weekdays, 0 = Sunday … 6 = Saturday */
+  days?: number[];
+  /** Inclusive local date, YYYY-MM-DD */
+  start_date?: string;
+  /** Inclusive local date, YYYY-MM-DD */
+  end_date?: string;
+  /** Local HH:MM, inclusive */
+  start_time?: string;
+  /** Local HH:MM, exclusive; earlier than start_time wraps past midnight */
+  end_time?: string;
+}
+
+/**
+ * Weighted A/B destination variant for a managed QR code.
+ * Each scan picks one variant with probability weight / sum(weights),
+ * sticky per visitor — see lib/qr/destination-variants.ts.
+ */
+export interface QRDestinationVariant {
+  id: string;
+  label?: string;
+  destination_url: string;
+  /** Relative weight, 1-100 */
+  weight: number;
+}
+
+/**
+ * UTM tags appended to an outbound destination (managed QR redirects, bio
+ * links and link blocks) as utm_source, utm_medium, … — see lib/utm.ts.
+ * Unset tags are omitted.
+ */
+export interface UtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  content?: string;
+}
+
+/**
+ * Structured content for a direct QR code, encoded by lib/qr/payloads.ts
+ * and stored in qr_codes.payload. 'url' codes have no payload — the URL
+ * is the content. 'contact' is the managed counterpart of 'vcard': the
+ * redirect serves a vCard built from a ContactSource at scan time.
+ */
+export type QRPayloadType = 'url' | 'vcard' | 'wifi' | 'sms' | 'email' | 'geo' | 'event' | 'contact';
+
+/** Where a managed contact code's vCard comes from */
+export type ContactSource = { person_id: string } | { bio_page_id: string };
+
+/** Contact card; at least one of the name fields or organization is set */
+export interface VCardPayload {
+  type: 'vcard';
+  version: '3.0' | '4.0';
+  first_name?: string;
+  last_name?: string;
+  organization?: string;
+  title?: string;
+  phone?: string;
+  mobile?: string;
+  email?: string;
+  website?: string;
+  street?: string;
+  city?: string;
+  region?: string;
+  postcode?: string;
+  country?: string;
+  note?: string;
+}
+
+/** Wi-Fi network; `password` is omitted for open networks */
+export interface WifiPayload {
+  type: 'wifi';
+  ssid: string;
+  security: 'WPA' | 'WEP' | 'nopass';
+  password?: string;
+  hidden?: boolean;
+}
+
+export interface SmsPayload {
+  type: 'sms';
+  phone: string;
+  message?: string;
+}
+
+export interface EmailPayload {
+  type: 'email';
+  to: string;
+  subject?: string;
+  body?: string;
+}
+
+/** WGS 84 coordinates in decimal degrees; altitude in metres */
+export interface GeoPayload {
+  type: 'geo';
+  latitude: number;
+  longitude: number;
+  altitude?: number;
 }
 
+/**
+ * Calendar event. `start` / `end` are local wall-clock times
+ * (YYYY-MM-DDTHH:MM), or dates (YYYY-MM-DD) when `all_day` is set; `end`
+ * is inclusive for all-day events.
+ */
+export interface EventPayload {
+  type: 'event';
+  summary: string;
+  start: string;
+  end?: string;
+  all_day?: boolean;
+  location?: string;
+  description?: string;
+}
+
+export type QRPayload =
+  | VCardPayload
+  | WifiPayload
+  | SmsPayload
+  | EmailPayload
+  | GeoPayload
+  | EventPayload;
+
 /**
  * QR code database record
  */
@@ -62,9 +238,22 @@ export interface QRCode {
   owner_id: string;
   name: string;
   mode: QRMode;
+  symbology: CodeSymbology;
   slug: string | null;
   carrier: QRCarrier;
+  /**
+   * Redirect target; for direct EAN-13 / UPC-A codes, the GTIN itself, and
+   * for structured payloads the encoded text (vCard, WIFI:, …)
+   */
   destination_url: string;
+  payload_type: QRPayloadType;
+  payload: QRPayload | null;
+  /** Contact codes only: the brand kit person or bio page behind the vCard */
+  contact_person_id: string | null;
+  contact_bio_page_id: string | null;
+  destination_rules: QRDestinationRule[];
+  destination_variants: QRDestinationVariant[];
+  utm: UtmParams | null;
   is_active: boolean;
   analytics_enabled: boolean;
   total_scans: number;
@@ -87,6 +276,14 @@ export interface QRStyle {
   eye_shape: EyeShape;
   logo_storage_path: string | null;
   logo_size_ratio: number;
+  gradient_type: GradientType;
+  gradient_color: string | null;
+  gradient_angle: number;
+  eye_outer_color: string | null;
+  eye_inner_color: string | null;
+  background_mode: BackgroundMode;
+  /** JPEG in the qr-logos bucket, under the owner's folder */
+  background_image_storage_path: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -119,6 +316,8 @@ export interface QRScanEvent {
   browser_family: string | null;
   referrer_domain: string | null;
   ip_hash: string | null;
+  /** destination_variants entry the scan was sent to, if a split was active */
+  variant_id: string | null;
 }
 
 /**
@@ -149,7 +348,13 @@ export interface QRCodeWithStyle extends QRCode {
 export interface CreateQRRequest {
   name: string;
   mode: QRMode;
-  destination_url: string;
+  symbology?: CodeSymbology;
+  /** Required unless `payload` or `contact` is given */
+  destination_url?: string;
+  /** Structured content for a direct QR code, instead of a URL */
+  payload?: QRPayload;
+  /** Managed contact code: serve this person's or bio page's vCard */
+  contact?: ContactSource;
   slug?: string;
   carrier?: QRCarrier;
   analytics_enabled?: boolean;
@@ -162,6 +367,8 @@ export interface CreateQRRequest {
 export interface UpdateQRRequest {
   name?: string;
   destination_url?: string;
+  destination_rules?: QRDestinationRule[];
+  destination_variants?: QRDestinationVariant[];
   is_active?: boolean;
   analytics_enabled?: boolean;
   carrier?: QRCarrier;
@@ -178,6 +385,14 @@ export interface UpdateStyleRequest {
   module_shape?: ModuleShape;
   eye_shape?: EyeShape;
   logo_size_ratio?: number;
+  gradient_type?: GradientType;
+  gradient_color?: string | null;
+  gradient_angle?: number;
+  eye_outer_color?: string | null;
+  eye_inner_color?: string | null;
+  background_mode?: BackgroundMode;
+  /** data:image/png|jpeg|webp;base64 URL; null removes the image */
+  background_image?: string | null;
 }
 
 /**
@@ -189,22 +404,122 @@ export interface ExportOptions {
   preset?: 'sticker-50mm' | 'sticker-75mm' | 'sticker-100mm' | 'a4';
 }
 
+/** One render in a scan check */
+export interface ScanAttempt {
+  /** Rendered width in pixels */
+  size: number;
+  /** Blur as a fraction of one module */
+  blur: number;
+  decoded: boolean;
+}
+
 /**
- * Analytics summary
+ * Result of POST /api/qr/scannability (see lib/qr/scannability.ts)
  */
-export interface AnalyticsSummary {
-  total_scans: number;
-  scans_today: number;
-  scans_this_week: number;
-  scans_this_month: number;
-  unique_visitors: number;
-  period: '7d' | '30d' | '90d';
+export interface ScannabilityReport {
+  /** Every size was readable sharp or lightly blurred */
+  passed: boolean;
+  /** 0–100: decodes, contrast and logo coverage combined */
+  score: number;
+  /** Lowest contrast ratio of any colour in use against the background */
+  contrast: { ratio: number; score: number };
+  /** Share of the symbol hidden by the logo, against what error correction recovers */
+  logoCoverage: { ratio: number; capacity: number; score: number };
+  attempts: ScanAttempt[];
+  issues: string[];
+}
+
+/**
+ * Analytics reporting window: a preset ending today or a custom from/to,
+ * both in whole local days of `timezone` (the org's default_timezone).
+ */
+export type AnalyticsPeriod = '7d' | '30d' | '90d' | 'custom';
+
+export interface AnalyticsRange {
+  period: AnalyticsPeriod;
+  /** First local day, YYYY-MM-DD (inclusive) */
+  from: string;
+  /** Last local day, YYYY-MM-DD (inclusive) */
+  to: string;
+  days: number;
+  timezone: string;
+  /** Whether bot, link-preview and prefetch events are counted */
+  include_bots: boolean;
+}
+
+/**
+ * Activity by local day of week × hour of day: 7 rows (0 = Sunday) of 24
+ * hourly counts.
+ */
+export type AnalyticsHeatmap = number[][];
+
+/**
+ * Per-period scan breakdowns. Shared by the whole-QR summary and each
+ * A/B variant so the dashboard can switch between them.
+ */
+export interface AnalyticsBreakdowns {
   scans_by_day: Array<{ date: string; count: number }>;
   top_countries: Array<{ country: string; count: number }>;
   top_devices: Array<{ device: DeviceType; count: number }>;
   top_os: Array<{ os: string; count: number }>;
   top_browsers: Array<{ browser: string; count: number }>;
   top_referrers: Array<{ domain: string; count: number }>;
+  /** Camera scans vs NFC taps */
+  by_medium: Array<{ medium: ScanMedium; count: number }>;
+}
+
+/**
+ * Analytics for one A/B variant over the selected period.
+ * Variants that have been removed from the QR but still have scans in the
+ * period are included with `removed: true`.
+ */
+export interface AnalyticsVariantSummary extends AnalyticsBreakdowns {
+  variant_id: string;
+  label: string;
+  destination_url: string | null;
+  weight: number | null;
+  removed: boolean;
+  scans: number;
+  unique_visitors: number;
+  conversions: number;
+}
+
+/** Conversions attributed to a QR code or bio page over a range */
+export interface ConversionSummary {
+  conversions: number;
+  /** Conversions per scan (QR) or link click (bio); null with no scans or clicks */
+  rate: number | null;
+  /** Reported value summed per ISO currency, largest first */
+  value: Array<{ currency: string; total: number }>;
+}
+
+/**
+ * Analytics summary
+ */
+export interface AnalyticsSummary extends AnalyticsBreakdowns {
+  /** All-time scans; bot scans are only added when `range.include_bots` */
+  total_scans: number;
+  /** All-time scans flagged as bots, link previews or prefetches */
+  bot_scans: number;
+  scans_today: number;
+  scans_this_week: number;
+  scans_this_month: number;
+  /** Scans within the selected range */
+  period_scans: number;
+  unique_visitors: number;
+  period: AnalyticsPeriod;
+  range: AnalyticsRange;
+  /** The same metrics over the equally long range just before `range` */
+  previous: {
+    from: string;
+    to: string;
+    scans: number;
+    unique_visitors: number;
+  };
+  heatmap: AnalyticsHeatmap;
+  conversions: ConversionSummary;
+  /** Empty unless the QR has (or had, within the period) an A/B split */
+  variants: AnalyticsVariantSummary[];
   recent_scans: Array<{
     scanned_at: string;
     country_code: string | null;
@@ -212,5 +527,8 @@ export interface AnalyticsSummary {
     os_family: string | null;
     browser_family: string | null;
     referrer_domain: string | null;
+    variant_id: string | null;
+    medium: ScanMedium;
+    is_bot: boolean;
   }>;
 }
@@ -0,0 +1,28 @@
+/** A whole org, or one QR code / bio page in it */
+export type ReportScope = 'org' | 'qr' | 'bio';
+
+export type ReportEmailStatus = 'sent' | 'failed' | 'skipped';
+
+export interface ReportScheduleRecord {
+  id: string;
+  org_id: string;
+  created_by: string | null;
+  /** Both null = the whole org; never both set */
+  qr_id: string | null;
+  page_id: string | null;
+  /** Org members the report is emailed to */
+  recipient_ids: string[];
+  is_active: boolean;
+  /** First day (YYYY-MM-DD) of the last month sent */
+  last_period: string | null;
+  last_sent_at: string | null;
+  last_status: ReportEmailStatus | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What the settings page lists, with the target's name resolved */
+export interface ReportScheduleSummary extends Omit<ReportScheduleRecord, 'org_id'> {
+  scope: ReportScope;
+  target_name: string;
+}
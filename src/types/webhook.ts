@@ -0,0 +1,54 @@
+export type WebhookEventType =
+  | 'qr.scanned'
+  | 'bio.viewed'
+  | 'bio.block_clicked'
+  | 'form.submitted'
+  | 'invite.accepted'
+  | 'order.status_changed';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpointRecord {
+  id: string;
+  org_id: string;
+  created_by: string | null;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What the dashboard lists — the signing secret is only shown on create/rotate. */
+export type WebhookEndpointSummary = Omit<WebhookEndpointRecord, 'secret' | 'org_id'>;
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  org_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+/**
+ * The JSON body POSTed to a receiver. id is shared by every delivery of the
+ * same event (and stays the same across retries) so receivers can de-duplicate.
+ */
+export interface WebhookEventEnvelope {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  org_id: string;
+  data: Record<string, unknown>;
+}
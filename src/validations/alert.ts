@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { ALERT_DEFAULTS, ALERT_DELIVERIES, ALERT_KINDS } from '@/lib/constants';
+
+const recipientsSchema = z
+  .array(z.string().trim().toLowerCase().email('Invalid email address'))
+  .max(ALERT_DEFAULTS.MAX_RECIPIENTS, `At most ${ALERT_DEFAULTS.MAX_RECIPIENTS} recipients`)
+  .transform((list) => Array.from(new Set(list)));
+
+const thresholdSchema = z.number().int().min(1).max(1_000_000);
+
+const windowHoursSchema = z.number().int().min(1).max(ALERT_DEFAULTS.MAX_WINDOW_HOURS);
+
+/** Kinds that compare a count against `threshold` over `window_hours` */
+export const VOLUME_ALERT_KINDS: ReadonlySet<string> = new Set(['volume_above', 'volume_below']);
+/** Kinds that look back over `window_hours` */
+export const WINDOW_ALERT_KINDS: ReadonlySet<string> = new Set(['volume_above', 'volume_below', 'inactive']);
+
+export const createAlertRuleSchema = z
+  .object({
+    qr_id: z.string().uuid().optional(),
+    page_id: z.string().uuid().optional(),
+    kind: z.enum(ALERT_KINDS),
+    threshold: thresholdSchema.optional(),
+    window_hours: windowHoursSchema.optional(),
+    delivery: z.enum(ALERT_DELIVERIES).default('immediate'),
+    recipients: recipientsSchema.default([]),
+  })
+  .superRefine((rule, ctx) => {
+    if (!rule.qr_id === !rule.page_id) {
+      ctx.addIssue({ code: 'custom', path: ['qr_id'], message: 'Choose a QR code or a bio page' });
+    }
+    if (VOLUME_ALERT_KINDS.has(rule.kind) && rule.threshold === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Threshold is required' });
+    }
+    if (WINDOW_ALERT_KINDS.has(rule.kind) && rule.window_hours === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['window_hours'], message: 'Window is required' });
+    }
+  })
+  // Drop settings the kind doesn't use so the table constraints hold
+  .transform((rule) => ({
+    ...rule,
+    threshold: VOLUME_ALERT_KINDS.has(rule.kind) ? rule.threshold! : null,
+    window_hours: WINDOW_ALERT_KINDS.has(rule.kind) ? rule.window_hours! : null,
+  }));
+export type CreateAlertRuleInput = z.infer<typeof createAlertRuleSchema>;
+
+export const updateAlertRuleSchema = z
+  .object({
+    threshold: thresholdSchema.optional(),
+    window_hours: windowHoursSchema.optional(),
+    delivery: z.enum(ALERT_DELIVERIES).optional(),
+    recipients: recipientsSchema.optional(),
+    is_active: z.boolean().optional(),
+  })
+  .strict();
+export type UpdateAlertRuleInput = z.infer<typeof updateAlertRuleSchema>;
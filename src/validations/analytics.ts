@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { ANALYTICS_EXPORT_DATA, ANALYTICS_EXPORT_FORMATS } from '@/lib/constants';
+
+/**
+ * GET /api/…/analytics/export query string. The date range (period or
+ * from/to, and bots) is read by parseAnalyticsRange like the analytics
+ * endpoints; other params are ignored here.
+ */
+export const analyticsExportQuerySchema = z.object({
+  data: z.enum(ANALYTICS_EXPORT_DATA).default('events'),
+  format: z.enum(ANALYTICS_EXPORT_FORMATS).default('csv'),
+});
+export type AnalyticsExportQuery = z.infer<typeof analyticsExportQuerySchema>;
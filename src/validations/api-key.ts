@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters')
+    .transform((s) => s.trim()),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, 'Select at least one scope')
+    .transform((scopes) => Array.from(new Set(scopes))),
+});
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
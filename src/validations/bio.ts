@@ -3,7 +3,10 @@
  */
 
 import { z } from 'zod';
-import { SLUG_CONFIG } from '@/lib/constants';
+import { SLUG_CONFIG, LEAD_ROUTING_DEFAULTS } from '@/lib/constants';
+import { planLimitCeiling } from '@/lib/org/entitlements';
+import { validateUrl } from '@/lib/security/url-validator';
+import { utmSchema } from './campaign';
 
 // Hex color validation (reuse pattern from qr validations)
 const hexColor = z
@@ -76,6 +79,56 @@ export const createBioPageSchema = z.object({
   cover_position_y: z.number().int().min(0).max(100).optional(),
 });
 
+// Lead routing (form email recipients + autoresponder)
+const leadRecipients = z
+  .array(z.string().trim().toLowerCase().email('Invalid email').max(200))
+  .max(LEAD_ROUTING_DEFAULTS.MAX_RECIPIENTS, `At most ${LEAD_ROUTING_DEFAULTS.MAX_RECIPIENTS} recipients`)
+  .transform((list) => Array.from(new Set(list)));
+
+export const leadRoutingSchema = z.object({
+  recipients: leadRecipients.default([]),
+  block_overrides: z
+    .record(z.string().uuid('Invalid block ID'), leadRecipients.refine((l) => l.length > 0, 'Add at least one recipient'))
+    .refine(
+      (o) => Object.keys(o).length <= LEAD_ROUTING_DEFAULTS.MAX_BLOCK_OVERRIDES,
+      `At most ${LEAD_ROUTING_DEFAULTS.MAX_BLOCK_OVERRIDES} form overrides`
+    )
+    .default({}),
+  autoresponder: z
+    .object({
+      enabled: z.boolean(),
+      subject: z.string().trim().min(1, 'Subject is required').max(LEAD_ROUTING_DEFAULTS.MAX_AUTORESPONDER_SUBJECT),
+      message: z.string().trim().min(1, 'Message is required').max(LEAD_ROUTING_DEFAULTS.MAX_AUTORESPONDER_MESSAGE),
+    })
+    .nullable()
+    .default(null),
+});
+
+// Custom domain: a bare hostname, no scheme, port, path or wildcard
+const hostnameLabel = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+export const customDomainSchema = z.object({
+  domain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((s) => s.replace(/\.$/, ''))
+    .pipe(
+      z
+        .string()
+        .min(4, 'Domain is too short')
+        .max(253, 'Domain is too long')
+        .refine((host) => {
+          const labels = host.split('.');
+          return (
+            labels.length >= 2 &&
+            labels.every((l) => hostnameLabel.test(l)) &&
+            /^[a-z]{2,63}$|^xn--[a-z0-9-]+$/.test(labels[labels.length - 1])
+          );
+        }, 'Enter a domain like links.example.com')
+    ),
+});
+
 // Update bio page request schema
 export const updateBioPageSchema = z.object({
   title: z
@@ -112,6 +165,7 @@ export const updateBioPageSchema = z.object({
   contact_website: z.string().max(2048, 'Website URL is too long').nullable().optional(),
   cover_aspect_ratio: z.enum(coverAspectRatioOptions).nullable().optional(),
   cover_position_y: z.number().int().min(0).max(100).nullable().optional(),
+  lead_routing: leadRoutingSchema.nullable().optional(),
 });
 
 // Icon types
@@ -136,6 +190,7 @@ export const createBioLinkSchema = z.object({
   icon_url: z.string().max(2048, 'Icon URL is too long').nullable().optional(),
   icon_bg_color: hexColor.nullable().optional(),
   show_icon: z.boolean().default(true),
+  utm: utmSchema.nullable().optional(),
   is_enabled: z.boolean().default(true),
 });
 
@@ -161,6 +216,7 @@ export const updateBioLinkSchema = z.object({
   icon_url: z.string().max(2048, 'Icon URL is too long').nullable().optional(),
   icon_bg_color: hexColor.nullable().optional(),
   show_icon: z.boolean().optional(),
+  utm: utmSchema.nullable().optional(),
   is_enabled: z.boolean().optional(),
 });
 
@@ -181,6 +237,8 @@ export const reorderLinksSchema = z.object({
 export const trackClickSchema = z.object({
   item_id: z.string().uuid('Invalid item ID'),
   page_id: z.string().uuid('Invalid page ID'),
+  // Conversion click ID generated in the browser for this click
+  click_id: z.string().regex(/^[0-9a-f]{32}$/, 'Invalid click ID').optional(),
 });
 
 // ─── Block Schemas ──────────────────────────────────────────────────
@@ -189,7 +247,7 @@ export const trackClickSchema = z.object({
 const blockTypes = [
   'link', 'heading', 'text', 'image', 'social_icons',
   'divider', 'spacer', 'spotify_embed', 'youtube_embed', 'map',
-  'contact_form', 'gallery', 'countdown', 'payment_link',
+  'contact_form', 'gallery', 'countdown', 'payment_link', 'review_funnel',
 ] as const;
 
 // ─── Style Overrides (shared across all block types) ─────────────
@@ -212,6 +270,7 @@ const linkContentSchema = z.object({
   icon_url: z.string().max(2048).nullable().optional(),
   icon_bg_color: hexColor.nullable().optional(),
   show_icon: z.boolean().optional(),
+  utm: utmSchema.nullable().optional(),
   style_overrides: styleOverridesSchema,
 });
 
@@ -301,7 +360,8 @@ const galleryImageSchema = z.object({
 const galleryContentSchema = z.object({
   display_mode: z.enum(['grid', 'carousel']),
   columns: z.union([z.literal(2), z.literal(3)]).optional(),
-  images: z.array(galleryImageSchema).max(12),
+  // Absolute ceiling; routes apply the page's plan limit
+  images: z.array(galleryImageSchema).max(planLimitCeiling('gallery_images') ?? Number.MAX_SAFE_INTEGER),
   style_overrides: styleOverridesSchema,
 });
 
@@ -315,6 +375,23 @@ const contactFormContentSchema = z.object({
   style_overrides: styleOverridesSchema,
 });
 
+const reviewPlatforms = ['google', 'tripadvisor', 'trustpilot', 'facebook'] as const;
+
+const reviewFunnelContentSchema = z.object({
+  platform: z.enum(reviewPlatforms),
+  // Visitors are sent here on a high rating, so only http(s) URLs; empty
+  // until the owner sets the block up
+  review_url: z
+    .string()
+    .max(2048)
+    .refine((v) => v === '' || validateUrl(v).isValid, 'Review link must be an http(s) URL'),
+  prompt: z.string().max(150).optional(),
+  min_public_rating: z.number().int().min(2).max(5).optional(),
+  feedback_title: z.string().max(100).optional(),
+  success_message: z.string().max(300).optional(),
+  style_overrides: styleOverridesSchema,
+});
+
 /** Map of block_type to its content validation schema */
 export const blockContentSchemas: Record<string, z.ZodType> = {
   link: linkContentSchema,
@@ -331,6 +408,7 @@ export const blockContentSchemas: Record<string, z.ZodType> = {
   gallery: galleryContentSchema,
   countdown: countdownContentSchema,
   payment_link: paymentLinkContentSchema,
+  review_funnel: reviewFunnelContentSchema,
 };
 
 // Create block schema
@@ -373,6 +451,7 @@ export const batchUpdateBlocksSchema = z.object({
 export const trackBlockClickSchema = z.object({
   block_id: z.string().uuid('Invalid block ID'),
   page_id: z.string().uuid('Invalid page ID'),
+  click_id: z.string().regex(/^[0-9a-f]{32}$/, 'Invalid click ID').optional(),
 });
 
 // Types inferred from schemas
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const utmValue = z.string().max(100, 'UTM values must be at most 100 characters');
+
+// UTM tags on a QR code, bio link or link block. Empty values are dropped
+// on save (see normalizeUtm in lib/utm.ts); null clears every tag.
+export const utmSchema = z
+  .object({
+    source: utmValue.optional(),
+    medium: utmValue.optional(),
+    campaign: utmValue.optional(),
+    content: utmValue.optional(),
+  })
+  .strict();
+
+// Bulk edit of every QR code, bio link and link block tagged with a campaign.
+// Tags present in `utm` replace the current value (null or '' removes it);
+// absent tags are left alone. Setting `utm.campaign` renames the campaign.
+export const updateCampaignSchema = z
+  .object({
+    campaign: z.string().min(1, 'Campaign is required').max(100),
+    utm: z
+      .object({
+        source: utmValue.nullable().optional(),
+        medium: utmValue.nullable().optional(),
+        campaign: utmValue.nullable().optional(),
+        content: utmValue.nullable().optional(),
+      })
+      .strict()
+      .refine((utm) => Object.keys(utm).length > 0, 'Nothing to update'),
+  })
+  .strict();
+
+export type UtmInput = z.infer<typeof utmSchema>;
+export type UpdateCampaignInput = z.infer<typeof updateCampaignSchema>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { CONVERSION_DEFAULTS } from '@/lib/constants';
+
+// Pixel query params arrive as strings and may be blank ("&v="), and the
+// snippet sends JSON nulls for unset options — both read as "not given"
+function optionalParam<T extends z.ZodType>(schema: T) {
+  return z.preprocess((v) => (v === '' || v === null ? undefined : v), schema.optional());
+}
+
+// Conversion report from the snippet beacon (JSON) or pixel (query string)
+export const conversionSchema = z.object({
+  k: z.string().min(1).max(64),
+  c: z.string().regex(/^[0-9a-f]{32}$/, 'Invalid click ID'),
+  e: optionalParam(
+    z
+      .string()
+      .regex(/^[a-zA-Z0-9_.-]{1,40}$/, 'Event names are letters, digits, _ . and -')
+      .transform((s) => s.toLowerCase())
+  ),
+  v: optionalParam(z.coerce.number().min(0).max(CONVERSION_DEFAULTS.MAX_VALUE)),
+  cur: optionalParam(
+    z
+      .string()
+      .regex(/^[a-zA-Z]{3}$/, 'Currency must be an ISO 4217 code')
+      .transform((s) => s.toUpperCase())
+  ),
+});
+
+export type ConversionReport = z.infer<typeof conversionSchema>;
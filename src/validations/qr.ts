@@ -9,7 +9,13 @@ import {
   ERROR_CORRECTION_LEVELS,
   SLUG_CONFIG,
   QR_DEFAULTS,
+  CODE_SYMBOLOGIES,
+  SYMBOLOGY_INFO,
+  WIFI_SECURITY_TYPES,
+  GRADIENT_TYPES,
+  BACKGROUND_MODES,
 } from '@/lib/constants';
+import { utmSchema } from './campaign';
 
 // Hex color validation
 const hexColor = z
@@ -27,6 +33,93 @@ const slug = z
 // Carrier validation
 const carrier = z.enum(['qr', 'nfc', 'both']);
 
+// Local wall-clock time (HH:MM, 24h) and calendar date (YYYY-MM-DD)
+const localTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (24-hour)');
+const localDate = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Date must be YYYY-MM-DD');
+
+// Scheduled destination rule (see lib/qr/destination-rules.ts)
+export const destinationRuleSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    label: z.string().max(60, 'Label must be at most 60 characters').optional(),
+    destination_url: z
+      .string()
+      .min(1, 'URL is required')
+      .max(2048, 'URL is too long'),
+    days: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+    start_date: localDate.optional(),
+    end_date: localDate.optional(),
+    start_time: localTime.optional(),
+    end_time: localTime.optional(),
+  })
+  .refine(
+    (r) =>
+      (r.days && r.days.length > 0) ||
+      r.start_date || r.end_date || r.start_time || r.end_time,
+    { message: 'Rule must have at least one day, date or time condition' }
+  )
+  .refine(
+    (r) => !r.start_date || !r.end_date || r.start_date <= r.end_date,
+    { message: 'End date must be on or after start date', path: ['end_date'] }
+  )
+  .refine(
+    (r) => !r.start_time || !r.end_time || r.start_time !== r.end_time,
+    { message: 'Start and end time must differ', path: ['end_time'] }
+  );
+
+export const destinationRulesSchema = z
+  .array(destinationRuleSchema)
+  .max(QR_DEFAULTS.MAX_DESTINATION_RULES, `At most ${QR_DEFAULTS.MAX_DESTINATION_RULES} rules allowed`)
+  .refine(
+    (rules) => new Set(rules.map((r) => r.id)).size === rules.length,
+    { message: 'Rule ids must be unique' }
+  );
+
+// A/B destination variant (see lib/qr/destination-variants.ts)
+export const destinationVariantSchema = z.object({
+  id: z.string().min(1).max(64),
+  label: z.string().max(40, 'Label must be at most 40 characters').optional(),
+  destination_url: z
+    .string()
+    .min(1, 'URL is required')
+    .max(2048, 'URL is too long'),
+  weight: z
+    .number()
+    .int('Weight must be a whole number')
+    .min(1, 'Weight must be at least 1')
+    .max(QR_DEFAULTS.MAX_VARIANT_WEIGHT, `Weight must be at most ${QR_DEFAULTS.MAX_VARIANT_WEIGHT}`),
+});
+
+// Empty list clears the split; otherwise at least two variants are needed
+export const destinationVariantsSchema = z
+  .array(destinationVariantSchema)
+  .max(QR_DEFAULTS.MAX_DESTINATION_VARIANTS, `At most ${QR_DEFAULTS.MAX_DESTINATION_VARIANTS} variants allowed`)
+  .refine(
+    (variants) => variants.length === 0 || variants.length >= 2,
+    { message: 'A split needs at least two variants' }
+  )
+  .refine(
+    (variants) => new Set(variants.map((v) => v.id)).size === variants.length,
+    { message: 'Variant ids must be unique' }
+  );
+
+// Uploaded background image, sent inline as a data URL and stored by
+// lib/qr/background-image.ts. Base64 is 4/3 the size of the file.
+const backgroundImage = z
+  .string()
+  .max(
+    Math.ceil((QR_DEFAULTS.MAX_BACKGROUND_IMAGE_BYTES * 4) / 3) + 32,
+    `Background image must be under ${QR_DEFAULTS.MAX_BACKGROUND_IMAGE_BYTES / 1024}KB`
+  )
+  .regex(
+    /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/,
+    'Background image must be a PNG, JPEG or WebP data URL'
+  );
+
 // QR style schema
 export const qrStyleSchema = z.object({
   foreground_color: hexColor.default('#000000'),
@@ -45,8 +138,140 @@ export const qrStyleSchema = z.object({
     .min(0.1)
     .max(QR_DEFAULTS.MAX_LOGO_RATIO)
     .optional(),
+  // No defaults below: a style update that omits them leaves them as
+  // they are. null clears a colour back to the foreground fill.
+  gradient_type: z.enum(GRADIENT_TYPES).optional(),
+  gradient_color: hexColor.nullable().optional(),
+  gradient_angle: z.number().int().min(0).max(359).optional(),
+  eye_outer_color: hexColor.nullable().optional(),
+  eye_inner_color: hexColor.nullable().optional(),
+  background_mode: z.enum(BACKGROUND_MODES).optional(),
+  background_image: backgroundImage.nullable().optional(),
+});
+
+// Structured direct-QR payloads (see lib/qr/payloads.ts). Empty optional
+// fields are sent as '' by the forms, so they're accepted and skipped by
+// the builders.
+const optionalText = (max: number) => z.string().trim().max(max, `Must be at most ${max} characters`).optional();
+const phoneNumber = z
+  .string()
+  .trim()
+  .regex(/^\+?[\d\s().-]{3,32}$/, 'Invalid phone number')
+  .refine((v) => v.replace(/\D/g, '').length >= 3, 'Invalid phone number');
+const optionalPhone = z.union([z.literal(''), phoneNumber]).optional();
+const emailAddress = z.string().trim().max(254).email('Invalid email address');
+const localDateTime = z
+  .string()
+  .regex(
+    /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d$/,
+    'Date and time must be YYYY-MM-DDTHH:MM'
+  );
+
+const vcardPayloadSchema = z
+  .object({
+    type: z.literal('vcard'),
+    version: z.enum(['3.0', '4.0']).default('3.0'),
+    first_name: optionalText(100),
+    last_name: optionalText(100),
+    organization: optionalText(100),
+    title: optionalText(100),
+    phone: optionalPhone,
+    mobile: optionalPhone,
+    email: z.union([z.literal(''), emailAddress]).optional(),
+    website: optionalText(500),
+    street: optionalText(200),
+    city: optionalText(100),
+    region: optionalText(100),
+    postcode: optionalText(20),
+    country: optionalText(100),
+    note: optionalText(500),
+  })
+  .refine(
+    (v) => Boolean(v.first_name || v.last_name || v.organization),
+    { message: 'A name or organization is required', path: ['first_name'] }
+  );
+
+const wifiPayloadSchema = z
+  .object({
+    type: z.literal('wifi'),
+    ssid: z.string().min(1, 'Network name is required').max(32, 'Network name must be at most 32 characters'),
+    security: z.enum(WIFI_SECURITY_TYPES).default('WPA'),
+    password: z.string().max(63, 'Password must be at most 63 characters').optional(),
+    hidden: z.boolean().optional(),
+  })
+  .superRefine((w, ctx) => {
+    if (w.security === 'WPA' && (!w.password || w.password.length < 8)) {
+      ctx.addIssue({ code: 'custom', message: 'WPA passwords are 8 to 63 characters', path: ['password'] });
+    }
+    if (w.security === 'WEP' && !w.password) {
+      ctx.addIssue({ code: 'custom', message: 'Password is required', path: ['password'] });
+    }
+    if (w.security === 'nopass' && w.password) {
+      ctx.addIssue({ code: 'custom', message: 'Open networks have no password', path: ['password'] });
+    }
+  });
+
+const smsPayloadSchema = z.object({
+  type: z.literal('sms'),
+  phone: phoneNumber,
+  message: optionalText(300),
 });
 
+const emailPayloadSchema = z.object({
+  type: z.literal('email'),
+  to: emailAddress,
+  subject: optionalText(200),
+  body: optionalText(1000),
+});
+
+const geoPayloadSchema = z.object({
+  type: z.literal('geo'),
+  latitude: z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90'),
+  longitude: z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180'),
+  altitude: z.number().min(-11000).max(100000).optional(),
+});
+
+const eventPayloadSchema = z
+  .object({
+    type: z.literal('event'),
+    summary: z.string().trim().min(1, 'Title is required').max(200, 'Title must be at most 200 characters'),
+    start: z.string(),
+    end: z.string().optional(),
+    all_day: z.boolean().optional(),
+    location: optionalText(200),
+    description: optionalText(1000),
+  })
+  .superRefine((e, ctx) => {
+    const format = e.all_day ? localDate : localDateTime;
+    for (const key of ['start', 'end'] as const) {
+      const value = e[key];
+      if (!value) continue;
+      const result = format.safeParse(value);
+      if (!result.success) {
+        ctx.addIssue({ code: 'custom', message: result.error.issues[0].message, path: [key] });
+      }
+    }
+    if (e.end && e.end < e.start) {
+      ctx.addIssue({ code: 'custom', message: 'End must be on or after start', path: ['end'] });
+    }
+  });
+
+export const qrPayloadSchema = z.discriminatedUnion('type', [
+  vcardPayloadSchema,
+  wifiPayloadSchema,
+  smsPayloadSchema,
+  emailPayloadSchema,
+  geoPayloadSchema,
+  eventPayloadSchema,
+]);
+
+// Managed contact code source: a brand kit person or a bio page
+const uuid = z.string().refine((v) => isValidUUID(v), 'Invalid ID');
+export const contactSourceSchema = z.union([
+  z.object({ person_id: uuid }).strict(),
+  z.object({ bio_page_id: uuid }).strict(),
+]);
+
 // Create QR request schema
 export const createQRSchema = z.object({
   name: z
@@ -55,14 +280,33 @@ export const createQRSchema = z.object({
     .max(100, 'Name must be at most 100 characters')
     .transform((s) => s.trim()),
   mode: z.enum(['managed', 'direct']).default('managed'),
+  symbology: z.enum(CODE_SYMBOLOGIES).default('qr'),
+  // Required unless a payload or contact is given; the server then builds
+  // the encoded text or picks the fallback URL itself
   destination_url: z
     .string()
     .min(1, 'URL is required')
-    .max(2048, 'URL is too long'),
+    .max(2048, 'URL is too long')
+    .optional(),
+  payload: qrPayloadSchema.optional(),
+  contact: contactSourceSchema.optional(),
   slug: slug,
   carrier: carrier.default('qr'),
   analytics_enabled: z.boolean().default(true),
   style: qrStyleSchema.partial().optional(),
+}).superRefine((qr, ctx) => {
+  if (qr.mode !== 'direct' && !SYMBOLOGY_INFO[qr.symbology].carriesUrl) {
+    ctx.addIssue({ code: 'custom', message: 'EAN-13 and UPC-A codes can only be direct', path: ['mode'] });
+  }
+  if (!qr.payload && !qr.contact && !qr.destination_url) {
+    ctx.addIssue({ code: 'custom', message: 'URL is required', path: ['destination_url'] });
+  }
+  if (qr.payload && (qr.mode !== 'direct' || qr.symbology !== 'qr')) {
+    ctx.addIssue({ code: 'custom', message: 'Structured content is only available on direct QR codes', path: ['payload'] });
+  }
+  if (qr.contact && (qr.mode !== 'managed' || qr.payload)) {
+    ctx.addIssue({ code: 'custom', message: 'Contact codes must be managed', path: ['contact'] });
+  }
 });
 
 // Update QR request schema
@@ -78,11 +322,26 @@ export const updateQRSchema = z.object({
     .min(1, 'URL is required')
     .max(2048, 'URL is too long')
     .optional(),
+  destination_rules: destinationRulesSchema.optional(),
+  destination_variants: destinationVariantsSchema.optional(),
+  utm: utmSchema.nullable().optional(),
   is_active: z.boolean().optional(),
   analytics_enabled: z.boolean().optional(),
   carrier: carrier.optional(),
 });
 
+// Public API (/api/v1) update schema — basic fields only. Scheduling, A/B
+// splits, carrier and styling remain dashboard features for now; unknown
+// keys are rejected so callers notice rather than silently no-op.
+export const apiUpdateQRSchema = updateQRSchema
+  .pick({
+    name: true,
+    destination_url: true,
+    is_active: true,
+    analytics_enabled: true,
+  })
+  .strict();
+
 // Update style request schema
 export const updateStyleSchema = qrStyleSchema.partial();
 
@@ -101,6 +360,47 @@ export const exportQRSchema = z.object({
     .optional(),
 });
 
+// Bulk create request schema — rows come from the CSV and are validated
+// individually with createQRSchema so errors can be reported per line
+export const bulkCreateQRSchema = z.object({
+  csv: z
+    .string()
+    .min(1, 'CSV is required')
+    .max(QR_DEFAULTS.MAX_BULK_CSV_BYTES, 'CSV is too large'),
+  analytics_enabled: z.boolean().default(true),
+  style: qrStyleSchema.partial().optional(),
+  dry_run: z.boolean().default(false),
+});
+
+// Bulk export request schema
+export const bulkExportQRSchema = z.object({
+  ids: z
+    .array(z.string().refine((v) => isValidUUID(v), 'Invalid QR code ID'))
+    .min(1, 'Select at least one QR code')
+    .max(QR_DEFAULTS.MAX_BULK_ROWS, `At most ${QR_DEFAULTS.MAX_BULK_ROWS} QR codes per export`),
+  formats: z
+    .array(z.enum(['svg', 'png', 'pdf']))
+    .min(1, 'Choose at least one format')
+    .default(['svg', 'png', 'pdf']),
+  png_size: z.number().int().min(64).max(4096).default(1024),
+  pdf_preset: z
+    .enum(['sticker-50mm', 'sticker-75mm', 'sticker-100mm', 'a4'])
+    .default('sticker-75mm'),
+  // Export QR codes even if their style fails the scan test
+  allow_unscannable: z.boolean().default(false),
+});
+
+// Scan check request schema (see lib/qr/scannability.ts). content is
+// exactly what the code encodes; 2953 bytes is a QR code's capacity.
+export const scannabilityCheckSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'Content is required')
+    .max(2953, 'Content is too long for a QR code'),
+  style: qrStyleSchema.partial().default({}),
+  logo_mode: z.enum(['none', 'upload', 'placeholder']).default('none'),
+});
+
 // Validate URL schema (for the validation endpoint)
 export const validateUrlSchema = z.object({
   url: z.string().min(1, 'URL is required'),
@@ -116,7 +416,14 @@ export function isValidUUID(value: string): boolean {
 
 // Types inferred from schemas
 export type CreateQRInput = z.infer<typeof createQRSchema>;
+export type QRPayloadInput = z.infer<typeof qrPayloadSchema>;
 export type UpdateQRInput = z.infer<typeof updateQRSchema>;
+export type ApiUpdateQRInput = z.infer<typeof apiUpdateQRSchema>;
+export type DestinationRuleInput = z.infer<typeof destinationRuleSchema>;
+export type DestinationVariantInput = z.infer<typeof destinationVariantSchema>;
 export type UpdateStyleInput = z.infer<typeof updateStyleSchema>;
 export type ExportQRInput = z.infer<typeof exportQRSchema>;
+export type BulkCreateQRInput = z.infer<typeof bulkCreateQRSchema>;
+export type BulkExportQRInput = z.infer<typeof bulkExportQRSchema>;
+export type ScannabilityCheckInput = z.infer<typeof scannabilityCheckSchema>;
 export type ValidateUrlInput = z.infer<typeof validateUrlSchema>;
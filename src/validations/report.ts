@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { REPORT_DEFAULTS } from '@/lib/constants';
+
+const recipientIdsSchema = z
+  .array(z.string().uuid())
+  .min(1, 'Choose at least one recipient')
+  .max(REPORT_DEFAULTS.MAX_RECIPIENTS, `At most ${REPORT_DEFAULTS.MAX_RECIPIENTS} recipients`)
+  .transform((ids) => Array.from(new Set(ids)));
+
+/** POST /api/org/reports body — no qr_id / page_id reports on the whole org */
+export const createReportScheduleSchema = z
+  .object({
+    qr_id: z.string().uuid().optional(),
+    page_id: z.string().uuid().optional(),
+    recipient_ids: recipientIdsSchema,
+  })
+  .refine((schedule) => !(schedule.qr_id && schedule.page_id), {
+    message: 'Choose a QR code or a bio page, not both',
+    path: ['qr_id'],
+  });
+export type CreateReportScheduleInput = z.infer<typeof createReportScheduleSchema>;
+
+export const updateReportScheduleSchema = z
+  .object({
+    recipient_ids: recipientIdsSchema.optional(),
+    is_active: z.boolean().optional(),
+  })
+  .strict();
+export type UpdateReportScheduleInput = z.infer<typeof updateReportScheduleSchema>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { SUBMISSION_DEFAULTS } from '@/lib/constants';
+
+export const SUBMISSION_STATUS_FILTERS = ['inbox', 'unread', 'read', 'archived', 'all'] as const;
+export const SUBMISSION_BULK_ACTIONS = ['mark_read', 'mark_unread', 'archive', 'unarchive', 'delete'] as const;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+  .refine((s) => !Number.isNaN(Date.parse(`${s}T00:00:00Z`)), 'Invalid date');
+
+const filterFields = {
+  status: z.enum(SUBMISSION_STATUS_FILTERS).default('inbox'),
+  q: z
+    .string()
+    .max(200, 'Search must be at most 200 characters')
+    .transform((s) => s.trim())
+    .optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  page_id: z.string().uuid().optional(),
+};
+
+function fromNotAfterTo(data: { from?: string; to?: string }) {
+  return !data.from || !data.to || data.from <= data.to;
+}
+
+/** GET /api/inbox query string */
+export const submissionListQuerySchema = z
+  .object({
+    ...filterFields,
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(SUBMISSION_DEFAULTS.MAX_PAGE_SIZE)
+      .default(SUBMISSION_DEFAULTS.PAGE_SIZE),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine(fromNotAfterTo, { message: '"from" must not be after "to"', path: ['from'] });
+export type SubmissionListQuery = z.infer<typeof submissionListQuerySchema>;
+
+/** GET /api/inbox/export query string — the date range is required */
+export const submissionExportQuerySchema = z
+  .object({
+    ...filterFields,
+    status: z.enum(SUBMISSION_STATUS_FILTERS).default('all'),
+    from: isoDate,
+    to: isoDate,
+  })
+  .refine(fromNotAfterTo, { message: '"from" must not be after "to"', path: ['from'] })
+  .refine(
+    (data) =>
+      (Date.parse(`${data.to}T00:00:00Z`) - Date.parse(`${data.from}T00:00:00Z`)) / 86_400_000 <
+      SUBMISSION_DEFAULTS.MAX_EXPORT_DAYS,
+    { message: `Export at most ${SUBMISSION_DEFAULTS.MAX_EXPORT_DAYS} days at a time`, path: ['to'] }
+  );
+export type SubmissionExportQuery = z.infer<typeof submissionExportQuerySchema>;
+
+/** POST /api/inbox/bulk body */
+export const submissionBulkActionSchema = z.object({
+  ids: z
+    .array(z.string().uuid())
+    .min(1, 'Select at least one submission')
+    .max(SUBMISSION_DEFAULTS.MAX_BULK_IDS, `At most ${SUBMISSION_DEFAULTS.MAX_BULK_IDS} submissions at a time`)
+    .transform((ids) => Array.from(new Set(ids))),
+  action: z.enum(SUBMISSION_BULK_ACTIONS),
+});
+export type SubmissionBulkActionInput = z.infer<typeof submissionBulkActionSchema>;
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { WEBHOOK_EVENT_TYPES } from '@/lib/constants';
+
+const webhookUrlSchema = z
+  .string()
+  .min(1, 'URL is required')
+  .max(2048, 'URL must be at most 2048 characters')
+  .url('Must be a valid URL')
+  .refine((url) => url.startsWith('https://'), 'Webhook URLs must use HTTPS');
+
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, 'Select at least one event')
+  .transform((events) => Array.from(new Set(events)));
+
+const descriptionSchema = z
+  .string()
+  .max(200, 'Description must be at most 200 characters')
+  .transform((s) => s.trim() || null)
+  .nullable()
+  .optional();
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: descriptionSchema,
+  events: webhookEventsSchema,
+});
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+
+export const updateWebhookEndpointSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    description: descriptionSchema,
+    events: webhookEventsSchema.optional(),
+    is_active: z.boolean().optional(),
+    /** Replace the signing secret; the new one is returned once */
+    rotate_secret: z.literal(true).optional(),
+  })
+  .strict();
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
@@ -0,0 +1,32 @@
+-- Migration: Review funnel block
+--
+-- Adds the review_funnel bio block type. Customers pick a star rating:
+-- high ratings are sent to the business's public review page (Google,
+-- TripAdvisor, Trustpilot, Facebook); low ratings open a private feedback
+-- form whose submissions land in bio_form_submissions alongside contact
+-- form leads.
+--
+-- Additive, non-breaking:
+-- - New enum value on bio_block_type.
+-- - New nullable rating column on bio_form_submissions. Existing contact
+--   form rows keep rating = NULL.
+
+-- =============================================================================
+-- ENUMS: Add review_funnel to bio_block_type
+-- =============================================================================
+
+DO $$ BEGIN
+  ALTER TYPE bio_block_type ADD VALUE IF NOT EXISTS 'review_funnel';
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- =============================================================================
+-- COLUMN: bio_form_submissions.rating
+-- =============================================================================
+
+ALTER TABLE bio_form_submissions
+  ADD COLUMN IF NOT EXISTS rating SMALLINT
+  CHECK (rating IS NULL OR rating BETWEEN 1 AND 5);
+
+COMMENT ON COLUMN bio_form_submissions.rating IS
+  'Star rating (1-5) for private feedback left through a review_funnel block. NULL for contact_form submissions.';
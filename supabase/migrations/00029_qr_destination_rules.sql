@@ -0,0 +1,20 @@
+-- Migration: Scheduled destination rules for managed QR codes
+--
+-- Adds an ordered list of time-based rules to qr_codes. The redirect
+-- handler (src/app/r/[slug]/route.ts) evaluates them on every scan in the
+-- org's default_timezone and sends the visitor to the first matching rule's
+-- destination; destination_url remains the fallback when nothing matches.
+--
+-- Additive, non-breaking: default '[]' means every existing row keeps
+-- redirecting to destination_url exactly as before.
+--
+-- Rule shape (validated in src/validations/qr.ts):
+--   { id, label?, destination_url, days?, start_date?, end_date?,
+--     start_time?, end_time? }
+
+ALTER TABLE qr_codes
+  ADD COLUMN IF NOT EXISTS destination_rules JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(destination_rules) = 'array');
+
+COMMENT ON COLUMN qr_codes.destination_rules IS
+  'Ordered time-based destination rules, evaluated in organizations.default_timezone. First match wins; destination_url is the fallback. Only meaningful when mode = managed.';
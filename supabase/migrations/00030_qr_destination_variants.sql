@@ -0,0 +1,30 @@
+-- Migration: A/B split destinations for managed QR codes
+--
+-- Adds weighted destination variants to qr_codes and records which variant
+-- each scan was sent to. The redirect handler (src/app/r/[slug]/route.ts)
+-- picks a variant per scan, sticky per ip_hash, so the same visitor keeps
+-- landing on the same page. Scheduled destination rules still take
+-- precedence: variants only replace the destination_url fallback.
+--
+-- Additive, non-breaking: default '[]' means no split, and existing scan
+-- events keep variant_id = NULL.
+--
+-- Variant shape (validated in src/validations/qr.ts):
+--   { id, label?, destination_url, weight }
+
+ALTER TABLE qr_codes
+  ADD COLUMN IF NOT EXISTS destination_variants JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(destination_variants) = 'array');
+
+COMMENT ON COLUMN qr_codes.destination_variants IS
+  'Weighted A/B destination variants. Empty = no split. Used when no destination_rules entry matches. Only meaningful when mode = managed.';
+
+ALTER TABLE qr_scan_events
+  ADD COLUMN IF NOT EXISTS variant_id TEXT;
+
+COMMENT ON COLUMN qr_scan_events.variant_id IS
+  'id of the qr_codes.destination_variants entry this scan was redirected to; NULL when no split was active.';
+
+CREATE INDEX IF NOT EXISTS idx_qr_scan_events_qr_variant
+  ON qr_scan_events(qr_id, variant_id)
+  WHERE variant_id IS NOT NULL;
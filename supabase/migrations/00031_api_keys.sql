@@ -0,0 +1,61 @@
+-- Migration: API keys for the public REST API
+--
+-- Org-scoped bearer tokens for /api/v1/*. The plaintext key is shown once at
+-- creation; only its SHA-256 hash is stored (keys are 256-bit random, so a
+-- fast unsalted hash is sufficient). key_prefix keeps the first characters
+-- so users can tell keys apart in the dashboard.
+--
+-- Requests authenticate by hash lookup through the service-role client, so
+-- RLS here only governs the dashboard: owners/admins of the org can list,
+-- create and revoke keys. Keys are never hard-deleted — revoked_at is set
+-- instead, so audit history keeps pointing at a real row.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['read']::TEXT[],
+
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT api_key_name_length CHECK (char_length(name) BETWEEN 1 AND 100),
+  CONSTRAINT api_key_hash_format CHECK (key_hash ~ '^[0-9a-f]{64}$'),
+  CONSTRAINT api_key_scopes_valid CHECK (
+    cardinality(scopes) >= 1 AND scopes <@ ARRAY['read', 'write']::TEXT[]
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_hash_unique ON api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_org ON api_keys(org_id, created_at DESC);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "api_keys_select_owner_admin"
+  ON api_keys FOR SELECT
+  TO authenticated
+  USING (is_platform_admin() OR role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE POLICY "api_keys_insert_owner_admin"
+  ON api_keys FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND role_in_org(org_id) IN ('owner', 'admin')
+  );
+
+-- UPDATE is only used to revoke (set revoked_at); last_used_at is written by
+-- the service role during request authentication.
+CREATE POLICY "api_keys_update_owner_admin"
+  ON api_keys FOR UPDATE
+  TO authenticated
+  USING (is_platform_admin() OR role_in_org(org_id) IN ('owner', 'admin'))
+  WITH CHECK (is_platform_admin() OR role_in_org(org_id) IN ('owner', 'admin'));
+
+COMMIT;
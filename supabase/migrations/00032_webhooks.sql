@@ -0,0 +1,177 @@
+-- Migration: Outgoing webhooks
+--
+-- Org-level webhook endpoints subscribed to event types, and a delivery log
+-- with retry state. Deliveries are written by the service role (event
+-- emitters, the retry cron) — RLS here only governs the dashboard, where
+-- owners/admins manage endpoints and read delivery history.
+--
+-- Event types: qr.scanned, bio.viewed, bio.block_clicked, form.submitted,
+-- invite.accepted, order.status_changed. Most are emitted from application
+-- code at the existing insert points. Shop order status changes happen
+-- outside the app (platform admin edits, the future Stripe webhook), so
+-- they are queued by a trigger on shop_orders and sent by the retry cron.
+--
+-- The signing secret is stored in plaintext: it is needed to compute the
+-- HMAC on every delivery, so it cannot be hashed like API keys.
+
+BEGIN;
+
+-- =============================================================================
+-- TABLE: webhook_endpoints
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT webhook_endpoint_url_length CHECK (char_length(url) BETWEEN 1 AND 2048),
+  CONSTRAINT webhook_endpoint_description_length CHECK (description IS NULL OR char_length(description) <= 200),
+  CONSTRAINT webhook_endpoint_events_valid CHECK (
+    cardinality(events) >= 1 AND events <@ ARRAY[
+      'qr.scanned',
+      'bio.viewed',
+      'bio.block_clicked',
+      'form.submitted',
+      'invite.accepted',
+      'order.status_changed'
+    ]::TEXT[]
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_org
+  ON webhook_endpoints(org_id) WHERE is_active;
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "webhook_endpoints_select_owner_admin"
+  ON webhook_endpoints FOR SELECT
+  TO authenticated
+  USING (is_platform_admin() OR role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE POLICY "webhook_endpoints_insert_owner_admin"
+  ON webhook_endpoints FOR INSERT
+  TO authenticated
+  WITH CHECK (role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE POLICY "webhook_endpoints_update_owner_admin"
+  ON webhook_endpoints FOR UPDATE
+  TO authenticated
+  USING (role_in_org(org_id) IN ('owner', 'admin'))
+  WITH CHECK (role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE POLICY "webhook_endpoints_delete_owner_admin"
+  ON webhook_endpoints FOR DELETE
+  TO authenticated
+  USING (role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE OR REPLACE FUNCTION touch_webhook_endpoints_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER trg_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION touch_webhook_endpoints_updated_at();
+
+-- =============================================================================
+-- TABLE: webhook_deliveries
+--
+-- One row per (event, endpoint). event_id is shared by all deliveries of the
+-- same event so receivers can de-duplicate. payload holds the event's data
+-- object; the envelope ({ id, type, created_at, data }) is built at send time.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INT,
+  response_body TEXT,
+  last_error TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT webhook_delivery_status_valid CHECK (status IN ('pending', 'succeeded', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON webhook_deliveries(endpoint_id, created_at DESC);
+
+-- Retry cron: due pending deliveries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "webhook_deliveries_select_owner_admin"
+  ON webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (is_platform_admin() OR role_in_org(org_id) IN ('owner', 'admin'));
+
+-- =============================================================================
+-- TRIGGER: queue order.status_changed deliveries
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION enqueue_order_status_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID := uuid_generate_v4();
+BEGIN
+  INSERT INTO webhook_deliveries (endpoint_id, org_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    NEW.org_id,
+    v_event_id,
+    'order.status_changed',
+    jsonb_build_object(
+      'order_id', NEW.id,
+      'previous_status', OLD.status,
+      'status', NEW.status,
+      'total_pence', NEW.total_pence,
+      'tracking_number', NEW.tracking_number,
+      'changed_at', now()
+    )
+  FROM webhook_endpoints e
+  WHERE e.org_id = NEW.org_id
+    AND e.is_active
+    AND 'order.status_changed' = ANY(e.events);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shop_orders_status_webhooks ON shop_orders;
+CREATE TRIGGER trg_shop_orders_status_webhooks
+  AFTER UPDATE OF status ON shop_orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION enqueue_order_status_webhooks();
+
+COMMIT;
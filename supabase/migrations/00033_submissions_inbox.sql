@@ -0,0 +1,43 @@
+-- Migration: Submissions inbox
+--
+-- The org-wide inbox over bio_form_submissions needs:
+--   * an archived state alongside is_read — archived_at is NULL for inbox
+--     rows; archiving keeps is_read as it was so unarchiving restores it
+--   * full-text search over name, email, subject and message — a stored
+--     tsvector kept in sync by Postgres, with a GIN index
+--   * a time index for the org-wide date-range listing (the existing index
+--     leads with page_id, which only serves the per-page view)
+--
+-- Uses the 'simple' configuration: submissions are names, addresses and
+-- short free text, where English stemming does more harm than good.
+-- RLS is unchanged — the 00020 policies already scope rows to org members.
+
+BEGIN;
+
+ALTER TABLE bio_form_submissions
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE bio_form_submissions
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple',
+      coalesce(name, '') || ' ' ||
+      coalesce(email, '') || ' ' ||
+      -- Index the address parts too so "acme" finds jo@acme.co.uk
+      coalesce(translate(email, '@.', '  '), '') || ' ' ||
+      coalesce(subject, '') || ' ' ||
+      coalesce(message, '')
+    )
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_bio_form_submissions_search
+  ON bio_form_submissions USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_bio_form_submissions_time
+  ON bio_form_submissions(submitted_at DESC);
+
+COMMENT ON COLUMN bio_form_submissions.archived_at IS
+  'When the submission was archived from the inbox. NULL = in the inbox.';
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- Migration: Lead routing for bio page forms
+--
+-- Form submissions used to email a single address (contact_email, falling
+-- back to the owner's login email) via an inline Resend call whose failures
+-- were swallowed. This adds:
+--   * bio_link_pages.lead_routing — per-page routing config:
+--       { "recipients": ["a@x.com", ...],
+--         "block_overrides": { "<block uuid>": ["b@x.com", ...] },
+--         "autoresponder": { "enabled": true, "subject": "...", "message": "..." } | null }
+--     NULL keeps the old behaviour (contact_email, else the owner's email).
+--   * bio_form_email_log — one row per attempted email (notification or
+--     autoresponder) so failed sends are visible to the page's org.
+--
+-- Log rows are written by the service role only; org members can read them.
+
+BEGIN;
+
+ALTER TABLE bio_link_pages
+  ADD COLUMN IF NOT EXISTS lead_routing JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN bio_link_pages.lead_routing IS
+  'Form email routing: recipients, per-block overrides and autoresponder. NULL = contact_email or owner email.';
+
+CREATE TABLE IF NOT EXISTS bio_form_email_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+  submission_id UUID REFERENCES bio_form_submissions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('notification', 'autoresponder')),
+  recipient TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  provider_id TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bio_form_email_log_page
+  ON bio_form_email_log(page_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_bio_form_email_log_submission
+  ON bio_form_email_log(submission_id);
+
+ALTER TABLE bio_form_email_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "bio_form_email_log_select_member" ON bio_form_email_log;
+
+CREATE POLICY "bio_form_email_log_select_member"
+  ON bio_form_email_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bio_link_pages
+      WHERE bio_link_pages.id = bio_form_email_log.page_id
+        AND is_member_of_org(bio_link_pages.org_id)
+    )
+  );
+
+COMMIT;
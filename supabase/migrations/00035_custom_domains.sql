@@ -0,0 +1,89 @@
+-- Migration: Custom domains for bio pages (H1 spec §3.4)
+--
+-- A page can be served on one customer-owned hostname. The domain moves
+-- through a small state machine:
+--
+--   pending  → the owner has added the domain; we are waiting for DNS
+--              (a CNAME to the platform host and a TXT ownership record at
+--              _lynx-verify.<domain> containing custom_domain_token)
+--   verified → both records check out; waiting for the hosting provider
+--              to attach the domain and issue a certificate
+--   active   → traffic for the host is served by /p/[slug]
+--
+-- The verification cron moves rows forward, demotes active domains whose
+-- CNAME disappears back to pending, and releases domains left pending past
+-- the TTL. Only Pro orgs get their domains served (resolve_custom_domain
+-- checks the plan), so a downgrade stops serving without touching the row.
+
+BEGIN;
+
+ALTER TABLE bio_link_pages
+  ADD COLUMN IF NOT EXISTS custom_domain TEXT,
+  ADD COLUMN IF NOT EXISTS custom_domain_status TEXT
+    CHECK (custom_domain_status IN ('pending', 'verified', 'active')),
+  ADD COLUMN IF NOT EXISTS custom_domain_token TEXT,
+  ADD COLUMN IF NOT EXISTS custom_domain_requested_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS custom_domain_verified_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS custom_domain_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS custom_domain_error TEXT;
+
+-- Domain and status are set and cleared together; hostnames are stored
+-- lower-case without a trailing dot.
+ALTER TABLE bio_link_pages ADD CONSTRAINT bio_custom_domain_state
+  CHECK (
+    (custom_domain IS NULL AND custom_domain_status IS NULL)
+    OR (
+      custom_domain IS NOT NULL
+      AND custom_domain_status IS NOT NULL
+      AND custom_domain_token IS NOT NULL
+      AND custom_domain = lower(custom_domain)
+      AND char_length(custom_domain) <= 253
+    )
+  );
+
+-- One page per hostname, across all orgs. Deleted pages keep their row but
+-- must not hold the domain hostage.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bio_link_pages_custom_domain
+  ON bio_link_pages(custom_domain)
+  WHERE custom_domain IS NOT NULL AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bio_link_pages_custom_domain_status
+  ON bio_link_pages(custom_domain_status, custom_domain_checked_at)
+  WHERE custom_domain IS NOT NULL;
+
+COMMENT ON COLUMN bio_link_pages.custom_domain IS
+  'Customer hostname serving this page (lower-case, no trailing dot)';
+COMMENT ON COLUMN bio_link_pages.custom_domain_status IS
+  'pending → verified → active; NULL when no custom domain is set';
+COMMENT ON COLUMN bio_link_pages.custom_domain_token IS
+  'Expected value of the _lynx-verify TXT record';
+
+-- =============================================================================
+-- FUNCTION: resolve_custom_domain(p_host TEXT) → slug
+--
+-- Called by middleware with the anon key on every request to a non-platform
+-- host, so it returns only the slug and only for serveable pages.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION resolve_custom_domain(p_host TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.slug
+  FROM bio_link_pages p
+  JOIN organizations o ON o.id = p.org_id
+  WHERE p.custom_domain = lower(rtrim(p_host, '.'))
+    AND p.custom_domain_status = 'active'
+    AND p.is_active
+    AND p.deleted_at IS NULL
+    AND o.plan = 'pro'
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION resolve_custom_domain(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_custom_domain(TEXT) TO anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,294 @@
+-- Migration: Daily analytics rollups
+--
+-- The QR and bio analytics endpoints used to load up to 10k raw event rows
+-- per request and count them in JavaScript, which is slow for busy codes and
+-- silently wrong past the cap. This adds pre-aggregated daily counts that
+-- the summaries (src/lib/analytics/rollups.ts) read instead:
+--   * qr_scan_daily_rollups — scans per QR code, UTC day and A/B variant
+--   * bio_daily_rollups     — views and clicks per bio page and UTC day
+--
+-- Each event contributes 1 to a 'total' row plus one row per breakdown
+-- dimension it has a value for:
+--   scans / views: country, device, os, browser, referrer
+--   clicks:        country, device, link (item id) or block (block id)
+-- Scan rollups are kept per variant ('' = no split) so the overall figures
+-- are the sum across variants.
+--
+-- Rollups are maintained incrementally by AFTER INSERT triggers on the
+-- event tables and backfilled here from existing events. Distinct visitor
+-- counts can't be summed across days, so they stay a COUNT(DISTINCT) in
+-- SQL (analytics_*_unique_visitors) over the indexed period range.
+
+BEGIN;
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS qr_scan_daily_rollups (
+  qr_id UUID NOT NULL REFERENCES qr_codes(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  variant_id TEXT NOT NULL DEFAULT '',
+  dimension TEXT NOT NULL
+    CHECK (dimension IN ('total', 'country', 'device', 'os', 'browser', 'referrer')),
+  value TEXT NOT NULL DEFAULT '',
+  count BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (qr_id, day, variant_id, dimension, value)
+);
+
+COMMENT ON TABLE qr_scan_daily_rollups IS
+  'Scan counts per QR, UTC day, variant and breakdown value. Maintained by trigger on qr_scan_events.';
+
+CREATE TABLE IF NOT EXISTS bio_daily_rollups (
+  page_id UUID NOT NULL REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('view', 'click')),
+  dimension TEXT NOT NULL
+    CHECK (dimension IN ('total', 'country', 'device', 'os', 'browser', 'referrer', 'link', 'block')),
+  value TEXT NOT NULL DEFAULT '',
+  count BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (page_id, day, metric, dimension, value)
+);
+
+COMMENT ON TABLE bio_daily_rollups IS
+  'View and click counts per bio page, UTC day and breakdown value. Maintained by triggers on the bio event tables.';
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION rollup_qr_scan_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO qr_scan_daily_rollups (qr_id, day, variant_id, dimension, value, count)
+  SELECT NEW.qr_id, (NEW.scanned_at AT TIME ZONE 'UTC')::date,
+         COALESCE(NEW.variant_id, ''), d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (qr_id, day, variant_id, dimension, value)
+  DO UPDATE SET count = qr_scan_daily_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_view_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_daily_rollups (page_id, day, metric, dimension, value, count)
+  SELECT NEW.page_id, (NEW.viewed_at AT TIME ZONE 'UTC')::date, 'view', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, day, metric, dimension, value)
+  DO UPDATE SET count = bio_daily_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+-- Shared by bio_link_click_events (TG_ARGV[0] = 'link', keyed by item_id)
+-- and bio_block_click_events ('block', keyed by block_id)
+CREATE OR REPLACE FUNCTION rollup_bio_click_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_dimension TEXT := TG_ARGV[0];
+  target_id TEXT := CASE WHEN TG_ARGV[0] = 'link'
+                         THEN to_jsonb(NEW)->>'item_id'
+                         ELSE to_jsonb(NEW)->>'block_id' END;
+BEGIN
+  INSERT INTO bio_daily_rollups (page_id, day, metric, dimension, value, count)
+  SELECT NEW.page_id, (NEW.clicked_at AT TIME ZONE 'UTC')::date, 'click', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    (target_dimension, target_id)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, day, metric, dimension, value)
+  DO UPDATE SET count = bio_daily_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- BACKFILL
+--
+-- Block event inserts until COMMIT so nothing lands between the backfill
+-- and the triggers below.
+-- =============================================================================
+
+LOCK TABLE qr_scan_events, bio_link_view_events, bio_link_click_events, bio_block_click_events
+  IN SHARE MODE;
+
+INSERT INTO qr_scan_daily_rollups (qr_id, day, variant_id, dimension, value, count)
+SELECT e.qr_id, (e.scanned_at AT TIME ZONE 'UTC')::date, COALESCE(e.variant_id, ''),
+       d.dimension, d.value, COUNT(*)
+FROM qr_scan_events e
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('country', e.country_code),
+  ('device', e.device_type::text),
+  ('os', e.os_family),
+  ('browser', e.browser_family),
+  ('referrer', e.referrer_domain)
+) AS d(dimension, value)
+WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+INSERT INTO bio_daily_rollups (page_id, day, metric, dimension, value, count)
+SELECT e.page_id, (e.viewed_at AT TIME ZONE 'UTC')::date, 'view', d.dimension, d.value, COUNT(*)
+FROM bio_link_view_events e
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('country', e.country_code),
+  ('device', e.device_type::text),
+  ('os', e.os_family),
+  ('browser', e.browser_family),
+  ('referrer', e.referrer_domain)
+) AS d(dimension, value)
+WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+-- Link and block clicks share the 'total', 'country' and 'device' rows, so
+-- both tables are aggregated together
+INSERT INTO bio_daily_rollups (page_id, day, metric, dimension, value, count)
+SELECT c.page_id, (c.clicked_at AT TIME ZONE 'UTC')::date, 'click', d.dimension, d.value, COUNT(*)
+FROM (
+  SELECT page_id, clicked_at, country_code, device_type, 'link' AS kind, item_id::text AS target_id
+  FROM bio_link_click_events
+  UNION ALL
+  SELECT page_id, clicked_at, country_code, device_type, 'block', block_id::text
+  FROM bio_block_click_events
+) c
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('country', c.country_code),
+  ('device', c.device_type::text),
+  (c.kind, c.target_id)
+) AS d(dimension, value)
+WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+DROP TRIGGER IF EXISTS trigger_qr_scan_rollup ON qr_scan_events;
+CREATE TRIGGER trigger_qr_scan_rollup
+  AFTER INSERT ON qr_scan_events
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_qr_scan_event();
+
+DROP TRIGGER IF EXISTS trigger_bio_view_rollup ON bio_link_view_events;
+CREATE TRIGGER trigger_bio_view_rollup
+  AFTER INSERT ON bio_link_view_events
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_bio_view_event();
+
+DROP TRIGGER IF EXISTS trigger_bio_link_click_rollup ON bio_link_click_events;
+CREATE TRIGGER trigger_bio_link_click_rollup
+  AFTER INSERT ON bio_link_click_events
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_bio_click_event('link');
+
+DROP TRIGGER IF EXISTS trigger_bio_block_click_rollup ON bio_block_click_events;
+CREATE TRIGGER trigger_bio_block_click_rollup
+  AFTER INSERT ON bio_block_click_events
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_bio_click_event('block');
+
+-- =============================================================================
+-- UNIQUE VISITORS
+--
+-- SECURITY INVOKER: the caller's RLS on the event tables applies.
+-- =============================================================================
+
+-- One row with variant_id NULL for the whole QR, plus one per variant
+CREATE OR REPLACE FUNCTION analytics_qr_unique_visitors(p_qr_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (variant_id TEXT, visitors BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.variant_id, COUNT(DISTINCT e.ip_hash)
+  FROM qr_scan_events e
+  WHERE e.qr_id = p_qr_id
+    AND e.scanned_at >= p_since
+    AND e.ip_hash IS NOT NULL
+  GROUP BY GROUPING SETS ((e.variant_id), ())
+  HAVING GROUPING(e.variant_id) = 1 OR e.variant_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_unique_visitors(p_page_id UUID, p_since TIMESTAMPTZ)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(DISTINCT ip_hash)
+  FROM bio_link_view_events
+  WHERE page_id = p_page_id
+    AND viewed_at >= p_since
+    AND ip_hash IS NOT NULL;
+$$;
+
+-- =============================================================================
+-- ROW LEVEL SECURITY — same visibility as the underlying events
+-- =============================================================================
+
+ALTER TABLE qr_scan_daily_rollups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bio_daily_rollups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "qr_scan_daily_rollups_select_member" ON qr_scan_daily_rollups;
+
+CREATE POLICY "qr_scan_daily_rollups_select_member"
+  ON qr_scan_daily_rollups FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM qr_codes
+      WHERE qr_codes.id = qr_scan_daily_rollups.qr_id
+        AND is_member_of_org(qr_codes.org_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "bio_daily_rollups_select_member" ON bio_daily_rollups;
+
+CREATE POLICY "bio_daily_rollups_select_member"
+  ON bio_daily_rollups FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bio_link_pages
+      WHERE bio_link_pages.id = bio_daily_rollups.page_id
+        AND is_member_of_org(bio_link_pages.org_id)
+    )
+  );
+
+COMMIT;
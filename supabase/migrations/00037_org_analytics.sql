@@ -0,0 +1,148 @@
+-- Migration: Org-wide analytics
+--
+-- Backs the org analytics dashboard (/app/analytics, /api/org/analytics):
+--   * bio_daily_rollups gains a 'submission' metric — form submissions per
+--     page and UTC day ('total' plus a 'block' breakdown), maintained by
+--     trigger on bio_form_submissions and backfilled here.
+--   * analytics_org_daily — scans, views, clicks and submissions per day
+--     across every live QR code and bio page in an org.
+--   * analytics_org_leaderboard — the org's top QR codes by scans and top
+--     bio pages by views over a window.
+--
+-- Both functions are SECURITY INVOKER, so the rollup tables' member RLS
+-- decides what the caller can see.
+
+BEGIN;
+
+ALTER TABLE bio_daily_rollups
+  DROP CONSTRAINT IF EXISTS bio_daily_rollups_metric_check;
+
+ALTER TABLE bio_daily_rollups
+  ADD CONSTRAINT bio_daily_rollups_metric_check
+  CHECK (metric IN ('view', 'click', 'submission'));
+
+CREATE OR REPLACE FUNCTION rollup_bio_form_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_daily_rollups (page_id, day, metric, dimension, value, count)
+  SELECT NEW.page_id, (NEW.submitted_at AT TIME ZONE 'UTC')::date, 'submission', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('block', NEW.block_id::text)
+  ) AS d(dimension, value)
+  ON CONFLICT (page_id, day, metric, dimension, value)
+  DO UPDATE SET count = bio_daily_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+LOCK TABLE bio_form_submissions IN SHARE MODE;
+
+INSERT INTO bio_daily_rollups (page_id, day, metric, dimension, value, count)
+SELECT s.page_id, (s.submitted_at AT TIME ZONE 'UTC')::date, 'submission', d.dimension, d.value, COUNT(*)
+FROM bio_form_submissions s
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('block', s.block_id::text)
+) AS d(dimension, value)
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+DROP TRIGGER IF EXISTS trigger_bio_submission_rollup ON bio_form_submissions;
+CREATE TRIGGER trigger_bio_submission_rollup
+  AFTER INSERT ON bio_form_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_bio_form_submission();
+
+-- =============================================================================
+-- ORG-WIDE READS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION analytics_org_daily(p_org_id UUID, p_since DATE)
+RETURNS TABLE (day DATE, scans BIGINT, views BIGINT, clicks BIGINT, submissions BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scan_days AS (
+    SELECT r.day, SUM(r.count) AS scans
+    FROM qr_scan_daily_rollups r
+    JOIN qr_codes q ON q.id = r.qr_id
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.day >= p_since
+    GROUP BY r.day
+  ),
+  bio_days AS (
+    SELECT r.day,
+           SUM(r.count) FILTER (WHERE r.metric = 'view') AS views,
+           SUM(r.count) FILTER (WHERE r.metric = 'click') AS clicks,
+           SUM(r.count) FILTER (WHERE r.metric = 'submission') AS submissions
+    FROM bio_daily_rollups r
+    JOIN bio_link_pages p ON p.id = r.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.day >= p_since
+    GROUP BY r.day
+  )
+  SELECT COALESCE(s.day, b.day),
+         COALESCE(s.scans, 0)::BIGINT,
+         COALESCE(b.views, 0)::BIGINT,
+         COALESCE(b.clicks, 0)::BIGINT,
+         COALESCE(b.submissions, 0)::BIGINT
+  FROM scan_days s
+  FULL OUTER JOIN bio_days b ON b.day = s.day
+  ORDER BY 1;
+$$;
+
+-- resource_type 'qr' rows carry scans; 'bio' rows carry views, clicks and
+-- submissions. At most p_limit of each, busiest first.
+CREATE OR REPLACE FUNCTION analytics_org_leaderboard(p_org_id UUID, p_since DATE, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  resource_type TEXT,
+  resource_id UUID,
+  name TEXT,
+  scans BIGINT,
+  views BIGINT,
+  clicks BIGINT,
+  submissions BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  (
+    SELECT 'qr', q.id, q.name, SUM(r.count)::BIGINT, 0::BIGINT, 0::BIGINT, 0::BIGINT
+    FROM qr_scan_daily_rollups r
+    JOIN qr_codes q ON q.id = r.qr_id
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.day >= p_since
+    GROUP BY q.id, q.name
+    ORDER BY 4 DESC, q.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'bio', p.id, p.title, 0::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'view'), 0)::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'click'), 0)::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'submission'), 0)::BIGINT
+    FROM bio_daily_rollups r
+    JOIN bio_link_pages p ON p.id = r.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.day >= p_since
+    GROUP BY p.id, p.title
+    ORDER BY 5 DESC, 6 DESC, p.title
+    LIMIT p_limit
+  );
+$$;
+
+COMMIT;
@@ -0,0 +1,498 @@
+-- Migration: Hourly analytics rollups, read in the org's timezone
+--
+-- The daily rollups (00036, 00037) bucket by UTC day, so for a UK org a
+-- scan at 23:30 BST counts towards the next day, and there is no way to
+-- report by hour of day. This replaces them with hourly UTC buckets:
+--   * qr_scan_hourly_rollups — scans per QR code, UTC hour and A/B variant
+--   * bio_hourly_rollups     — views, clicks and form submissions per bio
+--                              page and UTC hour
+--
+-- Dimensions and triggers are unchanged apart from the bucket. Readers no
+-- longer select rows directly: the analytics_* functions below group the
+-- hours of a [p_from, p_to) window into local days (or weekday × hour for
+-- the heatmaps) in the IANA zone p_tz. Zones with a part-hour offset see
+-- each hour attributed to the local hour it starts in.
+--
+-- All read functions are SECURITY INVOKER, so the member RLS on the rollup
+-- and event tables decides what the caller can see.
+
+BEGIN;
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS qr_scan_hourly_rollups (
+  qr_id UUID NOT NULL REFERENCES qr_codes(id) ON DELETE CASCADE,
+  hour TIMESTAMPTZ NOT NULL,
+  variant_id TEXT NOT NULL DEFAULT '',
+  dimension TEXT NOT NULL
+    CHECK (dimension IN ('total', 'country', 'device', 'os', 'browser', 'referrer')),
+  value TEXT NOT NULL DEFAULT '',
+  count BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (qr_id, hour, variant_id, dimension, value)
+);
+
+COMMENT ON TABLE qr_scan_hourly_rollups IS
+  'Scan counts per QR, UTC hour, variant and breakdown value. Maintained by trigger on qr_scan_events.';
+
+CREATE TABLE IF NOT EXISTS bio_hourly_rollups (
+  page_id UUID NOT NULL REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+  hour TIMESTAMPTZ NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('view', 'click', 'submission')),
+  dimension TEXT NOT NULL
+    CHECK (dimension IN ('total', 'country', 'device', 'os', 'browser', 'referrer', 'link', 'block')),
+  value TEXT NOT NULL DEFAULT '',
+  count BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (page_id, hour, metric, dimension, value)
+);
+
+COMMENT ON TABLE bio_hourly_rollups IS
+  'View, click and form submission counts per bio page, UTC hour and breakdown value. Maintained by triggers on the bio event tables.';
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS — same names as 00036/00037, so the triggers carry over
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION rollup_qr_scan_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO qr_scan_hourly_rollups (qr_id, hour, variant_id, dimension, value, count)
+  SELECT NEW.qr_id, date_trunc('hour', NEW.scanned_at, 'UTC'),
+         COALESCE(NEW.variant_id, ''), d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (qr_id, hour, variant_id, dimension, value)
+  DO UPDATE SET count = qr_scan_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_view_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.viewed_at, 'UTC'), 'view', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, hour, metric, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_click_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_dimension TEXT := TG_ARGV[0];
+  target_id TEXT := CASE WHEN TG_ARGV[0] = 'link'
+                         THEN to_jsonb(NEW)->>'item_id'
+                         ELSE to_jsonb(NEW)->>'block_id' END;
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.clicked_at, 'UTC'), 'click', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    (target_dimension, target_id)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, hour, metric, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_form_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.submitted_at, 'UTC'), 'submission', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('block', NEW.block_id::text)
+  ) AS d(dimension, value)
+  ON CONFLICT (page_id, hour, metric, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- BACKFILL from the raw events — the daily rows can't be split into hours.
+--
+-- Block event inserts until COMMIT so nothing is counted twice or missed
+-- between the backfill and the trigger functions switching tables.
+-- =============================================================================
+
+LOCK TABLE qr_scan_events, bio_link_view_events, bio_link_click_events,
+  bio_block_click_events, bio_form_submissions
+  IN SHARE MODE;
+
+INSERT INTO qr_scan_hourly_rollups (qr_id, hour, variant_id, dimension, value, count)
+SELECT e.qr_id, date_trunc('hour', e.scanned_at, 'UTC'), COALESCE(e.variant_id, ''),
+       d.dimension, d.value, COUNT(*)
+FROM qr_scan_events e
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('country', e.country_code),
+  ('device', e.device_type::text),
+  ('os', e.os_family),
+  ('browser', e.browser_family),
+  ('referrer', e.referrer_domain)
+) AS d(dimension, value)
+WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+SELECT e.page_id, date_trunc('hour', e.viewed_at, 'UTC'), 'view', d.dimension, d.value, COUNT(*)
+FROM bio_link_view_events e
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('country', e.country_code),
+  ('device', e.device_type::text),
+  ('os', e.os_family),
+  ('browser', e.browser_family),
+  ('referrer', e.referrer_domain)
+) AS d(dimension, value)
+WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+SELECT c.page_id, date_trunc('hour', c.clicked_at, 'UTC'), 'click', d.dimension, d.value, COUNT(*)
+FROM (
+  SELECT page_id, clicked_at, country_code, device_type, 'link' AS kind, item_id::text AS target_id
+  FROM bio_link_click_events
+  UNION ALL
+  SELECT page_id, clicked_at, country_code, device_type, 'block', block_id::text
+  FROM bio_block_click_events
+) c
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('country', c.country_code),
+  ('device', c.device_type::text),
+  (c.kind, c.target_id)
+) AS d(dimension, value)
+WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+SELECT s.page_id, date_trunc('hour', s.submitted_at, 'UTC'), 'submission', d.dimension, d.value, COUNT(*)
+FROM bio_form_submissions s
+CROSS JOIN LATERAL (VALUES
+  ('total', ''),
+  ('block', s.block_id::text)
+) AS d(dimension, value)
+GROUP BY 1, 2, 3, 4, 5
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- RETIRE THE DAILY ROLLUPS
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS analytics_qr_unique_visitors(UUID, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS analytics_bio_unique_visitors(UUID, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS analytics_org_daily(UUID, DATE);
+DROP FUNCTION IF EXISTS analytics_org_leaderboard(UUID, DATE, INTEGER);
+
+DROP TABLE IF EXISTS qr_scan_daily_rollups;
+DROP TABLE IF EXISTS bio_daily_rollups;
+
+-- =============================================================================
+-- READS — per QR code / bio page
+-- =============================================================================
+
+-- Rollup rows summed into local days of p_tz
+CREATE OR REPLACE FUNCTION analytics_qr_rollups(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_totals_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (day DATE, variant_id TEXT, dimension TEXT, value TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (r.hour AT TIME ZONE p_tz)::date, r.variant_id, r.dimension, r.value, SUM(r.count)::BIGINT
+  FROM qr_scan_hourly_rollups r
+  WHERE r.qr_id = p_qr_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND (NOT p_totals_only OR r.dimension = 'total')
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_rollups(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_totals_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (day DATE, metric TEXT, dimension TEXT, value TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (r.hour AT TIME ZONE p_tz)::date, r.metric, r.dimension, r.value, SUM(r.count)::BIGINT
+  FROM bio_hourly_rollups r
+  WHERE r.page_id = p_page_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND (NOT p_totals_only OR r.dimension = 'total')
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
+
+-- Totals by local weekday (0 = Sunday) and hour of day
+CREATE OR REPLACE FUNCTION analytics_qr_heatmap(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT
+)
+RETURNS TABLE (weekday INTEGER, hour INTEGER, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(DOW FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         EXTRACT(HOUR FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         SUM(r.count)::BIGINT
+  FROM qr_scan_hourly_rollups r
+  WHERE r.qr_id = p_qr_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND r.dimension = 'total'
+  GROUP BY 1, 2;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_heatmap(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_metric TEXT DEFAULT 'view'
+)
+RETURNS TABLE (weekday INTEGER, hour INTEGER, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(DOW FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         EXTRACT(HOUR FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         SUM(r.count)::BIGINT
+  FROM bio_hourly_rollups r
+  WHERE r.page_id = p_page_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND r.metric = p_metric
+    AND r.dimension = 'total'
+  GROUP BY 1, 2;
+$$;
+
+-- One row with variant_id NULL for the whole QR, plus one per variant
+CREATE OR REPLACE FUNCTION analytics_qr_unique_visitors(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (variant_id TEXT, visitors BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.variant_id, COUNT(DISTINCT e.ip_hash)
+  FROM qr_scan_events e
+  WHERE e.qr_id = p_qr_id
+    AND e.scanned_at >= p_from
+    AND e.scanned_at < p_to
+    AND e.ip_hash IS NOT NULL
+  GROUP BY GROUPING SETS ((e.variant_id), ())
+  HAVING GROUPING(e.variant_id) = 1 OR e.variant_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_unique_visitors(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(DISTINCT ip_hash)
+  FROM bio_link_view_events
+  WHERE page_id = p_page_id
+    AND viewed_at >= p_from
+    AND viewed_at < p_to
+    AND ip_hash IS NOT NULL;
+$$;
+
+-- =============================================================================
+-- READS — org-wide
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION analytics_org_daily(
+  p_org_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT
+)
+RETURNS TABLE (day DATE, scans BIGINT, views BIGINT, clicks BIGINT, submissions BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scan_days AS (
+    SELECT (r.hour AT TIME ZONE p_tz)::date AS day, SUM(r.count) AS scans
+    FROM qr_scan_hourly_rollups r
+    JOIN qr_codes q ON q.id = r.qr_id
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+    GROUP BY 1
+  ),
+  bio_days AS (
+    SELECT (r.hour AT TIME ZONE p_tz)::date AS day,
+           SUM(r.count) FILTER (WHERE r.metric = 'view') AS views,
+           SUM(r.count) FILTER (WHERE r.metric = 'click') AS clicks,
+           SUM(r.count) FILTER (WHERE r.metric = 'submission') AS submissions
+    FROM bio_hourly_rollups r
+    JOIN bio_link_pages p ON p.id = r.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+    GROUP BY 1
+  )
+  SELECT COALESCE(s.day, b.day),
+         COALESCE(s.scans, 0)::BIGINT,
+         COALESCE(b.views, 0)::BIGINT,
+         COALESCE(b.clicks, 0)::BIGINT,
+         COALESCE(b.submissions, 0)::BIGINT
+  FROM scan_days s
+  FULL OUTER JOIN bio_days b ON b.day = s.day
+  ORDER BY 1;
+$$;
+
+-- resource_type 'qr' rows carry scans; 'bio' rows carry views, clicks and
+-- submissions. At most p_limit of each, busiest first.
+CREATE OR REPLACE FUNCTION analytics_org_leaderboard(
+  p_org_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  resource_type TEXT,
+  resource_id UUID,
+  name TEXT,
+  scans BIGINT,
+  views BIGINT,
+  clicks BIGINT,
+  submissions BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  (
+    SELECT 'qr', q.id, q.name, SUM(r.count)::BIGINT, 0::BIGINT, 0::BIGINT, 0::BIGINT
+    FROM qr_scan_hourly_rollups r
+    JOIN qr_codes q ON q.id = r.qr_id
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+    GROUP BY q.id, q.name
+    ORDER BY 4 DESC, q.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'bio', p.id, p.title, 0::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'view'), 0)::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'click'), 0)::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'submission'), 0)::BIGINT
+    FROM bio_hourly_rollups r
+    JOIN bio_link_pages p ON p.id = r.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+    GROUP BY p.id, p.title
+    ORDER BY 5 DESC, 6 DESC, p.title
+    LIMIT p_limit
+  );
+$$;
+
+-- =============================================================================
+-- ROW LEVEL SECURITY — same visibility as the underlying events
+-- =============================================================================
+
+ALTER TABLE qr_scan_hourly_rollups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bio_hourly_rollups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "qr_scan_hourly_rollups_select_member" ON qr_scan_hourly_rollups;
+
+CREATE POLICY "qr_scan_hourly_rollups_select_member"
+  ON qr_scan_hourly_rollups FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM qr_codes
+      WHERE qr_codes.id = qr_scan_hourly_rollups.qr_id
+        AND is_member_of_org(qr_codes.org_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "bio_hourly_rollups_select_member" ON bio_hourly_rollups;
+
+CREATE POLICY "bio_hourly_rollups_select_member"
+  ON bio_hourly_rollups FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bio_link_pages
+      WHERE bio_link_pages.id = bio_hourly_rollups.page_id
+        AND is_member_of_org(bio_link_pages.org_id)
+    )
+  );
+
+COMMIT;
@@ -0,0 +1,61 @@
+-- Migration: Scan medium (QR vs NFC)
+--
+-- Managed codes on NFC merchandise encode /r/[slug]?m=nfc, so the redirect
+-- handler can record whether a scan came from a camera ('qr') or a tap
+-- ('nfc'). Adds qr_scan_events.medium and a 'medium' breakdown dimension to
+-- the hourly scan rollups. Every scan recorded before this migration was
+-- a QR scan, so existing 'total' rows are copied as medium = 'qr'.
+
+BEGIN;
+
+ALTER TABLE qr_scan_events
+  ADD COLUMN IF NOT EXISTS medium TEXT NOT NULL DEFAULT 'qr'
+    CHECK (medium IN ('qr', 'nfc'));
+
+COMMENT ON COLUMN qr_scan_events.medium IS
+  'What produced the scan: qr (camera) or nfc (tap, /r/[slug]?m=nfc).';
+
+ALTER TABLE qr_scan_hourly_rollups
+  DROP CONSTRAINT IF EXISTS qr_scan_hourly_rollups_dimension_check;
+
+ALTER TABLE qr_scan_hourly_rollups
+  ADD CONSTRAINT qr_scan_hourly_rollups_dimension_check
+  CHECK (dimension IN ('total', 'country', 'device', 'os', 'browser', 'referrer', 'medium'));
+
+-- Block scan inserts until COMMIT so the backfill and the new trigger body
+-- don't both count a scan
+LOCK TABLE qr_scan_events IN SHARE MODE;
+
+CREATE OR REPLACE FUNCTION rollup_qr_scan_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO qr_scan_hourly_rollups (qr_id, hour, variant_id, dimension, value, count)
+  SELECT NEW.qr_id, date_trunc('hour', NEW.scanned_at, 'UTC'),
+         COALESCE(NEW.variant_id, ''), d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain),
+    ('medium', NEW.medium)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (qr_id, hour, variant_id, dimension, value)
+  DO UPDATE SET count = qr_scan_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO qr_scan_hourly_rollups (qr_id, hour, variant_id, dimension, value, count)
+SELECT qr_id, hour, variant_id, 'medium', 'qr', count
+FROM qr_scan_hourly_rollups
+WHERE dimension = 'total'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,137 @@
+-- Migration: UTM tags on managed redirects and bio links
+--
+-- Managed QR codes, bio link items and link blocks can carry UTM tags
+-- ({source, medium, campaign, content}) which /r/[slug] and the public bio
+-- page append to the outbound URL (see src/lib/utm.ts). The stored
+-- destination is left untouched.
+--   * qr_codes.utm, bio_link_items.utm — JSONB, NULL when untagged. Link
+--     blocks keep theirs in content->'utm'.
+--   * utm_campaigns — every campaign in an org with the number of codes,
+--     links and blocks tagged with it.
+--   * update_utm_campaign — bulk edit of the tags on everything in a
+--     campaign: keys in p_utm replace the current value, JSON null removes
+--     it, absent keys are left alone.
+--
+-- Both functions are SECURITY INVOKER, so member RLS on the underlying
+-- tables decides what the caller can see and change.
+
+BEGIN;
+
+ALTER TABLE qr_codes
+  ADD COLUMN IF NOT EXISTS utm JSONB
+    CHECK (utm IS NULL OR jsonb_typeof(utm) = 'object');
+
+ALTER TABLE bio_link_items
+  ADD COLUMN IF NOT EXISTS utm JSONB
+    CHECK (utm IS NULL OR jsonb_typeof(utm) = 'object');
+
+COMMENT ON COLUMN qr_codes.utm IS
+  'UTM tags appended to the redirect destination (managed codes only).';
+COMMENT ON COLUMN bio_link_items.utm IS
+  'UTM tags appended to the link URL on the public page.';
+
+CREATE INDEX IF NOT EXISTS idx_qr_codes_utm_campaign
+  ON qr_codes (org_id, (utm->>'campaign'))
+  WHERE utm IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bio_link_items_utm_campaign
+  ON bio_link_items ((utm->>'campaign'))
+  WHERE utm IS NOT NULL;
+
+-- A tag column is only filled in when every tagged item agrees on it
+CREATE OR REPLACE FUNCTION utm_campaigns(p_org_id UUID)
+RETURNS TABLE (
+  campaign TEXT,
+  source TEXT,
+  medium TEXT,
+  content TEXT,
+  qr_codes BIGINT,
+  bio_links BIGINT,
+  link_blocks BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH tagged AS (
+    SELECT 'qr' AS kind, q.utm
+    FROM qr_codes q
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND q.mode = 'managed'
+      AND q.utm ? 'campaign'
+    UNION ALL
+    SELECT 'link', i.utm
+    FROM bio_link_items i
+    JOIN bio_link_pages p ON p.id = i.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND i.utm ? 'campaign'
+    UNION ALL
+    SELECT 'block', b.content->'utm'
+    FROM bio_blocks b
+    JOIN bio_link_pages p ON p.id = b.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND b.block_type = 'link'
+      AND b.content->'utm' ? 'campaign'
+  )
+  SELECT utm->>'campaign',
+         CASE WHEN COUNT(DISTINCT COALESCE(utm->>'source', '')) = 1 THEN MAX(utm->>'source') END,
+         CASE WHEN COUNT(DISTINCT COALESCE(utm->>'medium', '')) = 1 THEN MAX(utm->>'medium') END,
+         CASE WHEN COUNT(DISTINCT COALESCE(utm->>'content', '')) = 1 THEN MAX(utm->>'content') END,
+         COUNT(*) FILTER (WHERE kind = 'qr'),
+         COUNT(*) FILTER (WHERE kind = 'link'),
+         COUNT(*) FILTER (WHERE kind = 'block')
+  FROM tagged
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Returns the number of codes, links and blocks updated
+CREATE OR REPLACE FUNCTION update_utm_campaign(p_org_id UUID, p_campaign TEXT, p_utm JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total INTEGER := 0;
+  v_rows INTEGER;
+BEGIN
+  UPDATE qr_codes q
+  SET utm = NULLIF(jsonb_strip_nulls(q.utm || p_utm), '{}'::jsonb)
+  WHERE q.org_id = p_org_id
+    AND q.deleted_at IS NULL
+    AND q.mode = 'managed'
+    AND q.utm->>'campaign' = p_campaign;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  UPDATE bio_link_items i
+  SET utm = NULLIF(jsonb_strip_nulls(i.utm || p_utm), '{}'::jsonb)
+  FROM bio_link_pages p
+  WHERE p.id = i.page_id
+    AND p.org_id = p_org_id
+    AND p.deleted_at IS NULL
+    AND i.utm->>'campaign' = p_campaign;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  UPDATE bio_blocks b
+  SET content = jsonb_set(
+    b.content,
+    '{utm}',
+    COALESCE(NULLIF(jsonb_strip_nulls((b.content->'utm') || p_utm), '{}'::jsonb), 'null'::jsonb)
+  )
+  FROM bio_link_pages p
+  WHERE p.id = b.page_id
+    AND p.org_id = p_org_id
+    AND p.deleted_at IS NULL
+    AND b.block_type = 'link'
+    AND b.content->'utm'->>'campaign' = p_campaign;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  RETURN v_total;
+END;
+$$;
+
+COMMIT;
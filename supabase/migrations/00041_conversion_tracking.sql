@@ -0,0 +1,114 @@
+-- Migration: Conversion tracking
+--
+-- Lets a destination site report a purchase or sign-up back to the scan or
+-- bio link click that sent the visitor there:
+--   * organizations.conversion_key — public key that identifies the org in
+--     its conversion snippet / pixel. NULL means tracking is off.
+--   * conversion_clicks — short-lived click IDs. /r/[slug] issues one per
+--     scan and appends it to the destination as ?os_click=…; bio link
+--     clicks issue one from the public page. Rows expire after
+--     CONVERSION_DEFAULTS.CLICK_TTL_DAYS and are purged by
+--     /api/cron/conversions. Service role only.
+--   * conversion_events — conversions reported via /api/conversions, one
+--     per click ID and event name, copied from the click so they outlive it.
+--   * analytics_qr_conversions / analytics_bio_conversions — conversions and
+--     value per currency over a window (QR: also per A/B variant).
+--     SECURITY INVOKER, so member RLS on conversion_events applies.
+
+BEGIN;
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS conversion_key TEXT UNIQUE;
+
+COMMENT ON COLUMN organizations.conversion_key IS
+  'Public key for the conversion snippet and pixel; NULL when conversion tracking is off.';
+
+CREATE TABLE IF NOT EXISTS conversion_clicks (
+  id TEXT PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  qr_id UUID REFERENCES qr_codes(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+  variant_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  CONSTRAINT conversion_clicks_one_source CHECK ((qr_id IS NULL) <> (page_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversion_clicks_expires_at
+  ON conversion_clicks (expires_at);
+
+ALTER TABLE conversion_clicks ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS conversion_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  click_id TEXT NOT NULL,
+  qr_id UUID REFERENCES qr_codes(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+  variant_id TEXT,
+  event_name TEXT NOT NULL DEFAULT 'conversion',
+  value NUMERIC(12, 2) CHECK (value IS NULL OR value >= 0),
+  currency TEXT CHECK (currency IS NULL OR currency ~ '^[A-Z]{3}$'),
+  converted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Reloading a thank-you page must not count twice
+  CONSTRAINT conversion_events_once_per_click UNIQUE (click_id, event_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversion_events_qr
+  ON conversion_events (qr_id, converted_at)
+  WHERE qr_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversion_events_page
+  ON conversion_events (page_id, converted_at)
+  WHERE page_id IS NOT NULL;
+
+ALTER TABLE conversion_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "conversion_events_select_member" ON conversion_events;
+
+CREATE POLICY "conversion_events_select_member"
+  ON conversion_events FOR SELECT
+  TO authenticated
+  USING (is_member_of_org(org_id));
+
+-- =============================================================================
+-- READS
+-- =============================================================================
+
+-- One row per (variant, currency); currency is NULL for conversions
+-- reported without a value
+CREATE OR REPLACE FUNCTION analytics_qr_conversions(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (variant_id TEXT, currency TEXT, conversions BIGINT, value NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.variant_id, e.currency, COUNT(*), COALESCE(SUM(e.value), 0)
+  FROM conversion_events e
+  WHERE e.qr_id = p_qr_id
+    AND e.converted_at >= p_from
+    AND e.converted_at < p_to
+  GROUP BY e.variant_id, e.currency;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_conversions(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (currency TEXT, conversions BIGINT, value NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.currency, COUNT(*), COALESCE(SUM(e.value), 0)
+  FROM conversion_events e
+  WHERE e.page_id = p_page_id
+    AND e.converted_at >= p_from
+    AND e.converted_at < p_to
+  GROUP BY e.currency;
+$$;
+
+COMMIT;
@@ -0,0 +1,173 @@
+-- Migration: Scan alert rules and email digests
+--
+-- Members set alert rules on a QR code (scans) or bio page (views):
+--   * first_scan   — the first scan / view ever
+--   * volume_above — more than `threshold` in the last `window_hours`
+--   * volume_below — fewer than `threshold` in the last `window_hours`
+--   * new_country  — a scan / view from a country never seen before
+--   * inactive     — none at all in the last `window_hours` (N days)
+--
+-- The alerts cron (/api/cron/alerts) evaluates active rules with the
+-- service role and writes alert_events. `delivery` decides how they are
+-- emailed: straight away, or collected into a daily / weekly digest.
+-- Recipients default to the rule's creator when the list is empty.
+
+BEGIN;
+
+-- =============================================================================
+-- TABLE: alert_rules
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  qr_id UUID REFERENCES qr_codes(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+
+  kind TEXT NOT NULL,
+  threshold INT,
+  window_hours INT,
+  delivery TEXT NOT NULL DEFAULT 'immediate',
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Evaluation state, written by the cron
+  last_evaluated_at TIMESTAMPTZ,
+  last_triggered_at TIMESTAMPTZ,
+  -- When this rule's events were last emailed (digest cadence)
+  last_notified_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT alert_rule_one_target CHECK ((qr_id IS NULL) <> (page_id IS NULL)),
+  CONSTRAINT alert_rule_kind_valid CHECK (
+    kind IN ('first_scan', 'volume_above', 'volume_below', 'new_country', 'inactive')
+  ),
+  CONSTRAINT alert_rule_delivery_valid CHECK (delivery IN ('immediate', 'daily', 'weekly')),
+  CONSTRAINT alert_rule_threshold_valid CHECK (
+    (kind IN ('volume_above', 'volume_below')) = (threshold IS NOT NULL)
+    AND (threshold IS NULL OR threshold BETWEEN 1 AND 1000000)
+  ),
+  CONSTRAINT alert_rule_window_valid CHECK (
+    (kind IN ('volume_above', 'volume_below', 'inactive')) = (window_hours IS NOT NULL)
+    AND (window_hours IS NULL OR window_hours BETWEEN 1 AND 2160)
+  ),
+  CONSTRAINT alert_rule_recipients_max CHECK (cardinality(recipients) <= 10)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_org
+  ON alert_rules(org_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_active
+  ON alert_rules(last_evaluated_at NULLS FIRST) WHERE is_active;
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "alert_rules_select_member"
+  ON alert_rules FOR SELECT
+  TO authenticated
+  USING (is_platform_admin() OR is_member_of_org(org_id));
+
+CREATE POLICY "alert_rules_insert_member"
+  ON alert_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (is_member_of_org(org_id) AND created_by = auth.uid());
+
+-- Members manage their own rules; owners/admins manage everyone's
+CREATE POLICY "alert_rules_update_creator_or_admin"
+  ON alert_rules FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() OR role_in_org(org_id) IN ('owner', 'admin'))
+  WITH CHECK (is_member_of_org(org_id));
+
+CREATE POLICY "alert_rules_delete_creator_or_admin"
+  ON alert_rules FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() OR role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE OR REPLACE FUNCTION touch_alert_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_alert_rules_updated_at ON alert_rules;
+CREATE TRIGGER trg_alert_rules_updated_at
+  BEFORE UPDATE ON alert_rules
+  FOR EACH ROW EXECUTE FUNCTION touch_alert_rules_updated_at();
+
+-- =============================================================================
+-- TABLE: alert_events
+--
+-- One row per time a rule fired. notified_at stays NULL until the event has
+-- gone out — immediately, or with the rule's next digest.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  rule_id UUID NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  message TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  triggered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  notified_at TIMESTAMPTZ,
+  email_status TEXT,
+
+  CONSTRAINT alert_event_email_status_valid CHECK (
+    email_status IS NULL OR email_status IN ('sent', 'failed', 'skipped')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_events_org
+  ON alert_events(org_id, triggered_at DESC);
+
+-- Digest sends: a rule's pending events
+CREATE INDEX IF NOT EXISTS idx_alert_events_pending
+  ON alert_events(rule_id) WHERE notified_at IS NULL;
+
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "alert_events_select_member"
+  ON alert_events FOR SELECT
+  TO authenticated
+  USING (is_platform_admin() OR is_member_of_org(org_id));
+
+-- =============================================================================
+-- FUNCTION: alert_new_countries
+--
+-- Countries with a scan (p_qr_id) or page view (p_page_id) at or after
+-- p_since that had none before it.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION alert_new_countries(
+  p_qr_id UUID,
+  p_page_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE (country_code TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH events AS (
+    SELECT s.country_code, s.scanned_at AS at
+    FROM qr_scan_events s
+    WHERE p_qr_id IS NOT NULL AND s.qr_id = p_qr_id AND s.country_code IS NOT NULL
+    UNION ALL
+    SELECT v.country_code, v.viewed_at AS at
+    FROM bio_link_view_events v
+    WHERE p_page_id IS NOT NULL AND v.page_id = p_page_id AND v.country_code IS NOT NULL
+  )
+  SELECT e.country_code
+  FROM events e
+  GROUP BY e.country_code
+  HAVING MIN(e.at) >= p_since;
+$$;
+
+COMMIT;
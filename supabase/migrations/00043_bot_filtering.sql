@@ -0,0 +1,520 @@
+-- Migration: Bot and link-preview filtering
+--
+-- Link unfurlers (Slack, WhatsApp, iMessage…), security scanners, crawlers
+-- and browser prefetches hit /r/[slug] and /p/[slug] like any visitor, so
+-- pasting a bio link into a group chat inflated its numbers. The app now
+-- classifies every request (src/lib/analytics/bots.ts) and flags bot
+-- events with is_bot rather than dropping them.
+--
+--   * qr_scan_events, bio_link_view_events, bio_link_click_events and
+--     bio_block_click_events gain is_bot.
+--   * total_scans / total_views (and link / block total_clicks) only count
+--     human events; bot scans and views are counted separately in
+--     qr_codes.bot_scans and bio_link_pages.bot_views.
+--   * The hourly rollups are keyed by is_bot as well, and every analytics_*
+--     read function takes p_include_bots (default false), so summaries
+--     exclude bots unless asked to include them.
+--   * alert_new_countries ignores bot events.
+--
+-- Events recorded before this migration can't be reclassified (the raw
+-- user agent isn't stored) and stay counted as human.
+
+BEGIN;
+
+-- =============================================================================
+-- COLUMNS
+-- =============================================================================
+
+ALTER TABLE qr_scan_events
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bio_link_view_events
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bio_link_click_events
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bio_block_click_events
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN qr_scan_events.is_bot IS
+  'Scan made by a bot, link preview or prefetch rather than a person. Excluded from analytics by default.';
+COMMENT ON COLUMN bio_link_view_events.is_bot IS
+  'View made by a bot, link preview or prefetch rather than a person. Excluded from analytics by default.';
+
+ALTER TABLE qr_codes
+  ADD COLUMN IF NOT EXISTS bot_scans INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bio_link_pages
+  ADD COLUMN IF NOT EXISTS bot_views INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN qr_codes.bot_scans IS
+  'Scans flagged as bots. Not included in total_scans.';
+COMMENT ON COLUMN bio_link_pages.bot_views IS
+  'Views flagged as bots. Not included in total_views.';
+
+ALTER TABLE qr_scan_hourly_rollups
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE qr_scan_hourly_rollups
+  DROP CONSTRAINT IF EXISTS qr_scan_hourly_rollups_pkey;
+ALTER TABLE qr_scan_hourly_rollups
+  ADD PRIMARY KEY (qr_id, hour, variant_id, is_bot, dimension, value);
+
+ALTER TABLE bio_hourly_rollups
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bio_hourly_rollups
+  DROP CONSTRAINT IF EXISTS bio_hourly_rollups_pkey;
+ALTER TABLE bio_hourly_rollups
+  ADD PRIMARY KEY (page_id, hour, metric, is_bot, dimension, value);
+
+-- =============================================================================
+-- COUNTER TRIGGER FUNCTIONS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION increment_qr_scan_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.is_bot THEN
+    UPDATE qr_codes
+    SET bot_scans = bot_scans + 1
+    WHERE id = NEW.qr_id;
+  ELSE
+    UPDATE qr_codes
+    SET
+      total_scans = total_scans + 1,
+      last_scanned_at = NOW()
+    WHERE id = NEW.qr_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION increment_bio_view_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.is_bot THEN
+    UPDATE bio_link_pages
+    SET bot_views = bot_views + 1
+    WHERE id = NEW.page_id;
+  ELSE
+    UPDATE bio_link_pages
+    SET
+      total_views = total_views + 1,
+      last_viewed_at = NOW()
+    WHERE id = NEW.page_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION increment_bio_click_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT NEW.is_bot THEN
+    UPDATE bio_link_items
+    SET total_clicks = total_clicks + 1
+    WHERE id = NEW.item_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION increment_bio_block_click_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT NEW.is_bot THEN
+    UPDATE bio_blocks
+    SET total_clicks = total_clicks + 1
+    WHERE id = NEW.block_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- ROLLUP TRIGGER FUNCTIONS — as 00038/00039, keyed by is_bot
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION rollup_qr_scan_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO qr_scan_hourly_rollups (qr_id, hour, variant_id, is_bot, dimension, value, count)
+  SELECT NEW.qr_id, date_trunc('hour', NEW.scanned_at, 'UTC'),
+         COALESCE(NEW.variant_id, ''), NEW.is_bot, d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain),
+    ('medium', NEW.medium)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (qr_id, hour, variant_id, is_bot, dimension, value)
+  DO UPDATE SET count = qr_scan_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_view_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, is_bot, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.viewed_at, 'UTC'), 'view', NEW.is_bot, d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, hour, metric, is_bot, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_click_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_dimension TEXT := TG_ARGV[0];
+  target_id TEXT := CASE WHEN TG_ARGV[0] = 'link'
+                         THEN to_jsonb(NEW)->>'item_id'
+                         ELSE to_jsonb(NEW)->>'block_id' END;
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, is_bot, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.clicked_at, 'UTC'), 'click', NEW.is_bot, d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    (target_dimension, target_id)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, hour, metric, is_bot, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_bio_form_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.submitted_at, 'UTC'), 'submission', d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('block', NEW.block_id::text)
+  ) AS d(dimension, value)
+  ON CONFLICT (page_id, hour, metric, is_bot, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- READS — same as 00038, plus p_include_bots
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS analytics_qr_rollups(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS analytics_bio_rollups(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS analytics_qr_heatmap(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS analytics_bio_heatmap(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT);
+DROP FUNCTION IF EXISTS analytics_qr_unique_visitors(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS analytics_bio_unique_visitors(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS analytics_org_daily(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS analytics_org_leaderboard(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER);
+
+CREATE OR REPLACE FUNCTION analytics_qr_rollups(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_totals_only BOOLEAN DEFAULT false,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (day DATE, variant_id TEXT, dimension TEXT, value TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (r.hour AT TIME ZONE p_tz)::date, r.variant_id, r.dimension, r.value, SUM(r.count)::BIGINT
+  FROM qr_scan_hourly_rollups r
+  WHERE r.qr_id = p_qr_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND (NOT p_totals_only OR r.dimension = 'total')
+    AND (p_include_bots OR NOT r.is_bot)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_rollups(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_totals_only BOOLEAN DEFAULT false,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (day DATE, metric TEXT, dimension TEXT, value TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (r.hour AT TIME ZONE p_tz)::date, r.metric, r.dimension, r.value, SUM(r.count)::BIGINT
+  FROM bio_hourly_rollups r
+  WHERE r.page_id = p_page_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND (NOT p_totals_only OR r.dimension = 'total')
+    AND (p_include_bots OR NOT r.is_bot)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_qr_heatmap(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (weekday INTEGER, hour INTEGER, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(DOW FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         EXTRACT(HOUR FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         SUM(r.count)::BIGINT
+  FROM qr_scan_hourly_rollups r
+  WHERE r.qr_id = p_qr_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND r.dimension = 'total'
+    AND (p_include_bots OR NOT r.is_bot)
+  GROUP BY 1, 2;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_heatmap(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_metric TEXT DEFAULT 'view',
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (weekday INTEGER, hour INTEGER, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(DOW FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         EXTRACT(HOUR FROM r.hour AT TIME ZONE p_tz)::INTEGER,
+         SUM(r.count)::BIGINT
+  FROM bio_hourly_rollups r
+  WHERE r.page_id = p_page_id
+    AND r.hour >= p_from
+    AND r.hour < p_to
+    AND r.metric = p_metric
+    AND r.dimension = 'total'
+    AND (p_include_bots OR NOT r.is_bot)
+  GROUP BY 1, 2;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_qr_unique_visitors(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (variant_id TEXT, visitors BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.variant_id, COUNT(DISTINCT e.ip_hash)
+  FROM qr_scan_events e
+  WHERE e.qr_id = p_qr_id
+    AND e.scanned_at >= p_from
+    AND e.scanned_at < p_to
+    AND e.ip_hash IS NOT NULL
+    AND (p_include_bots OR NOT e.is_bot)
+  GROUP BY GROUPING SETS ((e.variant_id), ())
+  HAVING GROUPING(e.variant_id) = 1 OR e.variant_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_unique_visitors(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(DISTINCT ip_hash)
+  FROM bio_link_view_events
+  WHERE page_id = p_page_id
+    AND viewed_at >= p_from
+    AND viewed_at < p_to
+    AND ip_hash IS NOT NULL
+    AND (p_include_bots OR NOT is_bot);
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_org_daily(
+  p_org_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tz TEXT,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (day DATE, scans BIGINT, views BIGINT, clicks BIGINT, submissions BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scan_days AS (
+    SELECT (r.hour AT TIME ZONE p_tz)::date AS day, SUM(r.count) AS scans
+    FROM qr_scan_hourly_rollups r
+    JOIN qr_codes q ON q.id = r.qr_id
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+      AND (p_include_bots OR NOT r.is_bot)
+    GROUP BY 1
+  ),
+  bio_days AS (
+    SELECT (r.hour AT TIME ZONE p_tz)::date AS day,
+           SUM(r.count) FILTER (WHERE r.metric = 'view') AS views,
+           SUM(r.count) FILTER (WHERE r.metric = 'click') AS clicks,
+           SUM(r.count) FILTER (WHERE r.metric = 'submission') AS submissions
+    FROM bio_hourly_rollups r
+    JOIN bio_link_pages p ON p.id = r.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+      AND (p_include_bots OR NOT r.is_bot)
+    GROUP BY 1
+  )
+  SELECT COALESCE(s.day, b.day),
+         COALESCE(s.scans, 0)::BIGINT,
+         COALESCE(b.views, 0)::BIGINT,
+         COALESCE(b.clicks, 0)::BIGINT,
+         COALESCE(b.submissions, 0)::BIGINT
+  FROM scan_days s
+  FULL OUTER JOIN bio_days b ON b.day = s.day
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_org_leaderboard(
+  p_org_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  resource_type TEXT,
+  resource_id UUID,
+  name TEXT,
+  scans BIGINT,
+  views BIGINT,
+  clicks BIGINT,
+  submissions BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  (
+    SELECT 'qr', q.id, q.name, SUM(r.count)::BIGINT, 0::BIGINT, 0::BIGINT, 0::BIGINT
+    FROM qr_scan_hourly_rollups r
+    JOIN qr_codes q ON q.id = r.qr_id
+    WHERE q.org_id = p_org_id
+      AND q.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+      AND (p_include_bots OR NOT r.is_bot)
+    GROUP BY q.id, q.name
+    ORDER BY 4 DESC, q.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'bio', p.id, p.title, 0::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'view'), 0)::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'click'), 0)::BIGINT,
+           COALESCE(SUM(r.count) FILTER (WHERE r.metric = 'submission'), 0)::BIGINT
+    FROM bio_hourly_rollups r
+    JOIN bio_link_pages p ON p.id = r.page_id
+    WHERE p.org_id = p_org_id
+      AND p.deleted_at IS NULL
+      AND r.dimension = 'total'
+      AND r.hour >= p_from
+      AND r.hour < p_to
+      AND (p_include_bots OR NOT r.is_bot)
+    GROUP BY p.id, p.title
+    ORDER BY 5 DESC, 6 DESC, p.title
+    LIMIT p_limit
+  );
+$$;
+
+-- =============================================================================
+-- ALERTS — a link preview from abroad isn't a new country
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION alert_new_countries(
+  p_qr_id UUID,
+  p_page_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE (country_code TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH events AS (
+    SELECT s.country_code, s.scanned_at AS at
+    FROM qr_scan_events s
+    WHERE p_qr_id IS NOT NULL AND s.qr_id = p_qr_id AND s.country_code IS NOT NULL
+      AND NOT s.is_bot
+    UNION ALL
+    SELECT v.country_code, v.viewed_at AS at
+    FROM bio_link_view_events v
+    WHERE p_page_id IS NOT NULL AND v.page_id = p_page_id AND v.country_code IS NOT NULL
+      AND NOT v.is_bot
+  )
+  SELECT e.country_code
+  FROM events e
+  GROUP BY e.country_code
+  HAVING MIN(e.at) >= p_since;
+$$;
+
+COMMIT;
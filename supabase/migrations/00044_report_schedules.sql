@@ -0,0 +1,86 @@
+-- Migration: Scheduled monthly PDF reports
+--
+-- Owners/admins schedule a monthly analytics report — for the whole org,
+-- one QR code or one bio page — emailed as a PDF to chosen org members.
+-- The reports cron (/api/cron/reports) sends last month's report once the
+-- month has ended in the org's timezone, recording the month in
+-- last_period so each month goes out once. Recipients who have left the
+-- org are skipped at send time.
+
+BEGIN;
+
+-- =============================================================================
+-- TABLE: report_schedules
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Both NULL = the whole org
+  qr_id UUID REFERENCES qr_codes(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+
+  recipient_ids UUID[] NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Delivery state, written by the cron
+  last_period DATE,
+  last_sent_at TIMESTAMPTZ,
+  last_status TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT report_schedule_one_target CHECK (qr_id IS NULL OR page_id IS NULL),
+  CONSTRAINT report_schedule_recipients_count CHECK (cardinality(recipient_ids) BETWEEN 1 AND 20),
+  CONSTRAINT report_schedule_status_valid CHECK (
+    last_status IS NULL OR last_status IN ('sent', 'failed', 'skipped')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_org
+  ON report_schedules(org_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_active
+  ON report_schedules(last_period NULLS FIRST) WHERE is_active;
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "report_schedules_select_member"
+  ON report_schedules FOR SELECT
+  TO authenticated
+  USING (is_platform_admin() OR is_member_of_org(org_id));
+
+-- Reports go to other people's inboxes, so only owners/admins manage them
+CREATE POLICY "report_schedules_insert_admin"
+  ON report_schedules FOR INSERT
+  TO authenticated
+  WITH CHECK (role_in_org(org_id) IN ('owner', 'admin') AND created_by = auth.uid());
+
+CREATE POLICY "report_schedules_update_admin"
+  ON report_schedules FOR UPDATE
+  TO authenticated
+  USING (role_in_org(org_id) IN ('owner', 'admin'))
+  WITH CHECK (role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE POLICY "report_schedules_delete_admin"
+  ON report_schedules FOR DELETE
+  TO authenticated
+  USING (role_in_org(org_id) IN ('owner', 'admin'));
+
+CREATE OR REPLACE FUNCTION touch_report_schedules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER trg_report_schedules_updated_at
+  BEFORE UPDATE ON report_schedules
+  FOR EACH ROW EXECUTE FUNCTION touch_report_schedules_updated_at();
+
+COMMIT;
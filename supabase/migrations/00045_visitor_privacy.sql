@@ -0,0 +1,329 @@
+-- Migration: Daily-rotating visitor hashes and raw event retention
+--
+-- ip_hash used to be SHA-256(IP + IP_HASH_SALT), the same for a visitor on
+-- every code and page, forever. The app now hashes the IP, user agent and
+-- resource (the QR code or bio page) with a random salt that changes every
+-- UTC day (src/lib/analytics/visitor-hash.ts), so a hash only identifies a
+-- visitor on one resource for one day:
+--   * analytics_salts — one random salt per UTC day. analytics_daily_salt()
+--     creates today's salt on first use and deletes every earlier one, so
+--     past hashes can't be recomputed. Service role only.
+--   * Unique visitors over a range are the sum of each day's distinct
+--     hashes. Events recorded before this migration keep their old
+--     hashes, which still count as distinct across days.
+--
+-- Raw events are kept for exports and unique visitors only; counters and
+-- hourly rollups are maintained on insert and are untouched by retention.
+-- /api/cron/retention (src/lib/analytics/retention.ts) calls:
+--   * analytics_coarsen_events — for whole UTC days older than
+--     ANALYTICS_COARSEN_AFTER_DAYS, stores each code's and page's distinct
+--     visitors in qr_daily_visitors / bio_daily_visitors and clears
+--     ip_hash on the day's events, so unique visitor counts survive.
+--   * analytics_delete_events — deletes events older than
+--     ANALYTICS_DELETE_AFTER_DAYS, only once they have been coarsened.
+--     Alerts for new countries only see the events that are kept.
+--
+-- bio_form_submissions.ip_hash becomes nullable: submissions store the
+-- same daily hash, or NULL when hashing isn't configured.
+
+BEGIN;
+
+-- =============================================================================
+-- DAILY SALTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS analytics_salts (
+  day DATE PRIMARY KEY,
+  salt TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE analytics_salts IS
+  'Random salt for visitor hashes, one per UTC day. Earlier days are deleted as soon as a new day starts.';
+
+ALTER TABLE analytics_salts ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role reads or writes salts.
+
+CREATE OR REPLACE FUNCTION analytics_daily_salt(p_day DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_salt TEXT;
+BEGIN
+  INSERT INTO analytics_salts (day, salt)
+  VALUES (p_day, replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''))
+  ON CONFLICT (day) DO NOTHING;
+
+  DELETE FROM analytics_salts WHERE day < p_day;
+
+  SELECT salt INTO v_salt FROM analytics_salts WHERE day = p_day;
+  RETURN v_salt;
+END;
+$$;
+
+-- Service role only. Supabase's default privileges also grant EXECUTE on
+-- new public functions to anon and authenticated directly, which revoking
+-- from PUBLIC leaves in place; a client able to call this could rotate
+-- today's salt mid-day.
+REVOKE ALL ON FUNCTION analytics_daily_salt(DATE) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION analytics_daily_salt(DATE) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION analytics_daily_salt(DATE) TO service_role;
+
+-- =============================================================================
+-- DAILY VISITORS (coarsened days)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS qr_daily_visitors (
+  qr_id UUID NOT NULL REFERENCES qr_codes(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  variant_id TEXT NOT NULL DEFAULT '',
+  is_bot BOOLEAN NOT NULL DEFAULT false,
+  visitors INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (qr_id, day, variant_id, is_bot)
+);
+
+COMMENT ON TABLE qr_daily_visitors IS
+  'Distinct visitors per QR, UTC day and variant for days whose scan events no longer carry ip_hash.';
+
+CREATE TABLE IF NOT EXISTS bio_daily_visitors (
+  page_id UUID NOT NULL REFERENCES bio_link_pages(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  is_bot BOOLEAN NOT NULL DEFAULT false,
+  visitors INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (page_id, day, is_bot)
+);
+
+COMMENT ON TABLE bio_daily_visitors IS
+  'Distinct visitors per bio page and UTC day for days whose view events no longer carry ip_hash.';
+
+ALTER TABLE qr_daily_visitors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bio_daily_visitors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "qr_daily_visitors_select_member" ON qr_daily_visitors;
+
+CREATE POLICY "qr_daily_visitors_select_member"
+  ON qr_daily_visitors FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM qr_codes
+      WHERE qr_codes.id = qr_daily_visitors.qr_id
+        AND is_member_of_org(qr_codes.org_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "bio_daily_visitors_select_member" ON bio_daily_visitors;
+
+CREATE POLICY "bio_daily_visitors_select_member"
+  ON bio_daily_visitors FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bio_link_pages
+      WHERE bio_link_pages.id = bio_daily_visitors.page_id
+        AND is_member_of_org(bio_link_pages.org_id)
+    )
+  );
+
+-- Oldest events that still carry a hash, for the coarsening job
+CREATE INDEX IF NOT EXISTS idx_qr_scan_events_hashed_time
+  ON qr_scan_events (scanned_at) WHERE ip_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bio_view_events_hashed_time
+  ON bio_link_view_events (viewed_at) WHERE ip_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bio_click_events_hashed_time
+  ON bio_link_click_events (clicked_at) WHERE ip_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bio_block_click_events_hashed_time
+  ON bio_block_click_events (clicked_at) WHERE ip_hash IS NOT NULL;
+
+ALTER TABLE bio_form_submissions
+  ALTER COLUMN ip_hash DROP NOT NULL;
+
+-- =============================================================================
+-- RETENTION (service role only)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION analytics_coarsen_events(p_before DATE, p_max_days INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before TIMESTAMPTZ := p_before::timestamp AT TIME ZONE 'UTC';
+  v_first TIMESTAMPTZ;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_days INTEGER := 0;
+BEGIN
+  WHILE v_days < p_max_days LOOP
+    SELECT MIN(t) INTO v_first FROM (
+      SELECT MIN(scanned_at) AS t FROM qr_scan_events WHERE ip_hash IS NOT NULL AND scanned_at < v_before
+      UNION ALL
+      SELECT MIN(viewed_at) FROM bio_link_view_events WHERE ip_hash IS NOT NULL AND viewed_at < v_before
+      UNION ALL
+      SELECT MIN(clicked_at) FROM bio_link_click_events WHERE ip_hash IS NOT NULL AND clicked_at < v_before
+      UNION ALL
+      SELECT MIN(clicked_at) FROM bio_block_click_events WHERE ip_hash IS NOT NULL AND clicked_at < v_before
+    ) oldest;
+    EXIT WHEN v_first IS NULL;
+
+    v_start := date_trunc('day', v_first, 'UTC');
+    v_end := v_start + INTERVAL '1 day';
+
+    INSERT INTO qr_daily_visitors (qr_id, day, variant_id, is_bot, visitors)
+    SELECT e.qr_id, (v_start AT TIME ZONE 'UTC')::date, COALESCE(e.variant_id, ''), e.is_bot, COUNT(DISTINCT e.ip_hash)
+    FROM qr_scan_events e
+    WHERE e.ip_hash IS NOT NULL
+      AND e.scanned_at >= v_start
+      AND e.scanned_at < v_end
+    GROUP BY e.qr_id, COALESCE(e.variant_id, ''), e.is_bot
+    ON CONFLICT (qr_id, day, variant_id, is_bot)
+    DO UPDATE SET visitors = qr_daily_visitors.visitors + EXCLUDED.visitors;
+
+    INSERT INTO bio_daily_visitors (page_id, day, is_bot, visitors)
+    SELECT e.page_id, (v_start AT TIME ZONE 'UTC')::date, e.is_bot, COUNT(DISTINCT e.ip_hash)
+    FROM bio_link_view_events e
+    WHERE e.ip_hash IS NOT NULL
+      AND e.viewed_at >= v_start
+      AND e.viewed_at < v_end
+    GROUP BY e.page_id, e.is_bot
+    ON CONFLICT (page_id, day, is_bot)
+    DO UPDATE SET visitors = bio_daily_visitors.visitors + EXCLUDED.visitors;
+
+    UPDATE qr_scan_events SET ip_hash = NULL
+    WHERE ip_hash IS NOT NULL AND scanned_at >= v_start AND scanned_at < v_end;
+    UPDATE bio_link_view_events SET ip_hash = NULL
+    WHERE ip_hash IS NOT NULL AND viewed_at >= v_start AND viewed_at < v_end;
+    UPDATE bio_link_click_events SET ip_hash = NULL
+    WHERE ip_hash IS NOT NULL AND clicked_at >= v_start AND clicked_at < v_end;
+    UPDATE bio_block_click_events SET ip_hash = NULL
+    WHERE ip_hash IS NOT NULL AND clicked_at >= v_start AND clicked_at < v_end;
+
+    v_days := v_days + 1;
+  END LOOP;
+
+  RETURN v_days;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_delete_events(p_before DATE, p_limit INTEGER)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before TIMESTAMPTZ := p_before::timestamp AT TIME ZONE 'UTC';
+  v_count BIGINT;
+  v_total BIGINT := 0;
+BEGIN
+  -- Up to p_limit rows per table; events still carrying a hash haven't
+  -- had their visitors counted yet and are left for the next run.
+  DELETE FROM qr_scan_events WHERE id IN (
+    SELECT id FROM qr_scan_events WHERE scanned_at < v_before AND ip_hash IS NULL LIMIT p_limit
+  );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  DELETE FROM bio_link_view_events WHERE id IN (
+    SELECT id FROM bio_link_view_events WHERE viewed_at < v_before AND ip_hash IS NULL LIMIT p_limit
+  );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  DELETE FROM bio_link_click_events WHERE id IN (
+    SELECT id FROM bio_link_click_events WHERE clicked_at < v_before AND ip_hash IS NULL LIMIT p_limit
+  );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  DELETE FROM bio_block_click_events WHERE id IN (
+    SELECT id FROM bio_block_click_events WHERE clicked_at < v_before AND ip_hash IS NULL LIMIT p_limit
+  );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Service role only (the retention cron), as analytics_daily_salt: these
+-- delete events for every org.
+REVOKE ALL ON FUNCTION analytics_coarsen_events(DATE, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION analytics_delete_events(DATE, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION analytics_coarsen_events(DATE, INTEGER) FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION analytics_delete_events(DATE, INTEGER) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION analytics_coarsen_events(DATE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION analytics_delete_events(DATE, INTEGER) TO service_role;
+
+-- =============================================================================
+-- UNIQUE VISITORS — as 00043, plus the coarsened days
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION analytics_qr_unique_visitors(
+  p_qr_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS TABLE (variant_id TEXT, visitors BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT u.variant_id, SUM(u.visitors)::BIGINT
+  FROM (
+    SELECT e.variant_id, COUNT(DISTINCT e.ip_hash) AS visitors
+    FROM qr_scan_events e
+    WHERE e.qr_id = p_qr_id
+      AND e.scanned_at >= p_from
+      AND e.scanned_at < p_to
+      AND e.ip_hash IS NOT NULL
+      AND (p_include_bots OR NOT e.is_bot)
+    GROUP BY GROUPING SETS ((e.variant_id), ())
+    HAVING GROUPING(e.variant_id) = 1 OR e.variant_id IS NOT NULL
+
+    UNION ALL
+
+    SELECT NULLIF(v.variant_id, ''), SUM(v.visitors)
+    FROM qr_daily_visitors v
+    WHERE v.qr_id = p_qr_id
+      AND v.day::timestamp AT TIME ZONE 'UTC' >= p_from
+      AND v.day::timestamp AT TIME ZONE 'UTC' < p_to
+      AND (p_include_bots OR NOT v.is_bot)
+    GROUP BY GROUPING SETS ((v.variant_id), ())
+    HAVING GROUPING(v.variant_id) = 1 OR v.variant_id <> ''
+  ) u
+  GROUP BY u.variant_id;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_bio_unique_visitors(
+  p_page_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_include_bots BOOLEAN DEFAULT false
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (SELECT COUNT(DISTINCT ip_hash)
+     FROM bio_link_view_events
+     WHERE page_id = p_page_id
+       AND viewed_at >= p_from
+       AND viewed_at < p_to
+       AND ip_hash IS NOT NULL
+       AND (p_include_bots OR NOT is_bot))
+    +
+    (SELECT COALESCE(SUM(visitors), 0)
+     FROM bio_daily_visitors
+     WHERE page_id = p_page_id
+       AND day::timestamp AT TIME ZONE 'UTC' >= p_from
+       AND day::timestamp AT TIME ZONE 'UTC' < p_to
+       AND (p_include_bots OR NOT is_bot))::BIGINT;
+$$;
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- supabase/migrations/00046_code_symbologies.sql
+--
+-- Adds the symbology column to qr_codes: what kind of code is printed.
+-- Additive, non-breaking:
+-- - Default 'qr' keeps every existing row a styled QR code.
+-- - The redirect handler (src/app/r/[slug]/route.ts) does not consult this
+--   column; managed barcodes redirect exactly like managed QR codes.
+-- - EAN-13 and UPC-A encode a GTIN rather than a URL, so they can only be
+--   direct and their destination_url holds the digits.
+
+ALTER TABLE qr_codes
+  ADD COLUMN symbology text NOT NULL DEFAULT 'qr'
+  CHECK (symbology IN ('qr', 'code128', 'ean13', 'upca', 'datamatrix', 'pdf417'));
+
+ALTER TABLE qr_codes
+  ADD CONSTRAINT qr_codes_gtin_direct
+  CHECK (symbology NOT IN ('ean13', 'upca') OR mode = 'direct');
+
+COMMENT ON COLUMN qr_codes.symbology IS
+  'Code type rendered for this row. qr = styled QR code (default); code128, datamatrix and pdf417 carry the managed or direct URL; ean13 and upca are direct-only and destination_url holds the GTIN.';
@@ -0,0 +1,29 @@
+-- supabase/migrations/00047_qr_payloads.sql
+--
+-- Adds structured content to direct QR codes: vCard contacts, Wi-Fi
+-- credentials, SMS, email, geo locations and calendar events.
+-- Additive, non-breaking:
+-- - Default 'url' keeps every existing row a URL code with payload NULL.
+-- - For the other types, payload holds the form fields and
+--   destination_url holds the built text that is actually encoded
+--   (WIFI:…, BEGIN:VCARD…), so exporters and the detail page keep reading
+--   a single column.
+-- - Structured content is baked into the code, so these types are
+--   direct-only; the redirect handler never sees them.
+
+ALTER TABLE qr_codes
+  ADD COLUMN payload_type text NOT NULL DEFAULT 'url'
+  CHECK (payload_type IN ('url', 'vcard', 'wifi', 'sms', 'email', 'geo', 'event'));
+
+ALTER TABLE qr_codes
+  ADD COLUMN payload jsonb;
+
+ALTER TABLE qr_codes
+  ADD CONSTRAINT qr_codes_payload_direct
+  CHECK (payload_type = 'url' OR (mode = 'direct' AND symbology = 'qr' AND payload IS NOT NULL));
+
+COMMENT ON COLUMN qr_codes.payload_type IS
+  'What a direct QR code encodes. url = destination_url is a link (default); other types are built from payload and destination_url holds the encoded text.';
+
+COMMENT ON COLUMN qr_codes.payload IS
+  'Form fields for structured payload types (see QRPayload in src/types/qr.ts). NULL for url codes.';
@@ -0,0 +1,54 @@
+-- supabase/migrations/00048_contact_qr_codes.sql
+--
+-- Adds managed contact codes: payload_type 'contact' makes /r/[slug] serve
+-- a vCard (.vcf) built at scan time instead of redirecting, so editing the
+-- person updates every printed card.
+-- Additive, non-breaking:
+-- - The card is built from a brand kit person (contact_person_id) or a bio
+--   page's contact fields (contact_bio_page_id); exactly one is set when
+--   the code is created.
+-- - ON DELETE SET NULL: if the source is deleted the code falls back to
+--   redirecting to destination_url (the bio page, brand website or app).
+-- - Contact codes are managed, so they get analytics like any other scan.
+
+ALTER TABLE qr_codes
+  DROP CONSTRAINT qr_codes_payload_type_check;
+
+ALTER TABLE qr_codes
+  ADD CONSTRAINT qr_codes_payload_type_check
+  CHECK (payload_type IN ('url', 'vcard', 'wifi', 'sms', 'email', 'geo', 'event', 'contact'));
+
+ALTER TABLE qr_codes
+  ADD COLUMN contact_person_id uuid REFERENCES brand_people(id) ON DELETE SET NULL,
+  ADD COLUMN contact_bio_page_id uuid REFERENCES bio_link_pages(id) ON DELETE SET NULL;
+
+-- Structured payloads stay direct-only; contact codes are managed-only
+ALTER TABLE qr_codes
+  DROP CONSTRAINT qr_codes_payload_direct;
+
+ALTER TABLE qr_codes
+  ADD CONSTRAINT qr_codes_payload_direct
+  CHECK (
+    payload_type = 'url'
+    OR (payload_type = 'contact' AND mode = 'managed')
+    OR (mode = 'direct' AND symbology = 'qr' AND payload IS NOT NULL)
+  );
+
+ALTER TABLE qr_codes
+  ADD CONSTRAINT qr_codes_contact_source
+  CHECK (
+    num_nonnulls(contact_person_id, contact_bio_page_id) <= 1
+    AND (payload_type = 'contact' OR num_nonnulls(contact_person_id, contact_bio_page_id) = 0)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_qr_codes_contact_person
+  ON qr_codes(contact_person_id) WHERE contact_person_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_qr_codes_contact_bio_page
+  ON qr_codes(contact_bio_page_id) WHERE contact_bio_page_id IS NOT NULL;
+
+COMMENT ON COLUMN qr_codes.contact_person_id IS
+  'Brand kit person whose vCard a contact code (payload_type = contact) serves. NULL once the person is deleted.';
+
+COMMENT ON COLUMN qr_codes.contact_bio_page_id IS
+  'Bio page whose contact fields a contact code (payload_type = contact) serves as a vCard. NULL once the page is deleted.';
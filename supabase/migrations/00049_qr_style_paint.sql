@@ -0,0 +1,40 @@
+-- supabase/migrations/00049_qr_style_paint.sql
+--
+-- Adds gradients, per-eye colours and transparent / image backgrounds to
+-- QR styles, plus four module shapes and two eye shapes.
+-- Additive, non-breaking:
+-- - Existing styles keep a flat foreground on a solid background: the
+--   new columns default to 'none' / 'solid', and a null eye colour means
+--   "same as the foreground fill".
+-- - gradient_color is the end colour; foreground_color is the start.
+-- - Background images are JPEGs in the qr-logos bucket under the owner's
+--   folder, named by content hash so a bulk batch shares one file.
+
+ALTER TYPE qr_module_shape ADD VALUE IF NOT EXISTS 'vertical-bars';
+ALTER TYPE qr_module_shape ADD VALUE IF NOT EXISTS 'horizontal-bars';
+ALTER TYPE qr_module_shape ADD VALUE IF NOT EXISTS 'classy';
+ALTER TYPE qr_module_shape ADD VALUE IF NOT EXISTS 'star';
+
+ALTER TYPE qr_eye_shape ADD VALUE IF NOT EXISTS 'leaf';
+ALTER TYPE qr_eye_shape ADD VALUE IF NOT EXISTS 'dot-in-square';
+
+ALTER TABLE qr_styles
+  ADD COLUMN gradient_type TEXT NOT NULL DEFAULT 'none'
+    CHECK (gradient_type IN ('none', 'linear', 'radial')),
+  ADD COLUMN gradient_color TEXT
+    CHECK (gradient_color ~ '^#[0-9A-Fa-f]{6}$'),
+  ADD COLUMN gradient_angle INTEGER NOT NULL DEFAULT 0
+    CHECK (gradient_angle BETWEEN 0 AND 359),
+  ADD COLUMN eye_outer_color TEXT
+    CHECK (eye_outer_color ~ '^#[0-9A-Fa-f]{6}$'),
+  ADD COLUMN eye_inner_color TEXT
+    CHECK (eye_inner_color ~ '^#[0-9A-Fa-f]{6}$'),
+  ADD COLUMN background_mode TEXT NOT NULL DEFAULT 'solid'
+    CHECK (background_mode IN ('solid', 'transparent', 'image')),
+  ADD COLUMN background_image_storage_path TEXT;
+
+COMMENT ON COLUMN qr_styles.gradient_color IS 'Gradient end colour; foreground_color is the start. Unused when gradient_type is none.';
+COMMENT ON COLUMN qr_styles.gradient_angle IS 'Linear gradients: degrees clockwise from left-to-right';
+COMMENT ON COLUMN qr_styles.eye_outer_color IS 'Finder pattern ring colour; null follows the foreground fill';
+COMMENT ON COLUMN qr_styles.eye_inner_color IS 'Finder pattern centre colour; null follows the foreground fill';
+COMMENT ON COLUMN qr_styles.background_image_storage_path IS 'qr-logos bucket path, used when background_mode is image';
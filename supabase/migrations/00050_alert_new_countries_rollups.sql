@@ -0,0 +1,56 @@
+-- supabase/migrations/00050_alert_new_countries_rollups.sql
+--
+-- new_country alerts: decide "seen before" from the hourly country rollups
+-- instead of the raw event tables. Once ANALYTICS_DELETE_AFTER_DAYS is set
+-- the retention job (00045) deletes old events, and countries last seen
+-- before then would otherwise fire as new again. Rollups are never pruned.
+--
+-- Rollups are per hour, so the part of p_since's hour before p_since is
+-- still read from the raw events, which retention hasn't reached.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION alert_new_countries(
+  p_qr_id UUID,
+  p_page_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE (country_code TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH events AS (
+    SELECT s.country_code, s.scanned_at AS at
+    FROM qr_scan_events s
+    WHERE p_qr_id IS NOT NULL AND s.qr_id = p_qr_id AND s.country_code IS NOT NULL
+      AND NOT s.is_bot
+      AND s.scanned_at >= date_trunc('hour', p_since)
+    UNION ALL
+    SELECT v.country_code, v.viewed_at AS at
+    FROM bio_link_view_events v
+    WHERE p_page_id IS NOT NULL AND v.page_id = p_page_id AND v.country_code IS NOT NULL
+      AND NOT v.is_bot
+      AND v.viewed_at >= date_trunc('hour', p_since)
+  ),
+  seen AS (
+    SELECT r.value AS country_code
+    FROM qr_scan_hourly_rollups r
+    WHERE p_qr_id IS NOT NULL AND r.qr_id = p_qr_id
+      AND r.dimension = 'country' AND NOT r.is_bot
+      AND r.hour < date_trunc('hour', p_since)
+    UNION
+    SELECT r.value
+    FROM bio_hourly_rollups r
+    WHERE p_page_id IS NOT NULL AND r.page_id = p_page_id
+      AND r.metric = 'view' AND r.dimension = 'country' AND NOT r.is_bot
+      AND r.hour < date_trunc('hour', p_since)
+    UNION
+    SELECT e.country_code FROM events e WHERE e.at < p_since
+  )
+  SELECT DISTINCT e.country_code
+  FROM events e
+  WHERE e.at >= p_since
+    AND e.country_code NOT IN (SELECT s.country_code FROM seen s);
+$$;
+
+COMMIT;
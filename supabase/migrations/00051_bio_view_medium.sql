@@ -0,0 +1,62 @@
+-- Migration: Bio page view medium
+--
+-- Bio page views get the same medium split as QR scans (00039). A view
+-- opened from a QR scan or NFC tap carries ?m=qr / ?m=nfc: NFC tags
+-- written with the page URL add it, and managed codes pointing at a bio
+-- page pass their own medium on. Anything else is a 'web' visit. Adds
+-- bio_link_view_events.medium and a 'medium' breakdown dimension to the
+-- bio hourly rollups. Views recorded before this migration can't be
+-- attributed, so existing view totals are copied as medium = 'web'.
+
+BEGIN;
+
+ALTER TABLE bio_link_view_events
+  ADD COLUMN IF NOT EXISTS medium TEXT NOT NULL DEFAULT 'web'
+    CHECK (medium IN ('web', 'qr', 'nfc'));
+
+COMMENT ON COLUMN bio_link_view_events.medium IS
+  'How the visitor arrived: web (a link), qr (camera scan) or nfc (tap), from ?m= on /p/[slug].';
+
+ALTER TABLE bio_hourly_rollups
+  DROP CONSTRAINT IF EXISTS bio_hourly_rollups_dimension_check;
+
+ALTER TABLE bio_hourly_rollups
+  ADD CONSTRAINT bio_hourly_rollups_dimension_check
+  CHECK (dimension IN ('total', 'country', 'device', 'os', 'browser', 'referrer', 'link', 'block', 'medium'));
+
+-- Block view inserts until COMMIT so the backfill and the new trigger body
+-- don't both count a view
+LOCK TABLE bio_link_view_events IN SHARE MODE;
+
+CREATE OR REPLACE FUNCTION rollup_bio_view_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bio_hourly_rollups (page_id, hour, metric, is_bot, dimension, value, count)
+  SELECT NEW.page_id, date_trunc('hour', NEW.viewed_at, 'UTC'), 'view', NEW.is_bot, d.dimension, d.value, 1
+  FROM (VALUES
+    ('total', ''),
+    ('country', NEW.country_code),
+    ('device', NEW.device_type::text),
+    ('os', NEW.os_family),
+    ('browser', NEW.browser_family),
+    ('referrer', NEW.referrer_domain),
+    ('medium', NEW.medium)
+  ) AS d(dimension, value)
+  WHERE d.dimension = 'total' OR NULLIF(d.value, '') IS NOT NULL
+  ON CONFLICT (page_id, hour, metric, is_bot, dimension, value)
+  DO UPDATE SET count = bio_hourly_rollups.count + 1;
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO bio_hourly_rollups (page_id, hour, metric, is_bot, dimension, value, count)
+SELECT page_id, hour, metric, is_bot, 'medium', 'web', count
+FROM bio_hourly_rollups
+WHERE metric = 'view' AND dimension = 'total'
+ON CONFLICT DO NOTHING;
+
+COMMIT;